@@ -0,0 +1,133 @@
+/* Zensai service worker: caches the app shell for instant, offline launches
+   and shows journaling reminders sent with Web Push */
+
+// Replaced at build time by the precache plugin in vite.config.ts with the
+// built files (index.html, hashed JS/CSS chunks including the Lottie
+// animations, icons), the font stylesheets linked from index.html and one
+// for the journal fonts in src/data/fonts.ts
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST__ || { version: 'dev', urls: [], fonts: [] };
+
+const SHELL_CACHE = `zensai-shell-${PRECACHE_MANIFEST.version}`;
+const FONT_CACHE = 'zensai-fonts-v1';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const FONT_FILE_PATTERN = /url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/g;
+
+// Cache a font stylesheet and the font files it points to
+const precacheFontStylesheet = async (cache, url) => {
+  const response = await fetch(url);
+  if (!response.ok) return;
+  await cache.put(url, response.clone());
+
+  const css = await response.text();
+  const fontUrls = Array.from(css.matchAll(FONT_FILE_PATTERN), match => match[1]);
+  await Promise.all(fontUrls.map(fontUrl => cache.add(fontUrl)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const shellCache = await caches.open(SHELL_CACHE);
+    await shellCache.addAll(PRECACHE_MANIFEST.urls);
+
+    // Fonts are nice to have offline but shouldn't block installing the shell
+    const fontCache = await caches.open(FONT_CACHE);
+    await Promise.all(
+      PRECACHE_MANIFEST.fonts.map(url => precacheFontStylesheet(fontCache, url).catch(() => undefined))
+    );
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter(key => key.startsWith('zensai-') && key !== SHELL_CACHE && key !== FONT_CACHE)
+        .map(key => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// Serve from cache, falling back to the network and caching what comes back
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Every route is rendered by the single-page app, so navigations get the
+// cached index.html straight away and only hit the network when it's missing
+const handleNavigation = async (request) => {
+  const cached = await caches.match('/index.html');
+  return cached || fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // The dev server isn't precached, so leave its requests alone
+  if (request.method !== 'GET' || PRECACHE_MANIFEST.version === 'dev') return;
+
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+    return;
+  }
+
+  // Supabase, Stripe and other APIs always go to the network
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  event.respondWith(cacheFirst(request, SHELL_CACHE));
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'Zensai';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || 'Take a moment to check in with yourself today.',
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      tag: data.tag || 'zensai',
+      data: { url: data.url || '/home' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = new URL(event.notification.data?.url || '/home', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      // Reuse an open Zensai tab rather than opening another one
+      for (const client of windowClients) {
+        if (client.url.startsWith(self.location.origin) && 'focus' in client) {
+          client.navigate(targetUrl);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
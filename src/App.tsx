@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { motion, AnimatePresence } from 'framer-motion';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { VaultProvider } from './contexts/VaultContext';
 import { useEffect } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useStripe } from './hooks/useStripe';
@@ -14,6 +15,7 @@ const AuthenticatedApp = lazy(() => import('./components/AuthenticatedApp'));
 const LandingPage = lazy(() => import('./components/LandingPage'));
 const PrivacyPage = lazy(() => import('./pages/PrivacyPage'));
 const TermsPage = lazy(() => import('./pages/TermsPage'));
+const RestoreAccountPage = lazy(() => import('./pages/RestoreAccountPage'));
 
 function AppContent() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -145,6 +147,20 @@ function AppContent() {
             </motion.div>
           } 
         />
+        <Route 
+          path="/restore-account" 
+          element={
+            <motion.div
+              key="restore-account"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              transition={{ duration: 0.5 }}
+            >
+              <RestoreAccountPage />
+            </motion.div>
+          } 
+        />
         <Route 
           path="/" 
           element={
@@ -177,9 +193,11 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <Router>
-          <AppContent />
-        </Router>
+        <VaultProvider>
+          <Router>
+            <AppContent />
+          </Router>
+        </VaultProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { LogOut, Calendar, Heart, Sparkles, AlertCircle, CheckCircle, Trophy, Target, BarChart3, BookOpen, Lightbulb, RefreshCw, Save, Volume2, Settings, Crown } from 'lucide-react';
+import { LogOut, Calendar, Heart, Sparkles, AlertCircle, CheckCircle, Trophy, Target, BarChart3, BookOpen, Lightbulb, RefreshCw, Save, Volume2, Settings, Crown, MessageCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useJournal } from '../hooks/useJournal';
 import { usePromptGenerator } from '../hooks/usePromptGenerator';
@@ -9,18 +9,28 @@ import { useAffirmationGenerator } from '../hooks/useAffirmationGenerator';
 import { useMoodQuoteGenerator } from '../hooks/useMoodQuoteGenerator';
 import { useVoiceSynthesis } from '../hooks/useVoiceSynthesis';
 import { usePremium } from '../hooks/usePremium';
+import { useSafetyCheck } from '../hooks/useSafetyCheck';
+import { useReflections } from '../hooks/useReflections';
 import Logo from './Logo';
 import BadgeWidget from './BadgeWidget';
 import UpsellModal from './UpsellModal';
+import SafetyResourcesPanel from './SafetyResourcesPanel';
+import ZenoChatPanel from './ZenoChatPanel';
+import ReflectionCard from './ReflectionCard';
 import LottieAvatar from './LottieAvatar';
 import MoodHistoryScreen from './MoodHistoryScreen';
 import SettingsScreen from './SettingsScreen';
 import BadgesScreen from './BadgesScreen';
 import PremiumPage from './PremiumPage';
 import ToastNotification, { ToastType } from './ToastNotification';
-import { MoodLevel } from '../types';
+import { ConversationMessage, EmotionAnalysis, EntryPrompt, MoodLevel, PromptCategory, SafetyLevel } from '../types';
 import { moods } from '../data/moods';
+import { JOURNAL } from '../constants/uiStrings';
+import { addConversationToEntry } from '../utils/zenoChat';
+import { getAnsweredPrompts } from '../utils/prompts';
 import WelcomeSection from './journal/WelcomeSection';
+import InstallPrompt from './InstallPrompt';
+import PaymentIssueBanner from './PaymentIssueBanner';
 import JournalEntryForm from './journal/JournalEntryForm';
 
 // Define available Lottie animation variants
@@ -31,10 +41,14 @@ export default function AuthenticatedApp() {
   const location = useLocation();
   const { 
     addEntry, 
+    updateEntry,
     entries,
     badges,
+    availableTags,
     getStreak, 
     getBestStreak, 
+    getStreakFreezes,
+    getMissedDays,
     getTotalEntries, 
     hasEntryToday, 
     isLoading: journalLoading,
@@ -45,6 +59,8 @@ export default function AuthenticatedApp() {
   const [selectedMood, setSelectedMood] = useState<MoodLevel>();
   const [journalEntry, setJournalEntry] = useState('');
   const [entryTitle, setEntryTitle] = useState('');
+  const [entryTags, setEntryTags] = useState<string[]>([]);
+  const [entryPrompt, setEntryPrompt] = useState<EntryPrompt | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -53,7 +69,9 @@ export default function AuthenticatedApp() {
   const [dailyPrompt, setDailyPrompt] = useState<string>('');
   const [isLoadingPrompt, setIsLoadingPrompt] = useState(true);
   const [promptError, setPromptError] = useState<string | null>(null);
+  const [promptCategory, setPromptCategory] = useState<PromptCategory | null>(null);
   const [aiDetectedMood, setAiDetectedMood] = useState<MoodLevel | null>(null);
+  const [aiEmotions, setAiEmotions] = useState<EmotionAnalysis | null>(null);
   const [showMoodSuggestion, setShowMoodSuggestion] = useState(false);
   const [affirmation, setAffirmation] = useState<string | null>(null);
   const [showAffirmation, setShowAffirmation] = useState(false);
@@ -65,12 +83,18 @@ export default function AuthenticatedApp() {
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
   const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
   const [randomZenoVariant, setRandomZenoVariant] = useState<string>('greeting');
+  const [safetyLevel, setSafetyLevel] = useState<SafetyLevel>('none');
+  const [showSafetyResources, setShowSafetyResources] = useState(false);
+  const [savedEntry, setSavedEntry] = useState<{ id: string; content: string; title: string | null; mood: MoodLevel } | null>(null);
+  const [isZenoChatOpen, setIsZenoChatOpen] = useState(false);
 
   // Initialize all hooks first before any useCallback that depends on them
   const { generatePrompt } = usePromptGenerator();
   const { analyzeMood, isAnalyzing: isMoodAnalyzing } = useMoodAnalyzer();
   const { generateAffirmation, isGenerating: isGeneratingAffirmation, error: affirmationGenerationError } = useAffirmationGenerator();
   const { generateMoodQuote, isGenerating: isGeneratingMoodQuote, error: moodQuoteError } = useMoodQuoteGenerator();
+  const { checkEntrySafety, resources: crisisResources } = useSafetyCheck();
+  const { latest: latestReflection } = useReflections();
   
   const { 
     generateAndPlaySpeech, 
@@ -129,6 +153,8 @@ export default function AuthenticatedApp() {
 
   const streak = getStreak();
   const bestStreak = getBestStreak();
+  const streakFreezes = getStreakFreezes();
+  const missedDays = getMissedDays();
   const totalEntries = getTotalEntries();
   const alreadyJournaledToday = hasEntryToday(); 
   const currentMood = selectedMood ? moods.find(m => m.level === selectedMood) : undefined;
@@ -229,6 +255,7 @@ export default function AuthenticatedApp() {
       const moodString = selectedMood ? getMoodString(selectedMood) : undefined;
       const newPrompt = await generatePrompt({
         mood: moodString,
+        category: promptCategory ?? undefined,
         previousPrompts: []
       });
       
@@ -240,7 +267,7 @@ export default function AuthenticatedApp() {
     } finally {
       setIsLoadingPrompt(false);
     }
-  }, [selectedMood, generatePrompt, getDailyPrompt, getMoodString]);
+  }, [selectedMood, promptCategory, generatePrompt, getDailyPrompt, getMoodString]);
 
   const handleGenerateNewPrompt = React.useCallback(async () => {
     setIsLoadingPrompt(true);
@@ -250,6 +277,7 @@ export default function AuthenticatedApp() {
       const moodString = selectedMood ? getMoodString(selectedMood) : undefined;
       const newPrompt = await generatePrompt({
         mood: moodString,
+        category: promptCategory ?? undefined,
         previousPrompts: dailyPrompt ? [dailyPrompt] : []
       });
       
@@ -261,7 +289,14 @@ export default function AuthenticatedApp() {
     } finally {
       setIsLoadingPrompt(false);
     }
-  }, [selectedMood, dailyPrompt, generatePrompt, getDailyPrompt, getMoodString]);
+  }, [selectedMood, promptCategory, dailyPrompt, generatePrompt, getDailyPrompt, getMoodString]);
+
+  // A new category loads a fresh prompt, as a new mood does
+  const handleSelectPromptCategory = React.useCallback((category: PromptCategory | null) => {
+    setPromptCategory(category);
+  }, []);
+
+  const answeredPrompts = React.useMemo(() => getAnsweredPrompts(entries), [entries]);
 
   const handleAcceptAiMood = React.useCallback(() => {
     if (aiDetectedMood) {
@@ -276,6 +311,7 @@ export default function AuthenticatedApp() {
   const handleDismissMoodSuggestion = React.useCallback(() => {
     setShowMoodSuggestion(false);
     setAiDetectedMood(null);
+    setAiEmotions(null);
     setMoodConfirmed(true);
     setShowMoodConfirmation(true);
     setTimeout(() => setShowMoodConfirmation(false), 3000);
@@ -299,14 +335,18 @@ export default function AuthenticatedApp() {
     setError('');
     setAffirmationError(null);
     setShowAffirmation(false);
+    setSavedEntry(null);
     
     try {
       // First, analyze the mood using AI
       let detectedMood: MoodLevel | null = null;
+      let detectedEmotions: EmotionAnalysis | null = null;
       let finalMood = selectedMood;
       
       try {
-        detectedMood = await analyzeMood(journalEntry.trim());
+        const analysis = await analyzeMood(journalEntry.trim());
+        detectedMood = analysis?.mood ?? null;
+        detectedEmotions = analysis?.emotions ?? null;
         if (detectedMood) {
           finalMood = detectedMood;
           // Update Zeno's animation based on detected mood
@@ -320,22 +360,35 @@ export default function AuthenticatedApp() {
       setZenoVariant('typing'); // Show typing animation while saving
       
       // Save to database
-      const result = await addEntry(journalEntry.trim(), entryTitle, finalMood, selectedPhoto || undefined);
+      const result = await addEntry(journalEntry.trim(), entryTitle, finalMood, selectedPhoto || undefined, entryTags, detectedEmotions, entryPrompt);
       
       if (!result.success) {
         throw new Error(result.error || 'Failed to save your entry');
       }
 
+      // Check for crisis language before responding, so nothing cheerful follows it
+      const safety = await checkEntrySafety(journalEntry.trim());
+      const isFlagged = safety.level !== 'none';
+      setSafetyLevel(safety.level);
+      if (isFlagged) {
+        setShowSafetyResources(true);
+      } else if (result.entryId) {
+        // Offer a conversation about the entry once it's on the server
+        setSavedEntry({ id: result.entryId, content: journalEntry.trim(), title: entryTitle || null, mood: finalMood });
+      }
+
       // Generate affirmation after successful save
       try {
-        const generatedAffirmation = await generateAffirmation(journalEntry.trim(), finalMood);
+        const generatedAffirmation = await generateAffirmation(journalEntry.trim(), finalMood, safety.level);
         
         if (generatedAffirmation) {
           setAffirmation(generatedAffirmation);
           setShowAffirmation(true);
         } else {
           // Use fallback affirmation if generation fails
-          const fallbackAffirmation = getFallbackAffirmation(finalMood);
+          const fallbackAffirmation = isFlagged
+            ? JOURNAL.SAFETY.FALLBACK_AFFIRMATION
+            : getFallbackAffirmation(finalMood);
           setAffirmation(fallbackAffirmation);
           setShowAffirmation(true);
           setAffirmationError('Sorry, I couldn\'t generate a personalized affirmation. Here\'s some encouragement from my heart!');
@@ -346,7 +399,9 @@ export default function AuthenticatedApp() {
       }
 
       // Generate mood quote for the final mood
-      generateMoodQuoteForMood(finalMood, journalEntry.trim());
+      if (!isFlagged) {
+        generateMoodQuoteForMood(finalMood, journalEntry.trim());
+      }
 
       // Get updated streak for success message
       const newStreak = getStreak();
@@ -373,21 +428,36 @@ export default function AuthenticatedApp() {
         }
       }
       
+      // Streak and badges update once the entry syncs, so don't celebrate them yet
+      if (result.queued) {
+        message = JOURNAL.SUCCESS_MESSAGES.SAVED_OFFLINE;
+      }
+
+      // No streaks or emoji after an entry like this
+      if (isFlagged) {
+        message = JOURNAL.SAFETY.SAVED_MESSAGE;
+      }
+      
       setSuccessMessage(message);
 
       setJournalEntry('');
       setEntryTitle('');
+      setEntryTags([]);
+      setEntryPrompt(null);
       setSelectedMood(undefined);
       setSelectedPhoto(null);
       setAiDetectedMood(null);
+      setAiEmotions(null);
       setShowMoodSuggestion(false);
       setShowMoodQuote(false);
       setZenoVariant('greeting');
       setShowSuccess(true);
 
       setTimeout(() => setShowSuccess(false), 3000);
-      // Keep affirmation visible longer
-      setTimeout(() => setShowAffirmation(false), 8000);
+      // Keep affirmation visible longer, and leave a careful one up until the user moves on
+      if (!isFlagged) {
+        setTimeout(() => setShowAffirmation(false), 8000);
+      }
       // Keep mood quote visible for a moderate duration
       setTimeout(() => setShowMoodQuote(false), 6000);
     } catch (err) {
@@ -395,7 +465,24 @@ export default function AuthenticatedApp() {
     } finally {
       setIsSubmitting(false);
     }
-  }, [journalEntry, entryTitle, selectedMood, selectedPhoto, analyzeMood, getMoodAnimation, addEntry, generateAffirmation, getFallbackAffirmation, generateMoodQuoteForMood, getStreak, getBestStreak, getMoodEncouragement]);
+  }, [journalEntry, entryTitle, entryTags, entryPrompt, selectedMood, selectedPhoto, analyzeMood, getMoodAnimation, addEntry, checkEntrySafety, generateAffirmation, getFallbackAffirmation, generateMoodQuoteForMood, getStreak, getBestStreak, getMoodEncouragement]);
+
+  const handleSaveConversation = React.useCallback(async (messages: ConversationMessage[]): Promise<boolean> => {
+    if (!savedEntry) return false;
+
+    const content = addConversationToEntry(savedEntry.content, messages, {
+      heading: JOURNAL.ZENO_CHAT.TRANSCRIPT_HEADING,
+      user: JOURNAL.ZENO_CHAT.TRANSCRIPT_USER,
+      zeno: JOURNAL.ZENO_CHAT.TRANSCRIPT_ZENO
+    });
+    const result = await updateEntry(savedEntry.id, content, savedEntry.title, savedEntry.mood);
+    if (!result.success) {
+      console.error('Failed to save conversation:', result.error);
+      return false;
+    }
+    setSavedEntry(prev => prev && { ...prev, content });
+    return true;
+  }, [savedEntry, updateEntry]);
 
   // Set a random Zeno variant on component mount
   useEffect(() => {
@@ -448,14 +535,16 @@ export default function AuthenticatedApp() {
   useEffect(() => {
     if (!journalEntry.trim() || journalEntry.length < 20) {
       setAiDetectedMood(null);
+      setAiEmotions(null);
       setShowMoodSuggestion(false);
       return;
     }
 
     const timeoutId = setTimeout(async () => {
-      const detectedMood = await analyzeMood(journalEntry);
-      if (detectedMood && detectedMood !== selectedMood) {
-        setAiDetectedMood(detectedMood);
+      const analysis = await analyzeMood(journalEntry);
+      if (analysis && analysis.mood !== selectedMood) {
+        setAiDetectedMood(analysis.mood);
+        setAiEmotions(analysis.emotions);
         setShowMoodSuggestion(true);
       }
     }, 2000); // Wait 2 seconds after user stops typing
@@ -716,6 +805,12 @@ export default function AuthenticatedApp() {
 
       {/* Main Content */}
       <main className="relative z-10 max-w-4xl mx-auto px-4 pb-8">
+        {/* Failed payment reminder */}
+        <PaymentIssueBanner className="mb-6" />
+
+        {/* Install Prompt */}
+        <InstallPrompt className="mb-6" />
+
         {/* Welcome Section */}
         <WelcomeSection 
           user={user}
@@ -723,9 +818,14 @@ export default function AuthenticatedApp() {
           bestStreak={bestStreak}
           totalEntries={totalEntries}
           alreadyJournaledToday={alreadyJournaledToday}
+          streakFreezes={streakFreezes}
+          missedDays={missedDays}
           contextualMessage={getContextualMessage()}
         />
 
+        {/* Latest Reflection */}
+        {latestReflection && <ReflectionCard reflection={latestReflection} className="mb-8" />}
+
         {/* Zeno Avatar */}
         <motion.div
           className="flex justify-center mb-8"
@@ -808,6 +908,30 @@ export default function AuthenticatedApp() {
           </div>
         </motion.div>
 
+        {/* Invitation to reflect on the entry just saved */}
+        <AnimatePresence>
+          {savedEntry && (
+            <motion.div
+              className="mb-8 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-5 shadow-xl border border-zen-mint-200 dark:border-gray-600 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 10 }}
+            >
+              <div>
+                <p className="font-display font-bold text-zen-sage-800 dark:text-gray-200">{JOURNAL.ZENO_CHAT.START}</p>
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">{JOURNAL.ZENO_CHAT.START_DESC}</p>
+              </div>
+              <button
+                onClick={() => setIsZenoChatOpen(true)}
+                className="flex items-center justify-center space-x-2 px-4 py-2 rounded-2xl bg-zen-mint-500 text-white font-medium hover:bg-zen-mint-600 transition-colors flex-shrink-0"
+              >
+                <MessageCircle className="w-4 h-4" aria-hidden="true" />
+                <span>{JOURNAL.ZENO_CHAT.TITLE}</span>
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Journal Entry Form */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
@@ -818,9 +942,11 @@ export default function AuthenticatedApp() {
               </h3>
               
               <JournalEntryForm
-                onSubmit={async (content, title, mood, photo) => {
+                onSubmit={async (content, title, mood, photo, tags, prompt) => {
                   setJournalEntry(content);
                   setEntryTitle(title || '');
+                  setEntryTags(tags);
+                  setEntryPrompt(prompt);
                   setSelectedMood(mood);
                   setSelectedPhoto(photo);
                   await handleSubmit();
@@ -832,9 +958,14 @@ export default function AuthenticatedApp() {
                 onGenerateNewPrompt={handleGenerateNewPrompt}
                 showMoodSuggestion={showMoodSuggestion}
                 aiDetectedMood={aiDetectedMood}
+                aiEmotions={aiEmotions}
                 onAcceptAiMood={handleAcceptAiMood}
                 onDismissMoodSuggestion={handleDismissMoodSuggestion}
                 isPremiumUser={isPremium}
+                availableTags={availableTags}
+                promptCategory={promptCategory}
+                onSelectPromptCategory={handleSelectPromptCategory}
+                answeredPrompts={answeredPrompts}
                 onUpsellTrigger={() => showUpsellModal({
                   featureName: 'Photo Uploads',
                   featureDescription: 'Add photos to your journal entries to capture special moments.'
@@ -865,6 +996,19 @@ export default function AuthenticatedApp() {
         featureName={upsellContent?.featureName || 'Premium Feature'}
         featureDescription={upsellContent?.featureDescription || 'Upgrade to Zensai Premium to unlock this feature and many more!'}
       />
+
+      <SafetyResourcesPanel
+        isOpen={showSafetyResources}
+        level={safetyLevel}
+        resources={crisisResources}
+        onClose={() => setShowSafetyResources(false)}
+      />
+
+      <ZenoChatPanel
+        entryId={isZenoChatOpen && savedEntry ? savedEntry.id : null}
+        onClose={() => setIsZenoChatOpen(false)}
+        onSave={handleSaveConversation}
+      />
     </div>
   );
 }
\ No newline at end of file
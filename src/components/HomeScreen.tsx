@@ -1,18 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { LogOut, Calendar, Heart, Sparkles, AlertCircle, CheckCircle, Trophy, Target, BarChart3, BookOpen, Lightbulb, RefreshCw, Save, Volume2 } from 'lucide-react';
+import { LogOut, Calendar, Heart, Sparkles, AlertCircle, CheckCircle, Trophy, Target, BarChart3, BookOpen, Lightbulb, RefreshCw, Save, Volume2, Snowflake } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useJournal } from '../hooks/useJournal';
 import { usePromptGenerator } from '../hooks/usePromptGenerator';
 import { useMoodAnalyzer } from '../hooks/useMoodAnalyzer';
 import { useAffirmationGenerator } from '../hooks/useAffirmationGenerator';
 import { useVoiceSynthesis } from '../hooks/useVoiceSynthesis';
+import { useReflections } from '../hooks/useReflections';
 import LottieAvatar from './LottieAvatar';
 import MoodSelector from './MoodSelector';
 import MoodHistoryScreen from './MoodHistoryScreen';
 import VoiceButton from './VoiceButton';
+import InstallPrompt from './InstallPrompt';
+import ReflectionCard from './ReflectionCard';
 import { MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { JOURNAL } from '../constants/uiStrings';
 
 export default function HomeScreen() {
   const { user, logout } = useAuth();
@@ -20,6 +24,7 @@ export default function HomeScreen() {
     addEntry, 
     getStreak, 
     getBestStreak, 
+    getStreakFreezes,
     getTotalEntries, 
     hasEntryToday, 
     isLoading: journalLoading,
@@ -49,6 +54,7 @@ export default function HomeScreen() {
   const { generatePrompt } = usePromptGenerator();
   const { analyzeMood, isAnalyzing: isMoodAnalyzing } = useMoodAnalyzer();
   const { generateAffirmation, isGenerating: isGeneratingAffirmation, error: affirmationGenerationError } = useAffirmationGenerator();
+  const { latest: latestReflection } = useReflections();
   const { 
     generateAndPlaySpeech, 
     stopSpeech, 
@@ -60,6 +66,7 @@ export default function HomeScreen() {
 
   const streak = getStreak();
   const bestStreak = getBestStreak();
+  const streakFreezes = getStreakFreezes();
   const totalEntries = getTotalEntries();
   const alreadyJournaledToday = hasEntryToday();
   const currentMood = selectedMood ? moods.find(m => m.level === selectedMood) : undefined;
@@ -174,7 +181,7 @@ export default function HomeScreen() {
       let finalMood = selectedMood;
       
       try {
-        detectedMood = await analyzeMood(journalEntry.trim());
+        detectedMood = (await analyzeMood(journalEntry.trim()))?.mood ?? null;
         if (detectedMood) {
           finalMood = detectedMood;
           // Update Zeno's animation based on detected mood
@@ -266,7 +273,7 @@ export default function HomeScreen() {
     }
 
     const timeoutId = setTimeout(async () => {
-      const detectedMood = await analyzeMood(journalEntry);
+      const detectedMood = (await analyzeMood(journalEntry))?.mood;
       if (detectedMood && detectedMood !== selectedMood) {
         setAiDetectedMood(detectedMood);
         setShowMoodSuggestion(true);
@@ -570,6 +577,9 @@ export default function HomeScreen() {
 
       {/* Main Content */}
       <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        {/* Install Prompt */}
+        <InstallPrompt className="mb-6" />
+
         {/* Welcome Section */}
         <motion.div
           className="text-center mb-8"
@@ -635,6 +645,24 @@ export default function HomeScreen() {
               </motion.div>
             )}
             
+            {/* Streak Freezes */}
+            {streakFreezes > 0 && (
+              <motion.div
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-zen-lavender-100 to-zen-lavender-200 rounded-full text-zen-sage-700 font-medium"
+                initial={{ scale: 0, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                transition={{ delay: 0.95, type: "spring", stiffness: 200 }}
+                title={JOURNAL.STREAK_FREEZE.HELP}
+              >
+                <Snowflake className="w-4 h-4" />
+                <span>
+                  {streakFreezes === 1
+                    ? JOURNAL.STREAK_FREEZE.COUNT_ONE
+                    : JOURNAL.STREAK_FREEZE.COUNT.replace('{count}', streakFreezes.toString())}
+                </span>
+              </motion.div>
+            )}
+            
             {/* Total Entries */}
             {totalEntries > 0 && (
               <motion.div
@@ -663,6 +691,9 @@ export default function HomeScreen() {
           )}
         </motion.div>
 
+        {/* Latest Reflection */}
+        {latestReflection && <ReflectionCard reflection={latestReflection} className="mb-8" />}
+
         {/* Zeno's Response */}
         <AnimatePresence>
           {currentMood && (
@@ -0,0 +1,82 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, Share, X } from 'lucide-react';
+import { INSTALL } from '../constants/uiStrings';
+import { useInstallPrompt } from '../hooks/useInstallPrompt';
+
+/**
+ * InstallPrompt - Offers to install Zensai to the home screen
+ *
+ * Renders nothing once the app is installed, when the browser can't install
+ * it, or for a while after the user dismisses it.
+ *
+ * @component
+ * @param {string} [className] - Extra classes for positioning
+ *
+ * @example
+ * return <InstallPrompt className="mb-6" />
+ */
+interface InstallPromptProps {
+  className?: string;
+}
+
+const InstallPrompt = React.memo(function InstallPrompt({ className = '' }: InstallPromptProps) {
+  const { canInstall, isIos, shouldShow, install, dismiss } = useInstallPrompt();
+
+  return (
+    <AnimatePresence>
+      {shouldShow && (
+        <motion.aside
+          className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl p-4 shadow-lg border border-zen-mint-200 dark:border-gray-600 flex items-start space-x-3 ${className}`}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          aria-label={INSTALL.TITLE}
+        >
+          <img
+            src="/icons/icon-192.png"
+            alt=""
+            className="w-10 h-10 rounded-xl flex-shrink-0"
+          />
+          <div className="flex-1">
+            <h2 className="font-display font-semibold text-zen-sage-800 dark:text-gray-200">
+              {INSTALL.TITLE}
+            </h2>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-3">
+              {canInstall ? INSTALL.DESCRIPTION : INSTALL.IOS_DESCRIPTION}
+            </p>
+            <div className="flex items-center space-x-2">
+              {canInstall && (
+                <button
+                  onClick={install}
+                  className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white text-sm font-semibold rounded-xl shadow hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300"
+                >
+                  <Download className="w-4 h-4" aria-hidden="true" />
+                  <span>{INSTALL.INSTALL_BUTTON}</span>
+                </button>
+              )}
+              {!canInstall && isIos && (
+                <Share className="w-5 h-5 text-zen-mint-600" aria-hidden="true" />
+              )}
+              <button
+                onClick={dismiss}
+                className="px-3 py-2 text-sm font-medium text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 transition-colors"
+              >
+                {INSTALL.DISMISS}
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={dismiss}
+            className="p-1 text-zen-sage-400 hover:text-zen-sage-600 dark:text-gray-500 dark:hover:text-gray-300 transition-colors"
+            aria-label={INSTALL.DISMISS_LABEL}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+});
+
+export default InstallPrompt;
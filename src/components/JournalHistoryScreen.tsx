@@ -13,7 +13,8 @@ import {
   BookOpen,
   Clock,
   TrendingUp,
-  Eye
+  Eye,
+  CloudOff
 } from 'lucide-react';
 import { useJournal } from '../hooks/useJournal';
 import { useAuth } from '../contexts/AuthContext';
@@ -21,6 +22,7 @@ import LottieAvatar from './LottieAvatar';
 import MoodSelector from './MoodSelector';
 import { MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { HISTORY } from '../constants/uiStrings';
 
 interface JournalHistoryScreenProps {
   onBack: () => void;
@@ -32,6 +34,7 @@ interface JournalEntry {
   mood: string;
   created_at: string;
   updated_at: string;
+  pending_sync?: boolean;
 }
 
 interface GroupedEntries {
@@ -473,6 +476,15 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                                   <span className="text-sm text-zen-sage-600">
                                     {entryMoodData?.label}
                                   </span>
+                                  {entry.pending_sync && (
+                                    <span
+                                      className="flex items-center space-x-1 px-2 py-0.5 text-xs font-medium text-zen-peach-700 bg-zen-peach-100 rounded-full"
+                                      title={HISTORY.SYNC.PENDING_LABEL}
+                                    >
+                                      <CloudOff className="w-3 h-3" />
+                                      <span>{HISTORY.SYNC.PENDING}</span>
+                                    </span>
+                                  )}
                                 </div>
                                 <p className="text-xs text-zen-sage-500 mt-1">
                                   {entry.content.split(' ').length} words
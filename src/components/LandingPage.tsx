@@ -4,6 +4,7 @@ import { Heart, Sparkles, Calendar, TrendingUp, Users, Shield, ArrowRight, Star,
 import { useNavigate } from 'react-router-dom';
 import Logo from './Logo';
 import LottieAvatar from './LottieAvatar';
+import InstallPrompt from './InstallPrompt';
 
 export default function LandingPage() {
   const navigate = useNavigate();
@@ -441,6 +442,9 @@ export default function LandingPage() {
           </motion.div>
         </div>
       </section>
+
+      {/* Install Prompt */}
+      <InstallPrompt className="fixed bottom-4 left-4 right-24 md:right-auto md:w-96 z-50" />
       
       {/* Bolt Badge */}
       <a 
@@ -1,23 +1,31 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, BarChart3 } from 'lucide-react';
+import { ArrowLeft, BarChart3, CloudOff } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useJournal } from '../hooks/useJournal';
 import { usePremium } from '../hooks/usePremium';
+import { useJournalSearch } from '../hooks/useJournalSearch';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useReflections } from '../hooks/useReflections';
 import Logo from './Logo';
 import UpsellModal from './UpsellModal';
-import { MoodLevel } from '../types';
+import { ConversationMessage, Emotion, MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { HISTORY, JOURNAL } from '../constants/uiStrings';
+import { matchesSearchQuery } from '../utils/search';
+import { entryHasEmotion, getEntryEmotions } from '../utils/emotions';
+import { addConversationToEntry } from '../utils/zenoChat';
 
 // Import memoized components
 import MoodStatsOverview from './history/MoodStatsOverview';
 import HistoryFilters from './history/HistoryFilters';
 import JournalEntryCard from './history/JournalEntryCard';
-import HistoryPagination from './history/HistoryPagination';
 import DateGroupHeader from './history/DateGroupHeader';
 import EmptyState from './history/EmptyState';
 import PremiumHistoryLimit from './history/PremiumHistoryLimit';
 import AdvancedAnalytics from './history/AdvancedAnalytics';
+import ReflectionsSection from './history/ReflectionsSection';
+import ZenoChatPanel from './ZenoChatPanel';
 
 interface MoodHistoryScreenProps {
   onBack: () => void;
@@ -32,6 +40,14 @@ interface JournalEntry {
   photo_url?: string | null;
   photo_filename?: string | null;
   title?: string | null;
+  tags?: string[];
+  primary_emotion?: Emotion | null;
+  secondary_emotions?: Emotion[];
+  emotion_intensity?: number | null;
+  emotion_triggers?: string[];
+  prompt?: string | null;
+  is_encrypted?: boolean;
+  pending_sync?: boolean;
 }
 
 interface GroupedEntries {
@@ -41,7 +57,22 @@ interface GroupedEntries {
 export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   const { user } = useAuth();
   const { isPremium, isUpsellModalOpen, upsellContent, showUpsellModal, hideUpsellModal } = usePremium();
-  const { entries, isLoading, error, deleteEntry, updateEntry } = useJournal();
+  const { reflections } = useReflections();
+  const {
+    entries,
+    availableTags,
+    moodCounts,
+    isLoading,
+    error,
+    deleteEntry,
+    updateEntry,
+    loadMoreEntries,
+    hasMoreEntries,
+    isLoadingMore,
+    getTotalEntries,
+    pendingSyncCount,
+    isSyncing
+  } = useJournal();
   
   // Helper functions
   const formatDate = useCallback((dateString: string): string => {
@@ -81,41 +112,82 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   // State management
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMood, setFilterMood] = useState<MoodLevel | 'all'>('all');
-  const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  const [filterTag, setFilterTag] = useState<string | null>(null);
+  const [filterEmotion, setFilterEmotion] = useState<Emotion | null>(null);
+  const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'relevance'>('newest');
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [chatEntry, setChatEntry] = useState<JournalEntry | null>(null);
   
-  const ENTRIES_PER_PAGE = 10;
+  // Full-text search runs on the server so it covers the whole journal, not just loaded entries
+  const { results: searchResults, isSearching, error: searchError } = useJournalSearch(searchTerm);
+  const isSearchActive = searchTerm.trim().length > 0;
+  
+  const searchSnippets = useMemo(() => {
+    return new Map(searchResults.map(result => [result.id, result.snippet]));
+  }, [searchResults]);
+  
+  const searchRanks = useMemo(() => {
+    return new Map(searchResults.map(result => [result.id, result.rank]));
+  }, [searchResults]);
   
   // Memoized filtered and sorted entries
   const filteredEntries = useMemo(() => {
-    let filtered = entries;
+    let filtered: JournalEntry[] = entries;
     
     // Filter by search term
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase();
-      filtered = filtered.filter(entry => 
-        entry.content.toLowerCase().includes(searchLower) ||
-        (entry.title && entry.title.toLowerCase().includes(searchLower))
+    if (isSearchActive) {
+      // The server can't read encrypted or unsynced entries, so those are matched locally
+      const localMatches = entries.filter(entry =>
+        (searchError || entry.is_encrypted || entry.pending_sync) &&
+        matchesSearchQuery(`${entry.title ?? ''} ${entry.content}`, searchTerm)
       );
+      
+      if (searchError) {
+        filtered = localMatches;
+      } else {
+        const loadedEntries = new Map(entries.map(entry => [entry.id, entry]));
+        const serverMatches = searchResults.map(result => loadedEntries.get(result.id) ?? result);
+        filtered = [
+          ...serverMatches,
+          ...localMatches.filter(entry => !searchRanks.has(entry.id))
+        ];
+      }
     }
     
     // Filter by mood
     if (filterMood !== 'all') {
-      filtered = filtered.filter(entry => entry.mood === filterMood);
+      filtered = filtered.filter(entry => entry.mood === getMoodString(filterMood));
+    }
+    
+    // Filter by tag
+    if (filterTag) {
+      filtered = filtered.filter(entry => entry.tags?.includes(filterTag));
+    }
+    
+    // Filter by emotion, primary or secondary
+    if (filterEmotion) {
+      filtered = filtered.filter(entry => entryHasEmotion(entry, filterEmotion));
     }
     
     return filtered;
-  }, [entries, searchTerm, filterMood]);
+  }, [entries, searchTerm, isSearchActive, searchResults, searchRanks, searchError, filterMood, filterTag, filterEmotion]);
+
+  const availableEmotions = useMemo(() => getEntryEmotions(entries), [entries]);
+
+  // Relevance only makes sense while searching
+  const effectiveSortOrder = sortOrder === 'relevance' && !isSearchActive ? 'newest' : sortOrder;
 
   const sortedEntries = useMemo(() => {
     return [...filteredEntries].sort((a, b) => {
       const dateA = new Date(a.created_at).getTime();
       const dateB = new Date(b.created_at).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
+      if (effectiveSortOrder === 'relevance') {
+        return (searchRanks.get(b.id) ?? 0) - (searchRanks.get(a.id) ?? 0) || dateB - dateA;
+      }
+      return effectiveSortOrder === 'newest' ? dateB - dateA : dateA - dateB;
     });
-  }, [filteredEntries, sortOrder]);
+  }, [filteredEntries, effectiveSortOrder, searchRanks]);
 
   const groupedEntries = useMemo(() => {
     return sortedEntries.reduce((groups: GroupedEntries, entry) => {
@@ -129,37 +201,39 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   }, [sortedEntries, getDateKey]);
 
   const groupedDates = useMemo(() => {
+    // For relevance, days are ordered by their best match (the order they were grouped in)
+    if (effectiveSortOrder === 'relevance') {
+      return Object.keys(groupedEntries);
+    }
     return Object.keys(groupedEntries).sort((a, b) => {
       const dateA = new Date(a).getTime();
       const dateB = new Date(b).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
+      return effectiveSortOrder === 'newest' ? dateB - dateA : dateA - dateB;
     });
-  }, [groupedEntries, sortOrder]);
+  }, [groupedEntries, effectiveSortOrder]);
 
-  const totalPages = Math.ceil(groupedDates.length / ENTRIES_PER_PAGE);
-  
-  const paginatedDates = useMemo(() => {
-    const startIndex = (currentPage - 1) * ENTRIES_PER_PAGE;
-    const endIndex = startIndex + ENTRIES_PER_PAGE;
-    return groupedDates.slice(startIndex, endIndex);
-  }, [groupedDates, currentPage, ENTRIES_PER_PAGE]);
+  // Older entries are fetched a page at a time as the user scrolls; search results already cover the whole journal
+  const canLoadMore = hasMoreEntries && !isLoadingMore && !isSearchActive;
+  const loadMoreRef = useInfiniteScroll(loadMoreEntries, canLoadMore);
 
   // Mood statistics
   const moodStats = useMemo(() => {
-    const stats = entries.reduce((acc, entry) => {
+    // Premium totals come from the server since older pages may not be loaded yet
+    const stats = moodCounts ?? entries.reduce((acc, entry) => {
       // Use the mood string as the key
       const moodString = entry.mood;
       acc[moodString] = (acc[moodString] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
+    const total = Object.values(stats).reduce((sum, count) => sum + count, 0);
     
     return moods.map(mood => ({
       ...mood,
       // Map the mood level to the corresponding string key in stats
       count: stats[getMoodString(mood.level)] || 0,
-      percentage: entries.length > 0 ? ((stats[getMoodString(mood.level)] || 0) / entries.length) * 100 : 0
+      percentage: total > 0 ? ((stats[getMoodString(mood.level)] || 0) / total) * 100 : 0
     }));
-  }, [entries]);
+  }, [entries, moodCounts]);
   
   // Helper function to convert mood level to string
   function getMoodString(level: MoodLevel): string {
@@ -173,21 +247,64 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     return moodMap[level];
   }
 
+  // Helper function to convert mood string to level
+  function getMoodLevel(moodString: string): MoodLevel {
+    const moodMap: Record<string, MoodLevel> = {
+      'struggling': 1,
+      'low': 2,
+      'neutral': 3,
+      'good': 4,
+      'amazing': 5
+    };
+    return moodMap[moodString] || 3;
+  }
+
   // Event handlers
   const handleEditEntry = useCallback((entry: JournalEntry) => {
     setEditingEntry(entry);
     setExpandedEntry(entry.id);
   }, []);
 
-  const handleSaveEdit = useCallback(async (entryId: string, updates: Partial<JournalEntry>) => {
+  const handleSaveEdit = useCallback(async (
+    entryId: string,
+    content: string,
+    title: string | null,
+    mood: MoodLevel,
+    tags: string[]
+  ) => {
     try {
-      await updateEntry(entryId, updates);
+      const result = await updateEntry(entryId, content, title, mood, undefined, undefined, tags);
+      if (!result.success) {
+        console.error('Failed to update entry:', result.error);
+        return;
+      }
       setEditingEntry(null);
     } catch (error) {
       console.error('Failed to update entry:', error);
     }
   }, [updateEntry]);
 
+  const handleTalkToZeno = useCallback((entry: JournalEntry) => {
+    setChatEntry(entry);
+  }, []);
+
+  const handleSaveConversation = useCallback(async (messages: ConversationMessage[]): Promise<boolean> => {
+    if (!chatEntry) return false;
+
+    const content = addConversationToEntry(chatEntry.content, messages, {
+      heading: JOURNAL.ZENO_CHAT.TRANSCRIPT_HEADING,
+      user: JOURNAL.ZENO_CHAT.TRANSCRIPT_USER,
+      zeno: JOURNAL.ZENO_CHAT.TRANSCRIPT_ZENO
+    });
+    const result = await updateEntry(chatEntry.id, content, chatEntry.title ?? null, getMoodLevel(chatEntry.mood));
+    if (!result.success) {
+      console.error('Failed to save conversation:', result.error);
+      return false;
+    }
+    setChatEntry(prev => prev && { ...prev, content });
+    return true;
+  }, [chatEntry, updateEntry]);
+
   const handleDeleteEntry = useCallback(async (entryId: string) => {
     if (window.confirm('Are you sure you want to delete this entry? This action cannot be undone.')) {
       try {
@@ -208,11 +325,22 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     setExpandedEntry(expandedEntry === entryId ? null : entryId);
   }, [expandedEntry]);
 
+  const handleSearchChange = useCallback((term: string) => {
+    // Show the best matches first when a search starts, and go back to date order when it's cleared
+    if (term.trim() && !searchTerm.trim()) {
+      setSortOrder('relevance');
+    } else if (!term.trim()) {
+      setSortOrder(prev => prev === 'relevance' ? 'newest' : prev);
+    }
+    setSearchTerm(term);
+  }, [searchTerm]);
+
   const clearFilters = useCallback(() => {
     setSearchTerm('');
     setFilterMood('all');
+    setFilterTag(null);
+    setFilterEmotion(null);
     setSortOrder('newest');
-    setCurrentPage(1);
   }, []);
 
   const handleShowUpsellModal = useCallback(() => {
@@ -317,10 +445,24 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                 Journal Dashboard
               </h1>
               <p className="text-xs text-zen-sage-600 dark:text-gray-400">
-                {filteredEntries.length} of {entries.length} entries
+                {filteredEntries.length} of {Math.max(getTotalEntries(), entries.length)} entries
               </p>
             </div>
           </div>
+
+          {pendingSyncCount > 0 && (
+            <div
+              className="flex items-center space-x-2 px-3 py-1 text-xs font-medium text-zen-peach-700 dark:text-zen-peach-300 bg-zen-peach-100 dark:bg-zen-peach-900/30 rounded-full"
+              role="status"
+            >
+              <CloudOff className="w-4 h-4" aria-hidden="true" />
+              <span>
+                {isSyncing
+                  ? HISTORY.SYNC.SYNCING
+                  : HISTORY.SYNC.WAITING.replace('{count}', pendingSyncCount.toString())}
+              </span>
+            </div>
+          )}
         </div>
       </motion.header>
 
@@ -328,17 +470,33 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
         {/* Mood Statistics Overview */}
         <MoodStatsOverview moodStats={moodStats} />
 
+        {/* Zeno's Reflections */}
+        <ReflectionsSection reflections={reflections} />
+
         {/* Search and Filters */}
         <HistoryFilters
           searchTerm={searchTerm}
-          onSearchChange={setSearchTerm}
+          onSearchChange={handleSearchChange}
           filterMood={filterMood}
           onFilterMoodChange={setFilterMood}
           sortOrder={sortOrder}
           onSortOrderChange={setSortOrder}
+          filterTag={filterTag}
+          onFilterTagChange={setFilterTag}
+          availableTags={availableTags}
+          filterEmotion={filterEmotion}
+          onFilterEmotionChange={setFilterEmotion}
+          availableEmotions={availableEmotions}
           onClearFilters={clearFilters}
+          isSearching={isSearching}
         />
 
+        {searchError && isSearchActive && (
+          <p className="-mt-6 mb-8 px-2 text-sm text-zen-peach-700 dark:text-zen-peach-300" role="status">
+            {searchError}
+          </p>
+        )}
+
         {/* Advanced Analytics Section (Premium Feature) */}
         <AdvancedAnalytics 
           isPremium={isPremium} 
@@ -353,14 +511,16 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
 
         {/* Entries Timeline */}
         <div className="space-y-8">
-          {paginatedDates.length === 0 ? (
+          {groupedDates.length === 0 ? (
             <EmptyState 
               searchTerm={searchTerm} 
               filterMood={filterMood === 'all' ? 'all' : moods.find(m => m.level === filterMood)?.label || 'all'} 
+              filterTag={filterTag}
+              filterEmotion={filterEmotion}
               onClearFilters={clearFilters} 
             />
           ) : (
-            paginatedDates.map((dateKey, dateIndex) => {
+            groupedDates.map((dateKey, dateIndex) => {
               const dayEntries = groupedEntries[dateKey];
               
               return (
@@ -369,7 +529,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                   className="relative"
                   initial={{ opacity: 0, y: 30 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: dateIndex * 0.1 }}
+                  transition={{ delay: Math.min(dateIndex, 5) * 0.1 }}
                 >
                   {/* Date Header */}
                   <DateGroupHeader 
@@ -392,7 +552,12 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                         onSaveEdit={handleSaveEdit}
                         onCancelEdit={() => setEditingEntry(null)}
                         index={entryIndex}
-                        delay={dateIndex * 0.1 + entryIndex * 0.05}
+                        delay={Math.min(dateIndex, 5) * 0.1 + entryIndex * 0.05}
+                        availableTags={availableTags}
+                        onTagClick={setFilterTag}
+                        onEmotionClick={setFilterEmotion}
+                        searchSnippet={searchSnippets.get(entry.id)}
+                        onTalkToZeno={handleTalkToZeno}
                       />
                     ))}
                   </div>
@@ -402,14 +567,29 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
           )}
         </div>
 
-        {/* Pagination */}
-        <HistoryPagination 
-          currentPage={currentPage}
-          totalPages={totalPages}
-          onPageChange={setCurrentPage}
-        />
+        {/* Infinite scroll */}
+        {hasMoreEntries && !isSearchActive && (
+          <div ref={loadMoreRef} className="mt-12 flex justify-center">
+            <button
+              onClick={loadMoreEntries}
+              disabled={isLoadingMore}
+              className="flex items-center space-x-2 px-6 py-2 bg-white/80 dark:bg-gray-800/80 text-zen-sage-700 dark:text-gray-300 rounded-xl shadow hover:bg-white dark:hover:bg-gray-700 disabled:opacity-60 transition-colors"
+            >
+              {isLoadingMore && (
+                <div className="w-4 h-4 border-2 border-zen-mint-400 border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+              )}
+              <span>{isLoadingMore ? HISTORY.LOADING_MORE : HISTORY.LOAD_MORE}</span>
+            </button>
+          </div>
+        )}
       </div>
 
+      <ZenoChatPanel
+        entryId={chatEntry?.id ?? null}
+        onClose={() => setChatEntry(null)}
+        onSave={handleSaveConversation}
+      />
+
       {/* Upsell Modal */}
       <UpsellModal
         isOpen={isUpsellModalOpen}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CreditCard, X } from 'lucide-react';
+import { PAYMENT_ISSUE } from '../constants/uiStrings';
+import { usePremium } from '../hooks/usePremium';
+import { useStripe } from '../hooks/useStripe';
+
+/**
+ * PaymentIssueBanner - Asks the user to fix their card after a renewal payment fails
+ *
+ * Shown while the subscription is past due, both during the grace period and
+ * after premium has been paused. Hiding it only lasts for the current visit.
+ *
+ * @component
+ * @param {string} [className] - Extra classes for positioning
+ *
+ * @example
+ * return <PaymentIssueBanner className="mb-6" />
+ */
+interface PaymentIssueBannerProps {
+  className?: string;
+}
+
+const PaymentIssueBanner = React.memo(function PaymentIssueBanner({ className = '' }: PaymentIssueBannerProps) {
+  const { isPremium, isPastDue, gracePeriodEndsAt } = usePremium();
+  const { redirectToCustomerPortal, isLoading, error } = useStripe();
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const handleUpdatePayment = async () => {
+    const portalUrl = await redirectToCustomerPortal();
+    if (portalUrl) {
+      window.location.href = portalUrl;
+    }
+  };
+
+  const message = isPremium && gracePeriodEndsAt
+    ? PAYMENT_ISSUE.GRACE_MESSAGE.replace('{date}', gracePeriodEndsAt.toLocaleDateString('en-US', {
+        month: 'long',
+        day: 'numeric'
+      }))
+    : PAYMENT_ISSUE.EXPIRED_MESSAGE;
+
+  return (
+    <AnimatePresence>
+      {isPastDue && !isDismissed && (
+        <motion.aside
+          className={`bg-zen-peach-50 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl p-4 shadow-lg border border-zen-peach-200 dark:border-zen-peach-700 flex items-start space-x-3 ${className}`}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="alert"
+        >
+          <CreditCard className="w-6 h-6 text-zen-peach-500 flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <div className="flex-1">
+            <h2 className="font-display font-semibold text-zen-sage-800 dark:text-gray-200">
+              {PAYMENT_ISSUE.TITLE}
+            </h2>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-3">{message}</p>
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error}</p>
+            )}
+            <button
+              onClick={handleUpdatePayment}
+              disabled={isLoading}
+              className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-zen-peach-400 to-zen-peach-500 text-white text-sm font-semibold rounded-xl shadow hover:from-zen-peach-500 hover:to-zen-peach-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+            >
+              <CreditCard className="w-4 h-4" aria-hidden="true" />
+              <span>{isLoading ? PAYMENT_ISSUE.OPENING : PAYMENT_ISSUE.UPDATE_BUTTON}</span>
+            </button>
+          </div>
+          <button
+            onClick={() => setIsDismissed(true)}
+            className="p-1 text-zen-sage-400 hover:text-zen-sage-600 dark:text-gray-500 dark:hover:text-gray-300 transition-colors"
+            aria-label={PAYMENT_ISSUE.DISMISS_LABEL}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+});
+
+export default PaymentIssueBanner;
@@ -1,11 +1,15 @@
 import React, { useState, useCallback } from 'react';
 import { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Crown, AlertCircle } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Crown, AlertCircle, CheckCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext'; 
 import { useJournal } from '../hooks/useJournal';
+import { AppliedCode, useRewards } from '../hooks/useRewards';
+import { BillingPlan, PlanChangePreview, useStripe } from '../hooks/useStripe';
 import { PREMIUM } from '../constants/uiStrings';
 import { supabase } from '../lib/supabase';
+import { formatMoney } from '../utils/discounts';
 import Logo from './Logo';
 
 // Import memoized components
@@ -16,6 +20,7 @@ import CurrentSubscriptionCard from './premium/CurrentSubscriptionCard';
 import PlanToggle from './premium/PlanToggle';
 import BenefitsSection from './premium/BenefitsSection';
 import PlanSelectionButtons from './premium/PlanSelectionButtons';
+import PlanChangeConfirmation from './premium/PlanChangeConfirmation';
 
 interface PremiumPageProps {
   onBack: () => void;
@@ -23,7 +28,25 @@ interface PremiumPageProps {
 
 export default function PremiumPage({ onBack }: PremiumPageProps) {
   const { user } = useAuth();
-  const { profile } = useJournal();
+  const { profile, refreshData } = useJournal();
+  const {
+    gifts,
+    referrals,
+    isCheckingCode,
+    error: codeError,
+    checkCode,
+    redeemGiftCode,
+    refreshRewards,
+    clearError: clearCodeError
+  } = useRewards();
+  const {
+    previewPlanChange,
+    changePlan,
+    isLoading: isChangingPlan,
+    error: planChangeError
+  } = useStripe();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [priceIDs, setPriceIDs] = useState({
     monthly: '',
@@ -31,6 +54,9 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
   });
   const [error, setError] = useState('');
   const [selectedPlan, setSelectedPlan] = useState<'monthly' | 'yearly'>('yearly');
+  const [appliedCode, setAppliedCode] = useState<AppliedCode | null>(null);
+  const [notice, setNotice] = useState('');
+  const [planChangePreview, setPlanChangePreview] = useState<PlanChangePreview | null>(null);
 
   // Load price IDs from environment variables
   useEffect(() => {
@@ -43,14 +69,99 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
     });
   }, []);
 
+  // Thank gift buyers on their way back from Stripe; the webhook creates the code
+  useEffect(() => {
+    const query = new URLSearchParams(location.search);
+    if (query.get('gift') !== 'purchased') return;
+
+    setNotice(PREMIUM.GIFT.PURCHASED);
+    navigate('/premium', { replace: true });
+    const timer = setTimeout(refreshRewards, 3000);
+    return () => clearTimeout(timer);
+  }, [location, navigate, refreshRewards]);
+
+  /**
+   * Checks a typed code and applies it if it can be used
+   * @param {string} code - Promotion, gift or referral code
+   */
+  const handleApplyCode = useCallback(async (code: string) => {
+    setNotice('');
+    const applied = await checkCode(code);
+    if (applied) {
+      setAppliedCode(applied);
+    }
+  }, [checkCode]);
+
+  const handleRemoveCode = useCallback(() => {
+    setAppliedCode(null);
+    clearCodeError();
+  }, [clearCodeError]);
+
+  /**
+   * Redeems the applied gift code and shows what the user got
+   */
+  const handleRedeemGift = useCallback(async () => {
+    if (!appliedCode) return;
+
+    const credit = await redeemGiftCode(appliedCode.code);
+    if (!credit) return;
+
+    setAppliedCode(null);
+    setNotice(credit.kind === 'premium_time'
+      ? PREMIUM.CODES.REDEEMED_TIME.replace('{date}', new Date(credit.premium_until).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      }))
+      : PREMIUM.CODES.REDEEMED_CREDIT.replace('{amount}', formatMoney(credit.amount_cents, credit.currency)));
+    refreshData();
+  }, [appliedCode, redeemGiftCode, refreshData]);
+
+  /**
+   * Shows what switching to the selected plan costs before the user confirms
+   * @param {BillingPlan} plan - The plan to switch to
+   */
+  const handlePreviewPlanChange = useCallback(async (plan: BillingPlan) => {
+    setNotice('');
+    setPlanChangePreview(await previewPlanChange(plan));
+  }, [previewPlanChange]);
+
+  /**
+   * Makes a plan switch. `subscription_tier` is updated by the webhook, so the
+   * profile is loaded again once Stripe has had a moment to report the change.
+   * @param {BillingPlan} plan - The plan to switch to, or the current plan to call off a scheduled switch
+   * @param {number|null} prorationDate - From the preview, so an upgrade charges what was shown
+   */
+  const handleChangePlan = useCallback(async (plan: BillingPlan, prorationDate: number | null) => {
+    const change = await changePlan(plan, prorationDate);
+    if (!change) return;
+
+    const planName = plan === 'yearly' ? PREMIUM.YEARLY.NAME : PREMIUM.MONTHLY.NAME;
+    setPlanChangePreview(null);
+    setNotice(change.kind === 'upgrade'
+      ? PREMIUM.PLAN_CHANGE.UPGRADED.replace('{plan}', planName)
+      : change.kind === 'downgrade'
+        ? PREMIUM.PLAN_CHANGE.DOWNGRADE_SCHEDULED
+          .replace('{plan}', planName)
+          .replace('{date}', new Date(change.effective_at).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          }))
+        : PREMIUM.PLAN_CHANGE.KEPT_PLAN.replace('{plan}', planName));
+    refreshData();
+    setTimeout(refreshData, 3000);
+  }, [changePlan, refreshData]);
+
   /**
    * Handles subscription process by creating a Stripe checkout session
-   * @param {string} priceId - The Stripe price ID for the selected plan
+   * @param {string} priceId - The Stripe price ID for the selected plan, or empty when buying a gift
+   * @param {boolean} [gift=false] - Whether to buy a year of Premium as a gift instead
    */
-  const handleSubscribe = useCallback(async (priceId: string) => {
+  const handleSubscribe = useCallback(async (priceId: string, gift: boolean = false) => {
     if (!user) return;
     
-    if (!priceId) {
+    if (!priceId && !gift) {
       setError('Price ID is missing. Please check your environment configuration.');
       return;
     }
@@ -63,12 +174,9 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
       
       // Call the Supabase Edge Function to create a checkout session
       const { data, error: functionError } = await supabase.functions.invoke('create-checkout-session', {
-        body: {
-          priceId,
-          userId: user.id,
-          email: user.email,
-          name: user.name
-        }
+        body: gift
+          ? { gift: true, name: user.name }
+          : { priceId, name: user.name, code: appliedCode?.code }
       });
       
       if (functionError) {
@@ -98,10 +206,18 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, appliedCode]);
 
-  const isSubscribed = profile?.subscription_status === 'premium';
+  // Gifted premium has no renewals, so it counts only until it runs out
+  const isSubscribed = profile?.subscription_status === 'premium' &&
+    (!profile.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
+  const isGifted = Boolean(profile?.gifted_premium_until) &&
+    profile?.gifted_premium_until === profile?.subscription_expires_at;
   const isYearlySubscriber = profile?.subscription_tier === 'premium_plus';
+  // Only paid subscriptions have a Stripe plan to switch
+  const currentPlan: BillingPlan | null = isSubscribed && !isGifted
+    ? (isYearlySubscriber ? 'yearly' : 'monthly')
+    : null;
   
   // Determine if we can enable the subscribe button
   const canSubscribe = priceIDs.monthly && priceIDs.yearly;
@@ -191,17 +307,42 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
       {/* Main Content */}
       <div className="relative z-10 container mx-auto max-w-6xl px-4 py-8">
         {/* Current Subscription Status */}
-        {isSubscribed && (
-          <CurrentSubscriptionCard
-            isSubscribed={isSubscribed}
-            subscriptionTier={profile?.subscription_tier || 'free'}
-            expiryDate={expiryDate}
-          />
-        )}
+        <CurrentSubscriptionCard
+          isSubscribed={isSubscribed}
+          subscriptionTier={profile?.subscription_tier || 'free'}
+          expiryDate={expiryDate}
+          isGifted={isGifted}
+          discount={profile?.billing_discount ?? null}
+          referralCode={profile?.referral_code ?? null}
+          referrals={referrals}
+          gifts={gifts}
+          scheduledTier={profile?.scheduled_tier ?? null}
+          scheduledTierAt={profile?.scheduled_tier_at ?? null}
+          onKeepPlan={() => currentPlan && handleChangePlan(currentPlan, null)}
+          isChangingPlan={isChangingPlan}
+        />
+
+        {/* Gift and Plan Change Notices */}
+        <AnimatePresence>
+          {notice && (
+            <motion.div
+              className="mb-8 bg-zen-mint-50 dark:bg-zen-mint-900/20 border border-zen-mint-200 dark:border-zen-mint-800 rounded-xl p-4"
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              role="status"
+            >
+              <div className="flex items-center space-x-2">
+                <CheckCircle className="w-5 h-5 text-zen-mint-500" aria-hidden="true" />
+                <p className="text-zen-mint-800 dark:text-zen-mint-300 text-sm">{notice}</p>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
 
         {/* Error Message */}
         <AnimatePresence>
-          {error && (
+          {(error || planChangeError) && (
             <motion.div
               className="mb-8 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4"
               initial={{ opacity: 0, y: -10 }}
@@ -212,12 +353,24 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
             >
               <div className="flex items-center space-x-2">
                 <AlertCircle className="w-5 h-5 text-red-500" aria-hidden="true" />
-                <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+                <p className="text-red-700 dark:text-red-300 text-sm">{error || planChangeError}</p>
               </div>
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Plan Change Confirmation */}
+        <AnimatePresence>
+          {planChangePreview && (
+            <PlanChangeConfirmation
+              preview={planChangePreview}
+              onConfirm={() => handleChangePlan(planChangePreview.plan, planChangePreview.proration_date)}
+              onCancel={() => setPlanChangePreview(null)}
+              isLoading={isChangingPlan}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Benefits Section */}
         <BenefitsSection />
         
@@ -225,13 +378,24 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
         <PlanSelectionButtons
           selectedPlan={selectedPlan}
           onSelectPlan={setSelectedPlan}
-          onSubscribe={() => handleSubscribe(
-            selectedPlan === 'monthly' 
-              ? import.meta.env.VITE_STRIPE_PRICE_ID_MONTHLY 
-              : import.meta.env.VITE_STRIPE_PRICE_ID_YEARLY
-          )}
-          isLoading={isLoading}
+          onSubscribe={() => appliedCode?.type === 'gift'
+            ? handleRedeemGift()
+            : currentPlan
+              ? handlePreviewPlanChange(selectedPlan)
+              : handleSubscribe(
+                selectedPlan === 'monthly' 
+                  ? import.meta.env.VITE_STRIPE_PRICE_ID_MONTHLY 
+                  : import.meta.env.VITE_STRIPE_PRICE_ID_YEARLY
+              )}
+          isLoading={isLoading || isChangingPlan}
           isSubscribed={isSubscribed}
+          currentPlan={currentPlan}
+          appliedCode={appliedCode}
+          onApplyCode={handleApplyCode}
+          onRemoveCode={handleRemoveCode}
+          isCheckingCode={isCheckingCode}
+          codeError={codeError}
+          onGift={() => handleSubscribe('', true)}
         />
 
         {/* Features Section */}
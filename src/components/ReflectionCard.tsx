@@ -0,0 +1,141 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles, TrendingUp, TrendingDown, Minus, Activity, Compass } from 'lucide-react';
+import { REFLECTIONS } from '../constants/uiStrings';
+import { MoodDirection, Reflection } from '../types';
+import { formatReflectionPeriod, getMoodArcBars } from '../utils/reflections';
+
+const DIRECTION_ICONS: Record<MoodDirection, typeof TrendingUp> = {
+  rising: TrendingUp,
+  falling: TrendingDown,
+  steady: Minus,
+  mixed: Activity
+};
+
+/**
+ * ReflectionCard - Zeno's look back over a week or month of journaling
+ *
+ * @component
+ * @param {Reflection} reflection - The reflection to show
+ * @param {string} [className] - Extra classes for positioning
+ *
+ * @example
+ * return latest && <ReflectionCard reflection={latest} className="mb-6" />
+ */
+interface ReflectionCardProps {
+  reflection: Reflection;
+  className?: string;
+}
+
+const ReflectionCard = React.memo(function ReflectionCard({ reflection, className = '' }: ReflectionCardProps) {
+  const bars = getMoodArcBars(reflection);
+  const DirectionIcon = reflection.mood_direction ? DIRECTION_ICONS[reflection.mood_direction] : null;
+  const periodLabel = formatReflectionPeriod(reflection);
+
+  return (
+    <motion.article
+      className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-zen-lavender-200 dark:border-gray-600 ${className}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      aria-labelledby={`reflection-${reflection.id}-title`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Sparkles className="w-5 h-5 text-zen-lavender-500" aria-hidden="true" />
+          <h3 id={`reflection-${reflection.id}-title`} className="font-display font-bold text-zen-sage-800 dark:text-gray-200">
+            {REFLECTIONS.TITLES[reflection.period]}
+          </h3>
+        </div>
+        <div className="text-right">
+          <p className="text-sm font-medium text-zen-sage-700 dark:text-gray-300">{periodLabel}</p>
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+            {REFLECTIONS.ENTRY_COUNT.replace('{count}', reflection.entry_count.toString())}
+          </p>
+        </div>
+      </div>
+
+      <p className="text-zen-sage-700 dark:text-gray-300 leading-relaxed mb-4">{reflection.summary}</p>
+
+      {reflection.mood_arc.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-zen-sage-500 dark:text-gray-400">
+              {REFLECTIONS.MOOD_ARC.replace('{period}', reflection.period)}
+            </h4>
+            {DirectionIcon && reflection.mood_direction && (
+              <span className="flex items-center space-x-1 text-xs text-zen-sage-600 dark:text-gray-400">
+                <DirectionIcon className="w-4 h-4" aria-hidden="true" />
+                <span>{REFLECTIONS.MOOD_DIRECTIONS[reflection.mood_direction]}</span>
+              </span>
+            )}
+          </div>
+          <div className="flex items-end h-12 gap-0.5" role="list">
+            {bars.map(bar => (
+              <div
+                key={bar.date}
+                role="listitem"
+                className="flex-1 h-full flex items-end"
+                aria-label={bar.average === null
+                  ? REFLECTIONS.MOOD_ARC_EMPTY_DAY.replace('{date}', bar.date)
+                  : REFLECTIONS.MOOD_ARC_DAY.replace('{date}', bar.date).replace('{average}', bar.average.toString())}
+              >
+                <div
+                  className={`w-full rounded-t ${bar.height === null ? 'bg-zen-sage-100 dark:bg-gray-700' : 'bg-gradient-to-t from-zen-mint-400 to-zen-lavender-400'}`}
+                  style={{ height: bar.height === null ? '8%' : `${bar.height}%` }}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {reflection.themes.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-zen-sage-500 dark:text-gray-400 mb-2">
+            {REFLECTIONS.THEMES}
+          </h4>
+          <ul className="flex flex-wrap gap-2">
+            {reflection.themes.map(theme => (
+              <li
+                key={theme}
+                className="px-3 py-1 rounded-full text-sm bg-zen-lavender-100 dark:bg-gray-700 text-zen-lavender-700 dark:text-zen-lavender-300"
+              >
+                {theme}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {reflection.wins.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-zen-sage-500 dark:text-gray-400 mb-2">
+            {REFLECTIONS.WINS}
+          </h4>
+          <ul className="space-y-1 text-sm text-zen-sage-700 dark:text-gray-300">
+            {reflection.wins.map(win => (
+              <li key={win} className="flex items-start space-x-2">
+                <span className="text-zen-mint-500" aria-hidden="true">✓</span>
+                <span>{win}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {reflection.intention && (
+        <div className="flex items-start space-x-3 p-3 rounded-2xl bg-zen-mint-50 dark:bg-gray-700">
+          <Compass className="w-5 h-5 text-zen-mint-600 flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-zen-mint-700 dark:text-zen-mint-300">
+              {REFLECTIONS.INTENTION.replace('{period}', reflection.period)}
+            </h4>
+            <p className="text-sm text-zen-sage-700 dark:text-gray-300">{reflection.intention}</p>
+          </div>
+        </div>
+      )}
+    </motion.article>
+  );
+});
+
+export default ReflectionCard;
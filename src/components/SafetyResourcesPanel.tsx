@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Heart, Phone, MessageSquare, Globe } from 'lucide-react';
+import { JOURNAL } from '../constants/uiStrings';
+import { CrisisResources, SafetyLevel } from '../types';
+
+/**
+ * Seconds before the panel can be closed, so it is read rather than dismissed on reflex
+ */
+export const SAFETY_PANEL_LOCK_SECONDS = 8;
+
+/**
+ * SafetyResourcesPanel - Offers helplines after an entry with suicidal or self-harm language
+ *
+ * @component
+ * @param {boolean} isOpen - Whether the panel is visible
+ * @param {SafetyLevel} level - How serious the entry's language was
+ * @param {CrisisResources} resources - Helplines for the user's region
+ * @param {function} onClose - Function to call when the user closes the panel
+ *
+ * @example
+ * return (
+ *   <SafetyResourcesPanel
+ *     isOpen={showSafetyResources}
+ *     level="crisis"
+ *     resources={resources}
+ *     onClose={() => setShowSafetyResources(false)}
+ *   />
+ * )
+ */
+interface SafetyResourcesPanelProps {
+  isOpen: boolean;
+  level: SafetyLevel;
+  resources: CrisisResources;
+  onClose: () => void;
+}
+
+const SafetyResourcesPanel = React.memo(function SafetyResourcesPanel({
+  isOpen,
+  level,
+  resources,
+  onClose
+}: SafetyResourcesPanelProps) {
+  const { SAFETY } = JOURNAL;
+  const [secondsLeft, setSecondsLeft] = useState(SAFETY_PANEL_LOCK_SECONDS);
+  const firstLinkRef = useRef<HTMLAnchorElement>(null);
+  const canClose = secondsLeft === 0;
+
+  // Restart the wait each time the panel opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setSecondsLeft(SAFETY_PANEL_LOCK_SECONDS);
+    firstLinkRef.current?.focus();
+
+    const interval = setInterval(() => {
+      setSecondsLeft(prev => {
+        if (prev <= 1) {
+          clearInterval(interval);
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && canClose) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, canClose, onClose]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="safety-title"
+          aria-describedby="safety-message"
+        >
+          <motion.div
+            className="bg-white dark:bg-gray-800 rounded-3xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl"
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="w-10 h-10 rounded-full bg-zen-peach-100 dark:bg-gray-700 flex items-center justify-center flex-shrink-0">
+                <Heart className="w-5 h-5 text-zen-peach-500" aria-hidden="true" />
+              </div>
+              <h2 id="safety-title" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200">
+                {level === 'crisis' ? SAFETY.TITLE_CRISIS : SAFETY.TITLE_CONCERN}
+              </h2>
+            </div>
+
+            <p id="safety-message" className="text-zen-sage-700 dark:text-gray-300 mb-4">
+              {SAFETY.MESSAGE}
+            </p>
+
+            <ul className="space-y-3 mb-4">
+              {resources.lines.map((line, index) => (
+                <li
+                  key={line.name}
+                  className="p-4 rounded-2xl bg-zen-mint-50 dark:bg-gray-700 border border-zen-mint-100 dark:border-gray-600"
+                >
+                  <p className="font-semibold text-zen-sage-800 dark:text-gray-200">{line.name}</p>
+                  <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-2">{line.description}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {line.phone && (
+                      <a
+                        ref={index === 0 ? firstLinkRef : undefined}
+                        href={`tel:${line.phone.replace(/\s/g, '')}`}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-xl bg-zen-mint-500 text-white text-sm font-medium hover:bg-zen-mint-600 transition-colors"
+                      >
+                        <Phone className="w-4 h-4" aria-hidden="true" />
+                        <span>{SAFETY.CALL.replace('{number}', line.phone)}</span>
+                      </a>
+                    )}
+                    {line.sms && (
+                      <a
+                        ref={index === 0 && !line.phone ? firstLinkRef : undefined}
+                        href={`sms:${line.sms}${line.textKeyword ? `?&body=${encodeURIComponent(line.textKeyword)}` : ''}`}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-xl bg-white dark:bg-gray-800 text-zen-mint-700 dark:text-zen-mint-300 text-sm font-medium border border-zen-mint-200 dark:border-gray-600 hover:bg-zen-mint-100 dark:hover:bg-gray-600 transition-colors"
+                      >
+                        <MessageSquare className="w-4 h-4" aria-hidden="true" />
+                        <span>
+                          {line.textKeyword
+                            ? SAFETY.TEXT_KEYWORD.replace('{keyword}', line.textKeyword).replace('{number}', line.sms)
+                            : SAFETY.TEXT.replace('{number}', line.sms)}
+                        </span>
+                      </a>
+                    )}
+                    {line.url && (
+                      <a
+                        ref={index === 0 && !line.phone && !line.sms ? firstLinkRef : undefined}
+                        href={line.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-xl text-zen-sage-700 dark:text-gray-300 text-sm font-medium hover:bg-zen-sage-100 dark:hover:bg-gray-600 transition-colors"
+                      >
+                        <Globe className="w-4 h-4" aria-hidden="true" />
+                        <span>{SAFETY.VISIT}</span>
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 mb-2">
+              {resources.emergencyNumber
+                ? SAFETY.EMERGENCY.replace('{number}', resources.emergencyNumber)
+                : SAFETY.EMERGENCY_UNKNOWN}
+            </p>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-6">
+              {SAFETY.TRUSTED_PERSON}
+            </p>
+
+            <button
+              onClick={onClose}
+              disabled={!canClose}
+              className="w-full py-3 rounded-2xl bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300 font-medium hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+            >
+              {canClose ? SAFETY.CLOSE : SAFETY.CLOSE_WAIT.replace('{seconds}', String(secondsLeft))}
+            </button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
+
+export default SafetyResourcesPanel;
@@ -3,18 +3,30 @@ import { motion } from 'framer-motion';
 import { ArrowLeft, User, Settings as SettingsIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { useVault } from '../hooks/useVault';
 import { supabase } from '../lib/supabase';
 import { usePremium } from '../hooks/usePremium';
+import { useReminders, ReminderPreferences } from '../hooks/useReminders';
+import { useJournalImport } from '../hooks/useJournalImport';
+import { useSubscriptionHistory } from '../hooks/useSubscriptionHistory';
 import UpsellModal from './UpsellModal';
 import Logo from './Logo';
 import { useNavigate } from 'react-router-dom';
+import { SETTINGS } from '../constants/uiStrings';
+import { DeletionStep, PromptGoal } from '../types';
+import { getBrowserTimezone, getLocalDateString } from '../utils/dates';
+import { ExportOptions, downloadBlob, getExportFileName, toExportBlob } from '../utils/exportFiles';
 
 // Import memoized components
 import ProfileOverviewCard from './settings/ProfileOverviewCard';
 import ProfileSettingsForm from './settings/ProfileSettingsForm';
 import AppPreferencesSection from './settings/AppPreferencesSection';
+import ReminderSettingsSection from './settings/ReminderSettingsSection';
+import PromptGoalsSection from './settings/PromptGoalsSection';
 import SubscriptionSection from './settings/SubscriptionSection';
 import DataPrivacySection from './settings/DataPrivacySection';
+import ImportSection from './settings/ImportSection';
+import EncryptionSection from './settings/EncryptionSection';
 import AccountActionsSection from './settings/AccountActionsSection';
 import { LogoutConfirmModal, DeleteAccountModal } from './settings/ConfirmationModals';
 
@@ -32,19 +44,53 @@ interface UserProfile {
   current_streak: number;
   best_streak: number;
   last_entry_date: string | null;
+  timezone: string | null;
+  subscription_status: string;
+  subscription_tier: string;
+  subscription_expires_at: string | null;
+  payment_status: 'ok' | 'past_due';
+  grace_period_ends_at: string | null;
+  trial_ends_at: string | null;
+  reflection_emails_enabled: boolean;
+  prompt_goals: PromptGoal[];
   created_at: string;
   updated_at: string;
 }
 
+// Stable fallback so the goals form doesn't reset on every render
+const NO_PROMPT_GOALS: PromptGoal[] = [];
+
 export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const { isPremium, isUpsellModalOpen, upsellContent, showUpsellModal, hideUpsellModal } = usePremium();
   const { isDarkMode, setDarkMode } = useTheme();
+  const { isVaultEnabled, isVaultKnown, isUnlocked, enableVault, unlock, recover, lock, decrypt } = useVault();
+  const {
+    preferences: reminderPreferences,
+    isSupported: remindersSupported,
+    permission: notificationPermission,
+    isSaving: isSavingReminders,
+    savePreferences: saveReminderPreferences,
+    enableReminders,
+    disableReminders
+  } = useReminders();
+  const {
+    preview: importPreview,
+    isParsing: isParsingImport,
+    isImporting,
+    importedCount,
+    previewFiles,
+    importEntries,
+    reset: resetImport
+  } = useJournalImport();
+  const { history: subscriptionHistory } = useSubscriptionHistory();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [isUpdatingReflectionEmails, setIsUpdatingReflectionEmails] = useState(false);
+  const [isSavingPromptGoals, setIsSavingPromptGoals] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   
@@ -54,19 +100,18 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [journalingGoal, setJournalingGoal] = useState(3);
   const [originalGoal, setOriginalGoal] = useState(3);
   
-  // Preferences state
-  const [notifications, setNotifications] = useState(true);
-  
   // Modal states
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [deletionReport, setDeletionReport] = useState<DeletionStep[] | null>(null);
+  const [deletionPurgeAfter, setDeletionPurgeAfter] = useState<string | null>(null);
 
   // Load user profile and preferences
   useEffect(() => {
     if (user) {
       loadUserProfile();
-      loadUserPreferences();
     }
   }, [user]);
 
@@ -102,18 +147,6 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
-  const loadUserPreferences = () => {
-    // Load preferences from localStorage
-    try {
-      const savedNotifications = localStorage.getItem('zensai-notifications');
-      setNotifications(savedNotifications !== 'false'); // Default to true
-    } catch (err) {
-      console.error('Error loading preferences:', err);
-      // Default to enabled if localStorage fails
-      setNotifications(true);
-    }
-  };
-
   const handleSaveProfile = useCallback(async () => {
     if (!user || !profile) return;
 
@@ -174,26 +207,97 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     setTimeout(() => setSuccess(''), 2000);
   }, [setDarkMode]);
 
-  const handleToggleNotifications = useCallback((enabled: boolean) => {
-    setNotifications(enabled);
+  const handleToggleNotifications = useCallback(async (enabled: boolean) => {
+    setError('');
+    const result = enabled ? await enableReminders() : await disableReminders();
+
+    if (result.success) {
+      setSuccess(enabled ? SETTINGS.REMINDERS.ENABLED : SETTINGS.REMINDERS.DISABLED);
+      setTimeout(() => setSuccess(''), 2000);
+    } else {
+      setError(result.error || 'Failed to update reminders');
+    }
+  }, [enableReminders, disableReminders]);
+
+  const handleToggleReflectionEmails = useCallback(async (enabled: boolean) => {
+    if (!user) return;
+
     try {
-      localStorage.setItem('zensai-notifications', enabled.toString());
-    } catch (err) {
-      console.error('Error saving notification preference:', err);
+      setIsUpdatingReflectionEmails(true);
+      setError('');
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ reflection_emails_enabled: enabled })
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error updating reflection emails:', updateError);
+        setError(SETTINGS.PREFERENCES.REFLECTION_EMAILS.UPDATE_ERROR);
+        return;
+      }
+
+      setProfile(prev => prev ? { ...prev, reflection_emails_enabled: enabled } : null);
+      setSuccess(enabled ? SETTINGS.PREFERENCES.REFLECTION_EMAILS.ENABLED : SETTINGS.PREFERENCES.REFLECTION_EMAILS.DISABLED);
+      setTimeout(() => setSuccess(''), 2000);
+    } finally {
+      setIsUpdatingReflectionEmails(false);
     }
-    setSuccess(enabled ? 'Notifications enabled' : 'Notifications disabled');
-    setTimeout(() => setSuccess(''), 2000);
-  }, []);
+  }, [user]);
+
+  const handleSavePromptGoals = useCallback(async (goals: PromptGoal[]) => {
+    if (!user) return;
+
+    try {
+      setIsSavingPromptGoals(true);
+      setError('');
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ prompt_goals: goals })
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error saving journaling goals:', updateError);
+        setError(SETTINGS.PROMPT_GOALS.SAVE_ERROR);
+        return;
+      }
+
+      setProfile(prev => prev ? { ...prev, prompt_goals: goals } : null);
+      setSuccess(SETTINGS.PROMPT_GOALS.SAVED);
+      setTimeout(() => setSuccess(''), 2000);
+    } finally {
+      setIsSavingPromptGoals(false);
+    }
+  }, [user]);
+
+  const handleSaveReminders = useCallback(async (changes: Partial<ReminderPreferences>) => {
+    setError('');
+    const result = await saveReminderPreferences(changes);
 
-  const handleExportData = useCallback(async () => {
+    if (result.success) {
+      setSuccess(SETTINGS.REMINDERS.SAVED);
+      setTimeout(() => setSuccess(''), 2000);
+    } else {
+      setError(result.error || 'Failed to save reminders');
+    }
+  }, [saveReminderPreferences]);
+
+  const handleExportData = useCallback(async (options: ExportOptions) => {
     if (!user) return;
 
     try {
       setIsExporting(true);
       setError('');
 
+      // The function reads who we are from the session token and builds the
+      // file server-side, so large journals don't tie up the browser
       const { data, error: functionError } = await supabase.functions.invoke('export-journal-data', {
-        body: { user_id: user.id }
+        body: {
+          format: options.format,
+          from: options.from || null,
+          to: options.to || null
+        }
       });
 
       if (functionError) {
@@ -202,25 +306,36 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         return;
       }
 
-      if (!data.success) {
-        setError(data.error || 'Failed to export data');
-        return;
+      const fileName = getExportFileName(options, getLocalDateString());
+
+      if (options.format === 'json') {
+        if (!data.success) {
+          setError(data.error || 'Failed to export data');
+          return;
+        }
+
+        // Vault entries arrive encrypted; decrypt them here so the export is readable
+        const exportData = isUnlocked
+          ? {
+              ...data.data,
+              journal_entries: await Promise.all(data.data.journal_entries.map(async (entry: { content: string; title: string | null; is_encrypted?: boolean }) => (
+                entry.is_encrypted
+                  ? {
+                      ...entry,
+                      content: await decrypt(entry.content),
+                      title: entry.title ? await decrypt(entry.title) : null
+                    }
+                  : entry
+              )))
+            }
+          : data.data;
+
+        downloadBlob(toExportBlob(JSON.stringify(exportData, null, 2), 'json'), fileName);
+      } else {
+        downloadBlob(toExportBlob(data, options.format), fileName);
       }
 
-      // Create and download the file
-      const blob = new Blob([JSON.stringify(data.data, null, 2)], { 
-        type: 'application/json' 
-      });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `zensai-journal-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      setSuccess('Journal data exported successfully!');
+      setSuccess(SETTINGS.DATA_PRIVACY.EXPORT_SUCCESS);
       setTimeout(() => setSuccess(''), 3000);
     } catch (err) {
       console.error('Error exporting data:', err);
@@ -228,7 +343,28 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     } finally {
       setIsExporting(false);
     }
-  }, [user]);
+  }, [user, isUnlocked, decrypt]);
+
+  const handleSelectImportFiles = useCallback(async (files: File[]) => {
+    setError('');
+    // Daylio and Markdown files hold local times, read in the user's own timezone
+    const result = await previewFiles(files, profile?.timezone || getBrowserTimezone());
+    if (!result.success) {
+      setError(result.error || 'Failed to read these files');
+    }
+  }, [previewFiles, profile?.timezone]);
+
+  const handleImportEntries = useCallback(async () => {
+    setError('');
+    const result = await importEntries();
+
+    if (result.success) {
+      setSuccess(SETTINGS.IMPORT.SUCCESS.replace('{count}', String(result.imported ?? 0)));
+      setTimeout(() => setSuccess(''), 3000);
+    } else {
+      setError(result.error || 'Failed to import entries');
+    }
+  }, [importEntries]);
 
   const handleLogout = useCallback(async () => {
     try {
@@ -247,10 +383,12 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
 
     try {
+      setIsDeletingAccount(true);
       setError('');
       
+      // The function reads who we are from the session token
       const { data, error: functionError } = await supabase.functions.invoke('delete-user-data', {
-        body: { user_id: user?.id }
+        body: {}
       });
 
       if (functionError) {
@@ -264,17 +402,16 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         return;
       }
 
-      setSuccess('Account deleted successfully. You will be signed out.');
-      setTimeout(async () => {
-        await logout();
-      }, 2000);
-      
-      setShowDeleteConfirm(false);
+      // Keep the modal open to show what happened; signing out closes it
+      setDeletionReport(data.report || []);
+      setDeletionPurgeAfter(data.purge_after || null);
     } catch (err) {
       console.error('Delete account error:', err);
       setError('Failed to delete account. Please try again.');
+    } finally {
+      setIsDeletingAccount(false);
     }
-  }, [deleteConfirmText, user?.id, logout]);
+  }, [deleteConfirmText]);
 
   const formatJoinDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -449,16 +586,64 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
             {/* App Preferences */}
             <AppPreferencesSection
               isDarkMode={isDarkMode}
-              notifications={notifications}
+              notifications={reminderPreferences.enabled}
               onToggleDarkMode={handleToggleDarkMode}
               onToggleNotifications={handleToggleNotifications}
+              notificationsSupported={remindersSupported}
+              notificationsBlocked={notificationPermission === 'denied'}
+              isUpdatingNotifications={isSavingReminders}
+              reflectionEmails={profile?.reflection_emails_enabled ?? false}
+              onToggleReflectionEmails={handleToggleReflectionEmails}
+              isUpdatingReflectionEmails={isUpdatingReflectionEmails}
+            />
+
+            {/* Journaling Goals */}
+            <PromptGoalsSection
+              goals={profile?.prompt_goals ?? NO_PROMPT_GOALS}
+              isSaving={isSavingPromptGoals}
+              onSave={handleSavePromptGoals}
             />
 
+            {/* Reminder Schedule */}
+            {reminderPreferences.enabled && (
+              <ReminderSettingsSection
+                preferences={reminderPreferences}
+                isSaving={isSavingReminders}
+                onSave={handleSaveReminders}
+              />
+            )}
+
             {/* Subscription Section */}
             <SubscriptionSection
               subscriptionStatus={profile?.subscription_status || 'free'}
               subscriptionTier={profile?.subscription_tier || 'free'}
-              subscriptionExpiresAt={profile?.subscription_expires_at}
+              subscriptionExpiresAt={profile?.subscription_expires_at ?? null}
+              paymentStatus={profile?.payment_status}
+              gracePeriodEndsAt={profile?.grace_period_ends_at}
+              trialEndsAt={profile?.trial_ends_at}
+              history={subscriptionHistory}
+            />
+
+            {/* Encrypted Vault */}
+            <EncryptionSection
+              isVaultEnabled={isVaultEnabled}
+              isVaultKnown={isVaultKnown}
+              isUnlocked={isUnlocked}
+              onEnable={enableVault}
+              onUnlock={unlock}
+              onRecover={recover}
+              onLock={lock}
+            />
+
+            {/* Import from other apps */}
+            <ImportSection
+              preview={importPreview}
+              isParsing={isParsingImport}
+              isImporting={isImporting}
+              importedCount={importedCount}
+              onSelectFiles={handleSelectImportFiles}
+              onImport={handleImportEntries}
+              onCancel={resetImport}
             />
 
             {/* Data & Privacy Section */}
@@ -494,6 +679,10 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         confirmText={deleteConfirmText}
         onConfirmTextChange={setDeleteConfirmText}
         isConfirmDisabled={deleteConfirmText !== 'DELETE'}
+        isDeleting={isDeletingAccount}
+        report={deletionReport}
+        purgeAfter={deletionPurgeAfter}
+        onFinish={logout}
       />
 
       {/* Upsell Modal */}
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Send, RefreshCw, Save, Check, MessageCircle } from 'lucide-react';
+import { JOURNAL } from '../constants/uiStrings';
+import { useZenoChat } from '../hooks/useZenoChat';
+import { useSafetyCheck } from '../hooks/useSafetyCheck';
+import { ConversationMessage, SafetyLevel } from '../types';
+import { combineSafetySignals, detectCrisisLanguage } from '../utils/safety';
+import { MAX_MESSAGE_LENGTH } from '../utils/zenoChat';
+import SafetyResourcesPanel from './SafetyResourcesPanel';
+
+/**
+ * ZenoChatPanel - A reflective conversation with Zeno about one journal entry
+ *
+ * @component
+ * @param {string|null} entryId - The entry to talk about; the panel is hidden when null
+ * @param {function} onClose - Function to call when the panel is closed
+ * @param {function} [onSave] - Saves the conversation into the entry; resolves to whether it worked
+ *
+ * @example
+ * return (
+ *   <ZenoChatPanel
+ *     entryId={chatEntryId}
+ *     onClose={() => setChatEntryId(null)}
+ *     onSave={handleSaveConversation}
+ *   />
+ * )
+ */
+interface ZenoChatPanelProps {
+  entryId: string | null;
+  onClose: () => void;
+  onSave?: (messages: ConversationMessage[]) => Promise<boolean>;
+}
+
+const ZenoChatPanel = React.memo(function ZenoChatPanel({
+  entryId,
+  onClose,
+  onSave
+}: ZenoChatPanelProps) {
+  const { ZENO_CHAT } = JOURNAL;
+  const {
+    messages,
+    streamingReply,
+    isLoading,
+    isStreaming,
+    error,
+    unavailableReason,
+    canSend,
+    startConversation,
+    sendMessage,
+    retry
+  } = useZenoChat(entryId);
+  const { resources } = useSafetyCheck();
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+  const [safetyLevel, setSafetyLevel] = useState<SafetyLevel>('none');
+  const [showSafetyResources, setShowSafetyResources] = useState(false);
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const isOpen = entryId !== null;
+  const lastRole = messages[messages.length - 1]?.role;
+  const isFull = !isStreaming && lastRole === 'assistant' && !canSend;
+  const isSaved = savedCount !== null && savedCount === messages.length;
+
+  // Zeno asks the first question once an empty conversation has loaded
+  useEffect(() => {
+    if (isOpen) {
+      startConversation();
+    }
+  }, [isOpen, startConversation]);
+
+  useEffect(() => {
+    setDraft('');
+    setSavedCount(null);
+  }, [entryId]);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'end' });
+  }, [messages.length, streamingReply]);
+
+  useEffect(() => {
+    if (canSend) {
+      inputRef.current?.focus();
+    }
+  }, [canSend]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !showSafetyResources) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, showSafetyResources, onClose]);
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text || !canSend) return;
+
+    // Offer help straight away; Zeno is also told not to probe
+    const safety = combineSafetySignals(detectCrisisLanguage(text), null);
+    if (safety.level !== 'none') {
+      setSafetyLevel(safety.level);
+      setShowSafetyResources(true);
+    }
+
+    setDraft('');
+    await sendMessage(text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleSave = async () => {
+    if (!onSave || messages.length === 0) return;
+
+    setIsSaving(true);
+    const saved = await onSave(messages);
+    setIsSaving(false);
+    if (saved) {
+      setSavedCount(messages.length);
+    }
+  };
+
+  return (
+    <>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="zeno-chat-title"
+          >
+            <motion.div
+              className="bg-white dark:bg-gray-800 rounded-3xl max-w-lg w-full h-[80vh] flex flex-col shadow-2xl overflow-hidden"
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+            >
+              <div className="flex items-center justify-between p-4 border-b border-zen-sage-100 dark:border-gray-700">
+                <div className="flex items-center space-x-3">
+                  <div className="w-10 h-10 rounded-full bg-zen-mint-100 dark:bg-gray-700 flex items-center justify-center">
+                    <MessageCircle className="w-5 h-5 text-zen-mint-600" aria-hidden="true" />
+                  </div>
+                  <div>
+                    <h2 id="zeno-chat-title" className="font-display font-bold text-zen-sage-800 dark:text-gray-200">
+                      {ZENO_CHAT.TITLE}
+                    </h2>
+                    <p className="text-xs text-zen-sage-500 dark:text-gray-400">{ZENO_CHAT.SUBTITLE}</p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-2 rounded-full text-zen-sage-500 hover:bg-zen-sage-100 dark:hover:bg-gray-700 transition-colors"
+                  aria-label={ZENO_CHAT.CLOSE}
+                >
+                  <X className="w-5 h-5" aria-hidden="true" />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-3" aria-live="polite">
+                {unavailableReason ? (
+                  <p className="text-center text-zen-sage-600 dark:text-gray-400 mt-8">{unavailableReason}</p>
+                ) : (
+                  <>
+                    {isLoading && messages.length === 0 && (
+                      <p className="text-center text-zen-sage-500 dark:text-gray-400 mt-8">{ZENO_CHAT.LOADING}</p>
+                    )}
+
+                    {messages.map(message => (
+                      <div
+                        key={message.id}
+                        className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                      >
+                        <p
+                          className={`max-w-[85%] px-4 py-2 rounded-2xl whitespace-pre-wrap ${
+                            message.role === 'user'
+                              ? 'bg-zen-mint-500 text-white rounded-br-md'
+                              : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-bl-md'
+                          }`}
+                        >
+                          {message.content}
+                        </p>
+                      </div>
+                    ))}
+
+                    {isStreaming && (
+                      <div className="flex justify-start">
+                        <p className="max-w-[85%] px-4 py-2 rounded-2xl rounded-bl-md bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 whitespace-pre-wrap">
+                          {streamingReply?.trim() || (
+                            <span className="italic text-zen-sage-500 dark:text-gray-400">{ZENO_CHAT.THINKING}</span>
+                          )}
+                        </p>
+                      </div>
+                    )}
+
+                    {error && (
+                      <div className="flex flex-col items-center space-y-2 pt-2" role="alert">
+                        <p className="text-sm text-red-600 dark:text-red-400 text-center">{error}</p>
+                        {(messages.length === 0 || lastRole === 'user') && (
+                          <button
+                            onClick={retry}
+                            className="flex items-center space-x-1 px-3 py-1.5 rounded-xl text-sm font-medium text-zen-mint-700 dark:text-zen-mint-300 hover:bg-zen-mint-50 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            <RefreshCw className="w-4 h-4" aria-hidden="true" />
+                            <span>{ZENO_CHAT.RETRY}</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {isFull && (
+                      <p className="text-sm text-center text-zen-sage-600 dark:text-gray-400 pt-2">
+                        {ZENO_CHAT.CONVERSATION_FULL}
+                      </p>
+                    )}
+                  </>
+                )}
+                <div ref={listEndRef} />
+              </div>
+
+              {!unavailableReason && (
+                <div className="p-4 border-t border-zen-sage-100 dark:border-gray-700 space-y-3">
+                  {!isFull && (
+                    <div className="flex items-end space-x-2">
+                      <textarea
+                        ref={inputRef}
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder={ZENO_CHAT.PLACEHOLDER}
+                        aria-label={ZENO_CHAT.MESSAGE_LABEL}
+                        maxLength={MAX_MESSAGE_LENGTH}
+                        rows={2}
+                        disabled={!canSend}
+                        className="flex-1 resize-none px-4 py-2 rounded-2xl border border-zen-sage-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400 disabled:opacity-60"
+                      />
+                      <button
+                        onClick={handleSend}
+                        disabled={!canSend || !draft.trim()}
+                        className="p-3 rounded-2xl bg-zen-mint-500 text-white hover:bg-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        aria-label={ZENO_CHAT.SEND}
+                      >
+                        <Send className="w-5 h-5" aria-hidden="true" />
+                      </button>
+                    </div>
+                  )}
+
+                  {onSave && messages.length > 0 && (
+                    <button
+                      onClick={handleSave}
+                      disabled={isSaving || isStreaming || isSaved}
+                      className="w-full flex items-center justify-center space-x-2 py-2 rounded-2xl bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300 font-medium hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isSaved ? <Check className="w-4 h-4" aria-hidden="true" /> : <Save className="w-4 h-4" aria-hidden="true" />}
+                      <span>{isSaved ? ZENO_CHAT.SAVED : isSaving ? ZENO_CHAT.SAVING : ZENO_CHAT.SAVE}</span>
+                    </button>
+                  )}
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <SafetyResourcesPanel
+        isOpen={showSafetyResources}
+        level={safetyLevel}
+        resources={resources}
+        onClose={() => setShowSafetyResources(false)}
+      />
+    </>
+  );
+});
+
+export default ZenoChatPanel;
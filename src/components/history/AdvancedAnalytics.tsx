@@ -1,7 +1,13 @@
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, Crown } from 'lucide-react';
+import { Sparkles, Crown, TrendingUp, CalendarDays, PenLine, Flame } from 'lucide-react';
 import { HISTORY } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { useMoodAnalytics } from '../../hooks/useMoodAnalytics';
+import { AnalyticsRange, ANALYTICS_RANGE_DAYS, compressTrend, toMoodLevel } from '../../utils/analytics';
+import TrendLineChart from './TrendLineChart';
+import MoodHeatmap from './MoodHeatmap';
+import StreakHistory from './StreakHistory';
 
 /**
  * AdvancedAnalytics - Component that displays advanced analytics features or upsell for premium
@@ -23,10 +29,51 @@ interface AdvancedAnalyticsProps {
   onUpgrade: () => void;
 }
 
+const RANGES = Object.keys(ANALYTICS_RANGE_DAYS) as AnalyticsRange[];
+
 const AdvancedAnalytics = React.memo(function AdvancedAnalytics({
   isPremium,
   onUpgrade
 }: AdvancedAnalyticsProps) {
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const {
+    moodTrend,
+    moodDistribution,
+    heatmap,
+    lengthTrend,
+    streaks,
+    isLoading,
+    error
+  } = useMoodAnalytics(range, isPremium);
+
+  const chartMoodTrend = useMemo(() => compressTrend(moodTrend), [moodTrend]);
+  const chartLengthTrend = useMemo(() => compressTrend(lengthTrend), [lengthTrend]);
+
+  const summary = useMemo(() => {
+    const entryCount = moodTrend.reduce((sum, point) => sum + point.entryCount, 0);
+    const moodTotal = moodTrend.reduce((sum, point) => sum + point.value * point.entryCount, 0);
+    return {
+      entryCount,
+      averageMood: entryCount > 0 ? moodTotal / entryCount : null,
+      daysJournaled: moodTrend.length,
+      longestStreak: Math.max(0, ...streaks.map(streak => streak.length))
+    };
+  }, [moodTrend, streaks]);
+
+  const lengthMax = useMemo(() => {
+    const highest = Math.max(0, ...lengthTrend.map(point => point.value));
+    // Round the axis up to a tidy number of words
+    return Math.max(50, Math.ceil(highest / 50) * 50);
+  }, [lengthTrend]);
+
+  const averageMoodInfo = summary.averageMood !== null
+    ? moods.find(m => m.level === toMoodLevel(summary.averageMood as number))
+    : undefined;
+
+  const sectionTitleClass = 'text-sm font-semibold text-zen-sage-800 dark:text-gray-200 flex items-center space-x-2';
+  const sectionDescClass = 'text-xs text-zen-sage-500 dark:text-gray-400 mb-3';
+  const panelClass = 'bg-zen-sage-50 dark:bg-gray-700 rounded-2xl p-4 border border-zen-sage-100 dark:border-gray-600';
+
   return (
     <motion.div
       className="mb-8"
@@ -46,14 +93,144 @@ const AdvancedAnalytics = React.memo(function AdvancedAnalytics({
         </h2>
         
         {isPremium ? (
-          <div className="text-center py-8">
-            <Sparkles className="w-12 h-12 text-zen-mint-400 mx-auto mb-4 opacity-70" aria-hidden="true" />
-            <h3 className="text-xl font-display font-semibold text-zen-sage-800 dark:text-gray-200 mb-2">
-              {HISTORY.ANALYTICS.COMING_SOON}
-            </h3>
-            <p className="text-zen-sage-600 dark:text-gray-400 max-w-md mx-auto">
-              {HISTORY.ANALYTICS.COMING_SOON_DESC}
-            </p>
+          <div>
+            <div
+              className="flex flex-wrap gap-2 mb-6"
+              role="radiogroup"
+              aria-label={HISTORY.ANALYTICS.RANGE_LABEL}
+            >
+              {RANGES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setRange(option)}
+                  className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                    range === option
+                      ? 'bg-zen-mint-400 text-white'
+                      : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                  }`}
+                  role="radio"
+                  aria-checked={range === option}
+                >
+                  {HISTORY.ANALYTICS.RANGES[option]}
+                </button>
+              ))}
+            </div>
+
+            {error ? (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-2xl text-sm text-red-700 dark:text-red-300" role="alert">
+                {error}
+              </div>
+            ) : isLoading && moodTrend.length === 0 ? (
+              <div className="flex items-center justify-center py-12" role="status">
+                <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin mr-3" aria-hidden="true"></div>
+                <span className="text-zen-sage-600 dark:text-gray-400">{HISTORY.ANALYTICS.LOADING}</span>
+              </div>
+            ) : moodTrend.length === 0 ? (
+              <div className="text-center py-8">
+                <Sparkles className="w-12 h-12 text-zen-mint-400 mx-auto mb-4 opacity-70" aria-hidden="true" />
+                <p className="text-zen-sage-600 dark:text-gray-400 max-w-md mx-auto">
+                  {HISTORY.ANALYTICS.NO_DATA}
+                </p>
+              </div>
+            ) : (
+              <div className={`space-y-6 transition-opacity ${isLoading ? 'opacity-60' : ''}`} aria-busy={isLoading}>
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className={`${panelClass} text-center`}>
+                    <dt className="text-xs text-zen-sage-600 dark:text-gray-400 mb-1">{HISTORY.ANALYTICS.SUMMARY.AVERAGE_MOOD}</dt>
+                    <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+                      {averageMoodInfo && summary.averageMood !== null && (
+                        <>
+                          <span aria-hidden="true">{averageMoodInfo.emoji} </span>
+                          {summary.averageMood.toFixed(1)}
+                        </>
+                      )}
+                    </dd>
+                  </div>
+                  <div className={`${panelClass} text-center`}>
+                    <dt className="text-xs text-zen-sage-600 dark:text-gray-400 mb-1">{HISTORY.ANALYTICS.SUMMARY.ENTRIES}</dt>
+                    <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">{summary.entryCount}</dd>
+                  </div>
+                  <div className={`${panelClass} text-center`}>
+                    <dt className="text-xs text-zen-sage-600 dark:text-gray-400 mb-1">{HISTORY.ANALYTICS.SUMMARY.DAYS_JOURNALED}</dt>
+                    <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">{summary.daysJournaled}</dd>
+                  </div>
+                  <div className={`${panelClass} text-center`}>
+                    <dt className="text-xs text-zen-sage-600 dark:text-gray-400 mb-1">{HISTORY.ANALYTICS.SUMMARY.LONGEST_STREAK}</dt>
+                    <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+                      {HISTORY.ANALYTICS.STREAK_DAYS.replace('{count}', summary.longestStreak.toString())}
+                    </dd>
+                  </div>
+                </dl>
+
+                <section className={panelClass}>
+                  <h3 className={sectionTitleClass}>
+                    <TrendingUp className="w-4 h-4 text-zen-mint-500" aria-hidden="true" />
+                    <span>{HISTORY.ANALYTICS.MOOD_TREND}</span>
+                  </h3>
+                  <p className={sectionDescClass}>{HISTORY.ANALYTICS.MOOD_TREND_DESC}</p>
+                  <TrendLineChart
+                    points={chartMoodTrend}
+                    yMin={1}
+                    yMax={5}
+                    yTicks={[1, 2, 3, 4, 5]}
+                    formatTick={value => moods.find(m => m.level === value)?.emoji || value.toString()}
+                    formatValue={value => `${moods.find(m => m.level === toMoodLevel(value))?.label} (${value.toFixed(1)})`}
+                    ariaLabel={HISTORY.ANALYTICS.MOOD_TREND_DESC}
+                  />
+                  <ul className="flex flex-wrap gap-3 mt-3 text-xs text-zen-sage-600 dark:text-gray-400">
+                    {moods.map(mood => (
+                      <li key={mood.level} className="flex items-center space-x-1">
+                        <span aria-hidden="true">{mood.emoji}</span>
+                        <span>{mood.label}: {moodDistribution[mood.label.toLowerCase()] || 0}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <section className={panelClass}>
+                    <h3 className={sectionTitleClass}>
+                      <CalendarDays className="w-4 h-4 text-zen-lavender-500" aria-hidden="true" />
+                      <span>{HISTORY.ANALYTICS.HEATMAP}</span>
+                    </h3>
+                    <p className={sectionDescClass}>{HISTORY.ANALYTICS.HEATMAP_DESC}</p>
+                    <MoodHeatmap heatmap={heatmap} />
+                  </section>
+
+                  <section className={panelClass}>
+                    <h3 className={sectionTitleClass}>
+                      <Flame className="w-4 h-4 text-zen-peach-500" aria-hidden="true" />
+                      <span>{HISTORY.ANALYTICS.STREAKS}</span>
+                    </h3>
+                    <p className={sectionDescClass}>{HISTORY.ANALYTICS.STREAKS_DESC}</p>
+                    <StreakHistory streaks={streaks} />
+                  </section>
+                </div>
+
+                <section className={panelClass}>
+                  <h3 className={sectionTitleClass}>
+                    <PenLine className="w-4 h-4 text-zen-sage-500" aria-hidden="true" />
+                    <span>{HISTORY.ANALYTICS.ENTRY_LENGTH}</span>
+                  </h3>
+                  <p className={sectionDescClass}>{HISTORY.ANALYTICS.ENTRY_LENGTH_DESC}</p>
+                  {chartLengthTrend.length > 0 ? (
+                    <TrendLineChart
+                      points={chartLengthTrend}
+                      yMin={0}
+                      yMax={lengthMax}
+                      yTicks={[0, lengthMax / 2, lengthMax]}
+                      formatTick={value => Math.round(value).toString()}
+                      formatValue={value => HISTORY.ANALYTICS.WORDS.replace('{count}', Math.round(value).toString())}
+                      ariaLabel={HISTORY.ANALYTICS.ENTRY_LENGTH_DESC}
+                      strokeClassName="stroke-zen-lavender-500"
+                      fillClassName="fill-zen-lavender-500"
+                    />
+                  ) : (
+                    <p className="text-sm text-zen-sage-600 dark:text-gray-400">{HISTORY.ANALYTICS.NO_DATA}</p>
+                  )}
+                </section>
+              </div>
+            )}
           </div>
         ) : (
           <div className="bg-gradient-to-r from-zen-mint-50 to-zen-lavender-50 dark:from-gray-700 dark:to-gray-600 rounded-2xl p-6">
@@ -9,6 +9,8 @@ import { HISTORY } from '../../constants/uiStrings';
  * @component
  * @param {string} searchTerm - Current search term
  * @param {string} filterMood - Current mood filter
+ * @param {string|null} [filterTag=null] - Current tag filter
+ * @param {string|null} [filterEmotion=null] - Current emotion filter
  * @param {function} onClearFilters - Function to clear all filters
  * 
  * @example
@@ -23,15 +25,19 @@ import { HISTORY } from '../../constants/uiStrings';
 interface EmptyStateProps {
   searchTerm: string;
   filterMood: string;
+  filterTag?: string | null;
+  filterEmotion?: string | null;
   onClearFilters: () => void;
 }
 
 const EmptyState = React.memo(function EmptyState({
   searchTerm,
   filterMood,
+  filterTag = null,
+  filterEmotion = null,
   onClearFilters
 }: EmptyStateProps) {
-  const hasFilters = searchTerm || filterMood !== 'all';
+  const hasFilters = searchTerm || filterMood !== 'all' || filterTag !== null || filterEmotion !== null;
 
   return (
     <motion.div
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, ChevronDown, ChevronUp } from 'lucide-react';
-import { MoodLevel } from '../../types';
+import { Search, Filter, ChevronDown, ChevronUp, Hash } from 'lucide-react';
+import { Emotion, MoodLevel } from '../../types';
 import MoodSelector from '../MoodSelector';
 import { HISTORY } from '../../constants/uiStrings';
+import { getEmotionInfo } from '../../data/emotions';
 
 /**
  * HistoryFilters - Component for filtering and searching journal entries
@@ -13,9 +14,16 @@ import { HISTORY } from '../../constants/uiStrings';
  * @param {function} onSearchChange - Function to update search term
  * @param {MoodLevel|'all'} filterMood - Current mood filter
  * @param {function} onFilterMoodChange - Function to update mood filter
- * @param {'newest'|'oldest'} sortOrder - Current sort order
+ * @param {'newest'|'oldest'|'relevance'} sortOrder - Current sort order
  * @param {function} onSortOrderChange - Function to update sort order
+ * @param {string|null} filterTag - Current tag filter (null for all tags)
+ * @param {function} onFilterTagChange - Function to update tag filter
+ * @param {string[]} availableTags - Tags the user has used, most used first
+ * @param {Emotion|null} [filterEmotion=null] - Current emotion filter (null for all emotions)
+ * @param {function} [onFilterEmotionChange] - Function to update emotion filter
+ * @param {Emotion[]} [availableEmotions=[]] - Emotions found in the user's entries, most common first
  * @param {function} onClearFilters - Function to clear all filters
+ * @param {boolean} [isSearching=false] - Whether a server search is in progress
  * 
  * @example
  * return (
@@ -26,6 +34,12 @@ import { HISTORY } from '../../constants/uiStrings';
  *     onFilterMoodChange={setFilterMood}
  *     sortOrder={sortOrder}
  *     onSortOrderChange={setSortOrder}
+ *     filterTag={filterTag}
+ *     onFilterTagChange={setFilterTag}
+ *     availableTags={availableTags}
+ *     filterEmotion={filterEmotion}
+ *     onFilterEmotionChange={setFilterEmotion}
+ *     availableEmotions={availableEmotions}
  *     onClearFilters={clearFilters}
  *   />
  * )
@@ -35,9 +49,16 @@ interface HistoryFiltersProps {
   onSearchChange: (term: string) => void;
   filterMood: MoodLevel | 'all';
   onFilterMoodChange: (mood: MoodLevel | 'all') => void;
-  sortOrder: 'newest' | 'oldest';
-  onSortOrderChange: (order: 'newest' | 'oldest') => void;
+  sortOrder: 'newest' | 'oldest' | 'relevance';
+  onSortOrderChange: (order: 'newest' | 'oldest' | 'relevance') => void;
+  filterTag: string | null;
+  onFilterTagChange: (tag: string | null) => void;
+  availableTags: string[];
+  filterEmotion?: Emotion | null;
+  onFilterEmotionChange?: (emotion: Emotion | null) => void;
+  availableEmotions?: Emotion[];
   onClearFilters: () => void;
+  isSearching?: boolean;
 }
 
 const HistoryFilters = React.memo(function HistoryFilters({
@@ -47,11 +68,18 @@ const HistoryFilters = React.memo(function HistoryFilters({
   onFilterMoodChange,
   sortOrder,
   onSortOrderChange,
-  onClearFilters
+  filterTag,
+  onFilterTagChange,
+  availableTags,
+  filterEmotion = null,
+  onFilterEmotionChange,
+  availableEmotions = [],
+  onClearFilters,
+  isSearching = false
 }: HistoryFiltersProps) {
   const [showFilters, setShowFilters] = useState(false);
   
-  const hasActiveFilters = searchTerm || filterMood !== 'all';
+  const hasActiveFilters = searchTerm || filterMood !== 'all' || filterTag !== null || filterEmotion !== null;
 
   return (
     <motion.div
@@ -71,8 +99,19 @@ const HistoryFilters = React.memo(function HistoryFilters({
             onChange={(e) => onSearchChange(e.target.value)}
             className="w-full pl-12 pr-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-400"
             aria-label="Search journal entries"
+            aria-describedby="search-help"
           />
+          {isSearching && (
+            <div
+              className="absolute right-4 top-1/2 transform -translate-y-1/2 w-4 h-4 border-2 border-zen-mint-400 border-t-transparent rounded-full animate-spin"
+              role="status"
+              aria-label={HISTORY.SEARCHING}
+            />
+          )}
         </div>
+        <p id="search-help" className="-mt-2 mb-4 px-2 text-xs text-zen-sage-500 dark:text-gray-400">
+          {HISTORY.SEARCH_HELP}
+        </p>
 
         {/* Filter Toggle */}
         <div className="flex items-center justify-between">
@@ -147,6 +186,20 @@ const HistoryFilters = React.memo(function HistoryFilters({
                     Sort order
                   </label>
                   <div className="flex space-x-2" role="radiogroup" aria-labelledby="sort-order-label">
+                    {searchTerm.trim() && (
+                      <button
+                        onClick={() => onSortOrderChange('relevance')}
+                        className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                          sortOrder === 'relevance'
+                            ? 'bg-zen-mint-400 text-white'
+                            : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                        }`}
+                        role="radio"
+                        aria-checked={sortOrder === 'relevance'}
+                      >
+                        {HISTORY.FILTERS.RELEVANCE}
+                      </button>
+                    )}
                     <button
                       onClick={() => onSortOrderChange('newest')}
                       className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
@@ -173,6 +226,81 @@ const HistoryFilters = React.memo(function HistoryFilters({
                     </button>
                   </div>
                 </div>
+
+                {/* Tag Filter */}
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" id="tag-filter-label">
+                    {HISTORY.FILTERS.TAG_LABEL}
+                  </label>
+                  {availableTags.length === 0 ? (
+                    <p className="text-sm text-zen-sage-500 dark:text-gray-400">{HISTORY.FILTERS.NO_TAGS}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2" role="radiogroup" aria-labelledby="tag-filter-label">
+                      {[null, ...availableTags].map(tag => (
+                        <button
+                          key={tag ?? 'all'}
+                          onClick={() => onFilterTagChange(tag)}
+                          className={`flex items-center space-x-1 px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                            filterTag === tag
+                              ? 'bg-zen-mint-400 text-white'
+                              : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                          }`}
+                          role="radio"
+                          aria-checked={filterTag === tag}
+                        >
+                          {tag === null ? (
+                            <span>{HISTORY.FILTERS.ALL_TAGS}</span>
+                          ) : (
+                            <>
+                              <Hash className="w-3 h-3" aria-hidden="true" />
+                              <span>{tag}</span>
+                            </>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Emotion Filter */}
+                {onFilterEmotionChange && (
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" id="emotion-filter-label">
+                      {HISTORY.FILTERS.EMOTION_LABEL}
+                    </label>
+                    {availableEmotions.length === 0 ? (
+                      <p className="text-sm text-zen-sage-500 dark:text-gray-400">{HISTORY.FILTERS.NO_EMOTIONS}</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2" role="radiogroup" aria-labelledby="emotion-filter-label">
+                        {[null, ...availableEmotions].map(emotion => {
+                          const info = emotion ? getEmotionInfo(emotion) : undefined;
+                          return (
+                            <button
+                              key={emotion ?? 'all'}
+                              onClick={() => onFilterEmotionChange(emotion)}
+                              className={`flex items-center space-x-1 px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                                filterEmotion === emotion
+                                  ? 'bg-zen-lavender-400 text-white'
+                                  : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                              }`}
+                              role="radio"
+                              aria-checked={filterEmotion === emotion}
+                            >
+                              {emotion === null ? (
+                                <span>{HISTORY.FILTERS.ALL_EMOTIONS}</span>
+                              ) : (
+                                <>
+                                  <span aria-hidden="true">{info?.emoji}</span>
+                                  <span>{info?.label ?? emotion}</span>
+                                </>
+                              )}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
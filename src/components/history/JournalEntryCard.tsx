@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Edit3, Trash2, Eye, ChevronUp, ChevronDown, X, Save } from 'lucide-react';
-import { MoodLevel } from '../../types';
+import { Clock, Edit3, Trash2, Eye, ChevronUp, ChevronDown, X, Save, CloudOff, Hash, MessageCircle, Lightbulb } from 'lucide-react';
+import { Emotion, MoodLevel } from '../../types';
 import { moods } from '../../data/moods';
+import { getEmotionInfo } from '../../data/emotions';
 import MoodSelector from '../MoodSelector';
-import { JOURNAL } from '../../constants/uiStrings';
+import TagInput from '../journal/TagInput';
+import { JOURNAL, HISTORY } from '../../constants/uiStrings';
+import { splitSnippet } from '../../utils/search';
 
 /**
  * Interface for journal entry data
@@ -15,9 +18,14 @@ interface JournalEntry {
   content: string;
   mood: string;
   title: string | null;
+  tags?: string[];
+  primary_emotion?: Emotion | null;
+  secondary_emotions?: Emotion[];
+  prompt?: string | null;
   photo_url: string | null;
   created_at: string;
   updated_at: string;
+  pending_sync?: boolean;
 }
 
 /**
@@ -34,6 +42,11 @@ interface JournalEntry {
  * @param {function} onCancelEdit - Function to cancel editing
  * @param {number} index - Index of the entry in the list
  * @param {number} delay - Animation delay
+ * @param {string[]} [availableTags=[]] - Tags the user has used before, for autocomplete while editing
+ * @param {function} [onTagClick] - Function called when a tag chip is clicked (e.g. to filter by it)
+ * @param {function} [onEmotionClick] - Function called when an emotion chip is clicked
+ * @param {string} [searchSnippet] - Highlighted excerpt from a full-text search, shown instead of the preview
+ * @param {function} [onTalkToZeno] - Function to open a conversation with Zeno about the entry
  * 
  * @example
  * return (
@@ -58,10 +71,15 @@ interface JournalEntryCardProps {
   onToggleExpand: (id: string) => void;
   onEdit: (entry: JournalEntry) => void;
   onDelete: (id: string) => void;
-  onSaveEdit: (id: string, content: string, title: string | null, mood: MoodLevel) => Promise<void>;
+  onSaveEdit: (id: string, content: string, title: string | null, mood: MoodLevel, tags: string[]) => Promise<void>;
   onCancelEdit: () => void;
   index: number;
   delay: number;
+  availableTags?: string[];
+  onTagClick?: (tag: string) => void;
+  onEmotionClick?: (emotion: Emotion) => void;
+  searchSnippet?: string;
+  onTalkToZeno?: (entry: JournalEntry) => void;
 }
 
 const JournalEntryCard = React.memo(function JournalEntryCard({
@@ -74,15 +92,24 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
   onSaveEdit,
   onCancelEdit,
   index,
-  delay
+  delay,
+  availableTags = [],
+  onTagClick,
+  onEmotionClick,
+  onTalkToZeno,
+  searchSnippet
 }: JournalEntryCardProps) {
   const [editContent, setEditContent] = useState(entry.content);
   const [editTitle, setEditTitle] = useState(entry.title || '');
   const [editMood, setEditMood] = useState<MoodLevel>(getMoodLevel(entry.mood));
+  const [editTags, setEditTags] = useState<string[]>(entry.tags ?? []);
   
   const entryMoodData = moods.find(m => m.level === getMoodLevel(entry.mood));
   const isEditable = !isEditing;
   const needsExpansion = entry.content.length > 150;
+  const entryEmotions = entry.primary_emotion
+    ? [entry.primary_emotion, ...(entry.secondary_emotions ?? [])]
+    : [];
 
   function getMoodLevel(moodString: string): MoodLevel {
     const moodMap: Record<string, MoodLevel> = {
@@ -105,7 +132,7 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
   }
 
   const handleSave = async () => {
-    await onSaveEdit(entry.id, editContent, editTitle || null, editMood);
+    await onSaveEdit(entry.id, editContent, editTitle || null, editMood, editTags);
   };
 
   return (
@@ -169,6 +196,18 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor={`edit-tags-${entry.id}`}>
+                {JOURNAL.TAGS.LABEL}
+              </label>
+              <TagInput
+                id={`edit-tags-${entry.id}`}
+                tags={editTags}
+                onChange={setEditTags}
+                availableTags={availableTags}
+              />
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor={`edit-content-${entry.id}`}>
                 Your thoughts
@@ -200,6 +239,15 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
                   <span className="text-sm text-zen-sage-600 dark:text-gray-400">
                     {entryMoodData?.label}
                   </span>
+                  {entry.pending_sync && (
+                    <span
+                      className="flex items-center space-x-1 px-2 py-0.5 text-xs font-medium text-zen-peach-700 dark:text-zen-peach-300 bg-zen-peach-100 dark:bg-zen-peach-900/30 rounded-full"
+                      title={HISTORY.SYNC.PENDING_LABEL}
+                    >
+                      <CloudOff className="w-3 h-3" aria-hidden="true" />
+                      <span>{HISTORY.SYNC.PENDING}</span>
+                    </span>
+                  )}
                 </div>
                 {entry.title && (
                   <h4 className="font-display font-semibold text-zen-sage-800 dark:text-gray-200 mt-1">
@@ -210,6 +258,15 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
             </div>
 
             <div className="flex space-x-2">
+              {onTalkToZeno && !entry.pending_sync && (
+                <button
+                  onClick={() => onTalkToZeno(entry)}
+                  className="p-2 text-zen-mint-600 hover:text-zen-mint-700 hover:bg-zen-mint-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  aria-label={JOURNAL.ZENO_CHAT.TITLE}
+                >
+                  <MessageCircle className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
               <button
                 onClick={() => onEdit(entry)}
                 className="p-2 text-zen-sage-500 hover:text-zen-sage-700 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -235,11 +292,72 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
             </div>
           </div>
 
-          <div className={`text-zen-sage-700 dark:text-gray-300 leading-relaxed ${
-            isExpanded ? '' : 'line-clamp-3'
-          }`}>
-            {entry.content}
-          </div>
+          {entry.prompt && (
+            <p className="flex items-start space-x-2 mb-2 text-sm italic text-zen-sage-500 dark:text-gray-400">
+              <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0 text-zen-peach-500" aria-hidden="true" />
+              <span>{JOURNAL.ENTRY_PROMPT.replace('{prompt}', entry.prompt)}</span>
+            </p>
+          )}
+
+          {searchSnippet && !isExpanded ? (
+            <p className="text-zen-sage-700 dark:text-gray-300 leading-relaxed" data-testid="search-snippet">
+              {splitSnippet(searchSnippet).map((part, partIndex) => part.highlighted ? (
+                <mark
+                  key={partIndex}
+                  className="px-0.5 rounded bg-zen-peach-200 dark:bg-zen-peach-800/60 text-zen-sage-900 dark:text-gray-100"
+                >
+                  {part.text}
+                </mark>
+              ) : (
+                <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+              ))}
+            </p>
+          ) : (
+            <div className={`text-zen-sage-700 dark:text-gray-300 leading-relaxed ${
+              isExpanded ? '' : 'line-clamp-3'
+            }`}>
+              {entry.content}
+            </div>
+          )}
+
+          {entryEmotions.length > 0 && (
+            <ul className="flex flex-wrap gap-2 mt-3" aria-label={HISTORY.EMOTIONS_LABEL}>
+              {entryEmotions.map(emotion => {
+                const info = getEmotionInfo(emotion);
+                return (
+                  <li key={emotion}>
+                    <button
+                      onClick={() => onEmotionClick?.(emotion)}
+                      disabled={!onEmotionClick}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-zen-lavender-700 dark:text-zen-lavender-300 bg-zen-lavender-100 dark:bg-gray-700 rounded-full hover:bg-zen-lavender-200 dark:hover:bg-gray-600 disabled:hover:bg-zen-lavender-100 disabled:cursor-default transition-colors"
+                      aria-label={HISTORY.EMOTION_FILTER.replace('{emotion}', (info?.label ?? emotion).toLowerCase())}
+                    >
+                      <span aria-hidden="true">{info?.emoji}</span>
+                      <span>{info?.label ?? emotion}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {entry.tags && entry.tags.length > 0 && (
+            <ul className="flex flex-wrap gap-2 mt-3" aria-label="Tags">
+              {entry.tags.map(tag => (
+                <li key={tag}>
+                  <button
+                    onClick={() => onTagClick?.(tag)}
+                    disabled={!onTagClick}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-zen-mint-700 dark:text-zen-mint-300 bg-zen-mint-100 dark:bg-zen-mint-900/30 rounded-full hover:bg-zen-mint-200 dark:hover:bg-zen-mint-900/50 disabled:hover:bg-zen-mint-100 disabled:cursor-default transition-colors"
+                    aria-label={`Show entries tagged ${tag}`}
+                  >
+                    <Hash className="w-3 h-3" aria-hidden="true" />
+                    <span>{tag}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
 
           {entry.photo_url && (
             <div className="mt-4">
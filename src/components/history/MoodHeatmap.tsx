@@ -0,0 +1,94 @@
+import React from 'react';
+import { HISTORY } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { HeatmapCell, TIME_OF_DAY_BUCKETS, toMoodLevel } from '../../utils/analytics';
+
+/**
+ * MoodHeatmap - Grid of average mood by day of week and time of day
+ *
+ * @component
+ * @param {Array} heatmap - Rows of cells indexed by day of week (0 = Sunday)
+ *
+ * @example
+ * return (
+ *   <MoodHeatmap heatmap={heatmap} />
+ * )
+ */
+interface MoodHeatmapProps {
+  heatmap: HeatmapCell[][];
+}
+
+// Full class names so Tailwind keeps them in the build
+const MOOD_CELL_CLASSES: Record<number, string> = {
+  1: 'bg-red-400/80 text-white',
+  2: 'bg-orange-400/80 text-white',
+  3: 'bg-yellow-400/80 text-zen-sage-800',
+  4: 'bg-zen-mint-400/80 text-white',
+  5: 'bg-zen-peach-400/80 text-white'
+};
+
+// Start the week on Monday, the way most people read a week
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const MoodHeatmap = React.memo(function MoodHeatmap({ heatmap }: MoodHeatmapProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th scope="col" className="sr-only">{HISTORY.ANALYTICS.HEATMAP}</th>
+            {TIME_OF_DAY_BUCKETS.map(bucket => (
+              <th
+                key={bucket.key}
+                scope="col"
+                className="font-medium text-zen-sage-600 dark:text-gray-400 pb-1"
+              >
+                {HISTORY.ANALYTICS.TIMES_OF_DAY[bucket.key]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {DAY_ORDER.map(dayOfWeek => (
+            <tr key={dayOfWeek}>
+              <th
+                scope="row"
+                className="font-medium text-zen-sage-600 dark:text-gray-400 text-left pr-2 w-10"
+              >
+                {HISTORY.ANALYTICS.DAYS[dayOfWeek]}
+              </th>
+              {heatmap[dayOfWeek].map(cell => {
+                const mood = cell.averageMood !== null
+                  ? moods.find(m => m.level === toMoodLevel(cell.averageMood as number))
+                  : undefined;
+                const label = mood && cell.averageMood !== null
+                  ? HISTORY.ANALYTICS.HEATMAP_CELL
+                    .replace('{mood}', mood.label)
+                    .replace('{average}', cell.averageMood.toFixed(1))
+                    .replace('{count}', cell.entryCount.toString())
+                  : HISTORY.ANALYTICS.HEATMAP_EMPTY_CELL;
+
+                return (
+                  <td
+                    key={cell.timeOfDay}
+                    className={`h-9 rounded-lg text-center ${
+                      mood
+                        ? MOOD_CELL_CLASSES[mood.level]
+                        : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-400 dark:text-gray-500'
+                    }`}
+                    title={label}
+                  >
+                    <span aria-hidden="true">{mood ? mood.emoji : ''}</span>
+                    <span className="sr-only">{label}</span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+export default MoodHeatmap;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles } from 'lucide-react';
+import { Reflection } from '../../types';
+import { REFLECTIONS } from '../../constants/uiStrings';
+import ReflectionCard from '../ReflectionCard';
+
+/**
+ * ReflectionsSection - Lists Zeno's recent weekly and monthly reflections
+ *
+ * @component
+ * @param {Reflection[]} reflections - Reflections to show, newest first
+ *
+ * @example
+ * return (
+ *   <ReflectionsSection reflections={reflections} />
+ * )
+ */
+interface ReflectionsSectionProps {
+  reflections: Reflection[];
+}
+
+const ReflectionsSection = React.memo(function ReflectionsSection({ reflections }: ReflectionsSectionProps) {
+  if (reflections.length === 0) return null;
+
+  return (
+    <motion.section
+      className="mb-8"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.15 }}
+      aria-labelledby="reflections-heading"
+    >
+      <h2 id="reflections-heading" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-1 flex items-center space-x-2">
+        <Sparkles className="w-5 h-5 text-zen-lavender-500" aria-hidden="true" />
+        <span>{REFLECTIONS.HISTORY_TITLE}</span>
+      </h2>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">{REFLECTIONS.HISTORY_DESC}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {reflections.map(reflection => (
+          <ReflectionCard key={reflection.id} reflection={reflection} />
+        ))}
+      </div>
+    </motion.section>
+  );
+});
+
+export default ReflectionsSection;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { HISTORY } from '../../constants/uiStrings';
+import { StreakRun } from '../../utils/analytics';
+
+/**
+ * StreakHistory - Bar list of the user's journaling streaks, newest first
+ *
+ * @component
+ * @param {Array} streaks - Streak runs, newest first
+ * @param {number} [maxStreaks=8] - Maximum number of streaks to show
+ *
+ * @example
+ * return (
+ *   <StreakHistory streaks={streaks} />
+ * )
+ */
+interface StreakHistoryProps {
+  streaks: StreakRun[];
+  maxStreaks?: number;
+}
+
+const StreakHistory = React.memo(function StreakHistory({
+  streaks,
+  maxStreaks = 8
+}: StreakHistoryProps) {
+  // Single days aren't streaks; they'd drown out the runs worth celebrating
+  const visibleStreaks = streaks.filter(streak => streak.length > 1).slice(0, maxStreaks);
+  const longest = Math.max(...visibleStreaks.map(streak => streak.length), 1);
+
+  function formatDate(dateString: string) {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  }
+
+  if (visibleStreaks.length === 0) {
+    return (
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+        {HISTORY.ANALYTICS.NO_STREAKS}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {visibleStreaks.map((streak, index) => (
+        <li key={streak.startDate}>
+          <div className="flex items-center justify-between text-xs text-zen-sage-600 dark:text-gray-400 mb-1">
+            <span>
+              {formatDate(streak.startDate)} – {formatDate(streak.endDate)}
+            </span>
+            <span className="font-semibold text-zen-sage-800 dark:text-gray-200">
+              {HISTORY.ANALYTICS.STREAK_DAYS.replace('{count}', streak.length.toString())}
+            </span>
+          </div>
+          <div className="w-full bg-zen-sage-100 dark:bg-gray-700 rounded-full h-2" aria-hidden="true">
+            <motion.div
+              className={`h-2 rounded-full ${
+                streak.length === longest ? 'bg-zen-peach-400' : 'bg-zen-mint-400'
+              }`}
+              initial={{ width: 0 }}
+              animate={{ width: `${(streak.length / longest) * 100}%` }}
+              transition={{ duration: 0.6, delay: Math.min(index, 5) * 0.05 }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+export default StreakHistory;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { TrendPoint } from '../../utils/analytics';
+
+/**
+ * TrendLineChart - Lightweight SVG line chart for daily analytics trends
+ *
+ * @component
+ * @param {Array} points - Trend points, oldest first
+ * @param {number} yMin - Lowest value on the y axis
+ * @param {number} yMax - Highest value on the y axis
+ * @param {Array} yTicks - Values to label on the y axis
+ * @param {function} formatTick - Formats a y axis label
+ * @param {function} formatValue - Formats a point's value for its tooltip
+ * @param {string} ariaLabel - Accessible description of the chart
+ * @param {string} [strokeClassName] - Tailwind stroke class for the line
+ * @param {string} [fillClassName] - Tailwind fill class for the points
+ *
+ * @example
+ * return (
+ *   <TrendLineChart
+ *     points={moodTrend}
+ *     yMin={1}
+ *     yMax={5}
+ *     yTicks={[1, 3, 5]}
+ *     formatTick={value => moods[value - 1].emoji}
+ *     formatValue={value => value.toFixed(1)}
+ *     ariaLabel="Average mood per day"
+ *   />
+ * )
+ */
+interface TrendLineChartProps {
+  points: TrendPoint[];
+  yMin: number;
+  yMax: number;
+  yTicks: number[];
+  formatTick: (value: number) => string;
+  formatValue: (value: number) => string;
+  ariaLabel: string;
+  strokeClassName?: string;
+  fillClassName?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+
+const TrendLineChart = React.memo(function TrendLineChart({
+  points,
+  yMin,
+  yMax,
+  yTicks,
+  formatTick,
+  formatValue,
+  ariaLabel,
+  strokeClassName = 'stroke-zen-mint-500',
+  fillClassName = 'fill-zen-mint-500'
+}: TrendLineChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const yRange = yMax - yMin || 1;
+
+  const getX = (index: number) =>
+    PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const getY = (value: number) =>
+    PADDING.top + plotHeight - ((Math.min(Math.max(value, yMin), yMax) - yMin) / yRange) * plotHeight;
+
+  const linePath = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${getX(index).toFixed(1)},${getY(point.value).toFixed(1)}`)
+    .join(' ');
+
+  function formatDate(dateString: string) {
+    // Parse as a local calendar day so the label matches the day it was grouped under
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={ariaLabel}
+    >
+      {yTicks.map(tick => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={getY(tick)}
+            y2={getY(tick)}
+            className="stroke-zen-sage-200 dark:stroke-gray-600"
+            strokeDasharray="4 4"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={getY(tick)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-zen-sage-500 dark:fill-gray-400 text-xs"
+          >
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+
+      {points.length > 1 && (
+        <path
+          d={linePath}
+          fill="none"
+          strokeWidth={2.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          className={strokeClassName}
+        />
+      )}
+
+      {points.map((point, index) => (
+        <circle
+          key={point.date}
+          cx={getX(index)}
+          cy={getY(point.value)}
+          r={points.length > 60 ? 2 : 4}
+          className={fillClassName}
+        >
+          <title>{`${formatDate(point.date)}: ${formatValue(point.value)}`}</title>
+        </circle>
+      ))}
+
+      {points.length > 0 && (
+        <>
+          <text
+            x={getX(0)}
+            y={HEIGHT - 8}
+            textAnchor={points.length > 1 ? 'start' : 'middle'}
+            className="fill-zen-sage-500 dark:fill-gray-400 text-xs"
+          >
+            {formatDate(points[0].date)}
+          </text>
+          {points.length > 1 && (
+            <text
+              x={getX(points.length - 1)}
+              y={HEIGHT - 8}
+              textAnchor="end"
+              className="fill-zen-sage-500 dark:fill-gray-400 text-xs"
+            >
+              {formatDate(points[points.length - 1].date)}
+            </text>
+          )}
+        </>
+      )}
+    </svg>
+  );
+});
+
+export default TrendLineChart;
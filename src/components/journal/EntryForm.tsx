@@ -4,6 +4,7 @@ import { Save } from 'lucide-react';
 import { MoodLevel } from '../../types';
 import MoodSelector from '../MoodSelector';
 import PhotoUpload from '../PhotoUpload';
+import TagInput from './TagInput';
 import { JOURNAL } from '../../constants/uiStrings';
 
 /**
@@ -14,6 +15,7 @@ import { JOURNAL } from '../../constants/uiStrings';
  * @param {boolean} isSubmitting - Whether the form is currently submitting
  * @param {boolean} [isPremiumUser=true] - Whether user has premium access
  * @param {function} [onUpsellTrigger] - Function to trigger premium upsell
+ * @param {string[]} [availableTags=[]] - Tags the user has used before, for autocomplete
  * 
  * @example
  * return (
@@ -26,27 +28,30 @@ import { JOURNAL } from '../../constants/uiStrings';
  * )
  */
 interface EntryFormProps {
-  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null) => Promise<void>;
+  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null, tags: string[]) => Promise<void>;
   isSubmitting: boolean;
   isPremiumUser?: boolean;
   onUpsellTrigger?: () => void;
+  availableTags?: string[];
 }
 
 export default function EntryForm({
   onSubmit,
   isSubmitting,
   isPremiumUser = true,
-  onUpsellTrigger
+  onUpsellTrigger,
+  availableTags = []
 }: EntryFormProps) {
   const [journalEntry, setJournalEntry] = useState('');
   const [entryTitle, setEntryTitle] = useState('');
   const [selectedMood, setSelectedMood] = useState<MoodLevel>();
   const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
 
   const handleSubmit = () => {
     if (!journalEntry.trim() || !selectedMood) return;
-    onSubmit(journalEntry, entryTitle, selectedMood, selectedPhoto);
+    onSubmit(journalEntry, entryTitle, selectedMood, selectedPhoto, tags);
   };
 
   return (
@@ -67,6 +72,20 @@ export default function EntryForm({
         />
       </div>
 
+      {/* Tags */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="entry-tags">
+          {JOURNAL.TAGS.LABEL}
+        </label>
+        <TagInput
+          id="entry-tags"
+          tags={tags}
+          onChange={setTags}
+          availableTags={availableTags}
+          disabled={isSubmitting}
+        />
+      </div>
+
       {/* Mood Selection */}
       <div className="mb-6">
         <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-3" id="mood-selector-label">
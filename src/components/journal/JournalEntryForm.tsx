@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Save, RefreshCw, AlertCircle, Sparkles } from 'lucide-react';
-import { MoodLevel } from '../../types';
+import { Save, AlertCircle } from 'lucide-react';
+import { AnsweredPrompt, EmotionAnalysis, EntryPrompt, MoodLevel, PromptCategory } from '../../types';
 import MoodSelector from '../MoodSelector';
 import PhotoUpload from '../PhotoUpload';
+import TagInput from './TagInput';
+import MoodSuggestion from './MoodSuggestion';
+import PromptSection from './PromptSection';
 import { JOURNAL } from '../../constants/uiStrings';
-import { moods } from '../../data/moods';
 
 /**
  * JournalEntryForm - Form for creating new journal entries
@@ -19,10 +21,15 @@ import { moods } from '../../data/moods';
  * @param {function} onGenerateNewPrompt - Function to generate a new prompt
  * @param {boolean} showMoodSuggestion - Whether to show AI mood suggestion
  * @param {MoodLevel|null} aiDetectedMood - AI-detected mood level
+ * @param {EmotionAnalysis|null} [aiEmotions=null] - Emotions found in the entry, shown with the suggestion
  * @param {function} onAcceptAiMood - Function to accept AI mood suggestion
  * @param {function} onDismissMoodSuggestion - Function to dismiss AI mood suggestion
  * @param {boolean} [isPremiumUser=true] - Whether user has premium access
  * @param {function} [onUpsellTrigger] - Function to trigger premium upsell
+ * @param {string[]} [availableTags=[]] - Tags the user has used before, for autocomplete
+ * @param {PromptCategory|null} [promptCategory=null] - Chosen kind of prompt, null for any
+ * @param {function} [onSelectPromptCategory] - Function to choose a kind of prompt
+ * @param {AnsweredPrompt[]} [answeredPrompts=[]] - Prompts already written about, newest first
  * 
  * @example
  * return (
@@ -41,7 +48,7 @@ import { moods } from '../../data/moods';
  * )
  */
 interface JournalEntryFormProps {
-  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null) => Promise<void>;
+  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null, tags: string[], prompt: EntryPrompt | null) => Promise<void>;
   isSubmitting: boolean;
   error: string;
   dailyPrompt: string;
@@ -49,10 +56,15 @@ interface JournalEntryFormProps {
   onGenerateNewPrompt: () => void;
   showMoodSuggestion: boolean;
   aiDetectedMood: MoodLevel | null;
+  aiEmotions?: EmotionAnalysis | null;
   onAcceptAiMood: () => void;
   onDismissMoodSuggestion: () => void;
   isPremiumUser?: boolean;
   onUpsellTrigger?: () => void;
+  availableTags?: string[];
+  promptCategory?: PromptCategory | null;
+  onSelectPromptCategory?: (category: PromptCategory | null) => void;
+  answeredPrompts?: AnsweredPrompt[];
 }
 
 const JournalEntryForm = React.memo(function JournalEntryForm({
@@ -64,52 +76,48 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
   onGenerateNewPrompt,
   showMoodSuggestion,
   aiDetectedMood,
+  aiEmotions = null,
   onAcceptAiMood,
   onDismissMoodSuggestion,
   isPremiumUser = true,
-  onUpsellTrigger
+  onUpsellTrigger,
+  availableTags = [],
+  promptCategory = null,
+  onSelectPromptCategory,
+  answeredPrompts = []
 }: JournalEntryFormProps) {
   const [journalEntry, setJournalEntry] = useState('');
   const [entryTitle, setEntryTitle] = useState('');
   const [selectedMood, setSelectedMood] = useState<MoodLevel>();
   const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
+  const [isAnsweringPrompt, setIsAnsweringPrompt] = useState(false);
+
+  // A new prompt hasn't been answered yet
+  useEffect(() => {
+    setIsAnsweringPrompt(false);
+  }, [dailyPrompt]);
 
   const handleSubmit = () => {
     if (!journalEntry.trim() || !selectedMood) return;
-    onSubmit(journalEntry, entryTitle, selectedMood, selectedPhoto);
+    const prompt = isAnsweringPrompt ? { text: dailyPrompt, category: promptCategory } : null;
+    onSubmit(journalEntry, entryTitle, selectedMood, selectedPhoto, tags, prompt);
   };
 
   return (
     <div className="space-y-6">
       {/* Daily Prompt Section */}
-      <motion.div
-        className="mb-8"
-        initial={{ opacity: 0, y: 30 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.8, delay: 0.4 }}
-      >
-        <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-lg border border-white/20 dark:border-gray-600/20">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-2">
-              <Sparkles className="w-5 h-5 text-zen-peach-500" />
-              <h3 className="font-display font-bold text-zen-sage-800 dark:text-gray-200">Today's Reflection</h3>
-            </div>
-            <button
-              onClick={onGenerateNewPrompt}
-              disabled={isLoadingPrompt}
-              className="p-2 text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-              title="Generate new prompt"
-              aria-label="Generate new journal prompt"
-            >
-              <RefreshCw className={`w-4 h-4 ${isLoadingPrompt ? 'animate-spin' : ''}`} aria-hidden="true" />
-            </button>
-          </div>
-          <p className="text-zen-sage-700 dark:text-gray-300 leading-relaxed">
-            {dailyPrompt}
-          </p>
-        </div>
-      </motion.div>
+      <PromptSection
+        dailyPrompt={dailyPrompt}
+        isLoadingPrompt={isLoadingPrompt}
+        onGenerateNewPrompt={onGenerateNewPrompt}
+        promptCategory={promptCategory}
+        onSelectCategory={onSelectPromptCategory}
+        isAnswering={isAnsweringPrompt}
+        onToggleAnswering={() => setIsAnsweringPrompt(prev => !prev)}
+        answeredPrompts={answeredPrompts}
+      />
 
       {/* Entry Title */}
       <div className="mb-6">
@@ -127,6 +135,20 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
         />
       </div>
 
+      {/* Tags */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="entry-tags">
+          {JOURNAL.TAGS.LABEL}
+        </label>
+        <TagInput
+          id="entry-tags"
+          tags={tags}
+          onChange={setTags}
+          availableTags={availableTags}
+          disabled={isSubmitting}
+        />
+      </div>
+
       {/* Mood Selection */}
       <div className="mb-6">
         <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-3" id="mood-selector-label">
@@ -141,52 +163,13 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
       </div>
 
       {/* AI Mood Suggestion */}
-      <AnimatePresence>
-        {showMoodSuggestion && aiDetectedMood && (
-          <motion.div
-            className="mb-6 bg-zen-lavender-50 dark:bg-gray-700 border border-zen-lavender-200 dark:border-gray-600 rounded-2xl p-4"
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0, height: 0 }}
-            transition={{ duration: 0.3 }}
-            role="alert"
-            aria-live="polite"
-          >
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <Sparkles className="w-5 h-5 text-zen-lavender-600" aria-hidden="true" />
-                <div>
-                  <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200">
-                    Based on your writing, I sense you might be feeling{' '}
-                    <span className="font-semibold">
-                      {moods.find(m => m.level === aiDetectedMood)?.label}
-                    </span>
-                  </p>
-                  <p className="text-xs text-zen-sage-600 dark:text-gray-400">
-                    Would you like me to update your mood selection?
-                  </p>
-                </div>
-              </div>
-              <div className="flex space-x-2">
-                <button
-                  onClick={onAcceptAiMood}
-                  className="px-3 py-1 bg-zen-lavender-500 text-white text-sm rounded-lg hover:bg-zen-lavender-600 transition-colors duration-200"
-                  aria-label={`Accept suggested mood: ${moods.find(m => m.level === aiDetectedMood)?.label}`}
-                >
-                  Yes
-                </button>
-                <button
-                  onClick={onDismissMoodSuggestion}
-                  className="px-3 py-1 bg-gray-300 dark:bg-gray-600 text-zen-sage-700 dark:text-gray-300 text-sm rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors duration-200"
-                  aria-label="Keep current mood selection"
-                >
-                  No
-                </button>
-              </div>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <MoodSuggestion
+        showMoodSuggestion={showMoodSuggestion}
+        aiDetectedMood={aiDetectedMood}
+        aiEmotions={aiEmotions}
+        onAcceptAiMood={onAcceptAiMood}
+        onDismissMoodSuggestion={onDismissMoodSuggestion}
+      />
 
       {/* Photo Upload */}
       <div className="mb-6">
@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, Trophy, Target, CheckCircle } from 'lucide-react';
+import { Calendar, Trophy, Target, CheckCircle, Snowflake } from 'lucide-react';
 import { JOURNAL } from '../../constants/uiStrings';
 
 /**
@@ -11,6 +11,8 @@ import { JOURNAL } from '../../constants/uiStrings';
  * @param {number} bestStreak - Best journaling streak
  * @param {number} totalEntries - Total number of journal entries
  * @param {boolean} alreadyJournaledToday - Whether user has journaled today
+ * @param {number} [streakFreezes=0] - Streak freezes the user has banked
+ * @param {number} [missedDays=0] - Days missed since the last entry, not counting today
  * @param {string} [className] - Optional CSS class name
  * 
  * @example
@@ -20,6 +22,8 @@ import { JOURNAL } from '../../constants/uiStrings';
  *     bestStreak={10}
  *     totalEntries={42}
  *     alreadyJournaledToday={true}
+ *     streakFreezes={2}
+ *     missedDays={0}
  *   />
  * )
  */
@@ -28,6 +32,8 @@ interface JournalStatsProps {
   bestStreak: number;
   totalEntries: number;
   alreadyJournaledToday: boolean;
+  streakFreezes?: number;
+  missedDays?: number;
   className?: string;
 }
 
@@ -36,8 +42,13 @@ const JournalStats = React.memo(function JournalStats({
   bestStreak,
   totalEntries,
   alreadyJournaledToday,
+  streakFreezes = 0,
+  missedDays = 0,
   className = ''
 }: JournalStatsProps) {
+  // The streak is only still showing after missed days because freezes will cover them
+  const isStreakFrozen = streak > 0 && missedDays > 0;
+
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Stats */}
@@ -71,6 +82,48 @@ const JournalStats = React.memo(function JournalStats({
         </motion.div>
       </div>
 
+      {/* Streak freezes */}
+      {streakFreezes > 0 && (
+        <motion.div
+          className="flex justify-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4 }}
+        >
+          <div
+            className="inline-flex items-center space-x-1 text-sm text-zen-lavender-600 dark:text-zen-lavender-400"
+            title={JOURNAL.STREAK_FREEZE.HELP}
+          >
+            <Snowflake className="w-4 h-4" aria-hidden="true" />
+            <span>
+              {streakFreezes === 1
+                ? JOURNAL.STREAK_FREEZE.COUNT_ONE
+                : JOURNAL.STREAK_FREEZE.COUNT.replace('{count}', streakFreezes.toString())}
+            </span>
+            <span className="sr-only">{JOURNAL.STREAK_FREEZE.HELP}</span>
+          </div>
+        </motion.div>
+      )}
+
+      {isStreakFrozen && (
+        <motion.div
+          className="text-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.5 }}
+        >
+          <div className="inline-flex items-center space-x-2 bg-zen-lavender-50 dark:bg-gray-700 px-4 py-2 rounded-full border border-zen-lavender-200 dark:border-gray-600">
+            <Snowflake className="w-4 h-4 text-zen-lavender-500" aria-hidden="true" />
+            <span className="text-sm text-zen-sage-700 dark:text-gray-300 font-medium">
+              {(missedDays === 1
+                ? JOURNAL.STREAK_FREEZE.PROTECTING_ONE
+                : JOURNAL.STREAK_FREEZE.PROTECTING_MANY.replace('{count}', missedDays.toString())
+              ).replace('{streak}', streak.toString())}
+            </span>
+          </div>
+        </motion.div>
+      )}
+
       {/* Already journaled today message */}
       {alreadyJournaledToday && (
         <motion.div
@@ -1,8 +1,9 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sparkles } from 'lucide-react';
-import { MoodLevel } from '../../types';
+import { EmotionAnalysis, MoodLevel } from '../../types';
 import { moods } from '../../data/moods';
+import { getEmotionInfo } from '../../data/emotions';
 import { JOURNAL } from '../../constants/uiStrings';
 
 /**
@@ -11,6 +12,7 @@ import { JOURNAL } from '../../constants/uiStrings';
  * @component
  * @param {boolean} showMoodSuggestion - Whether to show the suggestion
  * @param {MoodLevel|null} aiDetectedMood - AI-detected mood level
+ * @param {EmotionAnalysis|null} [aiEmotions=null] - Emotions, intensity and triggers found in the entry
  * @param {function} onAcceptAiMood - Function to accept AI mood suggestion
  * @param {function} onDismissMoodSuggestion - Function to dismiss AI mood suggestion
  * 
@@ -19,6 +21,7 @@ import { JOURNAL } from '../../constants/uiStrings';
  *   <MoodSuggestion
  *     showMoodSuggestion={true}
  *     aiDetectedMood={4}
+ *     aiEmotions={{ primary: 'hopeful', secondary: ['tired'], intensity: 3, triggers: ['new job'] }}
  *     onAcceptAiMood={handleAcceptAiMood}
  *     onDismissMoodSuggestion={handleDismissMoodSuggestion}
  *   />
@@ -27,6 +30,7 @@ import { JOURNAL } from '../../constants/uiStrings';
 interface MoodSuggestionProps {
   showMoodSuggestion: boolean;
   aiDetectedMood: MoodLevel | null;
+  aiEmotions?: EmotionAnalysis | null;
   onAcceptAiMood: () => void;
   onDismissMoodSuggestion: () => void;
 }
@@ -34,14 +38,21 @@ interface MoodSuggestionProps {
 const MoodSuggestion = React.memo(function MoodSuggestion({
   showMoodSuggestion,
   aiDetectedMood,
+  aiEmotions = null,
   onAcceptAiMood,
   onDismissMoodSuggestion
 }: MoodSuggestionProps) {
+  const { MOOD_SUGGESTION } = JOURNAL;
   if (!showMoodSuggestion || !aiDetectedMood) return null;
 
   const suggestedMood = moods.find(m => m.level === aiDetectedMood);
   if (!suggestedMood) return null;
 
+  const primaryEmotion = aiEmotions ? getEmotionInfo(aiEmotions.primary) : undefined;
+  const secondaryLabels = (aiEmotions?.secondary ?? [])
+    .map(emotion => getEmotionInfo(emotion)?.label.toLowerCase())
+    .filter(Boolean);
+
   return (
     <AnimatePresence>
       <motion.div
@@ -58,13 +69,36 @@ const MoodSuggestion = React.memo(function MoodSuggestion({
             <Sparkles className="w-5 h-5 text-zen-lavender-600" aria-hidden="true" />
             <div>
               <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200">
-                Based on your writing, I sense you might be feeling{' '}
+                {MOOD_SUGGESTION.SENSED}{' '}
                 <span className="font-semibold">
-                  {suggestedMood.label.toLowerCase()}
+                  {primaryEmotion
+                    ? `${primaryEmotion.emoji} ${primaryEmotion.label.toLowerCase()}`
+                    : suggestedMood.label.toLowerCase()}
                 </span>
+                {secondaryLabels.length > 0 && (
+                  <> {MOOD_SUGGESTION.ALSO.replace('{emotions}', secondaryLabels.join(' and '))}</>
+                )}
               </p>
+              {aiEmotions && (
+                <div className="flex items-center space-x-1 my-1" aria-label={MOOD_SUGGESTION.INTENSITY.replace('{value}', String(aiEmotions.intensity))}>
+                  {[1, 2, 3, 4, 5].map(step => (
+                    <span
+                      key={step}
+                      className={`w-2 h-2 rounded-full ${
+                        step <= aiEmotions.intensity ? 'bg-zen-lavender-500' : 'bg-zen-lavender-200 dark:bg-gray-600'
+                      }`}
+                      aria-hidden="true"
+                    />
+                  ))}
+                </div>
+              )}
+              {aiEmotions && aiEmotions.triggers.length > 0 && (
+                <p className="text-xs text-zen-sage-600 dark:text-gray-400">
+                  {MOOD_SUGGESTION.TRIGGERS.replace('{triggers}', aiEmotions.triggers.join(', '))}
+                </p>
+              )}
               <p className="text-xs text-zen-sage-600 dark:text-gray-400">
-                Would you like me to update your mood selection?
+                {MOOD_SUGGESTION.QUESTION}
               </p>
             </div>
           </div>
@@ -74,14 +108,14 @@ const MoodSuggestion = React.memo(function MoodSuggestion({
               className="px-3 py-1 bg-zen-lavender-500 text-white text-sm rounded-lg hover:bg-zen-lavender-600 transition-colors duration-200"
               aria-label={`Accept suggested mood: ${suggestedMood.label}`}
             >
-              Yes
+              {MOOD_SUGGESTION.ACCEPT}
             </button>
             <button
               onClick={onDismissMoodSuggestion}
               className="px-3 py-1 bg-gray-300 dark:bg-gray-600 text-zen-sage-700 dark:text-gray-300 text-sm rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors duration-200"
               aria-label="Keep current mood selection"
             >
-              No
+              {MOOD_SUGGESTION.DISMISS}
             </button>
           </div>
         </div>
@@ -1,23 +1,31 @@
-import React from 'react';
-import { motion } from 'framer-motion';
-import { Lightbulb, RefreshCw } from 'lucide-react';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lightbulb, RefreshCw, PenLine, History, ChevronDown } from 'lucide-react';
 import VoiceButton from '../VoiceButton';
 import { JOURNAL } from '../../constants/uiStrings';
+import { AnsweredPrompt, PromptCategory } from '../../types';
+import { getPromptCategoryInfo, promptCategories } from '../../data/prompts';
 
 /**
- * PromptSection - Displays daily journaling prompts with voice playback option
- * 
+ * PromptSection - Displays daily journaling prompts with category choice, voice playback
+ * and the prompts the user has already answered
+ *
  * @component
  * @param {string} dailyPrompt - Prompt text to display
  * @param {boolean} isLoadingPrompt - Whether a new prompt is being loaded
  * @param {function} onGenerateNewPrompt - Function to generate a new prompt
- * @param {boolean} isGeneratingSpeech - Whether speech is being generated
- * @param {boolean} isSpeechPlaying - Whether speech is currently playing
- * @param {function} onPlaySpeech - Function to play prompt as speech
- * @param {function} onStopSpeech - Function to stop speech playback
+ * @param {boolean} [isGeneratingSpeech=false] - Whether speech is being generated
+ * @param {boolean} [isSpeechPlaying=false] - Whether speech is currently playing
+ * @param {function} [onPlaySpeech] - Function to play prompt as speech; voice playback is hidden without it
+ * @param {function} [onStopSpeech] - Function to stop speech playback
  * @param {boolean} [isPremiumUser=true] - Whether user has premium access
  * @param {function} [onUpsellTrigger] - Function to trigger premium upsell
- * 
+ * @param {PromptCategory|null} [promptCategory=null] - Chosen kind of prompt, null for any
+ * @param {function} [onSelectCategory] - Function to choose a kind of prompt; the choice is hidden without it
+ * @param {boolean} [isAnswering=false] - Whether the entry being written answers this prompt
+ * @param {function} [onToggleAnswering] - Function to start or stop answering the prompt
+ * @param {AnsweredPrompt[]} [answeredPrompts=[]] - Prompts already written about, newest first
+ *
  * @example
  * return (
  *   <PromptSection
@@ -28,6 +36,8 @@ import { JOURNAL } from '../../constants/uiStrings';
  *     isSpeechPlaying={false}
  *     onPlaySpeech={handlePlaySpeech}
  *     onStopSpeech={handleStopSpeech}
+ *     promptCategory={promptCategory}
+ *     onSelectCategory={handleSelectPromptCategory}
  *   />
  * )
  */
@@ -35,25 +45,44 @@ interface PromptSectionProps {
   dailyPrompt: string;
   isLoadingPrompt: boolean;
   onGenerateNewPrompt: () => void;
-  isGeneratingSpeech: boolean;
-  isSpeechPlaying: boolean;
-  onPlaySpeech: () => void;
-  onStopSpeech: () => void;
+  isGeneratingSpeech?: boolean;
+  isSpeechPlaying?: boolean;
+  onPlaySpeech?: () => void;
+  onStopSpeech?: () => void;
   isPremiumUser?: boolean;
   onUpsellTrigger?: () => void;
+  promptCategory?: PromptCategory | null;
+  onSelectCategory?: (category: PromptCategory | null) => void;
+  isAnswering?: boolean;
+  onToggleAnswering?: () => void;
+  answeredPrompts?: AnsweredPrompt[];
 }
 
 const PromptSection = React.memo(function PromptSection({
   dailyPrompt,
   isLoadingPrompt,
   onGenerateNewPrompt,
-  isGeneratingSpeech,
-  isSpeechPlaying,
+  isGeneratingSpeech = false,
+  isSpeechPlaying = false,
   onPlaySpeech,
   onStopSpeech,
   isPremiumUser = true,
-  onUpsellTrigger
+  onUpsellTrigger,
+  promptCategory = null,
+  onSelectCategory,
+  isAnswering = false,
+  onToggleAnswering,
+  answeredPrompts = []
 }: PromptSectionProps) {
+  const [showAnswered, setShowAnswered] = useState(false);
+
+  const chipClass = (isSelected: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+      isSelected
+        ? 'bg-zen-mint-400 text-white'
+        : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-600'
+    }`;
+
   return (
     <motion.div
       className="mb-8"
@@ -66,41 +95,133 @@ const PromptSection = React.memo(function PromptSection({
           <div className="flex items-center space-x-2">
             <Lightbulb className="w-5 h-5 text-zen-peach-500" aria-hidden="true" />
             <h3 className="font-display font-bold text-zen-sage-800 dark:text-gray-200" id="daily-prompt-heading">
-              Today's Reflection
+              {JOURNAL.PROMPT_SECTION.TITLE}
             </h3>
           </div>
           <div className="flex items-center space-x-2">
-            <VoiceButton
-              isGenerating={isGeneratingSpeech}
-              isPlaying={isSpeechPlaying}
-              onPlay={onPlaySpeech}
-              onStop={onStopSpeech}
-              size="sm"
-              isPremiumUser={isPremiumUser}
-              onUpsellTrigger={onUpsellTrigger}
-              aria-label="Listen to prompt"
-            />
+            {onPlaySpeech && onStopSpeech && (
+              <VoiceButton
+                isGenerating={isGeneratingSpeech}
+                isPlaying={isSpeechPlaying}
+                onPlay={onPlaySpeech}
+                onStop={onStopSpeech}
+                size="sm"
+                isPremiumUser={isPremiumUser}
+                onUpsellTrigger={onUpsellTrigger}
+                aria-label={JOURNAL.PROMPT_SECTION.LISTEN}
+              />
+            )}
             <button
               onClick={onGenerateNewPrompt}
               disabled={isLoadingPrompt}
               className="p-2 text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-              title="Generate new prompt"
-              aria-label="Generate new prompt"
+              title={JOURNAL.PROMPT_SECTION.NEW_PROMPT}
+              aria-label={JOURNAL.PROMPT_SECTION.NEW_PROMPT}
             >
               <RefreshCw className={`w-4 h-4 ${isLoadingPrompt ? 'animate-spin' : ''}`} aria-hidden="true" />
             </button>
           </div>
         </div>
-        <p 
+
+        {onSelectCategory && (
+          <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label={JOURNAL.PROMPT_SECTION.CATEGORY_LABEL}>
+            <button
+              type="button"
+              onClick={() => onSelectCategory(null)}
+              disabled={isLoadingPrompt}
+              className={chipClass(promptCategory === null)}
+              aria-pressed={promptCategory === null}
+            >
+              {JOURNAL.PROMPT_SECTION.ANY_CATEGORY}
+            </button>
+            {promptCategories.map(info => (
+              <button
+                key={info.category}
+                type="button"
+                onClick={() => onSelectCategory(info.category)}
+                disabled={isLoadingPrompt}
+                className={chipClass(promptCategory === info.category)}
+                aria-pressed={promptCategory === info.category}
+                title={info.description}
+              >
+                <span aria-hidden="true">{info.emoji}</span> {info.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p
           className="text-zen-sage-700 dark:text-gray-300 leading-relaxed"
           aria-labelledby="daily-prompt-heading"
           aria-live={isLoadingPrompt ? "polite" : "off"}
         >
           {dailyPrompt}
         </p>
+
+        {onToggleAnswering && (
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={onToggleAnswering}
+              disabled={isLoadingPrompt}
+              className={`flex items-center space-x-2 ${chipClass(isAnswering)}`}
+              aria-pressed={isAnswering}
+            >
+              <PenLine className="w-4 h-4" aria-hidden="true" />
+              <span>{isAnswering ? JOURNAL.PROMPT_SECTION.ANSWERING : JOURNAL.PROMPT_SECTION.ANSWER}</span>
+            </button>
+            {isAnswering && (
+              <span className="text-xs text-zen-sage-500 dark:text-gray-400">{JOURNAL.PROMPT_SECTION.ANSWERING_HELP}</span>
+            )}
+          </div>
+        )}
+
+        {answeredPrompts.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-zen-sage-100 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={() => setShowAnswered(prev => !prev)}
+              className="flex items-center space-x-2 text-sm text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 transition-colors"
+              aria-expanded={showAnswered}
+              aria-controls="answered-prompts"
+            >
+              <History className="w-4 h-4" aria-hidden="true" />
+              <span>{JOURNAL.PROMPT_SECTION.ANSWERED_SHOW.replace('{count}', answeredPrompts.length.toString())}</span>
+              <ChevronDown className={`w-4 h-4 transition-transform ${showAnswered ? 'rotate-180' : ''}`} aria-hidden="true" />
+            </button>
+            <AnimatePresence>
+              {showAnswered && (
+                <motion.ul
+                  id="answered-prompts"
+                  className="mt-3 space-y-2 overflow-hidden"
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  aria-label={JOURNAL.PROMPT_SECTION.ANSWERED_TITLE}
+                >
+                  {answeredPrompts.map(answered => {
+                    const info = answered.category ? getPromptCategoryInfo(answered.category) : undefined;
+                    return (
+                      <li key={answered.entryId} className="flex items-start space-x-2 text-sm">
+                        <span aria-hidden="true">{info?.emoji ?? '💭'}</span>
+                        <div>
+                          <p className="text-zen-sage-700 dark:text-gray-300">{answered.text}</p>
+                          <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+                            {new Date(answered.answeredAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            {info ? ` · ${info.label}` : ''}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </motion.ul>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
       </div>
     </motion.div>
   );
 });
 
-export default PromptSection;
\ No newline at end of file
+export default PromptSection;
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { Hash, X } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { MAX_TAGS_PER_ENTRY, addTag, getTagSuggestions } from '../../utils/tags';
+
+/**
+ * TagInput - Chip input for journal entry tags with autocomplete from existing tags
+ *
+ * @component
+ * @param {string} id - Id for the text input (used by the label)
+ * @param {string[]} tags - Currently selected tags
+ * @param {function} onChange - Function called with the new list of tags
+ * @param {string[]} [availableTags=[]] - Tags the user has used before, for suggestions
+ * @param {boolean} [disabled=false] - Whether the input is disabled
+ *
+ * @example
+ * return (
+ *   <TagInput
+ *     id="entry-tags"
+ *     tags={tags}
+ *     onChange={setTags}
+ *     availableTags={availableTags}
+ *   />
+ * )
+ */
+interface TagInputProps {
+  id: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  availableTags?: string[];
+  disabled?: boolean;
+}
+
+const TagInput = React.memo(function TagInput({
+  id,
+  tags,
+  onChange,
+  availableTags = [],
+  disabled = false
+}: TagInputProps) {
+  const [inputValue, setInputValue] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+  const isAtLimit = tags.length >= MAX_TAGS_PER_ENTRY;
+  const listboxId = `${id}-suggestions`;
+
+  const suggestions = useMemo(
+    () => (inputValue.trim() ? getTagSuggestions(inputValue, availableTags, tags) : []),
+    [inputValue, availableTags, tags]
+  );
+
+  const showSuggestions = isFocused && !isAtLimit && suggestions.length > 0;
+
+  const commitTag = (tag: string) => {
+    onChange(addTag(tags, tag));
+    setInputValue('');
+    setHighlightedIndex(-1);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter' || e.key === ',') {
+      if (!inputValue.trim()) return;
+      e.preventDefault();
+      commitTag(showSuggestions && highlightedIndex >= 0 ? suggestions[highlightedIndex] : inputValue);
+    } else if (e.key === 'Backspace' && !inputValue && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape') {
+      setHighlightedIndex(-1);
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus-within:ring-2 focus-within:ring-zen-mint-400 focus-within:border-transparent transition-all duration-300">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-zen-mint-700 dark:text-zen-mint-300 bg-zen-mint-100 dark:bg-zen-mint-900/30 rounded-full"
+          >
+            <Hash className="w-3 h-3" aria-hidden="true" />
+            <span>{tag}</span>
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              disabled={disabled}
+              className="text-zen-mint-600 hover:text-zen-mint-800 dark:hover:text-zen-mint-200 disabled:cursor-not-allowed"
+              aria-label={JOURNAL.TAGS.REMOVE.replace('{tag}', tag)}
+            >
+              <X className="w-3 h-3" aria-hidden="true" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setHighlightedIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue.trim()) commitTag(inputValue);
+          }}
+          placeholder={isAtLimit
+            ? JOURNAL.TAGS.LIMIT_REACHED.replace('{max}', MAX_TAGS_PER_ENTRY.toString())
+            : JOURNAL.TAGS.PLACEHOLDER}
+          className="flex-1 min-w-[8rem] py-1 bg-transparent focus:outline-none text-sm text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500"
+          disabled={disabled || isAtLimit}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={showSuggestions && highlightedIndex >= 0 ? `${listboxId}-${highlightedIndex}` : undefined}
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          className="absolute z-20 mt-1 w-full bg-white dark:bg-gray-800 border border-zen-sage-200 dark:border-gray-600 rounded-xl shadow-lg overflow-hidden"
+          role="listbox"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Prevent the input from blurring before the click registers
+              onMouseDown={(e) => {
+                e.preventDefault();
+                commitTag(suggestion);
+              }}
+              className={`flex items-center space-x-1 px-3 py-2 text-sm cursor-pointer ${
+                index === highlightedIndex
+                  ? 'bg-zen-mint-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200'
+                  : 'text-zen-sage-700 dark:text-gray-300 hover:bg-zen-sage-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <Hash className="w-3 h-3 text-zen-sage-400" aria-hidden="true" />
+              <span>{suggestion}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+export default TagInput;
@@ -13,6 +13,8 @@ import { JOURNAL } from '../../constants/uiStrings';
  * @param {number} bestStreak - Best journaling streak
  * @param {number} totalEntries - Total number of journal entries
  * @param {boolean} alreadyJournaledToday - Whether user has journaled today
+ * @param {number} [streakFreezes] - Streak freezes the user has banked
+ * @param {number} [missedDays] - Days missed since the last entry, not counting today
  * @param {string} [contextualMessage] - Optional contextual message based on recent activity
  * 
  * @example
@@ -33,6 +35,8 @@ interface WelcomeSectionProps {
   bestStreak: number;
   totalEntries: number;
   alreadyJournaledToday: boolean;
+  streakFreezes?: number;
+  missedDays?: number;
   contextualMessage?: string;
 }
 
@@ -42,6 +46,8 @@ const WelcomeSection = React.memo(function WelcomeSection({
   bestStreak,
   totalEntries,
   alreadyJournaledToday,
+  streakFreezes,
+  missedDays,
   contextualMessage
 }: WelcomeSectionProps) {
   const getGreeting = () => {
@@ -81,6 +87,8 @@ const WelcomeSection = React.memo(function WelcomeSection({
         bestStreak={bestStreak}
         totalEntries={totalEntries}
         alreadyJournaledToday={alreadyJournaledToday}
+        streakFreezes={streakFreezes}
+        missedDays={missedDays}
       />
 
       {/* Contextual Message */}
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Crown, Check } from 'lucide-react';
-import { SETTINGS } from '../../constants/uiStrings';
+import { Crown, Check, Copy, Gift, Tag, Users, CalendarClock } from 'lucide-react';
+import { PREMIUM, SETTINGS } from '../../constants/uiStrings';
+import { BillingDiscount, GiftCode, ReferralSummary } from '../../hooks/useRewards';
+import { formatDiscount } from '../../utils/discounts';
 
 /**
  * CurrentSubscriptionCard - Displays the user's current subscription status
@@ -10,6 +12,15 @@ import { SETTINGS } from '../../constants/uiStrings';
  * @param {boolean} isSubscribed - Whether the user has an active subscription
  * @param {string} subscriptionTier - The user's subscription tier (free, premium, premium_plus)
  * @param {string|null} expiryDate - The date when the subscription expires
+ * @param {boolean} isGifted - Whether premium comes from a gift or referral credit rather than a subscription
+ * @param {BillingDiscount|null} discount - Promotion applied to the subscription
+ * @param {string|null} referralCode - The user's own code to share
+ * @param {ReferralSummary} referrals - Friends who joined with the code and months earned
+ * @param {GiftCode[]} gifts - Gift codes the user bought
+ * @param {string|null} scheduledTier - Tier the subscription switches to at renewal, if a downgrade is scheduled
+ * @param {string|null} scheduledTierAt - When the scheduled switch happens
+ * @param {function} onKeepPlan - Function to call off the scheduled switch
+ * @param {boolean} isChangingPlan - Whether a plan change is in progress
  * 
  * @example
  * return (
@@ -17,6 +28,15 @@ import { SETTINGS } from '../../constants/uiStrings';
  *     isSubscribed={true} 
  *     subscriptionTier="premium_plus" 
  *     expiryDate="2023-12-31"
+ *     isGifted={false}
+ *     discount={null}
+ *     referralCode="REF-3F9A12BC"
+ *     referrals={{ joined: 2, credited: 1 }}
+ *     gifts={[]}
+ *     scheduledTier={null}
+ *     scheduledTierAt={null}
+ *     onKeepPlan={handleKeepPlan}
+ *     isChangingPlan={false}
  *   />
  * )
  */
@@ -24,6 +44,15 @@ interface CurrentSubscriptionCardProps {
   isSubscribed: boolean;
   subscriptionTier: string;
   expiryDate: string | null;
+  isGifted: boolean;
+  discount: BillingDiscount | null;
+  referralCode: string | null;
+  referrals: ReferralSummary;
+  gifts: GiftCode[];
+  scheduledTier: string | null;
+  scheduledTierAt: string | null;
+  onKeepPlan: () => void;
+  isChangingPlan: boolean;
 }
 
 const formatDate = (dateString: string | null): string => {
@@ -44,11 +73,34 @@ const formatDate = (dateString: string | null): string => {
 const CurrentSubscriptionCard = React.memo(function CurrentSubscriptionCard({
   isSubscribed,
   subscriptionTier,
-  expiryDate
+  expiryDate,
+  isGifted,
+  discount,
+  referralCode,
+  referrals,
+  gifts,
+  scheduledTier,
+  scheduledTierAt,
+  onKeepPlan,
+  isChangingPlan
 }: CurrentSubscriptionCardProps) {
-  if (!isSubscribed) return null;
+  const { REWARDS, PLAN_CHANGE, MONTHLY, YEARLY } = PREMIUM;
+  const [copied, setCopied] = useState(false);
+
+  if (!isSubscribed && !referralCode && gifts.length === 0) return null;
 
   const isYearlySubscriber = subscriptionTier === 'premium_plus';
+
+  const handleCopyReferralCode = async () => {
+    if (!referralCode) return;
+    try {
+      await navigator.clipboard.writeText(referralCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Could not copy referral code:', err);
+    }
+  };
   
   return (
     <motion.div
@@ -56,29 +108,123 @@ const CurrentSubscriptionCard = React.memo(function CurrentSubscriptionCard({
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
     >
-      <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-4">
-        {SETTINGS.SUBSCRIPTION.CURRENT_PLAN}
-      </h4>
-      <div className="bg-gradient-to-r from-zen-mint-100 to-zen-lavender-100 dark:from-gray-800 dark:to-gray-700 rounded-3xl p-6 shadow-xl border border-zen-mint-200 dark:border-gray-600">
-        <div className="flex items-center space-x-4">
-          <div className="bg-white/80 dark:bg-gray-700/80 p-3 rounded-full">
-            <Crown className="w-6 h-6 text-yellow-500" aria-hidden="true" />
-          </div>
-          <div>
-            <h2 className="text-xl font-bold text-zen-sage-800 dark:text-gray-200">
-              {isYearlySubscriber
-                ? SETTINGS.SUBSCRIPTION.PREMIUM_YEARLY
-                : SETTINGS.SUBSCRIPTION.PREMIUM_MONTHLY}
-            </h2>
-            <p className="text-zen-sage-600 dark:text-gray-400">
-              {isYearlySubscriber 
-                ? 'You have a Yearly Premium subscription' 
-                : 'You have a Monthly Premium subscription'}
-              {expiryDate && ` • Renews on ${formatDate(expiryDate)}`}
-            </p>
+      {isSubscribed && (
+        <>
+          <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-4">
+            {SETTINGS.SUBSCRIPTION.CURRENT_PLAN}
+          </h4>
+          <div className="bg-gradient-to-r from-zen-mint-100 to-zen-lavender-100 dark:from-gray-800 dark:to-gray-700 rounded-3xl p-6 shadow-xl border border-zen-mint-200 dark:border-gray-600">
+            <div className="flex items-center space-x-4">
+              <div className="bg-white/80 dark:bg-gray-700/80 p-3 rounded-full">
+                <Crown className="w-6 h-6 text-yellow-500" aria-hidden="true" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-zen-sage-800 dark:text-gray-200">
+                  {isGifted
+                    ? REWARDS.GIFTED_PLAN
+                    : isYearlySubscriber
+                      ? SETTINGS.SUBSCRIPTION.PREMIUM_YEARLY
+                      : SETTINGS.SUBSCRIPTION.PREMIUM_MONTHLY}
+                </h2>
+                <p className="text-zen-sage-600 dark:text-gray-400">
+                  {isGifted
+                    ? REWARDS.GIFTED_UNTIL.replace('{date}', formatDate(expiryDate))
+                    : <>
+                      {isYearlySubscriber 
+                        ? 'You have a Yearly Premium subscription' 
+                        : 'You have a Monthly Premium subscription'}
+                      {expiryDate && ` • Renews on ${formatDate(expiryDate)}`}
+                    </>}
+                </p>
+                {discount && !isGifted && (
+                  <p className="mt-1 text-sm text-zen-mint-700 dark:text-zen-mint-400 flex items-center">
+                    <Tag className="w-4 h-4 mr-1" aria-hidden="true" />
+                    {REWARDS.DISCOUNT.replace('{discount}', formatDiscount(discount))}
+                  </p>
+                )}
+                {scheduledTier && scheduledTierAt && !isGifted && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-zen-sage-700 dark:text-gray-300">
+                    <CalendarClock className="w-4 h-4" aria-hidden="true" />
+                    <span>
+                      {PLAN_CHANGE.SCHEDULED
+                        .replace('{plan}', scheduledTier === 'premium_plus' ? YEARLY.NAME : MONTHLY.NAME)
+                        .replace('{date}', formatDate(scheduledTierAt))}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={onKeepPlan}
+                      disabled={isChangingPlan}
+                      className="px-3 py-1 rounded-full bg-white/80 dark:bg-gray-700/80 text-zen-mint-700 dark:text-zen-mint-300 font-medium hover:bg-white dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                    >
+                      {PLAN_CHANGE.KEEP_PLAN.replace('{plan}', isYearlySubscriber ? YEARLY.NAME : MONTHLY.NAME)}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
+        </>
+      )}
+
+      {/* Gifts & Referrals */}
+      {(referralCode || gifts.length > 0) && (
+        <div className={`${isSubscribed ? 'mt-4 ' : ''}bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20`}>
+          <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-4">
+            {REWARDS.TITLE}
+          </h4>
+
+          {referralCode && (
+            <div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-zen-sage-700 dark:text-gray-300">
+                  <Users className="w-5 h-5 text-zen-lavender-500" aria-hidden="true" />
+                  <span className="text-sm">{REWARDS.REFERRAL_TITLE}</span>
+                  <span className="font-mono font-bold tracking-wider text-zen-sage-800 dark:text-gray-100">{referralCode}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleCopyReferralCode}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm rounded-full bg-zen-lavender-100 dark:bg-zen-lavender-900/30 text-zen-lavender-700 dark:text-zen-lavender-300 hover:bg-zen-lavender-200 dark:hover:bg-zen-lavender-800/50 transition-colors"
+                >
+                  {copied ? <Check className="w-4 h-4" aria-hidden="true" /> : <Copy className="w-4 h-4" aria-hidden="true" />}
+                  <span>{copied ? REWARDS.COPIED : REWARDS.COPY}</span>
+                </button>
+              </div>
+              <p className="mt-2 text-sm text-zen-sage-600 dark:text-gray-400">{REWARDS.REFERRAL_HELP}</p>
+              {referrals.joined > 0 && (
+                <p className="mt-1 text-sm text-zen-mint-700 dark:text-zen-mint-400">
+                  {REWARDS.REFERRAL_PROGRESS
+                    .replace('{joined}', String(referrals.joined))
+                    .replace('{credited}', String(referrals.credited))}
+                </p>
+              )}
+            </div>
+          )}
+
+          {gifts.length > 0 && (
+            <div className={referralCode ? 'mt-6' : ''}>
+              <h5 className="text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                {REWARDS.GIFTS_TITLE}
+              </h5>
+              <ul className="space-y-2">
+                {gifts.map(gift => (
+                  <li key={gift.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center space-x-2">
+                      <Gift className="w-4 h-4 text-zen-peach-500" aria-hidden="true" />
+                      <span className="font-mono font-semibold text-zen-sage-800 dark:text-gray-200">{gift.code}</span>
+                    </span>
+                    <span className="text-zen-sage-500 dark:text-gray-400">
+                      {gift.redeemed_at
+                        ? REWARDS.GIFT_REDEEMED.replace('{date}', formatDate(gift.redeemed_at))
+                        : REWARDS.GIFT_UNUSED}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
-      </div>
+      )}
     </motion.div>
   );
 });
@@ -0,0 +1,120 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRightLeft } from 'lucide-react';
+import { PREMIUM } from '../../constants/uiStrings';
+import { PlanChangePreview } from '../../hooks/useStripe';
+import { formatMoney } from '../../utils/discounts';
+
+/**
+ * PlanChangeConfirmation - Shows what switching plans costs before the user confirms
+ *
+ * @component
+ * @param {PlanChangePreview} preview - Prorated cost of the switch from the server
+ * @param {function} onConfirm - Function to make the switch
+ * @param {function} onCancel - Function to close without switching
+ * @param {boolean} isLoading - Whether the switch is in progress
+ *
+ * @example
+ * return (
+ *   <PlanChangeConfirmation
+ *     preview={preview}
+ *     onConfirm={handleConfirmPlanChange}
+ *     onCancel={() => setPreview(null)}
+ *     isLoading={isLoading}
+ *   />
+ * )
+ */
+interface PlanChangeConfirmationProps {
+  preview: PlanChangePreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+const PlanChangeConfirmation = React.memo(function PlanChangeConfirmation({
+  preview,
+  onConfirm,
+  onCancel,
+  isLoading
+}: PlanChangeConfirmationProps) {
+  const { PLAN_CHANGE, MONTHLY, YEARLY, BUTTONS } = PREMIUM;
+  const planName = preview.plan === 'yearly' ? YEARLY.NAME : MONTHLY.NAME;
+  const currentPlanName = preview.plan === 'yearly' ? MONTHLY.NAME : YEARLY.NAME;
+  const nextAmount = preview.next_amount_cents !== null
+    ? formatMoney(preview.next_amount_cents, preview.currency)
+    : '';
+  // Upgrading restarts the billing year today
+  const renewsOn = new Date(preview.effective_at);
+  renewsOn.setFullYear(renewsOn.getFullYear() + 1);
+
+  return (
+    <motion.div
+      className="mb-8 max-w-2xl mx-auto bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-zen-mint-200 dark:border-gray-600"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      role="dialog"
+      aria-labelledby="plan-change-title"
+    >
+      <h3 id="plan-change-title" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center">
+        <ArrowRightLeft className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {PLAN_CHANGE.TITLE.replace('{plan}', planName)}
+      </h3>
+
+      {preview.kind === 'upgrade' ? (
+        <div className="space-y-2 text-zen-sage-700 dark:text-gray-300">
+          <p className="text-2xl font-bold text-zen-sage-800 dark:text-gray-100">
+            {PLAN_CHANGE.DUE_TODAY.replace('{amount}', formatMoney(preview.amount_due_cents, preview.currency))}
+          </p>
+          {preview.credit_cents > 0 && (
+            <p className="text-sm">
+              {PLAN_CHANGE.CREDIT.replace('{amount}', formatMoney(preview.credit_cents, preview.currency))}
+            </p>
+          )}
+          {nextAmount && (
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+              {PLAN_CHANGE.UPGRADE_RENEWAL
+                .replace('{amount}', nextAmount)
+                .replace('{date}', formatDate(renewsOn.toISOString()))}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-zen-sage-700 dark:text-gray-300">
+          {PLAN_CHANGE.DOWNGRADE_NOTE
+            .replace('{current}', currentPlanName)
+            .replace('{date}', formatDate(preview.effective_at))
+            .replace('{amount}', nextAmount)}
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isLoading}
+          className="flex-1 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-bold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg"
+        >
+          {isLoading ? BUTTONS.PROCESSING : PLAN_CHANGE.CONFIRM}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isLoading}
+          className="flex-1 py-3 rounded-2xl border border-gray-200 dark:border-gray-600 text-zen-sage-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {PLAN_CHANGE.CANCEL}
+        </button>
+      </div>
+    </motion.div>
+  );
+});
+
+export default PlanChangeConfirmation;
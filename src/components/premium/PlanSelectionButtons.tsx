@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Crown, CreditCard, ArrowRight, Check } from 'lucide-react';
+import { Crown, CreditCard, ArrowRight, Check, Gift, Tag, X } from 'lucide-react';
 import { PREMIUM } from '../../constants/uiStrings';
+import { AppliedCode } from '../../hooks/useRewards';
+import { formatDiscount } from '../../utils/discounts';
 
 /**
  * PlanSelectionButtons - Displays subscription plan options as buttons
@@ -12,7 +14,14 @@ import { PREMIUM } from '../../constants/uiStrings';
  * @param {function} onSubscribe - Function to handle subscription
  * @param {boolean} isLoading - Whether subscription is in progress
  * @param {boolean} isSubscribed - Whether user is already subscribed
+ * @param {string|null} [currentPlan=null] - The plan a subscriber is billed for; selecting the other one offers a switch
  * @param {boolean} [disabled=false] - Whether the subscribe button should be disabled
+ * @param {AppliedCode|null} appliedCode - Promotion, referral or gift code the user entered
+ * @param {function} onApplyCode - Function to check and apply a typed code
+ * @param {function} onRemoveCode - Function to remove the applied code
+ * @param {boolean} isCheckingCode - Whether a code is being checked or redeemed
+ * @param {string|null} codeError - Why the last code couldn't be used
+ * @param {function} onGift - Function to buy a year of Premium as a gift
  * 
  * @example
  * return (
@@ -22,6 +31,12 @@ import { PREMIUM } from '../../constants/uiStrings';
  *     onSubscribe={handleSubscribe}
  *     isLoading={isLoading}
  *     isSubscribed={false}
+ *     appliedCode={null}
+ *     onApplyCode={handleApplyCode}
+ *     onRemoveCode={() => setAppliedCode(null)}
+ *     isCheckingCode={false}
+ *     codeError={null}
+ *     onGift={handleGift}
  *   />
  * )
  */
@@ -31,18 +46,65 @@ interface PlanSelectionButtonsProps {
   onSubscribe: () => void;
   isLoading: boolean;
   isSubscribed: boolean;
+  currentPlan?: 'monthly' | 'yearly' | null;
   disabled?: boolean;
+  appliedCode: AppliedCode | null;
+  onApplyCode: (code: string) => void;
+  onRemoveCode: () => void;
+  isCheckingCode: boolean;
+  codeError: string | null;
+  onGift: () => void;
 }
 
+const describeCode = (appliedCode: AppliedCode): string => {
+  const { CODES } = PREMIUM;
+
+  switch (appliedCode.type) {
+    case 'gift':
+      return CODES.GIFT_APPLIED.replace('{months}', String(appliedCode.months ?? 12));
+    case 'referral':
+      return CODES.REFERRAL_APPLIED;
+    default:
+      return appliedCode.discount
+        ? CODES.PROMOTION_APPLIED
+          .replace('{code}', appliedCode.code)
+          .replace('{discount}', formatDiscount(appliedCode.discount))
+        : appliedCode.code;
+  }
+};
+
 const PlanSelectionButtons = React.memo(function PlanSelectionButtons({
   selectedPlan,
   onSelectPlan,
   onSubscribe,
   isLoading,
   isSubscribed,
-  disabled = false
+  currentPlan = null,
+  disabled = false,
+  appliedCode,
+  onApplyCode,
+  onRemoveCode,
+  isCheckingCode,
+  codeError,
+  onGift
 }: PlanSelectionButtonsProps) {
-  const { MONTHLY, YEARLY, BUTTONS, PLAN_SELECTION, TRIAL_NOTE } = PREMIUM;
+  const { MONTHLY, YEARLY, BUTTONS, PLAN_SELECTION, TRIAL_NOTE, CODES, GIFT, PLAN_CHANGE } = PREMIUM;
+  const [codeInput, setCodeInput] = useState('');
+  // Subscribers can still redeem a gift; it becomes credit on their account
+  const isRedeemingGift = appliedCode?.type === 'gift';
+  const canSwitchPlan = isSubscribed && currentPlan !== null && selectedPlan !== currentPlan;
+
+  const handleApplyCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (codeInput.trim()) {
+      onApplyCode(codeInput);
+    }
+  };
+
+  const handleRemoveCode = () => {
+    setCodeInput('');
+    onRemoveCode();
+  };
   
   return (
     <motion.div
@@ -121,19 +183,82 @@ const PlanSelectionButtons = React.memo(function PlanSelectionButtons({
           </motion.div>
         </div>
         
+        {/* Promotion, Gift or Referral Code */}
+        <div className="mb-6 text-left">
+          {appliedCode ? (
+            <div className="flex items-center justify-between bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-800 dark:text-zen-mint-300 rounded-xl px-4 py-3">
+              <div className="flex items-center space-x-2 text-sm">
+                <Tag className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+                <span>{describeCode(appliedCode)}</span>
+              </div>
+              <button
+                type="button"
+                onClick={handleRemoveCode}
+                className="p-1 rounded-full hover:bg-zen-mint-200 dark:hover:bg-zen-mint-800/50 transition-colors"
+                aria-label={CODES.REMOVE}
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleApplyCode}>
+              <label htmlFor="premium-code" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                {CODES.LABEL}
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  id="premium-code"
+                  type="text"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  placeholder={CODES.PLACEHOLDER}
+                  autoComplete="off"
+                  autoCapitalize="characters"
+                  className="flex-1 min-w-0 px-4 py-2 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                  aria-invalid={Boolean(codeError)}
+                  aria-describedby={codeError ? 'premium-code-error' : undefined}
+                />
+                <button
+                  type="submit"
+                  disabled={isCheckingCode || !codeInput.trim()}
+                  className="px-4 py-2 rounded-xl bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-200 font-medium hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isCheckingCode ? CODES.CHECKING : CODES.APPLY}
+                </button>
+              </div>
+            </form>
+          )}
+          {codeError && (
+            <p id="premium-code-error" className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert">
+              {codeError}
+            </p>
+          )}
+        </div>
+
         {/* Subscribe Button */}
         <motion.button
           onClick={onSubscribe}
-          disabled={isLoading || isSubscribed || disabled}
+          disabled={isRedeemingGift ? isCheckingCode : isLoading || (isSubscribed && !canSwitchPlan) || disabled}
           className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-bold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-xl flex items-center justify-center space-x-3"
           whileHover={{ scale: 1.03 }}
           whileTap={{ scale: 0.97 }}
         >
-          {isLoading ? (
+          {isLoading || (isRedeemingGift && isCheckingCode) ? (
             <>
               <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" aria-hidden="true" />
               <span>{BUTTONS.PROCESSING}</span>
             </>
+          ) : isRedeemingGift ? (
+            <>
+              <Gift className="w-5 h-5" aria-hidden="true" />
+              <span>{CODES.REDEEM_BUTTON}</span>
+            </>
+          ) : canSwitchPlan ? (
+            <>
+              <Crown className="w-5 h-5" aria-hidden="true" />
+              <span>{PLAN_CHANGE.SWITCH_BUTTON.replace('{plan}', selectedPlan === 'yearly' ? YEARLY.NAME : MONTHLY.NAME)}</span>
+              <ArrowRight className="w-5 h-5 ml-1" aria-hidden="true" />
+            </>
           ) : isSubscribed ? (
             <>
               <Check className="w-5 h-5" aria-hidden="true" />
@@ -157,6 +282,22 @@ const PlanSelectionButtons = React.memo(function PlanSelectionButtons({
         <p className="text-center text-zen-sage-500 dark:text-gray-400 text-sm mt-4">
           {TRIAL_NOTE}
         </p>
+
+        {/* Gift a Subscription */}
+        <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onGift}
+            disabled={isLoading}
+            className="w-full py-3 rounded-2xl border-2 border-zen-peach-300 dark:border-zen-peach-700 text-zen-peach-700 dark:text-zen-peach-300 font-semibold hover:bg-zen-peach-50 dark:hover:bg-zen-peach-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+          >
+            <Gift className="w-5 h-5" aria-hidden="true" />
+            <span>{GIFT.BUTTON}</span>
+          </button>
+          <p className="text-center text-zen-sage-500 dark:text-gray-400 text-xs mt-2">
+            {GIFT.NOTE}
+          </p>
+        </div>
       </div>
     </motion.div>
   );
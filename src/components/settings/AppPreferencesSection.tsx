@@ -1,5 +1,5 @@
 import React from 'react';
-import { Moon, Sun, Bell } from 'lucide-react';
+import { Moon, Sun, Bell, Mail } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
 
 /**
@@ -10,6 +10,12 @@ import { SETTINGS } from '../../constants/uiStrings';
  * @param {boolean} notifications - Whether notifications are enabled
  * @param {function} onToggleDarkMode - Function to toggle dark mode
  * @param {function} onToggleNotifications - Function to toggle notifications
+ * @param {boolean} [notificationsSupported=true] - Whether this browser can receive reminders
+ * @param {boolean} [notificationsBlocked=false] - Whether the user blocked notifications
+ * @param {boolean} [isUpdatingNotifications=false] - Whether the notification setting is being changed
+ * @param {boolean} [reflectionEmails] - Whether weekly and monthly reflections are emailed
+ * @param {function} [onToggleReflectionEmails] - Function to toggle reflection emails; the toggle is hidden without it
+ * @param {boolean} [isUpdatingReflectionEmails=false] - Whether the reflection email setting is being changed
  * 
  * @example
  * return (
@@ -26,13 +32,25 @@ interface AppPreferencesSectionProps {
   notifications: boolean;
   onToggleDarkMode: (enabled: boolean) => void;
   onToggleNotifications: (enabled: boolean) => void;
+  notificationsSupported?: boolean;
+  notificationsBlocked?: boolean;
+  isUpdatingNotifications?: boolean;
+  reflectionEmails?: boolean;
+  onToggleReflectionEmails?: (enabled: boolean) => void;
+  isUpdatingReflectionEmails?: boolean;
 }
 
 const AppPreferencesSection = React.memo(function AppPreferencesSection({
   isDarkMode,
   notifications,
   onToggleDarkMode,
-  onToggleNotifications
+  onToggleNotifications,
+  notificationsSupported = true,
+  notificationsBlocked = false,
+  isUpdatingNotifications = false,
+  reflectionEmails = false,
+  onToggleReflectionEmails,
+  isUpdatingReflectionEmails = false
 }: AppPreferencesSectionProps) {
   return (
     <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
@@ -80,13 +98,18 @@ const AppPreferencesSection = React.memo(function AppPreferencesSection({
             <div>
               <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.PREFERENCES.NOTIFICATIONS.LABEL}</h4>
               <p className="text-sm text-zen-sage-600 dark:text-gray-400">
-                {SETTINGS.PREFERENCES.NOTIFICATIONS.DESCRIPTION}
+                {!notificationsSupported
+                  ? SETTINGS.PREFERENCES.NOTIFICATIONS.UNSUPPORTED
+                  : notificationsBlocked
+                    ? SETTINGS.PREFERENCES.NOTIFICATIONS.BLOCKED
+                    : SETTINGS.PREFERENCES.NOTIFICATIONS.DESCRIPTION}
               </p>
             </div>
           </div>
           <button
             onClick={() => onToggleNotifications(!notifications)}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            disabled={(!notificationsSupported && !notifications) || isUpdatingNotifications}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
               notifications ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
             }`}
             role="switch"
@@ -101,6 +124,38 @@ const AppPreferencesSection = React.memo(function AppPreferencesSection({
             />
           </button>
         </div>
+
+        {/* Reflection Emails Toggle */}
+        {onToggleReflectionEmails && (
+          <div className="flex items-center justify-between p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+            <div className="flex items-center space-x-3">
+              <Mail className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
+              <div>
+                <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.PREFERENCES.REFLECTION_EMAILS.LABEL}</h4>
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                  {SETTINGS.PREFERENCES.REFLECTION_EMAILS.DESCRIPTION}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => onToggleReflectionEmails(!reflectionEmails)}
+              disabled={isUpdatingReflectionEmails}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                reflectionEmails ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
+              }`}
+              role="switch"
+              aria-checked={reflectionEmails}
+              aria-label="Toggle reflection emails"
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  reflectionEmails ? 'translate-x-6' : 'translate-x-1'
+                }`}
+                aria-hidden="true"
+              />
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,16 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertTriangle } from 'lucide-react';
+import { AlertTriangle, CheckCircle, MinusCircle, XCircle } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
+import { DeletionStep } from '../../types';
+
+const STEP_LABELS: Record<string, string> = SETTINGS.MODALS.DELETE.STEPS;
+
+const STEP_ICONS = {
+  done: { icon: CheckCircle, className: 'text-zen-mint-500' },
+  skipped: { icon: MinusCircle, className: 'text-zen-sage-400 dark:text-gray-500' },
+  failed: { icon: XCircle, className: 'text-red-500' }
+};
 
 /**
  * LogoutConfirmModal - Confirmation dialog for signing out
@@ -88,6 +97,10 @@ export const LogoutConfirmModal = React.memo(function LogoutConfirmModal({
  * @param {string} confirmText - Current text in the confirmation input
  * @param {function} onConfirmTextChange - Function to update confirmation text
  * @param {boolean} isConfirmDisabled - Whether the confirm button should be disabled
+ * @param {boolean} [isDeleting=false] - Whether deletion is in progress
+ * @param {DeletionStep[]} [report] - Per-step deletion report; shown in place of the form once set
+ * @param {string} [purgeAfter] - When the account will be permanently deleted
+ * @param {function} [onFinish] - Function to call when closing the report
  * 
  * @example
  * return (
@@ -98,6 +111,10 @@ export const LogoutConfirmModal = React.memo(function LogoutConfirmModal({
  *     confirmText={deleteConfirmText}
  *     onConfirmTextChange={setDeleteConfirmText}
  *     isConfirmDisabled={deleteConfirmText !== 'DELETE'}
+ *     isDeleting={isDeletingAccount}
+ *     report={deletionReport}
+ *     purgeAfter={deletionPurgeAfter}
+ *     onFinish={logout}
  *   />
  * )
  */
@@ -108,6 +125,10 @@ interface DeleteAccountModalProps {
   confirmText: string;
   onConfirmTextChange: (text: string) => void;
   isConfirmDisabled: boolean;
+  isDeleting?: boolean;
+  report?: DeletionStep[] | null;
+  purgeAfter?: string | null;
+  onFinish?: () => void;
 }
 
 export const DeleteAccountModal = React.memo(function DeleteAccountModal({
@@ -116,10 +137,78 @@ export const DeleteAccountModal = React.memo(function DeleteAccountModal({
   onConfirm,
   confirmText,
   onConfirmTextChange,
-  isConfirmDisabled
+  isConfirmDisabled,
+  isDeleting = false,
+  report = null,
+  purgeAfter = null,
+  onFinish
 }: DeleteAccountModalProps) {
   if (!isOpen) return null;
 
+  if (report) {
+    const hasFailures = report.some(entry => entry.status === 'failed');
+    const purgeDate = purgeAfter
+      ? new Date(purgeAfter).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })
+      : '';
+
+    return (
+      <AnimatePresence>
+        <motion.div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="deletion-report-title"
+        >
+          <motion.div
+            className="bg-white dark:bg-gray-800 rounded-3xl p-6 max-w-md w-full shadow-2xl border border-white/20 dark:border-gray-600/20"
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+          >
+            <h3 id="deletion-report-title" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4">
+              {SETTINGS.MODALS.DELETE.REPORT_TITLE}
+            </h3>
+            {purgeDate && (
+              <p className="text-zen-sage-600 dark:text-gray-400 mb-4">
+                {SETTINGS.MODALS.DELETE.REPORT_MESSAGE.replace('{date}', purgeDate)}
+              </p>
+            )}
+            <ul className="space-y-2 mb-4">
+              {report.map(entry => {
+                const { icon: StatusIcon, className } = STEP_ICONS[entry.status];
+                return (
+                  <li key={entry.step} className="flex items-center justify-between p-3 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+                    <span className="text-sm text-zen-sage-800 dark:text-gray-200">
+                      {STEP_LABELS[entry.step] || entry.step}
+                    </span>
+                    <span className={`flex items-center space-x-1 text-sm ${className}`}>
+                      <StatusIcon className="w-4 h-4" aria-hidden="true" />
+                      <span>{SETTINGS.MODALS.DELETE.STEP_STATUS[entry.status]}</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+            {hasFailures && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4" role="alert">
+                {SETTINGS.MODALS.DELETE.REPORT_FAILED}
+              </p>
+            )}
+            <button
+              onClick={onFinish}
+              className="w-full px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              {SETTINGS.MODALS.DELETE.FINISH}
+            </button>
+          </motion.div>
+        </motion.div>
+      </AnimatePresence>
+    );
+  }
+
   return (
     <AnimatePresence>
       <motion.div
@@ -166,10 +255,10 @@ export const DeleteAccountModal = React.memo(function DeleteAccountModal({
             </button>
             <button
               onClick={onConfirm}
-              disabled={isConfirmDisabled}
+              disabled={isConfirmDisabled || isDeleting}
               className="flex-1 px-4 py-3 bg-red-500 text-white rounded-2xl hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {SETTINGS.MODALS.DELETE.CONFIRM}
+              {isDeleting ? SETTINGS.MODALS.DELETE.DELETING : SETTINGS.MODALS.DELETE.CONFIRM}
             </button>
           </div>
         </motion.div>
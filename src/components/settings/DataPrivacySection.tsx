@@ -1,13 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Download, Shield } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
+import { ExportFormat, ExportOptions, isInvalidDateRange } from '../../utils/exportFiles';
 
 /**
  * DataPrivacySection - Component for data privacy related actions like exporting data
  * 
  * @component
  * @param {boolean} isExporting - Whether data export is in progress
- * @param {function} onExportData - Function to trigger data export
+ * @param {function} onExportData - Function to trigger data export with the chosen format and dates
  * 
  * @example
  * return (
@@ -19,13 +20,22 @@ import { SETTINGS } from '../../constants/uiStrings';
  */
 interface DataPrivacySectionProps {
   isExporting: boolean;
-  onExportData: () => Promise<void>;
+  onExportData: (options: ExportOptions) => Promise<void>;
 }
 
+const FORMAT_ORDER: ExportFormat[] = ['json', 'markdown', 'pdf', 'csv'];
+
+const fieldClassName = 'w-full px-3 py-2 rounded-xl border border-zen-sage-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400';
+
 const DataPrivacySection = React.memo(function DataPrivacySection({
   isExporting,
   onExportData
 }: DataPrivacySectionProps) {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const invalidRange = isInvalidDateRange(from, to);
+
   return (
     <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
       <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center">
@@ -34,16 +44,69 @@ const DataPrivacySection = React.memo(function DataPrivacySection({
       </h3>
       
       <div className="space-y-4">
+        <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl space-y-3">
+          <div>
+            <label htmlFor="export-format" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+              {SETTINGS.DATA_PRIVACY.FORMAT_LABEL}
+            </label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className={fieldClassName}
+            >
+              {FORMAT_ORDER.map(option => (
+                <option key={option} value={option}>{SETTINGS.DATA_PRIVACY.FORMATS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="export-from" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+                {SETTINGS.DATA_PRIVACY.FROM_LABEL}
+              </label>
+              <input
+                id="export-from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="export-to" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+                {SETTINGS.DATA_PRIVACY.TO_LABEL}
+              </label>
+              <input
+                id="export-to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+          </div>
+
+          {invalidRange && (
+            <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+              {SETTINGS.DATA_PRIVACY.INVALID_RANGE}
+            </p>
+          )}
+        </div>
+
         <button
-          onClick={onExportData}
-          disabled={isExporting}
+          onClick={() => onExportData({ format, from, to })}
+          disabled={isExporting || invalidRange}
           className="flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full"
           aria-label="Export your journal data"
         >
           {isExporting ? (
             <>
               <div className="w-4 h-4 border-2 border-zen-sage-600 border-t-transparent rounded-full animate-spin" aria-hidden="true" />
-              <span>Exporting...</span>
+              <span>{SETTINGS.DATA_PRIVACY.EXPORTING}</span>
             </>
           ) : (
             <>
@@ -56,6 +119,11 @@ const DataPrivacySection = React.memo(function DataPrivacySection({
         <p className="text-xs text-zen-sage-500 dark:text-gray-400">
           {SETTINGS.DATA_PRIVACY.EXPORT_HELP}
         </p>
+        {format !== 'json' && (
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+            {SETTINGS.DATA_PRIVACY.EXPORT_VAULT_NOTE}
+          </p>
+        )}
       </div>
      
      {/* Support Contact */}
@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, KeyRound, Info, Copy } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+
+interface VaultActionResult {
+  success: boolean;
+  error?: string;
+  recoveryKey?: string;
+}
+
+/**
+ * EncryptionSection - Settings card for enabling, unlocking and recovering the encrypted vault
+ *
+ * @component
+ * @param {boolean} isVaultEnabled - Whether the user has set up a vault
+ * @param {boolean} isVaultKnown - Whether the vault state could be loaded; nothing can be changed until it is
+ * @param {boolean} isUnlocked - Whether the vault key is available this session
+ * @param {function} onEnable - Function to create a vault from a passphrase
+ * @param {function} onUnlock - Function to unlock the vault with a passphrase
+ * @param {function} onRecover - Function to unlock with the recovery key and set a new passphrase
+ * @param {function} onLock - Function to forget the vault key for this session
+ *
+ * @example
+ * return (
+ *   <EncryptionSection
+ *     isVaultEnabled={isVaultEnabled}
+ *     isVaultKnown={isVaultKnown}
+ *     isUnlocked={isUnlocked}
+ *     onEnable={enableVault}
+ *     onUnlock={unlock}
+ *     onRecover={recover}
+ *     onLock={lock}
+ *   />
+ * )
+ */
+interface EncryptionSectionProps {
+  isVaultEnabled: boolean;
+  isVaultKnown: boolean;
+  isUnlocked: boolean;
+  onEnable: (passphrase: string) => Promise<VaultActionResult>;
+  onUnlock: (passphrase: string) => Promise<VaultActionResult>;
+  onRecover: (recoveryKey: string, newPassphrase: string) => Promise<VaultActionResult>;
+  onLock: () => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200';
+const primaryButtonClassName = 'flex items-center justify-center space-x-2 px-4 py-3 bg-zen-mint-400 text-white rounded-2xl hover:bg-zen-mint-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full';
+const secondaryButtonClassName = 'flex items-center justify-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors w-full';
+
+const EncryptionSection = React.memo(function EncryptionSection({
+  isVaultEnabled,
+  isVaultKnown,
+  isUnlocked,
+  onEnable,
+  onUnlock,
+  onRecover,
+  onLock
+}: EncryptionSectionProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState('');
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryKeyInput('');
+    setError('');
+  };
+
+  const runAction = async (action: () => Promise<VaultActionResult>) => {
+    setIsWorking(true);
+    setError('');
+
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Something went wrong. Please try again.');
+        return;
+      }
+
+      if (result.recoveryKey) {
+        setNewRecoveryKey(result.recoveryKey);
+      }
+      setIsRecovering(false);
+      resetForm();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase !== confirmPassphrase) {
+      setError(SETTINGS.VAULT.PASSPHRASE_MISMATCH);
+      return;
+    }
+    runAction(() => onEnable(passphrase));
+  };
+
+  const handleRecover = () => {
+    if (passphrase !== confirmPassphrase) {
+      setError(SETTINGS.VAULT.PASSPHRASE_MISMATCH);
+      return;
+    }
+    runAction(() => onRecover(recoveryKeyInput, passphrase));
+  };
+
+  const handleCopyRecoveryKey = async () => {
+    if (!newRecoveryKey) return;
+    try {
+      await navigator.clipboard.writeText(newRecoveryKey);
+    } catch (err) {
+      console.warn('Could not copy recovery key:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <Lock className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.VAULT.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {SETTINGS.VAULT.DESCRIPTION}
+      </p>
+
+      {!isVaultKnown ? (
+        <p className="text-sm text-zen-sage-600 dark:text-gray-400" role="status">
+          {SETTINGS.VAULT.UNKNOWN}
+        </p>
+      ) : newRecoveryKey ? (
+        /* Recovery key, shown once after the vault is created */
+        <div className="space-y-3">
+          <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 flex items-center">
+            <KeyRound className="w-4 h-4 mr-2 text-zen-peach-500" aria-hidden="true" />
+            {SETTINGS.VAULT.RECOVERY_TITLE}
+          </h4>
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400">{SETTINGS.VAULT.RECOVERY_HELP}</p>
+          <div className="flex items-start space-x-2">
+            <code className="flex-1 p-3 bg-zen-sage-50 dark:bg-gray-700 rounded-xl text-sm text-zen-sage-800 dark:text-gray-200 break-all" data-testid="vault-recovery-key">
+              {newRecoveryKey}
+            </code>
+            <button
+              onClick={handleCopyRecoveryKey}
+              className="p-2 text-zen-sage-500 hover:text-zen-sage-700 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Copy recovery key"
+            >
+              <Copy className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </div>
+          <button onClick={() => setNewRecoveryKey(null)} className={primaryButtonClassName}>
+            <span>{SETTINGS.VAULT.RECOVERY_SAVED}</span>
+          </button>
+        </div>
+      ) : !isVaultEnabled || isRecovering ? (
+        /* Set up a vault, or reset the passphrase with the recovery key */
+        <div className="space-y-4">
+          {isRecovering && (
+            <div>
+              <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="vault-recovery-key">
+                {SETTINGS.VAULT.RECOVERY_KEY}
+              </label>
+              <input
+                id="vault-recovery-key"
+                type="text"
+                value={recoveryKeyInput}
+                onChange={(e) => setRecoveryKeyInput(e.target.value)}
+                className={inputClassName}
+                autoComplete="off"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="vault-passphrase">
+              {isRecovering ? SETTINGS.VAULT.NEW_PASSPHRASE : SETTINGS.VAULT.PASSPHRASE}
+            </label>
+            <input
+              id="vault-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="vault-confirm-passphrase">
+              {SETTINGS.VAULT.CONFIRM_PASSPHRASE}
+            </label>
+            <input
+              id="vault-confirm-passphrase"
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+            />
+          </div>
+          <p className="text-xs text-zen-peach-700 dark:text-zen-peach-300">{SETTINGS.VAULT.WARNING}</p>
+          <button
+            onClick={isRecovering ? handleRecover : handleEnable}
+            disabled={isWorking || !passphrase || (isRecovering && !recoveryKeyInput)}
+            className={primaryButtonClassName}
+          >
+            <KeyRound className="w-4 h-4" aria-hidden="true" />
+            <span>{isRecovering ? SETTINGS.VAULT.RECOVER : SETTINGS.VAULT.ENABLE}</span>
+          </button>
+          {isRecovering && (
+            <button
+              onClick={() => {
+                setIsRecovering(false);
+                resetForm();
+              }}
+              className="text-sm text-zen-mint-600 hover:text-zen-mint-700"
+            >
+              {SETTINGS.VAULT.BACK_TO_UNLOCK}
+            </button>
+          )}
+        </div>
+      ) : isUnlocked ? (
+        <div className="space-y-4">
+          <p className="text-sm text-zen-mint-700 dark:text-zen-mint-300 flex items-center">
+            <Unlock className="w-4 h-4 mr-2" aria-hidden="true" />
+            {SETTINGS.VAULT.UNLOCKED}
+          </p>
+          <button onClick={onLock} className={secondaryButtonClassName}>
+            <Lock className="w-4 h-4" aria-hidden="true" />
+            <span>{SETTINGS.VAULT.LOCK}</span>
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.VAULT.LOCKED}</p>
+          <div>
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="vault-unlock-passphrase">
+              {SETTINGS.VAULT.PASSPHRASE}
+            </label>
+            <input
+              id="vault-unlock-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && passphrase) runAction(() => onUnlock(passphrase));
+              }}
+              className={inputClassName}
+              autoComplete="current-password"
+            />
+          </div>
+          <button
+            onClick={() => runAction(() => onUnlock(passphrase))}
+            disabled={isWorking || !passphrase}
+            className={primaryButtonClassName}
+          >
+            <Unlock className="w-4 h-4" aria-hidden="true" />
+            <span>{SETTINGS.VAULT.UNLOCK}</span>
+          </button>
+          <button
+            onClick={() => {
+              setIsRecovering(true);
+              resetForm();
+            }}
+            className="text-sm text-zen-mint-600 hover:text-zen-mint-700"
+          >
+            {SETTINGS.VAULT.FORGOT}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+
+      {/* What the vault means for AI features */}
+      <div className="mt-4 pt-4 border-t border-zen-sage-200 dark:border-gray-600">
+        <h4 className="text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2 flex items-center">
+          <Info className="w-4 h-4 mr-2" aria-hidden="true" />
+          {SETTINGS.VAULT.AI_TITLE}
+        </h4>
+        <ul className="list-disc pl-5 space-y-1 text-xs text-zen-sage-500 dark:text-gray-400">
+          {SETTINGS.VAULT.AI_NOTES.map(note => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+});
+
+export default EncryptionSection;
@@ -0,0 +1,199 @@
+import React, { useRef } from 'react';
+import { Upload, AlertCircle } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { ImportPreview } from '../../hooks/useJournalImport';
+import { IMPORT_FILE_ACCEPT } from '../../utils/journalImport';
+
+/**
+ * ImportSection - Settings card for importing entries from other journaling apps
+ *
+ * @component
+ * @param {ImportPreview|null} preview - Parsed entries waiting to be confirmed
+ * @param {boolean} isParsing - Whether chosen files are being read
+ * @param {boolean} isImporting - Whether entries are being saved
+ * @param {number} importedCount - Entries saved so far in the current import
+ * @param {function} onSelectFiles - Function to read and preview chosen files
+ * @param {function} onImport - Function to save the previewed entries
+ * @param {function} onCancel - Function to discard the preview
+ *
+ * @example
+ * return (
+ *   <ImportSection
+ *     preview={importPreview}
+ *     isParsing={isParsingImport}
+ *     isImporting={isImporting}
+ *     importedCount={importedCount}
+ *     onSelectFiles={handleSelectImportFiles}
+ *     onImport={handleImportEntries}
+ *     onCancel={resetImport}
+ *   />
+ * )
+ */
+interface ImportSectionProps {
+  preview: ImportPreview | null;
+  isParsing: boolean;
+  isImporting: boolean;
+  importedCount: number;
+  onSelectFiles: (files: File[]) => void;
+  onImport: () => void;
+  onCancel: () => void;
+}
+
+/** Entries listed in the preview before summarising the rest */
+const PREVIEW_LIMIT = 5;
+const ERROR_LIMIT = 5;
+
+const ImportSection = React.memo(function ImportSection({
+  preview,
+  isParsing,
+  isImporting,
+  importedCount,
+  onSelectFiles,
+  onImport,
+  onCancel
+}: ImportSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Let the same files be chosen again after cancelling
+    event.target.value = '';
+    if (files.length > 0) {
+      onSelectFiles(files);
+    }
+  };
+
+  const total = preview?.entries.length ?? 0;
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <Upload className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.IMPORT.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-1">
+        {SETTINGS.IMPORT.DESCRIPTION}
+      </p>
+      <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-4">
+        {SETTINGS.IMPORT.NOTE}
+      </p>
+
+      {!preview ? (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            multiple
+            onChange={handleFileChange}
+            className="hidden"
+            data-testid="import-file-input"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isParsing}
+            className="flex items-center justify-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full"
+          >
+            {isParsing ? (
+              <>
+                <div className="w-4 h-4 border-2 border-zen-sage-600 border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+                <span>{SETTINGS.IMPORT.READING}</span>
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4" aria-hidden="true" />
+                <span>{SETTINGS.IMPORT.CHOOSE_FILES}</span>
+              </>
+            )}
+          </button>
+        </>
+      ) : (
+        <div className="space-y-4">
+          <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+            <p className="font-medium text-zen-sage-800 dark:text-gray-200">
+              {total > 0
+                ? SETTINGS.IMPORT.PREVIEW_TITLE.replace('{count}', String(total))
+                : SETTINGS.IMPORT.NOTHING_NEW}
+            </p>
+            {preview.duplicateCount > 0 && (
+              <p className="text-sm text-zen-sage-500 dark:text-gray-400">
+                {SETTINGS.IMPORT.DUPLICATES.replace('{count}', String(preview.duplicateCount))}
+              </p>
+            )}
+
+            {total > 0 && (
+              <ul className="mt-3 space-y-2">
+                {preview.entries.slice(0, PREVIEW_LIMIT).map(entry => (
+                  <li key={entry.importKey} className="flex items-center space-x-3 text-sm">
+                    <span aria-label={moods[entry.mood - 1].label} role="img">{moods[entry.mood - 1].emoji}</span>
+                    <span className="text-zen-sage-500 dark:text-gray-400 whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleDateString()}
+                    </span>
+                    <span className="text-zen-sage-800 dark:text-gray-200 truncate">
+                      {entry.title || entry.content.slice(0, 60) || SETTINGS.IMPORT.UNTITLED}
+                    </span>
+                  </li>
+                ))}
+                {total > PREVIEW_LIMIT && (
+                  <li className="text-xs text-zen-sage-500 dark:text-gray-400">
+                    {SETTINGS.IMPORT.MORE.replace('{count}', String(total - PREVIEW_LIMIT))}
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="p-4 bg-zen-peach-50 dark:bg-gray-700 rounded-2xl" role="alert">
+              <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 flex items-center mb-1">
+                <AlertCircle className="w-4 h-4 mr-2 text-zen-peach-500" aria-hidden="true" />
+                {SETTINGS.IMPORT.ERRORS_TITLE}
+              </p>
+              <ul className="text-xs text-zen-sage-600 dark:text-gray-400 space-y-1">
+                {preview.errors.slice(0, ERROR_LIMIT).map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+                {preview.errors.length > ERROR_LIMIT && (
+                  <li>{SETTINGS.IMPORT.MORE.replace('{count}', String(preview.errors.length - ERROR_LIMIT))}</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              disabled={isImporting}
+              className="flex-1 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {SETTINGS.IMPORT.CANCEL}
+            </button>
+            {total > 0 && (
+              <button
+                onClick={onImport}
+                disabled={isImporting}
+                className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-zen-mint-400 text-white rounded-2xl hover:bg-zen-mint-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isImporting ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+                    <span>
+                      {SETTINGS.IMPORT.IMPORTING
+                        .replace('{done}', String(importedCount))
+                        .replace('{total}', String(total))}
+                    </span>
+                  </>
+                ) : (
+                  <span>{SETTINGS.IMPORT.IMPORT_BUTTON.replace('{count}', String(total))}</span>
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ImportSection;
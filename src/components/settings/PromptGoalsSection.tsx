@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Target } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { PromptGoal } from '../../types';
+import { MAX_PROMPT_GOALS, promptGoals } from '../../data/prompts';
+import { togglePromptGoal } from '../../utils/prompts';
+
+/**
+ * PromptGoalsSection - Component for choosing the goals Zeno's prompts work towards
+ *
+ * @component
+ * @param {PromptGoal[]} goals - Saved goals
+ * @param {boolean} isSaving - Whether goals are being saved
+ * @param {function} onSave - Function to save the chosen goals
+ *
+ * @example
+ * return (
+ *   <PromptGoalsSection
+ *     goals={profile.prompt_goals}
+ *     isSaving={isSavingGoals}
+ *     onSave={handleSavePromptGoals}
+ *   />
+ * )
+ */
+interface PromptGoalsSectionProps {
+  goals: PromptGoal[];
+  isSaving: boolean;
+  onSave: (goals: PromptGoal[]) => void;
+}
+
+const PromptGoalsSection = React.memo(function PromptGoalsSection({
+  goals,
+  isSaving,
+  onSave
+}: PromptGoalsSectionProps) {
+  const [selected, setSelected] = useState(goals);
+
+  // Reset the selection when saved goals load or change
+  useEffect(() => {
+    setSelected(goals);
+  }, [goals]);
+
+  const isFull = selected.length >= MAX_PROMPT_GOALS;
+  const hasChanges = selected.length !== goals.length || selected.some(goal => !goals.includes(goal));
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-1 flex items-center space-x-2">
+        <Target className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
+        <span>{SETTINGS.PROMPT_GOALS.TITLE}</span>
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {SETTINGS.PROMPT_GOALS.DESCRIPTION.replace('{max}', MAX_PROMPT_GOALS.toString())}
+      </p>
+
+      <fieldset className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl mb-4">
+        <legend className="sr-only">{SETTINGS.PROMPT_GOALS.TITLE}</legend>
+        <div className="flex flex-wrap gap-2">
+          {promptGoals.map(info => {
+            const isSelected = selected.includes(info.goal);
+            return (
+              <button
+                key={info.goal}
+                onClick={() => setSelected(prev => togglePromptGoal(prev, info.goal, MAX_PROMPT_GOALS))}
+                disabled={!isSelected && isFull}
+                className={`px-3 py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isSelected
+                    ? 'bg-zen-mint-400 text-white'
+                    : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                }`}
+                aria-pressed={isSelected}
+              >
+                <span aria-hidden="true">{info.emoji}</span> {info.label}
+              </button>
+            );
+          })}
+        </div>
+        {isFull && (
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-3" role="status">
+            {SETTINGS.PROMPT_GOALS.LIMIT_REACHED.replace('{max}', MAX_PROMPT_GOALS.toString())}
+          </p>
+        )}
+      </fieldset>
+
+      <button
+        onClick={() => onSave(selected)}
+        disabled={isSaving || !hasChanges}
+        className="w-full px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl shadow-lg hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? SETTINGS.PROMPT_GOALS.SAVING : SETTINGS.PROMPT_GOALS.SAVE}
+      </button>
+    </div>
+  );
+});
+
+export default PromptGoalsSection;
@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Plus, X, Moon } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { ReminderPreferences, MAX_REMINDER_TIMES } from '../../hooks/useReminders';
+
+/**
+ * ReminderSettingsSection - Component for choosing when journaling reminders are sent
+ *
+ * @component
+ * @param {ReminderPreferences} preferences - Saved reminder preferences
+ * @param {boolean} isSaving - Whether preferences are being saved
+ * @param {function} onSave - Function to save changed preferences
+ *
+ * @example
+ * return (
+ *   <ReminderSettingsSection
+ *     preferences={reminderPreferences}
+ *     isSaving={isSavingReminders}
+ *     onSave={handleSaveReminders}
+ *   />
+ * )
+ */
+interface ReminderSettingsSectionProps {
+  preferences: ReminderPreferences;
+  isSaving: boolean;
+  onSave: (changes: Partial<ReminderPreferences>) => void;
+}
+
+// Monday-first, matching the heatmap in analytics
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const ReminderSettingsSection = React.memo(function ReminderSettingsSection({
+  preferences,
+  isSaving,
+  onSave
+}: ReminderSettingsSectionProps) {
+  const [times, setTimes] = useState(preferences.reminder_times);
+  const [days, setDays] = useState(preferences.days_of_week);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(Boolean(preferences.quiet_hours_start));
+  const [quietStart, setQuietStart] = useState(preferences.quiet_hours_start || '22:00');
+  const [quietEnd, setQuietEnd] = useState(preferences.quiet_hours_end || '07:00');
+
+  // Reset the form when saved preferences load or change
+  useEffect(() => {
+    setTimes(preferences.reminder_times);
+    setDays(preferences.days_of_week);
+    setQuietHoursEnabled(Boolean(preferences.quiet_hours_start));
+    setQuietStart(preferences.quiet_hours_start || '22:00');
+    setQuietEnd(preferences.quiet_hours_end || '07:00');
+  }, [preferences]);
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const handleSave = () => {
+    onSave({
+      reminder_times: times.filter(Boolean),
+      days_of_week: days,
+      quiet_hours_start: quietHoursEnabled ? quietStart : null,
+      quiet_hours_end: quietHoursEnabled ? quietEnd : null
+    });
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-1">
+        {SETTINGS.REMINDERS.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {SETTINGS.REMINDERS.DESCRIPTION}
+      </p>
+
+      <div className="space-y-4">
+        {/* Reminder Times */}
+        <fieldset className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+          <legend className="sr-only">{SETTINGS.REMINDERS.TIMES_LABEL}</legend>
+          <div className="flex items-center space-x-2 mb-3" aria-hidden="true">
+            <Clock className="w-4 h-4 text-zen-sage-600 dark:text-gray-300" />
+            <span className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.REMINDERS.TIMES_LABEL}</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {times.map((time, index) => (
+              <div key={index} className="flex items-center space-x-1">
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTimes(prev => prev.map((t, i) => i === index ? e.target.value : t))}
+                  className="px-3 py-2 rounded-xl border border-zen-sage-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                  aria-label={SETTINGS.REMINDERS.TIMES_LABEL}
+                />
+                {times.length > 1 && (
+                  <button
+                    onClick={() => setTimes(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-zen-sage-500 hover:text-red-500 transition-colors"
+                    aria-label={SETTINGS.REMINDERS.REMOVE_TIME.replace('{time}', time)}
+                  >
+                    <X className="w-4 h-4" aria-hidden="true" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {times.length < MAX_REMINDER_TIMES && (
+              <button
+                onClick={() => setTimes(prev => [...prev, '12:00'])}
+                className="flex items-center space-x-1 px-3 py-2 rounded-xl text-sm font-medium bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500 transition-colors"
+              >
+                <Plus className="w-4 h-4" aria-hidden="true" />
+                <span>{SETTINGS.REMINDERS.ADD_TIME}</span>
+              </button>
+            )}
+          </div>
+        </fieldset>
+
+        {/* Days of Week */}
+        <fieldset className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+          <legend className="sr-only">{SETTINGS.REMINDERS.DAYS_LABEL}</legend>
+          <div className="font-medium text-zen-sage-800 dark:text-gray-200 mb-3" aria-hidden="true">
+            {SETTINGS.REMINDERS.DAYS_LABEL}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {DAY_ORDER.map(day => (
+              <button
+                key={day}
+                onClick={() => toggleDay(day)}
+                className={`w-11 py-2 rounded-xl text-sm font-medium transition-all ${
+                  days.includes(day)
+                    ? 'bg-zen-mint-400 text-white'
+                    : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                }`}
+                aria-pressed={days.includes(day)}
+                aria-label={SETTINGS.REMINDERS.DAY_NAMES[day]}
+              >
+                {SETTINGS.REMINDERS.DAY_NAMES[day].slice(0, 3)}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Quiet Hours */}
+        <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Moon className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
+              <div>
+                <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.REMINDERS.QUIET_HOURS_LABEL}</h4>
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                  {SETTINGS.REMINDERS.QUIET_HOURS_DESCRIPTION}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setQuietHoursEnabled(!quietHoursEnabled)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                quietHoursEnabled ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
+              }`}
+              role="switch"
+              aria-checked={quietHoursEnabled}
+              aria-label="Toggle quiet hours"
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  quietHoursEnabled ? 'translate-x-6' : 'translate-x-1'
+                }`}
+                aria-hidden="true"
+              />
+            </button>
+          </div>
+
+          {quietHoursEnabled && (
+            <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-zen-sage-700 dark:text-gray-300">
+              <label className="flex items-center space-x-2">
+                <span>{SETTINGS.REMINDERS.QUIET_HOURS_FROM}</span>
+                <input
+                  type="time"
+                  value={quietStart}
+                  onChange={(e) => setQuietStart(e.target.value)}
+                  className="px-3 py-2 rounded-xl border border-zen-sage-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>{SETTINGS.REMINDERS.QUIET_HOURS_TO}</span>
+                <input
+                  type="time"
+                  value={quietEnd}
+                  onChange={(e) => setQuietEnd(e.target.value)}
+                  className="px-3 py-2 rounded-xl border border-zen-sage-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl shadow-lg hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? SETTINGS.REMINDERS.SAVING : SETTINGS.REMINDERS.SAVE}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default ReminderSettingsSection;
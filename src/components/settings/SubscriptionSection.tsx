@@ -4,6 +4,7 @@ import { Crown } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
 import { useNavigate } from 'react-router-dom';
 import { useStripe } from '../../hooks/useStripe';
+import { SubscriptionHistoryItem } from '../../hooks/useSubscriptionHistory';
 
 /**
  * SubscriptionSection - Displays the user's current subscription status and management options
@@ -12,6 +13,10 @@ import { useStripe } from '../../hooks/useStripe';
  * @param {string} subscriptionStatus - Current subscription status (free, premium, cancelled, expired)
  * @param {string} subscriptionTier - Subscription tier (free, premium, premium_plus)
  * @param {string|null} subscriptionExpiresAt - Date when subscription expires
+ * @param {string} [paymentStatus] - 'past_due' after a renewal payment failed
+ * @param {string|null} [gracePeriodEndsAt] - When premium stops if the payment isn't fixed
+ * @param {string|null} [trialEndsAt] - End of a running free trial
+ * @param {SubscriptionHistoryItem[]} [history] - Recent subscription changes and payments, newest first
  * 
  * @example
  * return (
@@ -26,18 +31,28 @@ interface SubscriptionSectionProps {
   subscriptionStatus: string;
   subscriptionTier: string;
   subscriptionExpiresAt: string | null;
+  paymentStatus?: string;
+  gracePeriodEndsAt?: string | null;
+  trialEndsAt?: string | null;
+  history?: SubscriptionHistoryItem[];
 }
 
 const SubscriptionSection = React.memo(function SubscriptionSection({
   subscriptionStatus,
   subscriptionTier,
-  subscriptionExpiresAt
+  subscriptionExpiresAt,
+  paymentStatus = 'ok',
+  gracePeriodEndsAt = null,
+  trialEndsAt = null,
+  history = []
 }: SubscriptionSectionProps) {
   const navigate = useNavigate();
   const { redirectToCustomerPortal, isLoading } = useStripe();
   
   const isPremium = subscriptionStatus === 'premium';
   const isYearlySubscriber = subscriptionTier === 'premium_plus';
+  const isPastDue = paymentStatus === 'past_due';
+  const isInGracePeriod = isPastDue && Boolean(gracePeriodEndsAt) && new Date(gracePeriodEndsAt as string) > new Date();
   
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -47,8 +62,18 @@ const SubscriptionSection = React.memo(function SubscriptionSection({
     });
   };
 
+  const formatAmount = (item: SubscriptionHistoryItem) => {
+    if (item.amount_cents === null || !item.currency) return null;
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: item.currency.toUpperCase() })
+      .format(item.amount_cents / 100);
+  };
+
+  const getPlanName = (tier: string | null) =>
+    tier === 'premium_plus' ? SETTINGS.SUBSCRIPTION.PREMIUM_YEARLY : SETTINGS.SUBSCRIPTION.PREMIUM_MONTHLY;
+
   const handleManageSubscription = async () => {
-    if (isPremium) {
+    // Past-due users need the portal to fix their card, even once premium is paused
+    if (isPremium || isPastDue) {
       const portalUrl = await redirectToCustomerPortal();
       if (portalUrl) {
         window.location.href = portalUrl;
@@ -82,7 +107,17 @@ const SubscriptionSection = React.memo(function SubscriptionSection({
             </span>
           </div>
           
-          {isPremium && subscriptionExpiresAt && (
+          {isPastDue ? (
+            <p className="text-sm text-zen-peach-600 dark:text-zen-peach-400 mb-4" role="alert">
+              {isInGracePeriod
+                ? SETTINGS.SUBSCRIPTION.PAST_DUE.replace('{date}', formatDate(gracePeriodEndsAt as string))
+                : SETTINGS.SUBSCRIPTION.PAST_DUE_EXPIRED}
+            </p>
+          ) : isPremium && trialEndsAt && new Date(trialEndsAt) > new Date() ? (
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+              {SETTINGS.SUBSCRIPTION.TRIAL_ENDS.replace('{date}', formatDate(trialEndsAt))}
+            </p>
+          ) : isPremium && subscriptionExpiresAt && (
             <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
               {SETTINGS.SUBSCRIPTION.RENEWAL.replace('{date}', formatDate(subscriptionExpiresAt))}
             </p>
@@ -103,13 +138,37 @@ const SubscriptionSection = React.memo(function SubscriptionSection({
             <span>
               {isLoading 
                 ? 'Loading...' 
-                : isPremium 
+                : isPremium || isPastDue
                   ? 'Manage Subscription' 
                   : 'Upgrade to Premium'
               }
             </span>
           </button>
         </div>
+
+        {history.length > 0 && (
+          <div>
+            <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-2">{SETTINGS.SUBSCRIPTION.HISTORY_TITLE}</h4>
+            <ul className="divide-y divide-zen-sage-100 dark:divide-gray-700">
+              {history.map(item => {
+                const amount = formatAmount(item);
+                return (
+                  <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <p className="text-zen-sage-800 dark:text-gray-200">
+                        {SETTINGS.SUBSCRIPTION.HISTORY[item.kind].replace('{plan}', getPlanName(item.subscription_tier))}
+                      </p>
+                      <p className="text-xs text-zen-sage-500 dark:text-gray-400">{formatDate(item.occurred_at)}</p>
+                    </div>
+                    {amount && (
+                      <span className="text-zen-sage-600 dark:text-gray-400">{amount}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -106,6 +106,60 @@ export const PREMIUM = {
     MONTHLY_BUTTON: 'Monthly',
     YEARLY_BUTTON: 'Yearly (Save 44%)',
     CONTINUE_BUTTON: 'Continue with Premium'
+  },
+  PLAN_CHANGE: {
+    SWITCH_BUTTON: 'Switch to {plan}',
+    TITLE: 'Switch to {plan}',
+    DUE_TODAY: 'Due today: {amount}',
+    CREDIT: 'Includes a {amount} credit for unused time on your current plan.',
+    UPGRADE_RENEWAL: 'Then {amount} per year, renewing on {date}.',
+    DOWNGRADE_NOTE: 'Nothing to pay today. You keep {current} until {date}, then pay {amount} per month.',
+    CONFIRM: 'Confirm Switch',
+    CANCEL: 'Not Now',
+    UPGRADED: 'You\'re now on {plan}. Your receipt is on its way.',
+    DOWNGRADE_SCHEDULED: 'You\'ll switch to {plan} on {date}.',
+    SCHEDULED: 'Switches to {plan} on {date}',
+    KEEP_PLAN: 'Keep {plan}',
+    KEPT_PLAN: 'You\'ll stay on {plan}.'
+  },
+  CODES: {
+    LABEL: 'Have a code?',
+    PLACEHOLDER: 'Promo, gift or referral code',
+    APPLY: 'Apply',
+    CHECKING: 'Checking...',
+    REMOVE: 'Remove code',
+    PERCENT_OFF: '{amount}% off',
+    AMOUNT_OFF: '{amount} off',
+    DURATION: {
+      once: 'your first payment',
+      repeating: 'for {months} months',
+      forever: 'every payment'
+    },
+    PROMOTION_APPLIED: '{code}: {discount}',
+    REFERRAL_APPLIED: 'Referral applied: you get a free month on top of your trial',
+    GIFT_APPLIED: 'Gift code: {months} months of Premium',
+    REDEEM_BUTTON: 'Redeem Gift',
+    REDEEMED_TIME: 'Gift redeemed! Premium is yours until {date}.',
+    REDEEMED_CREDIT: 'Gift redeemed! {amount} of credit will come off your next payments.'
+  },
+  GIFT: {
+    BUTTON: 'Gift a year of Premium',
+    NOTE: 'You\'ll get a code to pass on. Anyone can redeem it once.',
+    PURCHASED: 'Thank you for your gift! Your code will appear below and in your email shortly.'
+  },
+  REWARDS: {
+    TITLE: 'Gifts & Referrals',
+    REFERRAL_TITLE: 'Your referral code',
+    REFERRAL_HELP: 'Share it with a friend. When they subscribe, you both get a free month.',
+    COPY: 'Copy',
+    COPIED: 'Copied!',
+    REFERRAL_PROGRESS: '{joined} joined • {credited} free months earned',
+    GIFTS_TITLE: 'Gifts you bought',
+    GIFT_UNUSED: 'Not redeemed yet',
+    GIFT_REDEEMED: 'Redeemed on {date}',
+    GIFTED_PLAN: 'Gifted Premium',
+    GIFTED_UNTIL: 'Premium is yours until {date}',
+    DISCOUNT: 'Discount: {discount}'
   }
 };
 
@@ -125,7 +179,35 @@ export const UPSELL = {
     UPGRADE: 'Upgrade to Premium',
     LATER: 'Maybe Later'
   },
-  TRIAL_NOTE: 'Includes 7-day free trial. Cancel anytime.'
+  TRIAL_NOTE: 'Includes 7-day free trial. Cancel anytime.',
+  LIMIT_REACHED: 'You\'ve used all {limit} free {uses} for today. Upgrade to Premium for unlimited use, or come back tomorrow.',
+  LIMITS: {
+    'mood-analyzer': { NAME: 'AI Mood Analysis', USES: 'mood analyses' },
+    'affirmation-generator': { NAME: 'Personal Affirmations', USES: 'affirmations' },
+    'mood-quote-generator': { NAME: 'Mood Quotes', USES: 'mood quotes' },
+    'prompt-generator': { NAME: 'Personalized Prompts', USES: 'new prompts' },
+    'voice-synthesis': { NAME: 'Voice Playback', USES: 'voice playbacks' },
+    'zeno-chat': { NAME: 'Talk to Zeno', USES: 'replies from Zeno' }
+  }
+};
+
+// Install Prompt
+export const PAYMENT_ISSUE = {
+  TITLE: 'Your payment didn\'t go through',
+  GRACE_MESSAGE: 'We couldn\'t charge your card. Premium stays on until {date} while we retry.',
+  EXPIRED_MESSAGE: 'We couldn\'t charge your card, so Premium is paused. Update your payment method to get it back.',
+  UPDATE_BUTTON: 'Update payment method',
+  OPENING: 'Opening...',
+  DISMISS_LABEL: 'Hide payment reminder'
+};
+
+export const INSTALL = {
+  TITLE: 'Install Zensai',
+  DESCRIPTION: 'Add Zensai to your home screen to open it instantly and journal even when you\'re offline.',
+  IOS_DESCRIPTION: 'Tap the Share button, then "Add to Home Screen" to open Zensai instantly and journal even when you\'re offline.',
+  INSTALL_BUTTON: 'Install',
+  DISMISS: 'Not now',
+  DISMISS_LABEL: 'Dismiss install prompt'
 };
 
 // Journal
@@ -172,11 +254,116 @@ export const JOURNAL = {
     SAVED: 'Entry saved! Zeno is proud of you! 🎉',
     FIRST_ENTRY: 'Great start! You\'ve begun your journaling journey! 🌱',
     STREAK: 'Amazing! You\'re on a {streak}-day streak! 🔥',
-    NEW_BEST: 'That\'s a new personal best! 🏆'
+    NEW_BEST: 'That\'s a new personal best! 🏆',
+    SAVED_OFFLINE: 'You\'re offline, so your entry was saved on this device. It will sync when you reconnect. 📡'
+  },
+  STREAK_FREEZE: {
+    COUNT: '{count} streak freezes',
+    COUNT_ONE: '1 streak freeze',
+    HELP: 'A freeze covers a missed day so your streak survives. You earn one for every 7 days in a row.',
+    PROTECTING_ONE: 'Your {streak}-day streak is safe. Write today and a freeze will cover the day you missed.',
+    PROTECTING_MANY: 'Your {streak}-day streak is safe. Write today and {count} freezes will cover the days you missed.'
+  },
+  PROMPT_SECTION: {
+    TITLE: 'Today\'s Reflection',
+    NEW_PROMPT: 'Generate new prompt',
+    LISTEN: 'Listen to prompt',
+    CATEGORY_LABEL: 'Kind of prompt',
+    ANY_CATEGORY: 'Anything',
+    ANSWER: 'Write about this',
+    ANSWERING: 'Answering this prompt',
+    ANSWERING_HELP: 'This prompt will be saved with your entry.',
+    ANSWERED_SHOW: 'Prompts you\'ve answered ({count})',
+    ANSWERED_TITLE: 'Prompts you\'ve answered'
+  },
+  ENTRY_PROMPT: 'Answering: {prompt}',
+  TAGS: {
+    LABEL: 'Tags (Optional)',
+    PLACEHOLDER: 'Add a tag and press Enter...',
+    LIMIT_REACHED: 'You can add up to {max} tags',
+    REMOVE: 'Remove tag {tag}'
+  },
+  MOOD_SUGGESTION: {
+    SENSED: 'Based on your writing, I sense you might be feeling',
+    ALSO: 'with a little {emotions} too',
+    INTENSITY: 'Intensity {value} of 5',
+    TRIGGERS: 'It seems to come from: {triggers}',
+    QUESTION: 'Would you like me to update your mood selection?',
+    ACCEPT: 'Yes',
+    DISMISS: 'No'
+  },
+  SAFETY: {
+    TITLE_CRISIS: 'You don\'t have to go through this alone',
+    TITLE_CONCERN: 'It sounds like things are really heavy right now',
+    MESSAGE: 'Thank you for writing this down. What you\'re feeling matters, and talking to someone can help right now. These people are ready to listen, any time.',
+    EMERGENCY: 'If you might act on these thoughts or are in danger, call {number} now.',
+    EMERGENCY_UNKNOWN: 'If you might act on these thoughts or are in danger, call your local emergency number now.',
+    CALL: 'Call {number}',
+    TEXT: 'Text {number}',
+    TEXT_KEYWORD: 'Text {keyword} to {number}',
+    VISIT: 'Visit website',
+    TRUSTED_PERSON: 'You could also reach out to someone you trust and let them know how you\'re doing.',
+    CLOSE: 'Close',
+    CLOSE_WAIT: 'Close ({seconds})',
+    SAVED_MESSAGE: 'Your entry is saved. Zeno is here with you.',
+    FALLBACK_AFFIRMATION: 'What you are feeling matters, and you deserve support right now. Please reach out to someone you trust or a crisis line.'
+  },
+  VAULT: {
+    LOCKED_ENTRY: '🔒 This entry is encrypted. Unlock your vault in Settings to read it.',
+    UNREADABLE_ENTRY: '🔒 This entry could not be decrypted with your current key.'
+  },
+  ZENO_CHAT: {
+    START: 'Talk it through with Zeno',
+    START_DESC: 'Zeno will ask a few gentle questions about what you wrote.',
+    TITLE: 'Talk to Zeno',
+    SUBTITLE: 'Reflecting on your entry',
+    LOADING: 'Loading your conversation...',
+    THINKING: 'Zeno is thinking...',
+    PLACEHOLDER: 'Write back to Zeno...',
+    MESSAGE_LABEL: 'Your message to Zeno',
+    SEND: 'Send',
+    RETRY: 'Try again',
+    CONVERSATION_FULL: 'That\'s a full conversation. You can save it to your entry.',
+    SAVE: 'Save to entry',
+    SAVING: 'Saving...',
+    SAVED: 'Conversation saved to your entry',
+    CLOSE: 'Close conversation',
+    VAULT_UNAVAILABLE: 'Zeno can\'t talk about entries in your encrypted vault.',
+    VAULT_UNKNOWN: 'Zeno can\'t check your vault settings right now. Please try again in a moment.',
+    OFFLINE_UNAVAILABLE: 'Talking to Zeno needs an internet connection.',
+    ERROR: 'Zeno couldn\'t reply just now. Please try again.',
+    LOAD_ERROR: 'Couldn\'t load this conversation. Please try again.',
+    LIMIT_REACHED: 'You\'ve used today\'s free replies from Zeno. Upgrade to Premium to keep talking.',
+    TRANSCRIPT_HEADING: '--- Conversation with Zeno ---',
+    TRANSCRIPT_USER: 'Me',
+    TRANSCRIPT_ZENO: 'Zeno'
   }
 };
 
 // Settings
+export const REFLECTIONS = {
+  TITLES: {
+    week: 'Your week with Zeno',
+    month: 'Your month with Zeno'
+  },
+  HISTORY_TITLE: 'Reflections',
+  HISTORY_DESC: 'Zeno looks back on each week and month you journal.',
+  ENTRY_COUNT: 'From {count} entries',
+  MOOD_ARC: 'Mood through the {period}',
+  MOOD_ARC_DAY: '{date}: {average} out of 5',
+  MOOD_ARC_EMPTY_DAY: '{date}: no entries',
+  MOOD_DIRECTIONS: {
+    rising: 'Your mood lifted',
+    falling: 'Your mood dipped',
+    steady: 'Your mood held steady',
+    mixed: 'Your mood had ups and downs'
+  },
+  THEMES: 'Themes',
+  WINS: 'Wins',
+  INTENTION: 'An intention for next {period}',
+  LOAD_ERROR: 'Couldn\'t load your reflections.'
+};
+
 export const SETTINGS = {
   PROFILE: {
     TITLE: 'Profile Information',
@@ -192,9 +379,45 @@ export const SETTINGS = {
     },
     NOTIFICATIONS: {
       LABEL: 'Notifications',
-      DESCRIPTION: 'Gentle reminders for journaling'
+      DESCRIPTION: 'Gentle reminders for journaling',
+      UNSUPPORTED: 'This browser can\'t show reminders',
+      BLOCKED: 'Notifications are blocked in your browser settings'
+    },
+    REFLECTION_EMAILS: {
+      LABEL: 'Reflection Emails',
+      DESCRIPTION: 'Get Zeno\'s weekly and monthly look back by email',
+      ENABLED: 'Reflection emails turned on',
+      DISABLED: 'Reflection emails turned off',
+      UPDATE_ERROR: 'Couldn\'t update reflection emails. Please try again.'
     }
   },
+  PROMPT_GOALS: {
+    TITLE: 'Journaling Goals',
+    DESCRIPTION: 'Pick up to {max} goals and Zeno\'s prompts will help you work towards them.',
+    LIMIT_REACHED: 'You can pick up to {max} goals',
+    SAVE: 'Save goals',
+    SAVING: 'Saving...',
+    SAVED: 'Journaling goals saved',
+    SAVE_ERROR: 'Couldn\'t save your goals. Please try again.'
+  },
+  REMINDERS: {
+    TITLE: 'Reminder Schedule',
+    DESCRIPTION: 'Zeno only nudges you on days you haven\'t journaled yet, using your local time.',
+    TIMES_LABEL: 'Remind me at',
+    ADD_TIME: 'Add time',
+    REMOVE_TIME: 'Remove {time} reminder',
+    DAYS_LABEL: 'On these days',
+    DAY_NAMES: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    QUIET_HOURS_LABEL: 'Quiet hours',
+    QUIET_HOURS_DESCRIPTION: 'No reminders between these times',
+    QUIET_HOURS_FROM: 'From',
+    QUIET_HOURS_TO: 'To',
+    SAVE: 'Save schedule',
+    SAVING: 'Saving...',
+    SAVED: 'Reminder schedule saved',
+    ENABLED: 'Reminders turned on',
+    DISABLED: 'Reminders turned off'
+  },
   SUBSCRIPTION: {
     TITLE: 'Subscription',
     CURRENT_PLAN: 'Current Plan',
@@ -202,12 +425,90 @@ export const SETTINGS = {
     PREMIUM_MONTHLY: 'Premium Monthly',
     FREE: 'Free',
     RENEWAL: 'Your subscription renews on {date}',
-    CANCELLED: 'Your subscription is cancelled and will end on {date}'
+    CANCELLED: 'Your subscription is cancelled and will end on {date}',
+    PAST_DUE: 'Your last payment failed. Update your payment method by {date} to keep Premium.',
+    PAST_DUE_EXPIRED: 'Premium is paused because your payment failed. Update your payment method to restore it.',
+    TRIAL_ENDS: 'Your free trial ends on {date}',
+    HISTORY_TITLE: 'History',
+    HISTORY: {
+      started: 'Subscribed to {plan}',
+      renewed: 'Renewed {plan}',
+      plan_changed: 'Switched to {plan}',
+      cancelled: 'Turned off renewal',
+      resumed: 'Turned renewal back on',
+      payment_failed: 'Payment failed',
+      payment_recovered: 'Payment went through',
+      trial_ending: 'Trial ending reminder sent',
+      ended: 'Subscription ended'
+    }
   },
   DATA_PRIVACY: {
     TITLE: 'Data & Privacy',
     EXPORT_BUTTON: 'Export Journal Data',
-    EXPORT_HELP: 'Download all your journal entries and data in JSON format.'
+    EXPORT_HELP: 'Download your journal entries in the format you need. Leave the dates empty to export everything.',
+    EXPORT_VAULT_NOTE: 'Encrypted vault entries can only be read in JSON exports made while your vault is unlocked.',
+    FORMAT_LABEL: 'Format',
+    FORMATS: {
+      json: 'JSON (full data)',
+      markdown: 'Markdown + photos (ZIP)',
+      pdf: 'PDF journal book',
+      csv: 'CSV spreadsheet'
+    },
+    FROM_LABEL: 'From',
+    TO_LABEL: 'To',
+    INVALID_RANGE: 'The start date must be before the end date.',
+    EXPORTING: 'Exporting...',
+    EXPORT_SUCCESS: 'Journal data exported successfully!'
+  },
+  IMPORT: {
+    TITLE: 'Import Entries',
+    DESCRIPTION: 'Bring your history from Day One (Journal.json from its export ZIP), Daylio (CSV export) or Markdown files with front matter.',
+    NOTE: 'Imported entries keep their original dates and don\'t change your streak. Photos are not imported.',
+    CHOOSE_FILES: 'Choose files',
+    READING: 'Reading files...',
+    PREVIEW_TITLE: '{count} new entries ready to import',
+    DUPLICATES: '{count} already in your journal will be skipped',
+    NOTHING_NEW: 'Everything in these files is already in your journal.',
+    ERRORS_TITLE: 'Some items could not be read',
+    MORE: '...and {count} more',
+    UNTITLED: 'Untitled',
+    IMPORT_BUTTON: 'Import {count} entries',
+    IMPORTING: 'Importing {done} of {total}...',
+    CANCEL: 'Cancel',
+    SUCCESS: 'Imported {count} entries into your journal'
+  },
+  VAULT: {
+    TITLE: 'Encrypted Vault',
+    DESCRIPTION: 'Encrypt your entries in your browser with a passphrase only you know. We store only scrambled text and can never read it.',
+    PASSPHRASE: 'Passphrase',
+    CONFIRM_PASSPHRASE: 'Confirm passphrase',
+    NEW_PASSPHRASE: 'New passphrase',
+    RECOVERY_KEY: 'Recovery key',
+    PASSPHRASE_MISMATCH: 'Passphrases do not match',
+    ENABLE: 'Enable Encrypted Vault',
+    UNLOCK: 'Unlock Vault',
+    LOCK: 'Lock Vault',
+    FORGOT: 'Forgot your passphrase?',
+    RECOVER: 'Recover with Recovery Key',
+    BACK_TO_UNLOCK: 'Back to unlock',
+    LOCKED: 'Your vault is locked. Unlock it to read and write encrypted entries on this device.',
+    UNLOCKED: 'Your vault is unlocked for this session.',
+    UNKNOWN: 'Checking your vault settings... If this doesn\'t finish, check your connection. Entries can\'t be saved until it does.',
+    WARNING: 'If you lose both your passphrase and your recovery key, your encrypted entries cannot be recovered by anyone, including us.',
+    RECOVERY_TITLE: 'Save your recovery key',
+    RECOVERY_HELP: 'This is the only way back into your vault if you forget your passphrase. It will not be shown again.',
+    RECOVERY_SAVED: 'I\'ve saved my recovery key',
+    AI_TITLE: 'What changes with the vault on',
+    AI_NOTES: [
+      'AI mood analysis is turned off. Your selected mood is used instead.',
+      'Affirmations and mood quotes are based on your mood only. Your entry text is never sent to AI.',
+      'Daily prompts keep working because they never read your entries.',
+      'Titles and entry text are encrypted. Moods and dates stay readable so streaks, badges and mood stats keep working.',
+      'Tags are not encrypted so you can still filter by them. Avoid putting sensitive details in tags.',
+      'Encrypted entries are searched in your browser, so search only covers the ones loaded on this device.',
+      'Exports are decrypted in your browser while the vault is unlocked.',
+      'Only entries written after enabling the vault are encrypted.'
+    ]
   },
   ACCOUNT_ACTIONS: {
     TITLE: 'Account Actions',
@@ -229,13 +530,42 @@ export const SETTINGS = {
     },
     DELETE: {
       TITLE: 'Delete Account',
-      MESSAGE: 'This action cannot be undone. All your journal entries, progress, and data will be permanently deleted.',
+      MESSAGE: 'Your journal entries, photos, badges and progress will be permanently deleted after a 7-day grace period, and any subscription will stop renewing. You can undo this from the email we send you.',
       CANCEL: 'Cancel',
-      CONFIRM: 'Delete Account'
+      CONFIRM: 'Delete Account',
+      DELETING: 'Deleting...',
+      REPORT_TITLE: 'Account Scheduled for Deletion',
+      REPORT_MESSAGE: 'Your account will be permanently deleted on {date}. Until then you can restore it from the link in your email.',
+      REPORT_FAILED: 'Some steps didn\'t finish. Contact support if this keeps happening.',
+      FINISH: 'Sign Out',
+      STEP_STATUS: {
+        done: 'Done',
+        skipped: 'Nothing to do',
+        failed: 'Failed'
+      },
+      STEPS: {
+        schedule: 'Schedule permanent deletion',
+        subscription: 'Stop subscription renewal',
+        reminders: 'Pause reminders',
+        sign_in: 'Block sign-in during grace period',
+        email: 'Send restore link by email'
+      }
     }
   }
 };
 
+// Restore Account Page
+export const RESTORE_ACCOUNT = {
+  TITLE: 'Restore Your Account',
+  RESTORING: 'Restoring your account...',
+  SUCCESS_TITLE: 'Welcome back!',
+  SUCCESS_MESSAGE: 'Your account has been restored and won\'t be deleted. Sign in to pick up where you left off.',
+  ERROR_TITLE: 'We couldn\'t restore your account',
+  MISSING_TOKEN: 'This restore link is incomplete. Open the link from your email again.',
+  SIGN_IN: 'Sign In',
+  HOME: 'Back to Zensai'
+};
+
 // Badges
 export const BADGES = {
   TITLE: 'Badge Collection',
@@ -256,19 +586,64 @@ export const BADGES = {
 export const HISTORY = {
   TITLE: 'Journal Dashboard',
   SEARCH_PLACEHOLDER: 'Search your journal entries...',
+  SEARCH_HELP: 'Use "quotes" for an exact phrase and -word to leave a word out.',
+  SEARCHING: 'Searching your journal...',
   FILTERS: {
     TITLE: 'Filters',
     ALL_MOODS: 'All Moods',
     NEWEST: 'Newest First',
     OLDEST: 'Oldest First',
-    CLEAR: 'Clear filters'
+    RELEVANCE: 'Best Match',
+    CLEAR: 'Clear filters',
+    TAG_LABEL: 'Filter by tag',
+    ALL_TAGS: 'All Tags',
+    NO_TAGS: 'Add tags to your entries to filter by them here.',
+    EMOTION_LABEL: 'Filter by emotion',
+    ALL_EMOTIONS: 'All Emotions',
+    NO_EMOTIONS: 'Emotions Zeno notices in your entries will show up here.'
   },
+  EMOTIONS_LABEL: 'Emotions',
+  EMOTION_FILTER: 'Show entries where you felt {emotion}',
   ANALYTICS: {
     TITLE: 'Advanced Analytics',
-    COMING_SOON: 'Advanced Insights Coming Soon',
-    COMING_SOON_DESC: 'We\'re working on detailed mood trends, sentiment analysis, and AI-generated summaries of your emotional patterns.',
     UNLOCK: 'Unlock Advanced Analytics',
-    UNLOCK_DESC: 'Upgrade to Zensai Premium to access detailed mood trends, sentiment analysis, and AI-generated insights about your emotional patterns.'
+    UNLOCK_DESC: 'Upgrade to Zensai Premium to see how your mood changes over time, which days and times you feel best, how your writing grows, and your full streak history.',
+    RANGE_LABEL: 'Analytics date range',
+    RANGES: {
+      '7d': '7D',
+      '30d': '30D',
+      '90d': '90D',
+      '1y': '1Y',
+      all: 'All'
+    },
+    LOADING: 'Crunching your insights...',
+    NO_DATA: 'No entries in this range yet. Keep journaling and your patterns will appear here.',
+    SUMMARY: {
+      AVERAGE_MOOD: 'Average mood',
+      ENTRIES: 'Entries',
+      DAYS_JOURNALED: 'Days journaled',
+      LONGEST_STREAK: 'Longest streak'
+    },
+    MOOD_TREND: 'Mood Over Time',
+    MOOD_TREND_DESC: 'Average mood for each day you journaled',
+    HEATMAP: 'When You Feel Best',
+    HEATMAP_DESC: 'Average mood by day of the week and time of day',
+    HEATMAP_CELL: '{mood} on average ({average}) across {count} entries',
+    HEATMAP_EMPTY_CELL: 'No entries',
+    DAYS: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    TIMES_OF_DAY: {
+      morning: 'Morning',
+      afternoon: 'Afternoon',
+      evening: 'Evening',
+      night: 'Night'
+    },
+    ENTRY_LENGTH: 'Entry Length',
+    ENTRY_LENGTH_DESC: 'Average words per entry. Vault entries are not included.',
+    WORDS: '{count} words',
+    STREAKS: 'Streak History',
+    STREAKS_DESC: 'Runs of consecutive days with at least one entry',
+    STREAK_DAYS: '{count} days',
+    NO_STREAKS: 'Journal on two days in a row to start your first streak.'
   },
   HISTORY_LIMIT: {
     TITLE: 'Unlock Your Full Journal History',
@@ -279,5 +654,13 @@ export const HISTORY = {
     WITH_FILTERS: 'Try adjusting your search or filters.',
     NO_FILTERS: 'Start journaling to see your entries here!'
   },
-  MOOD_DISTRIBUTION: 'Mood Distribution'
+  MOOD_DISTRIBUTION: 'Mood Distribution',
+  LOAD_MORE: 'Load older entries',
+  LOADING_MORE: 'Loading older entries...',
+  SYNC: {
+    PENDING: 'Pending sync',
+    PENDING_LABEL: 'This entry was saved offline and will sync when you reconnect',
+    WAITING: '{count} change(s) waiting to sync',
+    SYNCING: 'Syncing offline changes...'
+  }
 };
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import {
+  VaultKeyRecord,
+  createVault,
+  decryptText,
+  encryptText,
+  rewrapWithPassphrase,
+  unlockWithPassphrase,
+  unlockWithRecoveryKey
+} from '../lib/encryption';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage, safeStorage } from '../types/errors';
+import { VaultContext, VaultResult } from './vault';
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+/**
+ * Where this device remembers the user's last loaded key record. The wrapped keys are
+ * as safe here as on the server, and let the vault state be known when starting offline.
+ */
+const getKeyCacheKey = (userId: string) => `zensai-vault-keys-${userId}`;
+
+export function VaultProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [keyRecord, setKeyRecord] = useState<VaultKeyRecord | null>(null);
+  // Whether keyRecord reflects the server; until then callers must assume the vault is on
+  const [isVaultKnown, setIsVaultKnown] = useState(false);
+  // The unlocked data key only ever lives in memory for the current session
+  const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setDataKey(null);
+    setKeyRecord(null);
+    setIsVaultKnown(false);
+
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isCurrent = true;
+
+    const applyCachedKeyRecord = () => {
+      const cached = safeStorage.getItem<{ record: VaultKeyRecord | null } | null>(getKeyCacheKey(user.id));
+      if (cached && isCurrent) {
+        setKeyRecord(cached.record);
+        setIsVaultKnown(true);
+      }
+    };
+
+    const loadKeyRecord = async () => {
+      try {
+        setIsLoading(true);
+        const { data, error } = await supabase
+          .from('user_encryption_keys')
+          .select('passphrase_salt, passphrase_wrapped_key, recovery_salt, recovery_wrapped_key')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error loading vault keys:', error);
+          applyCachedKeyRecord();
+          return;
+        }
+
+        if (!isCurrent) return;
+        safeStorage.setItem(getKeyCacheKey(user.id), { record: data });
+        setKeyRecord(data);
+        setIsVaultKnown(true);
+      } catch (err) {
+        console.error('Error loading vault keys:', err);
+        applyCachedKeyRecord();
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadKeyRecord();
+
+    // Try again when the connection comes back if the first lookup failed
+    const handleOnline = () => {
+      loadKeyRecord();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      isCurrent = false;
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [user]);
+
+  const enableVault = async (passphrase: string): Promise<VaultResult & { recoveryKey?: string }> => {
+    if (!user) {
+      return { success: false, error: 'You must be logged in to enable the vault' };
+    }
+
+    if (!isVaultKnown) {
+      return { success: false, error: 'Couldn\'t check your vault settings. Please check your connection and try again.' };
+    }
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.VALIDATION_ERROR,
+          `Your passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`
+        ))
+      };
+    }
+
+    try {
+      const { dataKey: newDataKey, recoveryKey, record } = await createVault(passphrase);
+
+      const { error } = await supabase
+        .from('user_encryption_keys')
+        .insert({ user_id: user.id, ...record });
+
+      if (error) {
+        console.error('Error saving vault keys:', error);
+        return { success: false, error: 'Failed to enable the encrypted vault. Please try again.' };
+      }
+
+      safeStorage.setItem(getKeyCacheKey(user.id), { record });
+      setKeyRecord(record);
+      setDataKey(newDataKey);
+
+      return { success: true, recoveryKey };
+    } catch (err) {
+      console.error('Error enabling vault:', err);
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.UNKNOWN_ERROR,
+          'Your browser could not create an encryption key. Please try again.',
+          undefined,
+          err
+        ))
+      };
+    }
+  };
+
+  const unlock = async (passphrase: string): Promise<VaultResult> => {
+    if (!keyRecord) {
+      return { success: false, error: 'The encrypted vault is not enabled' };
+    }
+
+    try {
+      setDataKey(await unlockWithPassphrase(keyRecord, passphrase));
+      return { success: true };
+    } catch {
+      return { success: false, error: 'That passphrase is incorrect. Please try again.' };
+    }
+  };
+
+  const recover = async (recoveryKey: string, newPassphrase: string): Promise<VaultResult> => {
+    if (!user || !keyRecord) {
+      return { success: false, error: 'The encrypted vault is not enabled' };
+    }
+
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return { success: false, error: `Your passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long` };
+    }
+
+    let recoveredKey: CryptoKey;
+    try {
+      recoveredKey = await unlockWithRecoveryKey(keyRecord, recoveryKey);
+    } catch {
+      return { success: false, error: 'That recovery key is incorrect. Please check it and try again.' };
+    }
+
+    try {
+      const passphraseFields = await rewrapWithPassphrase(recoveredKey, newPassphrase);
+
+      const { error } = await supabase
+        .from('user_encryption_keys')
+        .update(passphraseFields)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating vault passphrase:', error);
+        return { success: false, error: 'Failed to save your new passphrase. Please try again.' };
+      }
+
+      const updatedRecord = { ...keyRecord, ...passphraseFields };
+      safeStorage.setItem(getKeyCacheKey(user.id), { record: updatedRecord });
+      setKeyRecord(updatedRecord);
+      setDataKey(recoveredKey);
+
+      return { success: true };
+    } catch (err) {
+      console.error('Error recovering vault:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  };
+
+  const lock = () => {
+    setDataKey(null);
+  };
+
+  const encrypt = useCallback(async (plaintext: string): Promise<string> => {
+    if (!dataKey) {
+      throw new Error('Vault is locked');
+    }
+    return encryptText(dataKey, plaintext);
+  }, [dataKey]);
+
+  const decrypt = useCallback(async (value: string): Promise<string> => {
+    if (!dataKey) {
+      throw new Error('Vault is locked');
+    }
+    return decryptText(dataKey, value);
+  }, [dataKey]);
+
+  return (
+    <VaultContext.Provider value={{
+      isVaultEnabled: !!keyRecord,
+      isVaultKnown,
+      isUnlocked: !!dataKey,
+      isLoading,
+      enableVault,
+      unlock,
+      recover,
+      lock,
+      encrypt,
+      decrypt
+    }}>
+      {children}
+    </VaultContext.Provider>
+  );
+}
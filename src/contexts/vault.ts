@@ -0,0 +1,25 @@
+import { createContext } from 'react';
+
+export interface VaultResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface VaultContextType {
+  isVaultEnabled: boolean;
+  /**
+   * Whether `isVaultEnabled` can be trusted. False while the key lookup is loading or
+   * after it failed with nothing cached; entries must not be written or sent to AI then.
+   */
+  isVaultKnown: boolean;
+  isUnlocked: boolean;
+  isLoading: boolean;
+  enableVault: (passphrase: string) => Promise<VaultResult & { recoveryKey?: string }>;
+  unlock: (passphrase: string) => Promise<VaultResult>;
+  recover: (recoveryKey: string, newPassphrase: string) => Promise<VaultResult>;
+  lock: () => void;
+  encrypt: (plaintext: string) => Promise<string>;
+  decrypt: (value: string) => Promise<string>;
+}
+
+export const VaultContext = createContext<VaultContextType | undefined>(undefined);
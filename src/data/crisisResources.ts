@@ -0,0 +1,83 @@
+import { CrisisResources } from '../types';
+
+const FIND_A_HELPLINE = {
+  name: 'Find A Helpline',
+  description: 'Free, confidential helplines in your country',
+  url: 'https://findahelpline.com'
+};
+
+export const crisisResources: CrisisResources[] = [
+  {
+    region: 'US',
+    emergencyNumber: '911',
+    lines: [
+      { name: '988 Suicide & Crisis Lifeline', description: 'Call or text, any time', phone: '988', sms: '988', url: 'https://988lifeline.org' },
+      { name: 'Crisis Text Line', description: 'Text with a trained counselor', sms: '741741', textKeyword: 'HOME' }
+    ]
+  },
+  {
+    region: 'CA',
+    emergencyNumber: '911',
+    lines: [
+      { name: '9-8-8 Suicide Crisis Helpline', description: 'Call or text, any time', phone: '988', sms: '988', url: 'https://988.ca' }
+    ]
+  },
+  {
+    region: 'GB',
+    emergencyNumber: '999',
+    lines: [
+      { name: 'Samaritans', description: 'Free to call, any time', phone: '116 123', url: 'https://www.samaritans.org' },
+      { name: 'Shout', description: 'Text with a trained volunteer', sms: '85258', textKeyword: 'SHOUT' }
+    ]
+  },
+  {
+    region: 'IE',
+    emergencyNumber: '112',
+    lines: [
+      { name: 'Samaritans', description: 'Free to call, any time', phone: '116 123', url: 'https://www.samaritans.org' },
+      { name: '50808', description: 'Text with a trained volunteer', sms: '50808', textKeyword: 'HELLO' }
+    ]
+  },
+  {
+    region: 'AU',
+    emergencyNumber: '000',
+    lines: [
+      { name: 'Lifeline', description: 'Call any time', phone: '13 11 14', url: 'https://www.lifeline.org.au' }
+    ]
+  },
+  {
+    region: 'NZ',
+    emergencyNumber: '111',
+    lines: [
+      { name: 'Need to talk? 1737', description: 'Call or text, any time', phone: '1737', sms: '1737' }
+    ]
+  },
+  {
+    region: 'IN',
+    emergencyNumber: '112',
+    lines: [
+      { name: 'Tele-MANAS', description: 'Free mental health support, any time', phone: '14416' }
+    ]
+  },
+  {
+    region: 'INTL',
+    emergencyNumber: null,
+    lines: [FIND_A_HELPLINE]
+  }
+];
+
+/**
+ * Helplines for a region, falling back to the international list
+ *
+ * @param {string|null} region - ISO 3166 country code
+ * @returns {CrisisResources} Helplines to show
+ */
+export const getCrisisResources = (region: string | null): CrisisResources => {
+  const regional = crisisResources.find(resources => resources.region === region?.toUpperCase());
+  const international = crisisResources[crisisResources.length - 1];
+
+  if (!regional) return international;
+
+  // Always offer the directory too, in case the user is travelling
+  return { ...regional, lines: [...regional.lines, FIND_A_HELPLINE] };
+};
@@ -0,0 +1,29 @@
+import { Emotion, EmotionInfo } from '../types';
+
+export const emotions: EmotionInfo[] = [
+  { emotion: 'joyful', emoji: '😄', label: 'Joyful', valence: 'positive' },
+  { emotion: 'excited', emoji: '🤩', label: 'Excited', valence: 'positive' },
+  { emotion: 'grateful', emoji: '🙏', label: 'Grateful', valence: 'positive' },
+  { emotion: 'hopeful', emoji: '🌱', label: 'Hopeful', valence: 'positive' },
+  { emotion: 'proud', emoji: '🏅', label: 'Proud', valence: 'positive' },
+  { emotion: 'loved', emoji: '🥰', label: 'Loved', valence: 'positive' },
+  { emotion: 'content', emoji: '😌', label: 'Content', valence: 'positive' },
+  { emotion: 'calm', emoji: '🍃', label: 'Calm', valence: 'neutral' },
+  { emotion: 'reflective', emoji: '🤔', label: 'Reflective', valence: 'neutral' },
+  { emotion: 'tired', emoji: '😴', label: 'Tired', valence: 'negative' },
+  { emotion: 'anxious', emoji: '😰', label: 'Anxious', valence: 'negative' },
+  { emotion: 'sad', emoji: '😢', label: 'Sad', valence: 'negative' },
+  { emotion: 'lonely', emoji: '🫂', label: 'Lonely', valence: 'negative' },
+  { emotion: 'frustrated', emoji: '😤', label: 'Frustrated', valence: 'negative' },
+  { emotion: 'angry', emoji: '😠', label: 'Angry', valence: 'negative' },
+  { emotion: 'overwhelmed', emoji: '🌊', label: 'Overwhelmed', valence: 'negative' }
+];
+
+/**
+ * Look up how to show an emotion
+ *
+ * @param {Emotion} emotion - Emotion name from an analysis
+ * @returns {EmotionInfo|undefined} Display details, if the emotion is known
+ */
+export const getEmotionInfo = (emotion: Emotion): EmotionInfo | undefined =>
+  emotions.find(info => info.emotion === emotion);
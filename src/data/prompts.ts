@@ -0,0 +1,30 @@
+import { PromptCategory, PromptCategoryInfo, PromptGoalInfo } from '../types';
+
+export const promptCategories: PromptCategoryInfo[] = [
+  { category: 'gratitude', emoji: '🙏', label: 'Gratitude', description: 'Notice what you appreciate' },
+  { category: 'reframing', emoji: '🔄', label: 'Reframe a thought', description: 'Look at a worry from a kinder angle' },
+  { category: 'self-compassion', emoji: '💗', label: 'Self-compassion', description: 'Be a good friend to yourself' },
+  { category: 'goals', emoji: '🎯', label: 'Goals', description: 'Check in on what you\'re working towards' }
+];
+
+export const promptGoals: PromptGoalInfo[] = [
+  { goal: 'reduce-stress', emoji: '🍃', label: 'Feel less stressed' },
+  { goal: 'sleep-better', emoji: '🌙', label: 'Sleep better' },
+  { goal: 'build-confidence', emoji: '💪', label: 'Build confidence' },
+  { goal: 'strengthen-relationships', emoji: '🤝', label: 'Strengthen relationships' },
+  { goal: 'find-balance', emoji: '⚖️', label: 'Find balance' },
+  { goal: 'handle-change', emoji: '🌱', label: 'Cope with change' },
+  { goal: 'be-kinder-to-myself', emoji: '💗', label: 'Be kinder to myself' }
+];
+
+/** Most goals a user can choose at once */
+export const MAX_PROMPT_GOALS = 3;
+
+/**
+ * Look up how to show a prompt category
+ *
+ * @param {PromptCategory} category - Category name
+ * @returns {PromptCategoryInfo|undefined} Display details, if the category is known
+ */
+export const getPromptCategoryInfo = (category: PromptCategory): PromptCategoryInfo | undefined =>
+  promptCategories.find(info => info.category === category);
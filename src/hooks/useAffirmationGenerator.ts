@@ -1,8 +1,11 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
 import { useAuth } from '../contexts/AuthContext';
+import { useVault } from './useVault';
+import { JOURNAL } from '../constants/uiStrings';
 import { usePremium } from './usePremium';
-import { MoodLevel } from '../types';
+import { MoodLevel, SafetyLevel } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
 
 /**
@@ -14,6 +17,7 @@ interface AffirmationResponse {
   affirmation: string;
   generated_by: 'ai' | 'fallback';
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -35,6 +39,8 @@ interface AffirmationResponse {
 export function useAffirmationGenerator() {
   const { user } = useAuth();
   const { isPremium, trackFeatureUsage } = usePremium();
+  const { isVaultEnabled, isVaultKnown } = useVault();
+  const isEntryPrivate = isVaultEnabled || !isVaultKnown;
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dailyUsageCount, setDailyUsageCount] = useState(0);
@@ -44,11 +50,13 @@ export function useAffirmationGenerator() {
    * 
    * @param {string} journalEntry - Journal entry text
    * @param {MoodLevel} mood - User's mood level
+   * @param {SafetyLevel} [safetyLevel='none'] - From the safety check; anything else asks for care, not cheer
    * @returns {Promise<string|null>} Generated affirmation or null on failure
    */
   const generateAffirmation = async (
     journalEntry: string, 
-    mood: MoodLevel
+    mood: MoodLevel,
+    safetyLevel: SafetyLevel = 'none'
   ): Promise<string | null> => {
     if (!journalEntry?.trim()) {
       const error = createAppError(
@@ -59,11 +67,28 @@ export function useAffirmationGenerator() {
       return null;
     }
 
+    // With the encrypted vault on, the entry is never sent to AI; use a mood-based affirmation instead
+    if (isEntryPrivate) {
+      if (safetyLevel !== 'none') {
+        return JOURNAL.SAFETY.FALLBACK_AFFIRMATION;
+      }
+      const moodKey = getMoodString(mood).toUpperCase() as keyof typeof JOURNAL.FALLBACK_AFFIRMATIONS;
+      return JOURNAL.FALLBACK_AFFIRMATIONS[moodKey];
+    }
+
     setIsGenerating(true);
     setError(null);
 
+    // Never put an upgrade prompt in front of someone who may be in crisis
+    const showUpsell = safetyLevel === 'none';
+
     // Check if free user has reached daily limit
-    if (!isPremium && !trackFeatureUsage('affirmation-generator')) {
+    if (!isPremium && !trackFeatureUsage('affirmation-generator', { showUpsell })) {
+      if (!showUpsell) {
+        setIsGenerating(false);
+        return JOURNAL.SAFETY.FALLBACK_AFFIRMATION;
+      }
+
       const error = createAppError(
         ErrorCode.PREMIUM_DAILY_LIMIT,
         'Daily limit reached. Upgrade to Premium for unlimited affirmations.',
@@ -82,11 +107,27 @@ export function useAffirmationGenerator() {
         body: {
           entry: journalEntry.trim(),
           mood: moodString,
-          name: user?.name
+          name: user?.name,
+          safety_level: safetyLevel
         }
       });
 
       if (functionError) {
+        // The server refuses once today's free uses are gone
+        if (await handleLimitError(functionError, { showUpsell })) {
+          if (!showUpsell) {
+            return JOURNAL.SAFETY.FALLBACK_AFFIRMATION;
+          }
+
+          const error = createAppError(
+            ErrorCode.PREMIUM_DAILY_LIMIT,
+            'Daily limit reached. Upgrade to Premium for unlimited affirmations.',
+            { feature: 'affirmation-generator' }
+          );
+          setError(getUserFriendlyErrorMessage(error));
+          return null;
+        }
+
         console.error('Affirmation generation edge function error:', functionError);
         const error = createAppError(
           ErrorCode.AI_SERVICE_UNAVAILABLE,
@@ -98,6 +139,9 @@ export function useAffirmationGenerator() {
       }
 
       const response: AffirmationResponse = data;
+      if (response.quota) {
+        updateFeatureQuota(response.quota);
+      }
       
       if (!response.success) {
         const error = createAppError(
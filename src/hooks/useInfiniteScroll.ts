@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Custom hook that calls `onLoadMore` when a sentinel element scrolls into view
+ *
+ * @param {function} onLoadMore - Function to load the next page
+ * @param {boolean} enabled - Whether more pages can be loaded right now
+ * @param {string} [rootMargin='400px'] - How far ahead of the sentinel to start loading
+ * @returns {React.RefObject<HTMLDivElement>} Ref to attach to the sentinel element
+ *
+ * @example
+ * const sentinelRef = useInfiniteScroll(loadMoreEntries, hasMoreEntries && !isLoadingMore);
+ *
+ * return <div ref={sentinelRef} />;
+ */
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  enabled: boolean,
+  rootMargin = '400px'
+) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    // Without IntersectionObserver the caller's "load more" button is the fallback
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      observedEntries => {
+        if (observedEntries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { safeStorage } from '../types/errors';
+import {
+  getInstallPrompt,
+  onInstallPromptChange,
+  promptInstall,
+  isStandalone,
+  isIosDevice
+} from '../lib/pwa';
+
+const DISMISSED_KEY = 'zensai-install-dismissed-at';
+
+/** How long to hide the install prompt after it's dismissed */
+const DISMISS_DAYS = 30;
+
+const isRecentlyDismissed = (): boolean => {
+  const dismissedAt = safeStorage.getItem<number | null>(DISMISSED_KEY, null);
+  return typeof dismissedAt === 'number' && Date.now() - dismissedAt < DISMISS_DAYS * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Custom hook for offering to install Zensai as an app
+ *
+ * Chromium browsers give us an install prompt to show from our own button.
+ * iOS has no prompt, so there we explain how to add Zensai from the Share menu.
+ *
+ * @returns {Object} Install prompt state and methods
+ *
+ * @example
+ * const { canInstall, isIos, shouldShow, install, dismiss } = useInstallPrompt();
+ */
+export function useInstallPrompt() {
+  const [canInstall, setCanInstall] = useState(() => Boolean(getInstallPrompt()));
+  const [isDismissed, setIsDismissed] = useState(isRecentlyDismissed);
+  const [isInstalled, setIsInstalled] = useState(isStandalone);
+
+  const isIos = isIosDevice();
+
+  useEffect(() => {
+    const unsubscribe = onInstallPromptChange(event => setCanInstall(Boolean(event)));
+    const handleInstalled = () => setIsInstalled(true);
+    window.addEventListener('appinstalled', handleInstalled);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  /**
+   * Show the browser's install dialog
+   *
+   * @returns {Promise<boolean>} Whether the app was installed
+   */
+  const install = useCallback(async () => {
+    try {
+      const accepted = await promptInstall();
+      if (accepted) setIsInstalled(true);
+      return accepted;
+    } catch (err) {
+      console.error('Error showing install prompt:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Hide the install prompt for a while
+   */
+  const dismiss = useCallback(() => {
+    safeStorage.setItem(DISMISSED_KEY, Date.now());
+    setIsDismissed(true);
+  }, []);
+
+  return {
+    canInstall,
+    isIos,
+    isInstalled,
+    shouldShow: !isInstalled && !isDismissed && (canInstall || isIos),
+    install,
+    dismiss
+  };
+}
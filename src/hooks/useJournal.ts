@@ -1,8 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useJournalEntries } from './useJournalEntries';
-import { MoodLevel } from '../types';
+import { BillingDiscount } from './useRewards';
+import { useVault } from './useVault';
+import { isEncryptedValue } from '../lib/encryption';
+import { JOURNAL } from '../constants/uiStrings';
+import { EmotionAnalysis, EntryPrompt, MoodLevel } from '../types';
+import { getBrowserTimezone, getLocalDateString, daysBetween } from '../utils/dates';
 
 /**
  * Interface for journal entry data
@@ -16,6 +21,7 @@ interface JournalEntry {
   photo_url: string | null;
   photo_filename: string | null;
   title: string | null;
+  tags?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -32,9 +38,20 @@ interface Profile {
   last_entry_date: string | null;
   journaling_goal_frequency: number;
   total_badges_earned: number;
+  timezone: string;
+  streak_freezes: number;
+  last_streak_freeze_used_on: string | null;
   subscription_status: string;
   subscription_tier: string;
   subscription_expires_at: string | null;
+  payment_status: 'ok' | 'past_due';
+  grace_period_ends_at: string | null;
+  trial_ends_at: string | null;
+  referral_code: string;
+  billing_discount: BillingDiscount | null;
+  gifted_premium_until: string | null;
+  scheduled_tier: 'premium' | 'premium_plus' | null;
+  scheduled_tier_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -57,6 +74,16 @@ interface Badge {
   progress_percentage: number;
 }
 
+/**
+ * Whether a profile has premium access that hasn't expired
+ * 
+ * @param {Profile|null} profile - Profile as loaded from Supabase
+ * @returns {boolean} True for premium
+ */
+const isPremiumProfile = (profile: Profile | null): boolean =>
+  profile?.subscription_status === 'premium' &&
+  (!profile.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
+
 /**
  * Custom hook for managing journal-related functionality
  * 
@@ -67,6 +94,7 @@ interface Badge {
  *   entries, 
  *   profile, 
  *   badges, 
+ *   availableTags,
  *   addEntry, 
  *   updateJournalingGoal 
  * } = useJournal();
@@ -74,25 +102,34 @@ interface Badge {
 export function useJournal() {
   const { user, isAuthenticated } = useAuth();
   const { 
-    entries, 
+    entries: storedEntries, 
     isLoading: entriesLoading, 
     error: entriesError,
     loadEntries,
     addEntry,
     updateEntry,
-    deleteEntry
+    deleteEntry,
+    loadMoreEntries,
+    hasMoreEntries,
+    isLoadingMore,
+    totalEntryCount,
+    pendingSyncCount,
+    isSyncing
   } = useJournalEntries();
+  const { isUnlocked, decrypt } = useVault();
   
+  const [entries, setEntries] = useState<typeof storedEntries>(storedEntries);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [badges, setBadges] = useState<Badge[]>([]);
+  const [savedTags, setSavedTags] = useState<string[]>([]);
+  const [moodCounts, setMoodCounts] = useState<Record<string, number> | null>(null);
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
   const [profileError, setProfileError] = useState<string | null>(null);
 
   /**
    * Calculate premium status directly from profile
    */
-  const isPremium = profile?.subscription_status === 'premium' && 
-    (!profile?.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
+  const isPremium = isPremiumProfile(profile);
 
   /**
    * Combined loading state from entries and profile
@@ -105,23 +142,84 @@ export function useJournal() {
   const error = entriesError || profileError;
 
   /**
-   * Load user profile and entries when authentication state changes
+   * Every tag the user has used, most used first, including tags on entries
+   * that haven't synced yet
+   */
+  const availableTags = useMemo(() => {
+    const entryTags = entries.flatMap(entry => entry.tags ?? []);
+    return Array.from(new Set([...savedTags, ...entryTags]));
+  }, [savedTags, entries]);
+
+  /**
+   * Decrypt vault entries locally. Ciphertext never leaves this hook, and while the
+   * vault is locked encrypted entries are shown with a placeholder instead.
    */
   useEffect(() => {
-    if (isAuthenticated && user) {
-      loadUserData();
-      loadUserBadges();
-    } else {
-      setIsLoadingProfile(false);
-      setProfile(null);
-      setBadges([]);
+    let isCancelled = false;
+
+    const decryptEntries = async () => {
+      const readableEntries = await Promise.all(storedEntries.map(async entry => {
+        if (!isEncryptedValue(entry.content) && !isEncryptedValue(entry.title)) {
+          return entry;
+        }
+
+        if (!isUnlocked) {
+          return { ...entry, content: JOURNAL.VAULT.LOCKED_ENTRY, title: null };
+        }
+
+        try {
+          return {
+            ...entry,
+            content: await decrypt(entry.content),
+            title: entry.title ? await decrypt(entry.title) : null
+          };
+        } catch (err) {
+          console.error('Error decrypting entry:', err);
+          return { ...entry, content: JOURNAL.VAULT.UNREADABLE_ENTRY, title: null };
+        }
+      }));
+
+      if (!isCancelled) {
+        setEntries(readableEntries);
+      }
+    };
+
+    decryptEntries();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [storedEntries, isUnlocked, decrypt]);
+
+  /**
+   * Save the browser's timezone so streaks and goals follow the user's local day
+   * 
+   * @param {Profile} currentProfile - Profile as loaded from Supabase
+   */
+  const syncTimezone = useCallback(async (currentProfile: Profile) => {
+    if (!user) return;
+
+    const timezone = getBrowserTimezone();
+    if (currentProfile.timezone === timezone) return;
+
+    const { error: timezoneError } = await supabase
+      .from('profiles')
+      .update({ timezone })
+      .eq('user_id', user.id);
+
+    if (timezoneError) {
+      // Non-fatal: the server keeps using the previous timezone
+      console.error('Error saving timezone:', timezoneError);
+      return;
     }
-  }, [isAuthenticated, user]);
+
+    setProfile(prev => prev ? { ...prev, timezone } : null);
+  }, [user]);
 
   /**
    * Load user profile data from Supabase
    */
-  const loadUserData = async () => {
+  const loadUserData = useCallback(async () => {
     if (!user) return;
 
     try {
@@ -142,10 +240,10 @@ export function useJournal() {
       }
 
       setProfile(profileData);
+      syncTimezone(profileData);
 
-      // Load entries with premium status
-      const userIsPremium = isPremium;
-      await loadEntries(userIsPremium);
+      // Load entries with the premium status just loaded, not the previous profile's
+      await loadEntries(isPremiumProfile(profileData));
 
     } catch (err) {
       console.error('Error loading user data:', err);
@@ -153,12 +251,12 @@ export function useJournal() {
     } finally {
       setIsLoadingProfile(false);
     }
-  };
+  }, [user, loadEntries, syncTimezone]);
 
   /**
    * Load user badges from Supabase
    */
-  const loadUserBadges = async () => {
+  const loadUserBadges = useCallback(async () => {
     if (!user) return;
 
     try {
@@ -174,7 +272,96 @@ export function useJournal() {
     } catch (err) {
       console.error('Error loading badges:', err);
     }
-  };
+  }, [user]);
+
+  /**
+   * Load entry counts per mood across the user's whole journal
+   */
+  const loadMoodCounts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data: statsData, error: statsError } = await supabase
+        .rpc('get_user_mood_stats', { user_uuid: user.id });
+
+      if (statsError) {
+        console.error('Error loading mood stats:', statsError);
+        return;
+      }
+
+      setMoodCounts((statsData || []).reduce(
+        (counts: Record<string, number>, row: { mood_level: string; entry_count: number }) => ({
+          ...counts,
+          [row.mood_level]: Number(row.entry_count)
+        }),
+        {}
+      ));
+    } catch (err) {
+      console.error('Error loading mood stats:', err);
+    }
+  }, [user]);
+
+  /**
+   * Load the user's tags for autocomplete and filtering
+   */
+  const loadUserTags = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data: tagData, error: tagError } = await supabase
+        .rpc('get_user_tags', { user_uuid: user.id });
+
+      if (tagError) {
+        console.error('Error loading tags:', tagError);
+        return;
+      }
+
+      setSavedTags((tagData || []).map((row: { tag: string }) => row.tag));
+    } catch (err) {
+      console.error('Error loading tags:', err);
+    }
+  }, [user]);
+
+  /**
+   * Load user profile and entries when authentication state changes
+   */
+  useEffect(() => {
+    if (isAuthenticated && user) {
+      loadUserData();
+      loadUserBadges();
+      loadUserTags();
+    } else {
+      setIsLoadingProfile(false);
+      setProfile(null);
+      setBadges([]);
+      setSavedTags([]);
+      setMoodCounts(null);
+    }
+  }, [isAuthenticated, user, loadUserData, loadUserBadges, loadUserTags]);
+
+  /**
+   * Premium users page through their history, so their mood totals come from the server.
+   * Refreshed whenever entries change so adds, edits and deletes are reflected.
+   */
+  useEffect(() => {
+    if (isAuthenticated && user && isPremium) {
+      loadMoodCounts();
+    } else {
+      setMoodCounts(null);
+    }
+  }, [isAuthenticated, user, isPremium, storedEntries, loadMoodCounts]);
+
+  /**
+   * Refresh streaks and badges once queued offline entries have synced
+   */
+  const wasSyncingRef = useRef(false);
+  useEffect(() => {
+    if (wasSyncingRef.current && !isSyncing && isAuthenticated && user) {
+      loadUserData();
+      loadUserBadges();
+    }
+    wasSyncingRef.current = isSyncing;
+  }, [isSyncing, isAuthenticated, user, loadUserData, loadUserBadges]);
 
   /**
    * Update the user's weekly journaling goal
@@ -226,7 +413,33 @@ export function useJournal() {
    * @returns {number} Current streak in days
    */
   const getStreak = (): number => {
-    return profile?.current_streak || 0;
+    if (!profile?.last_entry_date) return 0;
+
+    // The stored streak only changes when an entry is saved, so missed days show up here.
+    // Days the user's freezes can cover will be frozen at their next entry.
+    if (getMissedDays() > getStreakFreezes()) return 0;
+
+    return profile.current_streak || 0;
+  };
+
+  /**
+   * Get the number of streak freezes the user has banked
+   * 
+   * @returns {number} Available streak freezes
+   */
+  const getStreakFreezes = (): number => {
+    return profile?.streak_freezes || 0;
+  };
+
+  /**
+   * Get the number of days missed since the last entry, not counting today
+   * 
+   * @returns {number} Missed days (0 if the user journaled today or yesterday)
+   */
+  const getMissedDays = (): number => {
+    if (!profile?.last_entry_date) return 0;
+    const today = getLocalDateString(new Date(), profile.timezone);
+    return Math.max(0, daysBetween(profile.last_entry_date, today) - 1);
   };
 
   /**
@@ -244,7 +457,7 @@ export function useJournal() {
    * @returns {number} Total entries count
    */
   const getTotalEntries = (): number => {
-    return entries.length;
+    return totalEntryCount ?? entries.length;
   };
 
   /**
@@ -254,7 +467,9 @@ export function useJournal() {
    */
   const getLastEntryDate = (): Date | null => {
     if (!profile?.last_entry_date) return null;
-    return new Date(profile.last_entry_date);
+    // A bare date parses as UTC midnight, which is the previous day west of Greenwich
+    const [year, month, day] = profile.last_entry_date.split('-').map(Number);
+    return new Date(year, month - 1, day);
   };
 
   /**
@@ -263,7 +478,7 @@ export function useJournal() {
    * @returns {boolean} True if an entry exists for today
    */
   const hasEntryToday = (): boolean => {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDateString(new Date(), profile?.timezone);
     return profile?.last_entry_date === today;
   };
 
@@ -274,23 +489,30 @@ export function useJournal() {
    * @param {string|null} title - Optional entry title
    * @param {MoodLevel} mood - Selected mood level
    * @param {File} [photoFile] - Optional photo attachment
+   * @param {string[]} [tags] - Tags for the entry
+   * @param {EmotionAnalysis|null} [emotions] - Emotions found in the entry
+   * @param {EntryPrompt|null} [prompt] - The prompt the entry answers
    * @returns {Promise<{success: boolean, error?: string}>} Result object
    */
   const handleAddEntry = async (
     content: string,
     title: string | null,
     mood: MoodLevel,
-    photoFile?: File
-  ): Promise<{ success: boolean; error?: string }> => {
+    photoFile?: File,
+    tags: string[] = [],
+    emotions: EmotionAnalysis | null = null,
+    prompt: EntryPrompt | null = null
+  ): Promise<{ success: boolean; error?: string; queued?: boolean; entryId?: string }> => {
     // Check if photo uploads are allowed for free users
     if (photoFile && !isPremium) {
       return { success: false, error: 'Photo uploads are a premium feature. Please upgrade to add photos to your entries.' };
     }
     
     // Call the addEntry function from useJournalEntries
-    const result = await addEntry(content, title, mood, photoFile);
+    const result = await addEntry(content, title, mood, photoFile, tags, emotions, prompt);
     
-    if (result.success) {
+    // Queued offline entries refresh the profile once they sync
+    if (result.success && !result.queued) {
       // Reload profile to get updated streak
       try {
         const { data: updatedProfile, error: profileError } = await supabase
@@ -319,10 +541,10 @@ export function useJournal() {
    * @param {string} entryId - ID of the entry to delete
    * @returns {Promise<{success: boolean, error?: string}>} Result object
    */
-  const handleDeleteEntry = async (entryId: string): Promise<{ success: boolean; error?: string }> => {
+  const handleDeleteEntry = async (entryId: string): Promise<{ success: boolean; error?: string; queued?: boolean }> => {
     const result = await deleteEntry(entryId);
     
-    if (result.success) {
+    if (result.success && !result.queued) {
       // Reload profile to get updated streak (deletion might affect streak)
       await loadUserData();
       await loadUserBadges();
@@ -337,12 +559,14 @@ export function useJournal() {
   const refreshData = () => {
     loadUserData();
     loadUserBadges();
+    loadUserTags();
   };
 
   return {
     entries,
     profile,
     badges,
+    availableTags,
     isLoading,
     error,
     isPremium,
@@ -352,9 +576,17 @@ export function useJournal() {
     updateJournalingGoal,
     getStreak,
     getBestStreak,
+    getStreakFreezes,
+    getMissedDays,
     getTotalEntries,
     getLastEntryDate,
     hasEntryToday,
-    refreshData
+    refreshData,
+    loadMoreEntries,
+    hasMoreEntries,
+    isLoadingMore,
+    moodCounts,
+    pendingSyncCount,
+    isSyncing
   };
 }
\ No newline at end of file
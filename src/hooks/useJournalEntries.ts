@@ -1,8 +1,24 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { MoodLevel } from '../types';
+import { useVault } from './useVault';
+import { Emotion, EmotionAnalysis, EntryPrompt, MoodLevel, PromptCategory } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { normalizeTags } from '../utils/tags';
+import { getEmotionColumns } from '../utils/emotions';
+import { getPromptColumns } from '../utils/prompts';
+import {
+  QueuedOperation,
+  applyQueuedOperations,
+  createLocalEntryId,
+  enqueueOperation,
+  getQueuedOperations,
+  isLocalEntryId,
+  isNetworkError,
+  isOffline,
+  removeOperation,
+  replaceOperation
+} from '../lib/offlineQueue';
 
 /**
  * Interface for journal entry data
@@ -16,8 +32,17 @@ interface JournalEntry {
   photo_url: string | null;
   photo_filename: string | null;
   title: string | null;
+  tags?: string[];
+  primary_emotion?: Emotion | null;
+  secondary_emotions?: Emotion[];
+  emotion_intensity?: number | null;
+  emotion_triggers?: string[];
+  prompt?: string | null;
+  prompt_category?: PromptCategory | null;
+  is_encrypted?: boolean;
   created_at: string;
   updated_at: string;
+  pending_sync?: boolean;
 }
 
 /**
@@ -27,8 +52,25 @@ interface JournalEntry {
 interface AddEntryResult {
   success: boolean;
   error?: string;
+  queued?: boolean;
+  entryId?: string;
 }
 
+/**
+ * Number of entries fetched per page
+ */
+const ENTRIES_PAGE_SIZE = 30;
+
+/**
+ * Columns the app reads from `journal_entries` (the search vector is left on the server)
+ */
+const ENTRY_COLUMNS = 'id, user_id, content, mood, photo_url, photo_filename, title, tags, primary_emotion, secondary_emotions, emotion_intensity, emotion_triggers, prompt, prompt_category, is_encrypted, created_at, updated_at';
+
+/**
+ * Fields written to a journal entry row
+ */
+type EntryFields = Record<string, string | string[] | boolean | null>;
+
 /**
  * Custom hook for managing journal entries CRUD operations
  * 
@@ -40,62 +82,529 @@ interface AddEntryResult {
  *   loadEntries,
  *   addEntry, 
  *   updateEntry,
- *   deleteEntry
+ *   deleteEntry,
+ *   loadMoreEntries,
+ *   hasMoreEntries,
+ *   pendingSyncCount
  * } = useJournalEntries();
  */
 export function useJournalEntries() {
   const { user, isAuthenticated } = useAuth();
+  const { isVaultEnabled, isVaultKnown, isUnlocked, encrypt } = useVault();
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [hasMoreEntries, setHasMoreEntries] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [totalEntryCount, setTotalEntryCount] = useState<number | null>(null);
+  const isSyncingRef = useRef(false);
+  const isLoadingMoreRef = useRef(false);
+
+  /**
+   * Prepare entry text for storage, encrypting it in the browser when the vault is enabled.
+   * This runs before anything leaves the device, including the offline queue.
+   * 
+   * @param {string} content - Entry content
+   * @param {string|null} title - Entry title
+   * @returns {Promise<{content: string, title: string|null, is_encrypted: boolean}>} Text to store
+   */
+  const sealEntryText = async (content: string, title: string | null) => {
+    const trimmedTitle = title?.trim() || null;
+
+    if (!isVaultEnabled) {
+      return { content: content.trim(), title: trimmedTitle, is_encrypted: false };
+    }
+
+    return {
+      content: await encrypt(content.trim()),
+      title: trimmedTitle ? await encrypt(trimmedTitle) : null,
+      is_encrypted: true
+    };
+  };
+
+  /**
+   * Error returned when the vault is enabled but has not been unlocked this session
+   */
+  const vaultLockedResult: AddEntryResult = {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.VAULT_LOCKED,
+      'Your journal is encrypted. Unlock your vault in Settings to save entries.'
+    ))
+  };
+
+  /**
+   * Error returned while it isn't known whether the vault is on, so nothing is saved as plain text by mistake
+   */
+  const vaultUnknownResult: AddEntryResult = {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.VAULT_UNKNOWN,
+      'Couldn\'t check whether your journal is encrypted. Please check your connection and try again.'
+    ))
+  };
+
+  /**
+   * Read queued offline operations for the current user
+   * 
+   * @returns {Promise<QueuedOperation[]>} Queued operations, empty if the queue is unavailable
+   */
+  const readQueue = useCallback(async (): Promise<QueuedOperation[]> => {
+    if (!user) return [];
+
+    try {
+      const operations = await getQueuedOperations(user.id);
+      setPendingSyncCount(operations.length);
+      return operations;
+    } catch (err) {
+      console.warn('Offline queue unavailable:', err);
+      return [];
+    }
+  }, [user]);
+
+  /**
+   * Store a write in the offline queue and apply it to local state
+   * 
+   * @param {Omit<QueuedOperation, 'userId' | 'createdAt'>} operation - Write to queue
+   * @returns {Promise<AddEntryResult>} Result object
+   */
+  const queueOfflineWrite = async (
+    operation: Omit<QueuedOperation, 'userId' | 'createdAt'>
+  ): Promise<AddEntryResult> => {
+    if (!user) return { success: false };
+
+    const queuedOperation: QueuedOperation = {
+      ...operation,
+      userId: user.id,
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      // Further changes to an entry that already has a pending write are folded into it,
+      // so edits keep the server version they were originally based on
+      const pending = operation.type === 'insert'
+        ? undefined
+        : (await getQueuedOperations(user.id))
+            .filter(op => op.entryId === operation.entryId && op.type !== 'delete')
+            .pop();
+
+      if (pending?.id !== undefined && operation.type === 'delete') {
+        await removeOperation(pending.id);
+        if (pending.type === 'update') {
+          await enqueueOperation(queuedOperation);
+        }
+      } else if (pending?.id !== undefined && operation.payload) {
+        const { photo, photoName, removePhoto } = operation.payload;
+        await replaceOperation({
+          ...pending,
+          payload: {
+            content: operation.payload.content,
+            title: operation.payload.title,
+            isEncrypted: operation.payload.isEncrypted,
+            mood: operation.payload.mood,
+            tags: operation.payload.tags ?? pending.payload?.tags,
+            photo: photo ?? (removePhoto ? null : pending.payload?.photo ?? null),
+            photoName: photoName ?? (removePhoto ? null : pending.payload?.photoName ?? null),
+            ...(pending.type === 'update'
+              ? { removePhoto: !photo && Boolean(removePhoto || pending.payload?.removePhoto) }
+              : {})
+          }
+        });
+      } else {
+        await enqueueOperation(queuedOperation);
+      }
+
+      setEntries(prev => applyQueuedOperations(prev, [queuedOperation]));
+      if (operation.type !== 'update') {
+        setTotalEntryCount(prev => prev === null ? prev : Math.max(prev + (operation.type === 'insert' ? 1 : -1), 0));
+      }
+      await readQueue();
+
+      return { success: true, queued: true };
+    } catch (err) {
+      console.error('Error queueing offline change:', err);
+      return { 
+        success: false, 
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.NETWORK_OFFLINE,
+          'You appear to be offline and your changes could not be saved on this device.',
+          undefined,
+          err
+        ))
+      };
+    }
+  };
+
+  /**
+   * Handle an offline edit whose entry changed on the server in the meantime.
+   * The server version is kept and the offline version is saved as a new entry
+   * so neither device's writing is lost.
+   * 
+   * @param {QueuedOperation} operation - Conflicting update
+   * @param {EntryFields} updateData - Fields from the offline edit
+   * @returns {Promise<void>}
+   */
+  const resolveEditConflict = useCallback(async (
+    operation: QueuedOperation,
+    updateData: EntryFields
+  ) => {
+    if (!user) return;
+
+    const { data: serverEntry } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('id', operation.entryId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    // Entry was deleted on another device, so the offline edit has nothing to apply to
+    if (!serverEntry) {
+      setEntries(prev => prev.filter(entry => entry.id !== operation.entryId));
+      return;
+    }
+
+    console.warn('Offline edit conflicts with a newer server version, saving as a copy');
+
+    // Queued edits don't carry emotions or a prompt unless they were folded into an offline insert
+    const emotionColumns = operation.emotions
+      ? getEmotionColumns(operation.emotions)
+      : {
+          primary_emotion: serverEntry.primary_emotion,
+          secondary_emotions: serverEntry.secondary_emotions,
+          emotion_intensity: serverEntry.emotion_intensity,
+          emotion_triggers: serverEntry.emotion_triggers
+        };
+    const promptColumns = operation.prompt
+      ? getPromptColumns(operation.prompt)
+      : { prompt: serverEntry.prompt, prompt_category: serverEntry.prompt_category };
+
+    const { data: copy, error: copyError } = await supabase
+      .from('journal_entries')
+      .insert({
+        user_id: user.id,
+        content: updateData.content,
+        // Encrypted titles can't be annotated without the key, so they are copied as-is
+        title: updateData.is_encrypted
+          ? updateData.title
+          : `${updateData.title || 'Untitled'} (offline copy)`,
+        mood: updateData.mood,
+        tags: updateData.tags ?? serverEntry.tags,
+        ...emotionColumns,
+        ...promptColumns,
+        is_encrypted: updateData.is_encrypted ?? false,
+        photo_url: updateData.photo_url ?? serverEntry.photo_url,
+        photo_filename: updateData.photo_filename ?? serverEntry.photo_filename
+      })
+      .select()
+      .single();
+
+    if (copyError) throw copyError;
+
+    setEntries(prev => [
+      copy,
+      ...prev.map(entry => entry.id === operation.entryId ? serverEntry : entry)
+    ]);
+  }, [user]);
+
+  /**
+   * Undo the local effect of a queued change the server refused, and tell the user.
+   * Entries are put back the way the server has them.
+   * 
+   * @param {QueuedOperation} operation - Rejected operation
+   * @returns {Promise<void>}
+   */
+  const discardRejectedOperation = useCallback(async (operation: QueuedOperation) => {
+    if (!user) return;
+
+    if (operation.type === 'insert') {
+      setEntries(prev => prev.filter(entry => entry.id !== operation.entryId));
+      setTotalEntryCount(prev => prev === null ? prev : Math.max(prev - 1, 0));
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.JOURNAL_SAVE_FAILED,
+        'An entry written offline couldn\'t be saved.'
+      )));
+      return;
+    }
+
+    setError(getUserFriendlyErrorMessage(createAppError(
+      operation.type === 'update' ? ErrorCode.JOURNAL_UPDATE_FAILED : ErrorCode.JOURNAL_DELETE_FAILED,
+      operation.type === 'update'
+        ? 'Changes made offline couldn\'t be saved.'
+        : 'An entry deleted offline couldn\'t be deleted.'
+    )));
+
+    try {
+      const { data: serverEntry, error: fetchError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_COLUMNS)
+        .eq('id', operation.entryId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      if (!serverEntry) {
+        setEntries(prev => prev.filter(entry => entry.id !== operation.entryId));
+      } else if (operation.type === 'update') {
+        setEntries(prev => prev.map(entry => entry.id === operation.entryId ? serverEntry : entry));
+      } else {
+        setEntries(prev => [...prev, serverEntry].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+        setTotalEntryCount(prev => prev === null ? prev : prev + 1);
+      }
+    } catch (err) {
+      console.error('Error restoring entry after a rejected change:', err);
+    }
+  }, [user]);
+
+  /**
+   * Replay queued offline operations in order
+   * 
+   * Stops at the first network failure so the remaining operations keep their order.
+   * Edits are only applied if the entry has not changed on the server since it was
+   * edited offline; otherwise the offline version is saved as a separate copy.
+   * 
+   * @returns {Promise<void>}
+   */
+  const syncPendingOperations = useCallback(async () => {
+    if (!user || isSyncingRef.current || isOffline()) return;
+
+    const operations = await readQueue();
+    if (operations.length === 0) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      for (const operation of operations) {
+        try {
+          if (operation.type === 'insert' && operation.payload) {
+            const photo = operation.payload.photo
+              ? await uploadPhoto(user.id, operation.payload.photo, operation.payload.photoName)
+              : { photoUrl: null, photoFilename: null };
+
+            const { data, error: insertError } = await supabase
+              .from('journal_entries')
+              .insert({
+                user_id: user.id,
+                content: operation.payload.content,
+                title: operation.payload.title,
+                mood: operation.payload.mood,
+                tags: operation.payload.tags ?? [],
+                ...getEmotionColumns(operation.emotions),
+                ...getPromptColumns(operation.prompt),
+                is_encrypted: operation.payload.isEncrypted ?? false,
+                photo_url: photo.photoUrl,
+                photo_filename: photo.photoFilename
+              })
+              .select()
+              .single();
+
+            if (insertError) throw insertError;
+
+            setEntries(prev => prev.map(entry => entry.id === operation.entryId ? data : entry));
+          } else if (operation.type === 'update' && operation.payload) {
+            const { photo, photoName, removePhoto, isEncrypted, ...fields } = operation.payload;
+            const updateData: EntryFields = {
+              ...fields,
+              is_encrypted: isEncrypted ?? false,
+              updated_at: new Date().toISOString()
+            };
+
+            if (photo) {
+              const uploaded = await uploadPhoto(user.id, photo, photoName);
+              updateData.photo_url = uploaded.photoUrl;
+              updateData.photo_filename = uploaded.photoFilename;
+            } else if (removePhoto) {
+              updateData.photo_url = null;
+              updateData.photo_filename = null;
+            }
+
+            let query = supabase
+              .from('journal_entries')
+              .update(updateData)
+              .eq('id', operation.entryId)
+              .eq('user_id', user.id);
+
+            if (operation.baseUpdatedAt) {
+              query = query.eq('updated_at', operation.baseUpdatedAt);
+            }
+
+            const { data, error: updateError } = await query.select();
+
+            if (updateError) throw updateError;
+
+            if (data && data.length > 0) {
+              setEntries(prev => prev.map(entry => entry.id === operation.entryId ? data[0] : entry));
+            } else {
+              await resolveEditConflict(operation, updateData);
+            }
+          } else if (operation.type === 'delete') {
+            const { error: deleteError } = await supabase
+              .from('journal_entries')
+              .delete()
+              .eq('id', operation.entryId)
+              .eq('user_id', user.id);
+
+            if (deleteError) throw deleteError;
+
+            if (operation.photoUrl) {
+              const fileName = operation.photoUrl.split('/').pop();
+              if (fileName) {
+                await supabase.storage
+                  .from('journal-photos')
+                  .remove([`${user.id}/${fileName}`]);
+              }
+            }
+          }
+        } catch (err) {
+          if (isNetworkError(err)) {
+            console.warn('Connection lost while syncing, will retry later:', err);
+            break;
+          }
+          // The server rejected this change; drop it so it doesn't block the rest of the queue
+          console.error('Error syncing offline change:', err);
+          await discardRejectedOperation(operation);
+        }
+
+        if (operation.id !== undefined) {
+          await removeOperation(operation.id);
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      await readQueue();
+    }
+  }, [user, readQueue, resolveEditConflict, discardRejectedOperation]);
 
   /**
-   * Load journal entries from Supabase
+   * Replay the offline queue on load and whenever connectivity returns
+   */
+  useEffect(() => {
+    if (!user) return;
+
+    syncPendingOperations();
+
+    window.addEventListener('online', syncPendingOperations);
+    return () => {
+      window.removeEventListener('online', syncPendingOperations);
+    };
+  }, [user, syncPendingOperations]);
+
+  /**
+   * Load the first page of journal entries from Supabase
+   * 
+   * Entries are paged newest first with a keyset cursor on `(created_at, id)`,
+   * so later pages stay fast however long the journal gets.
    * 
    * @param {boolean} isPremium - Whether the user has premium access
    * @returns {Promise<void>}
    */
-  const loadEntries = async (isPremium: boolean) => {
+  const loadEntries = useCallback(async (isPremium: boolean) => {
     if (!user) return;
 
     try {
       setIsLoading(true);
       setError(null);
 
-      // Load recent journal entries
-      // For free users, limit to 30 days or 30 entries
       let query = supabase
         .from('journal_entries')
-        .select('*')
+        .select(ENTRY_COLUMNS, { count: 'exact' })
         .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(ENTRIES_PAGE_SIZE);
       
       if (!isPremium) {
-        // Get entries from the last 30 days or the most recent 30 entries
+        // Free users can access entries from the last 30 days, up to the most recent 30
         const thirtyDaysAgo = new Date();
         thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
         
-        query = query
-          .gt('created_at', thirtyDaysAgo.toISOString())
-          .limit(30);
+        query = query.gt('created_at', thirtyDaysAgo.toISOString());
       }
 
-      const { data: entriesData, error: entriesError } = await query;
+      const { data: entriesData, error: entriesError, count } = await query;
+      const queuedOperations = await readQueue();
 
       if (entriesError) {
+        if (isNetworkError(entriesError)) {
+          // Keep what we already have and layer offline changes on top
+          setEntries(prev => applyQueuedOperations(prev, queuedOperations));
+          setError(getUserFriendlyErrorMessage(createAppError(
+            ErrorCode.NETWORK_OFFLINE,
+            'You are offline. Showing entries saved on this device.'
+          )));
+          return;
+        }
+
         console.error('Error loading entries:', entriesError);
         setError('Failed to load journal entries');
         return;
       }
 
-      setEntries(entriesData || []);
+      const loadedEntries = entriesData || [];
+      setEntries(applyQueuedOperations(loadedEntries, queuedOperations));
+      setHasMoreEntries(isPremium && loadedEntries.length === ENTRIES_PAGE_SIZE);
+      setTotalEntryCount(isPremium ? count : Math.min(count ?? 0, ENTRIES_PAGE_SIZE));
     } catch (err) {
       console.error('Error loading entries:', err);
       setError('An unexpected error occurred while loading entries');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [user, readQueue]);
+
+  /**
+   * Load the next page of older entries after the oldest one already loaded
+   * 
+   * @returns {Promise<void>}
+   */
+  const loadMoreEntries = useCallback(async () => {
+    if (!user || !hasMoreEntries || isLoadingMoreRef.current) return;
+
+    // Entries created offline aren't on the server yet, so they can't be a cursor
+    const cursor = entries.filter(entry => !isLocalEntryId(entry.id)).pop();
+    if (!cursor) return;
+
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const { data: pageData, error: pageError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_COLUMNS)
+        .eq('user_id', user.id)
+        .or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(ENTRIES_PAGE_SIZE);
+
+      if (pageError) {
+        if (!isNetworkError(pageError)) {
+          console.error('Error loading more entries:', pageError);
+        }
+        return;
+      }
+
+      const page = pageData || [];
+      // Queued inserts are already at the top of the list; only edits and deletes apply to older pages
+      const queuedOperations = (await readQueue()).filter(op => op.type !== 'insert');
+      const pageEntries = applyQueuedOperations(page, queuedOperations);
+
+      setEntries(prev => {
+        const loadedIds = new Set(prev.map(entry => entry.id));
+        return [...prev, ...pageEntries.filter(entry => !loadedIds.has(entry.id))];
+      });
+      setHasMoreEntries(page.length === ENTRIES_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more entries:', err);
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [user, hasMoreEntries, entries, readQueue]);
 
   /**
    * Add a new journal entry
@@ -104,13 +613,19 @@ export function useJournalEntries() {
    * @param {string|null} title - Optional entry title
    * @param {MoodLevel} mood - Selected mood level
    * @param {File} [photoFile] - Optional photo attachment
+   * @param {string[]} [tags] - Tags for the entry
+   * @param {EmotionAnalysis|null} [emotions] - Emotions `analyze-mood` found in the entry
+   * @param {EntryPrompt|null} [prompt] - The prompt the entry answers
    * @returns {Promise<AddEntryResult>} Result object
    */
   const addEntry = async (
     content: string, 
     title: string | null,
     mood: MoodLevel, 
-    photoFile?: File
+    photoFile?: File,
+    tags: string[] = [],
+    emotions: EmotionAnalysis | null = null,
+    prompt: EntryPrompt | null = null
   ): Promise<AddEntryResult> => {
     if (!user || !isAuthenticated) {
       return { 
@@ -132,12 +647,42 @@ export function useJournalEntries() {
       };
     }
 
+    if (!isVaultKnown) {
+      return vaultUnknownResult;
+    }
+
+    if (isVaultEnabled && !isUnlocked) {
+      return vaultLockedResult;
+    }
+
+    // Convert mood level to string
+    const moodString = getMoodString(mood);
+    const sealed = await sealEntryText(content, title);
+    const entryTags = normalizeTags(tags);
+
+    const queueInsert = () => queueOfflineWrite({
+      type: 'insert',
+      entryId: createLocalEntryId(),
+      payload: {
+        content: sealed.content,
+        title: sealed.title,
+        isEncrypted: sealed.is_encrypted,
+        mood: moodString,
+        tags: entryTags,
+        photo: photoFile ?? null,
+        photoName: photoFile?.name ?? null
+      },
+      emotions,
+      prompt
+    });
+
+    if (isOffline()) {
+      return queueInsert();
+    }
+
     try {
       setError(null);
 
-      // Convert mood level to string
-      const moodString = getMoodString(mood);
-      
       let photoUrl: string | null = null;
       let photoFilename: string | null = null;
 
@@ -158,6 +703,9 @@ export function useJournalEntries() {
             });
 
           if (uploadError) {
+            if (isNetworkError(uploadError)) {
+              return queueInsert();
+            }
             console.error('Photo upload error:', uploadError);
             return { 
               success: false, 
@@ -177,6 +725,9 @@ export function useJournalEntries() {
           photoUrl = urlData.publicUrl;
           photoFilename = photoFile.name;
         } catch (photoError) {
+          if (isNetworkError(photoError)) {
+            return queueInsert();
+          }
           console.error('Photo processing error:', photoError);
           return { 
             success: false, 
@@ -195,9 +746,11 @@ export function useJournalEntries() {
         .from('journal_entries')
         .insert({
           user_id: user.id,
-          content: content.trim(),
-          title: title?.trim() || null,
+          ...sealed,
           mood: moodString,
+          tags: entryTags,
+          ...getEmotionColumns(emotions),
+          ...getPromptColumns(prompt),
           photo_url: photoUrl,
           photo_filename: photoFilename
         })
@@ -205,6 +758,9 @@ export function useJournalEntries() {
         .single();
 
       if (entryError) {
+        if (isNetworkError(entryError)) {
+          return queueInsert();
+        }
         console.error('Error saving entry:', entryError);
         return { 
           success: false, 
@@ -218,9 +774,13 @@ export function useJournalEntries() {
 
       // Update local state
       setEntries(prev => [entryData, ...prev]);
+      setTotalEntryCount(prev => prev === null ? prev : prev + 1);
 
-      return { success: true };
+      return { success: true, entryId: entryData.id };
     } catch (err) {
+      if (isNetworkError(err)) {
+        return queueInsert();
+      }
       console.error('Error adding entry:', err);
       return { 
         success: false, 
@@ -243,6 +803,7 @@ export function useJournalEntries() {
    * @param {MoodLevel} mood - Updated mood
    * @param {File} [photoFile] - New photo (optional)
    * @param {boolean} [removePhoto] - Whether to remove existing photo
+   * @param {string[]} [tags] - Updated tags (existing tags are kept if omitted)
    * @returns {Promise<AddEntryResult>} Result object
    */
   const updateEntry = async (
@@ -251,7 +812,8 @@ export function useJournalEntries() {
     title: string | null,
     mood: MoodLevel, 
     photoFile?: File,
-    removePhoto?: boolean
+    removePhoto?: boolean,
+    tags?: string[]
   ): Promise<AddEntryResult> => {
     if (!user || !isAuthenticated) {
       return { 
@@ -273,18 +835,48 @@ export function useJournalEntries() {
       };
     }
 
+    if (!isVaultKnown) {
+      return vaultUnknownResult;
+    }
+
+    if (isVaultEnabled && !isUnlocked) {
+      return vaultLockedResult;
+    }
+
+    // Convert mood level to string
+    const moodString = getMoodString(mood);
+    const sealed = await sealEntryText(content, title);
+
+    // Get current entry to check for existing photo
+    const currentEntry = entries.find(e => e.id === entryId);
+    const entryTags = tags ? normalizeTags(tags) : currentEntry?.tags ?? [];
+
+    const queueUpdate = () => queueOfflineWrite({
+      type: 'update',
+      entryId,
+      baseUpdatedAt: currentEntry?.updated_at ?? null,
+      payload: {
+        content: sealed.content,
+        title: sealed.title,
+        isEncrypted: sealed.is_encrypted,
+        mood: moodString,
+        tags: entryTags,
+        photo: photoFile ?? null,
+        photoName: photoFile?.name ?? null,
+        removePhoto: removePhoto && !photoFile
+      }
+    });
+
+    if (isOffline() || isLocalEntryId(entryId)) {
+      return queueUpdate();
+    }
+
     try {
       setError(null);
 
-      // Convert mood level to string
-      const moodString = getMoodString(mood);
-      
       let photoUrl: string | null = null;
       let photoFilename: string | null = null;
       
-      // Get current entry to check for existing photo
-      const currentEntry = entries.find(e => e.id === entryId);
-      
       if (removePhoto && currentEntry?.photo_url) {
         // Delete existing photo from storage
         try {
@@ -364,15 +956,15 @@ export function useJournalEntries() {
       const updateData: {
         content: string;
         title: string | null;
+        is_encrypted: boolean;
         mood: string;
-        updated_at: string;
+        tags: string[];
         photo_url?: string | null;
         photo_filename?: string | null;
       } = {
-        content: content.trim(),
-        title: title?.trim() || null,
+        ...sealed,
         mood: moodString,
-        updated_at: new Date().toISOString()
+        tags: entryTags
       };
       
       // Only update photo fields if they were explicitly changed
@@ -381,14 +973,20 @@ export function useJournalEntries() {
         updateData.photo_filename = photoFilename;
       }
 
-      // Update journal entry
-      const { error: updateError } = await supabase
+      // Update journal entry. The server sets updated_at, and later offline edits
+      // are based on it, so the saved row replaces the local one.
+      const { data: updatedEntry, error: updateError } = await supabase
         .from('journal_entries')
         .update(updateData)
         .eq('id', entryId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select(ENTRY_COLUMNS)
+        .single();
 
       if (updateError) {
+        if (isNetworkError(updateError)) {
+          return queueUpdate();
+        }
         console.error('Error updating entry:', updateError);
         return { 
           success: false, 
@@ -401,21 +999,13 @@ export function useJournalEntries() {
       }
 
       // Update local state
-      setEntries(prev => prev.map(entry => 
-        entry.id === entryId 
-          ? { 
-              ...entry, 
-              content: content.trim(), 
-              title: title?.trim() || null,
-              mood: moodString, 
-              updated_at: new Date().toISOString(),
-              ...(removePhoto || photoFile ? { photo_url: photoUrl, photo_filename: photoFilename } : {})
-            }
-          : entry
-      ));
+      setEntries(prev => prev.map(entry => entry.id === entryId ? updatedEntry : entry));
 
       return { success: true };
     } catch (err) {
+      if (isNetworkError(err)) {
+        return queueUpdate();
+      }
       console.error('Error updating entry:', err);
       return { 
         success: false, 
@@ -445,12 +1035,22 @@ export function useJournalEntries() {
       };
     }
 
+    // Get entry to check for photo
+    const entryToDelete = entries.find(e => e.id === entryId);
+
+    const queueDelete = () => queueOfflineWrite({
+      type: 'delete',
+      entryId,
+      photoUrl: entryToDelete?.photo_url ?? null
+    });
+
+    if (isOffline() || isLocalEntryId(entryId)) {
+      return queueDelete();
+    }
+
     try {
       setError(null);
       
-      // Get entry to check for photo
-      const entryToDelete = entries.find(e => e.id === entryId);
-      
       // Delete photo from storage if exists
       if (entryToDelete?.photo_url) {
         try {
@@ -474,6 +1074,9 @@ export function useJournalEntries() {
         .eq('user_id', user.id);
 
       if (deleteError) {
+        if (isNetworkError(deleteError)) {
+          return queueDelete();
+        }
         console.error('Error deleting entry:', deleteError);
         return { 
           success: false, 
@@ -487,9 +1090,13 @@ export function useJournalEntries() {
 
       // Update local state
       setEntries(prev => prev.filter(entry => entry.id !== entryId));
+      setTotalEntryCount(prev => prev === null ? prev : Math.max(prev - 1, 0));
 
       return { success: true };
     } catch (err) {
+      if (isNetworkError(err)) {
+        return queueDelete();
+      }
       console.error('Error deleting entry:', err);
       return { 
         success: false, 
@@ -509,10 +1116,50 @@ export function useJournalEntries() {
     loadEntries,
     addEntry,
     updateEntry,
-    deleteEntry
+    deleteEntry,
+    loadMoreEntries,
+    hasMoreEntries,
+    isLoadingMore,
+    totalEntryCount,
+    pendingSyncCount,
+    isSyncing,
+    syncPendingOperations
   };
 }
 
+/**
+ * Upload a photo to the journal photos bucket
+ * 
+ * @param {string} userId - Owner of the photo
+ * @param {Blob} photo - Photo data
+ * @param {string|null} [photoName] - Original file name
+ * @returns {Promise<{photoUrl: string, photoFilename: string|null}>} Public URL and original name
+ */
+async function uploadPhoto(
+  userId: string,
+  photo: Blob,
+  photoName?: string | null
+): Promise<{ photoUrl: string; photoFilename: string | null }> {
+  const timestamp = Date.now();
+  const fileExt = photoName?.split('.').pop()?.toLowerCase() || photo.type.split('/').pop() || 'jpg';
+  const fileName = `${userId}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('journal-photos')
+    .upload(fileName, photo, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = supabase.storage
+    .from('journal-photos')
+    .getPublicUrl(fileName);
+
+  return { photoUrl: urlData.publicUrl, photoFilename: photoName ?? null };
+}
+
 /**
  * Helper function to convert mood level to descriptive string
  * 
@@ -0,0 +1,227 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useVault } from './useVault';
+import { MoodLevel } from '../types';
+import {
+  ExistingEntry,
+  ImportedEntry,
+  parseImportFile,
+  splitDuplicates
+} from '../utils/journalImport';
+
+/** Rows per insert request */
+const IMPORT_BATCH_SIZE = 100;
+
+/** PostgREST returns at most this many rows per request */
+const PAGE_SIZE = 1000;
+
+const MOOD_NAMES: Record<MoodLevel, string> = {
+  1: 'struggling',
+  2: 'low',
+  3: 'neutral',
+  4: 'good',
+  5: 'amazing'
+};
+
+/**
+ * What an import will do, shown to the user before anything is saved
+ * @interface ImportPreview
+ */
+export interface ImportPreview {
+  /** Entries that will be added, oldest first */
+  entries: ImportedEntry[];
+  /** Entries already in the journal that will be skipped */
+  duplicateCount: number;
+  errors: string[];
+}
+
+/**
+ * Custom hook for importing entries from Day One, Daylio and Markdown exports
+ *
+ * Files are parsed in the browser and checked against existing entries so the
+ * user can review the import first. Imported entries keep their original dates
+ * and don't affect streaks.
+ *
+ * @returns {Object} Import state and methods
+ *
+ * @example
+ * const {
+ *   preview,
+ *   isParsing,
+ *   isImporting,
+ *   importedCount,
+ *   previewFiles,
+ *   importEntries,
+ *   reset
+ * } = useJournalImport();
+ */
+export function useJournalImport() {
+  const { user } = useAuth();
+  const { isVaultEnabled, isVaultKnown, isUnlocked, encrypt, decrypt } = useVault();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+
+  /**
+   * Load saved entries written in the time span of an import, for de-duplication
+   */
+  const loadExistingEntries = useCallback(async (from: string, to: string): Promise<ExistingEntry[]> => {
+    if (!user) return [];
+
+    const existing: ExistingEntry[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('journal_entries')
+        .select('created_at, content, is_encrypted, import_key')
+        .eq('user_id', user.id)
+        .gte('created_at', from)
+        .lte('created_at', to)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const entry of data || []) {
+        // Vault entries can only be compared by text once unlocked
+        const content = entry.is_encrypted
+          ? (isUnlocked ? await decrypt(entry.content).catch(() => '') : '')
+          : entry.content;
+        existing.push({ created_at: entry.created_at, content, import_key: entry.import_key });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return existing;
+  }, [user, isUnlocked, decrypt]);
+
+  /**
+   * Parse export files and build a preview of what would be imported
+   *
+   * @param {File[]} files - Files chosen by the user
+   * @param {string} timeZone - Timezone for apps that export local times
+   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   */
+  const previewFiles = useCallback(async (
+    files: File[],
+    timeZone: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!user) return { success: false, error: 'You must be logged in to import entries' };
+
+    try {
+      setIsParsing(true);
+
+      const parsed: ImportedEntry[] = [];
+      const errors: string[] = [];
+
+      for (const file of files) {
+        const result = parseImportFile(file.name, await file.text(), timeZone);
+        parsed.push(...result.entries);
+        errors.push(...result.errors);
+      }
+
+      parsed.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      // Duplicates are matched to the minute, so look a minute either side
+      const existing = parsed.length > 0
+        ? await loadExistingEntries(
+            new Date(Date.parse(parsed[0].createdAt) - 60 * 1000).toISOString(),
+            new Date(Date.parse(parsed[parsed.length - 1].createdAt) + 60 * 1000).toISOString()
+          )
+        : [];
+      const { newEntries, duplicates } = splitDuplicates(parsed, existing);
+
+      setPreview({ entries: newEntries, duplicateCount: duplicates.length, errors });
+      return { success: true };
+    } catch (err) {
+      console.error('Error reading import files:', err);
+      return { success: false, error: 'Failed to read these files. Please try again.' };
+    } finally {
+      setIsParsing(false);
+    }
+  }, [user, loadExistingEntries]);
+
+  /**
+   * Save the previewed entries in batches
+   *
+   * @returns {Promise<{success: boolean, imported?: number, error?: string}>} Result object
+   */
+  const importEntries = useCallback(async (): Promise<{ success: boolean; imported?: number; error?: string }> => {
+    if (!user || !preview) return { success: false, error: 'Nothing to import' };
+
+    if (!isVaultKnown) {
+      return { success: false, error: 'Couldn\'t check whether your journal is encrypted. Please check your connection and try again.' };
+    }
+
+    if (isVaultEnabled && !isUnlocked) {
+      return { success: false, error: 'Unlock your vault to import entries.' };
+    }
+
+    try {
+      setIsImporting(true);
+      setImportedCount(0);
+
+      let imported = 0;
+
+      for (let start = 0; start < preview.entries.length; start += IMPORT_BATCH_SIZE) {
+        const batch = await Promise.all(preview.entries.slice(start, start + IMPORT_BATCH_SIZE).map(async entry => ({
+          user_id: user.id,
+          content: isVaultEnabled ? await encrypt(entry.content) : entry.content,
+          title: entry.title && isVaultEnabled ? await encrypt(entry.title) : entry.title,
+          is_encrypted: isVaultEnabled,
+          mood: MOOD_NAMES[entry.mood],
+          tags: entry.tags,
+          created_at: entry.createdAt,
+          import_source: entry.source,
+          import_key: entry.importKey
+        })));
+
+        // Entries imported before (e.g. the same file twice) are left as they are
+        const { error } = await supabase
+          .from('journal_entries')
+          .upsert(batch, { onConflict: 'user_id,import_key', ignoreDuplicates: true });
+
+        if (error) {
+          console.error('Error importing entries:', error);
+          return {
+            success: false,
+            imported,
+            error: `Imported ${imported} of ${preview.entries.length} entries before an error. Importing again will pick up where it stopped.`
+          };
+        }
+
+        imported += batch.length;
+        setImportedCount(imported);
+      }
+
+      setPreview(null);
+      return { success: true, imported };
+    } catch (err) {
+      console.error('Error importing entries:', err);
+      return { success: false, error: 'An unexpected error occurred during import.' };
+    } finally {
+      setIsImporting(false);
+    }
+  }, [user, preview, isVaultEnabled, isVaultKnown, isUnlocked, encrypt]);
+
+  /**
+   * Discard the current preview
+   */
+  const reset = useCallback(() => {
+    setPreview(null);
+    setImportedCount(0);
+  }, []);
+
+  return {
+    preview,
+    isParsing,
+    isImporting,
+    importedCount,
+    previewFiles,
+    importEntries,
+    reset
+  };
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { isNetworkError } from '../lib/offlineQueue';
+import { Emotion } from '../types';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_RESULT_LIMIT = 50;
+
+/**
+ * Interface for a ranked search result
+ * @interface JournalSearchResult
+ */
+export interface JournalSearchResult {
+  id: string;
+  user_id: string;
+  title: string | null;
+  content: string;
+  mood: string;
+  tags: string[];
+  primary_emotion: Emotion | null;
+  secondary_emotions: Emotion[];
+  emotion_intensity: number | null;
+  emotion_triggers: string[];
+  photo_url: string | null;
+  photo_filename: string | null;
+  is_encrypted: boolean;
+  created_at: string;
+  updated_at: string;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Custom hook for server-side full-text search over the user's whole journal
+ *
+ * Searches are debounced and run against `search_journal_entries`, which supports
+ * "exact phrases", -excluded words and OR.
+ *
+ * @param {string} query - Search text as typed by the user
+ * @returns {Object} Search results and state
+ *
+ * @example
+ * const {
+ *   results,
+ *   isSearching,
+ *   error
+ * } = useJournalSearch(searchTerm);
+ */
+export function useJournalSearch(query: string) {
+  const { user } = useAuth();
+  const [results, setResults] = useState<JournalSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestQueryRef = useRef('');
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    latestQueryRef.current = trimmedQuery;
+
+    if (!user || !trimmedQuery) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    setIsSearching(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const { data, error: searchError } = await supabase
+          .rpc('search_journal_entries', {
+            user_uuid: user.id,
+            search_query: trimmedQuery,
+            result_limit: SEARCH_RESULT_LIMIT
+          });
+
+        // Ignore responses for queries the user has already typed past
+        if (latestQueryRef.current !== trimmedQuery) return;
+
+        if (searchError) {
+          console.error('Error searching entries:', searchError);
+          setResults([]);
+          setError(getUserFriendlyErrorMessage(createAppError(
+            isNetworkError(searchError) ? ErrorCode.NETWORK_OFFLINE : ErrorCode.UNKNOWN_ERROR,
+            isNetworkError(searchError)
+              ? 'Search needs a connection. Showing matches from entries on this device.'
+              : 'Search is unavailable right now. Showing matches from loaded entries.',
+            { searchError }
+          )));
+          return;
+        }
+
+        setResults(data || []);
+        setError(null);
+      } catch (err) {
+        if (latestQueryRef.current !== trimmedQuery) return;
+        console.error('Error searching entries:', err);
+        setResults([]);
+        setError(getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.UNKNOWN_ERROR,
+          'Search is unavailable right now. Showing matches from loaded entries.',
+          undefined,
+          err
+        )));
+      } finally {
+        if (latestQueryRef.current === trimmedQuery) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [query, user]);
+
+  return {
+    results,
+    isSearching,
+    error
+  };
+}
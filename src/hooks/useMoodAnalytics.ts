@@ -0,0 +1,132 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { isNetworkError } from '../lib/offlineQueue';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { getBrowserTimezone } from '../utils/dates';
+import {
+  AnalyticsRange,
+  ANALYTICS_RANGE_DAYS,
+  MoodTrendRow,
+  MoodPatternRow,
+  EntryLengthRow,
+  aggregateDailyMood,
+  getMoodDistribution,
+  toEntryLengthTrend,
+  buildMoodHeatmap,
+  getStreakHistory
+} from '../utils/analytics';
+
+/**
+ * Custom hook for loading the premium mood analytics for a date range
+ *
+ * Trends, patterns and entry lengths are aggregated by the database in the
+ * user's timezone; this hook only shapes them for the charts.
+ *
+ * @param {AnalyticsRange} range - Date range to analyse
+ * @param {boolean} [enabled=true] - Whether to load analytics (skip for free users)
+ * @returns {Object} Analytics data and loading state
+ *
+ * @example
+ * const {
+ *   moodTrend,
+ *   moodDistribution,
+ *   heatmap,
+ *   lengthTrend,
+ *   streaks,
+ *   isLoading,
+ *   error
+ * } = useMoodAnalytics('30d', isPremium);
+ */
+export function useMoodAnalytics(range: AnalyticsRange, enabled = true) {
+  const { user } = useAuth();
+  const [trendRows, setTrendRows] = useState<MoodTrendRow[]>([]);
+  const [patternRows, setPatternRows] = useState<MoodPatternRow[]>([]);
+  const [lengthRows, setLengthRows] = useState<EntryLengthRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !enabled) {
+      setTrendRows([]);
+      setPatternRows([]);
+      setLengthRows([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const params = {
+      user_uuid: user.id,
+      days_back: ANALYTICS_RANGE_DAYS[range],
+      user_timezone: getBrowserTimezone()
+    };
+
+    const loadAnalytics = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [trendsResult, patternsResult, lengthsResult] = await Promise.all([
+          supabase.rpc('get_mood_trends', params),
+          supabase.rpc('get_mood_patterns', params),
+          supabase.rpc('get_entry_length_trends', params)
+        ]);
+
+        if (cancelled) return;
+
+        const rpcError = trendsResult.error || patternsResult.error || lengthsResult.error;
+        if (rpcError) {
+          console.error('Error loading analytics:', rpcError);
+          setError(getUserFriendlyErrorMessage(createAppError(
+            isNetworkError(rpcError) ? ErrorCode.NETWORK_OFFLINE : ErrorCode.UNKNOWN_ERROR,
+            isNetworkError(rpcError)
+              ? 'Analytics need a connection. Check your network and try again.'
+              : 'Analytics are unavailable right now. Please try again later.',
+            { rpcError }
+          )));
+          return;
+        }
+
+        setTrendRows(trendsResult.data || []);
+        setPatternRows(patternsResult.data || []);
+        setLengthRows(lengthsResult.data || []);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading analytics:', err);
+        setError(getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.UNKNOWN_ERROR,
+          'Analytics are unavailable right now. Please try again later.',
+          undefined,
+          err
+        )));
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadAnalytics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, enabled, range]);
+
+  const moodTrend = useMemo(() => aggregateDailyMood(trendRows), [trendRows]);
+  const moodDistribution = useMemo(() => getMoodDistribution(trendRows), [trendRows]);
+  const heatmap = useMemo(() => buildMoodHeatmap(patternRows), [patternRows]);
+  const lengthTrend = useMemo(() => toEntryLengthTrend(lengthRows), [lengthRows]);
+  const streaks = useMemo(() => getStreakHistory(moodTrend.map(point => point.date)), [moodTrend]);
+
+  return {
+    moodTrend,
+    moodDistribution,
+    heatmap,
+    lengthTrend,
+    streaks,
+    isLoading,
+    error
+  };
+}
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
 import { useAuth } from '../contexts/AuthContext';
+import { useVault } from './useVault';
 import { usePremium } from './usePremium';
-import { MoodLevel } from '../types';
+import { EmotionAnalysis, MoodLevel } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
 
 /**
@@ -12,12 +14,24 @@ import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types
 interface MoodAnalysisResponse {
   success: boolean;
   mood: string;
+  emotions?: EmotionAnalysis;
   confidence?: number;
   analysis?: string;
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
+/**
+ * Interface for what the analyzer found in an entry
+ * @interface MoodAnalysisResult
+ */
+export interface MoodAnalysisResult {
+  mood: MoodLevel;
+  /** Primary and secondary emotions, intensity and triggers; null when only a fallback mood is known */
+  emotions: EmotionAnalysis | null;
+}
+
 /**
  * Custom hook for analyzing mood from journal text
  * 
@@ -31,11 +45,14 @@ interface MoodAnalysisResponse {
  * } = useMoodAnalyzer();
  * 
  * // Analyze mood from text
- * const detectedMood = await analyzeMood("I'm feeling great today!");
+ * const analysis = await analyzeMood("I'm feeling great today!");
+ * // analysis?.mood === 4, analysis?.emotions?.primary === 'joyful'
  */
 export function useMoodAnalyzer() {
   const { user } = useAuth();
   const { isPremium, trackFeatureUsage } = usePremium();
+  const { isVaultEnabled, isVaultKnown } = useVault();
+  const isEntryPrivate = isVaultEnabled || !isVaultKnown;
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dailyUsageCount, setDailyUsageCount] = useState(0);
@@ -44,9 +61,9 @@ export function useMoodAnalyzer() {
    * Analyze mood from journal text
    * 
    * @param {string} journalEntry - Text to analyze
-   * @returns {Promise<MoodLevel|null>} Detected mood level or null on failure
+   * @returns {Promise<MoodAnalysisResult|null>} Detected mood and emotions, or null on failure
    */
-  const analyzeMood = async (journalEntry: string): Promise<MoodLevel | null> => {
+  const analyzeMood = async (journalEntry: string): Promise<MoodAnalysisResult | null> => {
     if (!journalEntry.trim()) {
       const error = createAppError(
         ErrorCode.VALIDATION_ERROR,
@@ -56,11 +73,17 @@ export function useMoodAnalyzer() {
       return null;
     }
 
+    // Entry text never leaves the browser while the encrypted vault is on (or it
+    // isn't known yet whether it is), so callers fall back to the mood the user selected
+    if (isEntryPrivate) {
+      return null;
+    }
+
     setIsAnalyzing(true);
     setError(null);
 
     // Check if free user has reached daily limit
-    if (!isPremium && !trackFeatureUsage('mood-analyzer')) {
+    if (!isPremium && !trackFeatureUsage('mood-analyzer', { showUpsell: false })) {
       const error = createAppError(
         ErrorCode.PREMIUM_DAILY_LIMIT,
         'Daily limit reached. Upgrade to Premium for unlimited mood analysis.',
@@ -80,6 +103,17 @@ export function useMoodAnalyzer() {
       });
 
       if (functionError) {
+        // The server refuses once today's free uses are gone
+        if (await handleLimitError(functionError, { showUpsell: false })) {
+          const error = createAppError(
+            ErrorCode.PREMIUM_DAILY_LIMIT,
+            'Daily limit reached. Upgrade to Premium for unlimited mood analysis.',
+            { feature: 'mood-analyzer' }
+          );
+          setError(getUserFriendlyErrorMessage(error));
+          return null;
+        }
+
         console.error('Mood analysis edge function error:', functionError);
         const error = createAppError(
           ErrorCode.AI_SERVICE_UNAVAILABLE,
@@ -91,6 +125,9 @@ export function useMoodAnalyzer() {
       }
 
       const response: MoodAnalysisResponse = data;
+      if (response.quota) {
+        updateFeatureQuota(response.quota);
+      }
       
       if (!response.success) {
         const error = createAppError(
@@ -100,12 +137,14 @@ export function useMoodAnalyzer() {
         );
         setError(getUserFriendlyErrorMessage(error));
         // Return neutral as fallback
-        return 3;
+        return { mood: 3, emotions: null };
       }
 
       // Convert mood string to MoodLevel
-      const moodLevel = convertMoodStringToLevel(response.mood);
-      return moodLevel;
+      return {
+        mood: convertMoodStringToLevel(response.mood),
+        emotions: response.emotions ?? null
+      };
     } catch (err) {
       console.error('Error calling mood analyzer:', err);
       const error = createAppError(
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
 import { useAuth } from '../contexts/AuthContext';
+import { useVault } from './useVault';
 import { usePremium } from './usePremium';
 import { MoodLevel } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
@@ -15,6 +17,7 @@ interface MoodQuoteResponse {
   attribution?: string;
   generated_by: 'ai' | 'fallback';
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -36,6 +39,8 @@ interface MoodQuoteResponse {
 export function useMoodQuoteGenerator() {
   const { user } = useAuth();
   const { isPremium, trackFeatureUsage } = usePremium();
+  const { isVaultEnabled, isVaultKnown } = useVault();
+  const isEntryPrivate = isVaultEnabled || !isVaultKnown;
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dailyUsageCount, setDailyUsageCount] = useState(0);
@@ -57,7 +62,7 @@ export function useMoodQuoteGenerator() {
     setError(null);
     
     // Check if free user has reached daily limit
-    if (!isPremium && !trackFeatureUsage('mood-quote-generator')) {
+    if (!isPremium && !trackFeatureUsage('mood-quote-generator', { showUpsell: false })) {
       const error = createAppError(
         ErrorCode.PREMIUM_DAILY_LIMIT,
         'Daily limit reached. Upgrade to Premium for unlimited mood quotes.',
@@ -75,13 +80,25 @@ export function useMoodQuoteGenerator() {
       const { data, error: functionError } = await supabase.functions.invoke('generate-mood-quote', {
         body: {
           mood: moodString,
-          entry: journalEntry,
+          // Quotes are based on mood only while the encrypted vault is on
+          entry: isEntryPrivate ? undefined : journalEntry,
           name: user?.name,
           previousQuotes: previousQuotes || []
         }
       });
 
       if (functionError) {
+        // The server refuses once today's free uses are gone
+        if (await handleLimitError(functionError, { showUpsell: false })) {
+          const error = createAppError(
+            ErrorCode.PREMIUM_DAILY_LIMIT,
+            'Daily limit reached. Upgrade to Premium for unlimited mood quotes.',
+            { feature: 'mood-quote-generator' }
+          );
+          setError(getUserFriendlyErrorMessage(error));
+          return null;
+        }
+
         console.error('Mood quote generation edge function error:', functionError);
         const error = createAppError(
           ErrorCode.AI_SERVICE_UNAVAILABLE,
@@ -93,6 +110,9 @@ export function useMoodQuoteGenerator() {
       }
 
       const response: MoodQuoteResponse = data;
+      if (response.quota) {
+        updateFeatureQuota(response.quota);
+      }
       
       if (!response.success) {
         const error = createAppError(
@@ -1,6 +1,17 @@
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useJournal } from './useJournal';
-import { safeStorage, ErrorCode, createAppError } from '../types/errors';
+import { UPSELL } from '../constants/uiStrings';
+import {
+  FeatureQuota,
+  FeatureQuotas,
+  QuotaFeature,
+  clearFeatureQuotas,
+  getFeatureQuotas,
+  loadFeatureQuotas,
+  onFeatureQuotasChange,
+  onLimitReached,
+  reportLimitReached
+} from '../lib/featureQuotas';
 
 /**
  * Interface for upsell modal content
@@ -19,8 +30,10 @@ export interface UpsellModalContent {
  * @example
  * const { 
  *   isPremium, 
+ *   isPastDue,
  *   showUpsellModal, 
  *   hideUpsellModal,
+ *   getRemainingUses,
  *   trackFeatureUsage
  * } = usePremium();
  */
@@ -31,17 +44,32 @@ export function usePremium() {
     featureName: 'Premium Feature',
     featureDescription: 'Upgrade to Zensai Premium to unlock this feature and many more!'
   });
+  const [featureQuotas, setFeatureQuotas] = useState<FeatureQuotas>(getFeatureQuotas);
 
   /**
-   * Check if user has premium subscription
+   * Check if user has premium subscription. A failed payment moves the expiry
+   * date to the end of the grace period, so premium ends there if it isn't fixed.
    */
-  const isPremium = profile?.subscription_status === 'premium';
+  const isPremium = profile?.subscription_status === 'premium' &&
+    (!profile?.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
   
   /**
    * Check if user has premium plus (yearly) subscription
    */
   const isPremiumPlus = isPremium && profile?.subscription_tier === 'premium_plus';
   
+  /**
+   * Check if the latest renewal payment failed and hasn't been fixed yet
+   */
+  const isPastDue = profile?.payment_status === 'past_due';
+
+  /**
+   * Get the date premium stops unless the payment is fixed
+   */
+  const gracePeriodEndsAt = isPastDue && profile?.grace_period_ends_at
+    ? new Date(profile.grace_period_ends_at)
+    : null;
+
   /**
    * Get subscription expiry date if available
    */
@@ -94,41 +122,86 @@ export function usePremium() {
   }, [isPremium]);
 
   /**
-   * Track feature usage for free users (for daily limits)
+   * Keep today's free-tier quotas from the server, shared by every caller of this hook
+   */
+  const userId = profile?.user_id;
+  useEffect(() => {
+    const unsubscribe = onFeatureQuotasChange(setFeatureQuotas);
+
+    if (!userId) {
+      clearFeatureQuotas();
+    } else {
+      loadFeatureQuotas().catch(err => console.error('Error loading feature quotas:', err));
+    }
+
+    return unsubscribe;
+  }, [userId, isPremium]);
+
+  /**
+   * Offer premium when a free daily limit is reached anywhere in the app
+   */
+  useEffect(() => onLimitReached((quota: FeatureQuota) => {
+    const copy = UPSELL.LIMITS[quota.feature];
+    showUpsellModal({
+      featureName: copy.NAME,
+      featureDescription: UPSELL.LIMIT_REACHED
+        .replace('{limit}', String(quota.limit ?? 0))
+        .replace('{uses}', copy.USES)
+    });
+  }), [showUpsellModal]);
+
+  /**
+   * Get how many free uses of a feature are left today
+   *
+   * @param {QuotaFeature} featureKey - Key identifying the feature
+   * @returns {number|null} Uses left, or null when unlimited or not loaded yet
+   */
+  const getRemainingUses = useCallback((featureKey: QuotaFeature): number | null => {
+    if (isPremium) return null;
+    return featureQuotas[featureKey]?.remaining ?? null;
+  }, [isPremium, featureQuotas]);
+
+  /**
+   * Check whether a free user may still use an AI feature today.
+   * The edge function counts the use and has the final say; this only stops
+   * requests we already know will be refused, and offers premium instead.
    * Premium users always return true (unlimited usage)
-   * Free users are limited based on the specified limit
    * 
-   * @param {string} featureKey - Key identifying the feature
-   * @param {number} [limit=2] - Daily usage limit for free users
+   * @param {QuotaFeature} featureKey - Key identifying the feature
+   * @param {Object} [options]
+   * @param {boolean} [options.showUpsell=true] - Whether to offer premium when the limit is reached
    * @returns {boolean} Whether the feature can be used
    */
-  const trackFeatureUsage = useCallback((featureKey: string, limit: number = 2): boolean => {
+  const trackFeatureUsage = useCallback((
+    featureKey: QuotaFeature,
+    { showUpsell = true }: { showUpsell?: boolean } = {}
+  ): boolean => {
     if (isPremium) return true; // Premium users have unlimited usage
 
-    // Get current usage count for today from localStorage
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    const storageKey = `zensai-feature-${featureKey}-${today}`;
-    const currentUsage = parseInt(safeStorage.getItem(storageKey, '0'), 10);
-    
-    // Check if usage limit has been reached
-    if (currentUsage >= limit) {
-      return false;
+    const quota = featureQuotas[featureKey];
+    if (!quota || quota.remaining === null || quota.remaining > 0) {
+      return true;
     }
-    
-    // Increment usage count and save to localStorage
-    safeStorage.setItem(storageKey, (currentUsage + 1).toString());
-    return true;
-  }, [isPremium]);
+
+    if (showUpsell) {
+      reportLimitReached(quota);
+    }
+    return false;
+  }, [isPremium, featureQuotas]);
 
   return {
     isPremium,
     isPremiumPlus,
+    isPastDue,
+    gracePeriodEndsAt,
     subscriptionExpiresAt,
     isUpsellModalOpen,
     upsellContent,
     showUpsellModal,
     hideUpsellModal,
     canUseFeature,
+    featureQuotas,
+    getRemainingUses,
     trackFeatureUsage
   };
 }
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
 import { useAuth } from '../contexts/AuthContext';
 import { usePremium } from './usePremium';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { PromptCategory } from '../types';
 
 /**
  * Interface for prompt generation response
@@ -11,8 +13,10 @@ import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types
 interface PromptResponse {
   success: boolean;
   prompt: string;
+  category?: PromptCategory | null;
   generated_by: 'ai' | 'fallback';
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -29,7 +33,7 @@ interface PromptResponse {
  * } = usePromptGenerator();
  * 
  * // Generate a prompt
- * const prompt = await generatePrompt({ mood: 'happy' });
+ * const prompt = await generatePrompt({ mood: 'happy', category: 'gratitude' });
  */
 export function usePromptGenerator() {
   const { user } = useAuth();
@@ -43,9 +47,33 @@ export function usePromptGenerator() {
    * 
    * @param {string} [mood] - Optional mood to tailor the prompt
    * @param {string[]} [previousPrompts=[]] - Previously used prompts to avoid repetition
+   * @param {PromptCategory} [category] - Optional kind of prompt the user asked for
    * @returns {string} A suitable prompt
    */
-  const getFallbackPrompt = (mood?: string, previousPrompts: string[] = []): string => {
+  const getFallbackPrompt = (mood?: string, previousPrompts: string[] = [], category?: PromptCategory): string => {
+    const categoryPrompts: Record<PromptCategory, string[]> = {
+      'gratitude': [
+        "What's one small thing from today you'd like to say thank you for, and why?",
+        "Who made your week a little easier, and what did they do?",
+        "What's something you often take for granted that you're glad to have?"
+      ],
+      'reframing': [
+        "What's a thought that's been weighing on you? What would you say to a friend who had it?",
+        "Think of something that went wrong recently. What's another way to look at what happened?",
+        "What's one worry on your mind, and what evidence do you have for and against it?"
+      ],
+      'self-compassion': [
+        "What's something you've been hard on yourself about? How could you speak to yourself more kindly?",
+        "If you could offer yourself a little comfort right now, what would it be?",
+        "What's one way you've been doing your best, even if it didn't feel like enough?"
+      ],
+      'goals': [
+        "What's one small step you could take this week toward something that matters to you?",
+        "What progress have you made lately, however small, that you haven't given yourself credit for?",
+        "What's getting in the way of a goal right now, and what might help?"
+      ]
+    };
+
     const moodBasedPrompts: Record<string, string[]> = {
       'very sad': [
         "What's one small thing that could bring you a moment of comfort today?",
@@ -92,10 +120,12 @@ export function usePromptGenerator() {
       "What's one small moment from today that brought you joy or made you smile?"
     ];
 
-    // Get mood-specific prompts or use general ones
-    const availablePrompts = mood && moodBasedPrompts[mood] 
-      ? [...moodBasedPrompts[mood], ...generalPrompts]
-      : generalPrompts;
+    // Stay in the chosen category, otherwise get mood-specific prompts or use general ones
+    const availablePrompts = category
+      ? categoryPrompts[category]
+      : mood && moodBasedPrompts[mood] 
+        ? [...moodBasedPrompts[mood], ...generalPrompts]
+        : generalPrompts;
 
     // Filter out previously used prompts
     const filteredPrompts = availablePrompts.filter(prompt => 
@@ -117,11 +147,13 @@ export function usePromptGenerator() {
    * @param {Object} [options] - Generation options
    * @param {string} [options.mood] - User's current mood
    * @param {string[]} [options.previousPrompts] - Previously used prompts to avoid repetition
+   * @param {PromptCategory} [options.category] - Kind of prompt to write; the server adds the user's goals and recent entries
    * @returns {Promise<string|null>} Generated prompt or null on failure
    */
   const generatePrompt = async (options?: {
     mood?: string;
     previousPrompts?: string[];
+    category?: PromptCategory;
   }): Promise<string | null> => {
     setIsLoading(true);
     setError(null);
@@ -142,11 +174,23 @@ export function usePromptGenerator() {
         body: {
           name: user?.name,
           mood: options?.mood,
+          category: options?.category,
           previousPrompts: options?.previousPrompts || []
         }
       });
 
       if (functionError) {
+        // The server refuses once today's free uses are gone
+        if (await handleLimitError(functionError)) {
+          const error = createAppError(
+            ErrorCode.PREMIUM_DAILY_LIMIT,
+            'Daily limit reached. Upgrade to Premium for unlimited prompts.',
+            { feature: 'prompt-generator' }
+          );
+          setError(getUserFriendlyErrorMessage(error));
+          return null;
+        }
+
         console.warn('Prompt generation edge function error:', functionError);
         const error = createAppError(
           ErrorCode.AI_SERVICE_UNAVAILABLE,
@@ -154,11 +198,14 @@ export function usePromptGenerator() {
           { functionError }
         );
         // Use fallback instead of throwing error
-        const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts);
+        const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts, options?.category);
         return fallbackPrompt;
       }
 
       const response: PromptResponse = data;
+      if (response.quota) {
+        updateFeatureQuota(response.quota);
+      }
       
       if (!response.success) {
         console.warn('Prompt generation failed:', response.error);
@@ -168,7 +215,7 @@ export function usePromptGenerator() {
           { response }
         );
         // Use fallback instead of throwing error
-        const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts);
+        const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts, options?.category);
         return fallbackPrompt;
       }
 
@@ -181,7 +228,7 @@ export function usePromptGenerator() {
         undefined, err
       );
       // Use fallback instead of throwing error
-      const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts);
+      const fallbackPrompt = getFallbackPrompt(options?.mood, options?.previousPrompts, options?.category);
       return fallbackPrompt;
     } finally {
       setIsLoading(false);
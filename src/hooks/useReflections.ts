@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Reflection } from '../types';
+import { REFLECTIONS } from '../constants/uiStrings';
+
+/** Most recent reflections loaded */
+const REFLECTIONS_LIMIT = 6;
+
+/**
+ * Custom hook for Zeno's weekly and monthly reflections, newest first
+ *
+ * Reflections are written on a schedule by `generate-reflections`; this hook
+ * only reads them.
+ *
+ * @returns {Object} Reflections, the latest one and loading state
+ *
+ * @example
+ * const { latest, reflections, isLoading, error } = useReflections();
+ */
+export function useReflections() {
+  const { user } = useAuth();
+  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadReflections = async () => {
+      try {
+        setIsLoading(true);
+        const { data, error: loadError } = await supabase
+          .from('reflections')
+          .select('id, period, period_start, period_end, summary, themes, wins, intention, mood_arc, mood_direction, entry_count, created_at')
+          .eq('user_id', user.id)
+          .order('period_end', { ascending: false })
+          .order('created_at', { ascending: false })
+          .limit(REFLECTIONS_LIMIT);
+
+        if (loadError) {
+          console.error('Error loading reflections:', loadError);
+          setError(REFLECTIONS.LOAD_ERROR);
+          return;
+        }
+
+        setReflections((data || []) as Reflection[]);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading reflections:', err);
+        setError(REFLECTIONS.LOAD_ERROR);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReflections();
+  }, [user]);
+
+  return {
+    reflections,
+    latest: reflections[0] ?? null,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  isPushSupported,
+  getNotificationPermission,
+  subscribeToPush,
+  unsubscribeFromPush
+} from '../lib/pushNotifications';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+/** Most reminder times a user can set per day */
+export const MAX_REMINDER_TIMES = 3;
+
+/**
+ * Interface for a user's reminder schedule
+ * @interface ReminderPreferences
+ */
+export interface ReminderPreferences {
+  enabled: boolean;
+  /** Local times as 'HH:MM' */
+  reminder_times: string[];
+  /** 0 = Sunday */
+  days_of_week: number[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  enabled: false,
+  reminder_times: ['20:00'],
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  quiet_hours_start: null,
+  quiet_hours_end: null
+};
+
+// Postgres returns times as 'HH:MM:SS'; the time inputs work in 'HH:MM'
+const toInputTime = (time: string | null): string | null => (time ? time.slice(0, 5) : null);
+
+/**
+ * Custom hook for journaling reminder preferences and this device's push subscription
+ *
+ * @returns {Object} Reminder state and methods
+ *
+ * @example
+ * const {
+ *   preferences,
+ *   isSupported,
+ *   permission,
+ *   enableReminders,
+ *   disableReminders,
+ *   savePreferences
+ * } = useReminders();
+ */
+export function useReminders() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<ReminderPreferences>(DEFAULT_REMINDER_PREFERENCES);
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSupported = isPushSupported() && Boolean(VAPID_PUBLIC_KEY);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPreferences = async () => {
+      try {
+        setIsLoading(true);
+        const { data, error: loadError } = await supabase
+          .from('reminder_preferences')
+          .select('enabled, reminder_times, days_of_week, quiet_hours_start, quiet_hours_end')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (loadError) {
+          console.error('Error loading reminder preferences:', loadError);
+          setError('Failed to load your reminder settings');
+          return;
+        }
+
+        if (data) {
+          setPreferences({
+            enabled: data.enabled,
+            reminder_times: (data.reminder_times || []).map((time: string) => toInputTime(time) as string),
+            days_of_week: data.days_of_week || [],
+            quiet_hours_start: toInputTime(data.quiet_hours_start),
+            quiet_hours_end: toInputTime(data.quiet_hours_end)
+          });
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [user]);
+
+  /**
+   * Save reminder preferences
+   *
+   * @param {Partial<ReminderPreferences>} changes - Fields to change
+   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   */
+  const savePreferences = useCallback(async (changes: Partial<ReminderPreferences>) => {
+    if (!user) {
+      return { success: false, error: 'You must be signed in to change reminders' };
+    }
+
+    const next = { ...preferences, ...changes };
+
+    if (next.reminder_times.length === 0 || next.reminder_times.length > MAX_REMINDER_TIMES) {
+      return { success: false, error: `Choose between 1 and ${MAX_REMINDER_TIMES} reminder times` };
+    }
+    if (next.days_of_week.length === 0) {
+      return { success: false, error: 'Choose at least one day for reminders' };
+    }
+    if (Boolean(next.quiet_hours_start) !== Boolean(next.quiet_hours_end)) {
+      return { success: false, error: 'Quiet hours need both a start and an end time' };
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const { error: saveError } = await supabase
+        .from('reminder_preferences')
+        .upsert({
+          user_id: user.id,
+          ...next,
+          reminder_times: Array.from(new Set(next.reminder_times)).sort(),
+          days_of_week: Array.from(new Set(next.days_of_week)).sort()
+        }, { onConflict: 'user_id' });
+
+      if (saveError) {
+        console.error('Error saving reminder preferences:', saveError);
+        return { success: false, error: 'Failed to save your reminder settings. Please try again.' };
+      }
+
+      setPreferences(next);
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving reminder preferences:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    } finally {
+      setIsSaving(false);
+    }
+  }, [user, preferences]);
+
+  /**
+   * Ask for notification permission, subscribe this device and turn reminders on
+   *
+   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   */
+  const enableReminders = useCallback(async () => {
+    if (!user) {
+      return { success: false, error: 'You must be signed in to turn on reminders' };
+    }
+    if (!isSupported) {
+      return { success: false, error: 'This browser can\'t show reminders. Try installing Zensai or using another browser.' };
+    }
+
+    try {
+      setIsSaving(true);
+      const subscription = await subscribeToPush(VAPID_PUBLIC_KEY);
+      setPermission(getNotificationPermission());
+
+      const { error: subscribeError } = await supabase
+        .from('push_subscriptions')
+        .upsert({
+          user_id: user.id,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          user_agent: navigator.userAgent
+        }, { onConflict: 'endpoint' });
+
+      if (subscribeError) {
+        console.error('Error saving push subscription:', subscribeError);
+        return { success: false, error: 'Failed to turn on reminders. Please try again.' };
+      }
+    } catch (err) {
+      console.error('Error subscribing to push:', err);
+      setPermission(getNotificationPermission());
+      return {
+        success: false,
+        error: getNotificationPermission() === 'denied'
+          ? 'Notifications are blocked for Zensai. Allow them in your browser settings to get reminders.'
+          : 'Failed to turn on reminders. Please try again.'
+      };
+    } finally {
+      setIsSaving(false);
+    }
+
+    return savePreferences({ enabled: true });
+  }, [user, isSupported, savePreferences]);
+
+  /**
+   * Turn reminders off and unsubscribe this device
+   *
+   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   */
+  const disableReminders = useCallback(async () => {
+    if (!user) {
+      return { success: false, error: 'You must be signed in to change reminders' };
+    }
+
+    try {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) {
+        const { error: deleteError } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('endpoint', endpoint);
+
+        if (deleteError) {
+          // The server drops dead endpoints on its next send, so this isn't fatal
+          console.error('Error removing push subscription:', deleteError);
+        }
+      }
+    } catch (err) {
+      console.error('Error unsubscribing from push:', err);
+    }
+
+    return savePreferences({ enabled: false });
+  }, [user, savePreferences]);
+
+  return {
+    preferences,
+    isSupported,
+    permission,
+    isLoading,
+    isSaving,
+    error,
+    savePreferences,
+    enableReminders,
+    disableReminders
+  };
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getFunctionErrorMessage, supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Interface for a promotion applied to a subscription
+ * @interface BillingDiscount
+ */
+export interface BillingDiscount {
+  name: string | null;
+  percent_off: number | null;
+  amount_off: number | null;
+  currency: string | null;
+  duration: 'once' | 'repeating' | 'forever';
+  duration_in_months: number | null;
+  ends_at: string | null;
+}
+
+/**
+ * Interface for a code the user entered that can be used
+ * @interface AppliedCode
+ */
+export interface AppliedCode {
+  type: 'promotion' | 'referral' | 'gift';
+  code: string;
+  discount: BillingDiscount | null;
+  /** Premium a gift code is worth */
+  months: number | null;
+}
+
+/**
+ * Interface for a gift code the user bought
+ * @interface GiftCode
+ */
+export interface GiftCode {
+  id: string;
+  code: string;
+  months: number;
+  redeemed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Interface for how the user's referrals have gone
+ * @interface ReferralSummary
+ */
+export interface ReferralSummary {
+  /** Friends who subscribed with the user's code */
+  joined: number;
+  /** Free months the user has earned from them */
+  credited: number;
+}
+
+/**
+ * What redeeming a gift gave the user
+ */
+export type PremiumCredit =
+  | { kind: 'account_credit'; amount_cents: number; currency: string }
+  | { kind: 'premium_time'; premium_until: string };
+
+/**
+ * Custom hook for promotion, gift and referral codes
+ *
+ * @returns {Object} Gifts bought, referral progress and code methods
+ *
+ * @example
+ * const { gifts, referrals, checkCode, redeemGiftCode } = useRewards();
+ * const applied = await checkCode('SPRING20');
+ */
+export function useRewards() {
+  const { user } = useAuth();
+  const [gifts, setGifts] = useState<GiftCode[]>([]);
+  const [referrals, setReferrals] = useState<ReferralSummary>({ joined: 0, credited: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCheckingCode, setIsCheckingCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the gifts the user bought and the referrals they made
+   */
+  const refreshRewards = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const [giftsResult, referralsResult] = await Promise.all([
+        supabase
+          .from('gift_codes')
+          .select('id, code, months, redeemed_at, created_at')
+          .eq('purchaser_user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('referrals')
+          .select('status')
+          .eq('referrer_user_id', user.id)
+      ]);
+
+      if (giftsResult.error || referralsResult.error) {
+        console.error('Error loading rewards:', giftsResult.error || referralsResult.error);
+        return;
+      }
+
+      setGifts(giftsResult.data || []);
+      setReferrals({
+        joined: referralsResult.data?.length ?? 0,
+        credited: referralsResult.data?.filter(referral => referral.status === 'credited').length ?? 0
+      });
+    } catch (err) {
+      console.error('Error loading rewards:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshRewards();
+  }, [refreshRewards]);
+
+  /**
+   * Check a promotion, gift or referral code without using it
+   *
+   * @param {string} code - The code as typed
+   * @returns {Promise<AppliedCode|null>} What the code does, or null if it can't be used
+   */
+  const checkCode = useCallback(async (code: string): Promise<AppliedCode | null> => {
+    if (!user) {
+      setError('You must be logged in to use a code');
+      return null;
+    }
+
+    if (!code.trim()) {
+      setError('Please enter a code');
+      return null;
+    }
+
+    setIsCheckingCode(true);
+    setError(null);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('validate-code', {
+        body: { code }
+      });
+
+      if (functionError || !data?.success) {
+        setError(await getFunctionErrorMessage(functionError, data?.error || 'That code isn\'t valid'));
+        return null;
+      }
+
+      return data.code as AppliedCode;
+    } catch (err) {
+      console.error('Error checking code:', err);
+      setError('Failed to check the code. Please try again.');
+      return null;
+    } finally {
+      setIsCheckingCode(false);
+    }
+  }, [user]);
+
+  /**
+   * Redeem a gift code for the signed-in user
+   *
+   * @param {string} code - The gift code
+   * @returns {Promise<PremiumCredit|null>} What the user got, or null on failure
+   */
+  const redeemGiftCode = useCallback(async (code: string): Promise<PremiumCredit | null> => {
+    if (!user) {
+      setError('You must be logged in to redeem a gift');
+      return null;
+    }
+
+    setIsCheckingCode(true);
+    setError(null);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('redeem-gift-code', {
+        body: { code }
+      });
+
+      if (functionError || !data?.success) {
+        setError(await getFunctionErrorMessage(functionError, data?.error || 'Failed to redeem the gift code'));
+        return null;
+      }
+
+      return data.credit as PremiumCredit;
+    } catch (err) {
+      console.error('Error redeeming gift code:', err);
+      setError('Failed to redeem the gift code. Please try again.');
+      return null;
+    } finally {
+      setIsCheckingCode(false);
+    }
+  }, [user]);
+
+  return {
+    gifts,
+    referrals,
+    isLoading,
+    isCheckingCode,
+    error,
+    checkCode,
+    redeemGiftCode,
+    refreshRewards,
+    clearError: () => setError(null)
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { isOffline } from '../lib/offlineQueue';
+import { useVault } from './useVault';
+import { getCrisisResources } from '../data/crisisResources';
+import { SafetyAssessment, SafetyCategory, SafetyLevel } from '../types';
+import { combineSafetySignals, detectCrisisLanguage, getRegionFromLocales } from '../utils/safety';
+
+/**
+ * Interface for the safety classifier response
+ * @interface SafetyResponse
+ */
+interface SafetyResponse {
+  success: boolean;
+  classification?: {
+    level: SafetyLevel;
+    categories: SafetyCategory[];
+  };
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Custom hook for checking saved entries for suicidal or self-harm language
+ *
+ * A keyword check runs in the browser on every entry; the `assess-entry-safety`
+ * classifier refines it when the entry can be sent to the server. The check never
+ * fails: if the classifier is unavailable the keyword result is used.
+ *
+ * @returns {Object} Safety check method, state and the helplines for the user's region
+ *
+ * @example
+ * const { checkEntrySafety, resources } = useSafetyCheck();
+ *
+ * const assessment = await checkEntrySafety(entryText);
+ * if (assessment.level !== 'none') {
+ *   setShowSafetyResources(true);
+ * }
+ */
+export function useSafetyCheck() {
+  const { isVaultEnabled, isVaultKnown } = useVault();
+  const isEntryPrivate = isVaultEnabled || !isVaultKnown;
+  const [isChecking, setIsChecking] = useState(false);
+  const [region] = useState(() => getRegionFromLocales(navigator.languages ?? [navigator.language]));
+
+  /**
+   * Check an entry for crisis language
+   *
+   * @param {string} journalEntry - Entry text
+   * @returns {Promise<SafetyAssessment>} How worried to be, and why
+   */
+  const checkEntrySafety = useCallback(async (journalEntry: string): Promise<SafetyAssessment> => {
+    const keywordCategories = detectCrisisLanguage(journalEntry);
+
+    // Entry text never leaves the browser while the encrypted vault is on
+    if (!journalEntry.trim() || isEntryPrivate || isOffline()) {
+      return combineSafetySignals(keywordCategories, null);
+    }
+
+    setIsChecking(true);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('assess-entry-safety', {
+        body: { entry: journalEntry.trim() }
+      });
+
+      const response: SafetyResponse | null = data;
+      if (functionError || !response?.success || !response.classification) {
+        return combineSafetySignals(keywordCategories, null);
+      }
+
+      return combineSafetySignals(keywordCategories, response.classification);
+    } catch (err) {
+      console.error('Error checking entry safety:', err);
+      return combineSafetySignals(keywordCategories, null);
+    } finally {
+      setIsChecking(false);
+    }
+  }, [isEntryPrivate]);
+
+  return {
+    checkEntrySafety,
+    isChecking,
+    resources: getCrisisResources(region)
+  };
+}
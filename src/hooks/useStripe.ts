@@ -1,9 +1,39 @@
 import { useState, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { getFunctionErrorMessage, supabase } from '../lib/supabase';
 import { stripePromise } from '../lib/stripe';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
 
+export type BillingPlan = 'monthly' | 'yearly';
+
+/**
+ * Interface for what switching plans will cost
+ * @interface PlanChangePreview
+ */
+export interface PlanChangePreview {
+  kind: 'upgrade' | 'downgrade';
+  plan: BillingPlan;
+  /** Charged now; 0 for downgrades, which wait for renewal */
+  amount_due_cents: number;
+  /** Unused time on the current plan taken off the charge */
+  credit_cents: number;
+  currency: string;
+  effective_at: string;
+  next_amount_cents: number | null;
+  proration_date: number | null;
+}
+
+/**
+ * Interface for a plan change that was made
+ * @interface PlanChange
+ */
+export interface PlanChange {
+  /** null when a scheduled switch was called off */
+  kind: 'upgrade' | 'downgrade' | null;
+  plan: BillingPlan;
+  effective_at: string;
+}
+
 /**
  * Custom hook for Stripe integration
  * 
@@ -39,8 +69,6 @@ export function useStripe() {
       const { data, error: functionError } = await supabase.functions.invoke('create-checkout-session', {
         body: {
           priceId,
-          userId: user.id,
-          email: user.email,
           name: user.name
         }
       });
@@ -175,8 +203,84 @@ export function useStripe() {
     }
   }, [user]);
 
+  /**
+   * Work out what switching to another plan would cost, without switching
+   *
+   * @param {BillingPlan} plan - The plan to switch to
+   * @returns {Promise<PlanChangePreview|null>} The preview or null on failure
+   */
+  const previewPlanChange = useCallback(async (plan: BillingPlan): Promise<PlanChangePreview | null> => {
+    if (!user) {
+      setError('You must be logged in to change your plan');
+      return null;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('change-subscription-plan', {
+        body: { plan, preview: true }
+      });
+
+      if (functionError || !data?.success || !data.preview) {
+        console.error('Error previewing plan change:', functionError || data);
+        setError(await getFunctionErrorMessage(functionError, data?.error || 'Failed to work out the cost of switching plans'));
+        return null;
+      }
+
+      return data.preview;
+    } catch (err) {
+      console.error('Error previewing plan change:', err);
+      setError(getUserFriendlyErrorMessage(err));
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  /**
+   * Switch plans. Upgrades are charged now; downgrades happen at renewal.
+   * Choosing the current plan again calls off a scheduled downgrade.
+   *
+   * @param {BillingPlan} plan - The plan to switch to
+   * @param {number|null} [prorationDate] - From the preview, so the charge matches it
+   * @returns {Promise<PlanChange|null>} The change or null on failure
+   */
+  const changePlan = useCallback(async (plan: BillingPlan, prorationDate: number | null = null): Promise<PlanChange | null> => {
+    if (!user) {
+      setError('You must be logged in to change your plan');
+      return null;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('change-subscription-plan', {
+        body: { plan, proration_date: prorationDate ?? undefined }
+      });
+
+      if (functionError || !data?.success || !data.change) {
+        console.error('Error changing plan:', functionError || data);
+        setError(await getFunctionErrorMessage(functionError, data?.error || 'Failed to change your plan'));
+        return null;
+      }
+
+      return data.change;
+    } catch (err) {
+      console.error('Error changing plan:', err);
+      setError(getUserFriendlyErrorMessage(err));
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
   return {
     createCheckoutSession,
+    previewPlanChange,
+    changePlan,
     handleSubscriptionSuccess,
     redirectToCustomerPortal,
     isLoading,
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+/** Most recent history lines shown in Settings */
+const HISTORY_LIMIT = 10;
+
+export type SubscriptionHistoryKind =
+  | 'started'
+  | 'renewed'
+  | 'plan_changed'
+  | 'cancelled'
+  | 'resumed'
+  | 'payment_failed'
+  | 'payment_recovered'
+  | 'trial_ending'
+  | 'ended';
+
+/**
+ * Interface for one line of a user's subscription history
+ * @interface SubscriptionHistoryItem
+ */
+export interface SubscriptionHistoryItem {
+  id: string;
+  kind: SubscriptionHistoryKind;
+  subscription_tier: string | null;
+  amount_cents: number | null;
+  currency: string | null;
+  period_end: string | null;
+  occurred_at: string;
+}
+
+/**
+ * Custom hook for the user's recent subscription changes and payments, newest first
+ *
+ * @returns {Object} History state
+ *
+ * @example
+ * const { history, isLoading, error } = useSubscriptionHistory();
+ */
+export function useSubscriptionHistory() {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<SubscriptionHistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const { data, error: loadError } = await supabase
+          .from('subscription_history')
+          .select('id, kind, subscription_tier, amount_cents, currency, period_end, occurred_at')
+          .eq('user_id', user.id)
+          .order('occurred_at', { ascending: false })
+          .limit(HISTORY_LIMIT);
+
+        if (loadError) {
+          console.error('Error loading subscription history:', loadError);
+          setError('Failed to load your subscription history');
+          return;
+        }
+
+        setHistory(data || []);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading subscription history:', err);
+        setError('Failed to load your subscription history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [user]);
+
+  return { history, isLoading, error };
+}
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { VaultContext } from '../contexts/vault';
+
+/**
+ * Hook for the encrypted vault: whether it's on, unlocking it and encrypting entry text
+ *
+ * @returns {VaultContextType} Vault state and actions
+ * @throws {Error} When used outside a VaultProvider
+ */
+export function useVault() {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+}
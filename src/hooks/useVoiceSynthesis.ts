@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
 import { usePremium } from './usePremium';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
 
@@ -22,6 +23,7 @@ interface SpeechResponse {
   success: boolean;
   audio_url?: string;
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -101,6 +103,17 @@ export function useVoiceSynthesis() {
       });
 
       if (functionError) {
+        // The server refuses once today's free uses are gone
+        if (await handleLimitError(functionError)) {
+          const error = createAppError(
+            ErrorCode.PREMIUM_DAILY_LIMIT,
+            'Daily limit reached. Upgrade to Premium for unlimited voice playback.',
+            { feature: 'voice-synthesis' }
+          );
+          setError(getUserFriendlyErrorMessage(error));
+          return false;
+        }
+
         console.error('Speech generation edge function error:', functionError);
         const error = createAppError(
           ErrorCode.AI_GENERATION_FAILED,
@@ -112,6 +125,9 @@ export function useVoiceSynthesis() {
       }
 
       const response: SpeechResponse = data;
+      if (response.quota) {
+        updateFeatureQuota(response.quota);
+      }
       
       if (!response.success || !response.audio_url) {
         const error = createAppError(
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { FeatureQuota, handleLimitError, updateFeatureQuota } from '../lib/featureQuotas';
+import { isOffline } from '../lib/offlineQueue';
+import { useAuth } from '../contexts/AuthContext';
+import { useVault } from './useVault';
+import { JOURNAL } from '../constants/uiStrings';
+import { usePremium } from './usePremium';
+import { ConversationMessage } from '../types';
+import { canSendChatMessage, readChatEvents } from '../utils/zenoChat';
+
+/**
+ * Custom hook for a "Talk to Zeno" conversation about one journal entry
+ *
+ * Loads the conversation stored for the entry and asks `chat-with-zeno` for
+ * each reply, showing it as it streams in. Zeno opens the conversation with a
+ * question about the entry.
+ *
+ * @param {string|null} entryId - The entry to talk about, or null when closed
+ * @returns {Object} Conversation, streaming reply, state and methods
+ *
+ * @example
+ * const { messages, streamingReply, startConversation, sendMessage } = useZenoChat(entryId);
+ *
+ * useEffect(() => { startConversation(); }, [startConversation]);
+ * await sendMessage('I think I was mostly tired.');
+ */
+export function useZenoChat(entryId: string | null) {
+  const { user } = useAuth();
+  const { isPremium, trackFeatureUsage } = usePremium();
+  const { isVaultEnabled, isVaultKnown } = useVault();
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Entry text never leaves the browser while the encrypted vault is on, or might be
+  const unavailableReason = isVaultEnabled
+    ? JOURNAL.ZENO_CHAT.VAULT_UNAVAILABLE
+    : !isVaultKnown
+      ? JOURNAL.ZENO_CHAT.VAULT_UNKNOWN
+      : isOffline()
+        ? JOURNAL.ZENO_CHAT.OFFLINE_UNAVAILABLE
+        : null;
+
+  /**
+   * Load the conversation stored for the entry
+   */
+  const loadConversation = useCallback(async (): Promise<ConversationMessage[]> => {
+    if (!entryId) return [];
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: loadError } = await supabase
+        .from('entry_conversations')
+        .select('id, entry_id, role, content, created_at')
+        .eq('entry_id', entryId)
+        .order('created_at', { ascending: true });
+
+      if (loadError) throw loadError;
+
+      const loaded = (data || []) as ConversationMessage[];
+      setMessages(loaded);
+      return loaded;
+    } catch (err) {
+      console.error('Error loading Zeno conversation:', err);
+      setError(JOURNAL.ZENO_CHAT.LOAD_ERROR);
+      return [];
+    } finally {
+      setIsLoading(false);
+      setHasLoaded(true);
+    }
+  }, [entryId]);
+
+  useEffect(() => {
+    setMessages([]);
+    setStreamingReply(null);
+    setHasLoaded(false);
+    if (entryId && !unavailableReason) {
+      loadConversation();
+    }
+  }, [entryId, unavailableReason, loadConversation]);
+
+  /**
+   * Ask Zeno for the next reply, sending `message` first if given
+   *
+   * @param {string} [message] - The user's message; leave out to start or retry
+   * @returns {Promise<boolean>} Whether Zeno replied
+   */
+  const requestReply = useCallback(async (message?: string): Promise<boolean> => {
+    if (!entryId || isStreaming || unavailableReason) return false;
+
+    if (!isPremium && !trackFeatureUsage('zeno-chat')) {
+      setError(JOURNAL.ZENO_CHAT.LIMIT_REACHED);
+      return false;
+    }
+
+    const text = message?.trim();
+    const pendingId = `pending-${Date.now()}`;
+
+    setIsStreaming(true);
+    setStreamingReply('');
+    setError(null);
+
+    if (text) {
+      setMessages(prev => [...prev, {
+        id: pendingId,
+        entry_id: entryId,
+        role: 'user',
+        content: text,
+        created_at: new Date().toISOString()
+      }]);
+    }
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('chat-with-zeno', {
+        body: {
+          entry_id: entryId,
+          message: text,
+          name: user?.name
+        }
+      });
+
+      if (functionError) {
+        if (await handleLimitError(functionError)) {
+          setError(JOURNAL.ZENO_CHAT.LIMIT_REACHED);
+        } else {
+          console.error('Zeno chat edge function error:', functionError);
+          setError(JOURNAL.ZENO_CHAT.ERROR);
+        }
+        // Refused before anything was saved
+        setMessages(prev => prev.filter(turn => turn.id !== pendingId));
+        return false;
+      }
+
+      let replied = false;
+      await readChatEvents(data as Response, (event) => {
+        if (event.type === 'delta') {
+          setStreamingReply(prev => (prev ?? '') + event.text);
+        } else if (event.type === 'done') {
+          replied = true;
+          setMessages(prev => [
+            ...prev.map(turn => (turn.id === pendingId && event.user_message ? event.user_message : turn)),
+            event.message
+          ]);
+          if (event.quota) {
+            updateFeatureQuota(event.quota as FeatureQuota);
+          }
+        } else if (event.type === 'error') {
+          setError(event.error);
+        }
+      });
+
+      if (!replied) {
+        // The message may have been saved without a reply; show what the server has
+        await loadConversation();
+        setError(prev => prev ?? JOURNAL.ZENO_CHAT.ERROR);
+      }
+      return replied;
+    } catch (err) {
+      console.error('Error talking to Zeno:', err);
+      await loadConversation();
+      setError(JOURNAL.ZENO_CHAT.ERROR);
+      return false;
+    } finally {
+      setStreamingReply(null);
+      setIsStreaming(false);
+    }
+  }, [entryId, isStreaming, unavailableReason, isPremium, trackFeatureUsage, user?.name, loadConversation]);
+
+  /**
+   * Have Zeno open the conversation if it hasn't started yet
+   */
+  const startConversation = useCallback(async (): Promise<boolean> => {
+    if (!hasLoaded || messages.length > 0 || error) return false;
+    return requestReply();
+  }, [hasLoaded, messages.length, error, requestReply]);
+
+  /**
+   * Send a message to Zeno
+   *
+   * @param {string} message - The user's message
+   */
+  const sendMessage = useCallback(async (message: string): Promise<boolean> => {
+    if (!message.trim() || !canSendChatMessage(messages)) return false;
+    return requestReply(message);
+  }, [messages, requestReply]);
+
+  /**
+   * Ask again after a reply failed
+   */
+  const retry = useCallback(async (): Promise<boolean> => {
+    setError(null);
+    if (messages.length === 0 || messages[messages.length - 1].role === 'user') {
+      return requestReply();
+    }
+    return false;
+  }, [messages, requestReply]);
+
+  return {
+    messages,
+    streamingReply,
+    isLoading,
+    isStreaming,
+    error,
+    unavailableReason,
+    canSend: !isStreaming && canSendChatMessage(messages),
+    startConversation,
+    sendMessage,
+    retry
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Client-side encryption for the journal vault.
+ *
+ * Each user with the vault enabled has a random AES-GCM data key. That key is
+ * never stored in the clear: it is wrapped once with a key derived from the
+ * user's passphrase and once with a key derived from a one-time recovery key.
+ * Entry content and titles are encrypted with the data key in the browser, so
+ * the server (and every edge function) only ever sees ciphertext.
+ */
+
+/**
+ * Prefix marking a value as vault ciphertext
+ */
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const RECOVERY_KEY_BYTES = 32;
+
+/**
+ * Wrapped key material stored in `user_encryption_keys`
+ * @interface VaultKeyRecord
+ */
+export interface VaultKeyRecord {
+  passphrase_salt: string;
+  passphrase_wrapped_key: string;
+  recovery_salt: string;
+  recovery_wrapped_key: string;
+}
+
+/**
+ * Result of creating a new vault
+ * @interface NewVault
+ */
+export interface NewVault {
+  dataKey: CryptoKey;
+  recoveryKey: string;
+  record: VaultKeyRecord;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function concatBytes(first: Uint8Array, second: Uint8Array): Uint8Array {
+  const result = new Uint8Array(first.length + second.length);
+  result.set(first);
+  result.set(second, first.length);
+  return result;
+}
+
+/**
+ * Derive a key-wrapping key from a secret with PBKDF2
+ *
+ * @param {string} secret - Passphrase or normalized recovery key
+ * @param {Uint8Array} salt - Per-secret random salt
+ * @returns {Promise<CryptoKey>} AES-GCM key usable for wrapping the data key
+ */
+async function deriveWrappingKey(secret: string, salt: Uint8Array): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Wrap the data key with a secret
+ *
+ * @param {CryptoKey} dataKey - Vault data key
+ * @param {string} secret - Passphrase or normalized recovery key
+ * @returns {Promise<{salt: string, wrappedKey: string}>} Base64 salt and wrapped key
+ */
+async function wrapDataKey(dataKey: CryptoKey, secret: string): Promise<{ salt: string; wrappedKey: string }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrappingKey = await deriveWrappingKey(secret, salt);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+
+  return {
+    salt: toBase64(salt),
+    wrappedKey: toBase64(concatBytes(iv, new Uint8Array(wrapped)))
+  };
+}
+
+/**
+ * Unwrap the data key with a secret
+ *
+ * @param {string} secret - Passphrase or normalized recovery key
+ * @param {string} salt - Base64 salt stored with the wrapped key
+ * @param {string} wrappedKey - Base64 IV and wrapped key
+ * @returns {Promise<CryptoKey>} Vault data key
+ * @throws {Error} If the secret is wrong
+ */
+async function unwrapDataKey(secret: string, salt: string, wrappedKey: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(secret, fromBase64(salt));
+  const bytes = fromBase64(wrappedKey);
+
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      bytes.slice(IV_BYTES),
+      wrappingKey,
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error('Incorrect passphrase or recovery key');
+  }
+}
+
+/**
+ * Format random bytes as a readable recovery key (groups of four hex characters)
+ *
+ * @param {Uint8Array} bytes - Random bytes
+ * @returns {string} Recovery key like `9F2A-07C1-...`
+ */
+function formatRecoveryKey(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{1,4}/g)?.join('-') || hex;
+}
+
+/**
+ * Normalize a recovery key typed by the user (ignores case, spaces and dashes)
+ *
+ * @param {string} recoveryKey - Recovery key as entered
+ * @returns {string} Normalized key
+ */
+export function normalizeRecoveryKey(recoveryKey: string): string {
+  return recoveryKey.replace(/[^0-9a-f]/gi, '').toUpperCase();
+}
+
+/**
+ * Create a new vault: a fresh data key wrapped by the passphrase and a new recovery key
+ *
+ * @param {string} passphrase - Passphrase chosen by the user
+ * @returns {Promise<NewVault>} Data key, recovery key to show once, and the record to store
+ */
+export async function createVault(passphrase: string): Promise<NewVault> {
+  const dataKey = await crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  const recoveryKey = formatRecoveryKey(crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES)));
+
+  const byPassphrase = await wrapDataKey(dataKey, passphrase);
+  const byRecoveryKey = await wrapDataKey(dataKey, normalizeRecoveryKey(recoveryKey));
+
+  return {
+    dataKey,
+    recoveryKey,
+    record: {
+      passphrase_salt: byPassphrase.salt,
+      passphrase_wrapped_key: byPassphrase.wrappedKey,
+      recovery_salt: byRecoveryKey.salt,
+      recovery_wrapped_key: byRecoveryKey.wrappedKey
+    }
+  };
+}
+
+/**
+ * Unlock the vault with the user's passphrase
+ *
+ * @param {VaultKeyRecord} record - Stored key material
+ * @param {string} passphrase - Passphrase
+ * @returns {Promise<CryptoKey>} Vault data key
+ */
+export function unlockWithPassphrase(record: VaultKeyRecord, passphrase: string): Promise<CryptoKey> {
+  return unwrapDataKey(passphrase, record.passphrase_salt, record.passphrase_wrapped_key);
+}
+
+/**
+ * Unlock the vault with the recovery key
+ *
+ * @param {VaultKeyRecord} record - Stored key material
+ * @param {string} recoveryKey - Recovery key as entered by the user
+ * @returns {Promise<CryptoKey>} Vault data key
+ */
+export function unlockWithRecoveryKey(record: VaultKeyRecord, recoveryKey: string): Promise<CryptoKey> {
+  return unwrapDataKey(normalizeRecoveryKey(recoveryKey), record.recovery_salt, record.recovery_wrapped_key);
+}
+
+/**
+ * Re-wrap the data key with a new passphrase (after recovery or a passphrase change)
+ *
+ * @param {CryptoKey} dataKey - Unlocked vault data key
+ * @param {string} passphrase - New passphrase
+ * @returns {Promise<Pick<VaultKeyRecord, 'passphrase_salt' | 'passphrase_wrapped_key'>>} Updated passphrase fields
+ */
+export async function rewrapWithPassphrase(
+  dataKey: CryptoKey,
+  passphrase: string
+): Promise<Pick<VaultKeyRecord, 'passphrase_salt' | 'passphrase_wrapped_key'>> {
+  const { salt, wrappedKey } = await wrapDataKey(dataKey, passphrase);
+  return { passphrase_salt: salt, passphrase_wrapped_key: wrappedKey };
+}
+
+/**
+ * Check whether a stored value is vault ciphertext
+ *
+ * @param {string|null|undefined} value - Stored value
+ * @returns {boolean} True if encrypted
+ */
+export function isEncryptedValue(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt text with the vault data key
+ *
+ * @param {CryptoKey} dataKey - Vault data key
+ * @param {string} plaintext - Text to encrypt
+ * @returns {Promise<string>} Prefixed base64 ciphertext
+ */
+export async function encryptText(dataKey: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    dataKey,
+    encoder.encode(plaintext)
+  );
+
+  return `${ENCRYPTED_PREFIX}${toBase64(concatBytes(iv, new Uint8Array(ciphertext)))}`;
+}
+
+/**
+ * Decrypt text produced by `encryptText`. Plaintext values are returned unchanged,
+ * so entries written before the vault was enabled keep working.
+ *
+ * @param {CryptoKey} dataKey - Vault data key
+ * @param {string} value - Stored value
+ * @returns {Promise<string>} Decrypted text
+ */
+export async function decryptText(dataKey: CryptoKey, value: string): Promise<string> {
+  if (!isEncryptedValue(value)) return value;
+
+  const bytes = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+    dataKey,
+    bytes.slice(IV_BYTES)
+  );
+
+  return decoder.decode(plaintext);
+}
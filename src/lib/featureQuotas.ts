@@ -0,0 +1,147 @@
+/**
+ * Free-tier daily quotas for the AI features.
+ *
+ * The edge functions count every use on the server; this module keeps the
+ * latest numbers they report so every `usePremium` caller sees the same
+ * remaining uses, and tells listeners when a limit is reached.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type QuotaFeature =
+  | 'mood-analyzer'
+  | 'affirmation-generator'
+  | 'mood-quote-generator'
+  | 'prompt-generator'
+  | 'voice-synthesis'
+  | 'zeno-chat';
+
+/**
+ * Today's usage of one feature. `limit` and `remaining` are null for premium users.
+ * @interface FeatureQuota
+ */
+export interface FeatureQuota {
+  feature: QuotaFeature;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export type FeatureQuotas = Partial<Record<QuotaFeature, FeatureQuota>>;
+
+type QuotasListener = (quotas: FeatureQuotas) => void;
+type LimitReachedListener = (quota: FeatureQuota) => void;
+
+let quotas: FeatureQuotas = {};
+const quotasListeners = new Set<QuotasListener>();
+const limitReachedListeners = new Set<LimitReachedListener>();
+
+const setQuotas = (next: FeatureQuotas) => {
+  quotas = next;
+  quotasListeners.forEach(listener => listener(quotas));
+};
+
+/**
+ * The latest quotas reported by the server
+ */
+export const getFeatureQuotas = (): FeatureQuotas => quotas;
+
+/**
+ * Load today's quotas for the signed-in user
+ */
+export async function loadFeatureQuotas(): Promise<FeatureQuotas> {
+  const { data, error } = await supabase.rpc('get_feature_quotas');
+  if (error) throw error;
+
+  const loaded: FeatureQuotas = {};
+  for (const row of (data || []) as Array<{ feature: QuotaFeature; used: number; daily_limit: number | null; remaining: number | null }>) {
+    loaded[row.feature] = { feature: row.feature, used: row.used, limit: row.daily_limit, remaining: row.remaining };
+  }
+
+  setQuotas(loaded);
+  return loaded;
+}
+
+/**
+ * Save the quota an edge function returned with its response
+ */
+export const updateFeatureQuota = (quota: FeatureQuota): void => {
+  setQuotas({ ...quotas, [quota.feature]: quota });
+};
+
+/**
+ * Record that a feature's limit was reached and tell listeners, e.g. to show an upsell
+ */
+export const reportLimitReached = (quota: FeatureQuota): void => {
+  updateFeatureQuota(quota);
+  limitReachedListeners.forEach(listener => listener(quota));
+};
+
+/**
+ * Forget the loaded quotas, e.g. on sign-out
+ */
+export const clearFeatureQuotas = (): void => setQuotas({});
+
+/**
+ * Be told when any quota changes
+ *
+ * @returns {function} Unsubscribe function
+ */
+export const onFeatureQuotasChange = (listener: QuotasListener): (() => void) => {
+  quotasListeners.add(listener);
+  return () => {
+    quotasListeners.delete(listener);
+  };
+};
+
+/**
+ * Be told when a feature's daily limit is reached
+ *
+ * @returns {function} Unsubscribe function
+ */
+export const onLimitReached = (listener: LimitReachedListener): (() => void) => {
+  limitReachedListeners.add(listener);
+  return () => {
+    limitReachedListeners.delete(listener);
+  };
+};
+
+/**
+ * The quota from an edge function's "daily limit reached" (429) response,
+ * or null for any other error
+ */
+export async function getQuotaFromError(functionError: unknown): Promise<FeatureQuota | null> {
+  if (!(functionError instanceof FunctionsHttpError)) return null;
+
+  const response = functionError.context as Response | undefined;
+  if (response?.status !== 429) return null;
+
+  try {
+    const body = await response.clone().json();
+    return body?.error_code === 'quota_exceeded' ? body.quota : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a "daily limit reached" error from an edge function, offering premium
+ * unless `showUpsell` is false
+ *
+ * @returns {Promise<boolean>} Whether the error was a reached limit
+ */
+export async function handleLimitError(
+  functionError: unknown,
+  { showUpsell = true }: { showUpsell?: boolean } = {}
+): Promise<boolean> {
+  const quota = await getQuotaFromError(functionError);
+  if (!quota) return false;
+
+  if (showUpsell) {
+    reportLimitReached(quota);
+  } else {
+    updateFeatureQuota(quota);
+  }
+  return true;
+}
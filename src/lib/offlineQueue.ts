@@ -0,0 +1,282 @@
+/**
+ * Persistent write queue for journal changes made while offline.
+ *
+ * Operations are stored in IndexedDB (so photo blobs survive a reload) and
+ * replayed in insertion order by `useJournalEntries` once the browser
+ * reports that connectivity is back.
+ */
+
+import { Emotion, EmotionAnalysis, EntryPrompt, PromptCategory } from '../types';
+import { getEmotionColumns } from '../utils/emotions';
+import { getPromptColumns } from '../utils/prompts';
+
+const DB_NAME = 'zensai-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'journal-queue';
+
+/**
+ * Prefix used for ids of entries that only exist locally until synced
+ */
+export const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * Journal fields captured when an entry is created or edited offline
+ * @interface QueuedEntryPayload
+ */
+export interface QueuedEntryPayload {
+  content: string;
+  title: string | null;
+  mood: string;
+  tags?: string[];
+  /** Content and title are vault ciphertext */
+  isEncrypted?: boolean;
+  photo?: Blob | null;
+  photoName?: string | null;
+  removePhoto?: boolean;
+}
+
+/**
+ * A single queued write
+ * @interface QueuedOperation
+ */
+export interface QueuedOperation {
+  id?: number;
+  userId: string;
+  type: 'insert' | 'update' | 'delete';
+  entryId: string;
+  payload?: QueuedEntryPayload;
+  /** Server `updated_at` the offline edit was based on, used to detect conflicts */
+  baseUpdatedAt?: string | null;
+  /** Photo to clean up from storage when a queued delete is replayed */
+  photoUrl?: string | null;
+  /** Emotions found when an entry was written offline, saved with it on sync */
+  emotions?: EmotionAnalysis | null;
+  /** Prompt an entry written offline answered, saved with it on sync */
+  prompt?: EntryPrompt | null;
+  createdAt: string;
+}
+
+/**
+ * Minimal entry shape the queue needs to build optimistic rows
+ * @interface QueueableEntry
+ */
+export interface QueueableEntry {
+  id: string;
+  user_id: string;
+  content: string;
+  mood: string;
+  title: string | null;
+  tags?: string[];
+  primary_emotion?: Emotion | null;
+  secondary_emotions?: Emotion[];
+  emotion_intensity?: number | null;
+  emotion_triggers?: string[];
+  prompt?: string | null;
+  prompt_category?: PromptCategory | null;
+  photo_url: string | null;
+  photo_filename: string | null;
+  created_at: string;
+  updated_at: string;
+  pending_sync?: boolean;
+}
+
+/**
+ * Generate an id for an entry that has not reached the server yet
+ *
+ * @returns {string} Local entry id
+ */
+export function createLocalEntryId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Check whether an entry id belongs to an entry that only exists locally
+ *
+ * @param {string} entryId - Entry id
+ * @returns {boolean} True if the entry has never been synced
+ */
+export function isLocalEntryId(entryId: string): boolean {
+  return entryId.startsWith(LOCAL_ID_PREFIX);
+}
+
+/**
+ * Check whether the browser currently reports being offline
+ *
+ * @returns {boolean} True if offline
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Detect errors caused by the network rather than by the server rejecting a request
+ *
+ * @param {unknown} error - Error returned or thrown by a Supabase call
+ * @returns {boolean} True if the failure looks like a dropped connection
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isOffline()) return true;
+  if (!error) return false;
+
+  const message = typeof error === 'string'
+    ? error
+    : (error as { message?: string }).message || '';
+
+  return error instanceof TypeError
+    || /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+/**
+ * Open (and create on first use) the queue database
+ *
+ * @returns {Promise<IDBDatabase>} Database handle
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a single request against the queue store
+ *
+ * @param {IDBTransactionMode} mode - Transaction mode
+ * @param {function} action - Builds the request from the object store
+ * @returns {Promise<T>} Request result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Add an operation to the end of the queue
+ *
+ * @param {QueuedOperation} operation - Operation to persist
+ * @returns {Promise<number>} Id assigned to the queued operation
+ */
+export async function enqueueOperation(operation: QueuedOperation): Promise<number> {
+  const key = await withStore('readwrite', store => store.add(operation));
+  return key as number;
+}
+
+/**
+ * Replace a queued operation (used to fold edits into a pending insert)
+ *
+ * @param {QueuedOperation} operation - Operation with an existing id
+ * @returns {Promise<void>}
+ */
+export async function replaceOperation(operation: QueuedOperation): Promise<void> {
+  await withStore('readwrite', store => store.put(operation));
+}
+
+/**
+ * Remove an operation from the queue
+ *
+ * @param {number} operationId - Queued operation id
+ * @returns {Promise<void>}
+ */
+export async function removeOperation(operationId: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(operationId));
+}
+
+/**
+ * Get all queued operations for a user, oldest first
+ *
+ * @param {string} userId - Owner of the operations
+ * @returns {Promise<QueuedOperation[]>} Queued operations in replay order
+ */
+export async function getQueuedOperations(userId: string): Promise<QueuedOperation[]> {
+  const operations = await withStore<QueuedOperation[]>(
+    'readonly',
+    store => store.index('userId').getAll(userId)
+  );
+  return operations.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Apply queued operations on top of server entries so offline changes show up
+ * immediately. Affected entries are flagged with `pending_sync`.
+ *
+ * @param {T[]} entries - Entries as last loaded from the server
+ * @param {QueuedOperation[]} operations - Pending operations in replay order
+ * @returns {T[]} Entries including offline changes
+ */
+export function applyQueuedOperations<T extends QueueableEntry>(
+  entries: T[],
+  operations: QueuedOperation[]
+): T[] {
+  let result = [...entries];
+
+  for (const operation of operations) {
+    if (operation.type === 'insert' && operation.payload) {
+      if (result.some(entry => entry.id === operation.entryId)) continue;
+
+      result = [{
+        id: operation.entryId,
+        user_id: operation.userId,
+        content: operation.payload.content,
+        title: operation.payload.title,
+        mood: operation.payload.mood,
+        tags: operation.payload.tags ?? [],
+        ...getEmotionColumns(operation.emotions),
+        ...getPromptColumns(operation.prompt),
+        photo_url: null,
+        photo_filename: operation.payload.photoName ?? null,
+        created_at: operation.createdAt,
+        updated_at: operation.createdAt,
+        pending_sync: true
+      } as T, ...result];
+    } else if (operation.type === 'update' && operation.payload) {
+      const payload = operation.payload;
+      result = result.map(entry => entry.id === operation.entryId
+        ? {
+            ...entry,
+            content: payload.content,
+            title: payload.title,
+            mood: payload.mood,
+            ...(payload.tags ? { tags: payload.tags } : {}),
+            updated_at: operation.createdAt,
+            ...(payload.removePhoto ? { photo_url: null, photo_filename: null } : {}),
+            pending_sync: true
+          }
+        : entry
+      );
+    } else if (operation.type === 'delete') {
+      result = result.filter(entry => entry.id !== operation.entryId);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * Browser side of journaling reminders.
+ *
+ * Manages this device's Web Push subscription on the `/sw.js` service worker
+ * (see `pwa.ts`), which shows the reminders. The subscription is stored in `push_subscriptions`
+ * by `useReminders` so the `send-reminders` function can reach it.
+ */
+
+import { SERVICE_WORKER_URL, isServiceWorkerSupported, registerServiceWorker } from './pwa';
+
+/**
+ * Keys the server needs to send to this device
+ * @interface PushSubscriptionKeys
+ */
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Whether this browser can receive Web Push notifications
+ */
+export const isPushSupported = (): boolean =>
+  isServiceWorkerSupported() &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+/**
+ * Current notification permission, or 'unsupported' without Web Push
+ */
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isPushSupported() ? Notification.permission : 'unsupported';
+
+/**
+ * Decode a base64url VAPID key into the bytes `PushManager.subscribe` expects
+ */
+export const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+};
+
+const toSubscriptionKeys = (subscription: PushSubscription): PushSubscriptionKeys => {
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    throw new Error('Push subscription is missing its keys');
+  }
+  return { endpoint: json.endpoint, p256dh: json.keys.p256dh, auth: json.keys.auth };
+};
+
+/**
+ * Ask for notification permission and subscribe this device to Web Push
+ *
+ * @throws If permission is denied or the browser can't subscribe
+ */
+export const subscribeToPush = async (vapidPublicKey: string): Promise<PushSubscriptionKeys> => {
+  const registration = isPushSupported() ? await registerServiceWorker() : null;
+  if (!registration) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const existing = await registration.pushManager.getSubscription();
+  const subscription = existing || await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+  });
+
+  return toSubscriptionKeys(subscription);
+};
+
+/**
+ * This device's current subscription, if any
+ */
+export const getPushSubscription = async (): Promise<PushSubscriptionKeys | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription ? toSubscriptionKeys(subscription) : null;
+};
+
+/**
+ * Unsubscribe this device, returning the endpoint that was removed
+ */
+export const unsubscribeFromPush = async (): Promise<string | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return null;
+
+  const { endpoint } = subscription;
+  await subscription.unsubscribe();
+  return endpoint;
+};
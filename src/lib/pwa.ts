@@ -0,0 +1,101 @@
+/**
+ * Installable app support.
+ *
+ * Registers `/sw.js`, which caches the app shell so Zensai launches
+ * instantly and works offline, and keeps hold of the browser's
+ * `beforeinstallprompt` event so we can offer our own install button.
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * The non-standard event Chromium browsers fire when the app can be installed
+ * @interface BeforeInstallPromptEvent
+ */
+export interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
+}
+
+type InstallPromptListener = (event: BeforeInstallPromptEvent | null) => void;
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<InstallPromptListener>();
+
+const setDeferredPrompt = (event: BeforeInstallPromptEvent | null) => {
+  deferredPrompt = event;
+  listeners.forEach(listener => listener(event));
+};
+
+// The event can fire before React mounts, so start listening as soon as this
+// module loads rather than in a component
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault();
+    setDeferredPrompt(event as BeforeInstallPromptEvent);
+  });
+  window.addEventListener('appinstalled', () => setDeferredPrompt(null));
+}
+
+/**
+ * Whether this browser supports service workers
+ */
+export const isServiceWorkerSupported = (): boolean =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator;
+
+/**
+ * Whether Zensai is running as an installed app rather than in a browser tab
+ */
+export const isStandalone = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  const iosStandalone = (navigator as Navigator & { standalone?: boolean }).standalone === true;
+  return iosStandalone || Boolean(window.matchMedia?.('(display-mode: standalone)').matches);
+};
+
+/**
+ * Whether this is an iPhone or iPad, which only installs from the Share menu
+ */
+export const isIosDevice = (): boolean =>
+  typeof navigator !== 'undefined' && /iphone|ipad|ipod/i.test(navigator.userAgent);
+
+/**
+ * Register the service worker (safe to call repeatedly)
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isServiceWorkerSupported()) return null;
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+};
+
+/**
+ * The saved install prompt, if the browser has offered one
+ */
+export const getInstallPrompt = (): BeforeInstallPromptEvent | null => deferredPrompt;
+
+/**
+ * Be told when the install prompt becomes available or is used up
+ *
+ * @returns {function} Unsubscribe function
+ */
+export const onInstallPromptChange = (listener: InstallPromptListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Show the browser's install dialog
+ *
+ * @returns {Promise<boolean>} Whether the user installed the app
+ */
+export const promptInstall = async (): Promise<boolean> => {
+  const prompt = deferredPrompt;
+  if (!prompt) return false;
+
+  // A prompt can only be shown once
+  setDeferredPrompt(null);
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  return outcome === 'accepted';
+};
@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -13,4 +13,18 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     persistSession: true,
     detectSessionInUrl: true
   }
-});
\ No newline at end of file
+});
+
+/**
+ * The message from an edge function's error response, if it sent one
+ */
+export async function getFunctionErrorMessage(functionError: unknown, fallback: string): Promise<string> {
+  if (!(functionError instanceof FunctionsHttpError)) return fallback;
+
+  try {
+    const body = await (functionError.context as Response).clone().json();
+    return typeof body?.error === 'string' ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
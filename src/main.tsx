@@ -1,6 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { registerServiceWorker } from './lib/pwa';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
@@ -8,3 +9,10 @@ createRoot(document.getElementById('root')!).render(
     <App />
   </StrictMode>
 );
+
+// The dev server changes modules on every save, so only cache production builds
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    registerServiceWorker().catch(err => console.error('Error registering service worker:', err));
+  });
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import Logo from '../components/Logo';
+import { supabase } from '../lib/supabase';
+import { RESTORE_ACCOUNT } from '../constants/uiStrings';
+
+type RestoreState = 'restoring' | 'restored' | 'failed';
+
+/**
+ * Landing page for the undo link in the account deletion email
+ */
+export default function RestoreAccountPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<RestoreState>(token ? 'restoring' : 'failed');
+  const [error, setError] = useState(token ? '' : RESTORE_ACCOUNT.MISSING_TOKEN);
+  // A token only works once, so don't send it twice when effects re-run
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    if (!token || hasRequested.current) return;
+    hasRequested.current = true;
+
+    const restore = async () => {
+      try {
+        const { data, error: functionError } = await supabase.functions.invoke('restore-account', {
+          body: { token }
+        });
+
+        if (functionError || !data?.success) {
+          console.error('Restore account error:', functionError || data?.error);
+          setError(data?.error || 'This restore link has expired or was already used.');
+          setState('failed');
+          return;
+        }
+
+        setState('restored');
+      } catch (err) {
+        console.error('Restore account error:', err);
+        setError('Restoring your account failed. Please try again.');
+        setState('failed');
+      }
+    };
+
+    restore();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+      <motion.main
+        className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-xl border border-white/30 dark:border-gray-600/30 max-w-md w-full text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <Logo size="md" className="mx-auto mb-6" />
+
+        {state === 'restoring' && (
+          <div role="status">
+            <div className="w-12 h-12 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-zen-sage-600 dark:text-gray-300 font-medium">{RESTORE_ACCOUNT.RESTORING}</p>
+          </div>
+        )}
+
+        {state === 'restored' && (
+          <>
+            <CheckCircle className="w-12 h-12 text-zen-mint-500 mx-auto mb-4" aria-hidden="true" />
+            <h1 className="text-2xl font-display font-bold text-zen-sage-800 dark:text-gray-100 mb-2">
+              {RESTORE_ACCOUNT.SUCCESS_TITLE}
+            </h1>
+            <p className="text-zen-sage-600 dark:text-gray-400 mb-6">{RESTORE_ACCOUNT.SUCCESS_MESSAGE}</p>
+            <Link
+              to="/auth"
+              className="inline-block px-6 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl shadow-lg hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300"
+            >
+              {RESTORE_ACCOUNT.SIGN_IN}
+            </Link>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" aria-hidden="true" />
+            <h1 className="text-2xl font-display font-bold text-zen-sage-800 dark:text-gray-100 mb-2">
+              {RESTORE_ACCOUNT.ERROR_TITLE}
+            </h1>
+            <p className="text-zen-sage-600 dark:text-gray-400 mb-6" role="alert">{error}</p>
+            <Link
+              to="/"
+              className="inline-block px-6 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              {RESTORE_ACCOUNT.HOME}
+            </Link>
+          </>
+        )}
+      </motion.main>
+    </div>
+  );
+}
@@ -137,10 +137,150 @@ describe('JournalEntryForm', () => {
       'This is my journal entry',
       'My Journal Title',
       4,
-      expect.any(File)
+      expect.any(File),
+      [],
+      null
+    );
+  });
+
+  it('adds tags from typing and from suggestions', async () => {
+    const mockSubmit = vi.fn();
+    
+    act(() => {
+      render(
+        <JournalEntryForm
+          onSubmit={mockSubmit}
+          isSubmitting={false}
+          error=""
+          dailyPrompt="What are you grateful for today?"
+          isLoadingPrompt={false}
+          onGenerateNewPrompt={vi.fn()}
+          showMoodSuggestion={false}
+          aiDetectedMood={null}
+          onAcceptAiMood={vi.fn()}
+          onDismissMoodSuggestion={vi.fn()}
+          availableTags={['work', 'family']}
+        />
+      );
+    });
+    
+    const tagInput = screen.getByLabelText(/tags/i);
+    
+    act(() => {
+      fireEvent.change(tagInput, { target: { value: '#Morning Walk' } });
+      fireEvent.keyDown(tagInput, { key: 'Enter' });
+    });
+    
+    act(() => {
+      fireEvent.focus(tagInput);
+      fireEvent.change(tagInput, { target: { value: 'wo' } });
+    });
+    
+    act(() => {
+      fireEvent.mouseDown(screen.getByRole('option', { name: /work/i }));
+    });
+    
+    act(() => {
+      fireEvent.change(screen.getByRole('textbox', { name: /your thoughts/i }), {
+        target: { value: 'A calm start to the day' }
+      });
+      fireEvent.click(screen.getByText('Select Good Mood'));
+    });
+    
+    act(() => {
+      fireEvent.click(screen.getByLabelText('Save journal entry'));
+    });
+    
+    expect(mockSubmit).toHaveBeenCalledWith(
+      'A calm start to the day',
+      '',
+      4,
+      null,
+      ['morning-walk', 'work'],
+      null
     );
   });
   
+  it('saves the prompt with the entry when answering it', () => {
+    const mockSubmit = vi.fn();
+
+    render(
+      <JournalEntryForm
+        onSubmit={mockSubmit}
+        isSubmitting={false}
+        error=""
+        dailyPrompt="What's one worry on your mind?"
+        isLoadingPrompt={false}
+        onGenerateNewPrompt={vi.fn()}
+        showMoodSuggestion={false}
+        aiDetectedMood={null}
+        onAcceptAiMood={vi.fn()}
+        onDismissMoodSuggestion={vi.fn()}
+        promptCategory="reframing"
+      />
+    );
+
+    act(() => {
+      fireEvent.click(screen.getByRole('button', { name: /write about this/i }));
+    });
+    expect(screen.getByRole('button', { name: /answering this prompt/i })).toHaveAttribute('aria-pressed', 'true');
+
+    act(() => {
+      fireEvent.change(screen.getByRole('textbox', { name: /your thoughts/i }), {
+        target: { value: 'Mostly the move' }
+      });
+      fireEvent.click(screen.getByText('Select Good Mood'));
+    });
+
+    act(() => {
+      fireEvent.click(screen.getByLabelText('Save journal entry'));
+    });
+
+    expect(mockSubmit).toHaveBeenCalledWith(
+      'Mostly the move',
+      '',
+      4,
+      null,
+      [],
+      { text: "What's one worry on your mind?", category: 'reframing' }
+    );
+  });
+
+  it('lets the user choose a kind of prompt and see prompts they answered', () => {
+    const onSelectPromptCategory = vi.fn();
+
+    render(
+      <JournalEntryForm
+        onSubmit={vi.fn()}
+        isSubmitting={false}
+        error=""
+        dailyPrompt="What are you grateful for today?"
+        isLoadingPrompt={false}
+        onGenerateNewPrompt={vi.fn()}
+        showMoodSuggestion={false}
+        aiDetectedMood={null}
+        onAcceptAiMood={vi.fn()}
+        onDismissMoodSuggestion={vi.fn()}
+        onSelectPromptCategory={onSelectPromptCategory}
+        answeredPrompts={[
+          { text: 'How did the visit go?', category: null, entryId: 'c', answeredAt: '2025-06-19T09:00:00Z' }
+        ]}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Anything' })).toHaveAttribute('aria-pressed', 'true');
+
+    act(() => {
+      fireEvent.click(screen.getByRole('button', { name: /self-compassion/i }));
+    });
+    expect(onSelectPromptCategory).toHaveBeenCalledWith('self-compassion');
+
+    act(() => {
+      fireEvent.click(screen.getByRole('button', { name: /prompts you've answered \(1\)/i }));
+    });
+    expect(screen.getByText('How did the visit go?')).toBeInTheDocument();
+  });
+
   it('displays error message', () => {
     act(() => {
       render(
@@ -226,4 +366,27 @@ describe('JournalEntryForm', () => {
     });
     expect(mockDismissMoodSuggestion).toHaveBeenCalledTimes(1);
   });
-});
\ No newline at end of file
+
+  it('shows the emotions found with the mood suggestion', () => {
+    render(
+      <JournalEntryForm
+        onSubmit={vi.fn()}
+        isSubmitting={false}
+        error=""
+        dailyPrompt="What are you grateful for today?"
+        isLoadingPrompt={false}
+        onGenerateNewPrompt={vi.fn()}
+        showMoodSuggestion={true}
+        aiDetectedMood={2}
+        aiEmotions={{ primary: 'anxious', secondary: ['tired'], intensity: 3, triggers: ['work deadline'] }}
+        onAcceptAiMood={vi.fn()}
+        onDismissMoodSuggestion={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/anxious/)).toBeInTheDocument();
+    expect(screen.getByText(/with a little tired too/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Intensity 3 of 5')).toBeInTheDocument();
+    expect(screen.getByText(/work deadline/)).toBeInTheDocument();
+  });
+});
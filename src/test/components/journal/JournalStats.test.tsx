@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '../../utils';
+import JournalStats from '../../../components/journal/JournalStats';
+
+describe('JournalStats', () => {
+  it('shows banked streak freezes', () => {
+    render(
+      <JournalStats
+        streak={9}
+        bestStreak={12}
+        totalEntries={40}
+        alreadyJournaledToday={true}
+        streakFreezes={2}
+      />
+    );
+
+    expect(screen.getByText('2 streak freezes')).toBeInTheDocument();
+    expect(screen.queryByText(/streak is safe/)).not.toBeInTheDocument();
+  });
+
+  it('explains that freezes will cover missed days', () => {
+    render(
+      <JournalStats
+        streak={9}
+        bestStreak={12}
+        totalEntries={40}
+        alreadyJournaledToday={false}
+        streakFreezes={1}
+        missedDays={1}
+      />
+    );
+
+    expect(screen.getByText('1 streak freeze')).toBeInTheDocument();
+    expect(screen.getByText(
+      'Your 9-day streak is safe. Write today and a freeze will cover the day you missed.'
+    )).toBeInTheDocument();
+  });
+
+  it('hides freezes when the user has none', () => {
+    render(
+      <JournalStats
+        streak={0}
+        bestStreak={12}
+        totalEntries={40}
+        alreadyJournaledToday={false}
+      />
+    );
+
+    expect(screen.queryByText(/streak freeze/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DeleteAccountModal } from '../../../components/settings/ConfirmationModals';
+
+const baseProps = {
+  isOpen: true,
+  onClose: vi.fn(),
+  onConfirm: vi.fn(),
+  confirmText: 'DELETE',
+  onConfirmTextChange: vi.fn(),
+  isConfirmDisabled: false
+};
+
+describe('DeleteAccountModal', () => {
+  it('asks for confirmation before anything is deleted', () => {
+    render(<DeleteAccountModal {...baseProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Account' }));
+    expect(baseProps.onConfirm).toHaveBeenCalled();
+  });
+
+  it('shows the outcome of each deletion step', () => {
+    const onFinish = vi.fn();
+    render(
+      <DeleteAccountModal
+        {...baseProps}
+        report={[
+          { step: 'schedule', status: 'done' },
+          { step: 'subscription', status: 'skipped' },
+          { step: 'email', status: 'failed', detail: 'Email provider error' }
+        ]}
+        purgeAfter="2025-07-02T10:00:00.000Z"
+        onFinish={onFinish}
+      />
+    );
+
+    expect(screen.getByText('Account Scheduled for Deletion')).toBeInTheDocument();
+    expect(screen.getByText('Schedule permanent deletion').closest('li')).toHaveTextContent('Done');
+    expect(screen.getByText('Stop subscription renewal').closest('li')).toHaveTextContent('Nothing to do');
+    expect(screen.getByText('Send restore link by email').closest('li')).toHaveTextContent('Failed');
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign Out' }));
+    expect(onFinish).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DeletionStep,
+  GRACE_PERIOD_DAYS,
+  createUndoToken,
+  getPurgeDate,
+  getSignInBanDuration,
+  hashUndoToken,
+  isReportComplete,
+  runDeletionStep
+} from '../../../supabase/functions/_shared/accountDeletion.ts';
+
+describe('account deletion helpers', () => {
+  it('records done, skipped and failed steps without stopping', async () => {
+    const report: DeletionStep[] = [];
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await runDeletionStep(report, 'photos', async () => {});
+    await runDeletionStep(report, 'subscription', async () => 'skipped');
+    await runDeletionStep(report, 'stripe_customer', async () => {
+      throw new Error('Stripe is down');
+    });
+    await runDeletionStep(report, 'profile', async () => {});
+    consoleError.mockRestore();
+
+    expect(report).toEqual([
+      { step: 'photos', status: 'done' },
+      { step: 'subscription', status: 'skipped' },
+      { step: 'stripe_customer', status: 'failed', detail: 'Stripe is down' },
+      { step: 'profile', status: 'done' }
+    ]);
+    expect(isReportComplete(report)).toBe(false);
+    expect(isReportComplete(report.filter(entry => entry.status !== 'failed'))).toBe(true);
+  });
+
+  it('purges after the grace period', () => {
+    const requestedAt = new Date('2025-06-25T10:00:00Z');
+    expect(GRACE_PERIOD_DAYS).toBe(7);
+    expect(getPurgeDate(requestedAt).toISOString()).toBe('2025-07-02T10:00:00.000Z');
+  });
+
+  it('blocks sign-in until the purge run after the purge date has had a retry', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    expect(getSignInBanDuration(getPurgeDate(now), now)).toBe(`${GRACE_PERIOD_DAYS * 24 + 48}h`);
+    expect(getSignInBanDuration(new Date('2025-06-01T11:00:00Z'), now)).toBe('48h');
+  });
+
+  it('creates unguessable undo tokens and hashes them consistently', async () => {
+    const token = createUndoToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(createUndoToken()).not.toBe(token);
+    expect(await hashUndoToken(token)).toBe(await hashUndoToken(token));
+    expect(await hashUndoToken(token)).not.toBe(token);
+    // SHA-256 of "abc"
+    expect(await hashUndoToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'mock' };
+
+describe('analyze-mood', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      rpc: { consume_feature_quota: { data: [{ allowed: true, used: 1, daily_limit: 2 }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const analyze = async (reply: string) => {
+    const handler = await loadEdgeFunction('analyze-mood', { ...ENV, LLM_MOCK_REPLY: reply });
+    const response = await handler(createFunctionRequest('analyze-mood', {
+      token: 'token-a',
+      body: { entry: 'The deadline moved again and I barely slept.' }
+    }));
+    return response.json();
+  };
+
+  it('returns the emotions the model found, within the taxonomy', async () => {
+    const body = await analyze(JSON.stringify({
+      primary: 'anxious',
+      secondary: ['tired', 'euphoric-ish'],
+      intensity: 4,
+      triggers: ['deadline']
+    }));
+
+    expect(body).toMatchObject({
+      success: true,
+      emotions: { primary: 'anxious', secondary: ['tired'], intensity: 4, triggers: ['deadline'] },
+      quota: { remaining: 1 }
+    });
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+
+  it('falls back to neutral and gives the use back when no known emotion is named', async () => {
+    const body = await analyze('{"primary": "meh"}');
+
+    expect(body).toMatchObject({ success: false, mood: 'neutral' });
+    expect(body.emotions).toBeUndefined();
+    expect(supabase.client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'mood-analyzer'
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'openai', OPENAI_KEY: 'sk-test', LLM_MAX_RETRIES: '0' };
+
+const openAIReply = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }], usage: {} }), { status: 200 });
+
+describe('assess-entry-safety', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fetchMock);
+    createClient.mockReturnValue(createFakeSupabase({ users: { 'token-a': { id: 'user-a' } } }).client);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const assess = async (entry: string) => {
+    const handler = await loadEdgeFunction('assess-entry-safety', ENV);
+    return handler(createFunctionRequest('assess-entry-safety', { token: 'token-a', body: { entry } }));
+  };
+
+  it('returns the classification and reads both ends of a long entry', async () => {
+    fetchMock.mockResolvedValue(openAIReply('Sure: {"level": "Crisis", "categories": ["suicidal", "suicidal", "other"]}'));
+    const entry = `${'a'.repeat(3000)}START-END${'b'.repeat(3000)}I don't want to be here anymore`;
+
+    const response = await assess(entry);
+
+    await expect(response.json()).resolves.toMatchObject({
+      success: true,
+      classification: { level: 'crisis', categories: ['suicidal'] }
+    });
+    const prompt = JSON.parse(fetchMock.mock.calls[0][1].body).messages[1].content;
+    expect(prompt).toContain('I don\'t want to be here anymore');
+    expect(prompt).not.toContain('START-END');
+  });
+
+  it('answers 200 without a classification when the reply can\'t be read', async () => {
+    fetchMock.mockResolvedValue(openAIReply('{"level": "maybe"}'));
+
+    const response = await assess('Rough day at work.');
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ success: false, error: 'Safety check unavailable' });
+    expect(body.classification).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AuthClient,
+  AuthError,
+  assertSameUser,
+  authErrorResponse,
+  getBearerToken,
+  requireUser
+} from '../../../supabase/functions/_shared/auth.ts';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('https://esm.sh/@supabase/supabase-js@2.38.4', () => ({ createClient }));
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const Stripe = vi.fn();
+vi.mock('npm:stripe@13.2.0', () => ({ default: Stripe }));
+
+const USER_A = { id: 'user-a', email: 'a@example.com' };
+const USER_B_ID = 'user-b';
+
+// Accepts only USER_A's token, like Supabase Auth verifying the JWT signature
+const createAuthClient = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'token-a'
+        ? { data: { user: USER_A }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (authorization?: string) =>
+  new Request('https://example.supabase.co/functions/v1/export-journal-data', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {}
+  });
+
+describe('edge function auth', () => {
+  it('reads the bearer token from the Authorization header', () => {
+    expect(getBearerToken(createRequest('Bearer token-a'))).toBe('token-a');
+    expect(getBearerToken(createRequest('Basic abc'))).toBeNull();
+    expect(getBearerToken(createRequest())).toBeNull();
+  });
+
+  it('returns the user from a verified token', async () => {
+    await expect(requireUser(createRequest('Bearer token-a'), createAuthClient())).resolves.toEqual(USER_A);
+  });
+
+  it('only allows a user id in the body that matches the signed-in user', () => {
+    expect(() => assertSameUser(USER_A, undefined)).not.toThrow();
+    expect(() => assertSameUser(USER_A, USER_A.id)).not.toThrow();
+    expect(() => assertSameUser(USER_A, USER_B_ID)).toThrow(AuthError);
+  });
+
+  it('turns auth errors into JSON responses with the matching status', async () => {
+    const response = authErrorResponse(new AuthError('You can only access your own account', 403));
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toMatchObject({
+      success: false,
+      error: 'You can only access your own account'
+    });
+  });
+});
+
+describe.each([
+  ['export-journal-data', 'user_id'],
+  ['delete-user-data', 'user_id'],
+  ['create-checkout-session', 'userId']
+])('%s auth', (name, userIdField) => {
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    supabase = createFakeSupabase({ users: { 'token-a': USER_A } });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  const callFunction = async (options: { token?: string; body?: Record<string, unknown> }) => {
+    const handler = await loadEdgeFunction(name, {
+      ...SUPABASE_ENV,
+      STRIPE_SECRET_KEY: 'sk_test',
+      STRIPE_PRICE_ID_MONTHLY: 'price_monthly',
+      STRIPE_PRICE_ID_YEARLY: 'price_yearly'
+    });
+    return handler(createFunctionRequest(name, { body: { priceId: 'price_monthly', ...options.body }, token: options.token }));
+  };
+
+  it('rejects requests without a valid token', async () => {
+    expect((await callFunction({})).status).toBe(401);
+    expect((await callFunction({ token: 'forged-token' })).status).toBe(401);
+    expect(supabase.client.from).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request for another user\'s data', async () => {
+    const response = await callFunction({ token: 'token-a', body: { [userIdField]: USER_B_ID } });
+
+    expect(response.status).toBe(403);
+    expect(supabase.client.from).not.toHaveBeenCalled();
+    expect(Stripe).not.toHaveBeenCalled();
+  });
+});
+
+describe('export-journal-data', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('exports the signed-in user\'s journal when the body omits or matches their id', async () => {
+    const supabase = createFakeSupabase({
+      users: { 'token-a': USER_A },
+      tables: {
+        profiles: { data: { name: 'Ada', timezone: 'UTC' } },
+        journal_entries: { data: [] }
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+    const handler = await loadEdgeFunction('export-journal-data', SUPABASE_ENV);
+
+    for (const body of [{}, { user_id: USER_A.id }]) {
+      const response = await handler(createFunctionRequest('export-journal-data', { token: 'token-a', body }));
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toMatchObject({ data: { export_info: { user_id: USER_A.id } } });
+    }
+    expect(supabase.calls.filter(call => call.method === 'eq' && call.args[0] === 'user_id'))
+      .toEqual(expect.arrayContaining([expect.objectContaining({ args: ['user_id', USER_A.id] })]));
+    expect(supabase.calls.some(call => call.args.includes(USER_B_ID))).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAYMENT_GRACE_DAYS,
+  STALE_PROCESSING_MS,
+  getCursorUpdate,
+  getHistoryKind,
+  getPaidUpdate,
+  getPastDueUpdate,
+  getRecordedEventAction,
+  getSubscriptionUpdate,
+  isStaleEvent
+} from '../../../supabase/functions/_shared/billing.ts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('billing rules', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('starts a grace period on the first failed payment and keeps it on retries', () => {
+    const first = getPastDueUpdate({ payment_status: 'ok', payment_failed_at: null }, now);
+
+    expect(first).toEqual({
+      subscription_status: 'premium',
+      subscription_expires_at: new Date(now.getTime() + PAYMENT_GRACE_DAYS * DAY).toISOString(),
+      payment_status: 'past_due',
+      payment_failed_at: now.toISOString(),
+      grace_period_ends_at: new Date(now.getTime() + PAYMENT_GRACE_DAYS * DAY).toISOString()
+    });
+
+    const retry = getPastDueUpdate(first, new Date(now.getTime() + 3 * DAY));
+    expect(retry.grace_period_ends_at).toBe(first.grace_period_ends_at);
+  });
+
+  it('clears the past-due state when an invoice is paid', () => {
+    const periodEnd = Math.floor(Date.parse('2025-07-01T12:00:00Z') / 1000);
+
+    expect(getPaidUpdate(periodEnd)).toEqual({
+      subscription_status: 'premium',
+      subscription_expires_at: '2025-07-01T12:00:00.000Z',
+      payment_status: 'ok',
+      payment_failed_at: null,
+      grace_period_ends_at: null
+    });
+  });
+
+  it('maps Stripe subscription statuses', () => {
+    const periodEnd = Math.floor(Date.parse('2025-07-01T12:00:00Z') / 1000);
+    const update = (status: string, cancelAtPeriodEnd = false) =>
+      getSubscriptionUpdate({ status, cancel_at_period_end: cancelAtPeriodEnd, current_period_end: periodEnd }, null, now);
+
+    expect(update('active')).toMatchObject({ subscription_status: 'premium', payment_status: 'ok' });
+    expect(update('active', true)).toMatchObject({ subscription_status: 'cancelled', payment_status: 'ok' });
+    expect(update('past_due')).toMatchObject({ subscription_status: 'premium', payment_status: 'past_due' });
+    expect(update('unpaid')).toMatchObject({ subscription_status: 'cancelled', grace_period_ends_at: null });
+  });
+
+  describe('event ordering', () => {
+    const june = Math.floor(Date.parse('2025-06-01T00:00:00Z') / 1000);
+    const july = Math.floor(Date.parse('2025-07-01T00:00:00Z') / 1000);
+    const cursor = getCursorUpdate(july, june + 60);
+
+    it('applies the first event and anything newer', () => {
+      expect(isStaleEvent(null, june, june)).toBe(false);
+      expect(isStaleEvent({ billing_period_end: null, billing_event_at: null }, june, june)).toBe(false);
+      expect(isStaleEvent(cursor, july, june + 120)).toBe(false);
+      expect(isStaleEvent(cursor, july + 30 * 86400, june)).toBe(false);
+    });
+
+    it('skips late deliveries from an earlier period or earlier in the same period', () => {
+      // A retried failure for last month must not undo this month's renewal
+      expect(isStaleEvent(cursor, june, june + 600)).toBe(true);
+      expect(isStaleEvent(cursor, july, june + 30)).toBe(true);
+    });
+  });
+
+  describe('getHistoryKind', () => {
+    it('describes subscription changes from the previous attributes', () => {
+      expect(getHistoryKind('customer.subscription.updated', {
+        previousAttributes: { cancel_at_period_end: false },
+        cancelAtPeriodEnd: true
+      })).toBe('cancelled');
+      expect(getHistoryKind('customer.subscription.updated', {
+        previousAttributes: { cancel_at_period_end: true },
+        cancelAtPeriodEnd: false
+      })).toBe('resumed');
+      expect(getHistoryKind('customer.subscription.updated', { previousAttributes: { items: {} } })).toBe('plan_changed');
+      expect(getHistoryKind('customer.subscription.updated', { previousAttributes: { status: 'active' } })).toBeNull();
+    });
+
+    it('only lists renewals and recoveries for paid invoices', () => {
+      expect(getHistoryKind('invoice.paid', { billingReason: 'subscription_cycle' })).toBe('renewed');
+      expect(getHistoryKind('invoice.paid', { billingReason: 'subscription_create' })).toBeNull();
+      expect(getHistoryKind('invoice.paid', { billingReason: 'subscription_cycle', wasPastDue: true })).toBe('payment_recovered');
+    });
+  });
+
+  describe('getRecordedEventAction', () => {
+    it('acknowledges handled events and retries failed or stalled ones', () => {
+      const updatedAt = now.toISOString();
+      const later = (ms: number) => new Date(now.getTime() + ms);
+
+      expect(getRecordedEventAction({ status: 'processed', updated_at: updatedAt }, later(1000))).toBe('duplicate');
+      expect(getRecordedEventAction({ status: 'skipped', updated_at: updatedAt }, later(1000))).toBe('duplicate');
+      expect(getRecordedEventAction({ status: 'processing', updated_at: updatedAt }, later(1000))).toBe('in_progress');
+      expect(getRecordedEventAction({ status: 'processing', updated_at: updatedAt }, later(STALE_PROCESSING_MS + 1))).toBe('process');
+      expect(getRecordedEventAction({ status: 'failed', updated_at: updatedAt }, later(1000))).toBe('process');
+    });
+  });
+});
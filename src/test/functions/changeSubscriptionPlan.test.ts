@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const stripe = {
+  subscriptions: { list: vi.fn(), update: vi.fn() },
+  subscriptionSchedules: { create: vi.fn(), retrieve: vi.fn(), update: vi.fn(), release: vi.fn() }
+};
+vi.mock('npm:stripe@13.2.0', () => ({ default: vi.fn(() => stripe) }));
+
+const ENV = {
+  ...SUPABASE_ENV,
+  STRIPE_SECRET_KEY: 'sk_test',
+  STRIPE_PRICE_ID_MONTHLY: 'price_monthly',
+  STRIPE_PRICE_ID_YEARLY: 'price_yearly'
+};
+
+const PERIOD_END = 1_767_225_600;
+
+const subscription = (price: string, discount: unknown = null) => ({
+  id: 'sub_1',
+  status: 'active',
+  cancel_at_period_end: false,
+  current_period_end: PERIOD_END,
+  trial_end: null,
+  schedule: null,
+  discount,
+  items: { data: [{ id: 'si_1', price: { id: price } }] }
+});
+
+describe('change-subscription-plan', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: { profiles: { data: { revenuecat_user_id: 'cus_1', scheduled_tier: null } } }
+    });
+    createClient.mockReturnValue(supabase.client);
+    stripe.subscriptionSchedules.create.mockResolvedValue({
+      id: 'sub_sched_1',
+      phases: [{ start_date: 1_735_689_600, coupon: 'LAUNCH' }]
+    });
+  });
+
+  const changePlan = async (body: Record<string, unknown>) => {
+    const handler = await loadEdgeFunction('change-subscription-plan', ENV);
+    return handler(createFunctionRequest('change-subscription-plan', { token: 'token-a', body }));
+  };
+
+  it('schedules a downgrade at renewal and keeps the coupon on both plans', async () => {
+    stripe.subscriptions.list.mockResolvedValue({
+      data: [subscription('price_yearly', { coupon: { id: 'LAUNCH', duration: 'forever' }, end: null })]
+    });
+
+    const response = await changePlan({ plan: 'monthly' });
+
+    expect(response.status).toBe(200);
+    expect(stripe.subscriptionSchedules.create).toHaveBeenCalledWith({ from_subscription: 'sub_1' });
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledWith('sub_sched_1', expect.objectContaining({
+      phases: [
+        expect.objectContaining({ items: [{ price: 'price_yearly', quantity: 1 }], coupon: 'LAUNCH', end_date: PERIOD_END }),
+        expect.objectContaining({ items: [{ price: 'price_monthly', quantity: 1 }], coupon: 'LAUNCH' })
+      ]
+    }));
+    expect(supabase.callsTo('profiles').find(call => call.method === 'update')?.args[0])
+      .toMatchObject({ scheduled_tier: 'premium' });
+  });
+
+  it('reports a declined card when upgrading', async () => {
+    stripe.subscriptions.list.mockResolvedValue({ data: [subscription('price_monthly')] });
+    stripe.subscriptions.update.mockRejectedValue(
+      Object.assign(new Error('Your card was declined.'), { type: 'StripeCardError' })
+    );
+
+    const response = await changePlan({ plan: 'yearly' });
+
+    expect(response.status).toBe(402);
+    await expect(response.json()).resolves.toMatchObject({ error: 'Your card was declined.' });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENTRY = { id: 'entry-1', content: 'Argued with my brother again.', mood: 'low', title: null, is_encrypted: false };
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(event => JSON.parse(event.replace(/^data: /, '')));
+
+describe('chat-with-zeno', () => {
+  const fetchMock = vi.fn();
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const chat = async (env: Record<string, string>, entry: typeof ENTRY = ENTRY) => {
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        journal_entries: { data: entry },
+        entry_conversations: [
+          { data: [{ role: 'assistant', content: 'What happened?' }] },
+          { data: { id: 'msg-1', role: 'user', content: 'He never listens.' } },
+          { data: { id: 'msg-2', role: 'assistant', content: 'That sounds lonely. When did you last feel heard?' } }
+        ]
+      },
+      rpc: { consume_feature_quota: { data: [{ allowed: true, used: 3, daily_limit: 5 }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const handler = await loadEdgeFunction('chat-with-zeno', { ...SUPABASE_ENV, LLM_MAX_RETRIES: '0', ...env });
+    return handler(createFunctionRequest('chat-with-zeno', {
+      token: 'token-a',
+      body: { entry_id: 'entry-1', message: ' He never listens. ' }
+    }));
+  };
+
+  it('streams the reply and saves both messages', async () => {
+    const response = await chat({
+      LLM_PROVIDER: 'mock',
+      LLM_MOCK_REPLY: 'That sounds lonely. When did you last feel heard?'
+    });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+    expect(events.filter(event => event.type === 'delta').map(event => event.text).join(''))
+      .toBe('That sounds lonely. When did you last feel heard?');
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'done',
+      message: { id: 'msg-2' },
+      user_message: { id: 'msg-1' },
+      quota: { remaining: 2 }
+    });
+
+    const inserts = supabase.callsTo('entry_conversations').filter(call => call.method === 'insert');
+    expect(inserts.map(call => call.args[0])).toEqual([
+      { entry_id: 'entry-1', user_id: 'user-a', role: 'user', content: 'He never listens.' },
+      { entry_id: 'entry-1', user_id: 'user-a', role: 'assistant', content: 'That sounds lonely. When did you last feel heard?' }
+    ]);
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+
+  it('sends an error event and gives the use back when the stream breaks', async () => {
+    fetchMock.mockResolvedValue(new Response(
+      'data: {"choices":[{"delta":{"content":"That sounds"}}]}\n\ndata: {"choices":\n\n',
+      { status: 200 }
+    ));
+
+    const response = await chat({ LLM_PROVIDER: 'openai', OPENAI_KEY: 'sk-test' });
+
+    const events = await readEvents(response);
+    expect(events).toEqual([
+      { type: 'delta', text: 'That sounds' },
+      { type: 'error', error: 'Zeno couldn\'t reply just now. Please try again.' }
+    ]);
+    expect(supabase.callsTo('entry_conversations').filter(call => call.method === 'insert')).toHaveLength(1);
+    expect(supabase.client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'zeno-chat'
+    });
+  });
+
+  it('won\'t discuss an encrypted entry or count a use for it', async () => {
+    const response = await chat({ LLM_PROVIDER: 'mock' }, { ...ENTRY, is_encrypted: true });
+
+    expect(response.status).toBe(400);
+    expect(supabase.client.rpc).not.toHaveBeenCalled();
+  });
+});
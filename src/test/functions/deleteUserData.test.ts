@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('https://esm.sh/@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const Stripe = vi.fn();
+vi.mock('npm:stripe@13.2.0', () => ({ default: Stripe }));
+
+const USER = { id: 'user-a', email: 'a@example.com' };
+const ENV = { ...SUPABASE_ENV, RESEND_API_KEY: 're_test', APP_URL: 'https://app.example.com' };
+
+describe('delete-user-data', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    supabase = createFakeSupabase({
+      users: { 'token-a': USER },
+      tables: {
+        profiles: { data: { name: '<b>Ada</b>', revenuecat_user_id: null } },
+        reminder_preferences: { data: [] }
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const deleteAccount = async (env: Record<string, string> = ENV) => {
+    const handler = await loadEdgeFunction('delete-user-data', env);
+    return handler(createFunctionRequest('delete-user-data', { token: 'token-a', body: {} }));
+  };
+
+  it('schedules the deletion, emails the undo link and bans sign-in until the purge', async () => {
+    const response = await deleteAccount();
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true });
+
+    const [schedule] = supabase.callsTo('account_deletions').filter(call => call.method === 'upsert');
+    expect(schedule.args[0]).toMatchObject({ user_id: USER.id, status: 'pending', purge_after: body.purge_after });
+
+    const email = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(email.to).toBe(USER.email);
+    expect(email.html).toContain('&lt;b&gt;Ada&lt;/b&gt;');
+    expect(email.html).toContain('https://app.example.com/restore-account?token=');
+
+    expect(supabase.client.auth.admin.updateUserById).toHaveBeenCalledWith(USER.id, {
+      ban_duration: '216h'
+    });
+  });
+
+  it('refuses to start when the undo link can\'t be emailed', async () => {
+    const response = await deleteAccount({ ...ENV, RESEND_API_KEY: '' });
+
+    expect(response.status).toBe(503);
+    expect(supabase.callsTo('account_deletions')).toEqual([]);
+    expect(supabase.client.auth.admin.updateUserById).not.toHaveBeenCalled();
+  });
+
+  it('calls the deletion off when the email fails', async () => {
+    fetchMock.mockResolvedValue(new Response('rate limited', { status: 429 }));
+
+    const response = await deleteAccount();
+
+    expect(response.status).toBe(500);
+    expect(supabase.callsTo('account_deletions').find(call => call.method === 'update')?.args[0])
+      .toMatchObject({ status: 'cancelled', undo_token_hash: null });
+    expect(supabase.client.auth.admin.updateUserById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMoodFromEmotions,
+  parseEmotionAnalysis
+} from '../../../supabase/functions/_shared/emotions.ts';
+
+describe('emotion analysis', () => {
+  it('reads the JSON the model returns', () => {
+    expect(parseEmotionAnalysis(
+      '{"primary": "anxious", "secondary": ["tired", "hopeful"], "intensity": 4, "triggers": ["work deadline"]}'
+    )).toEqual({
+      primary: 'anxious',
+      secondary: ['tired', 'hopeful'],
+      intensity: 4,
+      triggers: ['work deadline']
+    });
+  });
+
+  it('finds the JSON inside prose or a code fence', () => {
+    const reply = 'Here you go:\n```json\n{"primary": "Grateful", "secondary": [], "intensity": 2, "triggers": []}\n```';
+
+    expect(parseEmotionAnalysis(reply)?.primary).toBe('grateful');
+  });
+
+  it('keeps only known emotions and sensible limits', () => {
+    const analysis = parseEmotionAnalysis(JSON.stringify({
+      primary: 'sad',
+      secondary: ['sad', 'melancholic', 'lonely', 'lonely', 'tired', 'angry'],
+      intensity: 9,
+      triggers: ['  a breakup  ', '', 42, 'moving out', 'rain', 'too many']
+    }));
+
+    expect(analysis).toEqual({
+      primary: 'sad',
+      secondary: ['lonely', 'tired'],
+      intensity: 5,
+      triggers: ['a breakup', 'moving out', 'rain']
+    });
+  });
+
+  it('gives up without a known primary emotion', () => {
+    expect(parseEmotionAnalysis('good')).toBeNull();
+    expect(parseEmotionAnalysis('{"primary": "melancholic"}')).toBeNull();
+    expect(parseEmotionAnalysis('{"primary": ')).toBeNull();
+  });
+
+  it('maps emotions onto the five moods', () => {
+    const base = { secondary: [], triggers: [] };
+
+    expect(getMoodFromEmotions({ ...base, primary: 'joyful', intensity: 5 })).toBe('amazing');
+    expect(getMoodFromEmotions({ ...base, primary: 'grateful', intensity: 2 })).toBe('good');
+    expect(getMoodFromEmotions({ ...base, primary: 'calm', intensity: 5 })).toBe('neutral');
+    expect(getMoodFromEmotions({ ...base, primary: 'lonely', intensity: 3 })).toBe('low');
+    expect(getMoodFromEmotions({ ...base, primary: 'overwhelmed', intensity: 4 })).toBe('struggling');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('https://esm.sh/@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const entry = (id: string, createdAt: string) => ({
+  id,
+  title: `Entry ${id}`,
+  content: 'A quiet morning',
+  mood: 'good',
+  tags: ['calm'],
+  photo_url: null,
+  is_encrypted: false,
+  created_at: createdAt,
+  updated_at: createdAt
+});
+
+describe('export-journal-data', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        profiles: { data: { name: 'Ada', timezone: 'America/New_York' } },
+        journal_entries: {
+          data: [
+            // 23:30 on May 31st in New York
+            entry('before', '2025-06-01T03:30:00Z'),
+            entry('inside', '2025-06-01T14:00:00Z'),
+            // 00:30 on June 2nd in New York
+            entry('after', '2025-06-02T04:30:00Z')
+          ]
+        }
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  const exportJournal = async (body: Record<string, unknown>) => {
+    const handler = await loadEdgeFunction('export-journal-data', SUPABASE_ENV);
+    return handler(createFunctionRequest('export-journal-data', { token: 'token-a', body }));
+  };
+
+  it('exports a CSV of the local dates asked for', async () => {
+    const response = await exportJournal({ format: 'csv', from: '2025-06-01', to: '2025-06-01' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toMatch(/filename="zensai-journal-.*\.csv"/);
+
+    const rows = (await response.text()).trim().split('\r\n');
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toContain('Entry inside');
+    expect(supabase.callsTo('journal_entries')).toContainEqual({
+      table: 'journal_entries',
+      method: 'gte',
+      args: ['created_at', '2025-05-31T00:00:00.000Z']
+    });
+  });
+
+  it('pages through histories longer than the row limit', async () => {
+    const day = (index: number) => new Date(Date.UTC(2024, 0, 1) + index * 3600000).toISOString();
+    const firstPage = Array.from({ length: 500 }, (_, index) => entry(`e${index}`, day(1000 - index)));
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        profiles: { data: { name: 'Ada', timezone: 'UTC' } },
+        journal_entries: [{ data: firstPage }, { data: [entry('oldest', day(0))] }]
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const response = await exportJournal({ format: 'json' });
+
+    const { data } = await response.json();
+    expect(data.export_info.total_entries).toBe(501);
+    expect(data.journal_entries[data.journal_entries.length - 1].id).toBe('oldest');
+    expect(supabase.callsTo('journal_entries').filter(call => call.method === 'range').map(call => call.args))
+      .toEqual([[0, 499], [500, 999]]);
+    expect(supabase.callsTo('journal_entries')).toContainEqual({
+      table: 'journal_entries',
+      method: 'order',
+      args: ['id', { ascending: false }]
+    });
+  });
+
+  it('rejects unknown formats and backwards date ranges', async () => {
+    expect((await exportJournal({ format: 'docx' })).status).toBe(400);
+    expect((await exportJournal({ from: '2025-06-02', to: '2025-06-01' })).status).toBe(400);
+    expect(supabase.callsTo('journal_entries')).toEqual([]);
+  });
+});
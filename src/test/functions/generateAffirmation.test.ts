@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'openai', OPENAI_KEY: 'sk-test', LLM_MAX_RETRIES: '0' };
+
+const openAIReply = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }], usage: {} }), { status: 200 });
+
+describe('generate-affirmation quotas', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const generate = async (quota: { allowed: boolean; used: number; daily_limit: number | null }) => {
+    const supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      rpc: { consume_feature_quota: { data: [quota] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const handler = await loadEdgeFunction('generate-affirmation', ENV);
+    const response = await handler(createFunctionRequest('generate-affirmation', {
+      token: 'token-a',
+      body: { entry: 'Finished the big project today', mood: 'good' }
+    }));
+    return { response, supabase };
+  };
+
+  it('counts a use for an AI affirmation', async () => {
+    fetchMock.mockResolvedValue(openAIReply('"You earned this feeling."'));
+
+    const { response, supabase } = await generate({ allowed: true, used: 1, daily_limit: 2 });
+
+    await expect(response.json()).resolves.toMatchObject({
+      affirmation: 'You earned this feeling.',
+      generated_by: 'ai',
+      quota: { used: 1, remaining: 1 }
+    });
+    expect(supabase.client.rpc).toHaveBeenCalledWith('consume_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'affirmation-generator'
+    });
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+
+  it('gives the use back when the model fails', async () => {
+    fetchMock.mockResolvedValue(new Response('overloaded', { status: 503 }));
+
+    const { response, supabase } = await generate({ allowed: true, used: 2, daily_limit: 2 });
+
+    await expect(response.json()).resolves.toMatchObject({ generated_by: 'fallback' });
+    expect(supabase.client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'affirmation-generator'
+    });
+  });
+
+  it('refuses without calling the model once the free uses are gone', async () => {
+    const { response, supabase } = await generate({ allowed: false, used: 2, daily_limit: 2 });
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+});
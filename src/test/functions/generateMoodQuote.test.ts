@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ANTHROPIC_ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'sk-ant-test' };
+
+const anthropicReply = (text: string) => new Response(JSON.stringify({
+  content: [{ type: 'text', text }],
+  usage: { input_tokens: 120, output_tokens: 30 }
+}), { status: 200 });
+
+describe('generate-mood-quote model calls', () => {
+  const fetchMock = vi.fn();
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fetchMock);
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      rpc: { consume_feature_quota: { data: [{ allowed: true, used: 1, daily_limit: 2 }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const generate = async (env: Record<string, string>) => {
+    const handler = await loadEdgeFunction('generate-mood-quote', env);
+    const response = await handler(createFunctionRequest('generate-mood-quote', {
+      token: 'token-a',
+      body: { mood: 'low', entry: 'My sister is moving abroad' }
+    }));
+    return response.json();
+  };
+
+  it('sends the system prompt separately to Anthropic and logs usage without the text', async () => {
+    fetchMock.mockResolvedValue(anthropicReply('{"quote": "Distance is not absence.", "attribution": "Zeno"}'));
+
+    const body = await generate(ANTHROPIC_ENV);
+
+    expect(body).toMatchObject({ quote: 'Distance is not absence.', attribution: 'Zeno', generated_by: 'ai' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+    const request = JSON.parse(init.body);
+    expect(request.system).toContain('Current mood: low');
+    expect(request.messages.map((message: { role: string }) => message.role)).toEqual(['user']);
+
+    const usageLog = vi.mocked(console.log).mock.calls.flat().join('\n');
+    expect(usageLog).toContain('LLM usage for generate-mood-quote: anthropic/claude-3-5-sonnet-20241022, 120 prompt + 30 completion tokens');
+    expect(usageLog).not.toContain('sister');
+  });
+
+  it('retries when the provider is overloaded', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('overloaded', { status: 529 }))
+      .mockResolvedValueOnce(anthropicReply('Every goodbye makes room for a visit.'));
+
+    const body = await generate({ ...ANTHROPIC_ENV, LLM_MAX_RETRIES: '1' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(body).toMatchObject({ quote: 'Every goodbye makes room for a visit.', generated_by: 'ai' });
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+
+  it('doesn\'t retry a rejected request and gives the use back', async () => {
+    fetchMock.mockResolvedValue(new Response('bad request', { status: 400 }));
+
+    const body = await generate({ ...ANTHROPIC_ENV, LLM_MAX_RETRIES: '2' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(body).toMatchObject({ generated_by: 'fallback' });
+    expect(supabase.client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'mood-quote-generator'
+    });
+  });
+
+  it('uses a fallback quote without counting a use when no key is set', async () => {
+    const body = await generate({ ...SUPABASE_ENV, LLM_PROVIDER: 'anthropic' });
+
+    expect(body).toMatchObject({ generated_by: 'fallback', error: 'AI provider not configured' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(supabase.client.rpc).not.toHaveBeenCalled();
+  });
+});
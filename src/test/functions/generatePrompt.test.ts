@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'openai', OPENAI_KEY: 'sk-test', LLM_MAX_RETRIES: '0' };
+
+const openAIReply = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }], usage: {} }), { status: 200 });
+
+const GRATITUDE_FALLBACKS = [
+  "What's one small thing from today you'd like to say thank you for, and why?",
+  "Who made your week a little easier, and what did they do?",
+  "What's something you often take for granted that you're glad to have?"
+];
+
+describe('generate-prompt', () => {
+  const fetchMock = vi.fn();
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fetchMock);
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        profiles: { data: { prompt_goals: ['sleep-better', 'not-a-goal'] } },
+        journal_entries: [
+          { data: [{
+            content: 'Interview for the new job is on Thursday.',
+            title: 'Nervous',
+            tags: ['work'],
+            primary_emotion: 'anxious',
+            emotion_triggers: ['interview'],
+            created_at: new Date(Date.now() - 3 * 86400000).toISOString()
+          }] },
+          { data: [{ prompt: 'What are you proud of this month?' }] }
+        ]
+      },
+      rpc: { consume_feature_quota: { data: [{ allowed: true, used: 1, daily_limit: 3 }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const generate = async (body: Record<string, unknown>) => {
+    const handler = await loadEdgeFunction('generate-prompt', ENV);
+    const response = await handler(createFunctionRequest('generate-prompt', { token: 'token-a', body }));
+    return response.json();
+  };
+
+  it('writes a prompt from the user\'s goals, recent entries and answered prompts', async () => {
+    fetchMock.mockResolvedValue(openAIReply('Prompt: "You had an interview on Thursday. How did it go?"'));
+
+    const body = await generate({ category: 'gratitude', previousPrompts: ['What made you smile today?'] });
+
+    expect(body).toMatchObject({
+      prompt: 'You had an interview on Thursday. How did it go?',
+      category: 'gratitude',
+      generated_by: 'ai',
+      quota: { remaining: 2 }
+    });
+
+    const system = JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content;
+    expect(system).toContain('The user is journaling to sleep better.');
+    expect(system).toContain('[3 days ago] (feeling: anxious; about: interview; tags: work) Nervous:');
+    expect(system).toContain('Avoid repeating these prompts: What made you smile today? | What are you proud of this month?');
+    expect(system).toContain('Write a gratitude prompt');
+
+    const entriesQuery = supabase.callsTo('journal_entries').find(call => call.method === 'eq' && call.args[0] === 'is_encrypted');
+    expect(entriesQuery?.args).toEqual(['is_encrypted', false]);
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('refund_feature_quota', expect.anything());
+  });
+
+  it('falls back to the category and gives the use back when the reply is empty', async () => {
+    fetchMock.mockResolvedValue(openAIReply('""'));
+
+    const body = await generate({ category: 'gratitude', previousPrompts: GRATITUDE_FALLBACKS.slice(1) });
+
+    expect(body).toMatchObject({ prompt: GRATITUDE_FALLBACKS[0], category: 'gratitude', generated_by: 'fallback' });
+    expect(supabase.client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'prompt-generator'
+    });
+  });
+
+  it('leaves out entries for vault users, even ones written before the vault', async () => {
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        user_encryption_keys: { data: { user_id: 'user-a' } },
+        profiles: { data: { prompt_goals: ['sleep-better'] } },
+        journal_entries: { data: [{ prompt: 'What are you proud of this month?' }] }
+      },
+      rpc: { consume_feature_quota: { data: [{ allowed: true, used: 1, daily_limit: 3 }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+    fetchMock.mockResolvedValue(openAIReply('What helps you wind down at night?'));
+
+    const body = await generate({});
+
+    expect(body).toMatchObject({ prompt: 'What helps you wind down at night?', generated_by: 'ai' });
+    const system = JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content;
+    expect(system).not.toContain('recent journal entries');
+    expect(system).toContain('The user is journaling to sleep better.');
+    expect(system).toContain('What are you proud of this month?');
+    expect(supabase.callsTo('journal_entries').some(call => call.method === 'select' && String(call.args[0]).includes('content')))
+      .toBe(false);
+  });
+});
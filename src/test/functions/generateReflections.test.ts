@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const ENV = { ...SUPABASE_ENV, LLM_PROVIDER: 'mock', RESEND_API_KEY: 're_test' };
+
+const REFLECTION = JSON.stringify({
+  summary: 'A slow start that opened up by the weekend.',
+  themes: ['work', 'family', 'work'],
+  wins: ['Called Mum'],
+  intention: 'Protect Sunday mornings'
+});
+
+describe('generate-reflections', () => {
+  const fetchMock = vi.fn();
+  let supabase: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a', email: 'sam@example.com' } },
+      tables: {
+        journal_entries: { data: [
+          { content: 'Heavy Monday.', mood: 'low', created_at: '2025-06-02T08:00:00Z' },
+          { content: 'Lunch with Mum.', mood: 'good', created_at: '2025-06-06T12:00:00Z' }
+        ] },
+        reflections: { data: [{ id: 'reflection-1' }] }
+      },
+      rpc: {
+        get_due_reflections: { data: [{
+          user_id: 'user-a',
+          user_name: 'Sam',
+          user_timezone: 'Europe/London',
+          period_start: '2025-06-02',
+          period_end: '2025-06-08',
+          starts_at: '2025-06-01T23:00:00Z',
+          ends_at: '2025-06-08T23:00:00Z',
+          email_enabled: true
+        }] },
+        get_mood_trends: { data: [
+          { date_created: '2025-05-30', mood_level: 'amazing', entry_count: 1, avg_mood_numeric: 5 },
+          { date_created: '2025-06-02', mood_level: 'low', entry_count: 1, avg_mood_numeric: 2 },
+          { date_created: '2025-06-06', mood_level: 'good', entry_count: 2, avg_mood_numeric: 4 }
+        ] }
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const run = async (reply: string, token = SUPABASE_ENV.SUPABASE_SERVICE_ROLE_KEY) => {
+    const handler = await loadEdgeFunction('generate-reflections', { ...ENV, LLM_MOCK_REPLY: reply });
+    return handler(createFunctionRequest('generate-reflections', { token, body: { period: 'week' } }));
+  };
+
+  it('stores the week\'s reflection with its mood arc and emails it', async () => {
+    const response = await run(REFLECTION);
+
+    await expect(response.json()).resolves.toMatchObject({ success: true, created: 1, emailed: 1, skipped: 0, failed: 0 });
+    expect(supabase.callsTo('reflections').find(call => call.method === 'upsert')?.args[0]).toEqual({
+      user_id: 'user-a',
+      period: 'week',
+      period_start: '2025-06-02',
+      period_end: '2025-06-08',
+      summary: 'A slow start that opened up by the weekend.',
+      themes: ['work', 'family'],
+      wins: ['Called Mum'],
+      intention: 'Protect Sunday mornings',
+      mood_arc: [{ date: '2025-06-02', average: 2 }, { date: '2025-06-06', average: 4 }],
+      mood_direction: 'rising',
+      entry_count: 2
+    });
+
+    const email = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(email).toMatchObject({ to: 'sam@example.com', subject: 'Your week with Zeno 🦊' });
+    expect(email.text).toMatch(/^Hi Sam,/);
+    expect(supabase.callsTo('reflections').find(call => call.method === 'update')?.args[0])
+      .toMatchObject({ emailed_at: expect.any(String) });
+  });
+
+  it('leaves the reflection due when the model\'s answer has no summary', async () => {
+    const response = await run('{"themes": ["work"]}');
+
+    await expect(response.json()).resolves.toMatchObject({ success: true, created: 0, failed: 1 });
+    expect(supabase.callsTo('reflections')).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('skips vault users without sending their entries to the model', async () => {
+    supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a', email: 'sam@example.com' } },
+      tables: {
+        user_encryption_keys: { data: { user_id: 'user-a' } },
+        journal_entries: { data: [{ content: 'Written before the vault', mood: 'low', created_at: '2025-06-02T08:00:00Z' }] }
+      },
+      rpc: { get_due_reflections: { data: [{ user_id: 'user-a', period_start: '2025-06-02', period_end: '2025-06-08' }] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const response = await run(REFLECTION);
+
+    await expect(response.json()).resolves.toMatchObject({ success: true, created: 0, skipped: 1, failed: 0 });
+    expect(supabase.callsTo('journal_entries')).toEqual([]);
+    expect(supabase.callsTo('reflections')).toEqual([]);
+    expect(supabase.client.rpc).not.toHaveBeenCalledWith('get_mood_trends', expect.anything());
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('only runs for the scheduler', async () => {
+    const response = await run(REFLECTION, 'token-a');
+
+    expect(response.status).toBe(401);
+    expect(supabase.client.rpc).not.toHaveBeenCalled();
+  });
+});
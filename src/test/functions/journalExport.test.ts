@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExportEntry,
+  LOCKED_ENTRY_TEXT,
+  buildCsv,
+  buildEntryMarkdown,
+  escapeCsvField,
+  getEntryFileName,
+  getPhotoStoragePath,
+  isWithinDateRange,
+  wrapText
+} from '../../../supabase/functions/_shared/journalExport.ts';
+
+const makeEntry = (overrides: Partial<ExportEntry> = {}): ExportEntry => ({
+  id: 'entry-1',
+  title: 'Morning walk',
+  content: 'Felt calm by the river.',
+  mood: 'good',
+  tags: ['nature', 'calm'],
+  photo_url: null,
+  is_encrypted: false,
+  // Evening of June 14 in New York
+  created_at: '2025-06-15T02:30:00Z',
+  updated_at: '2025-06-15T02:30:00Z',
+  ...overrides
+});
+
+describe('journal export helpers', () => {
+  it('filters by local date in the user\'s timezone', () => {
+    const entry = makeEntry();
+
+    expect(isWithinDateRange(entry, 'America/New_York', '2025-06-14', '2025-06-14')).toBe(true);
+    expect(isWithinDateRange(entry, 'UTC', '2025-06-14', '2025-06-14')).toBe(false);
+    expect(isWithinDateRange(entry, 'UTC', '2025-06-15', null)).toBe(true);
+    expect(isWithinDateRange(entry, 'UTC', null, null)).toBe(true);
+  });
+
+  it('escapes CSV fields and hides vault entries', () => {
+    expect(escapeCsvField('plain')).toBe('plain');
+    expect(escapeCsvField('a, "quoted"\nline')).toBe('"a, ""quoted""\nline"');
+    expect(escapeCsvField(null)).toBe('');
+
+    const csv = buildCsv([
+      makeEntry({ content: 'Sunny, warm' }),
+      makeEntry({ id: 'entry-2', title: 'c2VjcmV0', content: 'c2VjcmV0', is_encrypted: true })
+    ], 'America/New_York');
+    const [header, first, second] = csv.replace('\uFEFF', '').split('\r\n');
+
+    expect(header).toBe('date,time,mood,mood_score,title,content,word_count,tags,has_photo,is_encrypted,created_at');
+    expect(first).toBe('2025-06-14,22:30,good,4,Morning walk,"Sunny, warm",2,nature; calm,false,false,2025-06-15T02:30:00Z');
+    expect(second).not.toContain('c2VjcmV0');
+    expect(second).toContain(',true,');
+  });
+
+  it('writes Markdown with front matter and a relative photo link', () => {
+    const entry = makeEntry({ photo_url: 'https://example.supabase.co/storage/v1/object/public/journal-photos/user-1/123_abc.jpg' });
+
+    expect(getPhotoStoragePath('user-1', entry.photo_url)).toBe('user-1/123_abc.jpg');
+    expect(getEntryFileName(entry, 'America/New_York')).toBe('2025-06-14-2230-morning-walk.md');
+
+    const markdown = buildEntryMarkdown(entry, 'America/New_York', '../photos/123_abc.jpg');
+    expect(markdown).toContain('---\ndate: 2025-06-14\ntime: "22:30"\nmood: good\ntags: ["nature", "calm"]\n---');
+    expect(markdown).toContain('# Morning walk');
+    expect(markdown).toContain('![Photo](../photos/123_abc.jpg)');
+
+    const locked = buildEntryMarkdown(makeEntry({ is_encrypted: true }), 'UTC', null);
+    expect(locked).toContain('encrypted: true');
+    expect(locked).toContain(LOCKED_ENTRY_TEXT);
+    expect(locked).not.toContain('Morning walk');
+  });
+
+  it('wraps text to a width, keeping paragraphs and splitting long words', () => {
+    // One unit per character
+    const measure = (text: string) => text.length;
+
+    expect(wrapText('the quick brown fox', 10, measure)).toEqual(['the quick', 'brown fox']);
+    expect(wrapText('one\n\ntwo', 10, measure)).toEqual(['one', '', 'two']);
+    expect(wrapText('abcdefghijkl', 5, measure)).toEqual(['abcde', 'fghij', 'kl']);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ChatRequest,
+  LLMError,
+  completeChat,
+  createLLMProvider,
+  createMockProvider,
+  isLLMConfigured,
+  readLLMConfig,
+  streamChat
+} from '../../../supabase/functions/_shared/llm.ts';
+
+const request: ChatRequest = {
+  messages: [
+    { role: 'system', content: 'You are Zeno.' },
+    { role: 'user', content: 'Write an affirmation.' }
+  ],
+  maxTokens: 100,
+  temperature: 0.7,
+  topP: 0.9
+};
+
+const options = { timeoutMs: 1000, maxRetries: 2, retryDelayMs: 0, label: 'test' };
+
+const readConfig = (env: Record<string, string>) => readLLMConfig((key) => env[key]);
+
+const jsonReply = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Split across chunks mid-event, as a network would
+const streamReply = (events: unknown[]) => {
+  const text = events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('');
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < text.length; i += 7) {
+        controller.enqueue(encoder.encode(text.slice(i, i + 7)));
+      }
+      controller.close();
+    }
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+describe('LLM providers', () => {
+  it('defaults to OpenAI and picks other providers by env', () => {
+    expect(readConfig({ OPENAI_KEY: ' sk-test ' })).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4',
+      apiKey: 'sk-test',
+      baseUrl: 'https://api.openai.com/v1'
+    });
+    expect(readConfig({ LLM_PROVIDER: 'Local', LLM_BASE_URL: 'http://ollama:11434/v1/', LLM_MODEL: 'mistral' }))
+      .toMatchObject({ provider: 'local', model: 'mistral', baseUrl: 'http://ollama:11434/v1', apiKey: undefined });
+    expect(() => readConfig({ LLM_PROVIDER: 'palm' })).toThrow('Unknown LLM provider: palm');
+  });
+
+  it('only needs an API key for hosted providers', () => {
+    expect(isLLMConfigured(readConfig({}))).toBe(false);
+    expect(isLLMConfigured(readConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' }))).toBe(true);
+    expect(isLLMConfigured(readConfig({ LLM_PROVIDER: 'local' }))).toBe(true);
+  });
+
+  it('reads OpenAI replies and token usage', async () => {
+    const fetchFn = vi.fn(async () => jsonReply({
+      choices: [{ message: { content: '  You are enough.  ' } }],
+      usage: { prompt_tokens: 40, completion_tokens: 5 }
+    }));
+    const provider = createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), fetchFn);
+
+    await expect(completeChat(provider, request, options)).resolves.toEqual({
+      content: 'You are enough.',
+      usage: { promptTokens: 40, completionTokens: 5, totalTokens: 45 },
+      provider: 'openai',
+      model: 'gpt-4'
+    });
+    expect(fetchFn).toHaveBeenCalledWith('https://api.openai.com/v1/chat/completions', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer sk-test' })
+    }));
+  });
+
+  it('sends the system prompt separately to Anthropic', async () => {
+    const fetchFn = vi.fn(async () => jsonReply({
+      content: [{ type: 'text', text: 'You are enough.' }],
+      usage: { input_tokens: 30, output_tokens: 4 }
+    }));
+    const provider = createLLMProvider(readConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' }), fetchFn);
+
+    const result = await completeChat(provider, request, options);
+
+    const [url, init] = fetchFn.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      system: 'You are Zeno.',
+      messages: [{ role: 'user', content: 'Write an affirmation.' }],
+      max_tokens: 100,
+      temperature: 0.7
+    });
+    expect(result.usage.totalTokens).toBe(34);
+  });
+
+  it('retries rate limits and server errors but not bad requests', async () => {
+    const flaky = vi.fn()
+      .mockResolvedValueOnce(jsonReply({}, 429))
+      .mockResolvedValueOnce(jsonReply({}, 503))
+      .mockResolvedValueOnce(jsonReply({ choices: [{ message: { content: 'Hello' } }] }));
+    const provider = createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), flaky);
+
+    await expect(completeChat(provider, request, options)).resolves.toMatchObject({ content: 'Hello' });
+    expect(flaky).toHaveBeenCalledTimes(3);
+
+    const rejected = vi.fn(async () => jsonReply({}, 400));
+    await expect(completeChat(createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), rejected), request, options))
+      .rejects.toMatchObject({ status: 400, retryable: false });
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out slow providers', async () => {
+    const hanging = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const provider = createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), hanging);
+
+    const error = await completeChat(provider, request, { ...options, timeoutMs: 5, maxRetries: 1 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(LLMError);
+    expect((error as LLMError).message).toBe('OpenAI request timed out');
+    expect(hanging).toHaveBeenCalledTimes(2);
+  });
+
+  it('answers from the mock provider in turn and rejects empty replies', async () => {
+    const provider = createMockProvider(['first', 'second']);
+
+    await expect(completeChat(provider, request, options)).resolves.toMatchObject({ content: 'first', provider: 'mock' });
+    await expect(completeChat(provider, request, options)).resolves.toMatchObject({ content: 'second' });
+    await expect(completeChat(createMockProvider('   '), request, options)).rejects.toThrow('No response from mock');
+  });
+
+  it('streams OpenAI replies a piece at a time', async () => {
+    const fetchFn = vi.fn(async () => streamReply([
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'What felt ' } }] },
+      { choices: [{ delta: { content: 'heaviest?' } }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 4 } },
+      '[DONE]'
+    ]));
+    const provider = createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), fetchFn);
+    const pieces: string[] = [];
+
+    await expect(streamChat(provider, request, { ...options, onText: (text) => pieces.push(text) })).resolves.toEqual({
+      content: 'What felt heaviest?',
+      usage: { promptTokens: 50, completionTokens: 4, totalTokens: 54 },
+      provider: 'openai',
+      model: 'gpt-4'
+    });
+    expect(pieces).toEqual(['What felt ', 'heaviest?']);
+
+    const [, init] = fetchFn.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('streams Anthropic text deltas and usage', async () => {
+    const fetchFn = vi.fn(async () => streamReply([
+      { type: 'message_start', message: { usage: { input_tokens: 30 } } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Tell me ' } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'more.' } },
+      { type: 'message_delta', usage: { output_tokens: 3 } },
+      { type: 'message_stop' }
+    ]));
+    const provider = createLLMProvider(readConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' }), fetchFn);
+    const onText = vi.fn();
+
+    const result = await streamChat(provider, request, { ...options, onText });
+
+    expect(result.content).toBe('Tell me more.');
+    expect(result.usage.totalTokens).toBe(33);
+    expect(onText).toHaveBeenCalledTimes(2);
+  });
+
+  it('only retries a stream that has not started', async () => {
+    const flaky = vi.fn()
+      .mockResolvedValueOnce(jsonReply({}, 503))
+      .mockResolvedValueOnce(streamReply([{ choices: [{ delta: { content: 'Hello' } }] }, '[DONE]']));
+    const provider = createLLMProvider(readConfig({ OPENAI_KEY: 'sk-test' }), flaky);
+
+    await expect(streamChat(provider, request, { ...options, onText: () => {} })).resolves.toMatchObject({ content: 'Hello' });
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const broken = vi.fn(async () => streamReply([
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Half' } },
+      { type: 'error', error: { type: 'overloaded_error' } }
+    ]));
+    const anthropic = createLLMProvider(readConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' }), broken);
+    await expect(streamChat(anthropic, request, { ...options, onText: () => {} })).rejects.toThrow('Anthropic stream error');
+    expect(broken).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams the mock provider word by word', async () => {
+    const pieces: string[] = [];
+
+    await streamChat(createMockProvider('How did that feel?'), request, { ...options, onText: (text) => pieces.push(text) });
+
+    expect(pieces).toEqual(['How', ' did', ' that', ' feel?']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PRORATION_PREVIEW_TTL_MS,
+  getDowngradePhases,
+  getPlanChangeKind,
+  getPlanChangeRefusal,
+  getProrationCredit,
+  isProrationDateUsable,
+  isScheduledTierSettled
+} from '../../../supabase/functions/_shared/planChanges.ts';
+
+describe('plan change rules', () => {
+  it('treats yearly as the upgrade', () => {
+    expect(getPlanChangeKind('monthly', 'yearly')).toBe('upgrade');
+    expect(getPlanChangeKind('yearly', 'monthly')).toBe('downgrade');
+    expect(getPlanChangeKind('yearly', 'yearly')).toBeNull();
+  });
+
+  it('only changes subscriptions that are paid up and renewing', () => {
+    expect(getPlanChangeRefusal({ status: 'active', cancel_at_period_end: false })).toBeNull();
+    expect(getPlanChangeRefusal({ status: 'trialing', cancel_at_period_end: false })).toBeNull();
+    expect(getPlanChangeRefusal({ status: 'past_due', cancel_at_period_end: false })).toMatch(/payment method/);
+    expect(getPlanChangeRefusal({ status: 'active', cancel_at_period_end: true })).toMatch(/renewal/);
+    expect(getPlanChangeRefusal({ status: 'incomplete', cancel_at_period_end: false })).not.toBeNull();
+  });
+
+  it('adds up the credit for unused time', () => {
+    expect(getProrationCredit([
+      { amount: -420, proration: true },
+      { amount: 5999, proration: true },
+      { amount: -100, proration: false }
+    ])).toBe(420);
+    expect(getProrationCredit([])).toBe(0);
+  });
+
+  it('only charges the previewed proration while it is fresh', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const seconds = now.getTime() / 1000;
+
+    expect(isProrationDateUsable(seconds - 60, now)).toBe(true);
+    expect(isProrationDateUsable(seconds - PRORATION_PREVIEW_TTL_MS / 1000 - 1, now)).toBe(false);
+    expect(isProrationDateUsable(seconds + 60, now)).toBe(false);
+    expect(isProrationDateUsable('soon', now)).toBe(false);
+  });
+
+  it('clears a scheduled switch once it happens or is called off', () => {
+    expect(isScheduledTierSettled('premium', { tier: 'premium', hasSchedule: true })).toBe(true);
+    expect(isScheduledTierSettled('premium', { tier: 'premium_plus', hasSchedule: false })).toBe(true);
+    expect(isScheduledTierSettled('premium', { tier: 'premium_plus', hasSchedule: true })).toBe(false);
+    expect(isScheduledTierSettled(null, { tier: 'premium', hasSchedule: false })).toBe(false);
+  });
+
+  describe('downgrade phases', () => {
+    const renewsAt = 1_750_000_000;
+    const base = {
+      currentPriceId: 'price_yearly',
+      targetPriceId: 'price_monthly',
+      startDate: 1_718_000_000,
+      renewsAt,
+      trialEnd: null,
+      phaseCoupon: null,
+      discount: null
+    };
+
+    it('switches plans at renewal', () => {
+      expect(getDowngradePhases(base)).toEqual([
+        { items: [{ price: 'price_yearly', quantity: 1 }], start_date: base.startDate, end_date: renewsAt },
+        { items: [{ price: 'price_monthly', quantity: 1 }], iterations: 1 }
+      ]);
+    });
+
+    it('keeps a forever coupon on both plans', () => {
+      const phases = getDowngradePhases({ ...base, discount: { coupon: { id: 'LAUNCH', duration: 'forever' } } });
+
+      expect(phases.map(phase => phase.coupon)).toEqual(['LAUNCH', 'LAUNCH']);
+    });
+
+    it('keeps a one-off coupon on the current plan only', () => {
+      const phases = getDowngradePhases({ ...base, phaseCoupon: 'WELCOME', discount: { coupon: { id: 'WELCOME', duration: 'once' } } });
+
+      expect(phases.map(phase => phase.coupon)).toEqual(['WELCOME', undefined]);
+    });
+
+    it('ends a repeating coupon when it would have ended', () => {
+      const end = renewsAt + 60 * 86400;
+      const phases = getDowngradePhases({ ...base, discount: { coupon: { id: 'SPRING', duration: 'repeating' }, end } });
+
+      expect(phases).toHaveLength(3);
+      expect(phases[1]).toEqual({ items: [{ price: 'price_monthly', quantity: 1 }], coupon: 'SPRING', end_date: end });
+      expect(phases[2].coupon).toBeUndefined();
+    });
+
+    it('drops a repeating coupon that runs out before renewal', () => {
+      const phases = getDowngradePhases({
+        ...base,
+        discount: { coupon: { id: 'SPRING', duration: 'repeating' }, end: renewsAt - 86400 }
+      });
+
+      expect(phases.map(phase => phase.coupon)).toEqual(['SPRING', undefined]);
+    });
+
+    it('keeps the trial', () => {
+      expect(getDowngradePhases({ ...base, trialEnd: renewsAt })[0].trial_end).toBe(renewsAt);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ANSWERED_PROMPT_LIMIT,
+  buildPromptMessages,
+  cleanPrompt,
+  getCategoryFallbackPrompt,
+  isPromptCategory
+} from '../../../supabase/functions/_shared/prompts.ts';
+
+const now = new Date('2025-06-20T12:00:00Z');
+
+describe('Personalized prompts', () => {
+  it('keeps the plain prompt when there is nothing to personalize with', () => {
+    const [system, user] = buildPromptMessages({}, now);
+
+    expect(system.content).toContain('Generate ONE journaling prompt');
+    expect(system.content).not.toContain('recent journal entries');
+    expect(system.content).not.toContain('Avoid repeating');
+    expect(user.role).toBe('user');
+  });
+
+  it('asks for the chosen category and works towards the user\'s goals', () => {
+    const [system] = buildPromptMessages({
+      name: 'Sam',
+      mood: 'sad',
+      category: 'reframing',
+      goals: ['sleep-better', 'reduce-stress', 'not-a-goal', 'constructor']
+    }, now);
+
+    expect(system.content).toContain('The user\'s name is Sam');
+    expect(system.content).toContain('current mood is: sad');
+    expect(system.content).toContain('CBT-style reframing prompt');
+    expect(system.content).toContain('The user is journaling to sleep better, feel less stressed.');
+    expect(system.content).not.toContain('not-a-goal');
+    expect(system.content).not.toContain('constructor');
+  });
+
+  it('shares recent entries so the prompt can follow up on open threads', () => {
+    const [system] = buildPromptMessages({
+      entries: [
+        {
+          content: 'My sister is visiting next weekend and I am nervous about it.',
+          title: 'Planning',
+          tags: ['family'],
+          primary_emotion: 'anxious',
+          emotion_triggers: ['sister\'s visit'],
+          created_at: '2025-06-13T09:00:00Z'
+        },
+        { content: 'x'.repeat(500), created_at: '2025-06-19T20:00:00Z' }
+      ]
+    }, now);
+
+    expect(system.content).toContain('[7 days ago] (feeling: anxious; about: sister\'s visit; tags: family) Planning:');
+    expect(system.content).toContain('My sister is visiting next weekend');
+    expect(system.content).toContain('[in the last day]');
+    expect(system.content).toContain(`${'x'.repeat(400)}...`);
+    expect(system.content).not.toContain('x'.repeat(401));
+    expect(system.content).toContain('follow up on it the way a friend would');
+  });
+
+  it('avoids prompts already shown or answered', () => {
+    const answered = Array.from({ length: ANSWERED_PROMPT_LIMIT + 2 }, (_, i) => `Answered ${i}?`);
+    const [system] = buildPromptMessages({
+      previousPrompts: ['Shown today?'],
+      answeredPrompts: answered
+    }, now);
+
+    expect(system.content).toContain('Avoid repeating these prompts: Shown today? | Answered 0?');
+    expect(system.content).toContain(`Answered ${ANSWERED_PROMPT_LIMIT - 1}?`);
+    expect(system.content).not.toContain(`Answered ${ANSWERED_PROMPT_LIMIT}?`);
+  });
+
+  it('tidies the model reply', () => {
+    expect(cleanPrompt('  "What made you smile today?"  ')).toBe('What made you smile today?');
+    expect(cleanPrompt('Prompt: “How did the visit go?”')).toBe('How did the visit go?');
+    expect(cleanPrompt('   ')).toBe('');
+    expect(cleanPrompt('a'.repeat(400))).toHaveLength(300);
+  });
+
+  it('checks categories and falls back within one', () => {
+    expect(isPromptCategory('gratitude')).toBe(true);
+    expect(isPromptCategory('self-compassion')).toBe(true);
+    expect(isPromptCategory('venting')).toBe(false);
+    expect(isPromptCategory(undefined)).toBe(false);
+
+    const first = getCategoryFallbackPrompt('goals');
+    expect(first).toMatch(/step|progress|goal/);
+    expect(getCategoryFallbackPrompt('goals', [first])).not.toBe(first);
+  });
+});
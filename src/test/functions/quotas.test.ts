@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  QuotaClient,
+  QuotaError,
+  quotaErrorResponse,
+  refundFeatureQuota,
+  requireFeatureQuota
+} from '../../../supabase/functions/_shared/quotas.ts';
+
+// Answers like `consume_feature_quota` would
+const createQuotaClient = (row: { allowed: boolean; used: number; daily_limit: number | null } | null): QuotaClient => ({
+  rpc: vi.fn(async () => (row ? { data: [row], error: null } : { data: null, error: new Error('db down') }))
+});
+
+describe('feature quotas', () => {
+  it('counts a use and reports what is left', async () => {
+    const client = createQuotaClient({ allowed: true, used: 1, daily_limit: 2 });
+
+    await expect(requireFeatureQuota(client, 'user-a', 'affirmation-generator')).resolves.toEqual({
+      feature: 'affirmation-generator',
+      used: 1,
+      limit: 2,
+      remaining: 1
+    });
+    expect(client.rpc).toHaveBeenCalledWith('consume_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'affirmation-generator'
+    });
+  });
+
+  it('reports no limit for premium users', async () => {
+    const client = createQuotaClient({ allowed: true, used: 14, daily_limit: null });
+
+    const quota = await requireFeatureQuota(client, 'user-a', 'voice-synthesis');
+    expect(quota).toMatchObject({ limit: null, remaining: null });
+  });
+
+  it('refuses once the free uses are gone', async () => {
+    const client = createQuotaClient({ allowed: false, used: 2, daily_limit: 2 });
+
+    const error = await requireFeatureQuota(client, 'user-a', 'prompt-generator').catch(err => err);
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.quota).toEqual({ feature: 'prompt-generator', used: 2, limit: 2, remaining: 0 });
+
+    const response = quotaErrorResponse(error);
+    expect(response.status).toBe(429);
+    await expect(response.json()).resolves.toMatchObject({
+      success: false,
+      error_code: 'quota_exceeded',
+      quota: { remaining: 0 }
+    });
+  });
+
+  it('fails closed when usage cannot be counted', async () => {
+    await expect(requireFeatureQuota(createQuotaClient(null), 'user-a', 'mood-analyzer'))
+      .rejects.toThrow('Failed to check the mood-analyzer quota');
+  });
+
+  it('gives a use back', async () => {
+    const client: QuotaClient = { rpc: vi.fn(async () => ({ data: null, error: null })) };
+
+    await refundFeatureQuota(client, 'user-a', 'zeno-chat');
+    expect(client.rpc).toHaveBeenCalledWith('refund_feature_quota', {
+      user_uuid: 'user-a',
+      feature_key: 'zeno-chat'
+    });
+  });
+
+  it('doesn\'t throw when a refund fails', async () => {
+    const client: QuotaClient = { rpc: vi.fn(async () => ({ data: null, error: new Error('db down') })) };
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(refundFeatureQuota(client, 'user-a', 'zeno-chat')).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
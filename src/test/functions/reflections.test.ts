@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_THEMES,
+  buildMoodArc,
+  buildReflectionEmail,
+  buildReflectionMessages,
+  getMoodDirection,
+  parseReflection
+} from '../../../supabase/functions/_shared/reflections.ts';
+
+const arc = (...averages: number[]) =>
+  averages.map((average, i) => ({ date: `2025-06-${String(16 + i).padStart(2, '0')}`, average }));
+
+describe('Reflections', () => {
+  it('averages each day by entry count and keeps only the period', () => {
+    const result = buildMoodArc([
+      { date_created: '2025-06-17', mood_level: 'good', entry_count: 3, avg_mood_numeric: '4' },
+      { date_created: '2025-06-17', mood_level: 'low', entry_count: 1, avg_mood_numeric: 2 },
+      { date_created: '2025-06-16', mood_level: 'neutral', entry_count: 1, avg_mood_numeric: 3 },
+      { date_created: '2025-06-15', mood_level: 'amazing', entry_count: 2, avg_mood_numeric: 5 },
+      { date_created: '2025-06-23', mood_level: 'amazing', entry_count: 1, avg_mood_numeric: 5 }
+    ], '2025-06-16', '2025-06-22');
+
+    expect(result).toEqual([
+      { date: '2025-06-16', average: 3 },
+      { date: '2025-06-17', average: 3.5 }
+    ]);
+  });
+
+  it('tells which way the mood went', () => {
+    expect(getMoodDirection(arc(3))).toBeNull();
+    expect(getMoodDirection(arc(2, 2, 4, 4))).toBe('rising');
+    expect(getMoodDirection(arc(4, 4, 2.5, 3))).toBe('falling');
+    expect(getMoodDirection(arc(3, 3.2, 3, 3.1))).toBe('steady');
+    expect(getMoodDirection(arc(1, 5, 1, 5))).toBe('mixed');
+  });
+
+  it('asks about the period with the entries and mood arc', () => {
+    const messages = buildReflectionMessages('week', [
+      { content: 'Finished the big report.', mood: 'good', title: 'Done', tags: ['work'], primary_emotion: 'relief', created_at: '2025-06-17T09:00:00Z' },
+      { content: 'x'.repeat(700), mood: 'low', created_at: '2025-06-19T21:00:00Z' }
+    ], arc(4, 2), 'Sam');
+
+    expect(messages[0].content).toContain('Once a week');
+    expect(messages[1].content).toContain('My name is Sam.');
+    expect(messages[1].content).toContain('2025-06-16: 4, 2025-06-17: 2');
+    expect(messages[1].content).toContain('[2025-06-17] (mood: good; feeling: relief; tags: work) Done:');
+    expect(messages[1].content).toContain(`${'x'.repeat(600)}...`);
+    expect(messages[1].content).not.toContain('x'.repeat(601));
+  });
+
+  it('tidies the model reply', () => {
+    const reflection = parseReflection(`Here you go:
+\`\`\`json
+{
+  "summary": "  You showed up for yourself this week. ",
+  "themes": ["work", "sleep", "work", 3, "family", "friends", "running"],
+  "wins": ["Finished the report"],
+  "intention": ""
+}
+\`\`\``);
+
+    expect(reflection).toEqual({
+      summary: 'You showed up for yourself this week.',
+      themes: ['work', 'sleep', 'family', 'friends'],
+      wins: ['Finished the report'],
+      intention: null
+    });
+    expect(reflection?.themes).toHaveLength(MAX_THEMES);
+  });
+
+  it('rejects replies without a summary', () => {
+    expect(parseReflection('Sorry, I can\'t help with that.')).toBeNull();
+    expect(parseReflection('{"themes": ["work"]}')).toBeNull();
+    expect(parseReflection('{"summary": ')).toBeNull();
+  });
+
+  it('escapes the reflection in the email', () => {
+    const email = buildReflectionEmail('Hi Sam,', 'month', {
+      summary: 'A <b>big</b> month.',
+      themes: ['rest & recovery'],
+      wins: [],
+      intention: 'Take a walk'
+    }, 'https://app.example.com/home');
+
+    expect(email.subject).toBe('Your month with Zeno 🦊');
+    expect(email.html).toContain('A &lt;b&gt;big&lt;/b&gt; month.');
+    expect(email.html).toContain('<li>rest &amp; recovery</li>');
+    expect(email.html).not.toContain('Wins');
+    expect(email.text).toContain('An intention for next month: Take a walk');
+    expect(email.text).toContain('https://app.example.com/home');
+  });
+});
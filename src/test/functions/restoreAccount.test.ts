@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+import { hashUndoToken } from '../../../supabase/functions/_shared/accountDeletion.ts';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const updateSubscription = vi.fn();
+vi.mock('npm:stripe@13.2.0', () => ({
+  default: vi.fn(() => ({ subscriptions: { update: updateSubscription } }))
+}));
+
+const deletion = {
+  user_id: 'user-a',
+  stripe_subscription_ids: ['sub_1'],
+  reminders_were_enabled: true
+};
+
+describe('restore-account', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const restore = async (supabase: ReturnType<typeof createFakeSupabase>) => {
+    createClient.mockReturnValue(supabase.client);
+    const handler = await loadEdgeFunction('restore-account', { ...SUPABASE_ENV, STRIPE_SECRET_KEY: 'sk_test' });
+    return handler(createFunctionRequest('restore-account', { body: { token: 'undo-token' } }));
+  };
+
+  it('undoes everything the deletion paused', async () => {
+    const supabase = createFakeSupabase({
+      tables: {
+        account_deletions: [
+          { data: { ...deletion, purge_after: new Date(Date.now() + 86400000).toISOString() } },
+          { data: null }
+        ]
+      }
+    });
+
+    const response = await restore(supabase);
+
+    expect(response.status).toBe(200);
+    expect(supabase.callsTo('account_deletions')).toContainEqual({
+      table: 'account_deletions',
+      method: 'eq',
+      args: ['undo_token_hash', await hashUndoToken('undo-token')]
+    });
+    expect(supabase.client.auth.admin.updateUserById).toHaveBeenCalledWith('user-a', { ban_duration: 'none' });
+    expect(updateSubscription).toHaveBeenCalledWith('sub_1', { cancel_at_period_end: false });
+    expect(supabase.callsTo('reminder_preferences').find(call => call.method === 'update')?.args[0])
+      .toEqual({ enabled: true });
+  });
+
+  it('refuses a link once the purge is due', async () => {
+    const supabase = createFakeSupabase({
+      tables: {
+        account_deletions: { data: { ...deletion, purge_after: new Date(Date.now() - 1000).toISOString() } }
+      }
+    });
+
+    const response = await restore(supabase);
+
+    expect(response.status).toBe(404);
+    expect(supabase.client.auth.admin.updateUserById).not.toHaveBeenCalled();
+  });
+});
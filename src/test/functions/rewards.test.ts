@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMonths,
+  generateGiftCode,
+  getBillingDiscount,
+  getExtendedExpiry,
+  getReferralRefusal,
+  getReferralTrialEnd,
+  isGiftCode,
+  isReferralCode,
+  normalizeCode
+} from '../../../supabase/functions/_shared/rewards.ts';
+
+describe('reward rules', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('reads codes the way people type them', () => {
+    expect(normalizeCode('  spring 20 ')).toBe('SPRING20');
+    expect(isGiftCode('gift-7kq4-m2xd')).toBe(true);
+    expect(isGiftCode('SPRING20')).toBe(false);
+  });
+
+  it('only treats prefixed codes as referral codes', () => {
+    expect(isReferralCode('ref-3f9a12bc')).toBe(true);
+    expect(isReferralCode('3F9A12BC')).toBe(false);
+    expect(isReferralCode('SPRING20')).toBe(false);
+    expect(isReferralCode('GIFT-7KQ4-M2XD')).toBe(false);
+  });
+
+  it('makes gift codes without look-alike characters', () => {
+    const code = generateGiftCode(bytes => bytes.map((_, index) => index * 31));
+
+    expect(code).toMatch(/^GIFT-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    expect(isGiftCode(code)).toBe(true);
+  });
+
+  it('adds months without spilling into the next month', () => {
+    expect(addMonths(new Date('2025-01-31T09:00:00Z'), 1).toISOString()).toBe('2025-02-28T09:00:00.000Z');
+    expect(addMonths(new Date('2025-06-15T09:00:00Z'), 12).toISOString()).toBe('2026-06-15T09:00:00.000Z');
+  });
+
+  it('stacks free time on top of premium the user already has', () => {
+    expect(getExtendedExpiry('2025-08-01T00:00:00Z', 1, now).toISOString()).toBe('2025-09-01T00:00:00.000Z');
+    // Lapsed premium starts again from now
+    expect(getExtendedExpiry('2025-01-01T00:00:00Z', 1, now).toISOString()).toBe('2025-07-01T12:00:00.000Z');
+    expect(getExtendedExpiry(null, 12, now).toISOString()).toBe('2026-06-01T12:00:00.000Z');
+  });
+
+  it('gives referred users a free month after the usual trial', () => {
+    expect(new Date(getReferralTrialEnd(now) * 1000).toISOString()).toBe('2025-07-08T12:00:00.000Z');
+  });
+
+  it('only lets new subscribers use someone else\'s referral code once', () => {
+    const base = { referrerUserId: 'user-a', userId: 'user-b', alreadyReferred: false, hasSubscribedBefore: false };
+
+    expect(getReferralRefusal(base)).toBeNull();
+    expect(getReferralRefusal({ ...base, userId: 'user-a' })).toMatch(/own referral code/);
+    expect(getReferralRefusal({ ...base, alreadyReferred: true })).toMatch(/already used/);
+    expect(getReferralRefusal({ ...base, hasSubscribedBefore: true })).toMatch(/new subscribers/);
+  });
+
+  it('summarises a subscription discount', () => {
+    expect(getBillingDiscount(null)).toBeNull();
+    expect(getBillingDiscount({
+      coupon: { name: 'Spring', percent_off: 20, duration: 'repeating', duration_in_months: 3 },
+      end: Math.floor(Date.parse('2025-09-01T00:00:00Z') / 1000)
+    })).toEqual({
+      name: 'Spring',
+      percent_off: 20,
+      amount_off: null,
+      currency: null,
+      duration: 'repeating',
+      duration_in_months: 3,
+      ends_at: '2025-09-01T00:00:00.000Z'
+    });
+  });
+});
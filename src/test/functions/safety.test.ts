@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSafetyAffirmationGuidance,
+  parseSafetyClassification
+} from '../../../supabase/functions/_shared/safety.ts';
+
+describe('safety classification', () => {
+  it('reads the JSON the model returns', () => {
+    expect(parseSafetyClassification('{"level": "crisis", "categories": ["suicidal", "self_harm"]}')).toEqual({
+      level: 'crisis',
+      categories: ['suicidal', 'self_harm']
+    });
+  });
+
+  it('normalizes the level and drops unknown or repeated categories', () => {
+    expect(parseSafetyClassification(
+      'Result: {"level": " Concern ", "categories": ["suicidal", "anger", "suicidal"]}'
+    )).toEqual({ level: 'concern', categories: ['suicidal'] });
+  });
+
+  it('clears categories when the level is none', () => {
+    expect(parseSafetyClassification('{"level": "none", "categories": ["self_harm"]}')).toEqual({
+      level: 'none',
+      categories: []
+    });
+  });
+
+  it('returns null for replies it cannot read', () => {
+    expect(parseSafetyClassification('crisis')).toBeNull();
+    expect(parseSafetyClassification('{"level": "severe"}')).toBeNull();
+    expect(parseSafetyClassification('{level: crisis}')).toBeNull();
+  });
+
+  it('only adds affirmation guidance for flagged entries', () => {
+    expect(getSafetyAffirmationGuidance('none')).toBe('');
+    expect(getSafetyAffirmationGuidance('crisis')).toContain('Do not be cheerful');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const constructEvent = vi.fn();
+const retrieveSubscription = vi.fn();
+vi.mock('npm:stripe@12.18.0', () => ({
+  default: vi.fn(() => ({
+    webhooks: { constructEvent },
+    subscriptions: { retrieve: retrieveSubscription }
+  }))
+}));
+
+const ENV = {
+  ...SUPABASE_ENV,
+  STRIPE_SECRET_KEY: 'sk_test',
+  STRIPE_WEBHOOK_SECRET: 'whsec_test',
+  STRIPE_PRICE_ID_MONTHLY: 'price_monthly',
+  RESEND_API_KEY: 're_test'
+};
+
+const PERIOD_END = Math.floor(Date.parse('2025-07-01T00:00:00Z') / 1000);
+
+const paymentFailed = {
+  id: 'evt_1',
+  type: 'invoice.payment_failed',
+  created: Math.floor(Date.parse('2025-06-01T00:00:00Z') / 1000),
+  data: {
+    object: {
+      customer: 'cus_1',
+      subscription: 'sub_1',
+      billing_reason: 'subscription_cycle',
+      amount_due: 499,
+      currency: 'usd'
+    }
+  }
+};
+
+const profile = (paymentStatus: string) => ({
+  user_id: 'user-a',
+  name: 'Ada',
+  payment_status: paymentStatus,
+  payment_failed_at: paymentStatus === 'past_due' ? '2025-05-30T00:00:00Z' : null,
+  billing_period_end: null,
+  billing_event_at: null,
+  scheduled_tier: null
+});
+
+describe('stripe-webhook', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    constructEvent.mockReturnValue(paymentFailed);
+    retrieveSubscription.mockResolvedValue({
+      current_period_end: PERIOD_END,
+      items: { data: [{ price: { id: 'price_monthly' } }] }
+    });
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const deliver = async (paymentStatus: string) => {
+    const supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a', email: 'a@example.com' } },
+      tables: { profiles: { data: [profile(paymentStatus)] } }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const handler = await loadEdgeFunction('stripe-webhook', ENV);
+    const request = createFunctionRequest('stripe-webhook', { body: paymentFailed });
+    request.headers.set('stripe-signature', 't=1,v1=abc');
+    return { response: await handler(request), supabase };
+  };
+
+  it('starts the grace period and emails the user when a renewal fails', async () => {
+    const { response, supabase } = await deliver('ok');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ result: 'processed' });
+
+    const update = supabase.callsTo('profiles').find(call => call.method === 'update');
+    expect(update?.args[0]).toMatchObject({
+      payment_status: 'past_due',
+      subscription_status: 'premium',
+      grace_period_ends_at: expect.any(String)
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).subject).toMatch(/payment didn't go through/);
+  });
+
+  it('keeps the original grace period and doesn\'t email again on a retry', async () => {
+    const { response, supabase } = await deliver('past_due');
+
+    expect(response.status).toBe(200);
+    expect(supabase.callsTo('profiles').find(call => call.method === 'update')?.args[0])
+      .toMatchObject({ payment_failed_at: '2025-05-30T00:00:00.000Z' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects events without a valid signature', async () => {
+    constructEvent.mockImplementation(() => {
+      throw new Error('No signatures found matching the expected signature');
+    });
+
+    const { response, supabase } = await deliver('ok');
+
+    expect(response.status).toBe(400);
+    expect(supabase.client.from).not.toHaveBeenCalled();
+  });
+});
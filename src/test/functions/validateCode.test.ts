@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SUPABASE_ENV,
+  createFakeSupabase,
+  createFunctionRequest,
+  loadEdgeFunction
+} from '../mocks/edgeFunctions';
+
+const createClient = vi.fn();
+vi.mock('npm:@supabase/supabase-js@2.38.4', () => ({ createClient }));
+
+const listPromotionCodes = vi.fn();
+vi.mock('npm:stripe@13.2.0', () => ({
+  default: vi.fn(() => ({ promotionCodes: { list: listPromotionCodes } }))
+}));
+
+describe('validate-code', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listPromotionCodes.mockResolvedValue({
+      data: [{
+        id: 'promo_1',
+        code: 'SPRING25',
+        coupon: { valid: true, name: 'Spring', percent_off: 25, duration: 'repeating', duration_in_months: 3 }
+      }]
+    });
+  });
+
+  const validate = async (code: string, referrer: { user_id: string } | null = null) => {
+    const supabase = createFakeSupabase({
+      users: { 'token-a': { id: 'user-a' } },
+      tables: {
+        profiles: [{ data: referrer }, { data: null }],
+        referrals: { data: null }
+      }
+    });
+    createClient.mockReturnValue(supabase.client);
+
+    const handler = await loadEdgeFunction('validate-code', { ...SUPABASE_ENV, STRIPE_SECRET_KEY: 'sk_test' });
+    const response = await handler(createFunctionRequest('validate-code', { token: 'token-a', body: { code } }));
+    return { response, supabase };
+  };
+
+  it('looks promotion codes up in Stripe without checking referral codes', async () => {
+    const { response, supabase } = await validate(' spring25 ');
+
+    await expect(response.json()).resolves.toMatchObject({
+      code: { type: 'promotion', code: 'SPRING25', discount: { percent_off: 25, duration_in_months: 3 } }
+    });
+    expect(listPromotionCodes).toHaveBeenCalledWith({ code: 'SPRING25', active: true, limit: 1 });
+    expect(supabase.callsTo('profiles')).toEqual([]);
+  });
+
+  it('accepts someone else\'s referral code', async () => {
+    const { response } = await validate('ref-3f9a12bc', { user_id: 'user-b' });
+
+    await expect(response.json()).resolves.toMatchObject({ code: { type: 'referral', code: 'REF-3F9A12BC' } });
+    expect(listPromotionCodes).not.toHaveBeenCalled();
+  });
+
+  it('refuses the user\'s own referral code and unknown ones', async () => {
+    const own = await validate('REF-3F9A12BC', { user_id: 'user-a' });
+    expect(own.response.status).toBe(400);
+    await expect(own.response.json()).resolves.toMatchObject({ error: 'You can\'t use your own referral code' });
+
+    const unknown = await validate('REF-00000000');
+    expect(unknown.response.status).toBe(400);
+    expect(listPromotionCodes).not.toHaveBeenCalled();
+  });
+});
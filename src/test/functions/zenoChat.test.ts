@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConversationMessage,
+  MAX_MESSAGE_LENGTH,
+  MAX_USER_MESSAGES,
+  buildZenoChatMessages,
+  encodeChatEvent,
+  getChatTurnError
+} from '../../../supabase/functions/_shared/zenoChat.ts';
+
+const entry = { content: 'Work was a lot today and I snapped at my sister.', mood: 'low', title: 'Long day' };
+
+const turns = (count: number): ConversationMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'assistant' : 'user',
+    content: `message ${i}`
+  }));
+
+describe('Talk to Zeno', () => {
+  it('puts the entry in the system prompt and lets Zeno open', () => {
+    const messages = buildZenoChatMessages(entry, [], 'Sam');
+
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('I snapped at my sister');
+    expect(messages[0].content).toContain('Entry title: Long day');
+    expect(messages[0].content).toContain('The user\'s name is Sam.');
+    expect(messages.slice(1).map(message => message.role)).toEqual(['user']);
+  });
+
+  it('sends only the latest turns, still starting with the user', () => {
+    const messages = buildZenoChatMessages(entry, turns(22));
+
+    expect(messages).toHaveLength(18);
+    expect(messages[1].role).toBe('user');
+    expect(messages[2]).toEqual({ role: 'assistant', content: 'message 6' });
+    expect(messages[17]).toEqual({ role: 'user', content: 'message 21' });
+    expect(buildZenoChatMessages(entry, turns(21))[1]).toEqual({ role: 'user', content: 'message 5' });
+  });
+
+  it('allows an opening or retry only when Zeno owes a reply', () => {
+    expect(getChatTurnError([], '')).toBeNull();
+    expect(getChatTurnError(turns(2), '')).toBeNull();
+    expect(getChatTurnError(turns(1), '')).toBe('Message is required');
+    expect(getChatTurnError(turns(2), 'Another thought')).toBe('Zeno hasn\'t answered your last message yet');
+  });
+
+  it('limits message length and conversation length', () => {
+    expect(getChatTurnError(turns(1), 'a'.repeat(MAX_MESSAGE_LENGTH + 1))).toMatch(/up to/);
+    expect(getChatTurnError(turns(1), 'I think so')).toBeNull();
+    expect(getChatTurnError(turns(MAX_USER_MESSAGES * 2 + 1), 'One more')).toBe('This conversation has reached its limit');
+  });
+
+  it('encodes events as server-sent events', () => {
+    expect(encodeChatEvent({ type: 'delta', text: 'Hi' })).toBe('data: {"type":"delta","text":"Hi"}\n\n');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+vi.mock('../../contexts/AuthContext', () => {
+  const auth = { user: { id: 'user-1' }, isAuthenticated: true };
+  return { useAuth: vi.fn(() => auth) };
+});
+
+vi.mock('../../hooks/useVault', () => {
+  const vault = { isVaultEnabled: false, isVaultKnown: true, isUnlocked: false, encrypt: vi.fn() };
+  return { useVault: vi.fn(() => vault) };
+});
+
+vi.mock('../../lib/offlineQueue', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../lib/offlineQueue')>(),
+  getQueuedOperations: vi.fn(),
+  removeOperation: vi.fn(async () => {}),
+  enqueueOperation: vi.fn(),
+  replaceOperation: vi.fn()
+}));
+
+import { useJournalEntries } from '../../hooks/useJournalEntries';
+import { QueuedOperation, enqueueOperation, getQueuedOperations, removeOperation } from '../../lib/offlineQueue';
+import { supabase } from '../../lib/supabase';
+
+type Result = { data: unknown; error: unknown };
+
+/**
+ * A query builder that records what was written and answers each call to
+ * `from()` with the next result. A result can be a function of the `eq`
+ * filters, to answer like the server would.
+ */
+const mockQueries = (results: Array<Result | ((filters: unknown[][]) => Result)>) => {
+  const writes: Array<{ method: string; values: unknown }> = [];
+
+  vi.mocked(supabase.from).mockImplementation(() => {
+    const next = results.shift() ?? { data: null, error: null };
+    const filters: unknown[][] = [];
+    const answer = async () => typeof next === 'function' ? next(filters) : next;
+    const query: Record<string, unknown> = {};
+    for (const method of ['select', 'order', 'limit', 'delete']) {
+      query[method] = vi.fn(() => query);
+    }
+    query.eq = vi.fn((...args: unknown[]) => {
+      filters.push(args);
+      return query;
+    });
+    for (const method of ['insert', 'update']) {
+      query[method] = vi.fn((values: unknown) => {
+        writes.push({ method, values });
+        return query;
+      });
+    }
+    query.single = vi.fn(answer);
+    query.maybeSingle = vi.fn(answer);
+    query.then = (resolve: (value: Result) => unknown) => answer().then(resolve);
+    return query as unknown as ReturnType<typeof supabase.from>;
+  });
+
+  return writes;
+};
+
+const queuedOperation = (operation: Partial<QueuedOperation>): QueuedOperation => ({
+  id: 1,
+  type: 'insert',
+  entryId: 'local-1',
+  userId: 'user-1',
+  payload: { content: 'Wrote this on the train', title: null, mood: 'good', tags: [] },
+  createdAt: '2025-06-01T08:00:00Z',
+  ...operation
+});
+
+describe('useJournalEntries offline sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('drops an offline entry the server rejects and says so', async () => {
+    vi.mocked(getQueuedOperations)
+      .mockResolvedValueOnce([queuedOperation({})])
+      .mockResolvedValue([]);
+    mockQueries([{ data: null, error: { message: 'new row violates check constraint', code: '23514' } }]);
+
+    const { result } = renderHook(() => useJournalEntries());
+
+    await waitFor(() => expect(removeOperation).toHaveBeenCalledWith(1));
+    expect(result.current.error).toBe('An entry written offline couldn\'t be saved.');
+  });
+
+  it('keeps the emotions and prompt on an offline copy', async () => {
+    vi.mocked(getQueuedOperations)
+      .mockResolvedValueOnce([queuedOperation({
+        type: 'update',
+        entryId: 'entry-1',
+        baseUpdatedAt: '2025-06-01T07:00:00Z'
+      })])
+      .mockResolvedValue([]);
+    const serverEntry = {
+      id: 'entry-1',
+      user_id: 'user-1',
+      content: 'Edited on my laptop',
+      title: 'Monday',
+      mood: 'neutral',
+      tags: ['work'],
+      primary_emotion: 'anxious',
+      secondary_emotions: ['tired'],
+      emotion_intensity: 3,
+      emotion_triggers: ['deadline'],
+      prompt: 'What went well today?',
+      prompt_category: 'gratitude',
+      photo_url: null,
+      photo_filename: null
+    };
+    const writes = mockQueries([
+      { data: [], error: null },
+      { data: serverEntry, error: null },
+      { data: { ...serverEntry, id: 'entry-2' }, error: null }
+    ]);
+
+    renderHook(() => useJournalEntries());
+
+    await waitFor(() => expect(writes.some(write => write.method === 'insert')).toBe(true));
+    expect(writes.find(write => write.method === 'insert')?.values).toMatchObject({
+      content: 'Wrote this on the train',
+      primary_emotion: 'anxious',
+      secondary_emotions: ['tired'],
+      emotion_intensity: 3,
+      emotion_triggers: ['deadline'],
+      prompt: 'What went well today?',
+      prompt_category: 'gratitude'
+    });
+  });
+
+  it('bases an offline edit on the server\'s time for an online edit, so it syncs without a copy', async () => {
+    const queue: QueuedOperation[] = [];
+    vi.mocked(getQueuedOperations).mockImplementation(async () => [...queue]);
+    vi.mocked(enqueueOperation).mockImplementation(async (operation: QueuedOperation) => {
+      const id = queue.length + 1;
+      queue.push({ ...operation, id });
+      return id;
+    });
+    vi.mocked(removeOperation).mockImplementation(async (id: number) => {
+      queue.splice(queue.findIndex(operation => operation.id === id), 1);
+    });
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+
+    const entry = {
+      id: 'entry-1',
+      user_id: 'user-1',
+      content: 'Written on Monday',
+      title: null,
+      mood: 'neutral',
+      tags: [],
+      photo_url: null,
+      photo_filename: null,
+      is_encrypted: false,
+      created_at: '2025-06-02T08:00:00Z',
+      updated_at: '2025-06-02T08:00:00Z'
+    };
+    // Set by the updated_at trigger, never the client's clock
+    const SERVER_TIME = '2025-06-02T09:00:00.123456+00:00';
+    const writes = mockQueries([
+      { data: [entry], error: null },
+      { data: { ...entry, content: 'Edited online', updated_at: SERVER_TIME }, error: null },
+      filters => filters.some(([column, value]) => column === 'updated_at' && value === SERVER_TIME)
+        ? { data: [{ ...entry, content: 'Edited offline', updated_at: '2025-06-02T10:00:00Z' }], error: null }
+        : { data: [], error: null }
+    ]);
+
+    const { result } = renderHook(() => useJournalEntries());
+    await act(() => result.current.loadEntries(true));
+
+    await act(() => result.current.updateEntry('entry-1', 'Edited online', null, 3));
+    expect(writes[0].values).not.toHaveProperty('updated_at');
+    expect(result.current.entries[0].updated_at).toBe(SERVER_TIME);
+
+    onLine.mockReturnValue(false);
+    await act(() => result.current.updateEntry('entry-1', 'Edited offline', null, 3));
+    expect(queue[0].baseUpdatedAt).toBe(SERVER_TIME);
+
+    onLine.mockReturnValue(true);
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(queue).toHaveLength(0));
+    expect(writes.filter(write => write.method === 'insert')).toEqual([]);
+    expect(result.current.entries).toHaveLength(1);
+    expect(result.current.entries[0].content).toBe('Edited offline');
+    onLine.mockRestore();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+
+vi.mock('../../contexts/AuthContext', () => {
+  const auth = { user: { id: 'user-1' } };
+  return { useAuth: vi.fn(() => auth) };
+});
+
+import { VaultProvider } from '../../contexts/VaultContext';
+import { useVault } from '../../hooks/useVault';
+import { supabase } from '../../lib/supabase';
+
+const keyRecord = {
+  passphrase_salt: 'salt',
+  passphrase_wrapped_key: 'wrapped',
+  recovery_salt: 'recovery-salt',
+  recovery_wrapped_key: 'recovery-wrapped'
+};
+
+const mockKeyLookup = (result: Promise<{ data: unknown; error: unknown }>) => {
+  vi.mocked(supabase.from).mockReturnValue({
+    select: () => ({ eq: () => ({ maybeSingle: () => result }) })
+  } as unknown as ReturnType<typeof supabase.from>);
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => createElement(VaultProvider, null, children);
+
+describe('useVault', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('isn\'t known until the key lookup finishes', async () => {
+    mockKeyLookup(Promise.resolve({ data: null, error: null }));
+    const { result } = renderHook(() => useVault(), { wrapper });
+
+    expect(result.current.isVaultKnown).toBe(false);
+
+    await waitFor(() => expect(result.current.isVaultKnown).toBe(true));
+    expect(result.current.isVaultEnabled).toBe(false);
+  });
+
+  it('stays unknown when the lookup fails and nothing is cached', async () => {
+    mockKeyLookup(Promise.reject(new Error('Failed to fetch')));
+    const { result } = renderHook(() => useVault(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.isVaultKnown).toBe(false);
+  });
+
+  it('uses the last loaded key record when the lookup fails', async () => {
+    mockKeyLookup(Promise.resolve({ data: keyRecord, error: null }));
+    const first = renderHook(() => useVault(), { wrapper });
+    await waitFor(() => expect(first.result.current.isVaultEnabled).toBe(true));
+    first.unmount();
+
+    mockKeyLookup(Promise.resolve({ data: null, error: { message: 'network error' } }));
+    const { result } = renderHook(() => useVault(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.isVaultKnown).toBe(true);
+    expect(result.current.isVaultEnabled).toBe(true);
+  });
+});
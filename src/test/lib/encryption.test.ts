@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createVault,
+  decryptText,
+  encryptText,
+  isEncryptedValue,
+  normalizeRecoveryKey,
+  rewrapWithPassphrase,
+  unlockWithPassphrase,
+  unlockWithRecoveryKey
+} from '../../lib/encryption';
+
+describe('encryption', () => {
+  it('round-trips text through the vault data key', async () => {
+    const { dataKey } = await createVault('correct horse battery');
+
+    const ciphertext = await encryptText(dataKey, 'Today I felt calm by the sea.');
+
+    expect(isEncryptedValue(ciphertext)).toBe(true);
+    expect(ciphertext).not.toContain('calm');
+    expect(await decryptText(dataKey, ciphertext)).toBe('Today I felt calm by the sea.');
+  });
+
+  it('leaves plaintext entries written before the vault unchanged', async () => {
+    const { dataKey } = await createVault('correct horse battery');
+
+    expect(isEncryptedValue('A plain entry')).toBe(false);
+    expect(await decryptText(dataKey, 'A plain entry')).toBe('A plain entry');
+  });
+
+  it('unlocks with the passphrase and rejects a wrong one', async () => {
+    const { dataKey, record } = await createVault('correct horse battery');
+    const ciphertext = await encryptText(dataKey, 'secret');
+
+    const unlocked = await unlockWithPassphrase(record, 'correct horse battery');
+    expect(await decryptText(unlocked, ciphertext)).toBe('secret');
+
+    await expect(unlockWithPassphrase(record, 'wrong passphrase')).rejects.toThrow();
+  });
+
+  it('recovers with the recovery key and sets a new passphrase', async () => {
+    const { dataKey, record, recoveryKey } = await createVault('correct horse battery');
+    const ciphertext = await encryptText(dataKey, 'secret');
+
+    // Recovery keys are accepted regardless of case and separators
+    const typedKey = recoveryKey.toLowerCase().replace(/-/g, ' ');
+    const recovered = await unlockWithRecoveryKey(record, typedKey);
+    const updated = { ...record, ...(await rewrapWithPassphrase(recovered, 'a brand new passphrase')) };
+
+    const unlocked = await unlockWithPassphrase(updated, 'a brand new passphrase');
+    expect(await decryptText(unlocked, ciphertext)).toBe('secret');
+    await expect(unlockWithPassphrase(updated, 'correct horse battery')).rejects.toThrow();
+  });
+
+  it('normalizes recovery keys', () => {
+    expect(normalizeRecoveryKey('ab12-cd34 ef56')).toBe('AB12CD34EF56');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  QueuedOperation,
+  applyQueuedOperations,
+  createLocalEntryId,
+  isLocalEntryId,
+  isNetworkError
+} from '../../lib/offlineQueue';
+import { mockJournalEntries } from '../mocks/mockData';
+
+const queuedAt = '2023-06-16T08:00:00Z';
+
+describe('offlineQueue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('local entry ids', () => {
+    it('recognises ids generated for offline entries', () => {
+      expect(isLocalEntryId(createLocalEntryId())).toBe(true);
+      expect(isLocalEntryId('entry-1')).toBe(false);
+    });
+  });
+
+  describe('isNetworkError', () => {
+    it('treats fetch failures as network errors', () => {
+      expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isNetworkError({ message: 'TypeError: NetworkError when attempting to fetch resource.' })).toBe(true);
+    });
+
+    it('does not treat server rejections as network errors', () => {
+      expect(isNetworkError({ message: 'new row violates row-level security policy' })).toBe(false);
+      expect(isNetworkError(null)).toBe(false);
+    });
+
+    it('treats everything as a network error while the browser is offline', () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      expect(isNetworkError({ message: 'anything' })).toBe(true);
+    });
+  });
+
+  describe('applyQueuedOperations', () => {
+    it('adds queued inserts to the top of the list as pending', () => {
+      const operations: QueuedOperation[] = [{
+        id: 1,
+        userId: 'user-123',
+        type: 'insert',
+        entryId: 'local-1',
+        payload: { content: 'Written on a plane', title: null, mood: 'good' },
+        createdAt: queuedAt
+      }];
+
+      const result = applyQueuedOperations(mockJournalEntries, operations);
+
+      expect(result).toHaveLength(mockJournalEntries.length + 1);
+      expect(result[0]).toMatchObject({
+        id: 'local-1',
+        content: 'Written on a plane',
+        created_at: queuedAt,
+        pending_sync: true
+      });
+    });
+
+    it('applies queued edits and deletes in order', () => {
+      const operations: QueuedOperation[] = [
+        {
+          id: 1,
+          userId: 'user-123',
+          type: 'update',
+          entryId: 'entry-3',
+          payload: { content: 'Edited offline', title: 'Normal Day', mood: 'good', removePhoto: true },
+          baseUpdatedAt: '2023-06-13T14:20:00Z',
+          createdAt: queuedAt
+        },
+        {
+          id: 2,
+          userId: 'user-123',
+          type: 'delete',
+          entryId: 'entry-2',
+          createdAt: queuedAt
+        }
+      ];
+
+      const result = applyQueuedOperations(mockJournalEntries, operations);
+
+      expect(result.map(entry => entry.id)).toEqual(['entry-1', 'entry-3']);
+      expect(result[1]).toMatchObject({
+        content: 'Edited offline',
+        mood: 'good',
+        photo_url: null,
+        pending_sync: true
+      });
+      expect(result[0]).not.toHaveProperty('pending_sync');
+    });
+
+    it('does not duplicate an insert that already synced', () => {
+      const operations: QueuedOperation[] = [{
+        id: 1,
+        userId: 'user-123',
+        type: 'insert',
+        entryId: 'entry-1',
+        payload: { content: 'Duplicate', title: null, mood: 'good' },
+        createdAt: queuedAt
+      }];
+
+      expect(applyQueuedOperations(mockJournalEntries, operations)).toHaveLength(mockJournalEntries.length);
+    });
+  });
+});
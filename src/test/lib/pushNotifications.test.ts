@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNotificationPermission,
+  isPushSupported,
+  urlBase64ToUint8Array
+} from '../../lib/pushNotifications';
+
+describe('pushNotifications', () => {
+  it('decodes base64url VAPID keys, restoring padding', () => {
+    // "hi?>" encodes to "aGk_Pg" in base64url (no padding, '_' for '/')
+    expect(Array.from(urlBase64ToUint8Array('aGk_Pg'))).toEqual([104, 105, 63, 62]);
+  });
+
+  it('reports push as unsupported without a service worker', () => {
+    expect(isPushSupported()).toBe(false);
+    expect(getNotificationPermission()).toBe('unsupported');
+  });
+});
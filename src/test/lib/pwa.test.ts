@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getInstallPrompt,
+  onInstallPromptChange,
+  promptInstall,
+  isStandalone,
+  BeforeInstallPromptEvent
+} from '../../lib/pwa';
+
+const fireInstallPrompt = (outcome: 'accepted' | 'dismissed') => {
+  const event = new Event('beforeinstallprompt', { cancelable: true }) as BeforeInstallPromptEvent;
+  event.prompt = vi.fn().mockResolvedValue(undefined);
+  event.userChoice = Promise.resolve({ outcome, platform: 'web' });
+  window.dispatchEvent(event);
+  return event;
+};
+
+describe('pwa', () => {
+  it('is not standalone in a browser tab', () => {
+    expect(isStandalone()).toBe(false);
+  });
+
+  it('holds on to the install prompt and notifies listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = onInstallPromptChange(listener);
+
+    const event = fireInstallPrompt('dismissed');
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(getInstallPrompt()).toBe(event);
+    expect(listener).toHaveBeenCalledWith(event);
+    unsubscribe();
+  });
+
+  it('shows the saved prompt once and reports the outcome', async () => {
+    const event = fireInstallPrompt('accepted');
+
+    await expect(promptInstall()).resolves.toBe(true);
+    expect(event.prompt).toHaveBeenCalledTimes(1);
+    expect(getInstallPrompt()).toBeNull();
+    await expect(promptInstall()).resolves.toBe(false);
+  });
+});
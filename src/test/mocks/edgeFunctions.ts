@@ -0,0 +1,163 @@
+import { vi } from 'vitest';
+
+/**
+ * Helpers for testing edge function handlers under vitest. Tests mock the
+ * function's Supabase and Stripe imports with `vi.mock`, then load it with
+ * `loadEdgeFunction` to get the handler it passes to `Deno.serve`.
+ */
+
+type Handler = (req: Request) => Promise<Response>;
+
+/**
+ * What a query resolves to
+ */
+export interface QueryResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+/**
+ * A call made through the fake client, e.g. `{ table: 'profiles', method: 'update', args: [{...}] }`
+ */
+export interface QueryCall {
+  table: string;
+  method: string;
+  args: unknown[];
+}
+
+const QUERY_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'is', 'in', 'gt', 'gte', 'lt', 'lte', 'not', 'or', 'ilike', 'contains',
+  'order', 'limit', 'range'
+];
+
+/**
+ * A Supabase client with canned results, recording every query it is sent.
+ * Each table answers with its results in order, repeating the last one.
+ *
+ * @param {Object} options - `users` maps access tokens to users; `tables` and `rpc` give results by name
+ */
+export const createFakeSupabase = (options: {
+  users?: Record<string, { id: string; email?: string }>;
+  tables?: Record<string, QueryResult | QueryResult[]>;
+  rpc?: Record<string, QueryResult>;
+} = {}) => {
+  const calls: QueryCall[] = [];
+  const tableCalls: Record<string, number> = {};
+
+  const nextResult = (table: string): QueryResult => {
+    const results = options.tables?.[table];
+    if (!results) return { data: null, error: null };
+    if (!Array.isArray(results)) return results;
+
+    const index = tableCalls[table] ?? 0;
+    tableCalls[table] = index + 1;
+    return results[Math.min(index, results.length - 1)];
+  };
+
+  const from = vi.fn((table: string) => {
+    const result = nextResult(table);
+    const settled = { data: result.data ?? null, error: result.error ?? null, count: result.count ?? null };
+    const query: Record<string, unknown> = {
+      single: vi.fn(async () => settled),
+      maybeSingle: vi.fn(async () => settled),
+      then: (resolve: (value: typeof settled) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve(settled).then(resolve, reject)
+    };
+    for (const method of QUERY_METHODS) {
+      query[method] = vi.fn((...args: unknown[]) => {
+        calls.push({ table, method, args });
+        return query;
+      });
+    }
+    return query;
+  });
+
+  const client = {
+    from,
+    rpc: vi.fn(async (name: string, args: unknown) => {
+      calls.push({ table: `rpc:${name}`, method: 'rpc', args: [args] });
+      const result = options.rpc?.[name];
+      return { data: result?.data ?? null, error: result?.error ?? null };
+    }),
+    auth: {
+      getUser: vi.fn(async (jwt: string) => {
+        const user = options.users?.[jwt];
+        return user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: new Error('invalid JWT') };
+      }),
+      admin: {
+        updateUserById: vi.fn(async () => ({ data: {}, error: null })),
+        deleteUser: vi.fn(async () => ({ data: {}, error: null })),
+        getUserById: vi.fn(async (id: string) => ({
+          data: { user: Object.values(options.users ?? {}).find(user => user.id === id) ?? null },
+          error: null
+        }))
+      }
+    },
+    storage: {
+      from: vi.fn(() => ({
+        list: vi.fn(async () => ({ data: [], error: null })),
+        remove: vi.fn(async () => ({ data: [], error: null })),
+        download: vi.fn(async () => ({ data: null, error: new Error('not found') }))
+      }))
+    }
+  };
+
+  /** Calls made on one table */
+  const callsTo = (table: string) => calls.filter(call => call.table === table);
+
+  return { client, calls, callsTo };
+};
+
+/**
+ * Load an edge function with the given environment and return its handler.
+ * Modules are reset first, so the function reads `env` when it loads.
+ *
+ * @param {string} name - Folder under `supabase/functions`
+ * @param {Record<string, string>} env - Values for `Deno.env.get`
+ */
+export async function loadEdgeFunction(name: string, env: Record<string, string>): Promise<Handler> {
+  let handler: Handler | undefined;
+
+  vi.resetModules();
+  vi.stubGlobal('Deno', {
+    env: { get: (key: string) => env[key] },
+    serve: (serve: Handler) => {
+      handler = serve;
+    }
+  });
+
+  await import(`../../../supabase/functions/${name}/index.ts`);
+  if (!handler) throw new Error(`${name} didn't call Deno.serve`);
+  return handler;
+}
+
+/**
+ * A POST request to an edge function
+ *
+ * @param {string} name - Function name, used for the URL
+ * @param {Object} [options] - A bearer token and a JSON body
+ */
+export const createFunctionRequest = (
+  name: string,
+  options: { token?: string; body?: unknown; method?: string } = {}
+): Request =>
+  new Request(`https://example.supabase.co/functions/v1/${name}`, {
+    method: options.method ?? 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {})
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+
+/**
+ * Env most functions need to start
+ */
+export const SUPABASE_ENV = {
+  SUPABASE_URL: 'https://example.supabase.co',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key'
+};
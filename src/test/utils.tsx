@@ -3,6 +3,7 @@ import { render, RenderOptions, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { ThemeProvider } from '../contexts/ThemeContext';
+import { VaultProvider } from '../contexts/VaultContext';
 
 /**
  * AuthReadyIndicator - A component that indicates when auth state is ready
@@ -26,8 +27,10 @@ const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
     <BrowserRouter>
       <ThemeProvider>
         <AuthProvider>
-          <AuthReadyIndicator />
-          {children}
+          <VaultProvider>
+            <AuthReadyIndicator />
+            {children}
+          </VaultProvider>
         </AuthProvider>
       </ThemeProvider>
     </BrowserRouter>
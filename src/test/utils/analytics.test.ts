@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateDailyMood,
+  buildMoodHeatmap,
+  compressTrend,
+  getStreakHistory,
+  getTimeOfDay
+} from '../../utils/analytics';
+
+describe('analytics', () => {
+  describe('aggregateDailyMood', () => {
+    it('weights each mood by its entry count and sorts oldest first', () => {
+      expect(aggregateDailyMood([
+        { date_created: '2025-06-02', mood_level: 'good', entry_count: 1, avg_mood_numeric: 4 },
+        { date_created: '2025-06-01', mood_level: 'low', entry_count: 3, avg_mood_numeric: 2 },
+        { date_created: '2025-06-01', mood_level: 'amazing', entry_count: 1, avg_mood_numeric: 5 }
+      ])).toEqual([
+        { date: '2025-06-01', value: 2.75, entryCount: 4 },
+        { date: '2025-06-02', value: 4, entryCount: 1 }
+      ]);
+    });
+  });
+
+  describe('compressTrend', () => {
+    it('leaves short trends alone', () => {
+      const points = [{ date: '2025-06-01', value: 3, entryCount: 1 }];
+      expect(compressTrend(points, 2)).toBe(points);
+    });
+
+    it('merges neighbouring days into weighted averages', () => {
+      expect(compressTrend([
+        { date: '2025-06-01', value: 2, entryCount: 1 },
+        { date: '2025-06-02', value: 5, entryCount: 2 },
+        { date: '2025-06-03', value: 3, entryCount: 1 }
+      ], 2)).toEqual([
+        { date: '2025-06-01', value: 4, entryCount: 3 },
+        { date: '2025-06-03', value: 3, entryCount: 1 }
+      ]);
+    });
+  });
+
+  describe('buildMoodHeatmap', () => {
+    it('buckets hours into times of day, wrapping night past midnight', () => {
+      expect(getTimeOfDay(5)).toBe('morning');
+      expect(getTimeOfDay(16)).toBe('afternoon');
+      expect(getTimeOfDay(23)).toBe('night');
+      expect(getTimeOfDay(2)).toBe('night');
+    });
+
+    it('averages mood per day and time of day', () => {
+      const heatmap = buildMoodHeatmap([
+        { day_of_week: 1, hour_of_day: 23, entry_count: 1, avg_mood_numeric: 2 },
+        { day_of_week: 1, hour_of_day: 1, entry_count: 3, avg_mood_numeric: 4 }
+      ]);
+
+      expect(heatmap).toHaveLength(7);
+      expect(heatmap[1].find(cell => cell.timeOfDay === 'night')).toEqual({
+        dayOfWeek: 1,
+        timeOfDay: 'night',
+        entryCount: 4,
+        averageMood: 3.5
+      });
+      expect(heatmap[0].every(cell => cell.averageMood === null)).toBe(true);
+    });
+  });
+
+  describe('getStreakHistory', () => {
+    it('finds runs of consecutive days, newest first', () => {
+      expect(getStreakHistory([
+        '2025-03-30', '2025-03-31', '2025-04-01', '2025-03-31', '2025-04-05', '2025-04-06'
+      ])).toEqual([
+        { startDate: '2025-04-05', endDate: '2025-04-06', length: 2 },
+        { startDate: '2025-03-30', endDate: '2025-04-01', length: 3 }
+      ]);
+    });
+
+    it('returns no streaks without entries', () => {
+      expect(getStreakHistory([])).toEqual([]);
+    });
+  });
+});
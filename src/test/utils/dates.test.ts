@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { daysBetween, getLocalDateString, getZonedDate } from '../../utils/dates';
+
+describe('dates', () => {
+  describe('getLocalDateString', () => {
+    // 02:30 UTC on June 15 is still the evening of June 14 in New York
+    const instant = new Date('2025-06-15T02:30:00Z');
+
+    it('returns the calendar day in the given timezone', () => {
+      expect(getLocalDateString(instant, 'UTC')).toBe('2025-06-15');
+      expect(getLocalDateString(instant, 'America/New_York')).toBe('2025-06-14');
+      expect(getLocalDateString(instant, 'Asia/Tokyo')).toBe('2025-06-15');
+    });
+
+    it('falls back to the browser timezone for unknown names', () => {
+      expect(getLocalDateString(instant, 'Not/AZone')).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+  });
+
+  describe('daysBetween', () => {
+    it('counts calendar days across months and DST changes', () => {
+      expect(daysBetween('2025-03-08', '2025-03-10')).toBe(2);
+      expect(daysBetween('2025-02-28', '2025-03-01')).toBe(1);
+      expect(daysBetween('2025-06-02', '2025-06-01')).toBe(-1);
+    });
+  });
+
+  describe('getZonedDate', () => {
+    it('converts a wall-clock time in a timezone to an instant', () => {
+      expect(getZonedDate('2025-06-14', '22:30', 'America/New_York').toISOString()).toBe('2025-06-15T02:30:00.000Z');
+      expect(getZonedDate('2025-01-14', '22:30', 'America/New_York').toISOString()).toBe('2025-01-15T03:30:00.000Z');
+      expect(getZonedDate('2025-06-15', '08:00', 'Asia/Tokyo').toISOString()).toBe('2025-06-14T23:00:00.000Z');
+    });
+
+    it('treats unknown timezones as UTC', () => {
+      expect(getZonedDate('2025-06-15', '08:00', 'Not/AZone').toISOString()).toBe('2025-06-15T08:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getExportFileName, isInvalidDateRange, toExportBlob } from '../../utils/exportFiles';
+
+describe('exportFiles', () => {
+  it('names files by format and date range', () => {
+    expect(getExportFileName({ format: 'json', from: '', to: '' }, '2025-06-15'))
+      .toBe('zensai-journal-2025-06-15.json');
+    expect(getExportFileName({ format: 'markdown', from: '2025-01-01', to: '2025-03-31' }, '2025-06-15'))
+      .toBe('zensai-journal-2025-01-01-to-2025-03-31.zip');
+    expect(getExportFileName({ format: 'pdf', from: '2025-01-01', to: '' }, '2025-06-15'))
+      .toBe('zensai-journal-2025-01-01-to-2025-06-15.pdf');
+  });
+
+  it('only rejects ranges that end before they start', () => {
+    expect(isInvalidDateRange('2025-02-01', '2025-01-01')).toBe(true);
+    expect(isInvalidDateRange('2025-01-01', '2025-01-01')).toBe(false);
+    expect(isInvalidDateRange('', '2025-01-01')).toBe(false);
+  });
+
+  it('wraps text responses in a typed Blob', () => {
+    const blob = toExportBlob('date,mood\r\n', 'csv');
+
+    expect(blob.type).toBe('text/csv;charset=utf-8');
+    expect(blob.size).toBe(11);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ImportedEntry,
+  parseCsv,
+  parseDaylioCsv,
+  parseDayOneJson,
+  parseImportFile,
+  parseMarkdownFile,
+  splitDuplicates
+} from '../../utils/journalImport';
+
+describe('journalImport', () => {
+  describe('parseCsv', () => {
+    it('handles quoted commas, quotes and line breaks', () => {
+      expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n')).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"\nthere']
+      ]);
+    });
+  });
+
+  describe('parseDaylioCsv', () => {
+    const csv = [
+      'full_date,date,weekday,time,mood,activities,note_title,note',
+      '2024-03-10,March 10,Sunday,9:15 pm,rad,friends | Movies,Great night,"Dinner with <b>Sam</b><br>and a film"',
+      '2024-03-10,March 10,Sunday,9:15 pm,meh,,,',
+      '2024-03-11,March 11,Monday,7:00 am,awful,work,,'
+    ].join('\n');
+
+    it('maps the Daylio mood scale and reads local times in the given timezone', () => {
+      const { entries, errors } = parseDaylioCsv(csv, 'America/New_York');
+
+      expect(errors).toEqual([]);
+      expect(entries.map(entry => entry.mood)).toEqual([5, 3, 1]);
+      expect(entries[0]).toMatchObject({
+        source: 'daylio',
+        // 21:15 EDT is 01:15 UTC the next day
+        createdAt: '2024-03-11T01:15:00.000Z',
+        title: 'Great night',
+        content: 'Dinner with Sam\nand a film',
+        tags: ['friends', 'movies']
+      });
+    });
+
+    it('gives mood-only check-ins text and distinct keys', () => {
+      const { entries } = parseDaylioCsv(csv, 'UTC');
+
+      expect(entries[1].content).toBe('Checked in as "meh" in Daylio.');
+      expect(new Set(entries.map(entry => entry.importKey)).size).toBe(3);
+    });
+
+    it('rejects CSV files from other apps', () => {
+      expect(parseDaylioCsv('date,amount\n2024-01-01,3', 'UTC').errors).toHaveLength(1);
+    });
+  });
+
+  describe('parseDayOneJson', () => {
+    it('reads entries with a heading title, tags and escaped Markdown', () => {
+      const json = JSON.stringify({
+        metadata: { version: '1.0' },
+        entries: [
+          {
+            uuid: 'ABC123',
+            creationDate: '2023-05-01T08:30:00Z',
+            text: '# Trip to the coast\nWaves were huge\\. ![](dayone-moment://PHOTO1)',
+            tags: ['Travel', 'Sea Life']
+          },
+          { uuid: 'EMPTY', creationDate: '2023-05-02T08:30:00Z', text: '' }
+        ]
+      });
+
+      const { entries, errors } = parseDayOneJson(json);
+
+      expect(entries).toEqual([{
+        source: 'dayone',
+        importKey: 'dayone:ABC123',
+        createdAt: '2023-05-01T08:30:00.000Z',
+        mood: 3,
+        title: 'Trip to the coast',
+        content: 'Waves were huge.',
+        tags: ['travel', 'sea-life']
+      }]);
+      expect(errors).toEqual(['Entry 2: no text']);
+    });
+  });
+
+  describe('parseMarkdownFile', () => {
+    it('reads front matter and reimports our own Markdown export', () => {
+      const markdown = [
+        '---',
+        'date: 2025-06-14',
+        'time: "22:30"',
+        'mood: good',
+        'tags: ["nature", "calm"]',
+        '---',
+        '',
+        '# Morning walk',
+        '',
+        '*Good · 2025-06-14 22:30*',
+        '',
+        'Felt calm by the river.',
+        '',
+        '![Photo](../photos/123_abc.jpg)',
+        ''
+      ].join('\n');
+
+      const { entries } = parseMarkdownFile(markdown, '2025-06-14-2230-morning-walk.md', 'America/New_York');
+
+      expect(entries[0]).toMatchObject({
+        createdAt: '2025-06-15T02:30:00.000Z',
+        mood: 4,
+        title: 'Morning walk',
+        content: 'Felt calm by the river.',
+        tags: ['nature', 'calm']
+      });
+    });
+
+    it('falls back to the date in the file name', () => {
+      const { entries } = parseMarkdownFile('Just some thoughts.', '2021-01-05 notes.md', 'UTC');
+
+      expect(entries[0].createdAt).toBe('2021-01-05T12:00:00.000Z');
+      expect(entries[0].title).toBeNull();
+    });
+
+    it('reports files without a date', () => {
+      expect(parseImportFile('notes.md', 'No date here', 'UTC').errors).toEqual([
+        'notes.md: no date in the front matter or file name'
+      ]);
+    });
+  });
+
+  describe('splitDuplicates', () => {
+    const entry = (overrides: Partial<ImportedEntry>): ImportedEntry => ({
+      source: 'markdown',
+      importKey: 'markdown:a',
+      createdAt: '2024-01-01T10:00:00.000Z',
+      mood: 3,
+      title: null,
+      content: 'Hello world',
+      tags: [],
+      ...overrides
+    });
+
+    it('skips entries already saved or repeated within the import', () => {
+      const { newEntries, duplicates } = splitDuplicates(
+        [
+          entry({ importKey: 'markdown:a' }),
+          entry({ importKey: 'markdown:b', createdAt: '2024-01-02T10:00:00.000Z', content: 'Typed in Zensai' }),
+          entry({ importKey: 'markdown:c', createdAt: '2024-01-03T10:00:00.000Z' }),
+          entry({ importKey: 'markdown:d', createdAt: '2024-01-03T10:00:30.000Z', content: 'hello   WORLD' })
+        ],
+        [
+          { created_at: '2023-12-31T09:00:00+00:00', content: 'Other', import_key: 'markdown:a' },
+          { created_at: '2024-01-02T10:00:12+00:00', content: 'Typed in Zensai', import_key: null }
+        ]
+      );
+
+      expect(newEntries.map(e => e.importKey)).toEqual(['markdown:c']);
+      expect(duplicates.map(e => e.importKey)).toEqual(['markdown:a', 'markdown:b', 'markdown:d']);
+    });
+  });
+});
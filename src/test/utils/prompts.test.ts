@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getAnsweredPrompts, getPromptColumns, togglePromptGoal } from '../../utils/prompts';
+
+describe('Answered prompts', () => {
+  const entries = [
+    { id: 'a', prompt: 'What are you grateful for?', prompt_category: 'gratitude' as const, created_at: '2025-06-10T09:00:00Z' },
+    { id: 'b', prompt: null, created_at: '2025-06-18T09:00:00Z' },
+    { id: 'c', prompt: 'How did the visit go?', prompt_category: null, created_at: '2025-06-19T09:00:00Z' },
+    { id: 'd', prompt: 'What are you grateful for?', prompt_category: 'gratitude' as const, created_at: '2025-06-15T09:00:00Z' },
+    { id: 'e', created_at: '2025-06-20T09:00:00Z' }
+  ];
+
+  it('lists each answered prompt once, newest first', () => {
+    expect(getAnsweredPrompts(entries)).toEqual([
+      { text: 'How did the visit go?', category: null, entryId: 'c', answeredAt: '2025-06-19T09:00:00Z' },
+      { text: 'What are you grateful for?', category: 'gratitude', entryId: 'd', answeredAt: '2025-06-15T09:00:00Z' }
+    ]);
+  });
+
+  it('stops at the limit', () => {
+    expect(getAnsweredPrompts(entries, 1).map(prompt => prompt.entryId)).toEqual(['c']);
+  });
+
+  it('turns a prompt into entry columns', () => {
+    expect(getPromptColumns({ text: 'How did the visit go?', category: 'goals' }))
+      .toEqual({ prompt: 'How did the visit go?', prompt_category: 'goals' });
+    expect(getPromptColumns(null)).toEqual({ prompt: null, prompt_category: null });
+  });
+});
+
+describe('Prompt goals', () => {
+  it('adds and removes goals up to the limit', () => {
+    expect(togglePromptGoal([], 'sleep-better', 2)).toEqual(['sleep-better']);
+    expect(togglePromptGoal(['sleep-better'], 'sleep-better', 2)).toEqual([]);
+    expect(togglePromptGoal(['sleep-better', 'find-balance'], 'reduce-stress', 2)).toEqual(['sleep-better', 'find-balance']);
+  });
+});
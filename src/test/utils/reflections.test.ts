@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { formatReflectionPeriod, getMoodArcBars } from '../../utils/reflections';
+
+describe('Reflection periods', () => {
+  it('labels a week within one month', () => {
+    expect(formatReflectionPeriod({ period: 'week', period_start: '2025-06-16', period_end: '2025-06-22' }))
+      .toBe('Jun 16 – 22');
+  });
+
+  it('labels a week across two months', () => {
+    expect(formatReflectionPeriod({ period: 'week', period_start: '2025-06-30', period_end: '2025-07-06' }))
+      .toBe('Jun 30 – Jul 6');
+  });
+
+  it('labels a month', () => {
+    expect(formatReflectionPeriod({ period: 'month', period_start: '2025-05-01', period_end: '2025-05-31' }))
+      .toBe('May 2025');
+  });
+});
+
+describe('Mood arc bars', () => {
+  it('has a bar for every day, empty where there were no entries', () => {
+    const bars = getMoodArcBars({
+      period_start: '2025-06-16',
+      period_end: '2025-06-22',
+      mood_arc: [
+        { date: '2025-06-16', average: 2.5 },
+        { date: '2025-06-19', average: 5 }
+      ]
+    });
+
+    expect(bars).toHaveLength(7);
+    expect(bars[0]).toEqual({ date: '2025-06-16', average: 2.5, height: 50 });
+    expect(bars[1]).toEqual({ date: '2025-06-17', average: null, height: null });
+    expect(bars[3]).toEqual({ date: '2025-06-19', average: 5, height: 100 });
+    expect(bars[6].date).toBe('2025-06-22');
+  });
+
+  it('covers a whole month', () => {
+    const bars = getMoodArcBars({ period_start: '2025-02-01', period_end: '2025-02-28', mood_arc: [] });
+
+    expect(bars).toHaveLength(28);
+    expect(bars.every(bar => bar.height === null)).toBe(true);
+  });
+});
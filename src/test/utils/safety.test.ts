@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combineSafetySignals,
+  detectCrisisLanguage,
+  getRegionFromLocales
+} from '../../utils/safety';
+import { getCrisisResources } from '../../data/crisisResources';
+
+describe('safety', () => {
+  describe('detectCrisisLanguage', () => {
+    it('finds suicidal and self-harm language', () => {
+      expect(detectCrisisLanguage('Some days I want to end it all')).toEqual(['suicidal']);
+      expect(detectCrisisLanguage('I started cutting myself again')).toEqual(['self_harm']);
+      expect(detectCrisisLanguage('I thought about suicide and about hurting myself'))
+        .toEqual(['suicidal', 'self_harm']);
+    });
+
+    it('handles curly apostrophes from phone keyboards', () => {
+      expect(detectCrisisLanguage('I don\u2019t want to wake up tomorrow')).toEqual(['suicidal']);
+    });
+
+    it('ignores ordinary figures of speech', () => {
+      expect(detectCrisisLanguage('This commute is killing me, and I could kill for a coffee')).toEqual([]);
+      expect(detectCrisisLanguage('I want to end the day with a long walk')).toEqual([]);
+    });
+  });
+
+  describe('combineSafetySignals', () => {
+    it('treats a keyword match as a crisis when the model did not answer', () => {
+      expect(combineSafetySignals(['suicidal'], null)).toEqual({
+        level: 'crisis',
+        categories: ['suicidal'],
+        source: 'keywords'
+      });
+      expect(combineSafetySignals([], null).level).toBe('none');
+    });
+
+    it('keeps a keyword match at concern or above when the model disagrees', () => {
+      expect(combineSafetySignals(['self_harm'], { level: 'none', categories: [] })).toEqual({
+        level: 'concern',
+        categories: ['self_harm'],
+        source: 'model'
+      });
+    });
+
+    it('uses the model level when it is more serious', () => {
+      expect(combineSafetySignals([], { level: 'crisis', categories: ['suicidal'] })).toEqual({
+        level: 'crisis',
+        categories: ['suicidal'],
+        source: 'model'
+      });
+    });
+  });
+
+  describe('regional helplines', () => {
+    it('reads the country from the browser language', () => {
+      expect(getRegionFromLocales(['en-GB', 'en'])).toBe('GB');
+      expect(getRegionFromLocales(['fr', 'zh-Hant-tw'])).toBe('TW');
+      expect(getRegionFromLocales(['en'])).toBeNull();
+    });
+
+    it('offers regional lines plus the international directory', () => {
+      const resources = getCrisisResources('gb');
+      expect(resources.emergencyNumber).toBe('999');
+      expect(resources.lines[0].name).toBe('Samaritans');
+      expect(resources.lines[resources.lines.length - 1].url).toBe('https://findahelpline.com');
+    });
+
+    it('falls back to the international directory for unknown regions', () => {
+      expect(getCrisisResources(null)).toEqual({
+        region: 'INTL',
+        emergencyNumber: null,
+        lines: [expect.objectContaining({ name: 'Find A Helpline' })]
+      });
+    });
+  });
+});
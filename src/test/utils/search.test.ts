@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { matchesSearchQuery, splitSnippet } from '../../utils/search';
+
+describe('search', () => {
+  describe('splitSnippet', () => {
+    it('splits highlighted matches from surrounding text', () => {
+      expect(splitSnippet('A long [[hl]]walk[[/hl]] by the [[hl]]sea[[/hl]]')).toEqual([
+        { text: 'A long ', highlighted: false },
+        { text: 'walk', highlighted: true },
+        { text: ' by the ', highlighted: false },
+        { text: 'sea', highlighted: true }
+      ]);
+    });
+
+    it('treats markup in the entry as plain text', () => {
+      expect(splitSnippet('<b>bold</b> [[hl]]move[[/hl]]')).toEqual([
+        { text: '<b>bold</b> ', highlighted: false },
+        { text: 'move', highlighted: true }
+      ]);
+    });
+
+    it('ignores an unterminated highlight marker', () => {
+      expect(splitSnippet('before [[hl]]after')).toEqual([
+        { text: 'before after', highlighted: false }
+      ]);
+    });
+  });
+
+  describe('matchesSearchQuery', () => {
+    const text = 'Went for a long walk by the sea with my sister';
+
+    it('requires every word to appear', () => {
+      expect(matchesSearchQuery(text, 'walk sea')).toBe(true);
+      expect(matchesSearchQuery(text, 'walk mountain')).toBe(false);
+    });
+
+    it('supports quoted phrases', () => {
+      expect(matchesSearchQuery(text, '"long walk"')).toBe(true);
+      expect(matchesSearchQuery(text, '"walk long"')).toBe(false);
+    });
+
+    it('supports excluded words', () => {
+      expect(matchesSearchQuery(text, 'walk -work')).toBe(true);
+      expect(matchesSearchQuery(text, 'walk -sister')).toBe(false);
+    });
+  });
+});
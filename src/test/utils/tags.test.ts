@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TAGS_PER_ENTRY,
+  MAX_TAG_LENGTH,
+  addTag,
+  getTagSuggestions,
+  normalizeTag,
+  normalizeTags
+} from '../../utils/tags';
+
+describe('tags', () => {
+  describe('normalizeTag', () => {
+    it('lowercases, strips the leading hash and joins words with dashes', () => {
+      expect(normalizeTag('  #Morning Walk ')).toBe('morning-walk');
+    });
+
+    it('drops characters the database does not accept', () => {
+      expect(normalizeTag('self-care & rest!')).toBe('self-care--rest');
+      expect(normalizeTag('🙂')).toBe('');
+    });
+
+    it('truncates long tags', () => {
+      expect(normalizeTag('a'.repeat(50))).toHaveLength(MAX_TAG_LENGTH);
+    });
+  });
+
+  describe('addTag', () => {
+    it('ignores empty and duplicate tags', () => {
+      expect(addTag(['work'], '  ')).toEqual(['work']);
+      expect(addTag(['work'], '#Work')).toEqual(['work']);
+      expect(addTag(['work'], 'family')).toEqual(['work', 'family']);
+    });
+
+    it('stops at the per-entry limit', () => {
+      const tags = Array.from({ length: MAX_TAGS_PER_ENTRY }, (_, i) => `tag-${i}`);
+      expect(addTag(tags, 'one-more')).toBe(tags);
+    });
+  });
+
+  it('normalizes and de-duplicates a list of tags', () => {
+    expect(normalizeTags(['Work', 'work', '#family', ''])).toEqual(['work', 'family']);
+  });
+
+  describe('getTagSuggestions', () => {
+    const available = ['work', 'workout', 'homework', 'family'];
+
+    it('puts prefix matches before other matches', () => {
+      expect(getTagSuggestions('work', available, [])).toEqual(['work', 'workout', 'homework']);
+    });
+
+    it('leaves out tags that are already selected', () => {
+      expect(getTagSuggestions('wo', available, ['work'])).toEqual(['workout', 'homework']);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_USER_MESSAGES,
+  addConversationToEntry,
+  canSendChatMessage,
+  readChatEvents
+} from '../../utils/zenoChat';
+import { ConversationMessage } from '../../types';
+
+const message = (role: ConversationMessage['role'], content: string, id = content): ConversationMessage => ({
+  id,
+  entry_id: 'entry-1',
+  role,
+  content,
+  created_at: '2025-06-28T10:00:00Z'
+});
+
+const labels = { heading: '--- Conversation with Zeno ---', user: 'Me', zeno: 'Zeno' };
+
+describe('zenoChat', () => {
+  describe('readChatEvents', () => {
+    it('reads events split across chunks', async () => {
+      const text = 'data: {"type":"delta","text":"What "}\n\ndata: {"type":"delta","text":"happened?"}\n\n' +
+        ': keep-alive\n\ndata: not json\n\ndata: {"type":"error","error":"Oops"}';
+      const encoder = new TextEncoder();
+      const response = new Response(new ReadableStream({
+        start(controller) {
+          for (let i = 0; i < text.length; i += 5) {
+            controller.enqueue(encoder.encode(text.slice(i, i + 5)));
+          }
+          controller.close();
+        }
+      }));
+      const onEvent = vi.fn();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await readChatEvents(response, onEvent);
+
+      expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+        { type: 'delta', text: 'What ' },
+        { type: 'delta', text: 'happened?' },
+        { type: 'error', error: 'Oops' }
+      ]);
+    });
+  });
+
+  describe('canSendChatMessage', () => {
+    it('waits for Zeno and stops at the message limit', () => {
+      expect(canSendChatMessage([])).toBe(false);
+      expect(canSendChatMessage([message('assistant', 'How are you?')])).toBe(true);
+      expect(canSendChatMessage([message('assistant', 'How are you?'), message('user', 'Tired')])).toBe(false);
+
+      const full = Array.from({ length: MAX_USER_MESSAGES }, (_, i) => [
+        message('assistant', 'Q', `q${i}`),
+        message('user', 'A', `a${i}`)
+      ]).flat();
+      expect(canSendChatMessage([...full, message('assistant', 'Thank you')])).toBe(false);
+    });
+  });
+
+  describe('addConversationToEntry', () => {
+    it('writes the conversation after the entry', () => {
+      const content = addConversationToEntry('A long day.\n', [
+        message('assistant', 'What made it long?'),
+        message('user', 'Meetings ')
+      ], labels);
+
+      expect(content).toBe('A long day.\n\n--- Conversation with Zeno ---\n\nZeno: What made it long?\n\nMe: Meetings');
+    });
+
+    it('replaces a conversation saved before', () => {
+      const first = addConversationToEntry('A long day.', [message('assistant', 'Why?')], labels);
+      const second = addConversationToEntry(first, [
+        message('assistant', 'Why?'),
+        message('user', 'Meetings')
+      ], labels);
+
+      expect(second).toBe('A long day.\n\n--- Conversation with Zeno ---\n\nZeno: Why?\n\nMe: Meetings');
+      expect(addConversationToEntry(second, [], labels)).toBe('A long day.');
+    });
+  });
+});
@@ -50,6 +50,10 @@ export enum ErrorCode {
   STORAGE_READ_FAILED = 'storage/read-failed',
   STORAGE_WRITE_FAILED = 'storage/write-failed',
   
+  // Vault errors
+  VAULT_LOCKED = 'vault/locked',
+  VAULT_UNKNOWN = 'vault/unknown',
+  
   // Network errors
   NETWORK_OFFLINE = 'network/offline',
   NETWORK_REQUEST_FAILED = 'network/request-failed',
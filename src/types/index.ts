@@ -8,6 +8,161 @@ export interface Mood {
   description: string;
 }
 
+/**
+ * Emotions `analyze-mood` can name, kept in step with `supabase/functions/_shared/emotions.ts`
+ */
+export type Emotion =
+  | 'joyful'
+  | 'excited'
+  | 'grateful'
+  | 'hopeful'
+  | 'proud'
+  | 'loved'
+  | 'content'
+  | 'calm'
+  | 'reflective'
+  | 'tired'
+  | 'anxious'
+  | 'sad'
+  | 'lonely'
+  | 'frustrated'
+  | 'angry'
+  | 'overwhelmed';
+
+export interface EmotionInfo {
+  emotion: Emotion;
+  emoji: string;
+  label: string;
+  valence: 'positive' | 'neutral' | 'negative';
+}
+
+/**
+ * Emotions found in an entry, stored alongside it
+ */
+export interface EmotionAnalysis {
+  primary: Emotion;
+  secondary: Emotion[];
+  /** 1 (faint) to 5 (overwhelming) */
+  intensity: number;
+  triggers: string[];
+}
+
+/**
+ * How worried we should be about what someone wrote: `concern` for hopelessness or
+ * passive thoughts of not being here, `crisis` for suicidal or self-harm language
+ */
+export type SafetyLevel = 'none' | 'concern' | 'crisis';
+
+export type SafetyCategory = 'suicidal' | 'self_harm';
+
+export interface SafetyAssessment {
+  level: SafetyLevel;
+  categories: SafetyCategory[];
+  /** Whether the model weighed in, or only the keyword check ran */
+  source: 'model' | 'keywords';
+}
+
+/**
+ * A helpline shown with the safety resources
+ */
+export interface CrisisLine {
+  name: string;
+  description: string;
+  phone?: string;
+  /** Number to text, with the keyword to send in `textKeyword` if the line needs one */
+  sms?: string;
+  textKeyword?: string;
+  url?: string;
+}
+
+export interface CrisisResources {
+  /** ISO 3166 country code, or 'INTL' for the international fallback */
+  region: string;
+  emergencyNumber: string | null;
+  lines: CrisisLine[];
+}
+
+/**
+ * One message in a "Talk to Zeno" conversation about an entry
+ */
+export interface ConversationMessage {
+  id: string;
+  entry_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+/**
+ * Kinds of prompt a user can ask for, kept in step with `supabase/functions/_shared/prompts.ts`
+ */
+export type PromptCategory = 'gratitude' | 'reframing' | 'self-compassion' | 'goals';
+
+export interface PromptCategoryInfo {
+  category: PromptCategory;
+  emoji: string;
+  label: string;
+  description: string;
+}
+
+/**
+ * Goals a user can journal towards, kept in step with `supabase/functions/_shared/prompts.ts`
+ */
+export type PromptGoal =
+  | 'reduce-stress'
+  | 'sleep-better'
+  | 'build-confidence'
+  | 'strengthen-relationships'
+  | 'find-balance'
+  | 'handle-change'
+  | 'be-kinder-to-myself';
+
+export interface PromptGoalInfo {
+  goal: PromptGoal;
+  emoji: string;
+  label: string;
+}
+
+/**
+ * The prompt an entry was written in answer to
+ */
+export interface EntryPrompt {
+  text: string;
+  category: PromptCategory | null;
+}
+
+/**
+ * A prompt the user has written about, newest first in lists
+ */
+export interface AnsweredPrompt extends EntryPrompt {
+  entryId: string;
+  answeredAt: string;
+}
+
+export type ReflectionPeriod = 'week' | 'month';
+
+export type MoodDirection = 'rising' | 'falling' | 'steady' | 'mixed';
+
+/**
+ * Zeno's look back over one week or month, written by `generate-reflections`
+ */
+export interface Reflection {
+  id: string;
+  period: ReflectionPeriod;
+  /** First and last day, YYYY-MM-DD in the user's timezone */
+  period_start: string;
+  period_end: string;
+  summary: string;
+  themes: string[];
+  wins: string[];
+  intention: string | null;
+  /** Average mood (1 to 5) for each day journaled */
+  mood_arc: { date: string; average: number }[];
+  mood_direction: MoodDirection | null;
+  entry_count: number;
+  created_at: string;
+}
+
 export interface JournalEntry {
   id: string;
   date: string;
@@ -33,4 +188,12 @@ export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-}
\ No newline at end of file
+}
+/**
+ * Outcome of one step of account deletion, as reported by `delete-user-data`
+ */
+export interface DeletionStep {
+  step: string;
+  status: 'done' | 'skipped' | 'failed';
+  detail?: string;
+}
@@ -0,0 +1,203 @@
+import { MoodLevel } from '../types';
+import { daysBetween } from './dates';
+
+export type AnalyticsRange = '7d' | '30d' | '90d' | '1y' | 'all';
+
+/** Days covered by each range; `null` means the user's whole history */
+export const ANALYTICS_RANGE_DAYS: Record<AnalyticsRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  all: null
+};
+
+/** Hour ranges (start inclusive, end exclusive) used for the time-of-day heatmap */
+export const TIME_OF_DAY_BUCKETS = [
+  { key: 'morning', startHour: 5, endHour: 12 },
+  { key: 'afternoon', startHour: 12, endHour: 17 },
+  { key: 'evening', startHour: 17, endHour: 22 },
+  { key: 'night', startHour: 22, endHour: 5 }
+] as const;
+
+export type TimeOfDay = typeof TIME_OF_DAY_BUCKETS[number]['key'];
+
+/** Row returned by the `get_mood_trends` function */
+export interface MoodTrendRow {
+  date_created: string;
+  mood_level: string;
+  entry_count: number;
+  avg_mood_numeric: number;
+}
+
+/** Row returned by the `get_mood_patterns` function */
+export interface MoodPatternRow {
+  day_of_week: number;
+  hour_of_day: number;
+  entry_count: number;
+  avg_mood_numeric: number;
+}
+
+/** Row returned by the `get_entry_length_trends` function */
+export interface EntryLengthRow {
+  date_created: string;
+  entry_count: number;
+  avg_word_count: number;
+}
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+  entryCount: number;
+}
+
+export interface HeatmapCell {
+  dayOfWeek: number;
+  timeOfDay: TimeOfDay;
+  entryCount: number;
+  averageMood: number | null;
+}
+
+export interface StreakRun {
+  startDate: string;
+  endDate: string;
+  length: number;
+}
+
+/**
+ * Combine per-mood trend rows into one weighted average mood per day, oldest first
+ */
+export const aggregateDailyMood = (rows: MoodTrendRow[]): TrendPoint[] => {
+  const days = new Map<string, { total: number; count: number }>();
+
+  for (const row of rows) {
+    const count = Number(row.entry_count);
+    const day = days.get(row.date_created) || { total: 0, count: 0 };
+    day.total += Number(row.avg_mood_numeric) * count;
+    day.count += count;
+    days.set(row.date_created, day);
+  }
+
+  return Array.from(days.entries())
+    .filter(([, day]) => day.count > 0)
+    .map(([date, day]) => ({ date, value: day.total / day.count, entryCount: day.count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Count entries per mood level across trend rows
+ */
+export const getMoodDistribution = (rows: MoodTrendRow[]): Record<string, number> => {
+  return rows.reduce<Record<string, number>>((counts, row) => {
+    counts[row.mood_level] = (counts[row.mood_level] || 0) + Number(row.entry_count);
+    return counts;
+  }, {});
+};
+
+/**
+ * Convert entry length rows into trend points, oldest first
+ */
+export const toEntryLengthTrend = (rows: EntryLengthRow[]): TrendPoint[] => {
+  return rows
+    .map(row => ({
+      date: row.date_created,
+      value: Number(row.avg_word_count),
+      entryCount: Number(row.entry_count)
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Merge neighbouring points so long ranges stay readable, weighting by entry count
+ *
+ * Each merged point takes the date of its first day.
+ */
+export const compressTrend = (points: TrendPoint[], maxPoints = 60): TrendPoint[] => {
+  if (points.length <= maxPoints) return points;
+
+  const chunkSize = Math.ceil(points.length / maxPoints);
+  const compressed: TrendPoint[] = [];
+
+  for (let i = 0; i < points.length; i += chunkSize) {
+    const chunk = points.slice(i, i + chunkSize);
+    const entryCount = chunk.reduce((sum, point) => sum + point.entryCount, 0);
+    const total = chunk.reduce((sum, point) => sum + point.value * point.entryCount, 0);
+    compressed.push({
+      date: chunk[0].date,
+      value: entryCount > 0 ? total / entryCount : 0,
+      entryCount
+    });
+  }
+
+  return compressed;
+};
+
+/**
+ * Find the time-of-day bucket an hour (0-23) falls into
+ */
+export const getTimeOfDay = (hour: number): TimeOfDay => {
+  const bucket = TIME_OF_DAY_BUCKETS.find(({ startHour, endHour }) =>
+    startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour
+  );
+  return bucket ? bucket.key : 'night';
+};
+
+/**
+ * Build a day-of-week × time-of-day grid of average mood
+ *
+ * Rows are indexed by day of week (0 = Sunday) and columns follow `TIME_OF_DAY_BUCKETS`.
+ */
+export const buildMoodHeatmap = (rows: MoodPatternRow[]): HeatmapCell[][] => {
+  const totals = Array.from({ length: 7 }, () =>
+    TIME_OF_DAY_BUCKETS.map(() => ({ total: 0, count: 0 }))
+  );
+
+  for (const row of rows) {
+    const count = Number(row.entry_count);
+    const column = TIME_OF_DAY_BUCKETS.findIndex(bucket => bucket.key === getTimeOfDay(row.hour_of_day));
+    const cell = totals[row.day_of_week]?.[column];
+    if (!cell) continue;
+    cell.total += Number(row.avg_mood_numeric) * count;
+    cell.count += count;
+  }
+
+  return totals.map((cells, dayOfWeek) =>
+    cells.map((cell, column) => ({
+      dayOfWeek,
+      timeOfDay: TIME_OF_DAY_BUCKETS[column].key,
+      entryCount: cell.count,
+      averageMood: cell.count > 0 ? cell.total / cell.count : null
+    }))
+  );
+};
+
+/**
+ * Find runs of consecutive journaling days, newest first
+ *
+ * @param dates - Days with at least one entry, as 'YYYY-MM-DD' (any order, duplicates allowed)
+ */
+export const getStreakHistory = (dates: string[]): StreakRun[] => {
+  const sortedDates = Array.from(new Set(dates)).sort();
+  const runs: StreakRun[] = [];
+
+  for (const date of sortedDates) {
+    const current = runs[runs.length - 1];
+    if (current && daysBetween(current.endDate, date) === 1) {
+      current.endDate = date;
+      current.length += 1;
+    } else {
+      runs.push({ startDate: date, endDate: date, length: 1 });
+    }
+  }
+
+  return runs.reverse();
+};
+
+/**
+ * Round an average mood to the nearest mood level
+ */
+export const toMoodLevel = (averageMood: number): MoodLevel => {
+  return Math.min(5, Math.max(1, Math.round(averageMood))) as MoodLevel;
+};
@@ -0,0 +1,81 @@
+/**
+ * The browser's IANA timezone, falling back to UTC when the runtime can't tell
+ */
+export const getBrowserTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Calendar day of `date` in `timeZone` as 'YYYY-MM-DD', matching Postgres `date` values
+ *
+ * Falls back to the browser's own timezone if `timeZone` isn't recognised.
+ */
+export const getLocalDateString = (date: Date = new Date(), timeZone?: string): string => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(date);
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Whole days from `from` to `to`, both 'YYYY-MM-DD'
+ */
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * The instant a wall-clock time happens in `timeZone`, e.g. 'YYYY-MM-DD' + 'HH:MM' from an
+ * app that exported local times. Unknown timezones are treated as UTC.
+ */
+export const getZonedDate = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // How far `timeZone` is ahead of UTC at a given instant
+  const offsetAt = (instant: number): number => {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(new Date(instant));
+    } catch {
+      return 0;
+    }
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')) - instant;
+  };
+
+  // Second pass lands on the right side of a DST change
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+};
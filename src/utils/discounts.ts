@@ -0,0 +1,26 @@
+import { PREMIUM } from '../constants/uiStrings';
+import { BillingDiscount } from '../hooks/useRewards';
+
+/**
+ * Format an amount in cents, e.g. `formatMoney(500, 'usd')` is "$5.00"
+ */
+export const formatMoney = (amountCents: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() })
+    .format(amountCents / 100);
+};
+
+/**
+ * Describe a promotion for the user, e.g. "20% off for 3 months" or "$5.00 off your first payment"
+ */
+export const formatDiscount = (discount: BillingDiscount): string => {
+  const { CODES } = PREMIUM;
+
+  const amount = discount.percent_off !== null
+    ? CODES.PERCENT_OFF.replace('{amount}', String(discount.percent_off))
+    : CODES.AMOUNT_OFF.replace('{amount}', formatMoney(discount.amount_off ?? 0, discount.currency ?? 'usd'));
+
+  const duration = CODES.DURATION[discount.duration]
+    .replace('{months}', String(discount.duration_in_months ?? 1));
+
+  return `${amount} ${duration}`;
+};
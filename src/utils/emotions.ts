@@ -0,0 +1,47 @@
+import { Emotion, EmotionAnalysis } from '../types';
+
+/**
+ * Emotion columns on a `journal_entries` row
+ */
+export interface EntryEmotionColumns {
+  primary_emotion: Emotion | null;
+  secondary_emotions: Emotion[];
+  emotion_intensity: number | null;
+  emotion_triggers: string[];
+}
+
+/**
+ * Turn an analysis into the columns it is stored in; no analysis clears them
+ */
+export const getEmotionColumns = (analysis: EmotionAnalysis | null | undefined): EntryEmotionColumns => ({
+  primary_emotion: analysis?.primary ?? null,
+  secondary_emotions: analysis?.secondary ?? [],
+  emotion_intensity: analysis?.intensity ?? null,
+  emotion_triggers: analysis?.triggers ?? []
+});
+
+/**
+ * Whether an entry was found to hold an emotion, as its primary or one of its secondary emotions
+ */
+export const entryHasEmotion = (entry: Partial<EntryEmotionColumns>, emotion: Emotion): boolean =>
+  entry.primary_emotion === emotion || (entry.secondary_emotions ?? []).includes(emotion);
+
+/**
+ * Emotions found across entries, most often primary first, for filtering
+ */
+export const getEntryEmotions = (entries: Array<Partial<EntryEmotionColumns>>): Emotion[] => {
+  const counts = new Map<Emotion, number>();
+
+  for (const entry of entries) {
+    if (entry.primary_emotion) {
+      counts.set(entry.primary_emotion, (counts.get(entry.primary_emotion) ?? 0) + 1);
+    }
+    for (const emotion of entry.secondary_emotions ?? []) {
+      if (!counts.has(emotion)) counts.set(emotion, 0);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([emotion]) => emotion);
+};
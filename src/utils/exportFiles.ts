@@ -0,0 +1,54 @@
+export type ExportFormat = 'json' | 'markdown' | 'pdf' | 'csv';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Inclusive 'YYYY-MM-DD' dates; empty for no limit */
+  from: string;
+  to: string;
+}
+
+/**
+ * How each export format is saved on the user's device
+ */
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'zip', mimeType: 'application/zip' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' }
+};
+
+/**
+ * Name for a downloaded export, e.g. 'zensai-journal-2025-01-01-to-2025-03-31.pdf'
+ */
+export const getExportFileName = (options: ExportOptions, today: string): string => {
+  const range = options.from || options.to
+    ? `${options.from || 'start'}-to-${options.to || today}`
+    : today;
+  return `zensai-journal-${range}.${EXPORT_FILE_TYPES[options.format].extension}`;
+};
+
+/**
+ * Whether `from` comes after `to`; open ranges are always valid
+ */
+export const isInvalidDateRange = (from: string, to: string): boolean =>
+  Boolean(from && to && from > to);
+
+/**
+ * Wrap whatever the export function returned in a Blob of the right type
+ */
+export const toExportBlob = (data: Blob | string, format: ExportFormat): Blob =>
+  new Blob([data], { type: EXPORT_FILE_TYPES[format].mimeType });
+
+/**
+ * Save a Blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,423 @@
+import { MoodLevel } from '../types';
+import { normalizeTags } from './tags';
+import { getZonedDate } from './dates';
+
+export type ImportSource = 'dayone' | 'daylio' | 'markdown';
+
+/**
+ * An entry read from another app's export, ready to save
+ */
+export interface ImportedEntry {
+  source: ImportSource;
+  /** Stable id of the entry in its source, saved as `import_key` */
+  importKey: string;
+  /** Original time the entry was written (ISO) */
+  createdAt: string;
+  mood: MoodLevel;
+  title: string | null;
+  content: string;
+  tags: string[];
+}
+
+export interface ImportParseResult {
+  entries: ImportedEntry[];
+  /** Readable problems with files or rows that were left out */
+  errors: string[];
+}
+
+/**
+ * Just enough of a saved entry to tell whether an import repeats it
+ */
+export interface ExistingEntry {
+  created_at: string;
+  content: string;
+  import_key: string | null;
+}
+
+export const IMPORT_FILE_ACCEPT = '.json,.csv,.md,.markdown,.txt';
+
+/** Daylio's default five-point scale */
+const DAYLIO_MOODS: Record<string, MoodLevel> = {
+  rad: 5,
+  good: 4,
+  meh: 3,
+  bad: 2,
+  awful: 1
+};
+
+/** Words accepted for `mood:` in Markdown front matter */
+const MOOD_WORDS: Record<string, MoodLevel> = {
+  ...DAYLIO_MOODS,
+  amazing: 5,
+  great: 5,
+  okay: 3,
+  ok: 3,
+  neutral: 3,
+  low: 2,
+  sad: 2,
+  struggling: 1,
+  terrible: 1
+};
+
+const DATE_PATTERN = /(\d{4}-\d{2}-\d{2})/;
+
+// Our RLS policies reject entries without text, so mood-only check-ins get a line
+const MOOD_ONLY_CONTENT = 'Checked in as "{mood}" in Daylio.';
+
+/**
+ * Turn a mood written as a word or a 1-5 number into a MoodLevel, defaulting to neutral
+ */
+export const parseMoodValue = (value: string | undefined): MoodLevel => {
+  const normalized = value?.trim().toLowerCase() ?? '';
+  const score = Number(normalized);
+  if (Number.isInteger(score) && score >= 1 && score <= 5) {
+    return score as MoodLevel;
+  }
+  return MOOD_WORDS[normalized] ?? 3;
+};
+
+/**
+ * Split CSV text into rows of fields, following quoting rules (RFC 4180)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+/**
+ * '10:34 pm', '9:05 AM' or '22:34' as 'HH:MM'
+ */
+const parseClockTime = (value: string | undefined): string => {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return '12:00';
+
+  let hour = Number(match[1]) % 24;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+
+  return `${String(hour).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * Daylio notes are stored as light HTML
+ */
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Daylio's CSV export: one row per check-in, in the phone's local time
+ */
+export const parseDaylioCsv = (text: string, timeZone: string): ImportParseResult => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const column = (row: string[], name: string) => row[columns.indexOf(name)]?.trim() ?? '';
+
+  if (!columns.includes('full_date') || !columns.includes('mood')) {
+    return { entries: [], errors: ['This CSV doesn\'t look like a Daylio export.'] };
+  }
+
+  const entries: ImportedEntry[] = [];
+  const errors: string[] = [];
+  const seenKeys = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const date = column(row, 'full_date');
+    if (!DATE_PATTERN.test(date)) {
+      errors.push(`Row ${index + 2}: missing date`);
+      return;
+    }
+
+    const time = parseClockTime(column(row, 'time'));
+    const moodName = column(row, 'mood');
+    const title = htmlToText(column(row, 'note_title')) || null;
+    const note = htmlToText(column(row, 'note'));
+
+    // Two check-ins can share a minute
+    let importKey = `daylio:${date}T${time}`;
+    for (let n = 2; seenKeys.has(importKey); n++) {
+      importKey = `daylio:${date}T${time}#${n}`;
+    }
+    seenKeys.add(importKey);
+
+    entries.push({
+      source: 'daylio',
+      importKey,
+      createdAt: getZonedDate(date, time, timeZone).toISOString(),
+      mood: parseMoodValue(moodName),
+      title,
+      content: note || MOOD_ONLY_CONTENT.replace('{mood}', moodName),
+      tags: normalizeTags(column(row, 'activities').split('|'))
+    });
+  });
+
+  return { entries, errors };
+};
+
+/**
+ * Undo the backslash escapes Day One adds to Markdown punctuation
+ */
+const unescapeDayOneText = (text: string): string =>
+  text.replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1');
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  text?: string;
+  tags?: string[];
+}
+
+/**
+ * Day One's JSON export (`Journal.json` inside the export ZIP). Times are UTC.
+ */
+export const parseDayOneJson = (text: string): ImportParseResult => {
+  let data: { entries?: DayOneEntry[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['This JSON file could not be read.'] };
+  }
+
+  if (!Array.isArray(data?.entries)) {
+    return { entries: [], errors: ['This JSON file doesn\'t look like a Day One export.'] };
+  }
+
+  const entries: ImportedEntry[] = [];
+  const errors: string[] = [];
+
+  data.entries.forEach((entry, index) => {
+    const createdAt = entry.creationDate ? new Date(entry.creationDate) : null;
+    if (!createdAt || Number.isNaN(createdAt.getTime())) {
+      errors.push(`Entry ${index + 1}: missing date`);
+      return;
+    }
+
+    // Photos are exported as separate files, so drop their placeholders
+    const lines = unescapeDayOneText(entry.text ?? '')
+      .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+      .trim()
+      .split('\n');
+
+    // Day One shows a leading heading as the entry title
+    const title = /^#{1,6}\s/.test(lines[0] ?? '') ? lines.shift()!.replace(/^#{1,6}\s+/, '').trim() : null;
+    const content = lines.join('\n').trim() || title || '';
+
+    if (!content) {
+      errors.push(`Entry ${index + 1}: no text`);
+      return;
+    }
+
+    entries.push({
+      source: 'dayone',
+      importKey: `dayone:${entry.uuid || createdAt.toISOString()}`,
+      createdAt: createdAt.toISOString(),
+      mood: 3,
+      title: title || null,
+      content,
+      tags: normalizeTags(entry.tags ?? [])
+    });
+  });
+
+  return { entries, errors };
+};
+
+const unquote = (value: string): string => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+/**
+ * Read simple YAML front matter: `key: value` lines, inline `[a, b]` lists and `- item` lists
+ */
+export const parseFrontMatter = (text: string): { data: Record<string, string | string[]>; body: string } => {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = null;
+
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+
+  return { data, body: match[2] };
+};
+
+const asString = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * A Markdown file with optional front matter, dated from `date:` or the file name
+ */
+export const parseMarkdownFile = (text: string, fileName: string, timeZone: string): ImportParseResult => {
+  const { data, body } = parseFrontMatter(text);
+  const dateValue = asString(data.date) ?? '';
+  const date = dateValue.match(DATE_PATTERN)?.[1] ?? fileName.match(DATE_PATTERN)?.[1];
+
+  if (!date) {
+    return { entries: [], errors: [`${fileName}: no date in the front matter or file name`] };
+  }
+
+  // `date:` may be a full timestamp with its own offset
+  const timestamp = /T\d{2}:\d{2}.*(Z|[+-]\d{2}:?\d{2})$/.test(dateValue) ? new Date(dateValue) : null;
+  const time = parseClockTime(asString(data.time) ?? dateValue.match(/[T ](\d{1,2}:\d{2})/)?.[1]);
+  const createdAt = timestamp && !Number.isNaN(timestamp.getTime())
+    ? timestamp
+    : getZonedDate(date, time, timeZone);
+
+  const lines = body.trim().split('\n');
+  let title = asString(data.title)?.trim() || null;
+  if (/^#\s/.test(lines[0] ?? '')) {
+    const heading = lines.shift()!.replace(/^#\s+/, '').trim();
+    title = title ?? (heading === date ? null : heading);
+  }
+
+  const content = lines
+    .join('\n')
+    // The mood and date line our own Markdown export writes under the title
+    .replace(/^\s*\*[A-Za-z]+ · \d{4}-\d{2}-\d{2} \d{2}:\d{2}\*\s*\n/, '')
+    // Photos aren't imported, so drop links to local image files
+    .replace(/!\[[^\]]*\]\((?!https?:)[^)]*\)/g, '')
+    .trim();
+
+  if (!content) {
+    return { entries: [], errors: [`${fileName}: no text`] };
+  }
+
+  const tags = data.tags ?? data.tag;
+
+  return {
+    entries: [{
+      source: 'markdown',
+      importKey: `markdown:${createdAt.toISOString()}:${fileName}`,
+      createdAt: createdAt.toISOString(),
+      mood: parseMoodValue(asString(data.mood)),
+      title,
+      content,
+      tags: normalizeTags(Array.isArray(tags) ? tags : (tags ?? '').split(/[,\s]+/))
+    }],
+    errors: []
+  };
+};
+
+/**
+ * Parse one file from another journaling app, picking the format from its extension
+ */
+export const parseImportFile = (fileName: string, text: string, timeZone: string): ImportParseResult => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const withFileName = (result: ImportParseResult): ImportParseResult => ({
+    ...result,
+    errors: result.errors.map(error => `${fileName}: ${error}`)
+  });
+
+  switch (extension) {
+    case 'json':
+      return withFileName(parseDayOneJson(text));
+    case 'csv':
+      return withFileName(parseDaylioCsv(text, timeZone));
+    case 'md':
+    case 'markdown':
+    case 'txt':
+      return parseMarkdownFile(text, fileName, timeZone);
+    default:
+      return { entries: [], errors: [`${fileName}: unsupported file type`] };
+  }
+};
+
+/**
+ * Entries count as the same when written in the same minute with the same text
+ */
+const getDuplicateKey = (createdAt: string, content: string): string =>
+  `${createdAt.slice(0, 16)}|${content.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, 200)}`;
+
+/**
+ * Separate imported entries that are already in the journal, or repeated within the import
+ */
+export const splitDuplicates = (
+  imported: ImportedEntry[],
+  existing: ExistingEntry[]
+): { newEntries: ImportedEntry[]; duplicates: ImportedEntry[] } => {
+  const importKeys = new Set(existing.map(entry => entry.import_key).filter(Boolean));
+  const contentKeys = new Set(existing.map(entry => getDuplicateKey(new Date(entry.created_at).toISOString(), entry.content)));
+  const newEntries: ImportedEntry[] = [];
+  const duplicates: ImportedEntry[] = [];
+
+  for (const entry of imported) {
+    const contentKey = getDuplicateKey(entry.createdAt, entry.content);
+
+    if (importKeys.has(entry.importKey) || contentKeys.has(contentKey)) {
+      duplicates.push(entry);
+    } else {
+      newEntries.push(entry);
+      importKeys.add(entry.importKey);
+      contentKeys.add(contentKey);
+    }
+  }
+
+  return { newEntries, duplicates };
+};
@@ -0,0 +1,60 @@
+import { AnsweredPrompt, EntryPrompt, PromptCategory, PromptGoal } from '../types';
+
+/**
+ * Prompt columns on a `journal_entries` row
+ */
+export interface EntryPromptColumns {
+  prompt: string | null;
+  prompt_category: PromptCategory | null;
+}
+
+/**
+ * Turn the prompt an entry answered into the columns it is stored in; no prompt clears them
+ */
+export const getPromptColumns = (prompt: EntryPrompt | null | undefined): EntryPromptColumns => ({
+  prompt: prompt?.text ?? null,
+  prompt_category: prompt?.category ?? null
+});
+
+/**
+ * Prompts the user has written about, newest first
+ *
+ * @param {Array} entries - Journal entries, in any order
+ * @param {number} [limit=5] - Most prompts to return
+ * @returns {AnsweredPrompt[]} Answered prompts, each prompt listed once
+ */
+export const getAnsweredPrompts = (
+  entries: Array<Partial<EntryPromptColumns> & { id: string; created_at: string }>,
+  limit = 5
+): AnsweredPrompt[] => {
+  const seen = new Set<string>();
+
+  return entries
+    .filter((entry): entry is typeof entry & { prompt: string } => Boolean(entry.prompt))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .filter(entry => {
+      if (seen.has(entry.prompt)) return false;
+      seen.add(entry.prompt);
+      return true;
+    })
+    .slice(0, limit)
+    .map(entry => ({
+      text: entry.prompt,
+      category: entry.prompt_category ?? null,
+      entryId: entry.id,
+      answeredAt: entry.created_at
+    }));
+};
+
+/**
+ * Add or remove a goal, ignoring additions past the limit
+ *
+ * @param {PromptGoal[]} goals - Currently chosen goals
+ * @param {PromptGoal} goal - Goal to toggle
+ * @param {number} max - Most goals allowed
+ * @returns {PromptGoal[]} The new selection
+ */
+export const togglePromptGoal = (goals: PromptGoal[], goal: PromptGoal, max: number): PromptGoal[] => {
+  if (goals.includes(goal)) return goals.filter(chosen => chosen !== goal);
+  return goals.length >= max ? goals : [...goals, goal];
+};
@@ -0,0 +1,57 @@
+import { Reflection } from '../types';
+
+const parseDay = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/**
+ * The days a reflection covers, e.g. "Jun 16 – 22" for a week or "June 2025" for a month
+ *
+ * @param {Reflection} reflection - The reflection
+ * @returns {string} A short label
+ */
+export const formatReflectionPeriod = (reflection: Pick<Reflection, 'period' | 'period_start' | 'period_end'>): string => {
+  const start = parseDay(reflection.period_start);
+  const end = parseDay(reflection.period_end);
+
+  if (reflection.period === 'month') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const endLabel = start.getUTCMonth() === end.getUTCMonth()
+    ? String(end.getUTCDate())
+    : end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return `${startLabel} – ${endLabel}`;
+};
+
+/**
+ * Height of each mood arc bar as a percentage, one per day of the period with
+ * days not journaled left as null
+ *
+ * @param {Reflection} reflection - The reflection
+ * @returns {Array<{date: string, average: number|null, height: number|null}>} Bars in day order
+ */
+export const getMoodArcBars = (
+  reflection: Pick<Reflection, 'period_start' | 'period_end' | 'mood_arc'>
+): { date: string; average: number | null; height: number | null }[] => {
+  const averages = new Map(reflection.mood_arc.map(point => [point.date, point.average]));
+  const bars: { date: string; average: number | null; height: number | null }[] = [];
+
+  for (
+    let day = parseDay(reflection.period_start);
+    day <= parseDay(reflection.period_end);
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+  ) {
+    const date = day.toISOString().slice(0, 10);
+    const average = averages.get(date);
+    // Mood 1 still gets a visible bar
+    bars.push(average === undefined
+      ? { date, average: null, height: null }
+      : { date, average, height: Math.round((average / 5) * 100) });
+  }
+
+  return bars;
+};
@@ -0,0 +1,87 @@
+import { SafetyAssessment, SafetyCategory, SafetyLevel } from '../types';
+
+/**
+ * Phrases that always get a second look. Matching one is never the whole story:
+ * `combineSafetySignals` lets the model decide how serious it is when it can.
+ */
+const CRISIS_PATTERNS: Record<SafetyCategory, RegExp[]> = {
+  suicidal: [
+    /\bsuicid(e|al)\b/,
+    /\bkill(ing)?\s+my\s*self\b/,
+    /\bend(ing)?\s+(it\s+all|my\s+(own\s+)?life)\b/,
+    /\btake\s+my\s+(own\s+)?life\b/,
+    /\b(want|wanted|wish|wishing)\s+(i\s+was\s+|i\s+were\s+|to\s+be\s+)?dead\b/,
+    /\bdon'?t\s+want\s+to\s+(be\s+alive|live|exist|wake\s+up)\b/,
+    /\bbetter\s+off\s+(dead|without\s+me)\b/,
+    /\bno\s+reason\s+to\s+(live|go\s+on)\b/
+  ],
+  self_harm: [
+    /\bself[-\s]?harm(ing)?\b/,
+    /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming)\s+my\s*self\b/,
+    /\boverdos(e|ed|ing)\b/
+  ]
+};
+
+const LEVEL_ORDER: SafetyLevel[] = ['none', 'concern', 'crisis'];
+
+/**
+ * Look for suicidal or self-harm language in an entry. Runs in the browser, so it
+ * also covers entries that are never sent to the server.
+ *
+ * @param {string} text - Entry text
+ * @returns {SafetyCategory[]} Categories with a matching phrase, empty if none
+ */
+export const detectCrisisLanguage = (text: string): SafetyCategory[] => {
+  // Curly apostrophes are common on phones
+  const normalized = text.toLowerCase().replace(/\u2019/g, '\'');
+
+  return (Object.keys(CRISIS_PATTERNS) as SafetyCategory[])
+    .filter(category => CRISIS_PATTERNS[category].some(pattern => pattern.test(normalized)));
+};
+
+/**
+ * Put the keyword check and the model's view together. With no model answer a keyword
+ * match is treated as a crisis, since showing help needlessly costs far less than not
+ * showing it. With one, a keyword match still means at least `concern`.
+ *
+ * @param {SafetyCategory[]} keywordCategories - From `detectCrisisLanguage`
+ * @param {{level: SafetyLevel, categories: SafetyCategory[]}|null} model - The classifier's answer, if it ran
+ * @returns {SafetyAssessment} The combined assessment
+ */
+export const combineSafetySignals = (
+  keywordCategories: SafetyCategory[],
+  model: { level: SafetyLevel; categories: SafetyCategory[] } | null
+): SafetyAssessment => {
+  if (!model) {
+    return {
+      level: keywordCategories.length > 0 ? 'crisis' : 'none',
+      categories: keywordCategories,
+      source: 'keywords'
+    };
+  }
+
+  const keywordLevel: SafetyLevel = keywordCategories.length > 0 ? 'concern' : 'none';
+  const level = LEVEL_ORDER[Math.max(LEVEL_ORDER.indexOf(model.level), LEVEL_ORDER.indexOf(keywordLevel))];
+
+  return {
+    level,
+    categories: level === 'none'
+      ? []
+      : [...new Set([...model.categories, ...keywordCategories])],
+    source: 'model'
+  };
+};
+
+/**
+ * The user's country from their browser language, e.g. 'GB' for en-GB
+ *
+ * @param {readonly string[]} locales - Usually `navigator.languages`
+ * @returns {string|null} ISO 3166 country code, or null if no locale names one
+ */
+export const getRegionFromLocales = (locales: readonly string[]): string | null => {
+  for (const locale of locales) {
+    const region = locale.split(/[-_]/).slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+    if (region) return region.toUpperCase();
+  }
+  return null;
+};
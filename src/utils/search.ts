@@ -0,0 +1,58 @@
+/**
+ * Markers `search_journal_entries` wraps around matched words in snippets
+ */
+export const HIGHLIGHT_START = '[[hl]]';
+export const HIGHLIGHT_END = '[[/hl]]';
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts so matches can be rendered
+ * as elements rather than injected HTML
+ */
+export const splitSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let remaining = snippet;
+
+  while (remaining) {
+    const start = remaining.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: remaining, highlighted: false });
+      break;
+    }
+
+    const end = remaining.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      parts.push({ text: remaining.replace(HIGHLIGHT_START, ''), highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      parts.push({ text: remaining.slice(0, start), highlighted: false });
+    }
+    parts.push({ text: remaining.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    remaining = remaining.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return parts.filter(part => part.text);
+};
+
+/**
+ * Local fallback for entries the server can't search (encrypted or not yet synced).
+ * Understands the same basics as the server: "quoted phrases" and -excluded words.
+ */
+export const matchesSearchQuery = (text: string, query: string): boolean => {
+  const haystack = text.toLowerCase();
+  const tokens = query.toLowerCase().match(/-?"[^"]+"|\S+/g) || [];
+
+  return tokens.every(token => {
+    const isExcluded = token.startsWith('-') && token.length > 1;
+    const term = (isExcluded ? token.slice(1) : token).replace(/"/g, '').trim();
+
+    if (!term || term === 'or') return true;
+    return isExcluded ? !haystack.includes(term) : haystack.includes(term);
+  });
+};
@@ -0,0 +1,59 @@
+export const MAX_TAGS_PER_ENTRY = 10;
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize a tag as typed by the user: lowercase, no leading `#`,
+ * spaces become dashes and anything other than letters, digits, `-` and `_` is dropped.
+ * Must stay in sync with the `journal_entries_tags_check` constraint.
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+};
+
+/**
+ * Add a tag to a list, ignoring empty tags, duplicates and anything past the per-entry limit
+ */
+export const addTag = (tags: string[], tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+
+  if (!normalized || tags.includes(normalized) || tags.length >= MAX_TAGS_PER_ENTRY) {
+    return tags;
+  }
+
+  return [...tags, normalized];
+};
+
+/**
+ * Normalize and de-duplicate a list of tags before saving
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  return tags.reduce<string[]>((result, tag) => addTag(result, tag), []);
+};
+
+/**
+ * Suggest existing tags that start with (or contain) the text being typed
+ */
+export const getTagSuggestions = (
+  input: string,
+  availableTags: string[],
+  selectedTags: string[],
+  limit = 5
+): string[] => {
+  const query = normalizeTag(input);
+  const candidates = availableTags.filter(tag => !selectedTags.includes(tag));
+
+  if (!query) {
+    return candidates.slice(0, limit);
+  }
+
+  const prefixMatches = candidates.filter(tag => tag.startsWith(query));
+  const otherMatches = candidates.filter(tag => !tag.startsWith(query) && tag.includes(query));
+
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+};
@@ -0,0 +1,102 @@
+import { ConversationMessage } from '../types';
+
+/**
+ * Most messages a user can send about one entry. Keep in step with
+ * MAX_USER_MESSAGES in supabase/functions/_shared/zenoChat.ts.
+ */
+export const MAX_USER_MESSAGES = 12;
+
+/**
+ * Longest message a user can send, as enforced by `chat-with-zeno`
+ */
+export const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * An event streamed by `chat-with-zeno`
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; message: ConversationMessage; user_message?: ConversationMessage; quota?: unknown }
+  | { type: 'error'; error: string };
+
+/**
+ * Read the server-sent events of a `chat-with-zeno` response as they arrive
+ *
+ * @param {Response} response - The streamed response
+ * @param {function} onEvent - Called with each event in order
+ */
+export async function readChatEvents(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) return;
+
+    try {
+      onEvent(JSON.parse(data));
+    } catch {
+      console.warn('Skipping unreadable chat event');
+    }
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(dispatch);
+  }
+
+  dispatch(buffer + decoder.decode());
+}
+
+/**
+ * Whether the user can send another message
+ *
+ * @param {ConversationMessage[]} messages - The conversation so far
+ * @returns {boolean} False while Zeno owes a reply or once the conversation is full
+ */
+export const canSendChatMessage = (messages: ConversationMessage[]): boolean =>
+  messages.length > 0 &&
+  messages[messages.length - 1].role === 'assistant' &&
+  messages.filter(message => message.role === 'user').length < MAX_USER_MESSAGES;
+
+/**
+ * The entry text with the conversation written out at the end. Saving again
+ * replaces the conversation saved before rather than adding a second copy.
+ *
+ * @param {string} content - The entry text
+ * @param {ConversationMessage[]} messages - The conversation, oldest first
+ * @param {Object} labels - Heading and speaker names, from uiStrings
+ * @returns {string} The new entry text
+ */
+export const addConversationToEntry = (
+  content: string,
+  messages: ConversationMessage[],
+  labels: { heading: string; user: string; zeno: string }
+): string => {
+  const separator = `\n\n${labels.heading}\n\n`;
+  const savedAt = content.lastIndexOf(separator);
+  const entryText = (savedAt === -1 ? content : content.slice(0, savedAt)).trimEnd();
+
+  if (messages.length === 0) return entryText;
+
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? labels.user : labels.zeno}: ${message.content.trim()}`)
+    .join('\n\n');
+
+  return `${entryText}${separator}${transcript}`;
+};
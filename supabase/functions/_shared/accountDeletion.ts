@@ -0,0 +1,86 @@
+/**
+ * Shared pieces of account deletion, used by `delete-user-data` (which starts
+ * the grace period), `purge-deleted-accounts` and `restore-account`.
+ */
+
+/** Days between asking to delete an account and it being permanently deleted */
+export const GRACE_PERIOD_DAYS = 7;
+
+/** How often `purge-deleted-accounts` runs (see the quiet_farewell migration) */
+export const PURGE_INTERVAL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type DeletionStepStatus = 'done' | 'skipped' | 'failed';
+
+/**
+ * Outcome of one deletion step, shown to the user in the deletion report
+ */
+export interface DeletionStep {
+  step: string;
+  status: DeletionStepStatus;
+  detail?: string;
+}
+
+/**
+ * Run one deletion step and record how it went. A step returns 'skipped' when
+ * there was nothing to do; a thrown error is recorded as 'failed' instead of
+ * stopping the steps after it.
+ *
+ * @returns {Promise<DeletionStepStatus>} The recorded status
+ */
+export async function runDeletionStep(
+  report: DeletionStep[],
+  step: string,
+  action: () => Promise<DeletionStepStatus | void>
+): Promise<DeletionStepStatus> {
+  try {
+    const status = (await action()) || 'done';
+    report.push({ step, status });
+    return status;
+  } catch (error) {
+    console.error(`Account deletion step "${step}" failed:`, error);
+    report.push({
+      step,
+      status: 'failed',
+      detail: error instanceof Error ? error.message : String(error)
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Whether every step in the report finished or had nothing to do
+ */
+export const isReportComplete = (report: DeletionStep[]): boolean =>
+  report.every(entry => entry.status !== 'failed');
+
+/**
+ * When an account asked to be deleted at `requestedAt` is permanently deleted
+ */
+export const getPurgeDate = (requestedAt: Date = new Date()): Date =>
+  new Date(requestedAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+
+/**
+ * How long to block signing in, as a Supabase `ban_duration`. It lasts until the
+ * purge run after `purgeAfter` and one retry; restoring the account lifts it sooner.
+ */
+export const getSignInBanDuration = (purgeAfter: Date, now: Date = new Date()): string => {
+  const hoursUntilPurge = Math.max(Math.ceil((purgeAfter.getTime() - now.getTime()) / HOUR_MS), 0);
+  return `${hoursUntilPurge + PURGE_INTERVAL_HOURS * 2}h`;
+};
+
+/**
+ * Random token for the undo link; only its hash is stored
+ */
+export const createUndoToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of an undo token as hex
+ */
+export async function hashUndoToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
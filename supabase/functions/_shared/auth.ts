@@ -0,0 +1,94 @@
+import { corsHeaders } from './cors.ts';
+
+/**
+ * The signed-in user a request was made by
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+}
+
+/**
+ * The part of a Supabase client used to verify a JWT
+ */
+export interface AuthClient {
+  auth: {
+    getUser: (jwt: string) => Promise<{
+      data: { user: { id: string; email?: string } | null };
+      error: unknown;
+    }>;
+  };
+}
+
+/**
+ * Thrown when a request isn't signed in (401) or asks to act on another user (403)
+ */
+export class AuthError extends Error {
+  status: 401 | 403;
+
+  constructor(message: string, status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Read the JWT from a `Authorization: Bearer <token>` header
+ */
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Verify the request's JWT with Supabase Auth and return its user.
+ * Never trust a user id from the request body; use this instead.
+ *
+ * @throws {AuthError} 401 when the token is missing, invalid or expired
+ */
+export async function requireUser(req: Request, client: AuthClient): Promise<AuthenticatedUser> {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new AuthError('Missing authorization token', 401);
+  }
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    throw new AuthError('Invalid or expired session. Please sign in again.', 401);
+  }
+
+  return { id: data.user.id, email: data.user.email };
+}
+
+/**
+ * Reject requests that name a different user than the one signed in.
+ * Older clients still send their own id in the body, which is allowed.
+ *
+ * @throws {AuthError} 403 when `requestedUserId` is set and isn't the signed-in user
+ */
+export function assertSameUser(user: AuthenticatedUser, requestedUserId: unknown): void {
+  if (requestedUserId !== undefined && requestedUserId !== null && requestedUserId !== user.id) {
+    throw new AuthError('You can only access your own account', 403);
+  }
+}
+
+/**
+ * JSON error response for an AuthError, in the shape our functions return
+ */
+export const authErrorResponse = (error: AuthError): Response =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }),
+    {
+      status: error.status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
@@ -0,0 +1,187 @@
+/**
+ * Subscription state rules for `stripe-webhook`.
+ */
+
+/** Days premium keeps working after a renewal payment fails */
+export const PAYMENT_GRACE_DAYS = 7;
+
+export type PaymentStatus = 'ok' | 'past_due';
+
+/**
+ * Billing columns on `profiles` that the webhook writes
+ */
+export interface BillingUpdate {
+  subscription_status?: 'premium' | 'cancelled' | 'expired';
+  subscription_expires_at?: string;
+  payment_status: PaymentStatus;
+  payment_failed_at: string | null;
+  grace_period_ends_at: string | null;
+}
+
+/**
+ * Billing state currently saved for a user
+ */
+export interface BillingState {
+  payment_status: string | null;
+  payment_failed_at: string | null;
+}
+
+export const getGracePeriodEnd = (failedAt: Date): Date =>
+  new Date(failedAt.getTime() + PAYMENT_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Profile changes when a renewal payment fails. Premium stays on until the
+ * grace period ends; repeated failures don't extend it.
+ */
+export const getPastDueUpdate = (current: BillingState | null, now: Date = new Date()): BillingUpdate => {
+  const alreadyPastDue = current?.payment_status === 'past_due' && current.payment_failed_at;
+  const failedAt = alreadyPastDue ? new Date(current.payment_failed_at as string) : now;
+  const graceEndsAt = getGracePeriodEnd(failedAt).toISOString();
+
+  return {
+    subscription_status: 'premium',
+    // Every premium check already honours the expiry date, so this is what ends access
+    subscription_expires_at: graceEndsAt,
+    payment_status: 'past_due',
+    payment_failed_at: failedAt.toISOString(),
+    grace_period_ends_at: graceEndsAt
+  };
+};
+
+/**
+ * Profile changes once a payment goes through
+ */
+export const getPaidUpdate = (currentPeriodEnd: number): BillingUpdate => ({
+  subscription_status: 'premium',
+  subscription_expires_at: new Date(currentPeriodEnd * 1000).toISOString(),
+  payment_status: 'ok',
+  payment_failed_at: null,
+  grace_period_ends_at: null
+});
+
+/**
+ * Profile changes for a subscription update from Stripe
+ */
+export const getSubscriptionUpdate = (
+  subscription: { status: string; cancel_at_period_end: boolean; current_period_end: number },
+  current: BillingState | null,
+  now: Date = new Date()
+): BillingUpdate => {
+  if (subscription.status === 'past_due') {
+    return getPastDueUpdate(current, now);
+  }
+
+  const cleared = { payment_status: 'ok' as const, payment_failed_at: null, grace_period_ends_at: null };
+  const expiresAt = new Date(subscription.current_period_end * 1000).toISOString();
+
+  // Stripe gave up retrying, or the subscription ended
+  if (subscription.status === 'canceled' || subscription.status === 'unpaid' || subscription.status === 'incomplete_expired') {
+    return { subscription_status: 'cancelled', subscription_expires_at: expiresAt, ...cleared };
+  }
+
+  return {
+    // Cancelled subscriptions stay usable until the end of the period
+    subscription_status: subscription.cancel_at_period_end ? 'cancelled' : 'premium',
+    subscription_expires_at: expiresAt,
+    ...cleared
+  };
+};
+
+/**
+ * The newest Stripe state applied to a profile, used to ignore late deliveries
+ */
+export interface BillingCursor {
+  billing_period_end: string | null;
+  billing_event_at: string | null;
+}
+
+/**
+ * Whether an event is older than what the profile already reflects. Events for an
+ * earlier billing period are stale; within a period, the later event wins.
+ *
+ * @param {number} periodEnd - Subscription `current_period_end` the event belongs to (Unix seconds)
+ * @param {number} eventCreated - Event `created` (Unix seconds)
+ */
+export const isStaleEvent = (cursor: BillingCursor | null, periodEnd: number, eventCreated: number): boolean => {
+  if (!cursor?.billing_period_end) return false;
+
+  const appliedPeriodEnd = Date.parse(cursor.billing_period_end);
+  const incomingPeriodEnd = periodEnd * 1000;
+  if (incomingPeriodEnd !== appliedPeriodEnd) {
+    return incomingPeriodEnd < appliedPeriodEnd;
+  }
+
+  return Boolean(cursor.billing_event_at) && eventCreated * 1000 < Date.parse(cursor.billing_event_at as string);
+};
+
+export const getCursorUpdate = (periodEnd: number, eventCreated: number): BillingCursor => ({
+  billing_period_end: new Date(periodEnd * 1000).toISOString(),
+  billing_event_at: new Date(eventCreated * 1000).toISOString()
+});
+
+export type SubscriptionHistoryKind =
+  | 'started'
+  | 'renewed'
+  | 'plan_changed'
+  | 'cancelled'
+  | 'resumed'
+  | 'payment_failed'
+  | 'payment_recovered'
+  | 'trial_ending'
+  | 'ended';
+
+/**
+ * Which line an event adds to the user's subscription history, if any
+ */
+export const getHistoryKind = (
+  eventType: string,
+  details: {
+    previousAttributes?: Record<string, unknown> | null;
+    cancelAtPeriodEnd?: boolean;
+    billingReason?: string | null;
+    wasPastDue?: boolean;
+  } = {}
+): SubscriptionHistoryKind | null => {
+  switch (eventType) {
+    case 'checkout.session.completed':
+      return 'started';
+    case 'invoice.payment_failed':
+      return 'payment_failed';
+    case 'invoice.paid':
+      if (details.wasPastDue) return 'payment_recovered';
+      // First invoices and proration invoices are covered by 'started' and 'plan_changed'
+      return details.billingReason === 'subscription_cycle' ? 'renewed' : null;
+    case 'customer.subscription.updated': {
+      const previous = details.previousAttributes ?? {};
+      if ('cancel_at_period_end' in previous) {
+        return details.cancelAtPeriodEnd ? 'cancelled' : 'resumed';
+      }
+      return 'items' in previous ? 'plan_changed' : null;
+    }
+    case 'customer.subscription.trial_will_end':
+      return 'trial_ending';
+    case 'customer.subscription.deleted':
+      return 'ended';
+    default:
+      return null;
+  }
+};
+
+/** A delivery still marked as processing after this long is assumed to have crashed */
+export const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type RecordedEventAction = 'duplicate' | 'in_progress' | 'process';
+
+/**
+ * What to do with an event that's already in `stripe_events`
+ */
+export const getRecordedEventAction = (
+  record: { status: string; updated_at: string },
+  now: Date = new Date()
+): RecordedEventAction => {
+  if (record.status === 'processed' || record.status === 'skipped') return 'duplicate';
+  if (record.status === 'processing' && now.getTime() - Date.parse(record.updated_at) < STALE_PROCESSING_MS) {
+    return 'in_progress';
+  }
+  return 'process';
+};
@@ -0,0 +1,47 @@
+/**
+ * Transactional email through the Resend API.
+ * Set RESEND_API_KEY (and optionally EMAIL_FROM) in the function secrets.
+ */
+
+export { escapeHtml } from './html.ts';
+
+const getApiKey = () => Deno.env.get('RESEND_API_KEY');
+const getSender = () => Deno.env.get('EMAIL_FROM') || 'Zensai <hello@zensai.app>';
+
+interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Whether email sending is set up for this project
+ */
+export const isEmailConfigured = (): boolean => Boolean(getApiKey());
+
+/**
+ * Send an email
+ *
+ * @throws If email isn't configured or the provider rejects the message
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error('Email is not configured');
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: getSender(), ...message }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Email provider error: ${response.status} ${errorText}`);
+  }
+}
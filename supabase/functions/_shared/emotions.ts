@@ -0,0 +1,121 @@
+/**
+ * Emotion taxonomy for `analyze-mood` and the rules that turn the model's JSON
+ * answer into something safe to store with an entry.
+ */
+
+/**
+ * Every emotion the model may name, and whether it lifts or weighs on the mood.
+ * The app keeps its own copy of this list in `src/data/emotions.ts`.
+ */
+export const EMOTION_VALENCE = {
+  joyful: 'positive',
+  excited: 'positive',
+  grateful: 'positive',
+  hopeful: 'positive',
+  proud: 'positive',
+  loved: 'positive',
+  content: 'positive',
+  calm: 'neutral',
+  reflective: 'neutral',
+  tired: 'negative',
+  anxious: 'negative',
+  sad: 'negative',
+  lonely: 'negative',
+  frustrated: 'negative',
+  angry: 'negative',
+  overwhelmed: 'negative',
+} as const;
+
+export type Emotion = keyof typeof EMOTION_VALENCE;
+
+export type MoodWord = 'amazing' | 'good' | 'neutral' | 'low' | 'struggling';
+
+export const EMOTIONS = Object.keys(EMOTION_VALENCE) as Emotion[];
+
+export const MAX_SECONDARY_EMOTIONS = 2;
+export const MAX_TRIGGERS = 3;
+export const MAX_TRIGGER_LENGTH = 60;
+
+/**
+ * Structured result of analysing an entry, as stored on `journal_entries`
+ */
+export interface EmotionAnalysis {
+  primary: Emotion;
+  secondary: Emotion[];
+  /** 1 (faint) to 5 (overwhelming) */
+  intensity: number;
+  /** Short phrases naming what brought the feelings on */
+  triggers: string[];
+}
+
+export const isEmotion = (value: unknown): value is Emotion =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMOTION_VALENCE, value);
+
+const toEmotion = (value: unknown): Emotion | null => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  return isEmotion(normalized) ? normalized : null;
+};
+
+/**
+ * Pull the JSON object out of a model reply, which sometimes wraps it in prose or a code fence
+ */
+const extractJson = (reply: string): unknown => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check and tidy the model's answer
+ *
+ * @param {string} reply - Raw model output, expected to hold a JSON object
+ * @returns {EmotionAnalysis|null} The analysis, or null if the primary emotion is missing or unknown
+ */
+export const parseEmotionAnalysis = (reply: string): EmotionAnalysis | null => {
+  const data = extractJson(reply);
+  if (!data || typeof data !== 'object') return null;
+
+  const { primary, secondary, intensity, triggers } = data as Record<string, unknown>;
+  const primaryEmotion = toEmotion(primary);
+  if (!primaryEmotion) return null;
+
+  const secondaryEmotions = (Array.isArray(secondary) ? secondary : [])
+    .map(toEmotion)
+    .filter((emotion): emotion is Emotion => emotion !== null && emotion !== primaryEmotion)
+    .filter((emotion, index, list) => list.indexOf(emotion) === index)
+    .slice(0, MAX_SECONDARY_EMOTIONS);
+
+  const numericIntensity = typeof intensity === 'number' ? intensity : Number(intensity);
+
+  return {
+    primary: primaryEmotion,
+    secondary: secondaryEmotions,
+    intensity: Number.isFinite(numericIntensity) ? Math.min(5, Math.max(1, Math.round(numericIntensity))) : 3,
+    triggers: (Array.isArray(triggers) ? triggers : [])
+      .filter((trigger): trigger is string => typeof trigger === 'string')
+      .map(trigger => trigger.trim().slice(0, MAX_TRIGGER_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_TRIGGERS),
+  };
+};
+
+/**
+ * The five-level mood the rest of the app works with, from the primary emotion and how strong it is
+ */
+export const getMoodFromEmotions = (analysis: EmotionAnalysis): MoodWord => {
+  const valence = EMOTION_VALENCE[analysis.primary];
+
+  if (valence === 'positive') {
+    return analysis.intensity >= 4 ? 'amazing' : 'good';
+  }
+  if (valence === 'negative') {
+    return analysis.intensity >= 4 ? 'struggling' : 'low';
+  }
+  return 'neutral';
+};
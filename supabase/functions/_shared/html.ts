@@ -0,0 +1,15 @@
+/**
+ * HTML helpers for email bodies. Kept free of Deno APIs so any module can
+ * use them without loading the email sender.
+ */
+
+/**
+ * Escape text for an HTML email body, e.g. a user's name
+ */
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
@@ -0,0 +1,239 @@
+/**
+ * Formatting for journal exports, used by `export-journal-data`.
+ */
+
+export const EXPORT_FORMATS = ['json', 'markdown', 'pdf', 'csv'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * A journal entry as read for export
+ */
+export interface ExportEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  mood: string;
+  tags: string[] | null;
+  photo_url: string | null;
+  is_encrypted: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const MOOD_SCORES: Record<string, number> = {
+  struggling: 1,
+  low: 2,
+  neutral: 3,
+  good: 4,
+  amazing: 5
+};
+
+/** Shown in place of vault entries, which only the browser can decrypt */
+export const LOCKED_ENTRY_TEXT = 'This entry is in your encrypted vault. Export as JSON with your vault unlocked to read it.';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value);
+
+/**
+ * Date ('YYYY-MM-DD') and time ('HH:MM') of a timestamp in the user's timezone
+ */
+export const getLocalDateParts = (isoString: string, timeZone: string): { date: string; time: string } => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(new Date(isoString));
+  } catch {
+    return getLocalDateParts(isoString, 'UTC');
+  }
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`
+  };
+};
+
+/**
+ * Whether an entry was written within an inclusive range of local dates
+ */
+export const isWithinDateRange = (
+  entry: Pick<ExportEntry, 'created_at'>,
+  timeZone: string,
+  from?: string | null,
+  to?: string | null
+): boolean => {
+  const { date } = getLocalDateParts(entry.created_at, timeZone);
+  return (!from || date >= from) && (!to || date <= to);
+};
+
+export const getMoodScore = (mood: string): number | null => MOOD_SCORES[mood] ?? null;
+
+export const getMoodLabel = (mood: string): string =>
+  mood ? mood.charAt(0).toUpperCase() + mood.slice(1) : '';
+
+/**
+ * Readable content of an entry; vault entries stay encrypted on the server
+ */
+export const getEntryText = (entry: Pick<ExportEntry, 'content' | 'is_encrypted'>): string =>
+  entry.is_encrypted ? LOCKED_ENTRY_TEXT : entry.content;
+
+export const getEntryTitle = (entry: Pick<ExportEntry, 'title' | 'is_encrypted'>): string | null =>
+  entry.is_encrypted ? null : entry.title;
+
+const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break
+ */
+export const escapeCsvField = (value: string | number | boolean | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  'date',
+  'time',
+  'mood',
+  'mood_score',
+  'title',
+  'content',
+  'word_count',
+  'tags',
+  'has_photo',
+  'is_encrypted',
+  'created_at'
+];
+
+/**
+ * One row per entry, oldest first, with a BOM so Excel reads it as UTF-8
+ */
+export const buildCsv = (entries: ExportEntry[], timeZone: string): string => {
+  const rows = entries.map(entry => {
+    const { date, time } = getLocalDateParts(entry.created_at, timeZone);
+    return [
+      date,
+      time,
+      entry.mood,
+      getMoodScore(entry.mood),
+      getEntryTitle(entry),
+      entry.is_encrypted ? null : entry.content,
+      entry.is_encrypted ? null : countWords(entry.content),
+      (entry.tags ?? []).join('; '),
+      Boolean(entry.photo_url),
+      Boolean(entry.is_encrypted),
+      entry.created_at
+    ].map(escapeCsvField).join(',');
+  });
+
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Where an entry's photo lives in the `journal-photos` bucket
+ */
+export const getPhotoStoragePath = (userId: string, photoUrl: string | null): string | null => {
+  const fileName = photoUrl?.split('?')[0].split('/').pop();
+  return fileName ? `${userId}/${decodeURIComponent(fileName)}` : null;
+};
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .slice(0, 40);
+
+/**
+ * File name for an entry in the Markdown bundle, sorted by date
+ */
+export const getEntryFileName = (entry: ExportEntry, timeZone: string): string => {
+  const { date, time } = getLocalDateParts(entry.created_at, timeZone);
+  const title = getEntryTitle(entry);
+  const slug = title ? slugify(title) : '';
+  return `${date}-${time.replace(':', '')}${slug ? `-${slug}` : ''}.md`;
+};
+
+/**
+ * One entry as Markdown with YAML front matter
+ *
+ * @param {string|null} photoPath - Path of the photo relative to the entry file
+ */
+export const buildEntryMarkdown = (entry: ExportEntry, timeZone: string, photoPath: string | null): string => {
+  const { date, time } = getLocalDateParts(entry.created_at, timeZone);
+  const title = getEntryTitle(entry);
+  const tags = entry.tags ?? [];
+
+  const frontMatter = [
+    '---',
+    `date: ${date}`,
+    `time: "${time}"`,
+    `mood: ${entry.mood}`,
+    tags.length > 0 ? `tags: [${tags.map(tag => JSON.stringify(tag)).join(', ')}]` : null,
+    entry.is_encrypted ? 'encrypted: true' : null,
+    '---'
+  ].filter(line => line !== null);
+
+  const body = [
+    `# ${title || date}`,
+    '',
+    `*${getMoodLabel(entry.mood)} · ${date} ${time}*`,
+    '',
+    getEntryText(entry),
+    photoPath ? `\n![Photo](${photoPath})` : null
+  ].filter(line => line !== null);
+
+  return [...frontMatter, '', ...body, ''].join('\n');
+};
+
+/**
+ * Break text into lines that fit `maxWidth`, keeping paragraph breaks.
+ * Words longer than a line are split.
+ *
+ * @param {function} measure - Width of a string in the same units as `maxWidth`
+ */
+export const wrapText = (text: string, maxWidth: number, measure: (text: string) => number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n/g, '\n').split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = word;
+
+      // Split a single word that is wider than the line
+      while (measure(line) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut -= 1;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+};
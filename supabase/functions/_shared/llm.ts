@@ -0,0 +1,539 @@
+/**
+ * One way for the AI functions to talk to a language model. The provider is
+ * picked with the LLM_PROVIDER secret (openai, anthropic, local or mock) and
+ * every call gets the same timeout, retries and token usage logging. Replies
+ * can be streamed as they are written.
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  usage: TokenUsage;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete: (request: ChatRequest, signal: AbortSignal) => Promise<ChatResult>;
+  stream: (request: ChatRequest, signal: AbortSignal, onText: (text: string) => void) => Promise<ChatResult>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  mockReply?: string;
+}
+
+type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4',
+  anthropic: 'claude-3-5-sonnet-20241022',
+  local: 'llama3.1',
+  mock: 'mock'
+};
+
+const DEFAULT_BASE_URLS: Record<LLMProviderName, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+  local: 'http://localhost:11434/v1',
+  mock: ''
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * A failed model call. Rate limits, server errors, timeouts and network
+ * failures are worth retrying; anything else is not.
+ */
+export class LLMError extends Error {
+  status: number | null;
+  retryable: boolean;
+
+  constructor(message: string, status: number | null, retryable: boolean) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+const readInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Build the provider settings from the function secrets
+ *
+ * @param {function} getEnv - Reads one secret, e.g. `(key) => Deno.env.get(key)`
+ * @returns {LLMConfig} Settings with defaults filled in
+ * @throws If LLM_PROVIDER names an unknown provider
+ */
+export const readLLMConfig = (getEnv: (key: string) => string | undefined): LLMConfig => {
+  const provider = (getEnv('LLM_PROVIDER')?.trim().toLowerCase() || 'openai') as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  const apiKeys: Record<LLMProviderName, string | undefined> = {
+    openai: getEnv('OPENAI_KEY'),
+    anthropic: getEnv('ANTHROPIC_API_KEY'),
+    local: getEnv('LLM_API_KEY'),
+    mock: undefined
+  };
+
+  return {
+    provider,
+    model: getEnv('LLM_MODEL')?.trim() || DEFAULT_MODELS[provider],
+    apiKey: apiKeys[provider]?.trim() || undefined,
+    baseUrl: (getEnv('LLM_BASE_URL')?.trim() || DEFAULT_BASE_URLS[provider]).replace(/\/+$/, ''),
+    timeoutMs: readInteger(getEnv('LLM_TIMEOUT_MS'), 20000),
+    maxRetries: readInteger(getEnv('LLM_MAX_RETRIES'), 2),
+    retryDelayMs: 500,
+    mockReply: getEnv('LLM_MOCK_REPLY')
+  };
+};
+
+/**
+ * Whether the chosen provider has what it needs. A local server usually runs
+ * without a key, and the mock provider needs nothing.
+ */
+export const isLLMConfigured = (config: LLMConfig): boolean =>
+  config.provider === 'local' || config.provider === 'mock' || Boolean(config.apiKey);
+
+const toUsage = (promptTokens = 0, completionTokens = 0): TokenUsage => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens
+});
+
+const post = async (
+  fetchFn: FetchFn,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal,
+  label: string
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      throw new LLMError(`${label} request timed out`, null, true);
+    }
+    throw new LLMError(`${label} request failed: ${error instanceof Error ? error.message : error}`, null, true);
+  }
+
+  if (!response.ok) {
+    throw new LLMError(
+      `${label} API error: ${response.status}`,
+      response.status,
+      response.status === 429 || response.status >= 500
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Call `onData` with each server-sent event's data, skipping comments and blank events
+ */
+const readEventStream = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'));
+    }
+    dataLines = [];
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        dispatch();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    dataLines.push(buffer.slice(5).replace(/^ /, ''));
+  }
+  dispatch();
+};
+
+const parseEvent = (data: string, label: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new LLMError(`${label} sent an unreadable stream event`, null, false);
+  }
+};
+
+/**
+ * OpenAI's chat completions API, also spoken by local servers such as Ollama
+ */
+const createChatCompletionsProvider = (config: LLMConfig, fetchFn: FetchFn, label: string): LLMProvider => {
+  const send = (request: ChatRequest, signal: AbortSignal, stream: boolean) => post(
+    fetchFn,
+    `${config.baseUrl}/chat/completions`,
+    config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+    {
+      model: config.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      stream: stream || undefined,
+      // Local servers don't all understand stream_options, so only ask OpenAI for streamed usage
+      stream_options: stream && config.provider === 'openai' ? { include_usage: true } : undefined,
+    },
+    signal,
+    label
+  );
+
+  return {
+    name: config.provider,
+    model: config.model,
+    complete: async (request, signal) => {
+      const data = await (await send(request, signal, false)).json();
+
+      const choices = data.choices as Array<{ message?: { content?: string } }> | undefined;
+      const usage = data.usage as { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+      return {
+        content: choices?.[0]?.message?.content ?? '',
+        usage: toUsage(usage?.prompt_tokens, usage?.completion_tokens),
+        provider: config.provider,
+        model: config.model
+      };
+    },
+    stream: async (request, signal, onText) => {
+      const response = await send(request, signal, true);
+      let content = '';
+      let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+      await readEventStream(response, (data) => {
+        if (data === '[DONE]') return;
+
+        const event = parseEvent(data, label);
+        const choices = event.choices as Array<{ delta?: { content?: string } }> | undefined;
+        const text = choices?.[0]?.delta?.content;
+        if (text) {
+          content += text;
+          onText(text);
+        }
+        if (event.usage) {
+          usage = event.usage as typeof usage;
+        }
+      });
+
+      return {
+        content,
+        usage: toUsage(usage?.prompt_tokens, usage?.completion_tokens),
+        provider: config.provider,
+        model: config.model
+      };
+    }
+  };
+};
+
+/**
+ * Anthropic's messages API, which takes the system prompt on its own
+ */
+const createAnthropicProvider = (config: LLMConfig, fetchFn: FetchFn): LLMProvider => {
+  const send = (request: ChatRequest, signal: AbortSignal, stream: boolean) => {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return post(
+      fetchFn,
+      `${config.baseUrl}/messages`,
+      {
+        'x-api-key': config.apiKey ?? '',
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      {
+        model: config.model,
+        system: system || undefined,
+        messages: request.messages.filter(message => message.role !== 'system'),
+        max_tokens: request.maxTokens,
+        // Anthropic recommends setting temperature or top_p, not both
+        temperature: request.temperature,
+        top_p: request.temperature === undefined ? request.topP : undefined,
+        stream: stream || undefined,
+      },
+      signal,
+      'Anthropic'
+    );
+  };
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+    complete: async (request, signal) => {
+      const data = await (await send(request, signal, false)).json();
+      const content = data.content as Array<{ type: string; text?: string }> | undefined;
+      const usage = data.usage as { input_tokens?: number; output_tokens?: number } | undefined;
+
+      return {
+        content: (content ?? [])
+          .filter(block => block.type === 'text')
+          .map(block => block.text ?? '')
+          .join(''),
+        usage: toUsage(usage?.input_tokens, usage?.output_tokens),
+        provider: 'anthropic',
+        model: config.model
+      };
+    },
+    stream: async (request, signal, onText) => {
+      const response = await send(request, signal, true);
+      let content = '';
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+
+      await readEventStream(response, (data) => {
+        const event = parseEvent(data, 'Anthropic');
+
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = (event.message as { usage?: { input_tokens?: number } } | undefined)?.usage?.input_tokens;
+            break;
+          case 'content_block_delta': {
+            const delta = event.delta as { type?: string; text?: string } | undefined;
+            if (delta?.type === 'text_delta' && delta.text) {
+              content += delta.text;
+              onText(delta.text);
+            }
+            break;
+          }
+          case 'message_delta':
+            outputTokens = (event.usage as { output_tokens?: number } | undefined)?.output_tokens;
+            break;
+          case 'error':
+            throw new LLMError('Anthropic stream error', null, true);
+        }
+      });
+
+      return {
+        content,
+        usage: toUsage(inputTokens, outputTokens),
+        provider: 'anthropic',
+        model: config.model
+      };
+    }
+  };
+};
+
+/**
+ * A provider that answers without a network call, for tests and local development
+ *
+ * @param {string|string[]|function} replies - One reply for every call, replies in
+ *   turn (the last one repeats), or a function of the request
+ * @returns {LLMProvider} The mock provider
+ */
+export const createMockProvider = (
+  replies: string | string[] | ((request: ChatRequest) => string)
+): LLMProvider => {
+  let calls = 0;
+
+  const complete = async (request: ChatRequest): Promise<ChatResult> => {
+    const content = typeof replies === 'function'
+      ? replies(request)
+      : Array.isArray(replies)
+        ? replies[Math.min(calls, replies.length - 1)]
+        : replies;
+    calls++;
+
+    const promptLength = request.messages.reduce((total, message) => total + message.content.length, 0);
+    // Roughly four characters to a token, so usage logging has something to show
+    return {
+      content,
+      usage: toUsage(Math.ceil(promptLength / 4), Math.ceil(content.length / 4)),
+      provider: 'mock',
+      model: 'mock'
+    };
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    complete,
+    stream: async (request, _signal, onText) => {
+      const result = await complete(request);
+      // A word at a time, like a real stream
+      (result.content.match(/\s*\S+/g) ?? []).forEach(onText);
+      return result;
+    }
+  };
+};
+
+/**
+ * Create the provider described by the settings
+ *
+ * @param {LLMConfig} config - From `readLLMConfig`
+ * @param {function} [fetchFn] - Used for HTTP calls; tests pass their own
+ * @returns {LLMProvider} The provider
+ */
+export const createLLMProvider = (config: LLMConfig, fetchFn: FetchFn = fetch): LLMProvider => {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config, fetchFn);
+    case 'local':
+      return createChatCompletionsProvider(config, fetchFn, 'Local model');
+    case 'mock':
+      return createMockProvider(config.mockReply ?? '');
+    default:
+      return createChatCompletionsProvider(config, fetchFn, 'OpenAI');
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const logUsage = (label: string, result: ChatResult, attempt: number) => {
+  console.log(
+    `LLM usage for ${label}: ${result.provider}/${result.model}, ` +
+    `${result.usage.promptTokens} prompt + ${result.usage.completionTokens} completion tokens, ` +
+    `attempt ${attempt + 1}`
+  );
+};
+
+/**
+ * Ask the model for a reply, with a timeout on each attempt and retries with
+ * backoff for errors that may pass. Logs token usage under `label` without
+ * logging any of the text.
+ *
+ * @param {LLMProvider} provider - From `createLLMProvider`
+ * @param {ChatRequest} request - Messages and sampling settings
+ * @param {Object} options - Timeout, retries and a label for the usage log
+ * @returns {Promise<ChatResult>} The trimmed reply and its token usage
+ * @throws {LLMError} When every attempt fails or the reply is empty
+ */
+export async function completeChat(
+  provider: LLMProvider,
+  request: ChatRequest,
+  options: Pick<LLMConfig, 'timeoutMs' | 'maxRetries' | 'retryDelayMs'> & { label: string }
+): Promise<ChatResult> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+    try {
+      const result = await provider.complete(request, controller.signal);
+      const content = result.content.trim();
+      if (!content) {
+        throw new LLMError(`No response from ${provider.name}`, null, false);
+      }
+
+      logUsage(options.label, result, attempt);
+      return { ...result, content };
+    } catch (error) {
+      const retryable = error instanceof LLMError ? error.retryable : false;
+      if (!retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+      console.warn(`Retrying ${options.label} after: ${error instanceof Error ? error.message : error}`);
+      await wait(options.retryDelayMs * 2 ** attempt);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Like `completeChat`, but passes the reply to `onText` as it is written.
+ * An attempt is only retried if nothing has been passed on yet.
+ *
+ * @param {LLMProvider} provider - From `createLLMProvider`
+ * @param {ChatRequest} request - Messages and sampling settings
+ * @param {Object} options - Timeout, retries, a label for the usage log and the text callback
+ * @returns {Promise<ChatResult>} The whole trimmed reply and its token usage
+ * @throws {LLMError} When every attempt fails or the reply is empty
+ */
+export async function streamChat(
+  provider: LLMProvider,
+  request: ChatRequest,
+  options: Pick<LLMConfig, 'timeoutMs' | 'maxRetries' | 'retryDelayMs'> & {
+    label: string;
+    onText: (text: string) => void;
+  }
+): Promise<ChatResult> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+    let hasStarted = false;
+
+    try {
+      const result = await provider.stream(request, controller.signal, (text) => {
+        hasStarted = true;
+        options.onText(text);
+      });
+      const content = result.content.trim();
+      if (!content) {
+        throw new LLMError(`No response from ${provider.name}`, null, false);
+      }
+
+      logUsage(options.label, result, attempt);
+      return { ...result, content };
+    } catch (error) {
+      const retryable = error instanceof LLMError ? error.retryable : false;
+      if (!retryable || hasStarted || attempt >= options.maxRetries) {
+        throw error;
+      }
+      console.warn(`Retrying ${options.label} after: ${error instanceof Error ? error.message : error}`);
+      await wait(options.retryDelayMs * 2 ** attempt);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
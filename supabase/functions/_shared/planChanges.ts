@@ -0,0 +1,153 @@
+/**
+ * Rules for switching between the monthly and yearly plans in the app.
+ * Upgrades apply straight away with a prorated charge; downgrades wait for the
+ * renewal date.
+ */
+
+export type BillingPlan = 'monthly' | 'yearly';
+
+export type PlanChangeKind = 'upgrade' | 'downgrade';
+
+/** How long a previewed proration can be used to make the change, so the charge matches what was shown */
+export const PRORATION_PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * What switching plans will cost, shown to the user before they confirm
+ */
+export interface PlanChangePreview {
+  kind: PlanChangeKind;
+  plan: BillingPlan;
+  /** Charged now; 0 for downgrades */
+  amount_due_cents: number;
+  /** Unused time on the current plan taken off `amount_due_cents` */
+  credit_cents: number;
+  currency: string;
+  /** When the new plan starts */
+  effective_at: string;
+  /** What the new plan costs at each renewal */
+  next_amount_cents: number | null;
+  /** Pass back when confirming an upgrade (Unix seconds) */
+  proration_date: number | null;
+}
+
+export const getPlanTier = (plan: BillingPlan): 'premium' | 'premium_plus' =>
+  plan === 'yearly' ? 'premium_plus' : 'premium';
+
+export const getTierPlan = (tier: string | null): BillingPlan =>
+  tier === 'premium_plus' ? 'yearly' : 'monthly';
+
+/**
+ * Whether going from one plan to another is an upgrade, a downgrade, or no change (null)
+ */
+export const getPlanChangeKind = (current: BillingPlan, target: BillingPlan): PlanChangeKind | null => {
+  if (current === target) return null;
+  return target === 'yearly' ? 'upgrade' : 'downgrade';
+};
+
+/**
+ * Why a subscription can't change plans right now, or null if it can
+ */
+export const getPlanChangeRefusal = (subscription: { status: string; cancel_at_period_end: boolean }): string | null => {
+  if (subscription.status === 'past_due' || subscription.status === 'unpaid') {
+    return 'Please update your payment method before changing plans';
+  }
+  if (subscription.cancel_at_period_end) {
+    return 'Turn renewal back on before changing plans';
+  }
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    return 'Your subscription can\'t be changed right now';
+  }
+  return null;
+};
+
+/**
+ * Credit for unused time on the current plan, from an upcoming invoice's lines
+ *
+ * @returns {number} Credit in cents, as a positive number
+ */
+export const getProrationCredit = (lines: Array<{ amount: number; proration: boolean }>): number =>
+  lines
+    .filter(line => line.proration && line.amount < 0)
+    .reduce((total, line) => total - line.amount, 0);
+
+/**
+ * Whether a proration date from a preview can still be used to make the change
+ *
+ * @param {number} prorationDate - Unix seconds
+ */
+export const isProrationDateUsable = (prorationDate: unknown, now: Date = new Date()): prorationDate is number => {
+  if (typeof prorationDate !== 'number' || !Number.isFinite(prorationDate)) return false;
+
+  const age = now.getTime() - prorationDate * 1000;
+  return age >= 0 && age <= PRORATION_PREVIEW_TTL_MS;
+};
+
+/**
+ * Whether a scheduled plan switch is finished with: it has happened, or the
+ * subscription no longer has a schedule to make it happen
+ */
+export const isScheduledTierSettled = (
+  scheduledTier: string | null,
+  subscription: { tier: string; hasSchedule: boolean }
+): boolean => {
+  if (!scheduledTier) return false;
+  return subscription.tier === scheduledTier || !subscription.hasSchedule;
+};
+
+/**
+ * A schedule phase, as sent to Stripe. Times are Unix seconds.
+ */
+export interface SchedulePhase {
+  items: Array<{ price: string; quantity: number }>;
+  coupon?: string;
+  start_date?: number;
+  end_date?: number;
+  trial_end?: number;
+  iterations?: number;
+}
+
+/**
+ * The schedule phases for a downgrade at renewal: the current plan until then,
+ * then the new plan. Setting phases replaces whatever was on them, so the
+ * subscription's coupon is copied over, and kept on the new plan for as long
+ * as it would have lasted anyway.
+ */
+export const getDowngradePhases = (details: {
+  currentPriceId: string;
+  targetPriceId: string;
+  /** When the schedule's current phase started */
+  startDate: number;
+  renewsAt: number;
+  trialEnd: number | null;
+  /** The coupon on the current phase, if the schedule already has one */
+  phaseCoupon: string | null;
+  discount: { coupon: { id: string; duration: 'once' | 'repeating' | 'forever' }; end?: number | null } | null;
+}): SchedulePhase[] => {
+  const { discount, renewsAt, targetPriceId } = details;
+  const currentCoupon = details.phaseCoupon ?? discount?.coupon.id;
+  const current: SchedulePhase = {
+    items: [{ price: details.currentPriceId, quantity: 1 }],
+    ...(currentCoupon && { coupon: currentCoupon }),
+    start_date: details.startDate,
+    end_date: renewsAt,
+    ...(details.trialEnd && { trial_end: details.trialEnd }),
+  };
+  const next: SchedulePhase = { items: [{ price: targetPriceId, quantity: 1 }], iterations: 1 };
+
+  if (!discount || discount.coupon.duration === 'once') {
+    return [current, next];
+  }
+  if (discount.coupon.duration === 'forever') {
+    return [current, { ...next, coupon: discount.coupon.id }];
+  }
+  if (!discount.end || discount.end <= renewsAt) {
+    return [current, next];
+  }
+
+  // A repeating coupon would start over on a new phase, so end it where it would have ended
+  return [
+    current,
+    { items: next.items, coupon: discount.coupon.id, end_date: discount.end },
+    next,
+  ];
+};
@@ -0,0 +1,211 @@
+/**
+ * Personalized journaling prompts for `generate-prompt`: the categories and goals
+ * a user can choose, and what the model sees of their recent entries and the
+ * prompts they've already answered.
+ */
+
+import { ChatMessage } from './llm.ts';
+
+export type PromptCategory = 'gratitude' | 'reframing' | 'self-compassion' | 'goals';
+
+export const PROMPT_CATEGORIES: PromptCategory[] = ['gratitude', 'reframing', 'self-compassion', 'goals'];
+
+export type PromptGoal =
+  | 'reduce-stress'
+  | 'sleep-better'
+  | 'build-confidence'
+  | 'strengthen-relationships'
+  | 'find-balance'
+  | 'handle-change'
+  | 'be-kinder-to-myself';
+
+/**
+ * Goals a user can pick, as the model should read them
+ */
+export const PROMPT_GOALS: Record<PromptGoal, string> = {
+  'reduce-stress': 'feel less stressed',
+  'sleep-better': 'sleep better',
+  'build-confidence': 'build confidence',
+  'strengthen-relationships': 'strengthen their relationships',
+  'find-balance': 'find a better work-life balance',
+  'handle-change': 'cope with a big change',
+  'be-kinder-to-myself': 'be kinder to themselves'
+};
+
+/** Most goals a user can choose at once */
+export const MAX_PROMPT_GOALS = 3;
+
+// Enough history to find threads without making every prompt about the past
+export const RECENT_ENTRY_DAYS = 14;
+export const RECENT_ENTRY_LIMIT = 8;
+export const ANSWERED_PROMPT_LIMIT = 10;
+
+const MAX_ENTRY_LENGTH = 400;
+const MAX_PROMPT_LENGTH = 300;
+
+const CATEGORY_GUIDANCE: Record<PromptCategory, string> = {
+  gratitude: 'Write a gratitude prompt: help them notice something specific they appreciate, and why it matters to them.',
+  reframing: 'Write a gentle CBT-style reframing prompt: help them notice a thought that is weighing on them, look at the evidence for it, and find a kinder, more balanced way to see it.',
+  'self-compassion': 'Write a self-compassion prompt: help them treat themselves with the warmth they would offer a good friend, especially around something hard.',
+  goals: 'Write a goals prompt: help them take stock of progress, name one small next step, or notice what is getting in the way.'
+};
+
+const CATEGORY_FALLBACK_PROMPTS: Record<PromptCategory, string[]> = {
+  gratitude: [
+    "What's one small thing from today you'd like to say thank you for, and why?",
+    "Who made your week a little easier, and what did they do?",
+    "What's something you often take for granted that you're glad to have?"
+  ],
+  reframing: [
+    "What's a thought that's been weighing on you? What would you say to a friend who had it?",
+    "Think of something that went wrong recently. What's another way to look at what happened?",
+    "What's one worry on your mind, and what evidence do you have for and against it?"
+  ],
+  'self-compassion': [
+    "What's something you've been hard on yourself about? How could you speak to yourself more kindly?",
+    "If you could offer yourself a little comfort right now, what would it be?",
+    "What's one way you've been doing your best, even if it didn't feel like enough?"
+  ],
+  goals: [
+    "What's one small step you could take this week toward something that matters to you?",
+    "What progress have you made lately, however small, that you haven't given yourself credit for?",
+    "What's getting in the way of a goal right now, and what might help?"
+  ]
+};
+
+export const isPromptCategory = (value: unknown): value is PromptCategory =>
+  typeof value === 'string' && (PROMPT_CATEGORIES as string[]).includes(value);
+
+export const isPromptGoal = (value: unknown): value is PromptGoal =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_GOALS, value);
+
+/**
+ * A recent entry, as loaded for the prompt
+ */
+export interface PromptContextEntry {
+  content: string;
+  title?: string | null;
+  tags?: string[] | null;
+  primary_emotion?: string | null;
+  emotion_triggers?: string[] | null;
+  created_at: string;
+}
+
+/**
+ * Everything a prompt can be personalized with
+ */
+export interface PromptContext {
+  name?: string;
+  mood?: string;
+  category?: PromptCategory;
+  goals?: string[];
+  /** Recent readable entries, newest first */
+  entries?: PromptContextEntry[];
+  /** Prompts the user has already written about, newest first */
+  answeredPrompts?: string[];
+  /** Prompts shown this session */
+  previousPrompts?: string[];
+}
+
+// Elapsed time rather than calendar days, since the user's timezone isn't loaded
+const describeAge = (createdAt: string, now: Date): string => {
+  const days = Math.floor((now.getTime() - new Date(createdAt).getTime()) / 86400000);
+  if (days <= 0) return 'in the last day';
+  if (days === 1) return 'a day ago';
+  return `${days} days ago`;
+};
+
+const describeEntry = (entry: PromptContextEntry, now: Date): string => {
+  const content = entry.content.length > MAX_ENTRY_LENGTH
+    ? `${entry.content.substring(0, MAX_ENTRY_LENGTH)}...`
+    : entry.content;
+  const details = [
+    entry.primary_emotion ? `feeling: ${entry.primary_emotion}` : null,
+    entry.emotion_triggers?.length ? `about: ${entry.emotion_triggers.join(', ')}` : null,
+    entry.tags?.length ? `tags: ${entry.tags.join(', ')}` : null
+  ].filter(Boolean).join('; ');
+
+  return `[${describeAge(entry.created_at, now)}]${details ? ` (${details})` : ''}${entry.title ? ` ${entry.title}:` : ''}\n${content}`;
+};
+
+/**
+ * The messages asking the model for one prompt
+ *
+ * @param {PromptContext} context - What to personalize the prompt with
+ * @param {Date} [now=new Date()] - Used to say how long ago entries were written
+ * @returns {ChatMessage[]} Messages for `completeChat`
+ */
+export const buildPromptMessages = (context: PromptContext, now: Date = new Date()): ChatMessage[] => {
+  const goals = (context.goals ?? []).filter(isPromptGoal).slice(0, MAX_PROMPT_GOALS);
+  const entries = (context.entries ?? []).slice(0, RECENT_ENTRY_LIMIT);
+  const avoid = [...(context.previousPrompts ?? []), ...(context.answeredPrompts ?? []).slice(0, ANSWERED_PROMPT_LIMIT)];
+
+  const sections = [
+    context.name ? `The user's name is ${context.name}, so you can personalize the prompt if appropriate.` : '',
+    context.mood ? `The user's current mood is: ${context.mood}. Consider this when crafting the prompt.` : '',
+    context.category ? CATEGORY_GUIDANCE[context.category] : '',
+    goals.length > 0
+      ? `The user is journaling to ${goals.map(goal => PROMPT_GOALS[goal]).join(', ')}. Where it fits, let the prompt help with this.`
+      : '',
+    entries.length > 0
+      ? `Their recent journal entries, newest first:
+
+${entries.map(entry => describeEntry(entry, now)).join('\n\n')}
+
+If something in these entries was left open (an upcoming event, a conversation they meant to have, a worry they hadn't settled), you may follow up on it the way a friend would, e.g. "You mentioned your sister's visit last week. How did it go?". Only refer to what is actually written there, and never bring up painful details bluntly. It's fine to ignore the entries if nothing fits.`
+      : '',
+    avoid.length > 0 ? `Avoid repeating these prompts: ${avoid.join(' | ')}` : ''
+  ].filter(Boolean);
+
+  return [
+    {
+      role: 'system',
+      content: `You are Zeno, a wise and caring fox companion who helps people with their mental wellness through journaling. Your role is to generate thoughtful, encouraging daily journaling prompts that help users reflect on their experiences, emotions, and growth.
+
+Guidelines for prompts:
+- Keep prompts concise (1-2 sentences max)
+- Use a warm, supportive, and encouraging tone
+- Focus on positive reflection, gratitude, self-discovery, or gentle introspection
+- Avoid overly complex or heavy topics
+- Make prompts accessible and relatable to daily life
+- Encourage mindfulness and self-compassion
+- Vary the themes: gratitude, growth, relationships, achievements, feelings, future hopes, etc.
+
+${sections.join('\n\n')}
+
+Generate ONE journaling prompt that would be perfect for today. Return only the prompt text, nothing else.`
+    },
+    {
+      role: 'user',
+      content: 'Generate a thoughtful journaling prompt for today.'
+    }
+  ];
+};
+
+/**
+ * Tidy the model's reply into just the prompt
+ *
+ * @param {string} reply - Raw model output
+ * @returns {string} The prompt, or an empty string if there wasn't one
+ */
+export const cleanPrompt = (reply: string): string =>
+  reply
+    .trim()
+    .replace(/^(journal(ing)? )?prompt:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim()
+    .slice(0, MAX_PROMPT_LENGTH);
+
+/**
+ * A prompt from the category to use when the model is unavailable
+ *
+ * @param {PromptCategory} category - The chosen category
+ * @param {string[]} [exclude=[]] - Prompts to avoid if possible
+ * @returns {string} A prompt
+ */
+export const getCategoryFallbackPrompt = (category: PromptCategory, exclude: string[] = []): string => {
+  const prompts = CATEGORY_FALLBACK_PROMPTS[category];
+  const unused = prompts.filter(prompt => !exclude.includes(prompt));
+  const choices = unused.length > 0 ? unused : prompts;
+  return choices[Math.floor(Math.random() * choices.length)];
+};
@@ -0,0 +1,130 @@
+/**
+ * Free-tier daily limits for the AI functions. The limits live in the
+ * `feature_limits` table; usage is counted by `consume_feature_quota`.
+ */
+
+import { corsHeaders } from './cors.ts';
+
+export type QuotaFeature =
+  | 'mood-analyzer'
+  | 'affirmation-generator'
+  | 'mood-quote-generator'
+  | 'prompt-generator'
+  | 'voice-synthesis'
+  | 'zeno-chat';
+
+/**
+ * Today's usage of one feature. `limit` and `remaining` are null for premium users.
+ */
+export interface FeatureQuota {
+  feature: QuotaFeature;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+/**
+ * The part of a Supabase client used to count usage
+ */
+export interface QuotaClient {
+  rpc: (fn: string, args: Record<string, unknown>) => PromiseLike<{ data: unknown; error: unknown }>;
+}
+
+interface QuotaRow {
+  allowed: boolean;
+  used: number;
+  daily_limit: number | null;
+}
+
+/**
+ * Thrown when a free user has used up a feature for today
+ */
+export class QuotaError extends Error {
+  quota: FeatureQuota;
+
+  constructor(quota: FeatureQuota) {
+    super('Daily limit reached. Upgrade to Premium for unlimited use.');
+    this.name = 'QuotaError';
+    this.quota = quota;
+  }
+}
+
+/**
+ * Count one use of a feature for the user, or refuse if the free allowance is used up.
+ * Call this after validating the request and before calling the AI provider, and
+ * `refundFeatureQuota` if the call then fails or falls back.
+ *
+ * @returns {Promise<FeatureQuota>} Usage including this request
+ * @throws {QuotaError} When the user has no uses left today
+ */
+export async function requireFeatureQuota(
+  client: QuotaClient,
+  userId: string,
+  feature: QuotaFeature
+): Promise<FeatureQuota> {
+  const { data, error } = await client.rpc('consume_feature_quota', {
+    user_uuid: userId,
+    feature_key: feature
+  });
+
+  const rows = data as QuotaRow[] | null;
+  if (error || !rows || rows.length === 0) {
+    throw new Error(`Failed to check the ${feature} quota`);
+  }
+
+  const { allowed, used, daily_limit } = rows[0];
+  const quota: FeatureQuota = {
+    feature,
+    used,
+    limit: daily_limit,
+    remaining: daily_limit === null ? null : Math.max(daily_limit - used, 0)
+  };
+
+  if (!allowed) {
+    throw new QuotaError(quota);
+  }
+
+  return quota;
+}
+
+/**
+ * Give back a use counted by `requireFeatureQuota` when the user didn't get an AI
+ * result for it. Failures are logged rather than thrown, since the caller is
+ * already handling an error.
+ */
+export async function refundFeatureQuota(
+  client: QuotaClient,
+  userId: string,
+  feature: QuotaFeature
+): Promise<void> {
+  try {
+    const { error } = await client.rpc('refund_feature_quota', {
+      user_uuid: userId,
+      feature_key: feature
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Failed to refund the ${feature} quota:`, error);
+  }
+}
+
+/**
+ * JSON 429 response for a QuotaError, in the shape our functions return
+ */
+export const quotaErrorResponse = (error: QuotaError): Response =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: error.message,
+      error_code: 'quota_exceeded',
+      quota: error.quota,
+      timestamp: new Date().toISOString()
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
@@ -0,0 +1,251 @@
+/**
+ * Weekly and monthly reflections for `generate-reflections`: the mood arc from
+ * `get_mood_trends`, what the model is asked, how its JSON answer is checked,
+ * and the optional email.
+ */
+
+import { escapeHtml } from './html.ts';
+import { ChatMessage } from './llm.ts';
+
+export type ReflectionPeriod = 'week' | 'month';
+
+export type MoodDirection = 'rising' | 'falling' | 'steady' | 'mixed';
+
+export const REFLECTION_PERIODS: ReflectionPeriod[] = ['week', 'month'];
+
+/** Fewest readable entries worth reflecting on */
+export const MIN_ENTRIES_FOR_REFLECTION = 2;
+
+export const MAX_THEMES = 4;
+export const MAX_WINS = 3;
+
+const MAX_ITEM_LENGTH = 120;
+const MAX_SUMMARY_LENGTH = 600;
+const MAX_INTENTION_LENGTH = 200;
+// Keep the prompt a sensible size for a busy month
+const MAX_ENTRIES_IN_PROMPT = 40;
+const MAX_ENTRY_LENGTH = 600;
+
+/**
+ * A row from `get_mood_trends`: one mood on one local day
+ */
+export interface MoodTrendRow {
+  date_created: string;
+  mood_level: string;
+  entry_count: number;
+  avg_mood_numeric: number | string | null;
+}
+
+/**
+ * Average mood (1 to 5) for one day journaled
+ */
+export interface MoodArcPoint {
+  date: string;
+  average: number;
+}
+
+export interface ReflectionEntry {
+  content: string;
+  mood: string;
+  title?: string | null;
+  tags?: string[] | null;
+  primary_emotion?: string | null;
+  created_at: string;
+}
+
+/**
+ * What the model writes about the period
+ */
+export interface ReflectionContent {
+  summary: string;
+  themes: string[];
+  wins: string[];
+  intention: string | null;
+}
+
+/**
+ * Average mood for each day in the period, oldest first, weighting each mood
+ * by how many entries had it
+ *
+ * @param {MoodTrendRow[]} rows - From `get_mood_trends`, which may cover more days than the period
+ * @param {string} periodStart - First day, YYYY-MM-DD
+ * @param {string} periodEnd - Last day, YYYY-MM-DD
+ * @returns {MoodArcPoint[]} One point per day journaled
+ */
+export const buildMoodArc = (rows: MoodTrendRow[], periodStart: string, periodEnd: string): MoodArcPoint[] => {
+  const days = new Map<string, { total: number; count: number }>();
+
+  for (const row of rows) {
+    const date = row.date_created.slice(0, 10);
+    const average = Number(row.avg_mood_numeric);
+    const count = Number(row.entry_count) || 0;
+    if (date < periodStart || date > periodEnd || !Number.isFinite(average) || count === 0) continue;
+
+    const day = days.get(date) ?? { total: 0, count: 0 };
+    day.total += average * count;
+    day.count += count;
+    days.set(date, day);
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({ date, average: Math.round((day.total / day.count) * 10) / 10 }));
+};
+
+/**
+ * Which way the mood went over the period, comparing the first and second half
+ *
+ * @param {MoodArcPoint[]} arc - From `buildMoodArc`
+ * @returns {MoodDirection|null} Null with fewer than two days to compare
+ */
+export const getMoodDirection = (arc: MoodArcPoint[]): MoodDirection | null => {
+  if (arc.length < 2) return null;
+
+  const middle = Math.floor(arc.length / 2);
+  const average = (points: MoodArcPoint[]) => points.reduce((sum, point) => sum + point.average, 0) / points.length;
+  const change = average(arc.slice(arc.length - middle)) - average(arc.slice(0, middle));
+  const spread = Math.max(...arc.map(point => point.average)) - Math.min(...arc.map(point => point.average));
+
+  if (change >= 0.5) return 'rising';
+  if (change <= -0.5) return 'falling';
+  // Level overall but with big swings day to day
+  return spread >= 2 ? 'mixed' : 'steady';
+};
+
+const describeMoodArc = (arc: MoodArcPoint[], direction: MoodDirection | null): string => {
+  if (arc.length === 0) return 'No mood data.';
+
+  const days = arc.map(point => `${point.date}: ${point.average}`).join(', ');
+  return `Average mood by day (1 = struggling, 5 = amazing): ${days}.${direction ? ` Overall the mood was ${direction}.` : ''}`;
+};
+
+/**
+ * The messages asking the model for a reflection
+ *
+ * @param {ReflectionPeriod} period - Week or month
+ * @param {ReflectionEntry[]} entries - Readable entries from the period, oldest first
+ * @param {MoodArcPoint[]} arc - From `buildMoodArc`
+ * @param {string|null} [name] - The user's name
+ * @returns {ChatMessage[]} Messages for `completeChat`
+ */
+export const buildReflectionMessages = (
+  period: ReflectionPeriod,
+  entries: ReflectionEntry[],
+  arc: MoodArcPoint[],
+  name?: string | null
+): ChatMessage[] => {
+  const recent = entries.slice(-MAX_ENTRIES_IN_PROMPT);
+  const entryText = recent.map(entry => {
+    const content = entry.content.length > MAX_ENTRY_LENGTH
+      ? `${entry.content.substring(0, MAX_ENTRY_LENGTH)}...`
+      : entry.content;
+    const details = [
+      `mood: ${entry.mood}`,
+      entry.primary_emotion ? `feeling: ${entry.primary_emotion}` : null,
+      entry.tags?.length ? `tags: ${entry.tags.join(', ')}` : null
+    ].filter(Boolean).join('; ');
+
+    return `[${entry.created_at.slice(0, 10)}] (${details})${entry.title ? ` ${entry.title}:` : ''}\n${content}`;
+  }).join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You are Zeno, a gentle fox companion in a journaling app. Once a ${period} you write the user a short look back at their journal.
+
+Reply with only a JSON object:
+{
+  "summary": "2-4 warm sentences to the user about their ${period}, naming how their mood moved",
+  "themes": ["up to ${MAX_THEMES} recurring themes, a few words each"],
+  "wins": ["up to ${MAX_WINS} things that went well or that they handled well, a short phrase each"],
+  "intention": "one gentle, concrete intention for the coming ${period}, starting with a verb"
+}
+
+Speak to the user as "you". Only use what is in the entries; don't invent events. Don't diagnose or give medical advice. If the entries mention suicide, self-harm or being in danger, keep the tone gentle and make the intention about reaching out to someone they trust or a crisis line.`
+    },
+    {
+      role: 'user',
+      content: `${name ? `My name is ${name}.\n` : ''}${describeMoodArc(arc, getMoodDirection(arc))}
+
+My journal entries this ${period}:
+
+${entryText}`
+    }
+  ];
+};
+
+/**
+ * Pull the JSON object out of a model reply, which sometimes wraps it in prose or a code fence
+ */
+const extractJson = (reply: string): unknown => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+const toItems = (value: unknown, max: number): string[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim().slice(0, MAX_ITEM_LENGTH))
+    .filter((item, index, list) => item && list.indexOf(item) === index)
+    .slice(0, max);
+
+/**
+ * Check and tidy the model's answer
+ *
+ * @param {string} reply - Raw model output, expected to hold a JSON object
+ * @returns {ReflectionContent|null} The reflection, or null without a summary
+ */
+export const parseReflection = (reply: string): ReflectionContent | null => {
+  const data = extractJson(reply);
+  if (!data || typeof data !== 'object') return null;
+
+  const { summary, themes, wins, intention } = data as Record<string, unknown>;
+  if (typeof summary !== 'string' || !summary.trim()) return null;
+
+  return {
+    summary: summary.trim().slice(0, MAX_SUMMARY_LENGTH),
+    themes: toItems(themes, MAX_THEMES),
+    wins: toItems(wins, MAX_WINS),
+    intention: typeof intention === 'string' && intention.trim()
+      ? intention.trim().slice(0, MAX_INTENTION_LENGTH)
+      : null
+  };
+};
+
+/**
+ * The reflection as an email
+ *
+ * @param {string} greeting - e.g. "Hi Sam,"
+ * @param {ReflectionPeriod} period - Week or month
+ * @param {ReflectionContent} reflection - What the model wrote
+ * @param {string} appUrl - Where the reflection can be read in full
+ * @returns {Object} Subject, plain text and HTML
+ */
+export const buildReflectionEmail = (
+  greeting: string,
+  period: ReflectionPeriod,
+  reflection: ReflectionContent,
+  appUrl: string
+) => {
+  const list = (title: string, items: string[]) => items.length > 0
+    ? { text: `\n\n${title}:\n${items.map(item => `- ${item}`).join('\n')}`, html: `<p><strong>${title}</strong></p><ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` }
+    : { text: '', html: '' };
+  const themes = list('Themes', reflection.themes);
+  const wins = list('Wins', reflection.wins);
+  const intention = reflection.intention
+    ? { text: `\n\nAn intention for next ${period}: ${reflection.intention}`, html: `<p><strong>An intention for next ${period}:</strong> ${escapeHtml(reflection.intention)}</p>` }
+    : { text: '', html: '' };
+
+  return {
+    subject: `Your ${period} with Zeno 🦊`,
+    text: `${greeting}\n\n${reflection.summary}${themes.text}${wins.text}${intention.text}\n\nRead it in Zensai: ${appUrl}\n\nYou can turn these emails off in Settings.`,
+    html: `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(reflection.summary)}</p>${themes.html}${wins.html}${intention.html}<p><a href="${appUrl}">Read it in Zensai</a></p><p>You can turn these emails off in Settings.</p>`
+  };
+};
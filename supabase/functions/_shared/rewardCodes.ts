@@ -0,0 +1,354 @@
+/**
+ * Looks up and redeems promotion, gift and referral codes, and pays out credit.
+ * Used by `validate-code`, `create-checkout-session`, `redeem-gift-code` and the
+ * Stripe webhook.
+ */
+
+import {
+  BillingDiscount,
+  CodeError,
+  CouponLike,
+  REFERRAL_MONTHS,
+  generateGiftCode,
+  getBillingDiscount,
+  getExtendedExpiry,
+  getReferralRefusal,
+  isGiftCode,
+  isOpenSubscription,
+  isReferralCode,
+  normalizeCode
+} from './rewards.ts';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+/**
+ * The parts of a Stripe client used here. Our functions pin different Stripe
+ * versions, so any client with these methods will do.
+ */
+export interface RewardsStripe {
+  promotionCodes: {
+    list: (params: { code: string; active: boolean; limit: number }) => Promise<{
+      data: Array<{ id: string; code: string; coupon: CouponLike & { valid: boolean } }>;
+    }>;
+  };
+  subscriptions: {
+    list: (params: { customer: string; status: 'all'; limit: number }) => Promise<{ data: Array<{ status: string }> }>;
+  };
+  customers: {
+    createBalanceTransaction: (
+      customer: string,
+      params: { amount: number; currency: string; description: string }
+    ) => Promise<unknown>;
+  };
+  prices: {
+    retrieve: (id: string) => Promise<{ unit_amount: number | null; currency: string }>;
+  };
+}
+
+/**
+ * A code the user is allowed to use, and what it does
+ */
+export type ResolvedCode =
+  | { type: 'promotion'; code: string; promotionCodeId: string; discount: BillingDiscount | null }
+  | { type: 'referral'; code: string; referrerUserId: string }
+  | { type: 'gift'; code: string; months: number };
+
+/**
+ * What a user got from a gift or a referral. Subscribers get credit on their
+ * Stripe account; everyone else gets Premium time.
+ */
+export type PremiumCredit =
+  | { kind: 'account_credit'; amount_cents: number; currency: string }
+  | { kind: 'premium_time'; premium_until: string };
+
+/**
+ * Work out what a code is and whether this user can use it
+ *
+ * @throws {CodeError} When the code doesn't exist or can't be used by this user
+ */
+export async function resolveCode(
+  supabase: SupabaseClient,
+  stripe: RewardsStripe,
+  userId: string,
+  rawCode: string
+): Promise<ResolvedCode> {
+  const code = normalizeCode(rawCode);
+  if (!code) throw new CodeError('Please enter a code');
+
+  if (isGiftCode(code)) {
+    const { data: gift, error: giftError } = await supabase
+      .from('gift_codes')
+      .select('months, redeemed_at')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (giftError) throw giftError;
+    if (!gift) throw new CodeError('That gift code doesn\'t exist');
+    if (gift.redeemed_at) throw new CodeError('That gift code has already been redeemed');
+    return { type: 'gift', code, months: gift.months };
+  }
+
+  if (isReferralCode(code)) {
+    const { data: referrer, error: referrerError } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('referral_code', code)
+      .maybeSingle();
+
+    if (referrerError) throw referrerError;
+    if (!referrer) throw new CodeError('That referral code doesn\'t exist');
+
+    const { data: existingReferral, error: existingError } = await supabase
+      .from('referrals')
+      .select('id')
+      .eq('referred_user_id', userId)
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('billing_period_end')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (profileError) throw profileError;
+
+    const refusal = getReferralRefusal({
+      referrerUserId: referrer.user_id,
+      userId,
+      alreadyReferred: Boolean(existingReferral),
+      // Any subscription event sets this, so it marks past subscribers
+      hasSubscribedBefore: Boolean(profile?.billing_period_end)
+    });
+    if (refusal) throw new CodeError(refusal);
+
+    return { type: 'referral', code, referrerUserId: referrer.user_id };
+  }
+
+  const { data: promotions } = await stripe.promotionCodes.list({ code, active: true, limit: 1 });
+  const promotion = promotions[0];
+  if (!promotion || !promotion.coupon.valid) {
+    throw new CodeError('That code isn\'t valid');
+  }
+
+  return {
+    type: 'promotion',
+    code: promotion.code,
+    promotionCodeId: promotion.id,
+    discount: getBillingDiscount({ coupon: promotion.coupon })
+  };
+}
+
+/**
+ * Give a user free Premium: account credit if Stripe is billing them, otherwise
+ * `months` of Premium on top of any they already have
+ */
+async function grantPremiumCredit(
+  supabase: SupabaseClient,
+  stripe: RewardsStripe,
+  userId: string,
+  credit: { months: number; tier: string; amountCents: number | null; currency: string | null; description: string }
+): Promise<PremiumCredit> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('revenuecat_user_id, subscription_status, subscription_tier, subscription_expires_at')
+    .eq('user_id', userId)
+    .single();
+
+  if (profileError) throw profileError;
+
+  const customerId: string | null = profile.revenuecat_user_id;
+  if (customerId) {
+    const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 10 });
+    if (subscriptions.data.some(subscription => isOpenSubscription(subscription.status))) {
+      if (!credit.amountCents || !credit.currency) {
+        throw new Error('No amount to credit to the subscription');
+      }
+
+      // A negative balance comes off the customer's next invoices
+      await stripe.customers.createBalanceTransaction(customerId, {
+        amount: -credit.amountCents,
+        currency: credit.currency,
+        description: credit.description,
+      });
+      return { kind: 'account_credit', amount_cents: credit.amountCents, currency: credit.currency };
+    }
+  }
+
+  const hasPremium = profile.subscription_status === 'premium' &&
+    (!profile.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
+  const premiumUntil = getExtendedExpiry(hasPremium ? profile.subscription_expires_at : null, credit.months).toISOString();
+
+  const { error: updateError } = await supabase
+    .from('profiles')
+    .update({
+      subscription_status: 'premium',
+      subscription_tier: hasPremium ? profile.subscription_tier : credit.tier,
+      subscription_expires_at: premiumUntil,
+      gifted_premium_until: premiumUntil,
+      payment_status: 'ok',
+      payment_failed_at: null,
+      grace_period_ends_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (updateError) throw updateError;
+  return { kind: 'premium_time', premium_until: premiumUntil };
+}
+
+/**
+ * Redeem a gift code for the user
+ *
+ * @throws {CodeError} When the code doesn't exist or was already redeemed
+ */
+export async function redeemGiftCode(
+  supabase: SupabaseClient,
+  stripe: RewardsStripe,
+  userId: string,
+  rawCode: string
+): Promise<PremiumCredit> {
+  const code = normalizeCode(rawCode);
+  if (!isGiftCode(code)) throw new CodeError('That isn\'t a gift code');
+
+  // Claim the code first so two people can't redeem it at once
+  const { data: claimed, error: claimError } = await supabase
+    .from('gift_codes')
+    .update({ redeemed_by: userId, redeemed_at: new Date().toISOString() })
+    .eq('code', code)
+    .is('redeemed_at', null)
+    .select('id, months, amount_cents, currency');
+
+  if (claimError) throw claimError;
+
+  if (!claimed || claimed.length === 0) {
+    const { data: gift } = await supabase
+      .from('gift_codes')
+      .select('id')
+      .eq('code', code)
+      .maybeSingle();
+    throw new CodeError(gift ? 'That gift code has already been redeemed' : 'That gift code doesn\'t exist');
+  }
+
+  const gift = claimed[0];
+  try {
+    return await grantPremiumCredit(supabase, stripe, userId, {
+      months: gift.months,
+      tier: 'premium_plus',
+      amountCents: gift.amount_cents,
+      currency: gift.currency,
+      description: `Zensai Premium gift ${code}`,
+    });
+  } catch (error) {
+    // Give the code back so the user can try again
+    await supabase
+      .from('gift_codes')
+      .update({ redeemed_by: null, redeemed_at: null })
+      .eq('id', gift.id);
+    throw error;
+  }
+}
+
+/**
+ * Save a paid gift as a new code. Webhook retries for the same checkout get the
+ * same code back.
+ *
+ * @returns {Promise<Object>} The code, and whether this call created it
+ */
+export async function createGiftCode(
+  supabase: SupabaseClient,
+  gift: { purchaserUserId: string; sessionId: string; months: number; amountCents: number | null; currency: string | null }
+): Promise<{ code: string; created: boolean }> {
+  const findExisting = async () => {
+    const { data, error } = await supabase
+      .from('gift_codes')
+      .select('code')
+      .eq('stripe_session_id', gift.sessionId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.code as string | undefined;
+  };
+
+  const existing = await findExisting();
+  if (existing) return { code: existing, created: false };
+
+  // A few tries in case a random code is already taken
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const code = generateGiftCode();
+    const { error: insertError } = await supabase
+      .from('gift_codes')
+      .insert({
+        code,
+        purchaser_user_id: gift.purchaserUserId,
+        stripe_session_id: gift.sessionId,
+        months: gift.months,
+        amount_cents: gift.amountCents,
+        currency: gift.currency,
+      });
+
+    if (!insertError) return { code, created: true };
+    if (insertError.code !== '23505') throw insertError;
+
+    const raced = await findExisting();
+    if (raced) return { code: raced, created: false };
+  }
+
+  throw new Error('Could not create a unique gift code');
+}
+
+/**
+ * Remember who referred a new subscriber. Only the first referral counts.
+ */
+export async function recordReferral(supabase: SupabaseClient, referrerUserId: string, referredUserId: string) {
+  const { error } = await supabase
+    .from('referrals')
+    .upsert({
+      referrer_user_id: referrerUserId,
+      referred_user_id: referredUserId,
+    }, { onConflict: 'referred_user_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Give the referrer their free month once the user they referred has paid
+ *
+ * @returns {Promise<Object|null>} The referrer and their credit, or null if there was nothing to credit
+ */
+export async function creditReferrer(
+  supabase: SupabaseClient,
+  stripe: RewardsStripe,
+  referredUserId: string
+): Promise<{ referrerUserId: string; credit: PremiumCredit } | null> {
+  // Claim the referral so a replayed invoice can't credit it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('referrals')
+    .update({ status: 'credited', credited_at: new Date().toISOString() })
+    .eq('referred_user_id', referredUserId)
+    .eq('status', 'pending')
+    .select('id, referrer_user_id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return null;
+
+  const referral = claimed[0];
+  try {
+    const monthlyPriceId = Deno.env.get('STRIPE_PRICE_ID_MONTHLY');
+    if (!monthlyPriceId) throw new Error('STRIPE_PRICE_ID_MONTHLY is not set');
+
+    // A month of the monthly plan, whichever plan the referrer is on
+    const price = await stripe.prices.retrieve(monthlyPriceId);
+    const credit = await grantPremiumCredit(supabase, stripe, referral.referrer_user_id, {
+      months: REFERRAL_MONTHS,
+      tier: 'premium',
+      amountCents: price.unit_amount,
+      currency: price.currency,
+      description: 'Zensai referral credit',
+    });
+    return { referrerUserId: referral.referrer_user_id, credit };
+  } catch (error) {
+    await supabase
+      .from('referrals')
+      .update({ status: 'pending', credited_at: null })
+      .eq('id', referral.id);
+    throw error;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Rules for promotion codes, gift subscriptions and referral credits.
+ */
+
+import { corsHeaders } from './cors.ts';
+
+/** Premium time a gift is worth */
+export const GIFT_MONTHS = 12;
+
+/** Free time each side of a referral gets */
+export const REFERRAL_MONTHS = 1;
+
+/** Trial every new subscription starts with */
+export const TRIAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I so codes can be read out loud
+const GIFT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export type CodeType = 'promotion' | 'referral' | 'gift';
+
+/**
+ * A promotion's discount, saved on the profile and shown to the user
+ */
+export interface BillingDiscount {
+  name: string | null;
+  percent_off: number | null;
+  amount_off: number | null;
+  currency: string | null;
+  duration: 'once' | 'repeating' | 'forever';
+  duration_in_months: number | null;
+  ends_at: string | null;
+}
+
+/**
+ * The parts of a Stripe coupon that describe its discount
+ */
+export interface CouponLike {
+  name?: string | null;
+  percent_off?: number | null;
+  amount_off?: number | null;
+  currency?: string | null;
+  duration: 'once' | 'repeating' | 'forever';
+  duration_in_months?: number | null;
+}
+
+/**
+ * Thrown when a code can't be used, with a message for the user
+ */
+export class CodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeError';
+  }
+}
+
+/**
+ * JSON 400 response for a CodeError, in the shape our functions return
+ */
+export const codeErrorResponse = (error: CodeError): Response =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }),
+    {
+      status: 400,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+/**
+ * Codes are typed by people, so ignore case and stray spaces
+ */
+export const normalizeCode = (code: string): string =>
+  code.trim().toUpperCase().replace(/\s+/g, '');
+
+export const isGiftCode = (code: string): boolean => /^GIFT-[A-Z0-9]{4}-[A-Z0-9]{4}$/.test(normalizeCode(code));
+
+/**
+ * Referral codes look like 'REF-3F9A12BC' (see `generate_referral_code`). The prefix
+ * keeps them apart from Stripe promotion codes, which are never looked up as referrals.
+ */
+export const isReferralCode = (code: string): boolean => /^REF-[A-Z0-9]{8}$/.test(normalizeCode(code));
+
+/**
+ * A new gift code like 'GIFT-7KQ4-M2XD'
+ *
+ * @param {function} [fillRandom] - Fills a byte array with random values
+ */
+export const generateGiftCode = (
+  fillRandom: (bytes: Uint8Array) => Uint8Array = bytes => crypto.getRandomValues(bytes)
+): string => {
+  const bytes = fillRandom(new Uint8Array(8));
+  const chars = Array.from(bytes, byte => GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length]).join('');
+  return `GIFT-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+/**
+ * `date` plus whole calendar months, clamped to the end of shorter months
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * When Premium ends after adding `months` of free time. Time is added on top of
+ * Premium the user already has, or from now if it has run out.
+ */
+export const getExtendedExpiry = (currentExpiry: string | null, months: number, now: Date = new Date()): Date => {
+  const current = currentExpiry ? new Date(currentExpiry) : null;
+  const from = current && current > now ? current : now;
+  return addMonths(from, months);
+};
+
+/**
+ * When the trial of a referred user's subscription ends: the usual trial plus their free month
+ *
+ * @returns {number} Unix seconds, as Stripe expects
+ */
+export const getReferralTrialEnd = (now: Date = new Date()): number =>
+  Math.floor(addMonths(new Date(now.getTime() + TRIAL_DAYS * DAY_MS), REFERRAL_MONTHS).getTime() / 1000);
+
+/**
+ * Why a referral code can't be used, or null if it can
+ */
+export const getReferralRefusal = (details: {
+  referrerUserId: string;
+  userId: string;
+  alreadyReferred: boolean;
+  hasSubscribedBefore: boolean;
+}): string | null => {
+  if (details.referrerUserId === details.userId) return 'You can\'t use your own referral code';
+  if (details.alreadyReferred) return 'You\'ve already used a referral code';
+  if (details.hasSubscribedBefore) return 'Referral codes are for new subscribers';
+  return null;
+};
+
+/**
+ * What to save about a subscription's discount, or null without one.
+ * Stripe's `discount.end` is in Unix seconds.
+ */
+export const getBillingDiscount = (
+  discount: { coupon: CouponLike; end?: number | null } | null | undefined
+): BillingDiscount | null => {
+  if (!discount) return null;
+
+  const { coupon } = discount;
+  return {
+    name: coupon.name ?? null,
+    percent_off: coupon.percent_off ?? null,
+    amount_off: coupon.amount_off ?? null,
+    currency: coupon.currency ?? null,
+    duration: coupon.duration,
+    duration_in_months: coupon.duration_in_months ?? null,
+    ends_at: discount.end ? new Date(discount.end * 1000).toISOString() : null
+  };
+};
+
+/**
+ * Subscriptions Stripe will still bill, so credit should go on the Stripe account
+ */
+export const isOpenSubscription = (status: string): boolean =>
+  status === 'active' || status === 'trialing' || status === 'past_due';
@@ -0,0 +1,86 @@
+/**
+ * Safety classification for journal entries. The model only judges how serious
+ * the language is; the app pairs this with its own keyword check and decides
+ * what to show.
+ */
+
+export type SafetyLevel = 'none' | 'concern' | 'crisis';
+
+export type SafetyCategory = 'suicidal' | 'self_harm';
+
+export interface SafetyClassification {
+  level: SafetyLevel;
+  categories: SafetyCategory[];
+}
+
+const SAFETY_LEVELS: SafetyLevel[] = ['none', 'concern', 'crisis'];
+const SAFETY_CATEGORIES: SafetyCategory[] = ['suicidal', 'self_harm'];
+
+export const isSafetyLevel = (value: unknown): value is SafetyLevel =>
+  typeof value === 'string' && (SAFETY_LEVELS as string[]).includes(value);
+
+export const SAFETY_SYSTEM_PROMPT = `You review private journal entries for a wellness app so it can offer crisis resources to people who need them. You are not talking to the writer.
+
+Classify the entry:
+- "crisis": the writer describes current thoughts of suicide, wanting to die, a plan or intent to end their life, or hurting themselves
+- "concern": hopelessness, feeling like a burden, passive wishes not to exist, or self-harm in the past, without current intent
+- "none": anything else, including ordinary sadness, stress, figures of speech ("this job is killing me") and talk about films, books or other people's stories
+
+Categories: "suicidal" and/or "self_harm", only when the level is not "none".
+
+Respond with ONLY a JSON object, for example: {"level": "concern", "categories": ["suicidal"]}`;
+
+/**
+ * Read the classifier's answer
+ *
+ * @param {string} reply - Raw model output, expected to hold a JSON object
+ * @returns {SafetyClassification|null} The classification, or null if it can't be read
+ */
+export const parseSafetyClassification = (reply: string): SafetyClassification | null => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const { level, categories } = (data ?? {}) as Record<string, unknown>;
+  const normalizedLevel = typeof level === 'string' ? level.trim().toLowerCase() : level;
+  if (!isSafetyLevel(normalizedLevel)) return null;
+
+  return {
+    level: normalizedLevel,
+    categories: normalizedLevel === 'none'
+      ? []
+      : (Array.isArray(categories) ? categories : [])
+          .filter((category): category is SafetyCategory => (SAFETY_CATEGORIES as unknown[]).includes(category))
+          .filter((category, index, list) => list.indexOf(category) === index),
+  };
+};
+
+/**
+ * Extra instructions for `generate-affirmation` when an entry raised concern,
+ * so Zeno answers with care rather than cheerfulness
+ */
+export const getSafetyAffirmationGuidance = (level: SafetyLevel): string => {
+  if (level === 'none') return '';
+
+  return `IMPORTANT: This entry contains signs that the writer may be ${level === 'crisis' ? 'in crisis or thinking about suicide or self-harm' : 'feeling hopeless'}.
+- Do not be cheerful, upbeat or motivational, and do not use exclamation marks or emoji
+- Do not promise things will get better or suggest the feelings will pass quickly
+- Gently acknowledge how much they are carrying and that their feelings matter
+- Tell them they deserve support and encourage them to reach out to someone they trust or a crisis line now
+- Do not give advice about methods, diagnoses or treatment`;
+};
+
+/**
+ * Affirmations used for concerning entries when the model can't be reached
+ */
+export const SAFETY_FALLBACK_AFFIRMATIONS = [
+  'What you are feeling matters, and you deserve support right now. Please reach out to someone you trust or a crisis line.',
+  'You don\'t have to carry this alone. Talking to someone today, a friend or a helpline, can help you get through this moment.',
+];
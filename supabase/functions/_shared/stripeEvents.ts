@@ -0,0 +1,510 @@
+/**
+ * Applies Stripe events to profiles, once each and in order.
+ * Used by `stripe-webhook` and `replay-stripe-events`.
+ */
+
+import {
+  BillingCursor,
+  BillingState,
+  BillingUpdate,
+  getCursorUpdate,
+  getHistoryKind,
+  getPaidUpdate,
+  getPastDueUpdate,
+  getRecordedEventAction,
+  getSubscriptionUpdate,
+  isStaleEvent
+} from './billing.ts';
+import { escapeHtml, isEmailConfigured, sendEmail } from './email.ts';
+import { isScheduledTierSettled } from './planChanges.ts';
+import { GIFT_MONTHS, getBillingDiscount } from './rewards.ts';
+import { PremiumCredit, createGiftCode, creditReferrer, recordReferral } from './rewardCodes.ts';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@12.18.0';
+
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'; // Default for local development
+
+interface CustomerProfile extends BillingState, BillingCursor {
+  user_id: string;
+  name: string | null;
+  scheduled_tier: string | null;
+}
+
+/**
+ * How an event was handled. 'duplicate' and 'in_progress' mean another
+ * delivery already has it.
+ */
+export type StripeEventResult = 'processed' | 'skipped' | 'duplicate' | 'in_progress';
+
+interface AppliedEvent {
+  status: 'processed' | 'skipped';
+  userId: string | null;
+  customerId: string | null;
+  detail?: string;
+}
+
+const PROFILE_COLUMNS = 'user_id, name, payment_status, payment_failed_at, billing_period_end, billing_event_at, scheduled_tier';
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+const getTier = (subscription: Stripe.Subscription) =>
+  subscription.items.data[0].price.id === Deno.env.get('STRIPE_PRICE_ID_MONTHLY') ? 'premium' : 'premium_plus';
+
+const getCustomerId = (object: { customer?: string | Stripe.Customer | Stripe.DeletedCustomer | null }) => {
+  if (!object.customer) return null;
+  return typeof object.customer === 'string' ? object.customer : object.customer.id;
+};
+
+/**
+ * Find the profile linked to a Stripe customer
+ */
+async function findProfileByCustomer(supabase: SupabaseClient, customerId: string): Promise<CustomerProfile | null> {
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('revenuecat_user_id', customerId)
+    .limit(1);
+
+  if (profileError) throw profileError;
+  return profiles?.[0] ?? null;
+}
+
+async function findProfileByUser(supabase: SupabaseClient, userId: string): Promise<CustomerProfile | null> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  return profile;
+}
+
+/**
+ * Save billing changes to a user's profile along with the event they came from
+ */
+async function updateBilling(
+  supabase: SupabaseClient,
+  userId: string,
+  event: Stripe.Event,
+  periodEnd: number,
+  update: Partial<BillingUpdate> & Record<string, unknown>
+) {
+  const { error: updateError } = await supabase
+    .from('profiles')
+    .update({
+      ...update,
+      ...getCursorUpdate(periodEnd, event.created),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (updateError) throw updateError;
+}
+
+/**
+ * Add a line to the user's subscription history. Replays of the same event are ignored.
+ */
+async function recordHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  event: Stripe.Event,
+  entry: {
+    kind: ReturnType<typeof getHistoryKind>;
+    tier?: string | null;
+    amountCents?: number | null;
+    currency?: string | null;
+    periodEnd: number;
+  }
+) {
+  if (!entry.kind) return;
+
+  const { error } = await supabase
+    .from('subscription_history')
+    .upsert({
+      user_id: userId,
+      stripe_event_id: event.id,
+      kind: entry.kind,
+      subscription_tier: entry.tier ?? null,
+      amount_cents: entry.amountCents ?? null,
+      currency: entry.currency ?? null,
+      period_end: toIso(entry.periodEnd),
+      occurred_at: toIso(event.created),
+    }, { onConflict: 'stripe_event_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Email a user about their subscription, if email is set up. Failures are only logged.
+ */
+async function notifyUser(
+  supabase: SupabaseClient,
+  profile: CustomerProfile,
+  buildMessage: (greeting: string) => { subject: string; text: string; html: string }
+) {
+  if (!isEmailConfigured()) return;
+
+  try {
+    const { data } = await supabase.auth.admin.getUserById(profile.user_id);
+    const email = data?.user?.email;
+    if (!email) return;
+
+    await sendEmail({ to: email, ...buildMessage(profile.name ? `Hi ${profile.name},` : 'Hi,') });
+  } catch (emailError) {
+    console.error('Error sending billing email:', emailError);
+  }
+}
+
+const formatEmailDate = (date: Date) => date.toUTCString().slice(0, 16);
+
+function buildPaymentFailedEmail(greeting: string, graceEndsAt: Date) {
+  const settingsUrl = `${APP_URL}/settings`;
+  const date = formatEmailDate(graceEndsAt);
+
+  return {
+    subject: 'Your Zensai payment didn\'t go through',
+    text: `${greeting}\n\nWe couldn't charge your card for Zensai Premium. Your premium features stay on until ${date} while we retry.\n\nUpdate your payment method to keep them: ${settingsUrl}`,
+    html: `<p>${escapeHtml(greeting)}</p><p>We couldn't charge your card for Zensai Premium. Your premium features stay on until <strong>${date}</strong> while we retry.</p><p><a href="${settingsUrl}">Update your payment method</a> to keep them.</p>`
+  };
+}
+
+function buildTrialEndingEmail(greeting: string, trialEndsAt: Date) {
+  const settingsUrl = `${APP_URL}/settings`;
+  const date = formatEmailDate(trialEndsAt);
+
+  return {
+    subject: 'Your Zensai Premium trial ends soon',
+    text: `${greeting}\n\nYour free trial of Zensai Premium ends on ${date}, when your subscription will start. Nothing to do if you'd like to keep it.\n\nTo change your plan or payment method, visit ${settingsUrl}`,
+    html: `<p>${escapeHtml(greeting)}</p><p>Your free trial of Zensai Premium ends on <strong>${date}</strong>, when your subscription will start. Nothing to do if you'd like to keep it.</p><p>To change your plan or payment method, visit <a href="${settingsUrl}">your settings</a>.</p>`
+  };
+}
+
+function buildGiftCodeEmail(greeting: string, code: string) {
+  const premiumUrl = `${APP_URL}/premium`;
+
+  return {
+    subject: 'Your Zensai Premium gift code',
+    text: `${greeting}\n\nThank you for gifting a year of Zensai Premium! Here's the code to pass on:\n\n${code}\n\nThey can redeem it on the Premium page: ${premiumUrl}`,
+    html: `<p>${escapeHtml(greeting)}</p><p>Thank you for gifting a year of Zensai Premium! Here's the code to pass on:</p><p style="font-size:20px;font-weight:bold;letter-spacing:2px">${code}</p><p>They can redeem it on the <a href="${premiumUrl}">Premium page</a>.</p>`
+  };
+}
+
+function buildReferralCreditEmail(greeting: string, credit: PremiumCredit) {
+  const reward = credit.kind === 'premium_time'
+    ? `Premium is now yours until ${formatEmailDate(new Date(credit.premium_until))}`
+    : 'a month\'s worth of credit will come off your next payment';
+
+  return {
+    subject: 'You earned a free month of Zensai Premium',
+    text: `${greeting}\n\nSomeone you referred just subscribed to Zensai Premium, so ${reward}. Thank you for sharing Zensai!`,
+    html: `<p>${escapeHtml(greeting)}</p><p>Someone you referred just subscribed to Zensai Premium, so ${reward}. Thank you for sharing Zensai!</p>`
+  };
+}
+
+/**
+ * Apply one event to the matching profile. Throws when it should be retried.
+ */
+async function applyStripeEvent(supabase: SupabaseClient, stripe: Stripe, event: Stripe.Event): Promise<AppliedEvent> {
+  const skip = (detail: string, customerId: string | null = null, userId: string | null = null): AppliedEvent =>
+    ({ status: 'skipped', userId, customerId, detail });
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const customerId = getCustomerId(session);
+      const userId = session.metadata?.userId;
+
+      if (session.metadata?.kind === 'gift') {
+        if (!userId) return skip('No userId in session metadata', customerId);
+        if (session.payment_status !== 'paid') return skip('Gift not paid yet', customerId, userId);
+
+        const gift = await createGiftCode(supabase, {
+          purchaserUserId: userId,
+          sessionId: session.id,
+          months: GIFT_MONTHS,
+          amountCents: session.amount_total,
+          currency: session.currency,
+        });
+
+        const purchaser = gift.created ? await findProfileByUser(supabase, userId) : null;
+        if (purchaser) {
+          await notifyUser(supabase, purchaser, greeting => buildGiftCodeEmail(greeting, gift.code));
+        }
+        return { status: 'processed', userId, customerId };
+      }
+
+      if (!session.subscription || !customerId) return skip('Not a subscription checkout', customerId);
+      if (!userId) return skip('No userId in session metadata', customerId);
+
+      const profile = await findProfileByUser(supabase, userId);
+      if (!profile) return skip('No profile for user', customerId, userId);
+
+      const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
+      if (isStaleEvent(profile, subscription.current_period_end, event.created)) {
+        return skip('Older than the applied subscription state', customerId, userId);
+      }
+
+      const tier = getTier(subscription);
+      await updateBilling(supabase, userId, event, subscription.current_period_end, {
+        subscription_status: 'premium',
+        subscription_tier: tier,
+        subscription_expires_at: toIso(subscription.current_period_end),
+        revenuecat_user_id: customerId,
+        trial_ends_at: subscription.trial_end ? toIso(subscription.trial_end) : null,
+        billing_discount: getBillingDiscount(subscription.discount),
+      });
+      // The referrer is credited once this user's first payment goes through
+      if (session.metadata?.referrerUserId) {
+        await recordReferral(supabase, session.metadata.referrerUserId, userId);
+      }
+      await recordHistory(supabase, userId, event, {
+        kind: getHistoryKind(event.type),
+        tier,
+        amountCents: session.amount_total,
+        currency: session.currency,
+        periodEnd: subscription.current_period_end,
+      });
+      return { status: 'processed', userId, customerId };
+    }
+
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const customerId = getCustomerId(subscription);
+      const profile = customerId ? await findProfileByCustomer(supabase, customerId) : null;
+      if (!profile) return skip('No profile for customer', customerId);
+
+      if (isStaleEvent(profile, subscription.current_period_end, event.created)) {
+        return skip('Older than the applied subscription state', customerId, profile.user_id);
+      }
+
+      const tier = getTier(subscription);
+      // A plan switch scheduled in the app is done once it happens or its schedule is released
+      const scheduleSettled = isScheduledTierSettled(profile.scheduled_tier, { tier, hasSchedule: Boolean(subscription.schedule) });
+      // Past-due subscriptions keep premium through the grace period
+      await updateBilling(supabase, profile.user_id, event, subscription.current_period_end, {
+        ...getSubscriptionUpdate(subscription, profile),
+        subscription_tier: tier,
+        ...(scheduleSettled && { scheduled_tier: null, scheduled_tier_at: null }),
+        trial_ends_at: subscription.status === 'trialing' && subscription.trial_end
+          ? toIso(subscription.trial_end)
+          : null,
+        billing_discount: getBillingDiscount(subscription.discount),
+      });
+      await recordHistory(supabase, profile.user_id, event, {
+        kind: getHistoryKind(event.type, {
+          previousAttributes: event.data.previous_attributes as Record<string, unknown> | undefined,
+          cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        }),
+        tier,
+        amountCents: subscription.items.data[0].price.unit_amount,
+        currency: subscription.currency,
+        periodEnd: subscription.current_period_end,
+      });
+      return { status: 'processed', userId: profile.user_id, customerId };
+    }
+
+    case 'invoice.payment_failed':
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      const customerId = getCustomerId(invoice);
+      // One-off invoices don't affect premium
+      if (!invoice.subscription) return skip('Not a subscription invoice', customerId);
+
+      const profile = customerId ? await findProfileByCustomer(supabase, customerId) : null;
+      if (!profile) return skip('No profile for customer', customerId);
+
+      const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+      if (isStaleEvent(profile, subscription.current_period_end, event.created)) {
+        return skip('Older than the applied subscription state', customerId, profile.user_id);
+      }
+
+      const wasPastDue = profile.payment_status === 'past_due';
+      const history = {
+        kind: getHistoryKind(event.type, { billingReason: invoice.billing_reason, wasPastDue }),
+        tier: getTier(subscription),
+        periodEnd: subscription.current_period_end,
+        currency: invoice.currency,
+      };
+
+      if (event.type === 'invoice.payment_failed') {
+        const update = getPastDueUpdate(profile);
+        await updateBilling(supabase, profile.user_id, event, subscription.current_period_end, update);
+        await recordHistory(supabase, profile.user_id, event, { ...history, amountCents: invoice.amount_due });
+
+        // Only email on the first failure; Stripe retries several times
+        if (!wasPastDue) {
+          await notifyUser(supabase, profile, greeting =>
+            buildPaymentFailedEmail(greeting, new Date(update.grace_period_ends_at as string))
+          );
+        }
+      } else {
+        await updateBilling(supabase, profile.user_id, event, subscription.current_period_end, {
+          ...getPaidUpdate(subscription.current_period_end),
+          // Still 'cancelled' if the user turned off renewal
+          subscription_status: subscription.cancel_at_period_end ? 'cancelled' : 'premium',
+          trial_ends_at: null,
+        });
+        await recordHistory(supabase, profile.user_id, event, { ...history, amountCents: invoice.amount_paid });
+
+        // Trial invoices are free, so this waits for a real payment
+        if (invoice.amount_paid > 0) {
+          const referral = await creditReferrer(supabase, stripe, profile.user_id);
+          const referrer = referral ? await findProfileByUser(supabase, referral.referrerUserId) : null;
+          if (referral && referrer) {
+            await notifyUser(supabase, referrer, greeting => buildReferralCreditEmail(greeting, referral.credit));
+          }
+        }
+      }
+      return { status: 'processed', userId: profile.user_id, customerId };
+    }
+
+    case 'customer.subscription.trial_will_end': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const customerId = getCustomerId(subscription);
+      if (!subscription.trial_end) return skip('No trial end', customerId);
+
+      const profile = customerId ? await findProfileByCustomer(supabase, customerId) : null;
+      if (!profile) return skip('No profile for customer', customerId);
+
+      if (isStaleEvent(profile, subscription.current_period_end, event.created)) {
+        return skip('Older than the applied subscription state', customerId, profile.user_id);
+      }
+
+      const trialEndsAt = new Date(subscription.trial_end * 1000);
+      await updateBilling(supabase, profile.user_id, event, subscription.current_period_end, {
+        trial_ends_at: trialEndsAt.toISOString(),
+      });
+      await recordHistory(supabase, profile.user_id, event, {
+        kind: getHistoryKind(event.type),
+        tier: getTier(subscription),
+        periodEnd: subscription.current_period_end,
+      });
+
+      // Nothing will be charged if the trial was already cancelled
+      if (!subscription.cancel_at_period_end) {
+        await notifyUser(supabase, profile, greeting => buildTrialEndingEmail(greeting, trialEndsAt));
+      }
+      return { status: 'processed', userId: profile.user_id, customerId };
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const customerId = getCustomerId(subscription);
+      const profile = customerId ? await findProfileByCustomer(supabase, customerId) : null;
+      if (!profile) return skip('No profile for customer', customerId);
+
+      // An old subscription ending mustn't downgrade a newer one
+      if (isStaleEvent(profile, subscription.current_period_end, event.created)) {
+        return skip('Older than the applied subscription state', customerId, profile.user_id);
+      }
+
+      await updateBilling(supabase, profile.user_id, event, subscription.current_period_end, {
+        subscription_status: 'expired',
+        subscription_tier: 'free',
+        payment_status: 'ok',
+        payment_failed_at: null,
+        grace_period_ends_at: null,
+        trial_ends_at: null,
+        billing_discount: null,
+        scheduled_tier: null,
+        scheduled_tier_at: null,
+      });
+      await recordHistory(supabase, profile.user_id, event, {
+        kind: getHistoryKind(event.type),
+        tier: getTier(subscription),
+        periodEnd: subscription.current_period_end,
+      });
+      return { status: 'processed', userId: profile.user_id, customerId };
+    }
+
+    default:
+      return skip(`Unhandled event type ${event.type}`);
+  }
+}
+
+/**
+ * Record the event, or take over an earlier delivery that failed or stalled
+ */
+async function claimStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<'process' | 'duplicate' | 'in_progress'> {
+  const { error: insertError } = await supabase
+    .from('stripe_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      stripe_created_at: toIso(event.created),
+      payload: event,
+    });
+
+  if (!insertError) return 'process';
+  // Anything but a duplicate key is a real failure
+  if (insertError.code !== '23505') throw insertError;
+
+  const { data: recorded, error: recordedError } = await supabase
+    .from('stripe_events')
+    .select('status, attempts, updated_at')
+    .eq('id', event.id)
+    .single();
+
+  if (recordedError) throw recordedError;
+
+  const action = getRecordedEventAction(recorded);
+  if (action !== 'process') return action;
+
+  // Only one delivery wins if several retry at once
+  const { data: claimed, error: claimError } = await supabase
+    .from('stripe_events')
+    .update({ status: 'processing', attempts: recorded.attempts + 1, detail: null })
+    .eq('id', event.id)
+    .eq('updated_at', recorded.updated_at)
+    .select('id');
+
+  if (claimError) throw claimError;
+  return claimed && claimed.length > 0 ? 'process' : 'in_progress';
+}
+
+async function finishStripeEvent(supabase: SupabaseClient, eventId: string, update: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('stripe_events')
+    .update(update)
+    .eq('id', eventId);
+
+  if (error) {
+    console.error(`Error recording the outcome of Stripe event ${eventId}:`, error);
+  }
+}
+
+/**
+ * Apply a Stripe event unless it has already been handled. Failures are saved
+ * on the event and rethrown so the caller can ask Stripe to retry.
+ *
+ * @returns {Promise<StripeEventResult>} How the event was handled
+ */
+export async function handleStripeEvent(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<StripeEventResult> {
+  const claim = await claimStripeEvent(supabase, event);
+  if (claim !== 'process') return claim;
+
+  try {
+    const applied = await applyStripeEvent(supabase, stripe, event);
+
+    await finishStripeEvent(supabase, event.id, {
+      status: applied.status,
+      user_id: applied.userId,
+      customer_id: applied.customerId,
+      detail: applied.detail ?? null,
+      processed_at: new Date().toISOString(),
+    });
+    return applied.status;
+  } catch (error) {
+    await finishStripeEvent(supabase, event.id, {
+      status: 'failed',
+      // Supabase errors are plain objects with a message
+      detail: (error as { message?: string })?.message ?? String(error),
+    });
+    throw error;
+  }
+}
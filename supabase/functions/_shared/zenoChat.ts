@@ -0,0 +1,121 @@
+/**
+ * "Talk to Zeno": a short reflective conversation about one journal entry.
+ * Builds what the model sees and the server-sent events the app reads.
+ */
+
+import { ChatMessage } from './llm.ts';
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+}
+
+export interface ChatEntry {
+  content: string;
+  mood: string;
+  title?: string | null;
+}
+
+/**
+ * Most messages a user can send about one entry. Keeps conversations short
+ * and reflective rather than open-ended.
+ */
+export const MAX_USER_MESSAGES = 12;
+
+/**
+ * Longest message a user can send
+ */
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// Only the latest turns are sent back to the model
+const HISTORY_LIMIT = 16;
+const ENTRY_LIMIT = 3000;
+
+/**
+ * How Zeno should talk, with the entry to talk about
+ */
+export const buildZenoChatSystemPrompt = (entry: ChatEntry, name?: string): string => {
+  const entryText = entry.content.length > ENTRY_LIMIT
+    ? `${entry.content.substring(0, ENTRY_LIMIT)}...`
+    : entry.content;
+
+  return `You are Zeno, a gentle fox companion in a journaling app. The user has just written the journal entry below and wants to reflect on it with you.
+
+How to talk:
+- Ask ONE open, curious follow-up question at a time about what they wrote, so they can look more closely at their feelings, needs and what matters to them
+- Briefly reflect back what you hear before asking, in a sentence or two
+- Keep every reply under 80 words, warm and plain, with no lists or headings
+- Follow their lead; if they want to stop, thank them and close kindly
+- Don't diagnose, give medical advice or tell them what they should do
+- If they mention suicide, self-harm or being in danger, don't ask for details. Say you're glad they told you, that they deserve support now, and encourage them to contact a crisis line, emergency services or someone they trust
+
+${name ? `The user's name is ${name}.` : ''}
+Mood they recorded: ${entry.mood}
+${entry.title ? `Entry title: ${entry.title}\n` : ''}Journal entry:
+"""${entryText}"""`;
+};
+
+/**
+ * The messages to send the model for the next reply. With no history yet,
+ * Zeno opens the conversation.
+ *
+ * @param {ChatEntry} entry - The entry being discussed
+ * @param {ConversationMessage[]} history - The conversation so far, oldest first
+ * @param {string} [name] - The user's name
+ * @returns {ChatMessage[]} Messages for `streamChat`
+ */
+export const buildZenoChatMessages = (
+  entry: ChatEntry,
+  history: ConversationMessage[],
+  name?: string
+): ChatMessage[] => {
+  const recent = history.slice(-HISTORY_LIMIT);
+
+  return [
+    { role: 'system', content: buildZenoChatSystemPrompt(entry, name) },
+    ...(recent.length === 0 || recent[0].role === 'assistant'
+      // Conversations must start with the user, so stand in for them when Zeno speaks first
+      ? [{ role: 'user' as const, content: 'I just finished writing this entry. Ask me something about it.' }]
+      : []),
+    ...recent.map(message => ({ role: message.role, content: message.content }))
+  ];
+};
+
+/**
+ * Why the next reply can't be asked for, or null if it can
+ *
+ * @param {ConversationMessage[]} history - The conversation so far, oldest first
+ * @param {string} message - The new message; empty to start or retry
+ * @returns {string|null} What's wrong
+ */
+export const getChatTurnError = (history: ConversationMessage[], message: string): string | null => {
+  const lastRole = history[history.length - 1]?.role;
+
+  if (!message) {
+    // Zeno opens the conversation, or answers a message whose reply failed
+    return history.length === 0 || lastRole === 'user' ? null : 'Message is required';
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return `Messages can be up to ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  if (lastRole === 'user') {
+    return 'Zeno hasn\'t answered your last message yet';
+  }
+  if (history.filter(turn => turn.role === 'user').length >= MAX_USER_MESSAGES) {
+    return 'This conversation has reached its limit';
+  }
+  return null;
+};
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; message: Record<string, unknown>; user_message?: Record<string, unknown>; quota?: unknown }
+  | { type: 'error'; error: string };
+
+/**
+ * One server-sent event for the app
+ */
+export const encodeChatEvent = (event: ChatStreamEvent): string =>
+  `data: ${JSON.stringify(event)}\n\n`;
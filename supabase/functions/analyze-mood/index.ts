@@ -1,26 +1,26 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import { EMOTIONS, EmotionAnalysis, MAX_SECONDARY_EMOTIONS, MAX_TRIGGERS, getMoodFromEmotions, parseEmotionAnalysis } from '../_shared/emotions.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 interface MoodRequest {
   entry: string;
   name?: string;
 }
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
 interface MoodResponse {
   success: boolean;
   mood: string;
+  emotions?: EmotionAnalysis;
   confidence?: number;
   analysis?: string;
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -33,10 +33,14 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Set once a use is counted, so a failed analysis doesn't cost the user one
+  let refundQuota: (() => Promise<void>) | null = null;
+
   try {
-    // Validate API key
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
+    // Validate AI provider settings
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
     }
 
     // Parse request body
@@ -80,100 +84,80 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Count this use against the signed-in user's free daily limit
+    let quota: FeatureQuota;
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const user = await requireUser(req, supabase);
+      quota = await requireFeatureQuota(supabase, user.id, 'mood-analyzer');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'mood-analyzer');
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
+    }
+
     // Truncate very long entries to avoid token limits
     const truncatedEntry = entry.length > 2000 ? entry.substring(0, 2000) + '...' : entry;
 
     // Create system prompt for mood analysis
-    const systemPrompt = `You are Zeno, a wise and empathetic fox companion who helps people understand their emotions through journaling. Your task is to analyze journal entries and identify the predominant emotional tone.
+    const systemPrompt = `You are Zeno, a wise and empathetic fox companion who helps people understand their emotions through journaling. Your task is to analyze journal entries and name the emotions in them.
 
 Guidelines for mood analysis:
-- Analyze the overall emotional tone of the entire entry
-- Focus on the most prominent emotion expressed
+- Analyze the emotional tone of the entire entry
+- Pick the most prominent emotion as the primary one
+- Add up to ${MAX_SECONDARY_EMOTIONS} other emotions that are clearly present, or none
 - Consider both explicit emotional words and implicit emotional context
-- Be sensitive to nuanced emotions and mixed feelings
-- Choose the emotion that best represents the overall feeling
+- Rate how strongly the primary emotion comes through, from 1 (faint) to 5 (overwhelming)
+- Name up to ${MAX_TRIGGERS} things that brought the feelings on, as short phrases taken from the entry (for example "work deadline"), or none
 
-Available mood categories (choose ONE):
-- amazing: Extremely positive, joyful, euphoric, ecstatic, thrilled
-- good: Happy, content, pleased, satisfied, optimistic, hopeful
-- neutral: Calm, balanced, reflective, matter-of-fact, stable
-- low: Sad, disappointed, melancholy, down, discouraged
-- struggling: Very sad, depressed, overwhelmed, anxious, distressed
+Emotions you may use (no others): ${EMOTIONS.join(', ')}
 
 ${name ? `The user's name is ${name}.` : ''}
 
-Respond with ONLY the mood category (amazing, good, neutral, low, or struggling). Do not include any explanation or additional text.`;
-
-    // Call OpenAI API
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: `Please analyze the emotional tone of this journal entry: "${truncatedEntry}"`
-          }
-        ],
-        max_tokens: 10,
-        temperature: 0.3,
-        top_p: 0.8,
-      }),
-    });
-
-    if (!openaiResponse.ok) {
-      const errorData = await openaiResponse.text();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${openaiResponse.status}`);
-    }
-
-    const openaiData: OpenAIResponse = await openaiResponse.json();
-    
-    if (!openaiData.choices || openaiData.choices.length === 0) {
-      throw new Error('No response from OpenAI');
-    }
+Respond with ONLY a JSON object in this shape, with no other text:
+{"primary": "anxious", "secondary": ["tired"], "intensity": 3, "triggers": ["work deadline"]}`;
 
-    const rawMood = openaiData.choices[0].message.content.trim().toLowerCase();
-    
-    // Validate and normalize the mood response
-    const validMoods = ['amazing', 'good', 'neutral', 'low', 'struggling'];
-    let finalMood = 'neutral'; // default fallback
-    
-    // Check if the response matches our valid moods
-    for (const mood of validMoods) {
-      if (rawMood.includes(mood)) {
-        finalMood = mood;
-        break;
-      }
+    // Call the configured AI provider
+    const { content } = await completeChat(createLLMProvider(llmConfig), {
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: `Please analyze the emotions in this journal entry: "${truncatedEntry}"`
+        }
+      ],
+      maxTokens: 120,
+      temperature: 0.3,
+      topP: 0.8,
+    }, { ...llmConfig, label: 'analyze-mood' });
+
+    // Anything outside the taxonomy is dropped; without a known primary emotion we fall back to neutral
+    const emotions = parseEmotionAnalysis(content);
+    if (!emotions) {
+      throw new Error('Mood analysis did not name a known emotion');
     }
 
-    // If no valid mood found, try to infer from common emotional words
-    if (finalMood === 'neutral' && rawMood) {
-      if (rawMood.includes('happy') || rawMood.includes('joy') || rawMood.includes('excited') || rawMood.includes('great')) {
-        finalMood = 'good';
-      } else if (rawMood.includes('sad') || rawMood.includes('down') || rawMood.includes('disappointed')) {
-        finalMood = 'low';
-      } else if (rawMood.includes('anxious') || rawMood.includes('stressed') || rawMood.includes('overwhelmed')) {
-        finalMood = 'struggling';
-      } else if (rawMood.includes('amazing') || rawMood.includes('fantastic') || rawMood.includes('wonderful')) {
-        finalMood = 'amazing';
-      }
-    }
+    const finalMood = getMoodFromEmotions(emotions);
 
     // Return the mood analysis
     const response: MoodResponse = {
       success: true,
       mood: finalMood,
+      emotions,
       confidence: 0.85, // Could be enhanced with actual confidence scoring
-      analysis: `Zeno detected a ${finalMood} emotional tone in your entry`,
+      analysis: `Zeno sensed you're feeling mostly ${emotions.primary} in your entry`,
+      quota,
       timestamp: new Date().toISOString()
     };
 
@@ -190,6 +174,7 @@ Respond with ONLY the mood category (amazing, good, neutral, low, or struggling)
 
   } catch (error) {
     console.error('Error analyzing mood:', error);
+    await refundQuota?.();
 
     // Return fallback response on error
     const fallbackResponse: MoodResponse = {
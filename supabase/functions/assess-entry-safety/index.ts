@@ -0,0 +1,126 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { SAFETY_SYSTEM_PROMPT, SafetyClassification, parseSafetyClassification } from '../_shared/safety.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+interface SafetyRequest {
+  entry: string;
+}
+
+interface SafetyResponse {
+  success: boolean;
+  classification?: SafetyClassification;
+  error?: string;
+  timestamp: string;
+}
+
+const jsonResponse = (body: SafetyResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+/**
+ * Classifies a journal entry for suicidal or self-harm language when it is saved.
+ * Unlike the other AI features this is never limited by quota. Entry text is not
+ * logged or stored. If the model can't answer, the app relies on its keyword check.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate AI provider settings
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({
+        success: false,
+        error: 'Method not allowed. Use POST.',
+        timestamp: new Date().toISOString()
+      }, 405);
+    }
+
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      await requireUser(req, supabase);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const { entry }: SafetyRequest = await req.json();
+
+    if (!entry || typeof entry !== 'string' || entry.trim().length === 0) {
+      return jsonResponse({
+        success: false,
+        error: 'Journal entry text is required',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    // Worrying language near the end of a long entry matters as much as at the start
+    const truncatedEntry = entry.length > 4000
+      ? `${entry.substring(0, 2000)}\n...\n${entry.substring(entry.length - 2000)}`
+      : entry;
+
+    // Call the configured AI provider
+    const { content } = await completeChat(createLLMProvider(llmConfig), {
+      messages: [
+        {
+          role: 'system',
+          content: SAFETY_SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: `Journal entry:\n"""${truncatedEntry}"""`
+        }
+      ],
+      maxTokens: 40,
+      temperature: 0,
+    }, { ...llmConfig, label: 'assess-entry-safety' });
+
+    const classification = parseSafetyClassification(content);
+    if (!classification) {
+      throw new Error('Safety classification could not be read');
+    }
+
+    return jsonResponse({
+      success: true,
+      classification,
+      timestamp: new Date().toISOString()
+    }, 200);
+  } catch (error) {
+    console.error('Error assessing entry safety:', error instanceof Error ? error.message : error);
+
+    // 200 so the app quietly falls back to its keyword check
+    return jsonResponse({
+      success: false,
+      error: 'Safety check unavailable',
+      timestamp: new Date().toISOString()
+    }, 200);
+  }
+});
@@ -0,0 +1,301 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, AuthenticatedUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import {
+  BillingPlan,
+  PlanChangeKind,
+  PlanChangePreview,
+  getDowngradePhases,
+  getPlanChangeKind,
+  getPlanChangeRefusal,
+  getPlanTier,
+  getProrationCredit,
+  isProrationDateUsable
+} from '../_shared/planChanges.ts';
+import { isOpenSubscription } from '../_shared/rewards.ts';
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
+
+// Environment variables
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Price IDs for subscription plans
+const PRICE_IDS: Record<BillingPlan, string | undefined> = {
+  monthly: Deno.env.get('STRIPE_PRICE_ID_MONTHLY'),
+  yearly: Deno.env.get('STRIPE_PRICE_ID_YEARLY'),
+};
+
+interface ChangePlanRequest {
+  plan: BillingPlan;
+  /** Only work out what the change would cost */
+  preview?: boolean;
+  /** From the preview, so an upgrade charges what was shown */
+  proration_date?: number;
+}
+
+interface ChangePlanResponse {
+  success: boolean;
+  preview?: PlanChangePreview;
+  change?: {
+    /** null when a scheduled switch was called off */
+    kind: PlanChangeKind | null;
+    plan: BillingPlan;
+    effective_at: string;
+  };
+  error?: string;
+  timestamp: string;
+}
+
+const jsonResponse = (body: ChangePlanResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+async function saveScheduledTier(supabase: SupabaseClient, userId: string, tier: string | null, at: string | null) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ scheduled_tier: tier, scheduled_tier_at: at, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Switches the signed-in user between the monthly and yearly plans, or previews
+ * the cost. Upgrades are charged the prorated difference straight away; downgrades
+ * happen at renewal through a subscription schedule. `subscription_tier` is left
+ * to `stripe-webhook`, which updates it when Stripe reports the switch.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!STRIPE_SECRET_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Stripe or Supabase credentials');
+    }
+    if (!PRICE_IDS.monthly || !PRICE_IDS.yearly) {
+      throw new Error('Missing STRIPE_PRICE_ID_MONTHLY or STRIPE_PRICE_ID_YEARLY');
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({
+        success: false,
+        error: 'Method not allowed. Use POST.',
+        timestamp: new Date().toISOString()
+      }, 405);
+    }
+
+    // Initialize Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const { plan, preview = false, proration_date }: ChangePlanRequest = await req.json();
+
+    if (plan !== 'monthly' && plan !== 'yearly') {
+      return jsonResponse({
+        success: false,
+        error: 'Plan must be "monthly" or "yearly"',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('revenuecat_user_id, scheduled_tier')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError) throw profileError;
+
+    const stripe = new Stripe(STRIPE_SECRET_KEY);
+    const customerId: string | null = profile.revenuecat_user_id;
+    const subscriptions = customerId
+      ? await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 10 })
+      : null;
+    const subscription = subscriptions?.data.find(candidate => isOpenSubscription(candidate.status));
+
+    if (!customerId || !subscription) {
+      return jsonResponse({
+        success: false,
+        error: 'You don\'t have a subscription to change',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    const refusal = getPlanChangeRefusal(subscription);
+    if (refusal) {
+      return jsonResponse({ success: false, error: refusal, timestamp: new Date().toISOString() }, 400);
+    }
+
+    const item = subscription.items.data[0];
+    const currentPlan: BillingPlan = item.price.id === PRICE_IDS.monthly ? 'monthly' : 'yearly';
+    const kind = getPlanChangeKind(currentPlan, plan);
+    const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+
+    // Choosing the current plan again calls off a scheduled downgrade
+    if (!kind) {
+      if (!profile.scheduled_tier || !scheduleId) {
+        return jsonResponse({
+          success: false,
+          error: 'You\'re already on this plan',
+          timestamp: new Date().toISOString()
+        }, 400);
+      }
+
+      if (!preview) {
+        await stripe.subscriptionSchedules.release(scheduleId);
+        await saveScheduledTier(supabase, user.id, null, null);
+      }
+
+      return jsonResponse({
+        success: true,
+        change: { kind: null, plan, effective_at: new Date().toISOString() },
+        timestamp: new Date().toISOString()
+      }, 200);
+    }
+
+    const targetPriceId = PRICE_IDS[plan] as string;
+
+    if (kind === 'upgrade') {
+      if (preview) {
+        const prorationDate = Math.floor(Date.now() / 1000);
+        const upcoming = await stripe.invoices.retrieveUpcoming({
+          customer: customerId,
+          subscription: subscription.id,
+          subscription_items: [{ id: item.id, price: targetPriceId }],
+          subscription_proration_behavior: 'always_invoice',
+          subscription_proration_date: prorationDate,
+        });
+        const targetPrice = await stripe.prices.retrieve(targetPriceId);
+
+        return jsonResponse({
+          success: true,
+          preview: {
+            kind,
+            plan,
+            amount_due_cents: upcoming.amount_due,
+            credit_cents: getProrationCredit(upcoming.lines.data),
+            currency: upcoming.currency,
+            effective_at: toIso(prorationDate),
+            next_amount_cents: targetPrice.unit_amount,
+            proration_date: prorationDate,
+          },
+          timestamp: new Date().toISOString()
+        }, 200);
+      }
+
+      // A pending downgrade would undo the upgrade at renewal
+      if (scheduleId) {
+        await stripe.subscriptionSchedules.release(scheduleId);
+        await saveScheduledTier(supabase, user.id, null, null);
+      }
+
+      try {
+        await stripe.subscriptions.update(subscription.id, {
+          items: [{ id: item.id, price: targetPriceId }],
+          proration_behavior: 'always_invoice',
+          proration_date: isProrationDateUsable(proration_date) ? proration_date : undefined,
+          // Leave the plan alone if the prorated charge fails
+          payment_behavior: 'error_if_incomplete',
+        });
+      } catch (stripeError) {
+        if ((stripeError as { type?: string }).type === 'StripeCardError') {
+          return jsonResponse({
+            success: false,
+            error: (stripeError as Error).message || 'Your card was declined',
+            timestamp: new Date().toISOString()
+          }, 402);
+        }
+        throw stripeError;
+      }
+
+      return jsonResponse({
+        success: true,
+        change: { kind, plan, effective_at: new Date().toISOString() },
+        timestamp: new Date().toISOString()
+      }, 200);
+    }
+
+    // Downgrades wait for renewal, so nothing is charged now
+    const effectiveAt = toIso(subscription.current_period_end);
+
+    if (preview) {
+      const targetPrice = await stripe.prices.retrieve(targetPriceId);
+
+      return jsonResponse({
+        success: true,
+        preview: {
+          kind,
+          plan,
+          amount_due_cents: 0,
+          credit_cents: 0,
+          currency: targetPrice.currency,
+          effective_at: effectiveAt,
+          next_amount_cents: targetPrice.unit_amount,
+          proration_date: null,
+        },
+        timestamp: new Date().toISOString()
+      }, 200);
+    }
+
+    const schedule = scheduleId
+      ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+    const phaseCoupon = schedule.phases[0].coupon;
+
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      proration_behavior: 'none',
+      phases: getDowngradePhases({
+        currentPriceId: item.price.id,
+        targetPriceId,
+        startDate: schedule.phases[0].start_date,
+        renewsAt: subscription.current_period_end,
+        trialEnd: subscription.status === 'trialing' ? subscription.trial_end : null,
+        phaseCoupon: typeof phaseCoupon === 'string' ? phaseCoupon : phaseCoupon?.id ?? null,
+        discount: subscription.discount,
+      }),
+    });
+    await saveScheduledTier(supabase, user.id, getPlanTier(plan), effectiveAt);
+
+    return jsonResponse({
+      success: true,
+      change: { kind, plan, effective_at: effectiveAt },
+      timestamp: new Date().toISOString()
+    }, 200);
+  } catch (error) {
+    console.error('Unexpected error in change-subscription-plan function:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to change your plan. Please try again.',
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
@@ -0,0 +1,196 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { createLLMProvider, isLLMConfigured, readLLMConfig, streamChat } from '../_shared/llm.ts';
+import { ChatStreamEvent, ConversationMessage, buildZenoChatMessages, encodeChatEvent, getChatTurnError } from '../_shared/zenoChat.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+interface ChatRequest {
+  entry_id: string;
+  message?: string;
+  name?: string;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+}
+
+const MESSAGE_COLUMNS = 'id, entry_id, role, content, created_at';
+
+const jsonResponse = (body: ErrorResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+const errorResponse = (error: string, status: number) =>
+  jsonResponse({ success: false, error, timestamp: new Date().toISOString() }, status);
+
+/**
+ * Zeno's next reply in a reflective conversation about one journal entry.
+ *
+ * Send `message` to reply to Zeno, or leave it out to have Zeno open the
+ * conversation (or answer a message whose reply failed). The reply is streamed
+ * as server-sent events: `delta` events with text as it is written, then `done`
+ * with the stored messages, or `error`. Errors before streaming starts are
+ * returned as JSON with a status code.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  // Set once a reply is counted, so a reply Zeno never sends doesn't cost a use
+  let refundQuota: (() => Promise<void>) | null = null;
+
+  try {
+    // Validate AI provider settings
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
+    }
+
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed. Use POST.', 405);
+    }
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Supabase credentials');
+    }
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let user: { id: string };
+    try {
+      user = await requireUser(req, supabase);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const { entry_id: entryId, message: rawMessage, name }: ChatRequest = await req.json();
+    const message = typeof rawMessage === 'string' ? rawMessage.trim() : '';
+
+    if (!entryId || typeof entryId !== 'string') {
+      return errorResponse('Entry ID is required', 400);
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from('journal_entries')
+      .select('id, content, mood, title, is_encrypted')
+      .eq('id', entryId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (entryError) throw entryError;
+    if (!entry) {
+      return errorResponse('Entry not found', 404);
+    }
+    if (entry.is_encrypted) {
+      return errorResponse('Zeno can\'t read entries in your encrypted vault', 400);
+    }
+
+    const { data: historyRows, error: historyError } = await supabase
+      .from('entry_conversations')
+      .select('role, content')
+      .eq('entry_id', entryId)
+      .order('created_at', { ascending: true });
+
+    if (historyError) throw historyError;
+    const history = (historyRows || []) as ConversationMessage[];
+
+    const turnError = getChatTurnError(history, message);
+    if (turnError) {
+      return errorResponse(turnError, 400);
+    }
+
+    // Count this reply against the free daily limit
+    let quota: FeatureQuota;
+    try {
+      quota = await requireFeatureQuota(supabase, user.id, 'zeno-chat');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'zeno-chat');
+    } catch (error) {
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
+    }
+
+    let userMessage: Record<string, unknown> | undefined;
+    if (message) {
+      const { data: savedMessage, error: saveError } = await supabase
+        .from('entry_conversations')
+        .insert({ entry_id: entryId, user_id: user.id, role: 'user', content: message })
+        .select(MESSAGE_COLUMNS)
+        .single();
+
+      if (saveError) throw saveError;
+      userMessage = savedMessage;
+      history.push({ role: 'user', content: message });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeChatEvent(event)));
+
+        try {
+          const { content } = await streamChat(createLLMProvider(llmConfig), {
+            messages: buildZenoChatMessages(entry, history, name),
+            maxTokens: 200,
+            temperature: 0.7,
+          }, {
+            ...llmConfig,
+            label: 'chat-with-zeno',
+            onText: (text) => send({ type: 'delta', text })
+          });
+
+          const { data: reply, error: replyError } = await supabase
+            .from('entry_conversations')
+            .insert({ entry_id: entryId, user_id: user.id, role: 'assistant', content })
+            .select(MESSAGE_COLUMNS)
+            .single();
+
+          if (replyError) throw replyError;
+          send({ type: 'done', message: reply, user_message: userMessage, quota });
+        } catch (error) {
+          // Messages aren't logged; the user's message stays saved so they can retry
+          console.error('Error streaming Zeno reply:', error instanceof Error ? error.message : error);
+          await refundQuota?.();
+          send({ type: 'error', error: 'Zeno couldn\'t reply just now. Please try again.' });
+        } finally {
+          controller.close();
+        }
+      }
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Error in chat-with-zeno:', error instanceof Error ? error.message : error);
+    await refundQuota?.();
+    return errorResponse('Zeno couldn\'t reply just now. Please try again.', 500);
+  }
+});
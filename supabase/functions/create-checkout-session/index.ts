@@ -1,4 +1,7 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, AuthenticatedUser, assertSameUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { CodeError, TRIAL_DAYS, codeErrorResponse, getReferralTrialEnd } from '../_shared/rewards.ts';
+import { ResolvedCode, resolveCode } from '../_shared/rewardCodes.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 import Stripe from 'npm:stripe@13.2.0';
 
@@ -12,13 +15,20 @@ const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'; // Default f
 const PRICE_IDS = {
   MONTHLY: Deno.env.get('STRIPE_PRICE_ID_MONTHLY'),
   YEARLY: Deno.env.get('STRIPE_PRICE_ID_YEARLY'),
+  // One-time price for a year of Premium bought as a gift; gifts are off without it
+  GIFT: Deno.env.get('STRIPE_PRICE_ID_GIFT_YEARLY'),
 };
 
 interface CheckoutRequest {
-  priceId: string;
-  userId: string;
-  email: string;
+  /** Required unless buying a gift */
+  priceId?: string;
+  /** Optional; must match the signed-in user if sent */
+  userId?: string;
   name?: string;
+  /** Promotion or referral code checked earlier with `validate-code` */
+  code?: string;
+  /** Buy a year of Premium as a gift code instead of subscribing */
+  gift?: boolean;
 }
 
 Deno.serve(async (req: Request) => {
@@ -84,15 +94,50 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Initialize Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
     const requestData: CheckoutRequest = await req.json();
-    const { priceId, userId, email, name } = requestData;
+    const { priceId, name, code } = requestData;
+    const isGift = requestData.gift === true;
+
+    // Bill the signed-in user from the JWT, never an id or email from the body
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+      assertSameUser(user, requestData.userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const userId = user.id;
+    const email = user.email;
 
     // Validate input
-    if (!priceId || !userId || !email) {
+    if ((!priceId && !isGift) || !email) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Missing required fields: priceId is required and your account needs an email address',
+        }),
+        {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    if (isGift && !PRICE_IDS.GIFT) {
       return new Response(
         JSON.stringify({
           success: false,
-          error: 'Missing required fields: priceId, userId, and email are required',
+          error: 'Gift subscriptions aren\'t available right now',
         }),
         {
           status: 400,
@@ -105,7 +150,7 @@ Deno.serve(async (req: Request) => {
     }
 
     // Validate price ID
-    if (priceId !== PRICE_IDS.MONTHLY && priceId !== PRICE_IDS.YEARLY) {
+    if (!isGift && priceId !== PRICE_IDS.MONTHLY && priceId !== PRICE_IDS.YEARLY) {
       console.error('Invalid price ID received:', priceId);
       console.error('Expected price IDs:', PRICE_IDS.MONTHLY, 'or', PRICE_IDS.YEARLY);
       console.error('Received price ID:', priceId);
@@ -127,8 +172,22 @@ Deno.serve(async (req: Request) => {
     // Initialize Stripe
     const stripe = new Stripe(STRIPE_SECRET_KEY);
 
-    // Initialize Supabase client with service role key
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    // Look the code up again rather than trusting what the app was shown
+    let resolvedCode: ResolvedCode | null = null;
+    if (code && !isGift) {
+      try {
+        resolvedCode = await resolveCode(supabase, stripe, userId, code);
+      } catch (error) {
+        if (error instanceof CodeError) {
+          return codeErrorResponse(error);
+        }
+        throw error;
+      }
+
+      if (resolvedCode.type === 'gift') {
+        return codeErrorResponse(new CodeError('Gift codes are redeemed on their own, not at checkout'));
+      }
+    }
 
     // Look up the user's profile to check for existing Stripe customer ID
     const { data: profile, error: profileError } = await supabase
@@ -215,30 +274,52 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    const referrerUserId = resolvedCode?.type === 'referral' ? resolvedCode.referrerUserId : null;
+    const metadata: Record<string, string> = referrerUserId ? { userId, referrerUserId } : { userId };
+
     // Create a checkout session
     try {
-      const session = await stripe.checkout.sessions.create({
-        customer: customerId, // Now we're sure this is a valid customer ID
-        payment_method_types: ['card'],
-        line_items: [
-          {
-            price: priceId,
-            quantity: 1,
-          },
-        ],
-        mode: 'subscription' as const,
-        subscription_data: {
-          trial_period_days: 7,
+      const session = isGift
+        ? await stripe.checkout.sessions.create({
+          customer: customerId,
+          payment_method_types: ['card'],
+          line_items: [
+            {
+              price: PRICE_IDS.GIFT,
+              quantity: 1,
+            },
+          ],
+          mode: 'payment' as const,
+          // The webhook turns paid gift checkouts into gift codes
+          success_url: `${APP_URL}/premium?gift=purchased&t=${Date.now()}`,
+          cancel_url: `${APP_URL}/premium?gift=canceled&t=${Date.now()}`,
           metadata: {
             userId: userId,
+            kind: 'gift',
           },
-        },
-        success_url: `${APP_URL}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}&t=${Date.now()}`,
-        cancel_url: `${APP_URL}/premium?subscription=canceled&t=${Date.now()}`,
-        metadata: {
-          userId: userId,
-        },
-      });
+        })
+        : await stripe.checkout.sessions.create({
+          customer: customerId, // Now we're sure this is a valid customer ID
+          payment_method_types: ['card'],
+          line_items: [
+            {
+              price: priceId,
+              quantity: 1,
+            },
+          ],
+          mode: 'subscription' as const,
+          ...(resolvedCode?.type === 'promotion' && {
+            discounts: [{ promotion_code: resolvedCode.promotionCodeId }],
+          }),
+          subscription_data: {
+            // Referred users get their free month on top of the usual trial
+            ...(referrerUserId ? { trial_end: getReferralTrialEnd() } : { trial_period_days: TRIAL_DAYS }),
+            metadata,
+          },
+          success_url: `${APP_URL}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}&t=${Date.now()}`,
+          cancel_url: `${APP_URL}/premium?subscription=canceled&t=${Date.now()}`,
+          metadata,
+        });
 
       // Return the checkout session URL
       console.log('Checkout session created successfully for customer:', customerId, 'session ID:', session.id);
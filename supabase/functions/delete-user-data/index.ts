@@ -1,19 +1,52 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, AuthenticatedUser, assertSameUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import {
+  DeletionStep,
+  createUndoToken,
+  getPurgeDate,
+  getSignInBanDuration,
+  hashUndoToken,
+  runDeletionStep
+} from '../_shared/accountDeletion.ts';
+import { escapeHtml, isEmailConfigured, sendEmail } from '../_shared/email.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'; // Default for local development
+
+// Subscriptions that will bill again unless they're cancelled
+const BILLING_STATUSES = ['active', 'trialing', 'past_due', 'unpaid'];
 
 interface DeleteRequest {
-  user_id: string;
+  /** Optional; must match the signed-in user if sent */
+  user_id?: string;
 }
 
 interface DeleteResponse {
   success: boolean;
+  report?: DeletionStep[];
+  purge_after?: string;
   error?: string;
   timestamp: string;
 }
 
+/**
+ * Build the email with the link that undoes the deletion
+ */
+function buildUndoEmail(name: string | null, undoUrl: string, purgeAfter: Date) {
+  const greeting = name ? `Hi ${name},` : 'Hi,';
+  const purgeDate = purgeAfter.toUTCString().slice(0, 16);
+
+  return {
+    subject: 'Your Zensai account will be deleted',
+    text: `${greeting}\n\nWe received a request to delete your Zensai account. It will be permanently deleted on ${purgeDate}, along with your journal entries, photos and badges.\n\nChanged your mind? Restore your account: ${undoUrl}\n\nIf you didn't ask for this, restore your account and change your password.`,
+    html: `<p>${escapeHtml(greeting)}</p><p>We received a request to delete your Zensai account. It will be permanently deleted on <strong>${purgeDate}</strong>, along with your journal entries, photos and badges.</p><p>Changed your mind? <a href="${undoUrl}">Restore your account</a>.</p><p>If you didn't ask for this, restore your account and change your password.</p>`
+  };
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -47,19 +80,35 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const requestData: DeleteRequest = await req.json();
-    const { user_id } = requestData;
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const requestData: DeleteRequest = await req.json().catch(() => ({}));
+
+    // Act on the signed-in user from the JWT, never on an id from the body
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+      assertSameUser(user, requestData.user_id);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    // The emailed link is the only way to undo, so don't start without one
+    if (!isEmailConfigured() || !user.email) {
+      const errorResponse: DeleteResponse = {
+        success: false,
+        error: 'We can\'t email you a link to undo this right now, so your account wasn\'t deleted. Please contact support.',
+        timestamp: new Date().toISOString()
+      };
 
-    // Validate input
-    if (!user_id || typeof user_id !== 'string') {
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'User ID is required',
-          timestamp: new Date().toISOString()
-        }),
+        JSON.stringify(errorResponse),
         {
-          status: 400,
+          status: 503,
           headers: {
             ...corsHeaders,
             'Content-Type': 'application/json',
@@ -68,23 +117,48 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Create Supabase client with service role key
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const user_id = user.id;
+    const email = user.email;
+    const report: DeletionStep[] = [];
+    const purgeAfter = getPurgeDate();
+    const undoToken = createUndoToken();
 
-    // Delete journal entries first (due to foreign key constraints)
-    const { error: entriesError } = await supabase
-      .from('journal_entries')
-      .delete()
-      .eq('user_id', user_id);
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('name, revenuecat_user_id')
+      .eq('user_id', user_id)
+      .maybeSingle();
+
+    // Start the grace period; nothing is deleted until purge-deleted-accounts runs
+    const scheduleStatus = await runDeletionStep(report, 'schedule', async () => {
+      const { error } = await supabase
+        .from('account_deletions')
+        .upsert({
+          user_id,
+          status: 'pending',
+          requested_at: new Date().toISOString(),
+          purge_after: purgeAfter.toISOString(),
+          undo_token_hash: await hashUndoToken(undoToken),
+          stripe_subscription_ids: [],
+          reminders_were_enabled: false,
+          report: [],
+          cancelled_at: null,
+          completed_at: null
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    });
+
+    if (scheduleStatus === 'failed') {
+      const errorResponse: DeleteResponse = {
+        success: false,
+        report,
+        error: 'Account deletion failed. Please try again.',
+        timestamp: new Date().toISOString()
+      };
 
-    if (entriesError) {
-      console.error('Error deleting journal entries:', entriesError);
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to delete journal entries',
-          timestamp: new Date().toISOString()
-        }),
+        JSON.stringify(errorResponse),
         {
           status: 500,
           headers: {
@@ -95,20 +169,31 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Delete user profile
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .delete()
-      .eq('user_id', user_id);
+    // Send the undo link before anything else changes, and call it off if it can't be sent
+    const emailStatus = await runDeletionStep(report, 'email', async () => {
+      const undoUrl = `${APP_URL}/restore-account?token=${undoToken}`;
+      await sendEmail({ to: email, ...buildUndoEmail(profile?.name ?? null, undoUrl, purgeAfter) });
+    });
+
+    if (emailStatus === 'failed') {
+      const { error: cancelError } = await supabase
+        .from('account_deletions')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), undo_token_hash: null, report })
+        .eq('user_id', user_id);
+
+      if (cancelError) {
+        console.error('Error calling off account deletion:', cancelError);
+      }
+
+      const errorResponse: DeleteResponse = {
+        success: false,
+        report,
+        error: 'We couldn\'t email you a link to undo this, so your account wasn\'t deleted. Please try again.',
+        timestamp: new Date().toISOString()
+      };
 
-    if (profileError) {
-      console.error('Error deleting profile:', profileError);
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to delete user profile',
-          timestamp: new Date().toISOString()
-        }),
+        JSON.stringify(errorResponse),
         {
           status: 500,
           headers: {
@@ -119,30 +204,74 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Delete user from auth.users table
-    const { error: authError } = await supabase.auth.admin.deleteUser(user_id);
+    // Stop billing at the end of the current period; undo resumes the subscription
+    let subscriptionIds: string[] = [];
+    await runDeletionStep(report, 'subscription', async () => {
+      const customerId = profile?.revenuecat_user_id;
+      if (!customerId) return 'skipped';
+      if (!STRIPE_SECRET_KEY) throw new Error('Stripe is not configured');
 
-    if (authError) {
-      console.error('Error deleting auth user:', authError);
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to delete user account',
-          timestamp: new Date().toISOString()
-        }),
-        {
-          status: 500,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
+      const stripe = new Stripe(STRIPE_SECRET_KEY);
+      const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 100 });
+      const billing = subscriptions.data.filter(subscription =>
+        BILLING_STATUSES.includes(subscription.status) && !subscription.cancel_at_period_end
       );
+      if (billing.length === 0) return 'skipped';
+
+      for (const subscription of billing) {
+        await stripe.subscriptions.update(subscription.id, { cancel_at_period_end: true });
+      }
+      subscriptionIds = billing.map(subscription => subscription.id);
+    });
+
+    // Pause reminders so we don't nudge someone who is leaving
+    let remindersWereEnabled = false;
+    await runDeletionStep(report, 'reminders', async () => {
+      const { data, error } = await supabase
+        .from('reminder_preferences')
+        .update({ enabled: false })
+        .eq('user_id', user_id)
+        .eq('enabled', true)
+        .select('user_id');
+
+      if (error) throw error;
+      remindersWereEnabled = (data?.length || 0) > 0;
+      if (!remindersWereEnabled) return 'skipped';
+    });
+
+    if (subscriptionIds.length > 0 || remindersWereEnabled) {
+      const { error: updateError } = await supabase
+        .from('account_deletions')
+        .update({
+          stripe_subscription_ids: subscriptionIds,
+          reminders_were_enabled: remindersWereEnabled
+        })
+        .eq('user_id', user_id);
+
+      if (updateError) {
+        // Only affects what undo restores, so carry on
+        console.error('Error saving what to restore on undo:', updateError);
+      }
     }
 
+    // Block signing in during the grace period
+    await runDeletionStep(report, 'sign_in', async () => {
+      const { error } = await supabase.auth.admin.updateUserById(user_id, {
+        ban_duration: getSignInBanDuration(purgeAfter)
+      });
+      if (error) throw error;
+    });
+
+    await supabase
+      .from('account_deletions')
+      .update({ report })
+      .eq('user_id', user_id);
+
     // Return success response
     const response: DeleteResponse = {
       success: true,
+      report,
+      purge_after: purgeAfter.toISOString(),
       timestamp: new Date().toISOString()
     };
 
@@ -178,4 +307,4 @@ Deno.serve(async (req: Request) => {
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -1,20 +1,323 @@
 import { corsHeaders } from '../_shared/cors.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { AuthError, AuthenticatedUser, assertSameUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import {
+  ExportEntry,
+  ExportFormat,
+  buildCsv,
+  buildEntryMarkdown,
+  getEntryFileName,
+  getEntryText,
+  getEntryTitle,
+  getLocalDateParts,
+  getMoodLabel,
+  getPhotoStoragePath,
+  isDateString,
+  isExportFormat,
+  isWithinDateRange,
+  wrapText
+} from '../_shared/journalExport.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import JSZip from 'npm:jszip@3.10.1';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+const PHOTO_BUCKET = 'journal-photos';
+
+// Below PostgREST's row limit, so a full page always means there may be more
+const EXPORT_PAGE_SIZE = 500;
+
 interface ExportRequest {
-  user_id: string;
+  /** Optional; must match the signed-in user if sent */
+  user_id?: string;
+  /** Defaults to 'json' */
+  format?: ExportFormat;
+  /** Inclusive local dates as 'YYYY-MM-DD' */
+  from?: string | null;
+  to?: string | null;
+}
+
+/**
+ * What a JSON export contains
+ */
+interface JsonExport {
+  export_info: {
+    exported_at: string;
+    user_id: string;
+    total_entries: number;
+    date_range: { from: string | null; to: string | null };
+    export_version: string;
+  };
+  profile: {
+    name: string;
+    current_streak: number;
+    best_streak: number;
+    last_entry_date: string | null;
+    member_since: string;
+  };
+  journal_entries: Array<Omit<ExportEntry, 'tags' | 'is_encrypted'> & {
+    tags: string[];
+    is_encrypted: boolean;
+  }>;
 }
 
 interface ExportResponse {
   success: boolean;
-  data?: any;
+  data?: JsonExport;
   error?: string;
   timestamp: string;
 }
 
+interface ExportProfile {
+  name: string;
+  current_streak: number;
+  best_streak: number;
+  last_entry_date: string | null;
+  created_at: string;
+  timezone?: string | null;
+}
+
+const errorResponse = (error: string, status: number) =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error,
+      timestamp: new Date().toISOString()
+    } as ExportResponse),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+// Binary formats go out as octet-stream so supabase-js hands the browser a Blob
+const fileResponse = (body: BodyInit, fileName: string) =>
+  new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+
+/**
+ * Read every entry in the padded range a page at a time, ordered by
+ * `(created_at, id)`. A single select is cut off at PostgREST's row limit.
+ */
+async function loadExportEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  ascending: boolean,
+  range: { startsAt: string | null; endsBefore: string | null }
+): Promise<ExportEntry[]> {
+  const entries: ExportEntry[] = [];
+
+  for (;;) {
+    let query = supabase
+      .from('journal_entries')
+      .select('id, title, content, mood, tags, photo_url, is_encrypted, created_at, updated_at')
+      .eq('user_id', userId);
+
+    if (range.startsAt) {
+      query = query.gte('created_at', range.startsAt);
+    }
+    if (range.endsBefore) {
+      query = query.lt('created_at', range.endsBefore);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .range(entries.length, entries.length + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const page = (data || []) as ExportEntry[];
+    entries.push(...page);
+    if (page.length < EXPORT_PAGE_SIZE) return entries;
+  }
+}
+
+/**
+ * Download an entry's photo from storage, or null if it's gone
+ */
+async function downloadPhoto(supabase: SupabaseClient, userId: string, entry: ExportEntry) {
+  const path = getPhotoStoragePath(userId, entry.photo_url);
+  if (!path) return null;
+
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).download(path);
+  if (error || !data) {
+    console.error(`Photo for entry ${entry.id} could not be downloaded:`, error);
+    return null;
+  }
+
+  return { name: path.split('/').pop() as string, bytes: new Uint8Array(await data.arrayBuffer()) };
+}
+
+/**
+ * A ZIP with one Markdown file per entry and their photos
+ */
+async function buildMarkdownBundle(
+  supabase: SupabaseClient,
+  userId: string,
+  profile: ExportProfile,
+  entries: ExportEntry[],
+  timeZone: string
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const index: string[] = [`# ${profile.name}'s Zensai Journal`, '', `${entries.length} entries`, ''];
+
+  for (const entry of entries) {
+    const fileName = getEntryFileName(entry, timeZone);
+    const photo = entry.photo_url ? await downloadPhoto(supabase, userId, entry) : null;
+    if (photo) {
+      zip.file(`photos/${photo.name}`, photo.bytes);
+    }
+
+    zip.file(`entries/${fileName}`, buildEntryMarkdown(entry, timeZone, photo ? `../photos/${photo.name}` : null));
+
+    const { date } = getLocalDateParts(entry.created_at, timeZone);
+    index.push(`- [${getEntryTitle(entry) || date}](entries/${encodeURI(fileName)}) · ${getMoodLabel(entry.mood)}`);
+  }
+
+  zip.file('README.md', index.join('\n') + '\n');
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 64;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const MOOD_COLORS: Record<string, [number, number, number]> = {
+  struggling: [0.94, 0.5, 0.5],
+  low: [0.98, 0.7, 0.5],
+  neutral: [0.75, 0.75, 0.75],
+  good: [0.45, 0.82, 0.75],
+  amazing: [0.18, 0.83, 0.75]
+};
+
+/**
+ * Drop characters the standard PDF fonts can't draw (emoji, most non-Latin scripts)
+ */
+const toDrawableText = (font: PDFFont, text: string): string =>
+  Array.from(text).map(char => {
+    if (char === '\n') return char;
+    try {
+      font.encodeText(char);
+      return char;
+    } catch {
+      return '';
+    }
+  }).join('');
+
+/**
+ * A printable "journal book": a cover, then each entry from a fresh page with
+ * its date and mood, flowing onto more pages as needed
+ */
+async function buildJournalBook(
+  supabase: SupabaseClient,
+  userId: string,
+  profile: ExportProfile,
+  entries: ExportEntry[],
+  timeZone: string,
+  range: { from?: string | null; to?: string | null }
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.TimesRoman);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const italic = await pdf.embedFont(StandardFonts.TimesRomanItalic);
+  const ink = rgb(0.2, 0.27, 0.25);
+  const muted = rgb(0.45, 0.5, 0.48);
+
+  pdf.setTitle(`${profile.name}'s Zensai Journal`);
+  pdf.setCreator('Zensai');
+
+  // Cover
+  const cover = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const coverTitle = toDrawableText(bold, `${profile.name}'s Journal`);
+  cover.drawText(coverTitle, { x: MARGIN, y: PAGE_HEIGHT / 2 + 40, size: 32, font: bold, color: ink });
+  const firstDate = entries.length > 0 ? getLocalDateParts(entries[0].created_at, timeZone).date : null;
+  const lastDate = entries.length > 0 ? getLocalDateParts(entries[entries.length - 1].created_at, timeZone).date : null;
+  const coverSubtitle = `${range.from || firstDate || ''} to ${range.to || lastDate || ''} · ${entries.length} entries`;
+  cover.drawText(toDrawableText(italic, coverSubtitle), { x: MARGIN, y: PAGE_HEIGHT / 2, size: 14, font: italic, color: muted });
+  cover.drawText('Written with Zensai', { x: MARGIN, y: MARGIN, size: 10, font: italic, color: muted });
+
+  const bodySize = 12;
+  const lineHeight = bodySize * 1.5;
+  let page: PDFPage = cover;
+  let y = 0;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  for (const entry of entries) {
+    newPage();
+    const { date, time } = getLocalDateParts(entry.created_at, timeZone);
+
+    // Date and mood header
+    page.drawText(`${date}  ${time}`, { x: MARGIN, y, size: 10, font: bold, color: muted });
+    const [r, g, b] = MOOD_COLORS[entry.mood] || MOOD_COLORS.neutral;
+    page.drawCircle({ x: PAGE_WIDTH - MARGIN - 70, y: y + 3, size: 5, color: rgb(r, g, b) });
+    page.drawText(getMoodLabel(entry.mood), { x: PAGE_WIDTH - MARGIN - 60, y, size: 10, font: bold, color: muted });
+    y -= 28;
+
+    const title = getEntryTitle(entry);
+    if (title) {
+      for (const line of wrapText(toDrawableText(bold, title), TEXT_WIDTH, text => bold.widthOfTextAtSize(text, 18))) {
+        ensureSpace(24);
+        page.drawText(line, { x: MARGIN, y, size: 18, font: bold, color: ink });
+        y -= 24;
+      }
+      y -= 8;
+    }
+
+    if (entry.photo_url) {
+      const photo = await downloadPhoto(supabase, userId, entry);
+      const image = photo
+        ? await (/\.png$/i.test(photo.name) ? pdf.embedPng(photo.bytes) : pdf.embedJpg(photo.bytes)).catch(() => null)
+        : null;
+      if (image) {
+        const scaled = image.scaleToFit(TEXT_WIDTH, 280);
+        ensureSpace(scaled.height + 16);
+        page.drawImage(image, { x: MARGIN, y: y - scaled.height, width: scaled.width, height: scaled.height });
+        y -= scaled.height + 16;
+      }
+    }
+
+    const textFont = entry.is_encrypted ? italic : regular;
+    const text = toDrawableText(textFont, getEntryText(entry));
+    for (const line of wrapText(text, TEXT_WIDTH, value => textFont.widthOfTextAtSize(value, bodySize))) {
+      ensureSpace(lineHeight);
+      page.drawText(line, { x: MARGIN, y, size: bodySize, font: textFont, color: ink });
+      y -= lineHeight;
+    }
+
+    const tags = entry.tags ?? [];
+    if (tags.length > 0) {
+      ensureSpace(lineHeight + 8);
+      y -= 8;
+      page.drawText(toDrawableText(italic, tags.map(tag => `#${tag}`).join('  ')), {
+        x: MARGIN, y, size: 10, font: italic, color: muted
+      });
+    }
+  }
+
+  return pdf.save();
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -32,46 +335,39 @@ Deno.serve(async (req: Request) => {
 
     // Parse request body
     if (req.method !== 'POST') {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Method not allowed. Use POST.',
-          timestamp: new Date().toISOString()
-        }),
-        {
-          status: 405,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
-
-    const requestData: ExportRequest = await req.json();
-    const { user_id } = requestData;
-
-    // Validate input
-    if (!user_id || typeof user_id !== 'string') {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'User ID is required',
-          timestamp: new Date().toISOString()
-        }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      return errorResponse('Method not allowed. Use POST.', 405);
     }
 
     // Create Supabase client with service role key
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+    const requestData: ExportRequest = await req.json().catch(() => ({}));
+
+    // Act on the signed-in user from the JWT, never on an id from the body
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+      assertSameUser(user, requestData.user_id);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const user_id = user.id;
+    const format = requestData.format ?? 'json';
+    const from = requestData.from || null;
+    const to = requestData.to || null;
+
+    // Validate input
+    if (!isExportFormat(format)) {
+      return errorResponse('Unsupported export format', 400);
+    }
+    if ((from && !isDateString(from)) || (to && !isDateString(to)) || (from && to && from > to)) {
+      return errorResponse('Invalid date range', 400);
+    }
+
     // Get user profile
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
@@ -81,54 +377,51 @@ Deno.serve(async (req: Request) => {
 
     if (profileError) {
       console.error('Error fetching profile:', profileError);
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to fetch user profile',
-          timestamp: new Date().toISOString()
-        }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
-
-    // Get all journal entries for the user
-    const { data: entries, error: entriesError } = await supabase
-      .from('journal_entries')
-      .select('*')
-      .eq('user_id', user_id)
-      .order('created_at', { ascending: false });
+      return errorResponse('Failed to fetch user profile', 400);
+    }
 
-    if (entriesError) {
+    const timeZone = profile.timezone || 'UTC';
+
+    // Get the user's journal entries, padding the range by a day either side so
+    // every timezone is covered, then keep exactly the local dates asked for
+    let rawEntries: ExportEntry[];
+    try {
+      rawEntries = await loadExportEntries(supabase, user_id, format !== 'json', {
+        startsAt: from ? new Date(Date.parse(`${from}T00:00:00Z`) - 24 * 60 * 60 * 1000).toISOString() : null,
+        endsBefore: to ? new Date(Date.parse(`${to}T00:00:00Z`) + 2 * 24 * 60 * 60 * 1000).toISOString() : null
+      });
+    } catch (entriesError) {
       console.error('Error fetching entries:', entriesError);
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to fetch journal entries',
-          timestamp: new Date().toISOString()
-        }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      return errorResponse('Failed to fetch journal entries', 400);
+    }
+
+    const entries = rawEntries.filter(entry => isWithinDateRange(entry, timeZone, from, to));
+
+    const exportDate = new Date().toISOString().split('T')[0];
+    const baseFileName = `zensai-journal-${exportDate}`;
+
+    if (format === 'csv') {
+      return fileResponse(buildCsv(entries, timeZone), `${baseFileName}.csv`);
+    }
+
+    if (format === 'markdown') {
+      const zip = await buildMarkdownBundle(supabase, user_id, profile, entries, timeZone);
+      return fileResponse(zip, `${baseFileName}.zip`);
+    }
+
+    if (format === 'pdf') {
+      const pdf = await buildJournalBook(supabase, user_id, profile, entries, timeZone, { from, to });
+      return fileResponse(pdf, `${baseFileName}.pdf`);
     }
 
     // Prepare export data
-    const exportData = {
+    const exportData: JsonExport = {
       export_info: {
         exported_at: new Date().toISOString(),
         user_id: user_id,
-        total_entries: entries?.length || 0,
-        export_version: '1.0'
+        total_entries: entries.length,
+        date_range: { from, to },
+        export_version: '1.1'
       },
       profile: {
         name: profile.name,
@@ -137,13 +430,18 @@ Deno.serve(async (req: Request) => {
         last_entry_date: profile.last_entry_date,
         member_since: profile.created_at
       },
-      journal_entries: entries?.map(entry => ({
+      journal_entries: entries.map(entry => ({
         id: entry.id,
+        title: entry.title,
         content: entry.content,
         mood: entry.mood,
+        tags: entry.tags ?? [],
+        photo_url: entry.photo_url,
+        // Vault entries stay encrypted here; the app decrypts them in the browser
+        is_encrypted: entry.is_encrypted ?? false,
         created_at: entry.created_at,
         updated_at: entry.updated_at
-      })) || []
+      }))
     };
 
     // Return the export data
@@ -168,21 +466,6 @@ Deno.serve(async (req: Request) => {
     console.error('Error exporting data:', error);
 
     // Return error response
-    const errorResponse: ExportResponse = {
-      success: false,
-      error: 'Data export failed. Please try again.',
-      timestamp: new Date().toISOString()
-    };
-
-    return new Response(
-      JSON.stringify(errorResponse),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    return errorResponse('Data export failed. Please try again.', 500);
   }
-});
\ No newline at end of file
+});
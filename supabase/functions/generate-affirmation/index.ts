@@ -1,19 +1,19 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { SAFETY_FALLBACK_AFFIRMATIONS, SafetyLevel, getSafetyAffirmationGuidance, isSafetyLevel } from '../_shared/safety.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 interface AffirmationRequest {
   entry: string;
   mood: string;
   name?: string;
-}
-
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+  /** From the app's safety check; anything but 'none' rules out cheerful replies */
+  safety_level?: SafetyLevel;
 }
 
 interface AffirmationResponse {
@@ -21,10 +21,13 @@ interface AffirmationResponse {
   affirmation: string;
   generated_by: 'ai' | 'fallback';
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
 Deno.serve(async (req: Request) => {
+  let safetyLevel: SafetyLevel = 'none';
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -33,10 +36,14 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Set once a use is counted, so a fallback affirmation doesn't cost the user one
+  let refundQuota: (() => Promise<void>) | null = null;
+
   try {
-    // Validate API key
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
+    // Validate AI provider settings
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
     }
 
     // Parse request body
@@ -61,6 +68,9 @@ Deno.serve(async (req: Request) => {
 
     const requestData: AffirmationRequest = await req.json();
     const { entry, mood, name } = requestData;
+    if (isSafetyLevel(requestData.safety_level)) {
+      safetyLevel = requestData.safety_level;
+    }
 
     // Validate input
     if (!entry || typeof entry !== 'string' || entry.trim().length === 0) {
@@ -101,6 +111,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Count this use against the signed-in user's free daily limit
+    let quota: FeatureQuota;
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const user = await requireUser(req, supabase);
+      quota = await requireFeatureQuota(supabase, user.id, 'affirmation-generator');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'affirmation-generator');
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
+    }
+
     // Truncate very long entries to avoid token limits
     const truncatedEntry = entry.length > 1500 ? entry.substring(0, 1500) + '...' : entry;
 
@@ -126,46 +156,26 @@ ${name ? `The user's name is ${name}, so you can personalize the affirmation if
 
 Current mood: ${mood}
 
-Respond with ONLY the affirmation text. Do not include quotation marks, prefixes, or explanations.`;
-
-    // Call OpenAI API
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: `Based on this journal entry and the detected mood of "${mood}", please create a personalized affirmation: "${truncatedEntry}"`
-          }
-        ],
-        max_tokens: 100,
-        temperature: 0.7,
-        top_p: 0.9,
-      }),
-    });
-
-    if (!openaiResponse.ok) {
-      const errorData = await openaiResponse.text();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${openaiResponse.status}`);
-    }
+${getSafetyAffirmationGuidance(safetyLevel)}
 
-    const openaiData: OpenAIResponse = await openaiResponse.json();
-    
-    if (!openaiData.choices || openaiData.choices.length === 0) {
-      throw new Error('No response from OpenAI');
-    }
+Respond with ONLY the affirmation text. Do not include quotation marks, prefixes, or explanations.`;
 
-    const generatedAffirmation = openaiData.choices[0].message.content.trim();
+    // Call the configured AI provider
+    const { content: generatedAffirmation } = await completeChat(createLLMProvider(llmConfig), {
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: `Based on this journal entry and the detected mood of "${mood}", please create a personalized affirmation: "${truncatedEntry}"`
+        }
+      ],
+      maxTokens: 100,
+      temperature: 0.7,
+      topP: 0.9,
+    }, { ...llmConfig, label: 'generate-affirmation' });
 
     // Clean up the affirmation (remove quotes if present)
     const cleanAffirmation = generatedAffirmation.replace(/^["']|["']$/g, '');
@@ -175,6 +185,7 @@ Respond with ONLY the affirmation text. Do not include quotation marks, prefixes
       success: true,
       affirmation: cleanAffirmation,
       generated_by: 'ai',
+      quota,
       timestamp: new Date().toISOString()
     };
 
@@ -191,6 +202,7 @@ Respond with ONLY the affirmation text. Do not include quotation marks, prefixes
 
   } catch (error) {
     console.error('Error generating affirmation:', error);
+    await refundQuota?.();
 
     // Return mood-specific fallback affirmations
     const fallbackAffirmations = {
@@ -221,6 +233,25 @@ Respond with ONLY the affirmation text. Do not include quotation marks, prefixes
       ]
     };
 
+    if (safetyLevel !== 'none') {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          affirmation: SAFETY_FALLBACK_AFFIRMATIONS[Math.floor(Math.random() * SAFETY_FALLBACK_AFFIRMATIONS.length)],
+          generated_by: 'fallback',
+          error: 'AI generation failed, using fallback affirmation',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     // Get fallback based on mood, default to neutral
     const moodKey = req.method === 'POST' ? 
       (await req.json().catch(() => ({ mood: 'neutral' }))).mood?.toLowerCase() || 'neutral' : 
@@ -1,6 +1,11 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 interface MoodQuoteRequest {
   mood: string;
@@ -9,20 +14,13 @@ interface MoodQuoteRequest {
   previousQuotes?: string[];
 }
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
 interface MoodQuoteResponse {
   success: boolean;
   quote: string;
   attribution?: string;
   generated_by: 'ai' | 'fallback';
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -118,9 +116,10 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // If no OpenAI API key, return fallback immediately
-    if (!OPENAI_API_KEY) {
-      console.log('OpenAI API key not configured, using fallback quote');
+    // If no AI provider is set up, return fallback immediately
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      console.log('AI provider not configured, using fallback quote');
       const fallbackQuote = getFallbackQuote(mood);
       return new Response(
         JSON.stringify({
@@ -128,7 +127,7 @@ Deno.serve(async (req: Request) => {
           quote: fallbackQuote.quote,
           attribution: fallbackQuote.attribution,
           generated_by: 'fallback',
-          error: 'OpenAI API key not configured',
+          error: 'AI provider not configured',
           timestamp: new Date().toISOString()
         }),
         {
@@ -141,6 +140,27 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Count this use against the signed-in user's free daily limit
+    let quota: FeatureQuota;
+    let refundQuota: () => Promise<void>;
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const user = await requireUser(req, supabase);
+      quota = await requireFeatureQuota(supabase, user.id, 'mood-quote-generator');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'mood-quote-generator');
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
+    }
+
     // Try to generate AI quote
     try {
       // Create system prompt for mood quote generation
@@ -173,44 +193,22 @@ Respond with a JSON object containing:
 Example format:
 {"quote": "The wound is the place where the Light enters you.", "attribution": "Rumi"}`;
 
-      // Call OpenAI API
-      const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt
-            },
-            {
-              role: 'user',
-              content: `Generate a thoughtful quote for someone feeling "${mood}".`
-            }
-          ],
-          max_tokens: 150,
-          temperature: 0.8,
-          top_p: 0.9,
-        }),
-      });
-
-      if (!openaiResponse.ok) {
-        const errorData = await openaiResponse.text();
-        console.error('OpenAI API error:', errorData);
-        throw new Error(`OpenAI API error: ${openaiResponse.status}`);
-      }
-
-      const openaiData: OpenAIResponse = await openaiResponse.json();
-      
-      if (!openaiData.choices || openaiData.choices.length === 0) {
-        throw new Error('No response from OpenAI');
-      }
-
-      const responseContent = openaiData.choices[0].message.content.trim();
+      // Call the configured AI provider
+      const { content: responseContent } = await completeChat(createLLMProvider(llmConfig), {
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt
+          },
+          {
+            role: 'user',
+            content: `Generate a thoughtful quote for someone feeling "${mood}".`
+          }
+        ],
+        maxTokens: 150,
+        temperature: 0.8,
+        topP: 0.9,
+      }, { ...llmConfig, label: 'generate-mood-quote' });
       
       // Try to parse JSON response
       let quoteData;
@@ -227,6 +225,7 @@ Example format:
         quote: quoteData.quote || responseContent,
         attribution: quoteData.attribution || undefined,
         generated_by: 'ai',
+        quota,
         timestamp: new Date().toISOString()
       };
 
@@ -243,7 +242,9 @@ Example format:
 
     } catch (aiError) {
       console.error('AI generation failed, using fallback:', aiError);
-      
+      // A fallback quote doesn't count as a use
+      await refundQuota();
+
       // Return fallback quote when AI fails
       const fallbackQuote = getFallbackQuote(mood);
       const fallbackResponse: MoodQuoteResponse = {
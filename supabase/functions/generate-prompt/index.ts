@@ -1,19 +1,91 @@
 import { corsHeaders } from '../_shared/cors.ts';
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import {
+  ANSWERED_PROMPT_LIMIT,
+  PromptCategory,
+  PromptContext,
+  PromptContextEntry,
+  RECENT_ENTRY_DAYS,
+  RECENT_ENTRY_LIMIT,
+  buildPromptMessages,
+  cleanPrompt,
+  getCategoryFallbackPrompt,
+  isPromptCategory
+} from '../_shared/prompts.ts';
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 interface PromptRequest {
   name?: string;
   mood?: string;
+  category?: PromptCategory;
   previousPrompts?: string[];
 }
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
+/**
+ * Load what the prompt can draw on: the user's goals, recent readable entries
+ * and the prompts they've already answered. Entries are left out for vault
+ * users, whose writing is never sent to AI, including plaintext entries from
+ * before the vault was turned on. A prompt without any of this is still a
+ * good prompt, so failures here are logged rather than thrown.
+ */
+async function loadPromptHistory(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Pick<PromptContext, 'goals' | 'entries' | 'answeredPrompts'>> {
+  try {
+    const since = new Date(Date.now() - RECENT_ENTRY_DAYS * 86400000).toISOString();
+
+    const { data: vaultKey, error: vaultError } = await supabase
+      .from('user_encryption_keys')
+      .select('user_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (vaultError) throw vaultError;
+
+    const [profileResult, entriesResult, answeredResult] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('prompt_goals')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      vaultKey
+        ? { data: [], error: null }
+        : supabase
+            .from('journal_entries')
+            .select('content, title, tags, primary_emotion, emotion_triggers, created_at')
+            .eq('user_id', userId)
+            .eq('is_encrypted', false)
+            .gte('created_at', since)
+            .order('created_at', { ascending: false })
+            .limit(RECENT_ENTRY_LIMIT),
+      supabase
+        .from('journal_entries')
+        .select('prompt')
+        .eq('user_id', userId)
+        .not('prompt', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(ANSWERED_PROMPT_LIMIT)
+    ]);
+
+    for (const { error } of [profileResult, entriesResult, answeredResult]) {
+      if (error) throw error;
+    }
+
+    return {
+      goals: profileResult.data?.prompt_goals ?? [],
+      entries: (entriesResult.data ?? []) as PromptContextEntry[],
+      answeredPrompts: (answeredResult.data ?? []).map((row: { prompt: string }) => row.prompt)
     };
-  }>;
+  } catch (error) {
+    console.error('Error loading prompt history:', error);
+    return {};
+  }
 }
 
 Deno.serve(async (req: Request) => {
@@ -25,10 +97,14 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Set once a use is counted, so a fallback prompt doesn't cost the user one
+  let refundQuota: (() => Promise<void>) | null = null;
+
   try {
-    // Validate API key - check for existence and non-empty string
-    if (!OPENAI_API_KEY || OPENAI_API_KEY.trim() === '') {
-      throw new Error('OpenAI API key not configured or empty');
+    // Validate AI provider settings
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
     }
 
     // Parse request body (optional)
@@ -43,63 +119,38 @@ Deno.serve(async (req: Request) => {
     }
 
     const { name, mood, previousPrompts = [] } = requestData;
-
-    // Create personalized system prompt
-    const systemPrompt = `You are Zeno, a wise and caring fox companion who helps people with their mental wellness through journaling. Your role is to generate thoughtful, encouraging daily journaling prompts that help users reflect on their experiences, emotions, and growth.
-
-Guidelines for prompts:
-- Keep prompts concise (1-2 sentences max)
-- Use a warm, supportive, and encouraging tone
-- Focus on positive reflection, gratitude, self-discovery, or gentle introspection
-- Avoid overly complex or heavy topics
-- Make prompts accessible and relatable to daily life
-- Encourage mindfulness and self-compassion
-- Vary the themes: gratitude, growth, relationships, achievements, feelings, future hopes, etc.
-
-${name ? `The user's name is ${name}, so you can personalize the prompt if appropriate.` : ''}
-${mood ? `The user's current mood is: ${mood}. Consider this when crafting the prompt.` : ''}
-${previousPrompts.length > 0 ? `Avoid repeating these recent prompts: ${previousPrompts.join(', ')}` : ''}
-
-Generate ONE journaling prompt that would be perfect for today. Return only the prompt text, nothing else.`;
-
-    // Call OpenAI API with trimmed API key
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY.trim()}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: 'Generate a thoughtful journaling prompt for today.'
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.8,
-        top_p: 0.9,
-      }),
-    });
-
-    if (!openaiResponse.ok) {
-      const errorData = await openaiResponse.text();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${openaiResponse.status}`);
-    }
-
-    const openaiData: OpenAIResponse = await openaiResponse.json();
-    
-    if (!openaiData.choices || openaiData.choices.length === 0) {
-      throw new Error('No response from OpenAI');
+    const category = isPromptCategory(requestData.category) ? requestData.category : undefined;
+
+    // Count this use against the signed-in user's free daily limit
+    let quota: FeatureQuota;
+    let history: Awaited<ReturnType<typeof loadPromptHistory>>;
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const user = await requireUser(req, supabase);
+      quota = await requireFeatureQuota(supabase, user.id, 'prompt-generator');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'prompt-generator');
+      history = await loadPromptHistory(supabase, user.id);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
     }
 
-    const generatedPrompt = openaiData.choices[0].message.content.trim();
+    // Call the configured AI provider with what we know about the user
+    const { content } = await completeChat(createLLMProvider(llmConfig), {
+      messages: buildPromptMessages({ name, mood, category, previousPrompts, ...history }),
+      maxTokens: 150,
+      temperature: 0.8,
+      topP: 0.9,
+    }, { ...llmConfig, label: 'generate-prompt' });
+    const generatedPrompt = cleanPrompt(content);
 
     // Fallback prompts in case of API issues
     const fallbackPrompts = [
@@ -116,14 +167,21 @@ Generate ONE journaling prompt that would be perfect for today. Return only the
     ];
 
     // Use generated prompt or fallback
-    const finalPrompt = generatedPrompt || fallbackPrompts[Math.floor(Math.random() * fallbackPrompts.length)];
+    if (!generatedPrompt) {
+      await refundQuota?.();
+    }
+    const finalPrompt = generatedPrompt || (category
+      ? getCategoryFallbackPrompt(category, previousPrompts)
+      : fallbackPrompts[Math.floor(Math.random() * fallbackPrompts.length)]);
 
     // Return the prompt
     return new Response(
       JSON.stringify({
         success: true,
         prompt: finalPrompt,
+        category: category ?? null,
         generated_by: generatedPrompt ? 'ai' : 'fallback',
+        quota,
         timestamp: new Date().toISOString()
       }),
       {
@@ -137,6 +195,7 @@ Generate ONE journaling prompt that would be perfect for today. Return only the
 
   } catch (error) {
     console.error('Error generating prompt:', error);
+    await refundQuota?.();
 
     // Return fallback prompt on error
     const fallbackPrompts = [
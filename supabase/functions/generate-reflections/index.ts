@@ -0,0 +1,271 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { completeChat, createLLMProvider, isLLMConfigured, readLLMConfig } from '../_shared/llm.ts';
+import { isEmailConfigured, sendEmail } from '../_shared/email.ts';
+import {
+  MIN_ENTRIES_FOR_REFLECTION,
+  MoodTrendRow,
+  REFLECTION_PERIODS,
+  ReflectionEntry,
+  ReflectionPeriod,
+  buildMoodArc,
+  buildReflectionEmail,
+  buildReflectionMessages,
+  getMoodDirection,
+  parseReflection
+} from '../_shared/reflections.ts';
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'; // Default for local development
+
+// Keep each run well inside the function time limit; the rest wait for the next hour
+const MAX_USERS_PER_RUN = 20;
+
+// Enough days back from today to cover last month, whatever today is
+const TREND_DAYS_BACK: Record<ReflectionPeriod, number> = { week: 14, month: 62 };
+
+interface DueReflection {
+  user_id: string;
+  user_name: string | null;
+  user_timezone: string;
+  period_start: string;
+  period_end: string;
+  starts_at: string;
+  ends_at: string;
+  email_enabled: boolean;
+}
+
+type ReflectionOutcome = 'created' | 'emailed' | 'skipped';
+
+interface GenerateReflectionsResponse {
+  success: boolean;
+  created?: number;
+  emailed?: number;
+  skipped?: number;
+  failed?: number;
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Write and store one user's reflection, unless they have a vault: entries from
+ * before it was turned on are still plaintext, and vault users were promised
+ * their writing never goes to AI.
+ */
+async function createReflection(
+  supabase: SupabaseClient,
+  llmConfig: ReturnType<typeof readLLMConfig>,
+  period: ReflectionPeriod,
+  due: DueReflection
+): Promise<ReflectionOutcome> {
+  // `get_due_reflections` leaves vault users out; this catches a vault turned on since
+  const { data: vaultKey, error: vaultError } = await supabase
+    .from('user_encryption_keys')
+    .select('user_id')
+    .eq('user_id', due.user_id)
+    .maybeSingle();
+
+  if (vaultError) throw vaultError;
+  if (vaultKey) return 'skipped';
+
+  const { data: entryRows, error: entriesError } = await supabase
+    .from('journal_entries')
+    .select('content, mood, title, tags, primary_emotion, created_at')
+    .eq('user_id', due.user_id)
+    .eq('is_encrypted', false)
+    .gte('created_at', due.starts_at)
+    .lt('created_at', due.ends_at)
+    .order('created_at', { ascending: true });
+
+  if (entriesError) throw entriesError;
+  const entries = (entryRows || []) as ReflectionEntry[];
+
+  const { data: trendRows, error: trendsError } = await supabase.rpc('get_mood_trends', {
+    user_uuid: due.user_id,
+    days_back: TREND_DAYS_BACK[period],
+    user_timezone: due.user_timezone
+  });
+
+  if (trendsError) throw trendsError;
+  const moodArc = buildMoodArc((trendRows || []) as MoodTrendRow[], due.period_start, due.period_end);
+
+  const { content } = await completeChat(createLLMProvider(llmConfig), {
+    messages: buildReflectionMessages(period, entries, moodArc, due.user_name),
+    maxTokens: 500,
+    temperature: 0.6,
+  }, { ...llmConfig, label: 'generate-reflections' });
+
+  const reflection = parseReflection(content);
+  if (!reflection) {
+    throw new Error('Model reply was not a usable reflection');
+  }
+
+  const { data: saved, error: saveError } = await supabase
+    .from('reflections')
+    .upsert({
+      user_id: due.user_id,
+      period,
+      period_start: due.period_start,
+      period_end: due.period_end,
+      ...reflection,
+      mood_arc: moodArc,
+      mood_direction: getMoodDirection(moodArc),
+      entry_count: entries.length,
+    }, { onConflict: 'user_id,period,period_start', ignoreDuplicates: true })
+    .select('id');
+
+  if (saveError) throw saveError;
+
+  // Another run got there first and has already handled the email
+  if (!saved || saved.length === 0 || !due.email_enabled || !isEmailConfigured()) {
+    return 'created';
+  }
+
+  try {
+    const { data } = await supabase.auth.admin.getUserById(due.user_id);
+    const email = data?.user?.email;
+    if (!email) return 'created';
+
+    const greeting = due.user_name ? `Hi ${due.user_name},` : 'Hi,';
+    await sendEmail({ to: email, ...buildReflectionEmail(greeting, period, reflection, `${APP_URL}/home`) });
+
+    await supabase
+      .from('reflections')
+      .update({ emailed_at: new Date().toISOString() })
+      .eq('id', saved[0].id);
+
+    return 'emailed';
+  } catch (emailError) {
+    // The reflection is still in the app
+    console.error(`Error emailing reflection to ${due.user_id}:`, emailError);
+    return 'created';
+  }
+}
+
+/**
+ * Write weekly and monthly reflections for users whose week or month has
+ * just ended in their timezone. Called every hour by the scheduler; pass
+ * `period` to only do one kind.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const llmConfig = readLLMConfig((key) => Deno.env.get(key));
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error('AI provider not configured');
+    }
+
+    // Only the scheduler (using the service role key) may write reflections
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const body = await req.json().catch(() => ({})) as { period?: ReflectionPeriod };
+    const periods = body.period && REFLECTION_PERIODS.includes(body.period) ? [body.period] : REFLECTION_PERIODS;
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let created = 0;
+    let emailed = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const period of periods) {
+      const { data: dueRows, error: dueError } = await supabase.rpc('get_due_reflections', {
+        period_kind: period,
+        min_entries: MIN_ENTRIES_FOR_REFLECTION,
+        max_users: MAX_USERS_PER_RUN
+      });
+
+      if (dueError) {
+        throw new Error(`Failed to load due reflections: ${dueError.message}`);
+      }
+
+      for (const due of (dueRows || []) as DueReflection[]) {
+        try {
+          const outcome = await createReflection(supabase, llmConfig, period, due);
+          if (outcome === 'skipped') {
+            skipped += 1;
+            continue;
+          }
+          if (outcome === 'emailed') {
+            emailed += 1;
+          }
+          created += 1;
+        } catch (error) {
+          // Still due, so the next run tries again
+          failed += 1;
+          console.error(`Failed to write ${period} reflection for ${due.user_id}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    const response: GenerateReflectionsResponse = {
+      success: true,
+      created,
+      emailed,
+      skipped,
+      failed,
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error generating reflections:', error);
+
+    const errorResponse: GenerateReflectionsResponse = {
+      success: false,
+      error: 'Generating reflections failed.',
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -1,6 +1,11 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { FeatureQuota, QuotaError, quotaErrorResponse, refundFeatureQuota, requireFeatureQuota } from '../_shared/quotas.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 
 const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 const VOICE_ID = 'pNInz6obpgDQGcFmaJgB'; // Adam voice - warm, friendly male voice
 
 interface SpeechRequest {
@@ -17,6 +22,7 @@ interface SpeechResponse {
   success: boolean;
   audio_url?: string;
   error?: string;
+  quota?: FeatureQuota;
   timestamp: string;
 }
 
@@ -29,6 +35,9 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Set once a use is counted, so failed speech doesn't cost the user one
+  let refundQuota: (() => Promise<void>) | null = null;
+
   try {
     // Validate API key
     if (!ELEVENLABS_API_KEY) {
@@ -74,6 +83,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Count this use against the signed-in user's free daily limit
+    let quota: FeatureQuota;
+    try {
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('Missing Supabase credentials');
+      }
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const user = await requireUser(req, supabase);
+      quota = await requireFeatureQuota(supabase, user.id, 'voice-synthesis');
+      refundQuota = () => refundFeatureQuota(supabase, user.id, 'voice-synthesis');
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      if (error instanceof QuotaError) {
+        return quotaErrorResponse(error);
+      }
+      throw error;
+    }
+
     // Limit text length to prevent abuse
     const maxLength = 1000;
     const truncatedText = text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
@@ -120,6 +149,7 @@ Deno.serve(async (req: Request) => {
     const response: SpeechResponse = {
       success: true,
       audio_url: audioDataUrl,
+      quota,
       timestamp: new Date().toISOString()
     };
 
@@ -136,6 +166,7 @@ Deno.serve(async (req: Request) => {
 
   } catch (error) {
     console.error('Error generating speech:', error);
+    await refundQuota?.();
 
     // Return error response
     const errorResponse: SpeechResponse = {
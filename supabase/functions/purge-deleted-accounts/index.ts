@@ -0,0 +1,267 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { DeletionStep, isReportComplete, runDeletionStep } from '../_shared/accountDeletion.ts';
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+
+const PHOTO_BUCKET = 'journal-photos';
+const STORAGE_PAGE_SIZE = 100;
+
+// Keep each run well inside the function time limit; the rest wait for tomorrow
+const MAX_ACCOUNTS_PER_RUN = 25;
+
+interface PendingDeletion {
+  user_id: string;
+}
+
+interface PurgeResponse {
+  success: boolean;
+  purged?: number;
+  failed?: number;
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Remove every file in the user's folder of the photo bucket
+ */
+async function purgePhotos(supabase: SupabaseClient, userId: string) {
+  let removed = 0;
+
+  while (true) {
+    const { data: files, error: listError } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .list(userId, { limit: STORAGE_PAGE_SIZE });
+
+    if (listError) throw listError;
+    if (!files || files.length === 0) break;
+
+    const { error: removeError } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .remove(files.map(file => `${userId}/${file.name}`));
+
+    if (removeError) throw removeError;
+    removed += files.length;
+  }
+
+  return removed > 0 ? 'done' : 'skipped';
+}
+
+/**
+ * Delete a table's rows for the user
+ */
+async function deleteRows(supabase: SupabaseClient, table: string, userId: string) {
+  const { error } = await supabase.from(table).delete().eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Permanently delete one account, step by step
+ */
+async function purgeAccount(supabase: SupabaseClient, stripe: Stripe | null, userId: string): Promise<DeletionStep[]> {
+  const report: DeletionStep[] = [];
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('revenuecat_user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const customerId: string | null = profile?.revenuecat_user_id ?? null;
+
+  await runDeletionStep(report, 'photos', () => purgePhotos(supabase, userId));
+
+  await runDeletionStep(report, 'subscription', async () => {
+    if (!customerId) return 'skipped';
+    if (!stripe) throw new Error('Stripe is not configured');
+
+    const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 100 });
+    const open = subscriptions.data.filter(subscription =>
+      subscription.status !== 'canceled' && subscription.status !== 'incomplete_expired'
+    );
+    if (open.length === 0) return 'skipped';
+
+    for (const subscription of open) {
+      await stripe.subscriptions.cancel(subscription.id);
+    }
+  });
+
+  await runDeletionStep(report, 'stripe_customer', async () => {
+    if (!customerId) return 'skipped';
+    if (!stripe) throw new Error('Stripe is not configured');
+
+    try {
+      await stripe.customers.del(customerId);
+    } catch (error) {
+      // Already gone in Stripe
+      if ((error as { code?: string }).code === 'resource_missing') return 'skipped';
+      throw error;
+    }
+  });
+
+  await runDeletionStep(report, 'badges', () => deleteRows(supabase, 'user_badges', userId));
+  await runDeletionStep(report, 'journal_entries', async () => {
+    await deleteRows(supabase, 'reflections', userId);
+    await deleteRows(supabase, 'journal_entries', userId);
+  });
+  await runDeletionStep(report, 'reminders', async () => {
+    await deleteRows(supabase, 'push_subscriptions', userId);
+    await deleteRows(supabase, 'reminder_preferences', userId);
+  });
+  await runDeletionStep(report, 'billing_history', async () => {
+    await deleteRows(supabase, 'subscription_history', userId);
+    await deleteRows(supabase, 'stripe_events', userId);
+  });
+  await runDeletionStep(report, 'rewards', async () => {
+    const { error: referralsError } = await supabase
+      .from('referrals')
+      .delete()
+      .or(`referrer_user_id.eq.${userId},referred_user_id.eq.${userId}`);
+    if (referralsError) throw referralsError;
+
+    // Gift codes stay usable by whoever they were given to
+    const { error: boughtError } = await supabase
+      .from('gift_codes')
+      .update({ purchaser_user_id: null })
+      .eq('purchaser_user_id', userId);
+    if (boughtError) throw boughtError;
+
+    const { error: redeemedError } = await supabase
+      .from('gift_codes')
+      .update({ redeemed_by: null })
+      .eq('redeemed_by', userId);
+    if (redeemedError) throw redeemedError;
+  });
+  await runDeletionStep(report, 'encryption_keys', () => deleteRows(supabase, 'user_encryption_keys', userId));
+  await runDeletionStep(report, 'profile', () => deleteRows(supabase, 'profiles', userId));
+
+  // Only remove the sign-in once everything else is gone, so a failed run can be retried
+  if (isReportComplete(report)) {
+    await runDeletionStep(report, 'account', async () => {
+      const { error } = await supabase.auth.admin.deleteUser(userId);
+      if (error) throw error;
+    });
+  }
+
+  return report;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Only the scheduler (using the service role key) may purge accounts
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = STRIPE_SECRET_KEY ? new Stripe(STRIPE_SECRET_KEY) : null;
+
+    const { data: dueDeletions, error: dueError } = await supabase
+      .from('account_deletions')
+      .select('user_id')
+      .eq('status', 'pending')
+      .lte('purge_after', new Date().toISOString())
+      .order('purge_after', { ascending: true })
+      .limit(MAX_ACCOUNTS_PER_RUN);
+
+    if (dueError) {
+      throw new Error(`Failed to load pending deletions: ${dueError.message}`);
+    }
+
+    let purged = 0;
+    let failed = 0;
+
+    for (const { user_id } of (dueDeletions || []) as PendingDeletion[]) {
+      const report = await purgeAccount(supabase, stripe, user_id);
+      const complete = isReportComplete(report);
+
+      if (complete) {
+        purged += 1;
+      } else {
+        // Stays pending so the next run tries again
+        failed += 1;
+        console.error(`Account ${user_id} was not fully deleted:`, report);
+      }
+
+      const { error: updateError } = await supabase
+        .from('account_deletions')
+        .update(complete
+          ? { status: 'completed', completed_at: new Date().toISOString(), undo_token_hash: null, report }
+          : { report })
+        .eq('user_id', user_id);
+
+      if (updateError) {
+        console.error(`Error recording deletion report for ${user_id}:`, updateError);
+      }
+    }
+
+    const response: PurgeResponse = {
+      success: true,
+      purged,
+      failed,
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error purging deleted accounts:', error);
+
+    const errorResponse: PurgeResponse = {
+      success: false,
+      error: 'Purging deleted accounts failed.',
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,138 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, AuthenticatedUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { CodeError, codeErrorResponse } from '../_shared/rewards.ts';
+import { redeemGiftCode } from '../_shared/rewardCodes.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
+
+// Environment variables
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+interface RedeemGiftRequest {
+  code: string;
+}
+
+/**
+ * Redeems a gift code for the signed-in user. Subscribers get the gift's value
+ * as Stripe account credit; everyone else gets the Premium time straight away.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!STRIPE_SECRET_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Stripe or Supabase credentials are not configured',
+        }),
+        {
+          status: 500,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Method not allowed. Use POST.',
+        }),
+        {
+          status: 405,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Initialize Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const { code }: RedeemGiftRequest = await req.json();
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'A gift code is required',
+        }),
+        {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const stripe = new Stripe(STRIPE_SECRET_KEY);
+
+    try {
+      const credit = await redeemGiftCode(supabase, stripe, user.id, code);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          credit,
+          timestamp: new Date().toISOString(),
+        }),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      if (error instanceof CodeError) {
+        return codeErrorResponse(error);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Unexpected error in redeem-gift-code function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Failed to redeem the gift code. Please try again.',
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
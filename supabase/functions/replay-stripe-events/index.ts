@@ -0,0 +1,172 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { STALE_PROCESSING_MS } from '../_shared/billing.ts';
+import { handleStripeEvent, StripeEventResult } from '../_shared/stripeEvents.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@12.18.0';
+
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+interface ReplayRequest {
+  event_id?: string;
+  limit?: number;
+}
+
+interface ReplayResult {
+  event_id: string;
+  result: StripeEventResult | 'failed';
+  error?: string;
+}
+
+interface ReplayResponse {
+  success: boolean;
+  results?: ReplayResult[];
+  error?: string;
+  timestamp: string;
+}
+
+interface RecordedEvent {
+  id: string;
+  payload: Stripe.Event;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!STRIPE_SECRET_KEY) {
+      throw new Error('Missing Stripe credentials');
+    }
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Method not allowed. Use POST.',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 405,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Only operators (using the service role key) may replay events
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const { event_id, limit }: ReplayRequest = await req.json().catch(() => ({}));
+    const batchSize = Math.min(Math.max(Math.floor(limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: '2023-10-16',
+    });
+
+    // Failed events, plus deliveries that stalled mid-way; oldest first so they apply in order
+    const stalledBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+    let query = supabase
+      .from('stripe_events')
+      .select('id, payload')
+      .order('stripe_created_at', { ascending: true })
+      .limit(batchSize);
+
+    query = event_id
+      ? query.eq('id', event_id)
+      : query.or(`status.eq.failed,and(status.eq.processing,updated_at.lt.${stalledBefore})`);
+
+    const { data: recorded, error: recordedError } = await query;
+
+    if (recordedError) {
+      throw new Error(`Failed to load Stripe events: ${recordedError.message}`);
+    }
+
+    const results: ReplayResult[] = [];
+
+    for (const { id, payload } of (recorded || []) as RecordedEvent[]) {
+      try {
+        // The stored payload was verified when the webhook received it
+        const result = await handleStripeEvent(supabase, stripe, payload);
+        results.push({ event_id: id, result });
+      } catch (error) {
+        console.error(`Replaying Stripe event ${id} failed:`, error);
+        results.push({
+          event_id: id,
+          result: 'failed',
+          error: (error as { message?: string })?.message ?? String(error)
+        });
+      }
+    }
+
+    const response: ReplayResponse = {
+      success: true,
+      results,
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error replaying Stripe events:', error);
+
+    const errorResponse: ReplayResponse = {
+      success: false,
+      error: 'Replaying Stripe events failed.',
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,150 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { hashUndoToken } from '../_shared/accountDeletion.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+
+interface RestoreRequest {
+  token: string;
+}
+
+interface RestoreResponse {
+  success: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+const jsonResponse = (body: RestoreResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+/**
+ * Undo a pending account deletion using the token from the email link.
+ * The user is signed out and can't sign in during the grace period, so the
+ * token is what proves the request came from them.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({
+        success: false,
+        error: 'Method not allowed. Use POST.',
+        timestamp: new Date().toISOString()
+      }, 405);
+    }
+
+    const { token }: RestoreRequest = await req.json();
+
+    if (!token || typeof token !== 'string') {
+      return jsonResponse({
+        success: false,
+        error: 'Restore token is required',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: deletion, error: lookupError } = await supabase
+      .from('account_deletions')
+      .select('user_id, purge_after, stripe_subscription_ids, reminders_were_enabled')
+      .eq('undo_token_hash', await hashUndoToken(token))
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (lookupError) {
+      throw new Error(`Failed to look up deletion: ${lookupError.message}`);
+    }
+
+    if (!deletion || new Date(deletion.purge_after) <= new Date()) {
+      return jsonResponse({
+        success: false,
+        error: 'This restore link has expired or was already used.',
+        timestamp: new Date().toISOString()
+      }, 404);
+    }
+
+    const { error: unbanError } = await supabase.auth.admin.updateUserById(deletion.user_id, {
+      ban_duration: 'none'
+    });
+
+    if (unbanError) {
+      throw new Error(`Failed to re-enable sign in: ${unbanError.message}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('account_deletions')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        undo_token_hash: null
+      })
+      .eq('user_id', deletion.user_id);
+
+    if (updateError) {
+      throw new Error(`Failed to cancel deletion: ${updateError.message}`);
+    }
+
+    // Resume billing we stopped; the user can still manage it from Settings
+    if (STRIPE_SECRET_KEY && deletion.stripe_subscription_ids.length > 0) {
+      const stripe = new Stripe(STRIPE_SECRET_KEY);
+      for (const subscriptionId of deletion.stripe_subscription_ids as string[]) {
+        try {
+          await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+        } catch (stripeError) {
+          console.error(`Failed to resume subscription ${subscriptionId}:`, stripeError);
+        }
+      }
+    }
+
+    if (deletion.reminders_were_enabled) {
+      const { error: remindersError } = await supabase
+        .from('reminder_preferences')
+        .update({ enabled: true })
+        .eq('user_id', deletion.user_id);
+
+      if (remindersError) {
+        console.error('Error turning reminders back on:', remindersError);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      timestamp: new Date().toISOString()
+    }, 200);
+
+  } catch (error) {
+    console.error('Error restoring account:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Restoring your account failed. Please try again.',
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
@@ -0,0 +1,195 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import webpush from 'npm:web-push@3.6.7';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const VAPID_PUBLIC_KEY = Deno.env.get('VAPID_PUBLIC_KEY');
+const VAPID_PRIVATE_KEY = Deno.env.get('VAPID_PRIVATE_KEY');
+const VAPID_SUBJECT = Deno.env.get('VAPID_SUBJECT') || 'mailto:support@zensai.app';
+
+// Matches the cron schedule, so every reminder time falls into exactly one run
+const REMINDER_WINDOW_MINUTES = 15;
+
+interface DueReminder {
+  user_id: string;
+  subscription_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_name: string | null;
+  current_streak: number | null;
+}
+
+interface SendRemindersResponse {
+  success: boolean;
+  sent?: number;
+  failed?: number;
+  removed?: number;
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Build the notification shown by the service worker
+ */
+function buildReminderPayload(reminder: DueReminder): string {
+  const name = reminder.user_name || 'friend';
+  const streak = reminder.current_streak || 0;
+
+  return JSON.stringify({
+    title: 'Time for a moment with Zeno 🦊',
+    body: streak > 1
+      ? `Hi ${name}, a few words today keeps your ${streak}-day streak going.`
+      : `Hi ${name}, how are you feeling today? Zeno is here to listen.`,
+    url: '/home',
+    tag: 'journaling-reminder'
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Only the scheduler (using the service role key) may trigger a send
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: dueReminders, error: dueError } = await supabase
+      .rpc('get_due_reminders', { window_minutes: REMINDER_WINDOW_MINUTES });
+
+    if (dueError) {
+      throw new Error(`Failed to load due reminders: ${dueError.message}`);
+    }
+
+    const reminders = (dueReminders || []) as DueReminder[];
+    const deliveredUserIds = new Set<string>();
+    const deliveredSubscriptionIds: string[] = [];
+    const expiredSubscriptionIds: string[] = [];
+    let failed = 0;
+
+    for (const reminder of reminders) {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: reminder.endpoint,
+            keys: { p256dh: reminder.p256dh, auth: reminder.auth }
+          },
+          buildReminderPayload(reminder),
+          { TTL: 60 * 60 }
+        );
+        deliveredUserIds.add(reminder.user_id);
+        deliveredSubscriptionIds.push(reminder.subscription_id);
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        // The browser dropped this subscription (uninstalled, cleared data, revoked permission)
+        if (statusCode === 404 || statusCode === 410) {
+          expiredSubscriptionIds.push(reminder.subscription_id);
+        } else {
+          failed += 1;
+          console.error(`Failed to send reminder to subscription ${reminder.subscription_id}:`, error);
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+
+    // Mark users as reminded even if only one of their devices got it
+    if (deliveredUserIds.size > 0) {
+      const { error: updateError } = await supabase
+        .from('reminder_preferences')
+        .update({ last_reminder_sent_at: now })
+        .in('user_id', Array.from(deliveredUserIds));
+
+      if (updateError) {
+        console.error('Error recording sent reminders:', updateError);
+      }
+
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_used_at: now })
+        .in('id', deliveredSubscriptionIds);
+    }
+
+    if (expiredSubscriptionIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .in('id', expiredSubscriptionIds);
+
+      if (deleteError) {
+        console.error('Error removing expired subscriptions:', deleteError);
+      }
+    }
+
+    const response: SendRemindersResponse = {
+      success: true,
+      sent: deliveredSubscriptionIds.length,
+      failed,
+      removed: expiredSubscriptionIds.length,
+      timestamp: now
+    };
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+
+    const errorResponse: SendRemindersResponse = {
+      success: false,
+      error: 'Sending reminders failed.',
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { corsHeaders } from '../_shared/cors.ts';
+import { handleStripeEvent } from '../_shared/stripeEvents.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
 import Stripe from 'npm:stripe@12.18.0';
 
@@ -93,130 +94,29 @@ Deno.serve(async (req: Request) => {
     // Initialize Supabase client with service role key
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    // Handle the event
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        
-        // Get the subscription
-        if (session.subscription && session.customer) {
-          const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
-          const customerId = session.customer as string;
-          const userId = session.metadata?.userId;
-          
-          if (!userId) {
-            console.error('No userId found in session metadata');
-            break;
-          }
-          
-          // Determine subscription tier based on the price
-          const priceId = subscription.items.data[0].price.id;
-          const isMonthly = priceId === Deno.env.get('STRIPE_PRICE_ID_MONTHLY');
-          const tier = isMonthly ? 'premium' : 'premium_plus';
-          
-          // Update the user's profile with subscription info
-          const { error: updateError } = await supabase
-            .from('profiles')
-            .update({
-              subscription_status: 'premium',
-              subscription_tier: tier,
-              subscription_expires_at: new Date(subscription.current_period_end * 1000).toISOString(),
-              revenuecat_user_id: customerId,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('user_id', userId);
-          
-          if (updateError) {
-            console.error('Error updating user profile with subscription info:', updateError);
-          }
-        }
-        break;
-      }
-      
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-        
-        // Find the user with this customer ID
-        const { data: profiles, error: profileError } = await supabase
-          .from('profiles')
-          .select('user_id')
-          .eq('revenuecat_user_id', customerId);
-        
-        if (profileError || !profiles || profiles.length === 0) {
-          console.error('Error finding user with customer ID:', profileError || 'No user found');
-          break;
-        }
-        
-        const userId = profiles[0].user_id;
-        
-        // Determine subscription status and tier
-        let status = 'premium';
-        if (subscription.status === 'canceled' || subscription.status === 'unpaid') {
-          status = 'cancelled';
-        } else if (subscription.cancel_at_period_end) {
-          status = 'cancelled'; // Will be cancelled at the end of the period
-        }
-        
-        // Determine subscription tier based on the price
-        const priceId = subscription.items.data[0].price.id;
-        const isMonthly = priceId === Deno.env.get('STRIPE_PRICE_ID_MONTHLY');
-        const tier = isMonthly ? 'premium' : 'premium_plus';
-        
-        // Update the user's profile with subscription info
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({
-            subscription_status: status,
-            subscription_tier: tier,
-            subscription_expires_at: new Date(subscription.current_period_end * 1000).toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', userId);
-        
-        if (updateError) {
-          console.error('Error updating user profile with subscription info:', updateError);
-        }
-        break;
-      }
-      
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-        
-        // Find the user with this customer ID
-        const { data: profiles, error: profileError } = await supabase
-          .from('profiles')
-          .select('user_id')
-          .eq('revenuecat_user_id', customerId);
-        
-        if (profileError || !profiles || profiles.length === 0) {
-          console.error('Error finding user with customer ID:', profileError || 'No user found');
-          break;
-        }
-        
-        const userId = profiles[0].user_id;
-        
-        // Update the user's profile to reflect the cancelled subscription
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({
-            subscription_status: 'expired',
-            subscription_tier: 'free',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', userId);
-        
-        if (updateError) {
-          console.error('Error updating user profile after subscription deletion:', updateError);
+    // Each event is applied once; retries of a handled event are acknowledged
+    const result = await handleStripeEvent(supabase, stripe, event);
+
+    if (result === 'in_progress') {
+      // Another delivery is applying it right now; Stripe will try again later
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Event is already being processed',
+        }),
+        {
+          status: 409,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
         }
-        break;
-      }
+      );
     }
 
     // Return a success response
     return new Response(
-      JSON.stringify({ success: true, received: true }),
+      JSON.stringify({ success: true, received: true, result }),
       {
         status: 200,
         headers: {
@@ -226,6 +126,7 @@ Deno.serve(async (req: Request) => {
       }
     );
   } catch (error) {
+    // Failed events are saved as 'failed'; a 500 makes Stripe retry them
     console.error('Error handling webhook:', error);
     
     return new Response(
@@ -0,0 +1,144 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { AuthError, AuthenticatedUser, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { CodeError, codeErrorResponse } from '../_shared/rewards.ts';
+import { resolveCode } from '../_shared/rewardCodes.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import Stripe from 'npm:stripe@13.2.0';
+
+// Environment variables
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+interface ValidateCodeRequest {
+  code: string;
+}
+
+/**
+ * Checks a promotion, gift or referral code typed at checkout, so the app can
+ * show what it does before the user pays. Nothing is redeemed here.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!STRIPE_SECRET_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Stripe or Supabase credentials are not configured',
+        }),
+        {
+          status: 500,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Method not allowed. Use POST.',
+        }),
+        {
+          status: 405,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Initialize Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let user: AuthenticatedUser;
+    try {
+      user = await requireUser(req, supabase);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+
+    const { code }: ValidateCodeRequest = await req.json();
+
+    if (typeof code !== 'string') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'A code is required',
+        }),
+        {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const stripe = new Stripe(STRIPE_SECRET_KEY);
+
+    try {
+      const resolved = await resolveCode(supabase, stripe, user.id, code);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          // Ids stay on the server; checkout looks the code up again
+          code: {
+            type: resolved.type,
+            code: resolved.code,
+            discount: resolved.type === 'promotion' ? resolved.discount : null,
+            months: resolved.type === 'gift' ? resolved.months : null,
+          },
+          timestamp: new Date().toISOString(),
+        }),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      if (error instanceof CodeError) {
+        return codeErrorResponse(error);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Unexpected error in validate-code function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'An unexpected error occurred',
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,72 @@
+/*
+  # Encrypted Journal Vault
+
+  1. New Tables
+    - `user_encryption_keys`
+      - `user_id` (uuid, primary key, references profiles.user_id)
+      - `passphrase_salt` (text, PBKDF2 salt for the passphrase)
+      - `passphrase_wrapped_key` (text, data key wrapped with the passphrase-derived key)
+      - `recovery_salt` (text, PBKDF2 salt for the recovery key)
+      - `recovery_wrapped_key` (text, data key wrapped with the recovery-key-derived key)
+      - `created_at`, `updated_at` (timestamps)
+    - Only wrapped key material is stored; the server can never unwrap it
+
+  2. Schema Changes
+    - Add `is_encrypted` to `journal_entries` so encrypted rows can be told apart
+      from entries written before the vault was enabled
+    - `mood` and timestamps stay in plaintext so streaks, badges and mood stats keep working
+
+  3. Security
+    - Enable RLS on `user_encryption_keys`
+    - Users can only read and write their own key material
+*/
+
+-- Create encryption keys table
+CREATE TABLE IF NOT EXISTS public.user_encryption_keys (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  passphrase_salt text NOT NULL,
+  passphrase_wrapped_key text NOT NULL,
+  recovery_salt text NOT NULL,
+  recovery_wrapped_key text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Flag encrypted journal entries
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS is_encrypted boolean DEFAULT false NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user_encryption_keys table
+DROP POLICY IF EXISTS "Users can view own encryption keys" ON public.user_encryption_keys;
+CREATE POLICY "Users can view own encryption keys"
+  ON public.user_encryption_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own encryption keys" ON public.user_encryption_keys;
+CREATE POLICY "Users can insert own encryption keys"
+  ON public.user_encryption_keys
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own encryption keys" ON public.user_encryption_keys;
+CREATE POLICY "Users can update own encryption keys"
+  ON public.user_encryption_keys
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current when the passphrase is changed
+DROP TRIGGER IF EXISTS handle_user_encryption_keys_updated_at ON public.user_encryption_keys;
+CREATE TRIGGER handle_user_encryption_keys_updated_at
+  BEFORE UPDATE ON public.user_encryption_keys
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create index for filtering encrypted entries
+CREATE INDEX IF NOT EXISTS idx_journal_entries_is_encrypted ON public.journal_entries(user_id, is_encrypted);
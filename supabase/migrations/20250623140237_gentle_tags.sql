@@ -0,0 +1,69 @@
+/*
+  # Journal Entry Tags
+
+  1. Schema Changes
+    - Add `tags` (text[]) to `journal_entries`, defaulting to an empty array
+    - Tags are stored lowercase without a leading `#`, at most 10 per entry
+      and 32 characters per tag
+    - GIN index on `tags` so filtering by tag stays fast
+
+  2. New Functions
+    - `get_user_tags(user_uuid)` returns every tag a user has used with its
+      entry count, for autocomplete and the history tag filter
+
+  3. Security
+    - Tags live on `journal_entries`, so the existing RLS policies apply
+    - `get_user_tags` only returns tags for the calling user
+*/
+
+-- Add tags column
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}'::text[] NOT NULL;
+
+-- Keep tags bounded and normalized
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'journal_entries_tags_check'
+    AND table_name = 'journal_entries'
+  ) THEN
+    ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_tags_check
+    CHECK (
+      cardinality(tags) <= 10
+      AND array_to_string(tags, ',') ~ '^([a-z0-9_-]{1,32}(,|$))*$'
+    );
+  END IF;
+END $$;
+
+-- Index for tag filtering
+CREATE INDEX IF NOT EXISTS idx_journal_entries_tags ON public.journal_entries USING GIN (tags);
+
+-- Function to list a user's tags with usage counts
+CREATE OR REPLACE FUNCTION get_user_tags(user_uuid uuid)
+RETURNS TABLE (
+  tag text,
+  entry_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to read tags for this user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.tag,
+    COUNT(*) AS entry_count
+  FROM journal_entries je
+  CROSS JOIN LATERAL unnest(je.tags) AS t(tag)
+  WHERE je.user_id = user_uuid
+  GROUP BY t.tag
+  ORDER BY entry_count DESC, t.tag ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_tags(uuid) TO authenticated;
@@ -0,0 +1,113 @@
+/*
+  # Full-Text Search for Journal Entries
+
+  1. Schema Changes
+    - Add generated `search_vector` (tsvector) to `journal_entries`
+      - Title is weighted above content so title matches rank first
+      - Encrypted vault entries get an empty vector, since the server only has ciphertext
+    - GIN index on `search_vector`
+
+  2. New Functions
+    - `search_journal_entries(user_uuid, search_query, result_limit, result_offset)`
+      - Accepts web search syntax: "exact phrases", -excluded words and OR
+      - Returns matching entries ranked by relevance with a highlighted content snippet
+      - Free accounts search the same 30-day window they can browse; premium accounts
+        search their full history
+
+  3. Security
+    - `search_journal_entries` only searches the calling user's entries
+*/
+
+-- Searchable text for each entry
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  CASE
+    WHEN is_encrypted THEN ''::tsvector
+    ELSE
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  END
+) STORED;
+
+-- Index for full-text search
+CREATE INDEX IF NOT EXISTS idx_journal_entries_search ON public.journal_entries USING GIN (search_vector);
+
+-- Function to search a user's journal
+CREATE OR REPLACE FUNCTION search_journal_entries(
+  user_uuid uuid,
+  search_query text,
+  result_limit integer DEFAULT 50,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  content text,
+  mood text,
+  tags text[],
+  photo_url text,
+  photo_filename text,
+  is_encrypted boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  query tsquery;
+  user_is_premium boolean;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to search entries for this user';
+  END IF;
+
+  query := websearch_to_tsquery('english', coalesce(search_query, ''));
+
+  -- Queries made only of stop words (or empty) match nothing
+  IF numnode(query) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    p.subscription_status = 'premium'
+    AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now())
+  INTO user_is_premium
+  FROM profiles p
+  WHERE p.user_id = user_uuid;
+
+  RETURN QUERY
+  SELECT
+    je.id,
+    je.user_id,
+    je.title,
+    je.content,
+    je.mood,
+    je.tags,
+    je.photo_url,
+    je.photo_filename,
+    je.is_encrypted,
+    je.created_at,
+    je.updated_at,
+    ts_rank_cd(je.search_vector, query) AS rank,
+    ts_headline(
+      'english',
+      je.content,
+      query,
+      'StartSel="[[hl]]", StopSel="[[/hl]]", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND je.search_vector @@ query
+    AND (coalesce(user_is_premium, false) OR je.created_at > now() - interval '30 days')
+  ORDER BY ts_rank_cd(je.search_vector, query) DESC, je.created_at DESC, je.id DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 100)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_journal_entries(uuid, text, integer, integer) TO authenticated;
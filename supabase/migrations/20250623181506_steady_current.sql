@@ -0,0 +1,18 @@
+/*
+  # Keyset Pagination Index for Journal Entries
+
+  1. Indexes
+    - Add `(user_id, created_at DESC, id DESC)` on `journal_entries`
+      - Matches the order the app pages through history, so each page is an index
+        range scan no matter how many entries come before it
+      - `id` breaks ties between entries saved in the same instant
+    - Drop `idx_journal_entries_date_range`, which the new index covers
+
+  2. Security
+    - No policy changes
+*/
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_keyset
+ON public.journal_entries (user_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS public.idx_journal_entries_date_range;
@@ -0,0 +1,158 @@
+/*
+  # Advanced Analytics Functions
+
+  1. Fixed Functions
+    - `get_mood_trends(user_uuid, days_back, user_timezone)`
+      - The date filter built the interval with `'%s days' % days_back`, which is not valid SQL,
+        so every call failed
+      - `days_back` may now be NULL for the user's whole history
+      - Days are grouped in the user's timezone (defaults to UTC, so existing two-argument
+        calls keep working)
+      - Only the calling user's trends are returned
+
+  2. New Functions
+    - `get_mood_patterns(user_uuid, days_back, user_timezone)`
+      - Entry counts and average mood by day of week and hour of day, in the user's timezone
+      - Feeds the day-of-week / time-of-day heatmap
+    - `get_entry_length_trends(user_uuid, days_back, user_timezone)`
+      - Average words per entry by day
+      - Encrypted vault entries are skipped since their stored length says nothing about the text
+
+  3. Security
+    - All functions check that the caller is the user being queried
+
+  Ranges count calendar days in the user's timezone, so a 7 day range is today and the six
+  days before it.
+*/
+
+-- Fix mood trends date filter and allow all-time ranges
+DROP FUNCTION IF EXISTS get_mood_trends(uuid, integer);
+
+CREATE OR REPLACE FUNCTION get_mood_trends(
+  user_uuid uuid,
+  days_back integer DEFAULT 30,
+  user_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  date_created date,
+  mood_level text,
+  entry_count bigint,
+  avg_mood_numeric numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to read trends for this user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (je.created_at AT TIME ZONE user_timezone)::date as date_created,
+    je.mood as mood_level,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND (
+      days_back IS NULL
+      OR (je.created_at AT TIME ZONE user_timezone)::date > (now() AT TIME ZONE user_timezone)::date - days_back
+    )
+  GROUP BY 1, 2
+  ORDER BY 1 DESC;
+END;
+$$;
+
+-- Function to get mood by day of week and hour of day
+CREATE OR REPLACE FUNCTION get_mood_patterns(
+  user_uuid uuid,
+  days_back integer DEFAULT 30,
+  user_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day_of_week integer,
+  hour_of_day integer,
+  entry_count bigint,
+  avg_mood_numeric numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to read patterns for this user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    EXTRACT(DOW FROM je.created_at AT TIME ZONE user_timezone)::integer as day_of_week,
+    EXTRACT(HOUR FROM je.created_at AT TIME ZONE user_timezone)::integer as hour_of_day,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND (
+      days_back IS NULL
+      OR (je.created_at AT TIME ZONE user_timezone)::date > (now() AT TIME ZONE user_timezone)::date - days_back
+    )
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- Function to get average entry length over time
+CREATE OR REPLACE FUNCTION get_entry_length_trends(
+  user_uuid uuid,
+  days_back integer DEFAULT 30,
+  user_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  date_created date,
+  entry_count bigint,
+  avg_word_count numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to read entry lengths for this user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (je.created_at AT TIME ZONE user_timezone)::date as date_created,
+    COUNT(*) as entry_count,
+    ROUND(AVG(cardinality(regexp_split_to_array(trim(je.content), '\s+'))), 1) as avg_word_count
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND NOT je.is_encrypted
+    AND (
+      days_back IS NULL
+      OR (je.created_at AT TIME ZONE user_timezone)::date > (now() AT TIME ZONE user_timezone)::date - days_back
+    )
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mood_trends(uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mood_patterns(uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_entry_length_trends(uuid, integer, text) TO authenticated;
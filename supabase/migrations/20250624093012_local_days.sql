@@ -0,0 +1,246 @@
+/*
+  # Evaluate Streaks and Goals in the User's Local Day
+
+  1. Profile Changes
+    - Add `timezone` to `profiles` (IANA name such as `America/New_York`, default `UTC`)
+      - The app captures it from the browser
+      - Must be a timezone Postgres knows, checked by `is_valid_timezone`
+
+  2. New Functions
+    - `is_valid_timezone(tz)` - Whether `tz` can be used with `AT TIME ZONE`
+    - `user_local_date(ts, tz)` - Calendar day of a timestamp in the given timezone
+
+  3. Updated Functions
+    - `update_streak_on_entry()`
+      - Entry days are taken in the user's timezone instead of the database's UTC, so writing
+        in the evening in the Americas or the morning in Asia counts for the right day
+      - An entry dated before the last entry day no longer resets the streak
+    - `check_and_award_badges(target_user_id)`
+      - Weekly goals count local days in the user's current local week (Monday start)
+
+  4. Security
+    - No policy changes; users can already update their own profile row
+*/
+
+-- Validate timezone names without a subquery so the check can live on the column
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(tz text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE tz;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_local_date(ts timestamptz, tz text)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (ts AT TIME ZONE COALESCE(tz, 'UTC'))::date;
+$$;
+
+-- Add timezone to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN timezone text DEFAULT 'UTC'::text NOT NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_timezone_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_timezone_check CHECK (public.is_valid_timezone(timezone));
+  END IF;
+END $$;
+
+-- Streaks by local day
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  current_streak_val integer;
+  best_streak_val integer;
+  user_timezone text;
+BEGIN
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, best_streak, timezone
+  INTO last_date, current_streak_val, best_streak_val, user_timezone
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Get the date of the new entry in the user's timezone
+  entry_date := public.user_local_date(NEW.created_at, user_timezone);
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date <= last_date THEN
+    -- Same day (or an earlier day after a timezone change), no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + 1 THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    -- Gap in entries, reset streak
+    current_streak_val := 1;
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Weekly goals by local week
+CREATE OR REPLACE FUNCTION public.check_and_award_badges(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  badge_record RECORD;
+  user_profile RECORD;
+  entry_count INTEGER;
+  streak_count INTEGER;
+  weekly_days_count INTEGER;
+  subscription_status TEXT;
+  subscription_tier TEXT;
+  local_week_start DATE;
+BEGIN
+  -- Get user profile for reference
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Get subscription status and tier
+  subscription_status := user_profile.subscription_status;
+  subscription_tier := user_profile.subscription_tier;
+
+  -- Monday of the user's current local week
+  local_week_start := DATE_TRUNC('week', public.user_local_date(now(), user_profile.timezone))::date;
+
+  -- Loop through all badges to check criteria
+  FOR badge_record IN SELECT * FROM public.badges LOOP
+    -- Skip if user already has this badge
+    IF EXISTS(SELECT 1 FROM public.user_badges WHERE user_id = target_user_id AND badge_id = badge_record.id) THEN
+      CONTINUE;
+    END IF;
+
+    -- Check badge criteria based on type
+    CASE
+      -- First entry milestone
+      WHEN badge_record.criteria->>'type' = 'first_entry' THEN
+        IF EXISTS(SELECT 1 FROM public.journal_entries WHERE user_id = target_user_id LIMIT 1) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Entry count milestones
+      WHEN badge_record.criteria->>'type' = 'entry_count' THEN
+        SELECT COUNT(*) INTO entry_count FROM public.journal_entries WHERE user_id = target_user_id;
+        IF entry_count >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Streak milestones
+      WHEN badge_record.criteria->>'type' = 'streak' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Weekly goal achievement
+      WHEN badge_record.criteria->>'type' = 'weekly_goal' THEN
+        -- Count unique local days journaled this local week
+        WITH week_entries AS (
+          SELECT DISTINCT public.user_local_date(created_at, user_profile.timezone) as entry_date
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          -- Coarse UTC bound (a day either side covers every offset) so the index is still used
+          AND created_at >= local_week_start - INTERVAL '1 day'
+          AND created_at < local_week_start + INTERVAL '8 days'
+        )
+        SELECT COUNT(*) INTO weekly_days_count
+        FROM week_entries
+        WHERE entry_date >= local_week_start
+        AND entry_date < local_week_start + 7;
+
+        -- Award badge if weekly goal is met
+        IF weekly_days_count >= user_profile.journaling_goal_frequency THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Long entry achievement
+      WHEN badge_record.criteria->>'type' = 'long_entry' THEN
+        IF EXISTS(
+          SELECT 1 FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND LENGTH(content) >= (badge_record.criteria->>'min_length')::integer
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Mood diversity achievement
+      WHEN badge_record.criteria->>'type' = 'mood_diversity' THEN
+        IF (
+          SELECT COUNT(DISTINCT mood)
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+        ) >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Subscription badges
+      WHEN badge_record.criteria->>'type' = 'subscription' THEN
+        IF subscription_status = 'premium' AND (
+          (badge_record.criteria->>'tier')::text = subscription_tier OR
+          (badge_record.criteria->>'tier')::text = 'premium' AND subscription_tier IN ('premium', 'premium_plus')
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      ELSE
+        -- Skip other complex criteria for now
+        CONTINUE;
+    END CASE;
+  END LOOP;
+
+  -- Update total badges count
+  UPDATE public.profiles
+  SET total_badges_earned = (
+    SELECT COUNT(*) FROM public.user_badges WHERE user_id = target_user_id
+  )
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_and_award_badges(uuid) TO authenticated;
@@ -0,0 +1,170 @@
+/*
+  # Streak Freezes
+
+  1. Profile Changes
+    - `streak_freezes` (integer, 0-5) - Freezes the user has banked
+    - `streak_freezes_granted_on` (date) - Last monthly premium top-up
+    - `last_streak_freeze_used_on` (date) - Last missed day a freeze covered
+
+  2. Rules (applied in `update_streak_on_entry`)
+    - Every 7 days of a streak earns one freeze, up to 2 banked (5 for premium)
+    - Premium members are topped up to 2 freezes at their first entry each month
+    - When the user comes back after missing days, one freeze is used per missed day and the
+      streak carries on; if they don't have enough, the streak resets as before
+    - Frozen days keep a streak alive but don't add to its length
+
+  3. Badges
+    - Streak badges and progress already read `current_streak`, which now survives covered
+      gaps, so no badge changes are needed
+
+  4. Security
+    - Freeze columns are only changed by the trigger; users can't grant themselves freezes
+*/
+
+-- Add streak freeze columns to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'streak_freezes'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN streak_freezes integer DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'streak_freezes_granted_on'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN streak_freezes_granted_on date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'last_streak_freeze_used_on'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN last_streak_freeze_used_on date;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_streak_freezes_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_streak_freezes_check CHECK (streak_freezes >= 0 AND streak_freezes <= 5);
+  END IF;
+END $$;
+
+-- Keep freeze columns out of reach of direct profile updates from the app
+CREATE OR REPLACE FUNCTION public.protect_streak_freezes()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.streak_freezes := OLD.streak_freezes;
+    NEW.streak_freezes_granted_on := OLD.streak_freezes_granted_on;
+    NEW.last_streak_freeze_used_on := OLD.last_streak_freeze_used_on;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_streak_freezes ON public.profiles;
+
+CREATE TRIGGER protect_streak_freezes
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_streak_freezes();
+
+-- Streaks with freezes
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  current_streak_val integer;
+  best_streak_val integer;
+  user_timezone text;
+  freezes_val integer;
+  freezes_granted_on date;
+  freeze_used_on date;
+  is_premium boolean;
+  freeze_cap integer;
+  missed_days integer;
+BEGIN
+  -- Get current profile data
+  SELECT
+    last_entry_date, current_streak, best_streak, timezone,
+    streak_freezes, streak_freezes_granted_on, last_streak_freeze_used_on,
+    subscription_status = 'premium'
+  INTO
+    last_date, current_streak_val, best_streak_val, user_timezone,
+    freezes_val, freezes_granted_on, freeze_used_on,
+    is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Get the date of the new entry in the user's timezone
+  entry_date := public.user_local_date(NEW.created_at, user_timezone);
+  freeze_cap := CASE WHEN is_premium THEN 5 ELSE 2 END;
+
+  -- Premium monthly top-up, before any freezes are needed for this entry
+  IF is_premium AND (
+    freezes_granted_on IS NULL OR freezes_granted_on < DATE_TRUNC('month', entry_date)::date
+  ) THEN
+    freezes_val := GREATEST(freezes_val, 2);
+    freezes_granted_on := entry_date;
+  END IF;
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date <= last_date THEN
+    -- Same day (or an earlier day after a timezone change), no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + 1 THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    missed_days := entry_date - last_date - 1;
+
+    IF current_streak_val > 0 AND missed_days <= freezes_val THEN
+      -- Cover every missed day with a freeze and carry the streak on
+      freezes_val := freezes_val - missed_days;
+      freeze_used_on := entry_date - 1;
+      current_streak_val := current_streak_val + 1;
+    ELSE
+      -- Gap in entries, reset streak
+      current_streak_val := 1;
+    END IF;
+  END IF;
+
+  -- Earn a freeze for every full week of streak
+  IF current_streak_val % 7 = 0 THEN
+    freezes_val := LEAST(freezes_val + 1, freeze_cap);
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date,
+    streak_freezes = freezes_val,
+    streak_freezes_granted_on = freezes_granted_on,
+    last_streak_freeze_used_on = freeze_used_on
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,235 @@
+/*
+  # Journaling Reminders and Web Push
+
+  1. New Tables
+    - `reminder_preferences` - One row per user
+      - `enabled` (boolean) - Master switch, off until the user subscribes a device
+      - `reminder_times` (time[]) - Local times to remind at, up to 3
+      - `days_of_week` (smallint[]) - Days to remind on, 0 = Sunday
+      - `quiet_hours_start` / `quiet_hours_end` (time) - No reminders between these local
+        times; the range may wrap past midnight
+      - `last_reminder_sent_at` (timestamptz) - So each reminder time is only sent once a day
+    - `push_subscriptions` - Web Push endpoints, one per browser/device
+      - `endpoint` (text, unique), `p256dh` and `auth` (keys from the browser)
+
+  2. New Functions
+    - `get_due_reminders(window_minutes)` - Subscriptions that should get a reminder now:
+      reminders on, today is a reminder day, a reminder time passed within the window and
+      hasn't been sent, the user hasn't journaled today and it isn't quiet hours, all in the
+      user's own timezone. Only callable with the service role.
+
+  3. Scheduling
+    - When `pg_cron` and `pg_net` are available, `send-reminders` is called every 15 minutes.
+      The call reads `project_url` and `service_role_key` from Vault at run time.
+
+  4. Security
+    - Enable RLS on both tables; users manage only their own rows
+*/
+
+-- Create reminder_preferences table
+CREATE TABLE IF NOT EXISTS public.reminder_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled boolean DEFAULT false NOT NULL,
+  reminder_times time[] DEFAULT ARRAY['20:00'::time] NOT NULL,
+  days_of_week smallint[] DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[] NOT NULL,
+  quiet_hours_start time,
+  quiet_hours_end time,
+  last_reminder_sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'reminder_preferences' AND constraint_name = 'reminder_preferences_times_check'
+  ) THEN
+    ALTER TABLE public.reminder_preferences
+    ADD CONSTRAINT reminder_preferences_times_check CHECK (cardinality(reminder_times) <= 3);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'reminder_preferences' AND constraint_name = 'reminder_preferences_days_check'
+  ) THEN
+    ALTER TABLE public.reminder_preferences
+    ADD CONSTRAINT reminder_preferences_days_check
+    CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'reminder_preferences' AND constraint_name = 'reminder_preferences_quiet_hours_check'
+  ) THEN
+    ALTER TABLE public.reminder_preferences
+    ADD CONSTRAINT reminder_preferences_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+  END IF;
+END $$;
+
+-- Create push_subscriptions table
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_reminder_preferences_enabled
+ON public.reminder_preferences(user_id) WHERE enabled;
+
+-- Enable Row Level Security
+ALTER TABLE public.reminder_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reminder preferences" ON public.reminder_preferences;
+CREATE POLICY "Users can view own reminder preferences"
+  ON public.reminder_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own reminder preferences" ON public.reminder_preferences;
+CREATE POLICY "Users can insert own reminder preferences"
+  ON public.reminder_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own reminder preferences" ON public.reminder_preferences;
+CREATE POLICY "Users can update own reminder preferences"
+  ON public.reminder_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can view own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can insert own push subscriptions"
+  ON public.push_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can update own push subscriptions"
+  ON public.push_subscriptions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can delete own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS handle_reminder_preferences_updated_at ON public.reminder_preferences;
+CREATE TRIGGER handle_reminder_preferences_updated_at
+  BEFORE UPDATE ON public.reminder_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to find reminders that are due now
+CREATE OR REPLACE FUNCTION public.get_due_reminders(window_minutes integer DEFAULT 15)
+RETURNS TABLE (
+  user_id uuid,
+  subscription_id uuid,
+  endpoint text,
+  p256dh text,
+  auth text,
+  user_name text,
+  current_streak integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH local_clock AS (
+    SELECT
+      rp.user_id,
+      rp.reminder_times,
+      rp.days_of_week,
+      rp.quiet_hours_start,
+      rp.quiet_hours_end,
+      rp.last_reminder_sent_at AT TIME ZONE p.timezone as last_sent_local,
+      now() AT TIME ZONE p.timezone as local_now,
+      p.last_entry_date,
+      p.name,
+      p.current_streak
+    FROM public.reminder_preferences rp
+    JOIN public.profiles p ON p.user_id = rp.user_id
+    WHERE rp.enabled
+  ),
+  due_users AS (
+    SELECT lc.*
+    FROM local_clock lc
+    WHERE EXTRACT(DOW FROM lc.local_now)::smallint = ANY(lc.days_of_week)
+      -- Already journaled today, nothing to remind about
+      AND lc.last_entry_date IS DISTINCT FROM lc.local_now::date
+      -- Outside quiet hours (the range may wrap past midnight)
+      AND NOT COALESCE(
+        CASE
+          WHEN lc.quiet_hours_start <= lc.quiet_hours_end THEN
+            lc.local_now::time >= lc.quiet_hours_start AND lc.local_now::time < lc.quiet_hours_end
+          ELSE
+            lc.local_now::time >= lc.quiet_hours_start OR lc.local_now::time < lc.quiet_hours_end
+        END,
+        false
+      )
+      -- A reminder time passed within the window and hasn't been sent yet
+      AND EXISTS (
+        SELECT 1
+        FROM unnest(lc.reminder_times) AS reminder_time
+        WHERE lc.local_now::date + reminder_time <= lc.local_now
+          AND lc.local_now::date + reminder_time > lc.local_now - make_interval(mins => window_minutes)
+          AND (lc.last_sent_local IS NULL OR lc.last_sent_local < lc.local_now::date + reminder_time)
+      )
+  )
+  SELECT
+    du.user_id,
+    ps.id as subscription_id,
+    ps.endpoint,
+    ps.p256dh,
+    ps.auth,
+    du.name as user_name,
+    du.current_streak
+  FROM due_users du
+  JOIN public.push_subscriptions ps ON ps.user_id = du.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_due_reminders(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_reminders(integer) TO service_role;
+
+-- Call send-reminders every 15 minutes where cron and outbound HTTP are available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-journaling-reminders',
+      '*/15 * * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/send-reminders',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,86 @@
+/*
+  # Account Deletion Grace Period
+
+  1. New Tables
+    - `account_deletions` - One row per deletion request
+      - `status` (text) - 'pending' during the grace period, then 'completed', or
+        'cancelled' if the user undid it
+      - `purge_after` (timestamptz) - When the account is permanently deleted
+      - `undo_token_hash` (text) - SHA-256 of the token in the undo email link
+      - `stripe_subscription_ids` (text[]) - Subscriptions set to cancel, resumed on undo
+      - `reminders_were_enabled` (boolean) - Reminders paused during the grace period
+      - `report` (jsonb) - Outcome of each deletion step
+    - No foreign key to `auth.users`, so the record of a completed deletion outlives the account
+
+  2. Scheduling
+    - When `pg_cron` and `pg_net` are available, `purge-deleted-accounts` runs daily and
+      permanently deletes accounts whose grace period has ended
+
+  3. Security
+    - Enable RLS with no policies; only edge functions using the service role touch this table
+*/
+
+-- Create account_deletions table
+CREATE TABLE IF NOT EXISTS public.account_deletions (
+  user_id uuid PRIMARY KEY,
+  status text DEFAULT 'pending' NOT NULL,
+  requested_at timestamptz DEFAULT now() NOT NULL,
+  purge_after timestamptz NOT NULL,
+  undo_token_hash text,
+  stripe_subscription_ids text[] DEFAULT '{}'::text[] NOT NULL,
+  reminders_were_enabled boolean DEFAULT false NOT NULL,
+  report jsonb DEFAULT '[]'::jsonb NOT NULL,
+  cancelled_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'account_deletions' AND constraint_name = 'account_deletions_status_check'
+  ) THEN
+    ALTER TABLE public.account_deletions
+    ADD CONSTRAINT account_deletions_status_check
+    CHECK (status IN ('pending', 'cancelled', 'completed'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletions_undo_token_hash
+ON public.account_deletions(undo_token_hash) WHERE undo_token_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_pending
+ON public.account_deletions(purge_after) WHERE status = 'pending';
+
+-- Enable Row Level Security (service role only)
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS handle_account_deletions_updated_at ON public.account_deletions;
+CREATE TRIGGER handle_account_deletions_updated_at
+  BEFORE UPDATE ON public.account_deletions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Purge accounts past their grace period once a day where cron and outbound HTTP are available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'purge-deleted-accounts',
+      '30 3 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/purge-deleted-accounts',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
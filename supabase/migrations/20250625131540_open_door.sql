@@ -0,0 +1,145 @@
+/*
+  # Journal Imports
+
+  1. Schema Changes
+    - `journal_entries.import_source` (text) - App an entry was imported from
+      ('dayone', 'daylio' or 'markdown'); null for entries written in Zensai
+    - `journal_entries.import_key` (text) - Stable id of the entry in its source
+      file, unique per user so importing the same file twice adds nothing
+
+  2. Streaks
+    - `update_streak_on_entry` ignores imported entries. They keep their original
+      `created_at`, and replaying years of history through the trigger would
+      overwrite the current streak and `last_entry_date`
+    - Entry-count badges catch up at the user's next regular entry
+
+  3. Security
+    - Imports are inserted by the user through the existing RLS policies
+*/
+
+-- Add import columns
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS import_source text;
+
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS import_key text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'journal_entries_import_source_check'
+    AND table_name = 'journal_entries'
+  ) THEN
+    ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_import_source_check
+    CHECK (import_source IS NULL OR import_source IN ('dayone', 'daylio', 'markdown'));
+  END IF;
+
+  -- Regular entries have no key, and NULLs never conflict
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'journal_entries_user_import_key_key'
+    AND table_name = 'journal_entries'
+  ) THEN
+    ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_user_import_key_key UNIQUE (user_id, import_key);
+  END IF;
+END $$;
+
+-- Streaks without imported entries
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  current_streak_val integer;
+  best_streak_val integer;
+  user_timezone text;
+  freezes_val integer;
+  freezes_granted_on date;
+  freeze_used_on date;
+  is_premium boolean;
+  freeze_cap integer;
+  missed_days integer;
+BEGIN
+  -- Imported entries keep their original dates and never change the streak
+  IF NEW.import_source IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get current profile data
+  SELECT
+    last_entry_date, current_streak, best_streak, timezone,
+    streak_freezes, streak_freezes_granted_on, last_streak_freeze_used_on,
+    subscription_status = 'premium'
+  INTO
+    last_date, current_streak_val, best_streak_val, user_timezone,
+    freezes_val, freezes_granted_on, freeze_used_on,
+    is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Get the date of the new entry in the user's timezone
+  entry_date := public.user_local_date(NEW.created_at, user_timezone);
+  freeze_cap := CASE WHEN is_premium THEN 5 ELSE 2 END;
+
+  -- Premium monthly top-up, before any freezes are needed for this entry
+  IF is_premium AND (
+    freezes_granted_on IS NULL OR freezes_granted_on < DATE_TRUNC('month', entry_date)::date
+  ) THEN
+    freezes_val := GREATEST(freezes_val, 2);
+    freezes_granted_on := entry_date;
+  END IF;
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date <= last_date THEN
+    -- Same day (or an earlier day after a timezone change), no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + 1 THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    missed_days := entry_date - last_date - 1;
+
+    IF current_streak_val > 0 AND missed_days <= freezes_val THEN
+      -- Cover every missed day with a freeze and carry the streak on
+      freezes_val := freezes_val - missed_days;
+      freeze_used_on := entry_date - 1;
+      current_streak_val := current_streak_val + 1;
+    ELSE
+      -- Gap in entries, reset streak
+      current_streak_val := 1;
+    END IF;
+  END IF;
+
+  -- Earn a freeze for every full week of streak
+  IF current_streak_val % 7 = 0 THEN
+    freezes_val := LEAST(freezes_val + 1, freeze_cap);
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date,
+    streak_freezes = freezes_val,
+    streak_freezes_granted_on = freezes_granted_on,
+    last_streak_freeze_used_on = freeze_used_on
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,62 @@
+/*
+  # Failed Payments and Grace Periods
+
+  1. Profile Changes
+    - `payment_status` (text, 'ok' or 'past_due') - Whether the latest renewal failed
+    - `payment_failed_at` (timestamptz) - First failed renewal of the current problem
+    - `grace_period_ends_at` (timestamptz) - When premium stops if the card isn't fixed
+    - `trial_ends_at` (timestamptz) - End of a running free trial
+
+  2. Rules (applied by `stripe-webhook`)
+    - A failed renewal keeps `subscription_status` at 'premium' for 7 days and moves
+      `subscription_expires_at` to the end of that grace period, so every existing
+      premium check turns premium off when it runs out
+    - A paid invoice clears the past-due state and restores the renewal date
+    - Stripe cancelling or marking the subscription unpaid ends premium as before
+
+  3. Security
+    - Written by the webhook with the service role; users can read their own profile
+*/
+
+-- Add billing columns to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'payment_status'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN payment_status text DEFAULT 'ok' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'payment_failed_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN payment_failed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'grace_period_ends_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN grace_period_ends_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'trial_ends_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN trial_ends_at timestamptz;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_payment_status_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_payment_status_check CHECK (payment_status IN ('ok', 'past_due'));
+  END IF;
+END $$;
@@ -0,0 +1,125 @@
+/*
+  # Stripe Event Log and Subscription History
+
+  1. New Tables
+    - `stripe_events` - Every webhook event Stripe has delivered, keyed by event ID
+      - `status` (text) - 'processing', 'processed', 'skipped' (nothing to change, or
+        older than what's already applied) or 'failed'
+      - `attempts` (integer) - Deliveries and replays that tried to apply it
+      - `detail` (text) - Why it was skipped, or why the latest attempt failed
+      - `payload` (jsonb) - The event as received, so failed events can be replayed
+    - `subscription_history` - What happened to each user's subscription, for Settings
+      - `kind` (text) - 'started', 'renewed', 'plan_changed', 'cancelled', 'resumed',
+        'payment_failed', 'payment_recovered', 'trial_ending' or 'ended'
+      - `stripe_event_id` (text, unique) - The event that recorded it, so replays don't
+        add it twice
+
+  2. Profile Changes
+    - `billing_period_end` (timestamptz) - `current_period_end` of the newest applied event
+    - `billing_event_at` (timestamptz) - When Stripe created the newest applied event
+    Events for an earlier period, or older events for the same period, are skipped so a
+    late retry can't undo a renewal.
+
+  3. Security
+    - Enable RLS on both tables
+    - `stripe_events` is only used with the service role
+    - Users can read their own subscription history
+*/
+
+-- Create stripe_events table
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  stripe_created_at timestamptz NOT NULL,
+  customer_id text,
+  user_id uuid,
+  status text DEFAULT 'processing' NOT NULL,
+  attempts integer DEFAULT 1 NOT NULL,
+  detail text,
+  payload jsonb NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'stripe_events' AND constraint_name = 'stripe_events_status_check'
+  ) THEN
+    ALTER TABLE public.stripe_events
+    ADD CONSTRAINT stripe_events_status_check
+    CHECK (status IN ('processing', 'processed', 'skipped', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_unfinished
+ON public.stripe_events(stripe_created_at) WHERE status IN ('processing', 'failed');
+CREATE INDEX IF NOT EXISTS idx_stripe_events_user_id ON public.stripe_events(user_id);
+
+-- Create subscription_history table
+CREATE TABLE IF NOT EXISTS public.subscription_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_event_id text NOT NULL UNIQUE,
+  kind text NOT NULL,
+  subscription_tier text,
+  amount_cents integer,
+  currency text,
+  period_end timestamptz,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'subscription_history' AND constraint_name = 'subscription_history_kind_check'
+  ) THEN
+    ALTER TABLE public.subscription_history
+    ADD CONSTRAINT subscription_history_kind_check
+    CHECK (kind IN (
+      'started', 'renewed', 'plan_changed', 'cancelled', 'resumed',
+      'payment_failed', 'payment_recovered', 'trial_ending', 'ended'
+    ));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_subscription_history_user_occurred
+ON public.subscription_history(user_id, occurred_at DESC);
+
+-- Add ordering columns to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'billing_period_end'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN billing_period_end timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'billing_event_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN billing_event_at timestamptz;
+  END IF;
+END $$;
+
+-- Enable Row Level Security
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscription_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own subscription history" ON public.subscription_history;
+CREATE POLICY "Users can view own subscription history"
+  ON public.subscription_history FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS handle_stripe_events_updated_at ON public.stripe_events;
+CREATE TRIGGER handle_stripe_events_updated_at
+  BEFORE UPDATE ON public.stripe_events
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,196 @@
+/*
+  # Server-Enforced Free-Tier Quotas
+
+  1. New Tables
+    - `feature_limits` - Daily free-tier allowance per AI feature
+      - `feature` (text, primary key) - e.g. 'affirmation-generator'
+      - `free_daily_limit` (integer) - Uses per local day without premium
+    - `feature_usage` - How often each user used each feature per local day
+      - `usage_date` (date) - The day in the user's own timezone
+      - `count` (integer) - Uses so far that day
+
+  2. New Functions
+    - `consume_feature_quota(user_uuid, feature_key)` - Counts one use if the user is
+      premium or still has free uses left today, in a single statement so parallel
+      requests can't overshoot. Only callable with the service role (the AI functions).
+    - `get_feature_quotas()` - Today's usage, limit and remaining uses per feature for
+      the signed-in user; limit and remaining are null for premium users.
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone signed in can read the limits; users can read their own usage
+    - Usage is only written through `consume_feature_quota`
+*/
+
+-- Create feature_limits table
+CREATE TABLE IF NOT EXISTS public.feature_limits (
+  feature text PRIMARY KEY,
+  free_daily_limit integer NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'feature_limits' AND constraint_name = 'feature_limits_free_daily_limit_check'
+  ) THEN
+    ALTER TABLE public.feature_limits
+    ADD CONSTRAINT feature_limits_free_daily_limit_check CHECK (free_daily_limit >= 0);
+  END IF;
+END $$;
+
+-- Same allowances the app used to count in the browser
+INSERT INTO public.feature_limits (feature, free_daily_limit) VALUES
+  ('mood-analyzer', 2),
+  ('affirmation-generator', 2),
+  ('mood-quote-generator', 2),
+  ('prompt-generator', 2),
+  ('voice-synthesis', 2)
+ON CONFLICT (feature) DO NOTHING;
+
+-- Create feature_usage table
+CREATE TABLE IF NOT EXISTS public.feature_usage (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text NOT NULL REFERENCES public.feature_limits(feature) ON DELETE CASCADE,
+  usage_date date NOT NULL,
+  count integer DEFAULT 0 NOT NULL,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, feature, usage_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.feature_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feature_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view feature limits" ON public.feature_limits;
+CREATE POLICY "Authenticated users can view feature limits"
+  ON public.feature_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view own feature usage" ON public.feature_usage;
+CREATE POLICY "Users can view own feature usage"
+  ON public.feature_usage FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS handle_feature_limits_updated_at ON public.feature_limits;
+CREATE TRIGGER handle_feature_limits_updated_at
+  BEFORE UPDATE ON public.feature_limits
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS handle_feature_usage_updated_at ON public.feature_usage;
+CREATE TRIGGER handle_feature_usage_updated_at
+  BEFORE UPDATE ON public.feature_usage
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to use one unit of a feature's daily quota
+CREATE OR REPLACE FUNCTION public.consume_feature_quota(user_uuid uuid, feature_key text)
+RETURNS TABLE (
+  allowed boolean,
+  used integer,
+  daily_limit integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  feature_limit integer;
+  user_is_premium boolean;
+  local_today date;
+  used_count integer;
+BEGIN
+  SELECT fl.free_daily_limit INTO feature_limit
+  FROM public.feature_limits fl
+  WHERE fl.feature = feature_key;
+
+  IF feature_limit IS NULL THEN
+    RAISE EXCEPTION 'Unknown feature %', feature_key;
+  END IF;
+
+  SELECT
+    COALESCE(p.subscription_status = 'premium'
+      AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now()), false),
+    (now() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date
+  INTO user_is_premium, local_today
+  FROM public.profiles p
+  WHERE p.user_id = user_uuid;
+
+  user_is_premium := COALESCE(user_is_premium, false);
+  local_today := COALESCE(local_today, (now() AT TIME ZONE 'UTC')::date);
+
+  IF NOT user_is_premium AND feature_limit = 0 THEN
+    RETURN QUERY SELECT false, 0, feature_limit;
+    RETURN;
+  END IF;
+
+  -- The WHERE makes the conflict update a no-op once the limit is reached
+  INSERT INTO public.feature_usage AS fu (user_id, feature, usage_date, count)
+  VALUES (user_uuid, feature_key, local_today, 1)
+  ON CONFLICT (user_id, feature, usage_date) DO UPDATE
+    SET count = fu.count + 1
+    WHERE user_is_premium OR fu.count < feature_limit
+  RETURNING fu.count INTO used_count;
+
+  IF used_count IS NULL THEN
+    SELECT fu.count INTO used_count
+    FROM public.feature_usage fu
+    WHERE fu.user_id = user_uuid AND fu.feature = feature_key AND fu.usage_date = local_today;
+
+    RETURN QUERY SELECT false, used_count, feature_limit;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, used_count, CASE WHEN user_is_premium THEN NULL ELSE feature_limit END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_feature_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_feature_quota(uuid, text) TO service_role;
+
+-- Function to read today's quotas for the signed-in user
+CREATE OR REPLACE FUNCTION public.get_feature_quotas()
+RETURNS TABLE (
+  feature text,
+  used integer,
+  daily_limit integer,
+  remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_is_premium boolean;
+  local_today date;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authorized to read feature quotas';
+  END IF;
+
+  SELECT
+    COALESCE(p.subscription_status = 'premium'
+      AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now()), false),
+    (now() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date
+  INTO user_is_premium, local_today
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+
+  user_is_premium := COALESCE(user_is_premium, false);
+  local_today := COALESCE(local_today, (now() AT TIME ZONE 'UTC')::date);
+
+  RETURN QUERY
+  SELECT
+    fl.feature,
+    COALESCE(fu.count, 0) AS used,
+    CASE WHEN user_is_premium THEN NULL ELSE fl.free_daily_limit END AS daily_limit,
+    CASE WHEN user_is_premium THEN NULL ELSE GREATEST(fl.free_daily_limit - COALESCE(fu.count, 0), 0) END AS remaining
+  FROM public.feature_limits fl
+  LEFT JOIN public.feature_usage fu
+    ON fu.feature = fl.feature AND fu.user_id = auth.uid() AND fu.usage_date = local_today
+  ORDER BY fl.feature;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_feature_quotas() TO authenticated;
@@ -0,0 +1,132 @@
+/*
+  # Gift Subscriptions and Referrals
+
+  1. New Tables
+    - `gift_codes` - Prepaid Premium bought as a gift, redeemable once by anyone
+      - `code` (text, unique) - e.g. 'GIFT-7KQ4-M2XD'
+      - `purchaser_user_id` (uuid) - Who bought it
+      - `stripe_session_id` (text, unique) - The checkout that paid for it, so webhook
+        retries don't create a second code
+      - `months` (integer) - Premium time it's worth
+      - `amount_cents`, `currency` - What was paid; subscribers get this as account credit
+      - `redeemed_by`, `redeemed_at` - Who used it and when
+    - `referrals` - A user who subscribed with someone's referral code
+      - `referred_user_id` (uuid, unique) - Each user can only be referred once
+      - `status` (text) - 'pending' until the referred user's first payment, then 'credited'
+
+  2. Profile Changes
+    - `referral_code` (text, unique) - The user's own code to share
+    - `billing_discount` (jsonb) - The promotion applied to the Stripe subscription, if any
+    - `gifted_premium_until` (timestamptz) - Premium from a gift or referral credit for users
+      without a Stripe subscription
+
+  3. Security
+    - Enable RLS on both tables
+    - Purchasers can read the gift codes they bought
+    - Users can read referrals they made or received
+    - Redeeming and crediting only happens in edge functions with the service role
+*/
+
+-- Add profile columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'referral_code'
+  ) THEN
+    -- A volatile default gives every existing profile its own code
+    ALTER TABLE public.profiles
+    ADD COLUMN referral_code text DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)) NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'billing_discount'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN billing_discount jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'gifted_premium_until'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN gifted_premium_until timestamptz;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_referral_code_key'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_referral_code_key UNIQUE (referral_code);
+  END IF;
+END $$;
+
+-- Create gift_codes table
+CREATE TABLE IF NOT EXISTS public.gift_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  purchaser_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  stripe_session_id text NOT NULL UNIQUE,
+  months integer DEFAULT 12 NOT NULL,
+  amount_cents integer,
+  currency text,
+  redeemed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'gift_codes' AND constraint_name = 'gift_codes_months_check'
+  ) THEN
+    ALTER TABLE public.gift_codes
+    ADD CONSTRAINT gift_codes_months_check CHECK (months > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_gift_codes_purchaser_user_id ON public.gift_codes(purchaser_user_id);
+
+-- Create referrals table
+CREATE TABLE IF NOT EXISTS public.referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referred_user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text DEFAULT 'pending' NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  credited_at timestamptz
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'referrals' AND constraint_name = 'referrals_status_check'
+  ) THEN
+    ALTER TABLE public.referrals
+    ADD CONSTRAINT referrals_status_check CHECK (status IN ('pending', 'credited'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_user_id ON public.referrals(referrer_user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.gift_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view gift codes they bought" ON public.gift_codes;
+CREATE POLICY "Users can view gift codes they bought"
+  ON public.gift_codes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = purchaser_user_id);
+
+DROP POLICY IF EXISTS "Users can view own referrals" ON public.referrals;
+CREATE POLICY "Users can view own referrals"
+  ON public.referrals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = referrer_user_id OR auth.uid() = referred_user_id);
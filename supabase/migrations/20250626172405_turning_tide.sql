@@ -0,0 +1,42 @@
+/*
+  # Scheduled Plan Changes
+
+  1. Profile Changes
+    - `scheduled_tier` (text) - Tier the subscription switches to at `scheduled_tier_at`;
+      set when a yearly subscriber chooses monthly, which takes effect at renewal
+    - `scheduled_tier_at` (timestamptz) - When the scheduled switch happens
+
+  2. Notes
+    - `subscription_tier` is still only written by `stripe-webhook`, from what Stripe
+      reports, for immediate upgrades and scheduled downgrades alike
+    - The webhook clears the schedule once the switch happens or the schedule is released
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'scheduled_tier'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN scheduled_tier text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'scheduled_tier_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN scheduled_tier_at timestamptz;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_scheduled_tier_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_scheduled_tier_check
+    CHECK (scheduled_tier IS NULL OR scheduled_tier IN ('premium', 'premium_plus'));
+  END IF;
+END $$;
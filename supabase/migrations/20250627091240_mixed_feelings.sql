@@ -0,0 +1,168 @@
+/*
+  # Emotions on Journal Entries
+
+  1. Schema Changes
+    - `journal_entries` gains the structured result of `analyze-mood`:
+      - `primary_emotion` (text) - The strongest emotion, from a fixed taxonomy
+      - `secondary_emotions` (text[]) - Up to two other emotions present
+      - `emotion_intensity` (smallint) - 1 (faint) to 5 (overwhelming)
+      - `emotion_triggers` (text[]) - Short phrases naming what brought the feelings on
+    - Index on (`user_id`, `primary_emotion`) for filtering history by emotion
+
+  2. Function Changes
+    - `search_journal_entries` also returns the emotion columns, so search results can be
+      filtered by emotion like loaded entries
+
+  3. Notes
+    - All columns are empty for older entries and for encrypted vault entries, whose
+      text is never sent for analysis
+    - `mood` is still written as before and stays the source for mood charts
+*/
+
+-- Add emotion columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'primary_emotion'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN primary_emotion text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'secondary_emotions'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN secondary_emotions text[] DEFAULT '{}' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'emotion_intensity'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN emotion_intensity smallint;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'emotion_triggers'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN emotion_triggers text[] DEFAULT '{}' NOT NULL;
+  END IF;
+END $$;
+
+-- Keep emotions to the taxonomy `analyze-mood` uses
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'journal_entries' AND constraint_name = 'journal_entries_emotions_check'
+  ) THEN
+    ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_emotions_check
+    CHECK (
+      (primary_emotion IS NULL OR primary_emotion IN (
+        'joyful', 'excited', 'grateful', 'hopeful', 'proud', 'loved', 'content', 'calm',
+        'reflective', 'tired', 'anxious', 'sad', 'lonely', 'frustrated', 'angry', 'overwhelmed'
+      ))
+      AND secondary_emotions <@ ARRAY[
+        'joyful', 'excited', 'grateful', 'hopeful', 'proud', 'loved', 'content', 'calm',
+        'reflective', 'tired', 'anxious', 'sad', 'lonely', 'frustrated', 'angry', 'overwhelmed'
+      ]::text[]
+      AND (emotion_intensity IS NULL OR emotion_intensity BETWEEN 1 AND 5)
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_emotion
+ON public.journal_entries (user_id, primary_emotion)
+WHERE primary_emotion IS NOT NULL;
+
+-- The result columns change, so the function has to be dropped first
+DROP FUNCTION IF EXISTS search_journal_entries(uuid, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_journal_entries(
+  user_uuid uuid,
+  search_query text,
+  result_limit integer DEFAULT 50,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  content text,
+  mood text,
+  tags text[],
+  primary_emotion text,
+  secondary_emotions text[],
+  emotion_intensity smallint,
+  emotion_triggers text[],
+  photo_url text,
+  photo_filename text,
+  is_encrypted boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  query tsquery;
+  user_is_premium boolean;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Not authorized to search entries for this user';
+  END IF;
+
+  query := websearch_to_tsquery('english', coalesce(search_query, ''));
+
+  -- Queries made only of stop words (or empty) match nothing
+  IF numnode(query) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    p.subscription_status = 'premium'
+    AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now())
+  INTO user_is_premium
+  FROM profiles p
+  WHERE p.user_id = user_uuid;
+
+  RETURN QUERY
+  SELECT
+    je.id,
+    je.user_id,
+    je.title,
+    je.content,
+    je.mood,
+    je.tags,
+    je.primary_emotion,
+    je.secondary_emotions,
+    je.emotion_intensity,
+    je.emotion_triggers,
+    je.photo_url,
+    je.photo_filename,
+    je.is_encrypted,
+    je.created_at,
+    je.updated_at,
+    ts_rank_cd(je.search_vector, query) AS rank,
+    ts_headline(
+      'english',
+      je.content,
+      query,
+      'StartSel="[[hl]]", StopSel="[[/hl]]", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND je.search_vector @@ query
+    AND (coalesce(user_is_premium, false) OR je.created_at > now() - interval '30 days')
+  ORDER BY ts_rank_cd(je.search_vector, query) DESC, je.created_at DESC, je.id DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 100)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_journal_entries(uuid, text, integer, integer) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Talk to Zeno Conversations
+
+  1. New Tables
+    - `entry_conversations` - Messages in a reflective chat about one journal entry
+      - `entry_id` (uuid) - The entry being discussed; removed with the entry
+      - `role` (text) - 'user' or 'assistant' (Zeno)
+      - `content` (text) - The message
+      - `created_at` (timestamptz) - Messages are shown oldest first
+
+  2. Data
+    - New `zeno-chat` feature in `feature_limits`; each reply from Zeno counts as one use
+
+  3. Security
+    - Enable RLS; users can read and delete messages about their own entries
+    - Messages are only written by the `chat-with-zeno` function with the service role
+
+  4. Notes
+    - Conversations aren't available for encrypted vault entries, since Zeno would
+      need to read the entry
+*/
+
+-- Create entry_conversations table
+CREATE TABLE IF NOT EXISTS public.entry_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'entry_conversations' AND constraint_name = 'entry_conversations_role_check'
+  ) THEN
+    ALTER TABLE public.entry_conversations
+    ADD CONSTRAINT entry_conversations_role_check CHECK (role IN ('user', 'assistant'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_entry_conversations_entry_created
+  ON public.entry_conversations (entry_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_entry_conversations_user_id
+  ON public.entry_conversations (user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.entry_conversations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own entry conversations" ON public.entry_conversations;
+CREATE POLICY "Users can view own entry conversations"
+  ON public.entry_conversations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own entry conversations" ON public.entry_conversations;
+CREATE POLICY "Users can delete own entry conversations"
+  ON public.entry_conversations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Free users get a few replies a day
+INSERT INTO public.feature_limits (feature, free_daily_limit) VALUES
+  ('zeno-chat', 5)
+ON CONFLICT (feature) DO NOTHING;
@@ -0,0 +1,268 @@
+/*
+  # Weekly and Monthly Reflections
+
+  1. New Tables
+    - `reflections` - An AI look back over one week or month of a user's journal
+      - `period` (text) - 'week' (Monday to Sunday) or 'month' (calendar month)
+      - `period_start` / `period_end` (date) - First and last day, in the user's timezone
+      - `summary` (text) - A short note from Zeno about the period
+      - `themes` (text[]) - Recurring themes
+      - `wins` (text[]) - Things that went well
+      - `intention` (text) - A suggested intention for the next period
+      - `mood_arc` (jsonb) - Average mood for each day journaled, from `get_mood_trends`
+      - `mood_direction` (text) - 'rising', 'falling', 'steady' or 'mixed'
+      - `entry_count` (integer) - Entries the reflection was written from
+      - `emailed_at` (timestamptz) - When it was emailed, if it was
+    - One reflection per user, period and start date
+
+  2. Changes
+    - Add `reflection_emails_enabled` to `profiles` (off by default)
+
+  3. New Functions
+    - `get_due_reflections(period_kind, min_entries, max_users)` - Users whose last full
+      week or month (in their own timezone) has enough readable entries and no reflection
+      yet, with the period's bounds. Accounts waiting to be deleted and vault users are
+      skipped. Only callable with the service role.
+
+  4. Changed Functions
+    - `get_mood_trends` can also be called with the service role, so reflections can
+      include the mood arc
+
+  5. Scheduling
+    - When `pg_cron` and `pg_net` are available, `generate-reflections` runs every hour so
+      each user's week and month are picked up soon after they end locally
+
+  6. Security
+    - Enable RLS; users can read and delete their own reflections
+    - Reflections are only written by `generate-reflections` with the service role
+
+  7. Notes
+    - Encrypted vault entries are never sent to the model, so they don't count toward
+      `min_entries`
+    - Vault users get no reflections at all: their entries from before the vault was
+      turned on are still plaintext, and the vault promises no entry text goes to AI
+*/
+
+-- Create reflections table
+CREATE TABLE IF NOT EXISTS public.reflections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  summary text NOT NULL,
+  themes text[] DEFAULT '{}'::text[] NOT NULL,
+  wins text[] DEFAULT '{}'::text[] NOT NULL,
+  intention text,
+  mood_arc jsonb DEFAULT '[]'::jsonb NOT NULL,
+  mood_direction text,
+  entry_count integer DEFAULT 0 NOT NULL,
+  emailed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, period, period_start)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'reflections' AND constraint_name = 'reflections_period_check'
+  ) THEN
+    ALTER TABLE public.reflections
+    ADD CONSTRAINT reflections_period_check CHECK (period IN ('week', 'month'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'reflections' AND constraint_name = 'reflections_mood_direction_check'
+  ) THEN
+    ALTER TABLE public.reflections
+    ADD CONSTRAINT reflections_mood_direction_check
+    CHECK (mood_direction IS NULL OR mood_direction IN ('rising', 'falling', 'steady', 'mixed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_reflections_user_period_end
+  ON public.reflections (user_id, period_end DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.reflections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reflections" ON public.reflections;
+CREATE POLICY "Users can view own reflections"
+  ON public.reflections FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own reflections" ON public.reflections;
+CREATE POLICY "Users can delete own reflections"
+  ON public.reflections FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add email opt-in to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'reflection_emails_enabled'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN reflection_emails_enabled boolean DEFAULT false NOT NULL;
+  END IF;
+END $$;
+
+-- Let the service role read mood trends for reflections
+CREATE OR REPLACE FUNCTION get_mood_trends(
+  user_uuid uuid,
+  days_back integer DEFAULT 30,
+  user_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  date_created date,
+  mood_level text,
+  entry_count bigint,
+  avg_mood_numeric numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not authorized to read trends for this user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (je.created_at AT TIME ZONE user_timezone)::date as date_created,
+    je.mood as mood_level,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM journal_entries je
+  WHERE je.user_id = user_uuid
+    AND (
+      days_back IS NULL
+      OR (je.created_at AT TIME ZONE user_timezone)::date > (now() AT TIME ZONE user_timezone)::date - days_back
+    )
+  GROUP BY 1, 2
+  ORDER BY 1 DESC;
+END;
+$$;
+
+-- Users whose last full week or month is ready for a reflection
+CREATE OR REPLACE FUNCTION public.get_due_reflections(
+  period_kind text,
+  min_entries integer DEFAULT 2,
+  max_users integer DEFAULT 50
+)
+RETURNS TABLE (
+  user_id uuid,
+  user_name text,
+  user_timezone text,
+  period_start date,
+  period_end date,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  email_enabled boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF period_kind NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Unknown reflection period: %', period_kind;
+  END IF;
+
+  RETURN QUERY
+  WITH local_periods AS (
+    SELECT
+      p.user_id,
+      p.name,
+      p.timezone,
+      p.reflection_emails_enabled,
+      CASE period_kind
+        WHEN 'week' THEN (date_trunc('week', now() AT TIME ZONE p.timezone) - interval '7 days')::date
+        ELSE (date_trunc('month', now() AT TIME ZONE p.timezone) - interval '1 month')::date
+      END as local_start,
+      CASE period_kind
+        WHEN 'week' THEN date_trunc('week', now() AT TIME ZONE p.timezone)::date
+        ELSE date_trunc('month', now() AT TIME ZONE p.timezone)::date
+      END as local_next_start
+    FROM public.profiles p
+    -- Quick cut of anyone who hasn't journaled within the longest period
+    WHERE p.last_entry_date IS NOT NULL
+      AND p.last_entry_date >= (now() AT TIME ZONE 'UTC')::date - 40
+  ),
+  bounded AS (
+    SELECT
+      lp.*,
+      lp.local_start::timestamp AT TIME ZONE lp.timezone as period_starts_at,
+      lp.local_next_start::timestamp AT TIME ZONE lp.timezone as period_ends_at
+    FROM local_periods lp
+  )
+  SELECT
+    b.user_id,
+    b.name as user_name,
+    b.timezone as user_timezone,
+    b.local_start as period_start,
+    b.local_next_start - 1 as period_end,
+    b.period_starts_at as starts_at,
+    b.period_ends_at as ends_at,
+    b.reflection_emails_enabled as email_enabled
+  FROM bounded b
+  WHERE NOT EXISTS (
+      SELECT 1 FROM public.reflections r
+      WHERE r.user_id = b.user_id AND r.period = period_kind AND r.period_start = b.local_start
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.account_deletions ad
+      WHERE ad.user_id = b.user_id AND ad.status = 'pending'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_encryption_keys k
+      WHERE k.user_id = b.user_id
+    )
+    AND (
+      SELECT COUNT(*) FROM public.journal_entries je
+      WHERE je.user_id = b.user_id
+        AND NOT je.is_encrypted
+        AND je.created_at >= b.period_starts_at
+        AND je.created_at < b.period_ends_at
+    ) >= min_entries
+  ORDER BY b.user_id
+  LIMIT max_users;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_due_reflections(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_reflections(text, integer, integer) TO service_role;
+
+-- Write reflections every hour where cron and outbound HTTP are available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'generate-reflections',
+      '20 * * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/generate-reflections',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
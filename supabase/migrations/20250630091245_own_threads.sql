@@ -0,0 +1,73 @@
+/*
+  # Personalized Prompts
+
+  1. Changes
+    - Add `prompt` and `prompt_category` to `journal_entries` - the prompt an entry
+      answered, if any, and its category
+    - Add `prompt_goals` to `profiles` - up to three goals the user chose for their
+      journaling, which prompts can work towards
+
+  2. Notes
+    - Prompt categories: 'gratitude', 'reframing' (CBT-style), 'self-compassion', 'goals'
+    - `generate-prompt` reads recent readable entries, goals and answered prompts with
+      the service role, so no new policies are needed
+    - The prompt is stored in plain text even on vault entries; it's written by Zeno
+      from readable entries only, never from encrypted ones
+*/
+
+-- Record which prompt an entry answered
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'prompt'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN prompt text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'journal_entries' AND column_name = 'prompt_category'
+  ) THEN
+    ALTER TABLE public.journal_entries ADD COLUMN prompt_category text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'journal_entries' AND constraint_name = 'journal_entries_prompt_category_check'
+  ) THEN
+    ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_prompt_category_check
+    CHECK (prompt_category IS NULL OR prompt_category IN ('gratitude', 'reframing', 'self-compassion', 'goals'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_answered_prompts
+  ON public.journal_entries (user_id, created_at DESC)
+  WHERE prompt IS NOT NULL;
+
+-- Goals the user is journaling towards
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'prompt_goals'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN prompt_goals text[] DEFAULT '{}'::text[] NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_prompt_goals_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_prompt_goals_check
+    CHECK (
+      cardinality(prompt_goals) <= 3
+      AND prompt_goals <@ ARRAY[
+        'reduce-stress', 'sleep-better', 'build-confidence', 'strengthen-relationships',
+        'find-balance', 'handle-change', 'be-kinder-to-myself'
+      ]::text[]
+    );
+  END IF;
+END $$;
@@ -0,0 +1,175 @@
+/*
+  # Protect Billing Columns and Count Quotas by UTC Day
+
+  1. Security
+    - Billing and subscription columns on `profiles` can no longer be changed by the app.
+      The baseline "Users can update own profile" policy covers every column, so a user
+      could mark themselves premium and skip the free-tier quotas. A BEFORE trigger keeps
+      the stored values for the `authenticated` role, like `protect_streak_freezes` does
+      for streak freezes, and gives profiles the app inserts the free defaults.
+    - Protected: `subscription_status`, `subscription_tier`, `subscription_expires_at`,
+      `revenuecat_user_id`, `payment_status`, `payment_failed_at`, `grace_period_ends_at`,
+      `trial_ends_at`, `billing_period_end`, `billing_event_at`, `scheduled_tier`,
+      `scheduled_tier_at`, `billing_discount`, `gifted_premium_until`
+    - Edge functions write these with the service role and are unaffected
+
+  2. Quota Changes
+    - `consume_feature_quota` and `get_feature_quotas` count uses per UTC day. The user
+      sets `timezone` from their browser, so it can't decide when their allowance resets.
+*/
+
+-- Keep billing columns out of reach of direct profile writes from the app
+CREATE OR REPLACE FUNCTION public.protect_billing_columns()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.subscription_status := 'free';
+    NEW.subscription_tier := 'free';
+    NEW.subscription_expires_at := NULL;
+    NEW.revenuecat_user_id := NULL;
+    NEW.payment_status := 'ok';
+    NEW.payment_failed_at := NULL;
+    NEW.grace_period_ends_at := NULL;
+    NEW.trial_ends_at := NULL;
+    NEW.billing_period_end := NULL;
+    NEW.billing_event_at := NULL;
+    NEW.scheduled_tier := NULL;
+    NEW.scheduled_tier_at := NULL;
+    NEW.billing_discount := NULL;
+    NEW.gifted_premium_until := NULL;
+  ELSE
+    NEW.subscription_status := OLD.subscription_status;
+    NEW.subscription_tier := OLD.subscription_tier;
+    NEW.subscription_expires_at := OLD.subscription_expires_at;
+    NEW.revenuecat_user_id := OLD.revenuecat_user_id;
+    NEW.payment_status := OLD.payment_status;
+    NEW.payment_failed_at := OLD.payment_failed_at;
+    NEW.grace_period_ends_at := OLD.grace_period_ends_at;
+    NEW.trial_ends_at := OLD.trial_ends_at;
+    NEW.billing_period_end := OLD.billing_period_end;
+    NEW.billing_event_at := OLD.billing_event_at;
+    NEW.scheduled_tier := OLD.scheduled_tier;
+    NEW.scheduled_tier_at := OLD.scheduled_tier_at;
+    NEW.billing_discount := OLD.billing_discount;
+    NEW.gifted_premium_until := OLD.gifted_premium_until;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_billing_columns ON public.profiles;
+
+CREATE TRIGGER protect_billing_columns
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_billing_columns();
+
+-- Function to use one unit of a feature's daily quota
+CREATE OR REPLACE FUNCTION public.consume_feature_quota(user_uuid uuid, feature_key text)
+RETURNS TABLE (
+  allowed boolean,
+  used integer,
+  daily_limit integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  feature_limit integer;
+  user_is_premium boolean;
+  quota_day date := (now() AT TIME ZONE 'UTC')::date;
+  used_count integer;
+BEGIN
+  SELECT fl.free_daily_limit INTO feature_limit
+  FROM public.feature_limits fl
+  WHERE fl.feature = feature_key;
+
+  IF feature_limit IS NULL THEN
+    RAISE EXCEPTION 'Unknown feature %', feature_key;
+  END IF;
+
+  SELECT
+    COALESCE(p.subscription_status = 'premium'
+      AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now()), false)
+  INTO user_is_premium
+  FROM public.profiles p
+  WHERE p.user_id = user_uuid;
+
+  user_is_premium := COALESCE(user_is_premium, false);
+
+  IF NOT user_is_premium AND feature_limit = 0 THEN
+    RETURN QUERY SELECT false, 0, feature_limit;
+    RETURN;
+  END IF;
+
+  -- The WHERE makes the conflict update a no-op once the limit is reached
+  INSERT INTO public.feature_usage AS fu (user_id, feature, usage_date, count)
+  VALUES (user_uuid, feature_key, quota_day, 1)
+  ON CONFLICT (user_id, feature, usage_date) DO UPDATE
+    SET count = fu.count + 1
+    WHERE user_is_premium OR fu.count < feature_limit
+  RETURNING fu.count INTO used_count;
+
+  IF used_count IS NULL THEN
+    SELECT fu.count INTO used_count
+    FROM public.feature_usage fu
+    WHERE fu.user_id = user_uuid AND fu.feature = feature_key AND fu.usage_date = quota_day;
+
+    RETURN QUERY SELECT false, used_count, feature_limit;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, used_count, CASE WHEN user_is_premium THEN NULL ELSE feature_limit END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_feature_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_feature_quota(uuid, text) TO service_role;
+
+-- Function to read today's quotas for the signed-in user
+CREATE OR REPLACE FUNCTION public.get_feature_quotas()
+RETURNS TABLE (
+  feature text,
+  used integer,
+  daily_limit integer,
+  remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_is_premium boolean;
+  quota_day date := (now() AT TIME ZONE 'UTC')::date;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authorized to read feature quotas';
+  END IF;
+
+  SELECT
+    COALESCE(p.subscription_status = 'premium'
+      AND (p.subscription_expires_at IS NULL OR p.subscription_expires_at > now()), false)
+  INTO user_is_premium
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+
+  user_is_premium := COALESCE(user_is_premium, false);
+
+  RETURN QUERY
+  SELECT
+    fl.feature,
+    COALESCE(fu.count, 0) AS used,
+    CASE WHEN user_is_premium THEN NULL ELSE fl.free_daily_limit END AS daily_limit,
+    CASE WHEN user_is_premium THEN NULL ELSE GREATEST(fl.free_daily_limit - COALESCE(fu.count, 0), 0) END AS remaining
+  FROM public.feature_limits fl
+  LEFT JOIN public.feature_usage fu
+    ON fu.feature = fl.feature AND fu.user_id = auth.uid() AND fu.usage_date = quota_day
+  ORDER BY fl.feature;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_feature_quotas() TO authenticated;
@@ -0,0 +1,60 @@
+/*
+  # Prefixed, Read-Only Referral Codes
+
+  1. Changes
+    - Referral codes now look like 'REF-3F9A12BC'. Redemption only looks up codes with
+      this prefix as referrals, so a referral code can never shadow a Stripe promotion
+      code with the same text.
+    - Existing codes get the prefix added
+    - New function `generate_referral_code()` makes a code; it's the column default
+
+  2. Security
+    - `referral_code` can no longer be changed by the app. The "Users can update own
+      profile" policy covers every column, so a user could set their code to a live
+      promotion code and collect other people's redemptions as referral credit.
+    - Profiles the app inserts always get a generated code
+*/
+
+CREATE OR REPLACE FUNCTION public.generate_referral_code()
+RETURNS text AS $$
+  SELECT 'REF-' || upper(substr(md5(gen_random_uuid()::text), 1, 8));
+$$ LANGUAGE sql VOLATILE;
+
+ALTER TABLE public.profiles ALTER COLUMN referral_code SET DEFAULT public.generate_referral_code();
+
+UPDATE public.profiles
+SET referral_code = 'REF-' || referral_code
+WHERE referral_code !~ '^REF-';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_referral_code_check'
+  ) THEN
+    ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_referral_code_check CHECK (referral_code ~ '^REF-[A-Z0-9]{8}$');
+  END IF;
+END $$;
+
+-- Keep referral codes out of reach of direct profile writes from the app
+CREATE OR REPLACE FUNCTION public.protect_referral_code()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.referral_code := public.generate_referral_code();
+    ELSE
+      NEW.referral_code := OLD.referral_code;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_referral_code ON public.profiles;
+
+CREATE TRIGGER protect_referral_code
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_referral_code();
@@ -0,0 +1,27 @@
+/*
+  # Refund Quota Uses That Didn't Reach the User
+
+  1. New Functions
+    - `refund_feature_quota(user_uuid, feature_key)` - Gives back one of today's uses.
+      The AI functions count a use before calling the model, so parallel requests can't
+      overshoot the limit, and call this when the model fails or a fallback is returned.
+      Only callable with the service role.
+*/
+
+CREATE OR REPLACE FUNCTION public.refund_feature_quota(user_uuid uuid, feature_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.feature_usage
+  SET count = count - 1
+  WHERE user_id = user_uuid
+    AND feature = feature_key
+    AND usage_date = (now() AT TIME ZONE 'UTC')::date
+    AND count > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_feature_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_feature_quota(uuid, text) TO service_role;
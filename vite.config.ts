@@ -1,11 +1,75 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import { fonts as journalFonts } from './src/data/fonts';
+
+// Build output the service worker shouldn't precache
+const PRECACHE_EXCLUDE = [/^sw\.js$/, /^stats\.html$/, /\.map$/];
+
+const GOOGLE_FONTS_CSS = 'https://fonts.googleapis.com/css2';
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  );
+
+/**
+ * Writes the list of built files into dist/sw.js so the service worker can
+ * cache the whole app shell on install. The version is a hash of those files,
+ * so every deploy that changes them installs a fresh cache.
+ */
+function precacheManifest(): Plugin {
+  let outDir = 'dist';
+
+  return {
+    name: 'zensai-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir;
+    },
+    closeBundle() {
+      const hash = createHash('sha256');
+      const urls = listFiles(outDir)
+        .map(file => relative(outDir, file).split(sep).join('/'))
+        .filter(file => !PRECACHE_EXCLUDE.some(pattern => pattern.test(file)))
+        .sort()
+        .map(file => {
+          hash.update(file).update(readFileSync(join(outDir, file)));
+          return encodeURI(`/${file}`);
+        });
+
+      const html = readFileSync(join(outDir, 'index.html'), 'utf-8');
+      const fonts = Array.from(
+        html.matchAll(/href="(https:\/\/fonts\.googleapis\.com\/[^"]+)"/g),
+        match => match[1].replace(/&amp;/g, '&')
+      );
+
+      // Journal fonts are only fetched once chosen, so they'd be missing offline
+      const families = journalFonts
+        .map(font => `family=${font.name.replace(/ /g, '+')}`)
+        .filter(family => !fonts.some(url => url.includes(`${family}:`) || url.includes(`${family}&`)));
+      if (families.length > 0) {
+        fonts.push(`${GOOGLE_FONTS_CSS}?${families.map(family => `${family}:wght@400;700`).join('&')}&display=swap`);
+      }
+
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls, fonts };
+      const swPath = join(outDir, 'sw.js');
+      writeFileSync(
+        swPath,
+        readFileSync(swPath, 'utf-8').replace('self.__PRECACHE_MANIFEST__', JSON.stringify(manifest))
+      );
+    }
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    precacheManifest(),
     visualizer({
       open: true,
       gzipSize: true,
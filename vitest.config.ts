@@ -1,8 +1,27 @@
-import { defineConfig } from 'vitest/config';
+import { defineConfig, Plugin } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 
+const DENO_SPECIFIER = /^(npm:|jsr:|https?:\/\/)/;
+
+/**
+ * Lets tests import edge functions, which use Deno's `npm:` and URL imports.
+ * These resolve to an empty module; tests replace the ones a function uses with `vi.mock`.
+ */
+function denoSpecifiers(): Plugin {
+  return {
+    name: 'zensai-deno-specifiers',
+    enforce: 'pre',
+    resolveId(id) {
+      return DENO_SPECIFIER.test(id) ? `\0deno:${id}` : null;
+    },
+    load(id) {
+      return id.startsWith('\0deno:') ? 'export default {};' : null;
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), denoSpecifiers()],
   test: {
     environment: 'jsdom',
     globals: true,